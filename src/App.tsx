@@ -1,6 +1,8 @@
 import React, { useEffect, Suspense } from 'react'
 import { BrowserRouter as Router, Routes, Route, Navigate } from 'react-router-dom'
 import { useAuth } from './hooks/useAuth'
+import { usePermissions } from './hooks/usePermission'
+import { Permission } from './lib/supabase'
 import { AuthRedirector } from './components/AuthRedirector'
 import { ProtectedRoute } from './components/ProtectedRoute'
 import { ErrorBoundary } from './components/ErrorBoundary'
@@ -13,6 +15,9 @@ const Signup = React.lazy(() => import('./components/Signup').then(module => ({
 const Inventory = React.lazy(() => import('./components/Inventory').then(module => ({ default: module.Inventory })))
 const ProductList = React.lazy(() => import('./components/ProductList').then(module => ({ default: module.ProductList })))
 const Categories = React.lazy(() => import('./components/Categories').then(module => ({ default: module.Categories })))
+const Receivables = React.lazy(() => import('./components/Receivables').then(module => ({ default: module.Receivables })))
+const EmailLogs = React.lazy(() => import('./components/EmailLogs').then(module => ({ default: module.EmailLogs })))
+const PriceLists = React.lazy(() => import('./components/PriceLists').then(module => ({ default: module.PriceLists })))
 const Customers = React.lazy(() => import('./components/Customers').then(module => ({ default: module.Customers })))
 const ServiceCustomer = React.lazy(() => import('./components/ServiceCustomer').then(module => ({ default: module.ServiceCustomer })))
 const SalesOrders = React.lazy(() => import('./components/SalesOrders').then(module => ({ default: module.SalesOrders })))
@@ -27,6 +32,7 @@ const SystemSettings = React.lazy(() => import('./components/SystemSettings').th
 
 function App() {
   const { user, loading, connectionError } = useAuth()
+  const { can, loading: permissionsLoading } = usePermissions()
 
   // Debug user object and loading state changes
   useEffect(() => {
@@ -71,10 +77,11 @@ function App() {
     )
   }
 
-  const redirectIfGuard = (component: JSX.Element) => {
-    return user?.role === 'Security Guard'
-      ? <Navigate to="/sales-orders" replace />
-      : component
+  // Pages the user's role does not grant send them back to Sales Orders, which everyone has.
+  // Nothing is decided until the permissions have loaded, so a refresh does not bounce them.
+  const requirePermission = (permission: Permission, component: JSX.Element) => {
+    if (permissionsLoading) return null
+    return can(permission) ? component : <Navigate to="/sales-orders" replace />
   }
 
   return (
@@ -93,11 +100,7 @@ function App() {
             path="/" 
             element={
               user ? (
-                user.role === 'Security Guard' ? (
-                  <Navigate to="/sales-orders" replace />
-                ) : (
-                  <Navigate to="/sales-orders" replace /> // Updated from /dashboard to /sales-orders
-                )
+                <Navigate to="/sales-orders" replace />
               ) : (
                 <Navigate to="/login" replace />
               )
@@ -107,23 +110,11 @@ function App() {
           {/* Public Routes */}
           <Route
             path="/login"
-            element={user ? (
-              user.role === 'Security Guard' ? (
-                <Navigate to="/sales-orders" replace />
-              ) : (
-                <Navigate to="/sales-orders" replace /> // Updated from /dashboard to /sales-orders
-              )
-            ) : <Login />}
+            element={user ? <Navigate to="/sales-orders" replace /> : <Login />}
           />
           <Route
             path="/signup"
-            element={user ? (
-              user.role === 'Security Guard' ? (
-                <Navigate to="/sales-orders" replace />
-              ) : (
-                <Navigate to="/sales-orders" replace /> // Updated from /dashboard to /sales-orders
-              )
-            ) : <Signup />}
+            element={user ? <Navigate to="/sales-orders" replace /> : <Signup />}
           />
 
           {/* Protected Routes with Layout */}
@@ -148,7 +139,7 @@ function App() {
               path="products"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<ProductList />)}
+                  {requirePermission('catalog.view', <ProductList />)}
                 </ErrorBoundary>
               }
             />
@@ -156,7 +147,15 @@ function App() {
               path="categories"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<Categories />)}
+                  {requirePermission('catalog.view', <Categories />)}
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="price-lists"
+              element={
+                <ErrorBoundary>
+                  {requirePermission('prices.edit', <PriceLists />)}
                 </ErrorBoundary>
               }
             />
@@ -164,7 +163,7 @@ function App() {
               path="customers"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<Customers />)}
+                  {requirePermission('customers.view', <Customers />)}
                 </ErrorBoundary>
               }
             />
@@ -172,7 +171,7 @@ function App() {
               path="service"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<ServiceCustomer />)}
+                  {requirePermission('service.use', <ServiceCustomer />)}
                 </ErrorBoundary>
               }
             />
@@ -196,7 +195,7 @@ function App() {
               path="user-management"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<UserManagement />)}
+                  {requirePermission('users.manage', <UserManagement />)}
                 </ErrorBoundary>
               }
             />
@@ -212,7 +211,7 @@ function App() {
               path="on-demand-orders"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<OnDemandOrders />)}
+                  {requirePermission('on_demand.orders.view', <OnDemandOrders />)}
                 </ErrorBoundary>
               }
             />
@@ -220,7 +219,7 @@ function App() {
               path="on-demand-reports"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<OnDemandReports />)}
+                  {requirePermission('on_demand.reports', <OnDemandReports />)}
                 </ErrorBoundary>
               }
             />
@@ -228,7 +227,7 @@ function App() {
               path="security-incomplete-orders"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<SecurityCheckIncompleteOrders />)}
+                  {requirePermission('orders.security_review', <SecurityCheckIncompleteOrders />)}
                 </ErrorBoundary>
               }
             />
@@ -236,7 +235,23 @@ function App() {
               path="vehicle-management"
               element={
                 <ErrorBoundary>
-                  {redirectIfGuard(<VehicleManagement />)}
+                  {requirePermission('vehicles.manage', <VehicleManagement />)}
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="receivables"
+              element={
+                <ErrorBoundary>
+                  {requirePermission('receivables.manage', <Receivables />)}
+                </ErrorBoundary>
+              }
+            />
+            <Route
+              path="email-logs"
+              element={
+                <ErrorBoundary>
+                  {requirePermission('emails.manage', <EmailLogs />)}
                 </ErrorBoundary>
               }
             />
@@ -244,7 +259,7 @@ function App() {
               path="system-settings"
               element={
                 <ErrorBoundary>
-                  {user?.role === 'Super Admin' ? <SystemSettings /> : <Navigate to="/sales-orders" replace />}
+                  {requirePermission('settings.manage', <SystemSettings />)}
                 </ErrorBoundary>
               }
             />
@@ -1,7 +1,10 @@
 import React, { useState, useEffect } from 'react'
-import { Plus, Save, Trash2, X, Calendar, User, Package, FileText, Search, Filter, Car, ChevronDown, ChevronRight } from 'lucide-react'
+import { Plus, Save, Trash2, X, Calendar, User, Package, FileText, Search, Filter, Car, ChevronDown, ChevronRight, ClipboardCheck } from 'lucide-react'
 import { supabase, Product, User as UserType, OnDemandAssignment } from '../lib/supabase'
-import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermission'
+import { cancelOnDemandAssignment, createOnDemandAssignment, remainingQuantity } from '../lib/onDemandService'
+import { OnDemandReconciliationModal } from './OnDemandReconciliationModal'
+import { StockRequestQueue } from './StockRequestQueue'
 
 interface ProductAssignment {
   id: string
@@ -12,7 +15,8 @@ interface ProductAssignment {
 }
 
 export const AssignOnDemandProducts: React.FC = () => {
-  const { user } = useAuth()
+  const { can } = usePermissions()
+  const canAssign = can('on_demand.assign')
   const [salesReps, setSalesReps] = useState<UserType[]>([])
   const [products, setProducts] = useState<Product[]>([])
   const [assignments, setAssignments] = useState<OnDemandAssignment[]>([])
@@ -20,7 +24,7 @@ export const AssignOnDemandProducts: React.FC = () => {
   const [showModal, setShowModal] = useState(false)
   const [filterSalesRepId, setFilterSalesRepId] = useState('')
   const [filterVehicleNumber, setFilterVehicleNumber] = useState('')
-  const [statusFilter, setStatusFilter] = useState<'all' | 'active' | 'completed' | 'cancelled'>('all')
+  const [statusFilter, setStatusFilter] = useState<'all' | OnDemandAssignment['status']>('all')
   const [filterStartDate, setFilterStartDate] = useState('')
   const [filterEndDate, setFilterEndDate] = useState('')
   const [formData, setFormData] = useState({
@@ -33,6 +37,7 @@ export const AssignOnDemandProducts: React.FC = () => {
   const [saving, setSaving] = useState(false)
   const [expandedAssignmentId, setExpandedAssignmentId] = useState<string | null>(null)
   const [isAssignmentsFromCache, setIsAssignmentsFromCache] = useState(false)
+  const [reconcilingAssignment, setReconcilingAssignment] = useState<OnDemandAssignment | null>(null)
 
   useEffect(() => {
     fetchSalesReps()
@@ -126,7 +131,7 @@ export const AssignOnDemandProducts: React.FC = () => {
 
       let query = supabase
         .from('on_demand_assignments')
-        .select(`id, sales_rep_id, assigned_by, assignment_date, notes, status, vehicle_number, assignment_type, sales_rep:users!on_demand_assignments_sales_rep_id_fkey(username), assigned_by_user:users!on_demand_assignments_assigned_by_fkey(username), assignment_items:on_demand_assignment_items(id, on_demand_assignment_id, product_id, assigned_quantity, sold_quantity, returned_quantity, products(name, quantity, categories(category_name)))`)
+        .select(`id, sales_rep_id, assigned_by, assignment_date, notes, status, vehicle_number, assignment_type, sales_rep:users!on_demand_assignments_sales_rep_id_fkey(username), assigned_by_user:users!on_demand_assignments_assigned_by_fkey(username), assignment_items:on_demand_assignment_items(id, on_demand_assignment_id, product_id, assigned_quantity, sold_quantity, returned_quantity, transferred_in_quantity, transferred_out_quantity, products(name, quantity, categories(category_name)))`)
 
       // Apply filters
       if (filterSalesRepId) {
@@ -239,49 +244,17 @@ export const AssignOnDemandProducts: React.FC = () => {
 
     setSaving(true)
     try {
-      // Create assignment
-      const { data: assignmentData, error: assignmentError } = await supabase
-        .from('on_demand_assignments')
-        .insert([{
-          sales_rep_id: formData.sales_rep_id,
-          assigned_by: user?.id,
-          assignment_date: formData.assignment_date,
-          notes: formData.notes,
-          vehicle_number: formData.vehicle_number.trim() || null,
-          assignment_type: 'admin_assigned'
-        }])
-        .select()
-        .single()
-
-      if (assignmentError) throw assignmentError
-
-      // Create assignment items
-      const assignmentItems = validAssignments.map(item => ({
-        on_demand_assignment_id: assignmentData.id,
-        product_id: item.product_id,
-        assigned_quantity: item.assigned_quantity
-      }))
-
-      const { error: itemsError } = await supabase
-        .from('on_demand_assignment_items')
-        .insert(assignmentItems)
-
-      if (itemsError) throw itemsError
-
-      // Update product quantities (reduce from main inventory)
-      for (const assignment of validAssignments) {
-        const product = products.find(p => p.id === assignment.product_id)
-        if (product) {
-          const { error: updateError } = await supabase
-            .from('products')
-            .update({ 
-              quantity: product.quantity - assignment.assigned_quantity 
-            })
-            .eq('id', assignment.product_id)
-
-          if (updateError) throw updateError
-        }
-      }
+      // Assignment, items and the stock taken out of inventory are created atomically on the server
+      await createOnDemandAssignment({
+        salesRepId: formData.sales_rep_id,
+        assignmentDate: formData.assignment_date,
+        vehicleNumber: formData.vehicle_number.trim() || null,
+        notes: formData.notes,
+        items: validAssignments.map(item => ({
+          productId: item.product_id,
+          quantity: item.assigned_quantity
+        }))
+      })
 
       alert('Assignment created successfully!')
       setShowModal(false)
@@ -296,7 +269,7 @@ export const AssignOnDemandProducts: React.FC = () => {
       fetchProducts()
     } catch (error) {
       console.error('Error creating assignment:', error)
-      alert('Failed to create assignment. Please try again.')
+      alert(error instanceof Error ? error.message : 'Failed to create assignment. Please try again.')
     } finally {
       setSaving(false)
     }
@@ -308,43 +281,14 @@ export const AssignOnDemandProducts: React.FC = () => {
     }
 
     try {
-      // Get assignment items to return quantities to inventory
-      const { data: items, error: itemsError } = await supabase
-        .from('on_demand_assignment_items')
-        .select('*, products(*)')
-        .eq('on_demand_assignment_id', assignmentId)
-
-      if (itemsError) throw itemsError
-
-      // Return unsold quantities to inventory
-      for (const item of items || []) {
-        const unsoldQuantity = item.assigned_quantity - item.sold_quantity - item.returned_quantity
-        if (unsoldQuantity > 0 && item.products) {
-          const { error: updateError } = await supabase
-            .from('products')
-            .update({ 
-              quantity: item.products.quantity + unsoldQuantity 
-            })
-            .eq('id', item.product_id)
-
-          if (updateError) throw updateError
-        }
-      }
-
-      // Update assignment status
-      const { error: statusError } = await supabase
-        .from('on_demand_assignments')
-        .update({ status: 'cancelled' })
-        .eq('id', assignmentId)
-
-      if (statusError) throw statusError
+      await cancelOnDemandAssignment(assignmentId)
 
       alert('Assignment cancelled successfully!')
       fetchAssignments()
       fetchProducts()
     } catch (error) {
       console.error('Error cancelling assignment:', error)
-      alert('Failed to cancel assignment. Please try again.')
+      alert(error instanceof Error ? error.message : 'Failed to cancel assignment. Please try again.')
     }
   }
 
@@ -362,6 +306,8 @@ export const AssignOnDemandProducts: React.FC = () => {
 
   const getStatusColor = (status: string) => {
     switch (status) {
+      case 'requested':
+        return 'bg-yellow-100 text-yellow-800'
       case 'active':
         return 'bg-green-100 text-green-800'
       case 'completed':
@@ -373,13 +319,13 @@ export const AssignOnDemandProducts: React.FC = () => {
     }
   }
 
-  if (!['Super Admin', 'Admin', 'Security Guard'].includes(user?.role)) {
+  if (!can('on_demand.assignments.view')) {
     return (
       <div className="p-6">
         <div className="text-center py-12">
           <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Only Admins can assign On Demand products.</p>
+          <p className="text-gray-600">You do not have permission to view On Demand assignments.</p>
         </div>
       </div>
     )
@@ -397,7 +343,7 @@ export const AssignOnDemandProducts: React.FC = () => {
     <div className="p-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
         <h1 className="text-2xl font-bold text-gray-900">Assign On Demand Products</h1>
-        {['Super Admin', 'Admin'].includes(user?.role) && (
+        {canAssign && (
           <button
             onClick={() => setShowModal(true)}
             className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
@@ -408,6 +354,15 @@ export const AssignOnDemandProducts: React.FC = () => {
         )}
       </div>
 
+      {canAssign && (
+        <StockRequestQueue
+          onReviewed={() => {
+            fetchAssignments()
+            fetchProducts()
+          }}
+        />
+      )}
+
       {/* Cache Indicator */}
       {isAssignmentsFromCache && (
         <div className="mb-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
@@ -454,13 +409,15 @@ export const AssignOnDemandProducts: React.FC = () => {
             <Filter className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
             <select
               value={statusFilter}
-              onChange={(e) => setStatusFilter(e.target.value as 'all' | 'active' | 'completed' | 'cancelled')}
+              onChange={(e) => setStatusFilter(e.target.value as 'all' | OnDemandAssignment['status'])}
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
             >
               <option value="all">All Statuses</option>
+              <option value="requested">Requested</option>
               <option value="active">Active</option>
               <option value="completed">Completed</option>
               <option value="cancelled">Cancelled</option>
+              <option value="rejected">Rejected</option>
             </select>
           </div>
 
@@ -519,7 +476,16 @@ export const AssignOnDemandProducts: React.FC = () => {
                     </div>
                   </div>
                   <div className="flex items-center space-x-2 ml-3">
-                    {assignment.status === 'active' && ['Super Admin', 'Admin'].includes(user?.role) && (
+                    {(assignment.status === 'completed' || (assignment.status === 'active' && canAssign)) && (
+                      <button
+                        onClick={() => setReconcilingAssignment(assignment)}
+                        className="p-2.5 text-green-600 bg-green-100 rounded-full hover:bg-green-200 touch-manipulation"
+                        title={assignment.status === 'active' ? 'Reconcile and close' : 'View reconciliation'}
+                      >
+                        <ClipboardCheck className="w-5 h-5" />
+                      </button>
+                    )}
+                    {assignment.status === 'active' && canAssign && (
                       <button
                         onClick={() => handleCancelAssignment(assignment.id)} // Increased padding for better touch target
                         className="p-2.5 text-red-600 bg-red-100 rounded-full hover:bg-red-200 touch-manipulation"
@@ -677,7 +643,19 @@ export const AssignOnDemandProducts: React.FC = () => {
                         )}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
-                        {assignment.status === 'active' && ['Super Admin', 'Admin'].includes(user?.role) && (
+                        {(assignment.status === 'completed' || (assignment.status === 'active' && canAssign)) && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setReconcilingAssignment(assignment)
+                            }}
+                            className="p-2 text-green-600 hover:text-green-900 rounded-full hover:bg-green-100"
+                            title={assignment.status === 'active' ? 'Reconcile and close' : 'View reconciliation'}
+                          >
+                            <ClipboardCheck className="w-4 h-4" />
+                          </button>
+                        )}
+                        {assignment.status === 'active' && canAssign && (
                           <button
                             onClick={(e) => {
                               e.stopPropagation()
@@ -735,6 +713,7 @@ export const AssignOnDemandProducts: React.FC = () => {
                                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Assigned (kg)</th>
                                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Sold (kg)</th>
                                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Returned (kg)</th>
+                                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Transferred In / Out (kg)</th>
                                       <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Remaining (kg)</th>
                                     </tr>
                                   </thead>
@@ -765,13 +744,18 @@ export const AssignOnDemandProducts: React.FC = () => {
                                             {item.returned_quantity}
                                           </span>
                                         </td>
+                                        <td className="px-4 py-2 text-sm text-gray-900">
+                                          <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                                            {item.transferred_in_quantity} / {item.transferred_out_quantity}
+                                          </span>
+                                        </td>
                                         <td className="px-4 py-2 text-sm text-gray-900">
                                           <span className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
-                                            (item.assigned_quantity - item.sold_quantity - item.returned_quantity) > 0 
+                                            remainingQuantity(item) > 0
                                               ? 'bg-gray-100 text-gray-800' 
                                               : 'bg-gray-50 text-gray-500'
                                           }`}>
-                                            {item.assigned_quantity - item.sold_quantity - item.returned_quantity}
+                                            {remainingQuantity(item)}
                                           </span>
                                         </td>
                                       </tr>
@@ -792,6 +776,19 @@ export const AssignOnDemandProducts: React.FC = () => {
         </div>
       </div>
 
+      {reconcilingAssignment && (
+        <OnDemandReconciliationModal
+          assignment={reconcilingAssignment}
+          canClose={canAssign}
+          onClose={() => setReconcilingAssignment(null)}
+          onClosed={() => {
+            setReconcilingAssignment(null)
+            fetchAssignments()
+            fetchProducts()
+          }}
+        />
+      )}
+
       {/* Assignment Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
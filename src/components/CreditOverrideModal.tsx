@@ -0,0 +1,124 @@
+import React, { useState } from 'react'
+import { X, Save, ShieldCheck } from 'lucide-react'
+import { Customer, CustomerCreditStatus } from '../lib/supabase'
+import { evaluateCreditCheck, grantCreditOverride } from '../lib/receivablesService'
+
+interface CreditOverrideModalProps {
+  customer: Pick<Customer, 'id' | 'name' | 'customer_display_id'>
+  creditStatus: CustomerCreditStatus | null
+  userId?: string
+  onClose: () => void
+  onGranted: () => void
+}
+
+export const CreditOverrideModal: React.FC<CreditOverrideModalProps> = ({
+  customer,
+  creditStatus,
+  userId,
+  onClose,
+  onGranted
+}) => {
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    reason: '',
+    valid_until: new Date().toISOString().split('T')[0]
+  })
+
+  const creditCheck = evaluateCreditCheck(creditStatus, 0)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!form.reason.trim()) {
+      alert('Please enter a reason for the override')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await grantCreditOverride(customer.id, form.reason, form.valid_until, userId)
+      alert('Credit override approved. The next order for this customer can be placed.')
+      onGranted()
+    } catch (error) {
+      console.error('Error granting credit override:', error)
+      alert(error instanceof Error ? error.message : 'Failed to approve override. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <ShieldCheck className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Override Credit Hold - {customer.name}
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          <div className="p-6 space-y-4">
+            {creditCheck.reasons.length > 0 && (
+              <ul className="text-sm text-red-700 list-disc ml-5">
+                {creditCheck.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+            )}
+            <p className="text-sm text-gray-600">
+              The override allows one order to be placed for this customer while on hold.
+            </p>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <textarea
+                value={form.reason}
+                onChange={(e) => setForm({ ...form, reason: e.target.value })}
+                rows={3}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Valid Until</label>
+              <input
+                type="date"
+                value={form.valid_until}
+                min={new Date().toISOString().split('T')[0]}
+                onChange={(e) => setForm({ ...form, valid_until: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                required
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex items-center px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Approve Override'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,145 @@
+import React, { useState, useEffect } from 'react'
+import { X, BookOpen, Download } from 'lucide-react'
+import { Customer } from '../lib/supabase'
+import { fetchCustomerLedger, LedgerRow } from '../lib/receivablesService'
+
+interface CustomerLedgerModalProps {
+  customer: Pick<Customer, 'id' | 'name' | 'customer_display_id'>
+  onClose: () => void
+}
+
+const ENTRY_TYPE_LABELS: Record<LedgerRow['entry_type'], string> = {
+  invoice: 'Invoice',
+  payment: 'Payment',
+  credit_note: 'Credit Note'
+}
+
+export const CustomerLedgerModal: React.FC<CustomerLedgerModalProps> = ({ customer, onClose }) => {
+  const [entries, setEntries] = useState<LedgerRow[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadLedger = async () => {
+      setLoading(true)
+      try {
+        setEntries(await fetchCustomerLedger(customer.id))
+      } catch (error) {
+        console.error('Error fetching customer ledger:', error)
+        setEntries([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadLedger()
+  }, [customer.id])
+
+  const closingBalance = entries.length > 0 ? entries[entries.length - 1].balance : 0
+
+  const exportToCSV = () => {
+    const csvContent = [
+      ['Date', 'Type', 'Reference', 'Debit', 'Credit', 'Balance'].join(','),
+      ...entries.map(entry => [
+        new Date(entry.entry_date).toLocaleDateString(),
+        ENTRY_TYPE_LABELS[entry.entry_type],
+        `"${(entry.reference || '').replace(/"/g, '""')}"`,
+        Number(entry.debit).toFixed(2),
+        Number(entry.credit).toFixed(2),
+        entry.balance.toFixed(2)
+      ].join(','))
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `ledger_${customer.customer_display_id}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <BookOpen className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Ledger - {customer.name} ({customer.customer_display_id})
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center py-8">No ledger entries for this customer.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Debit (Rs)</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Credit (Rs)</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance (Rs)</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map((entry, index) => (
+                    <tr key={`${entry.entry_type}-${entry.order_id || entry.payment_id}-${index}`} className="hover:bg-gray-50">
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{new Date(entry.entry_date).toLocaleDateString()}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{ENTRY_TYPE_LABELS[entry.entry_type]}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{entry.reference || '-'}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">
+                        {Number(entry.debit) > 0 ? Number(entry.debit).toFixed(2) : ''}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-green-700">
+                        {Number(entry.credit) > 0 ? Number(entry.credit).toFixed(2) : ''}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-right font-medium text-gray-900">{entry.balance.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between p-6 border-t bg-gray-50">
+          <span className="text-sm text-gray-700">
+            Closing balance: <strong className={closingBalance > 0 ? 'text-red-600' : 'text-green-700'}>Rs {closingBalance.toFixed(2)}</strong>
+            {closingBalance < 0 && ' (in credit)'}
+          </span>
+          <div className="flex space-x-3">
+            <button
+              onClick={exportToCSV}
+              disabled={entries.length === 0}
+              className="flex items-center px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Export CSV
+            </button>
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Close
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
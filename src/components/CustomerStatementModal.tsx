@@ -0,0 +1,252 @@
+import React, { useState, useEffect } from 'react'
+import { X, FileText, Download, Send } from 'lucide-react'
+import { Customer, CustomerStatement } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import {
+  fetchCustomerStatement,
+  fetchStatementSentAt,
+  lastMonthPeriod,
+  queueCustomerStatement
+} from '../lib/receivablesService'
+
+interface CustomerStatementModalProps {
+  customer: Pick<Customer, 'id' | 'name' | 'customer_display_id' | 'email'>
+  onClose: () => void
+}
+
+const ENTRY_TYPE_LABELS: Record<CustomerStatement['entries'][number]['entry_type'], string> = {
+  invoice: 'Invoice',
+  payment: 'Payment',
+  credit_note: 'Return (credit note)'
+}
+
+export const CustomerStatementModal: React.FC<CustomerStatementModalProps> = ({ customer, onClose }) => {
+  const { isOnline } = useAuth()
+  const [periodStart, setPeriodStart] = useState(() => lastMonthPeriod().start)
+  const [periodEnd, setPeriodEnd] = useState(() => lastMonthPeriod().end)
+  const [statement, setStatement] = useState<CustomerStatement | null>(null)
+  const [sentAt, setSentAt] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [sending, setSending] = useState(false)
+
+  useEffect(() => {
+    const loadStatement = async () => {
+      if (!periodStart || !periodEnd || periodEnd < periodStart) {
+        setStatement(null)
+        setLoading(false)
+        return
+      }
+
+      setLoading(true)
+      try {
+        const [data, lastSent] = await Promise.all([
+          fetchCustomerStatement(customer.id, periodStart, periodEnd),
+          fetchStatementSentAt(customer.id, periodStart, periodEnd)
+        ])
+        setStatement(data)
+        setSentAt(lastSent)
+      } catch (error) {
+        console.error('Error fetching customer statement:', error)
+        setStatement(null)
+        setSentAt(null)
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadStatement()
+  }, [customer.id, periodStart, periodEnd])
+
+  const handleSend = async () => {
+    if (!customer.email) return
+
+    const force = sentAt !== null
+    const prompt = sentAt
+      ? `A statement for this period was already sent on ${new Date(sentAt).toLocaleString()}. Send it again to ${customer.email}?`
+      : `Email this statement to ${customer.email}?`
+    if (!confirm(prompt)) return
+
+    setSending(true)
+    try {
+      await queueCustomerStatement(customer.id, periodStart, periodEnd, force)
+      setSentAt(new Date().toISOString())
+      alert('Statement queued for sending. Track delivery under Email Logs.')
+    } catch (error) {
+      console.error('Error queueing statement:', error)
+      alert(error instanceof Error ? error.message : 'Failed to queue statement.')
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const exportToCSV = () => {
+    if (!statement) return
+
+    const csvContent = [
+      ['Date', 'Type', 'Reference', 'Debit', 'Credit', 'Balance'].join(','),
+      [periodStart, 'Opening balance', '', '', '', Number(statement.opening_balance).toFixed(2)].join(','),
+      ...statement.entries.map(entry => [
+        new Date(entry.entry_date).toLocaleDateString(),
+        ENTRY_TYPE_LABELS[entry.entry_type],
+        `"${(entry.reference || '').replace(/"/g, '""')}"`,
+        Number(entry.debit).toFixed(2),
+        Number(entry.credit).toFixed(2),
+        Number(entry.balance).toFixed(2)
+      ].join(',')),
+      [periodEnd, 'Closing balance', '', '', '', Number(statement.closing_balance).toFixed(2)].join(',')
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `statement_${customer.customer_display_id}_${periodStart}_${periodEnd}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <FileText className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Statement - {customer.name} ({customer.customer_display_id})
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-4">
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">From</label>
+              <input
+                type="date"
+                value={periodStart}
+                onChange={(e) => setPeriodStart(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">To</label>
+              <input
+                type="date"
+                value={periodEnd}
+                min={periodStart}
+                onChange={(e) => setPeriodEnd(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              />
+            </div>
+            <p className="text-sm text-gray-500 sm:ml-auto">
+              {customer.email ? `Email: ${customer.email}` : 'No email address on file'}
+              {sentAt && <span className="block text-xs">Last sent {new Date(sentAt).toLocaleString()}</span>}
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : !statement ? (
+            <p className="text-sm text-gray-500 italic text-center py-8">Choose a valid period to see the statement.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                {[
+                  ['Opening balance', statement.opening_balance],
+                  ['Invoices', statement.invoices_total],
+                  ['Payments', statement.payments_total],
+                  ['Returns', statement.returns_total],
+                  ['Closing balance', statement.closing_balance]
+                ].map(([label, amount]) => (
+                  <div key={label} className="bg-gray-50 rounded-lg p-3">
+                    <p className="text-xs text-gray-600">{label}</p>
+                    <p className="text-sm font-semibold text-gray-900">Rs {Number(amount).toFixed(2)}</p>
+                  </div>
+                ))}
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Debit (Rs)</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Credit (Rs)</th>
+                      <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance (Rs)</th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-4 py-2 text-sm text-gray-700">Opening balance</td>
+                      <td className="px-4 py-2 text-sm text-right font-medium text-gray-900">{Number(statement.opening_balance).toFixed(2)}</td>
+                    </tr>
+                    {statement.entries.length === 0 ? (
+                      <tr>
+                        <td colSpan={6} className="px-4 py-6 text-center text-sm text-gray-500 italic">No activity in this period.</td>
+                      </tr>
+                    ) : statement.entries.map((entry, index) => (
+                      <tr key={`${entry.entry_type}-${entry.order_id || entry.payment_id}-${index}`} className="hover:bg-gray-50">
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{new Date(entry.entry_date).toLocaleDateString()}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{ENTRY_TYPE_LABELS[entry.entry_type]}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{entry.reference || '-'}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">
+                          {Number(entry.debit) > 0 ? Number(entry.debit).toFixed(2) : ''}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-green-700">
+                          {Number(entry.credit) > 0 ? Number(entry.credit).toFixed(2) : ''}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-right font-medium text-gray-900">{Number(entry.balance).toFixed(2)}</td>
+                      </tr>
+                    ))}
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-4 py-2 text-sm font-semibold text-gray-900">Closing balance</td>
+                      <td className={`px-4 py-2 text-sm text-right font-semibold ${statement.closing_balance > 0 ? 'text-red-600' : 'text-green-700'}`}>
+                        {Number(statement.closing_balance).toFixed(2)}
+                      </td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={exportToCSV}
+            disabled={!statement}
+            className="flex items-center px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-100 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </button>
+          <button
+            onClick={handleSend}
+            disabled={!isOnline || !statement || !customer.email || sending}
+            className="flex items-center px-4 py-2 text-sm bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            title={customer.email ? undefined : 'Add an email address to the customer first'}
+          >
+            <Send className="w-4 h-4 mr-2" />
+            {sending ? 'Queueing...' : 'Email Statement'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -28,7 +28,9 @@ export const Customers: React.FC = () => {
     type: 'Cash' as 'Cash' | 'Credit',
     customer_category: 'Dealer' as string, // Changed to string, default to 'Dealer'
     vat_status: 'Non-VAT' as 'VAT' | 'Non-VAT', // New
-    tin_number: '' // New
+    tin_number: '', // New
+    credit_limit: '',
+    payment_terms_days: ''
   })
   const [contactPersonsData, setContactPersonsData] = useState<ContactPersonEntry[]>([
     { id: 'temp-1', name: '', phone_number: '' }
@@ -77,7 +79,7 @@ export const Customers: React.FC = () => {
       console.log('Fetching customers...')
       const { data, error } = await supabase
         .from('customers')
-        .select('id, name, address, phone_number, email, customer_display_id, type, customer_category, vat_status, tin_number')
+        .select('id, name, address, phone_number, email, customer_display_id, type, customer_category, vat_status, tin_number, credit_limit, payment_terms_days')
         .order('name')
 
       if (error) {
@@ -194,6 +196,15 @@ export const Customers: React.FC = () => {
         return
       }
 
+      const creditLimit = formData.credit_limit === '' ? null : parseFloat(formData.credit_limit)
+      const paymentTermsDays = formData.payment_terms_days === '' ? null : parseInt(formData.payment_terms_days, 10)
+      if ((creditLimit !== null && (isNaN(creditLimit) || creditLimit < 0)) ||
+          (paymentTermsDays !== null && (isNaN(paymentTermsDays) || paymentTermsDays < 0))) {
+        alert('Credit limit and payment terms must be zero or more')
+        setLoading(false)
+        return
+      }
+
       const customerData = {
         name: formData.name,
         address: formData.address,
@@ -202,7 +213,9 @@ export const Customers: React.FC = () => {
         type: formData.type,
         customer_category: formData.customer_category,
         vat_status: formData.vat_status,
-        tin_number: formData.vat_status === 'VAT' ? formData.tin_number : null
+        tin_number: formData.vat_status === 'VAT' ? formData.tin_number : null,
+        credit_limit: creditLimit,
+        payment_terms_days: paymentTermsDays
       }
 
       if (editingCustomer) {
@@ -267,7 +280,9 @@ export const Customers: React.FC = () => {
         type: 'Cash',
         customer_category: 'Dealer',
         vat_status: 'Non-VAT',
-        tin_number: ''
+        tin_number: '',
+        credit_limit: '',
+        payment_terms_days: ''
       })
       setContactPersonsData([{ id: 'temp-1', name: '', phone_number: '' }])
     } catch (error) {
@@ -315,7 +330,9 @@ export const Customers: React.FC = () => {
       type: customer.type,
       customer_category: customer.customer_category,
       vat_status: customer.vat_status,
-      tin_number: customer.tin_number || ''
+      tin_number: customer.tin_number || '',
+      credit_limit: customer.credit_limit?.toString() ?? '',
+      payment_terms_days: customer.payment_terms_days?.toString() ?? ''
     })
 
     // Fetch contact persons for this customer
@@ -497,6 +514,15 @@ export const Customers: React.FC = () => {
                       <span className="text-gray-700 flex-1">{customer.tin_number}</span>
                     </div>
                   )}
+                  {(customer.credit_limit != null || customer.payment_terms_days != null) && (
+                    <div className="flex items-start">
+                      <span className="text-gray-500 font-medium w-16 flex-shrink-0">Credit:</span>
+                      <span className="text-gray-700 flex-1">
+                        {customer.credit_limit != null ? `Rs ${Number(customer.credit_limit).toFixed(2)}` : 'No limit'}
+                        {customer.payment_terms_days != null && ` • ${customer.payment_terms_days} days`}
+                      </span>
+                    </div>
+                  )}
                   {getCustomerContactPersons(customer.id).length > 0 && (
                     <div className="mt-2 pt-2 border-t border-gray-200">
                       <span className="text-gray-500 font-medium text-sm">Contacts:</span>
@@ -633,6 +659,12 @@ export const Customers: React.FC = () => {
                       }`}>
                         {customer.type}
                       </span>
+                      {(customer.credit_limit != null || customer.payment_terms_days != null) && (
+                        <div className="text-xs text-gray-500 mt-1">
+                          {customer.credit_limit != null ? `Limit Rs ${Number(customer.credit_limit).toFixed(2)}` : 'No limit'}
+                          {customer.payment_terms_days != null && ` • ${customer.payment_terms_days} days`}
+                        </div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
                       <div className="flex space-x-2">
@@ -860,6 +892,37 @@ export const Customers: React.FC = () => {
                 </select>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Credit Limit (Rs)
+                  </label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={formData.credit_limit}
+                    onChange={(e) => setFormData({ ...formData, credit_limit: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    placeholder="No limit"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Payment Terms (days)
+                  </label>
+                  <input
+                    type="number"
+                    step="1"
+                    min="0"
+                    value={formData.payment_terms_days}
+                    onChange={(e) => setFormData({ ...formData, payment_terms_days: e.target.value })}
+                    className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+                    placeholder="No terms"
+                  />
+                </div>
+              </div>
+
               <div className="flex space-x-3 pt-4">
                 <button
                   type="button"
@@ -874,7 +937,9 @@ export const Customers: React.FC = () => {
                       type: 'Cash',
                       customer_category: 'Dealer',
                       vat_status: 'Non-VAT',
-                      tin_number: ''
+                      tin_number: '',
+                      credit_limit: '',
+                      payment_terms_days: ''
                     })
                     setContactPersonsData([{ id: 'temp-1', name: '', phone_number: '' }])
                   }}
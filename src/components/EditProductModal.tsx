@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { X, Save, AlertCircle } from 'lucide-react'
 import { supabase, Product, Category } from '../lib/supabase'
 import { useAuth } from '../hooks/useAuth'
+import { recordStockMovement } from '../lib/stockService'
 
 interface EditProductModalProps {
   product: Product
@@ -94,7 +95,6 @@ export const EditProductModal: React.FC<EditProductModalProps> = ({
         .update({
           name: formData.name,
           category_id: formData.category_id,
-          quantity: formData.quantity,
           price_dealer_cash: formData.price_dealer_cash,
           price_dealer_credit: formData.price_dealer_credit,
           price_hotel_cash: formData.price_hotel_cash,
@@ -105,6 +105,17 @@ export const EditProductModal: React.FC<EditProductModalProps> = ({
 
       if (error) throw error
 
+      // Quantity edits go through the stock ledger as a manual adjustment
+      const quantityDelta = formData.quantity - product.quantity
+      if (quantityDelta !== 0) {
+        await recordStockMovement({
+          productId: product.id,
+          quantityDelta,
+          movementType: 'adjustment',
+          notes: 'Edited in product details'
+        })
+      }
+
       onProductUpdated()
       onClose()
     } catch (error: any) {
@@ -0,0 +1,237 @@
+import React, { useState, useEffect } from 'react'
+import { Search, RefreshCw, Send, Mail, FileText } from 'lucide-react'
+import { EmailLog, EmailStatus } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import { fetchEmailLogs, resendEmail } from '../lib/emailService'
+import { EmailTemplatePreviewModal } from './EmailTemplatePreviewModal'
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800',
+  bounced: 'bg-gray-200 text-gray-800'
+}
+
+const isExhausted = (log: EmailLog) => log.status === 'failed' && log.retry_count >= log.max_retries
+
+export const EmailLogs: React.FC = () => {
+  const { isOnline } = useAuth()
+  const [logs, setLogs] = useState<EmailLog[]>([])
+  const [loading, setLoading] = useState(true)
+  const [statusFilter, setStatusFilter] = useState<EmailStatus | 'all'>('all')
+  const [typeFilter, setTypeFilter] = useState('all')
+  const [dateFrom, setDateFrom] = useState('')
+  const [dateTo, setDateTo] = useState('')
+  const [searchTerm, setSearchTerm] = useState('')
+  const [refreshKey, setRefreshKey] = useState(0)
+  const [resendingId, setResendingId] = useState<string | null>(null)
+  const [showTemplates, setShowTemplates] = useState(false)
+
+  useEffect(() => {
+    const loadLogs = async () => {
+      setLoading(true)
+      try {
+        setLogs(await fetchEmailLogs({ status: statusFilter, emailType: typeFilter, dateFrom, dateTo }))
+      } catch (error) {
+        console.error('Error fetching email logs:', error)
+        setLogs([])
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadLogs()
+  }, [statusFilter, typeFilter, dateFrom, dateTo, refreshKey])
+
+  const handleResend = async (log: EmailLog) => {
+    if (!confirm(`Send "${log.subject}" to ${log.recipient_email} again?`)) return
+
+    setResendingId(log.id)
+    try {
+      await resendEmail(log.id)
+      setRefreshKey(key => key + 1)
+    } catch (error) {
+      console.error('Error resending email:', error)
+      alert(error instanceof Error ? error.message : 'Failed to resend email.')
+    } finally {
+      setResendingId(null)
+    }
+  }
+
+  const emailTypes = Array.from(new Set(['receipt', 'statement', 'overdue_reminder', 'low_stock_alert', ...logs.map(log => log.email_type)])).sort()
+
+  const filteredLogs = logs.filter(log => {
+    const term = searchTerm.toLowerCase()
+    return !term ||
+      log.recipient_email.toLowerCase().includes(term) ||
+      log.recipient_name.toLowerCase().includes(term) ||
+      log.subject.toLowerCase().includes(term)
+  })
+
+  const counts = logs.reduce((acc, log) => {
+    acc[log.status] = (acc[log.status] || 0) + 1
+    return acc
+  }, {} as Partial<Record<EmailStatus, number>>)
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Email Logs</h1>
+          <p className="text-sm text-gray-600 mt-1">Queued and sent emails. Failed emails are retried automatically with increasing delays.</p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={() => setShowTemplates(true)}
+            disabled={!isOnline}
+            className="flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <FileText className="w-4 h-4 mr-2" />
+            Templates
+          </button>
+          <button
+            onClick={() => setRefreshKey(key => key + 1)}
+            className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          >
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {(['pending', 'sent', 'failed', 'bounced'] as EmailStatus[]).map(status => (
+          <div key={status} className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600 capitalize">{status}</p>
+            <p className={`text-xl font-bold ${status === 'failed' && counts.failed ? 'text-red-600' : 'text-gray-900'}`}>
+              {(counts[status] || 0) + (status === 'pending' ? counts.sending || 0 : 0)}
+            </p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-4 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+          <input
+            type="text"
+            placeholder="Search recipient or subject..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        </div>
+        <select
+          value={statusFilter}
+          onChange={(e) => setStatusFilter(e.target.value as EmailStatus | 'all')}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+        >
+          <option value="all">All statuses</option>
+          <option value="pending">Pending</option>
+          <option value="sending">Sending</option>
+          <option value="sent">Sent</option>
+          <option value="failed">Failed</option>
+          <option value="bounced">Bounced</option>
+        </select>
+        <select
+          value={typeFilter}
+          onChange={(e) => setTypeFilter(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 capitalize"
+        >
+          <option value="all">All types</option>
+          {emailTypes.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        <input
+          type="date"
+          value={dateFrom}
+          onChange={(e) => setDateFrom(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+        <input
+          type="date"
+          value={dateTo}
+          onChange={(e) => setDateTo(e.target.value)}
+          className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+        />
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Created</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Recipient</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Subject</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Attempts</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {loading ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">Loading email logs...</td>
+                </tr>
+              ) : filteredLogs.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="px-6 py-8 text-center text-gray-500">No emails found</td>
+                </tr>
+              ) : filteredLogs.map(log => (
+                <tr key={log.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                    {new Date(log.created_at).toLocaleString()}
+                    <div className="text-xs text-gray-500 capitalize">
+                      {log.email_type}{log.template_version ? ` v${log.template_version}` : ''}{log.resend_of ? ' • resend' : ''}
+                    </div>
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="text-sm font-medium text-gray-900">{log.recipient_name}</div>
+                    <div className="text-xs text-gray-500">{log.recipient_email}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-700">
+                    {log.subject}
+                    {log.error_message && (
+                      <div className="text-xs text-red-600 mt-1 max-w-md truncate" title={log.error_message}>{log.error_message}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <span className={`px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${STATUS_STYLES[log.status]}`}>
+                      {isExhausted(log) ? 'Gave up' : log.status}
+                    </span>
+                    {log.status === 'sent' && log.sent_at && (
+                      <div className="text-xs text-gray-500 mt-1">{new Date(log.sent_at).toLocaleString()}</div>
+                    )}
+                    {log.status === 'failed' && !isExhausted(log) && log.next_attempt_at && (
+                      <div className="text-xs text-gray-500 mt-1">Next try {new Date(log.next_attempt_at).toLocaleString()}</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">
+                    {log.retry_count} / {log.max_retries}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <button
+                      onClick={() => handleResend(log)}
+                      disabled={!isOnline || resendingId === log.id || log.status === 'pending' || log.status === 'sending'}
+                      className="inline-flex items-center px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+                      title="Queue this email again"
+                    >
+                      {resendingId === log.id ? <Mail className="w-3 h-3 mr-1" /> : <Send className="w-3 h-3 mr-1" />}
+                      {resendingId === log.id ? 'Queueing...' : 'Resend'}
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {showTemplates && (
+        <EmailTemplatePreviewModal onClose={() => setShowTemplates(false)} />
+      )}
+    </div>
+  )
+}
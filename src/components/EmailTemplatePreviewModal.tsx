@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react'
+import { X, Eye } from 'lucide-react'
+import { EmailTemplatePreview, EmailTemplateSummary } from '../lib/supabase'
+import { fetchEmailTemplates, previewEmailTemplate } from '../lib/emailService'
+
+interface EmailTemplatePreviewModalProps {
+  onClose: () => void
+}
+
+export const EmailTemplatePreviewModal: React.FC<EmailTemplatePreviewModalProps> = ({ onClose }) => {
+  const [templates, setTemplates] = useState<EmailTemplateSummary[]>([])
+  const [templateName, setTemplateName] = useState('')
+  const [version, setVersion] = useState<number | null>(null)
+  const [variables, setVariables] = useState('')
+  const [preview, setPreview] = useState<EmailTemplatePreview | null>(null)
+  const [previewError, setPreviewError] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [rendering, setRendering] = useState(false)
+
+  useEffect(() => {
+    const loadTemplates = async () => {
+      try {
+        const list = await fetchEmailTemplates()
+        setTemplates(list)
+        if (list.length > 0) {
+          setTemplateName(list[0].name)
+          setVersion(list[0].latestVersion)
+          setVariables(JSON.stringify(list[0].sampleData, null, 2))
+        }
+      } catch (error) {
+        console.error('Error loading email templates:', error)
+        setPreviewError(error instanceof Error ? error.message : 'Failed to load email templates')
+      } finally {
+        setLoading(false)
+      }
+    }
+    loadTemplates()
+  }, [])
+
+  const selectedTemplate = templates.find(template => template.name === templateName) || null
+
+  const handleTemplateChange = (name: string) => {
+    const template = templates.find(candidate => candidate.name === name)
+    setTemplateName(name)
+    setVersion(template?.latestVersion ?? null)
+    setVariables(template ? JSON.stringify(template.sampleData, null, 2) : '')
+    setPreview(null)
+    setPreviewError(null)
+  }
+
+  const handlePreview = async () => {
+    let data: Record<string, unknown>
+    try {
+      data = JSON.parse(variables)
+    } catch {
+      setPreviewError('Variables must be valid JSON')
+      return
+    }
+
+    setRendering(true)
+    setPreviewError(null)
+    try {
+      setPreview(await previewEmailTemplate(templateName, version ?? undefined, data))
+    } catch (error) {
+      console.error('Error previewing email template:', error)
+      setPreview(null)
+      setPreviewError(error instanceof Error ? error.message : 'Failed to preview email template')
+    } finally {
+      setRendering(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <h3 className="text-lg font-semibold text-gray-900">Email Templates</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {loading ? (
+            <p className="text-gray-500">Loading templates...</p>
+          ) : (
+            <>
+              <div className="space-y-4">
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Template</label>
+                    <select
+                      value={templateName}
+                      onChange={(e) => handleTemplateChange(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    >
+                      {templates.map(template => (
+                        <option key={template.name} value={template.name}>{template.name}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Version</label>
+                    <select
+                      value={version ?? ''}
+                      onChange={(e) => setVersion(Number(e.target.value))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                    >
+                      {selectedTemplate?.versions.map(templateVersion => (
+                        <option key={templateVersion} value={templateVersion}>
+                          v{templateVersion}{templateVersion === selectedTemplate.latestVersion ? ' (latest)' : ''}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+                {selectedTemplate && (
+                  <p className="text-sm text-gray-600">
+                    {selectedTemplate.description}. Required: {selectedTemplate.requiredVariables.join(', ')}
+                  </p>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Variables (JSON)</label>
+                  <textarea
+                    value={variables}
+                    onChange={(e) => setVariables(e.target.value)}
+                    rows={16}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg font-mono text-xs focus:outline-none focus:ring-2 focus:ring-red-500"
+                  />
+                </div>
+                {previewError && <p className="text-sm text-red-600">{previewError}</p>}
+              </div>
+
+              <div className="border rounded-lg overflow-hidden flex flex-col min-h-[400px]">
+                {preview ? (
+                  <>
+                    <div className="px-4 py-2 bg-gray-50 border-b text-sm">
+                      <span className="font-medium text-gray-700">Subject:</span> {preview.subject}
+                      <span className="ml-2 text-xs text-gray-500">v{preview.version}</span>
+                    </div>
+                    <iframe title="Email preview" srcDoc={preview.html} sandbox="" className="flex-1 w-full" />
+                  </>
+                ) : (
+                  <div className="flex-1 flex items-center justify-center text-gray-500 text-sm">
+                    Render a template to see it here
+                  </div>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={handlePreview}
+            disabled={rendering || !templateName}
+            className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            <Eye className="w-4 h-4 mr-2" />
+            {rendering ? 'Rendering...' : 'Preview'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
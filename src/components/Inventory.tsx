@@ -1,17 +1,35 @@
 import React, { useState, useEffect } from 'react'
-import { Edit, Trash2, AlertTriangle, Search, Plus, DollarSign, Save, X, ShoppingCart, ArrowLeft, User, Phone, Calendar, Filter, Package } from 'lucide-react'
-import { supabase, Product, Category, OnDemandAssignmentItem, OnDemandOrder, Customer as SupabaseCustomer, User as SupabaseUser } from '../lib/supabase'
+import { Edit, Trash2, AlertTriangle, Search, Plus, DollarSign, Save, X, ShoppingCart, ArrowLeft, User, Phone, Calendar, Filter, Package, History, CalendarClock, SlidersHorizontal, KeyRound, ArrowLeftRight } from 'lucide-react'
+import { supabase, Product, Category, Customer as SupabaseCustomer, User as SupabaseUser, PriceBand } from '../lib/supabase'
 import { BulkProductEntry } from './BulkProductEntry'
 import { EditProductModal } from './EditProductModal'
 import { ProductPricesModal } from './ProductPricesModal'
 import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermission'
 import { Customer } from '../lib/supabase'
 import { PaymentConfirmationModal } from './PaymentConfirmationModal'
 import { ProductRequestModal } from './ProductRequestModal'
-
-import { createRoot } from 'react-dom/client'
-
-import { OnDemandBillPrintLayout } from './OnDemandBillPrintLayout'
+import { StockMovementHistoryModal } from './StockMovementHistoryModal'
+import { ScheduledPriceChangesModal } from './ScheduledPriceChangesModal'
+import { PriceBandsModal } from './PriceBandsModal'
+import { PriceOverrideRequestsModal } from './PriceOverrideRequestsModal'
+import { PriceOverrideApproval } from './PriceOverrideApproval'
+import { OnDemandTransferModal } from './OnDemandTransferModal'
+import { PendingTransfersPanel } from './PendingTransfersPanel'
+import { MyStockRequestsPanel } from './MyStockRequestsPanel'
+import { recordStockMovement, receiveStockBatch } from '../lib/stockService'
+import { applyDuePriceChanges, resolveScheduledPrices } from '../lib/priceService'
+import { fetchCustomerPriceMap, CustomerPriceMap } from '../lib/priceListService'
+import { openPrintWindow, showDocumentPdf } from '../lib/documentService'
+import { createOnDemandSale, remainingQuantity, returnOnDemandStock } from '../lib/onDemandService'
+import {
+  describeBand,
+  fetchPriceBands,
+  isWithinBand,
+  redeemPriceOverrideCode,
+  requestPriceOverride,
+  resolvePriceBand
+} from '../lib/priceBandService'
 
 interface ProductWithAssignment extends Product {
   assigned_quantity?: number
@@ -26,6 +44,10 @@ interface CartItem {
   quantity: number
   selling_price: number
   price_error?: string
+  // Set once the rep has asked a manager to approve this over-band price
+  price_override_request_id?: string
+  // Set once a manager's code has approved this over-band price
+  price_override_id?: string
 }
 
 export const Inventory: React.FC = () => {
@@ -36,6 +58,7 @@ export const Inventory: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('')
   const [showBulkEntry, setShowBulkEntry] = useState(false)
   const { user } = useAuth()
+  const { can } = usePermissions()
   const [filterDate, setFilterDate] = useState('')
   const [filterSalesRepId, setFilterSalesRepId] = useState('')
   const [filterVehicleNumber, setFilterVehicleNumber] = useState('')
@@ -61,6 +84,9 @@ export const Inventory: React.FC = () => {
   const [showPaymentModalForOnDemand, setShowPaymentModalForOnDemand] = useState(false)
   const [onDemandOrderToConfirm, setOnDemandOrderToConfirm] = useState<any>(null)
   const [showProductRequestModal, setShowProductRequestModal] = useState(false)
+  const [transferringProduct, setTransferringProduct] = useState<ProductWithAssignment | null>(null)
+  const [transfersRefreshKey, setTransfersRefreshKey] = useState(0)
+  const [requestsRefreshKey, setRequestsRefreshKey] = useState(0)
   const [showPriceModal, setShowPriceModal] = useState(false);
   const [selectedProductForPrices, setSelectedProductForPrices] = useState<ProductWithAssignment | null>(null);
 
@@ -68,22 +94,83 @@ export const Inventory: React.FC = () => {
   const [showStockUpdateModal, setShowStockUpdateModal] = useState(false);
   const [selectedProductForStockUpdate, setSelectedProductForStockUpdate] = useState<ProductWithAssignment | null>(null);
   const [stockAdditionQuantity, setStockAdditionQuantity] = useState<string>('');
-
-  // Determine if current user has read-only access
-  const isReadOnly = user?.role === 'Sales Rep' || user?.role === 'Order Manager'
-  const canEditPrices = user?.role === 'Admin' || user?.role === 'Super Admin'
+  const [stockBatchNumber, setStockBatchNumber] = useState<string>('');
+  const [stockExpiryDate, setStockExpiryDate] = useState<string>('');
+  const [selectedProductForHistory, setSelectedProductForHistory] = useState<ProductWithAssignment | null>(null);
+  const [showScheduledPricesModal, setShowScheduledPricesModal] = useState(false);
+  const [customerPrices, setCustomerPrices] = useState<CustomerPriceMap>(new Map())
+  const [priceBands, setPriceBands] = useState<PriceBand[]>([])
+  const [showPriceBandsModal, setShowPriceBandsModal] = useState(false)
+  const [showPriceOverrideRequestsModal, setShowPriceOverrideRequestsModal] = useState(false)
+
+  // Users who sell on demand without managing stock see their own assigned products instead
+  const sellsOwnStock = can('on_demand.sell') && !can('inventory.manage')
+  // Checks loaded vans without driving deliveries, e.g. a security guard
+  const checksLoadsOnly = can('orders.transition.security') && !can('orders.transition.delivery')
+  const isReadOnly = !can('catalog.manage')
+  const canEditPrices = can('prices.edit')
+  const canOverridePrices = can('prices.override')
 
   useEffect(() => {
     if (user) {
       fetchProducts()
-      if (user.role === 'Sales Rep') {
+      if (sellsOwnStock) {
         fetchCustomers()
+        fetchPriceBands()
+          .then(setPriceBands)
+          .catch(error => {
+            console.error('Error fetching price bands:', error)
+            setPriceBands([])
+          })
       }
-      if (user.role === 'Security Guard') {
+      if (checksLoadsOnly) {
         fetchSalesReps()
       }
     }
-  }, [user, filterDate, filterSalesRepId, filterVehicleNumber])
+  }, [user, sellsOwnStock, checksLoadsOnly, filterDate, filterSalesRepId, filterVehicleNumber])
+
+  // Load price lists / contract prices for the selected existing customer
+  useEffect(() => {
+    const selectedCustomer = customerData.type === 'existing'
+      ? customers.find(c => c.id === customerData.existing_customer_id)
+      : null
+
+    if (!selectedCustomer) {
+      setCustomerPrices(new Map())
+      return
+    }
+
+    fetchCustomerPriceMap(selectedCustomer)
+      .then(setCustomerPrices)
+      .catch(error => {
+        console.error('Error fetching customer price lists:', error)
+        setCustomerPrices(new Map())
+      })
+  }, [customerData.type, customerData.existing_customer_id, customers])
+
+  // Re-price the cart when the customer (and so the applicable price list) changes
+  useEffect(() => {
+    setCart(prev => prev.map(cartItem => ({
+      ...cartItem,
+      selling_price: customerPrices.get(cartItem.product.id) ?? (cartItem.product.price_dealer_cash || 0),
+      price_error: undefined,
+      price_override_request_id: undefined,
+      price_override_id: undefined
+    })))
+  }, [customerPrices])
+
+  // Customer's price list price, falling back to the Dealer Cash tier
+  const getBasePrice = (product: ProductWithAssignment) => {
+    return customerPrices.get(product.id) ?? (product.price_dealer_cash || 0)
+  }
+
+  // The automatic price is always allowed; anything else must sit inside the selling band
+  const getPriceError = (product: ProductWithAssignment, price: number): string | undefined => {
+    if (price === getBasePrice(product)) return undefined
+    const band = resolvePriceBand(product, priceBands)
+    if (isWithinBand(price, band)) return undefined
+    return `Outside the allowed band (${describeBand(band)}). Request approval from a manager.`
+  }
 
   const fetchCustomers = async () => {
     try {
@@ -117,8 +204,7 @@ export const Inventory: React.FC = () => {
   const fetchProducts = async () => {
     setFetchError(null)
     try {
-      console.log('Fetching products for user role:', user?.role)
-      if (user?.role === 'Sales Rep') {
+      if (user && sellsOwnStock) {
         // For Sales Reps, fetch only products assigned to them with available quantity > 0
         const { data, error } = await supabase
           .from('on_demand_assignment_items')
@@ -127,11 +213,14 @@ export const Inventory: React.FC = () => {
             assigned_quantity,
             sold_quantity,
             returned_quantity,
+            transferred_in_quantity,
+            transferred_out_quantity,
             products!inner(
               id,
               product_id,
               name,
               sku,
+              category_id,
               price_dealer_cash,
               price_dealer_credit,
               price_hotel_cash,
@@ -157,24 +246,29 @@ export const Inventory: React.FC = () => {
         }
 
         // Filter items with available quantity > 0
-        const availableItems = (data || []).filter(item => 
-          item.assigned_quantity - item.sold_quantity - item.returned_quantity > 0
-        )
+        const availableItems = (data || []).filter(item => remainingQuantity(item) > 0)
         
         // Transform assignment items to product format
         const transformedProducts: ProductWithAssignment[] = availableItems.map(item => ({
           ...item.products,
           assigned_quantity: item.assigned_quantity,
-          available_quantity: item.assigned_quantity - item.sold_quantity - item.returned_quantity,
-          quantity: item.assigned_quantity - item.sold_quantity - item.returned_quantity,
+          available_quantity: remainingQuantity(item),
+          quantity: remainingQuantity(item),
           assignment_item_id: item.id,
           assignment_type: item.on_demand_assignments.assignment_type
         }))
 
-        console.log('Sales Rep products fetched:', transformedProducts)
-        setProducts(transformedProducts)
+        // Sell cart prices follow the tier prices active today, including scheduled changes
+        const pricedProducts = await resolveScheduledPrices(transformedProducts)
+
+        console.log('Sales Rep products fetched:', pricedProducts)
+        setProducts(pricedProducts)
       } else {
-        // For Admin and other roles, fetch all products
+        // Everyone else sees the full catalogue
+        if (can('inventory.manage')) {
+          await applyDuePriceChanges()
+        }
+
         const { data, error } = await supabase
           .from('products')
           .select(`
@@ -191,8 +285,10 @@ export const Inventory: React.FC = () => {
           throw error
         }
         
-        console.log('Admin products fetched:', data)
-        setProducts(data || [])
+        const pricedProducts = await resolveScheduledPrices<ProductWithAssignment>(data || [])
+
+        console.log('Admin products fetched:', pricedProducts)
+        setProducts(pricedProducts)
       }
     } catch (error) {
       console.error('Error fetching products:', error)
@@ -206,6 +302,8 @@ export const Inventory: React.FC = () => {
   const handleUpdateStock = (product: ProductWithAssignment) => {
     setSelectedProductForStockUpdate(product);
     setStockAdditionQuantity('');
+    setStockBatchNumber('');
+    setStockExpiryDate('');
     setShowStockUpdateModal(true);
   };
 
@@ -219,19 +317,19 @@ export const Inventory: React.FC = () => {
     }
 
     try {
-      const newQuantity = selectedProductForStockUpdate.quantity + additionQuantity;
-
-      const { error } = await supabase
-        .from('products')
-        .update({ quantity: newQuantity })
-        .eq('id', selectedProductForStockUpdate.id);
-
-      if (error) throw error;
-
-      alert(`Stock quantity updated successfully! Added ${additionQuantity} kg to inventory.`);
+      const batch = await receiveStockBatch({
+        productId: selectedProductForStockUpdate.id,
+        quantity: additionQuantity,
+        batchNumber: stockBatchNumber.trim(),
+        expiryDate: stockExpiryDate
+      });
+
+      alert(`Stock quantity updated successfully! Added ${additionQuantity} kg to inventory (batch ${batch.batch_number}).`);
       setShowStockUpdateModal(false);
       setSelectedProductForStockUpdate(null);
       setStockAdditionQuantity('');
+      setStockBatchNumber('');
+      setStockExpiryDate('');
       fetchProducts();
     } catch (error) {
       console.error('Error updating stock:', error);
@@ -239,6 +337,10 @@ export const Inventory: React.FC = () => {
     }
   };
 
+  const handleViewStockHistory = (product: ProductWithAssignment) => {
+    setSelectedProductForHistory(product);
+  };
+
   const handleViewEditPrices = (product: ProductWithAssignment) => {
     setSelectedProductForPrices(product);
     setShowPriceModal(true);
@@ -266,7 +368,7 @@ export const Inventory: React.FC = () => {
           assignment_item_id: product.assignment_item_id,
           product,
           quantity: 1,
-          selling_price: product.price_dealer_cash || 0
+          selling_price: getBasePrice(product)
         }])
       }
     }
@@ -278,7 +380,7 @@ export const Inventory: React.FC = () => {
         if (field === 'quantity') {
           const availableQty = cartItem.product.quantity
           if (value <= availableQty && value > 0) {
-            return { ...cartItem, [field]: value, price_error: undefined }
+            return { ...cartItem, [field]: value }
           } else if (value <= 0) {
             return cartItem
           } else {
@@ -299,28 +401,58 @@ export const Inventory: React.FC = () => {
         let price_error: string | undefined = undefined
         
         if (product && numericValue > 0) {
-          const basePrice = product.price_dealer_cash || 0
-          const threshold = 0
-          const lower = Math.max(0, basePrice - threshold)
-          const upper = basePrice + threshold
-          
-          if (threshold === 0) {
-            price_error = 'Threshold not set. Please contact Admin.'
-          } else if (numericValue < lower || numericValue > upper) {
-            price_error = `Price must be between Rs ${lower.toFixed(2)} and Rs ${upper.toFixed(2)}`
-          }
+          price_error = getPriceError(product, numericValue)
         }
         
         return { 
           ...cartItem, 
           selling_price: numericValue,
-          price_error 
+          price_error,
+          price_override_request_id: undefined,
+          price_override_id: undefined
         }
       }
       return cartItem
     }))
   }
 
+  const requestCartItemPrice = async (assignmentItemId: string) => {
+    const cartItem = cart.find(item => item.assignment_item_id === assignmentItemId)
+    if (!cartItem) return
+
+    const request = await requestPriceOverride({
+      productId: cartItem.product.id,
+      customerId: customerData.type === 'existing' ? customerData.existing_customer_id || null : null,
+      context: 'on_demand_sale',
+      price: cartItem.selling_price
+    })
+
+    setCart(prev => prev.map(item =>
+      item.assignment_item_id === assignmentItemId && item.selling_price === cartItem.selling_price
+        ? { ...item, price_override_request_id: request.id }
+        : item
+    ))
+  }
+
+  const approveCartItemPrice = async (assignmentItemId: string, code: string) => {
+    const cartItem = cart.find(item => item.assignment_item_id === assignmentItemId)
+    if (!cartItem) return
+
+    const override = await redeemPriceOverrideCode({
+      code,
+      productId: cartItem.product.id,
+      customerId: customerData.type === 'existing' ? customerData.existing_customer_id || null : null,
+      context: 'on_demand_sale',
+      price: cartItem.selling_price
+    })
+
+    setCart(prev => prev.map(item =>
+      item.assignment_item_id === assignmentItemId && item.selling_price === cartItem.selling_price
+        ? { ...item, price_error: undefined, price_override_id: override.id }
+        : item
+    ))
+  }
+
   const removeFromCart = (assignmentItemId: string) => {
     setCart(cart.filter(cartItem => cartItem.assignment_item_id !== assignmentItemId))
   }
@@ -352,20 +484,9 @@ export const Inventory: React.FC = () => {
         alert(`Please fix price errors before completing the sale`)
         return
       }
-      if (product) {
-        const basePrice = product.price_dealer_cash || 0
-        const threshold = 0
-        
-        if (threshold === 0) {
-          alert(`Threshold not set for ${product.name}. Please contact Admin.`)
-          return
-        }
-        const lower = Math.max(0, basePrice - threshold)
-        const upper = basePrice + threshold
-        if (cartItem.selling_price <= 0 || cartItem.selling_price < lower || cartItem.selling_price > upper) {
-          alert(`Price for ${product.name} must be between Rs ${lower.toFixed(2)} and Rs ${upper.toFixed(2)}`)
-          return
-        }
+      if (product && !cartItem.price_override_id && getPriceError(product, cartItem.selling_price)) {
+        alert(`Price for ${product.name} is outside its allowed band (${describeBand(resolvePriceBand(product, priceBands))}) and needs a manager approval code`)
+        return
       }
       if (cartItem.selling_price <= 0) {
         alert('All prices must be greater than 0')
@@ -391,8 +512,6 @@ export const Inventory: React.FC = () => {
         ? customerData.existing_customer_id
         : null,
       sales_rep_id: user?.id || '',
-      quantity_sold: cart.reduce((sum, item) => sum + item.quantity, 0),
-      selling_price: cart.reduce((sum, item) => sum + item.selling_price, 0) / cart.length || 0,
       total_amount: getTotalAmount(),
       sale_date: new Date().toISOString(),
       notes: '',
@@ -415,76 +534,38 @@ export const Inventory: React.FC = () => {
     setShowPaymentModalForOnDemand(true)
   }
 
+  // The whole cart is one sale: one order, one receipt and one bill
   const handleConfirmOnDemandPayment = async (
-    tempOrderId: string,
-    paymentMethod: 'Net' | 'Cash',
-    receiptNo: string
+    _tempOrderId: string,
+    paymentMethod: 'Net' | 'Cash'
   ) => {
     if (cart.length === 0 || !user) {
       alert('No items in cart or user not logged in.')
       return
     }
 
+    // The receipt is printed once the sale is saved; the order shown in the payment modal is a
+    // placeholder without a real id, so the window is opened here, while still in the click
+    const printWindow = openPrintWindow()
+
     setSaving(true)
     try {
-      const selectedCustomer = customerData.type === 'existing'
-        ? customers.find(c => c.id === customerData.existing_customer_id)
-        : null
-
-      for (const cartItem of cart) {
-        const orderData = {
-          on_demand_assignment_item_id: cartItem.assignment_item_id,
-          sales_rep_id: user.id,
-          customer_name: customerData.type === 'existing'
-            ? selectedCustomer?.name || ''
-            : customerData.customer_name,
-          customer_phone: customerData.type === 'existing'
-            ? selectedCustomer?.phone_number
-            : customerData.customer_phone,
-          customer_type: customerData.type,
-          existing_customer_id: customerData.type === 'existing'
-            ? customerData.existing_customer_id
-            : null,
-          quantity_sold: cartItem.quantity,
-          selling_price: cartItem.selling_price,
-          total_amount: cartItem.quantity * cartItem.selling_price,
-          payment_method: paymentMethod,
-        }
-
-        const { data: newOnDemandOrder, error: orderError } = await supabase
-          .from('on_demand_orders')
-          .insert([orderData])
-          .select()
-          .single()
-
-        if (orderError) throw orderError
-
-        const currentItem = products.find(p => p.assignment_item_id === cartItem.assignment_item_id)
-        if (currentItem) {
-          const { error: updateError } = await supabase
-            .from('on_demand_assignment_items')
-            .update({
-              sold_quantity: (currentItem.assigned_quantity || 0) - (currentItem.available_quantity || 0) + cartItem.quantity
-            })
-            .eq('id', cartItem.assignment_item_id)
-
-          if (updateError) throw updateError
-        }
-
-        if (newOnDemandOrder) {
-          const orderToPrint = {
-            ...newOnDemandOrder,
-            customer_details: selectedCustomer || { name: customerData.customer_name, phone_number: customerData.customer_phone, address: '' },
-            product_details: [{
-              ...currentItem,
-              products: cartItem.product,
-              sold_quantity: cartItem.quantity,
-            }],
-            sales_rep_username: user.username,
-          }
+      const newOnDemandOrder = await createOnDemandSale({
+        customerType: customerData.type,
+        existingCustomerId: customerData.existing_customer_id,
+        customerName: customerData.customer_name,
+        customerPhone: customerData.customer_phone,
+        paymentMethod,
+        items: cart.map(cartItem => ({
+          assignmentItemId: cartItem.assignment_item_id,
+          quantity: cartItem.quantity,
+          price: cartItem.selling_price,
+          overrideId: cartItem.price_override_id
+        }))
+      })
 
-          handlePrintOnDemandBill(orderToPrint, paymentMethod, newOnDemandOrder.receipt_no || 'N/A')
-        }
+      if (printWindow) {
+        handlePrintOnDemandBill(printWindow, newOnDemandOrder.id)
       }
 
       alert('Sale completed successfully!')
@@ -498,8 +579,9 @@ export const Inventory: React.FC = () => {
       setView('inventory')
       fetchProducts()
     } catch (error) {
+      printWindow?.close()
       console.error('Error completing sale:', error)
-      alert('Failed to complete sale. Please try again.')
+      alert(error instanceof Error ? error.message : 'Failed to complete sale. Please try again.')
     } finally {
       setSaving(false)
       setShowPaymentModalForOnDemand(false)
@@ -521,51 +603,13 @@ export const Inventory: React.FC = () => {
     }
 
     try {
-      const { data: assignmentItem, error: fetchAssignmentError } = await supabase
-        .from('on_demand_assignment_items')
-        .select('returned_quantity')
-        .eq('id', product.assignment_item_id)
-        .single()
-
-      if (fetchAssignmentError) throw fetchAssignmentError
-
-      const currentReturnedQuantity = assignmentItem?.returned_quantity || 0
-      const newReturnedQuantity = currentReturnedQuantity + returnQuantity
-
-      const { error: updateError } = await supabase
-        .from('on_demand_assignment_items')
-        .update({
-          returned_quantity: newReturnedQuantity
-        })
-        .eq('id', product.assignment_item_id)
-
-      if (updateError) throw updateError
-
-      const { data: productData, error: fetchProductError } = await supabase
-        .from('products')
-        .select('quantity')
-        .eq('id', product.id)
-        .single()
-
-      if (fetchProductError) throw fetchProductError
-
-      const currentProductQuantity = productData?.quantity || 0
-      const newProductQuantity = currentProductQuantity + returnQuantity
-
-      const { error: inventoryError } = await supabase
-        .from('products')
-        .update({
-          quantity: newProductQuantity
-        })
-        .eq('id', product.id)
-
-      if (inventoryError) throw inventoryError
+      await returnOnDemandStock(product.assignment_item_id, returnQuantity)
 
       alert('Products returned successfully!')
       fetchProducts()
     } catch (error) {
       console.error('Error returning products:', error)
-      alert('Failed to return products. Please try again.')
+      alert(error instanceof Error ? error.message : 'Failed to return products. Please try again.')
     }
   }
 
@@ -591,15 +635,15 @@ export const Inventory: React.FC = () => {
   }
 
   const handleStockChange = async (product: ProductWithAssignment, change: number) => {
-    const newQuantity = Math.max(0, product.quantity + change)
-    
-    try {
-      const { error } = await supabase
-        .from('products')
-        .update({ quantity: newQuantity })
-        .eq('id', product.id)
+    const quantityDelta = Math.max(-product.quantity, change)
+    if (quantityDelta === 0) return
 
-      if (error) throw error
+    try {
+      await recordStockMovement({
+        productId: product.id,
+        quantityDelta,
+        movementType: 'adjustment'
+      })
       await fetchProducts()
     } catch (error) {
       console.error('Error updating stock:', error)
@@ -616,27 +660,12 @@ export const Inventory: React.FC = () => {
     setShowEditModal(false)
   }
 
-  const handlePrintOnDemandBill = (
-    order: OnDemandOrder & { customer_details?: SupabaseCustomer; product_details?: (OnDemandAssignmentItem & { products: Product })[]; sales_rep_username?: string; },
-    paymentMethod: 'Net' | 'Cash',
-    receiptNo: string
-  ) => {
-    const printWindow = window.open('', '_blank', 'width=800,height=600')
-    if (printWindow) {
-      printWindow.document.write(`<!DOCTYPE html><html><head><title>Weehena Farm - On Demand Sales Receipt</title></head><body><div id="print-root"></div></body></html>`)
-      printWindow.document.close()
-
-      const printRoot = printWindow.document.getElementById('print-root')
-      if (printRoot) {
-        createRoot(printRoot).render(<OnDemandBillPrintLayout order={order} paymentMethod={paymentMethod} receiptNo={receiptNo} />)
-      }
-
-      setTimeout(() => {
-        printWindow.focus()
-        printWindow.print()
-      }, 1000)
-    } else {
-      alert('Please allow pop-ups to print the bill.')
+  const handlePrintOnDemandBill = async (printWindow: Window, orderId: string) => {
+    try {
+      await showDocumentPdf(printWindow, 'on_demand_order', orderId, { archive: true })
+    } catch (error) {
+      console.error('Error printing on-demand bill:', error)
+      alert(error instanceof Error ? error.message : 'Failed to print the bill.')
     }
   }
 
@@ -663,7 +692,7 @@ export const Inventory: React.FC = () => {
   }
 
   // Sell View for Sales Rep
-  if (view === 'sell' && user?.role === 'Sales Rep') {
+  if (view === 'sell' && sellsOwnStock) {
     return (
       <div className="p-6">
         <div className="flex items-center justify-between mb-6">
@@ -819,9 +848,19 @@ export const Inventory: React.FC = () => {
                             placeholder="Enter price"
                           />
                           {cartItem.price_error && (
-                            <div className="text-xs text-red-600">
-                              {cartItem.price_error}
-                            </div>
+                            <>
+                              <div className="text-xs text-red-600">
+                                {cartItem.price_error}
+                              </div>
+                              <PriceOverrideApproval
+                                requested={!!cartItem.price_override_request_id}
+                                onRequest={() => requestCartItemPrice(cartItem.assignment_item_id)}
+                                onApprove={(code) => approveCartItemPrice(cartItem.assignment_item_id, code)}
+                              />
+                            </>
+                          )}
+                          {cartItem.price_override_id && (
+                            <div className="text-xs text-yellow-700">Price approved by manager</div>
                           )}
                         </div>
                       </div>
@@ -863,7 +902,6 @@ export const Inventory: React.FC = () => {
             order={onDemandOrderToConfirm}
             onClose={() => setShowPaymentModalForOnDemand(false)}
             onConfirm={handleConfirmOnDemandPayment}
-            onPrintBill={handlePrintOnDemandBill}
             loading={saving}
             is_on_demand={true}
           />
@@ -877,14 +915,14 @@ export const Inventory: React.FC = () => {
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
         <div>
           <h1 className="text-2xl font-bold text-gray-900">
-            {user?.role === 'Sales Rep' ? 'My Inventory' : 'Master Inventory'}
+            {sellsOwnStock ? 'My Inventory' : 'Master Inventory'}
           </h1>
-          {user?.role === 'Sales Rep' && (
+          {sellsOwnStock && (
             <p className="text-sm text-gray-600 mt-1">Products assigned to you for On Demand sales</p>
           )}
         </div>
         <div className="flex items-center space-x-3">
-          {user?.role === 'Sales Rep' && (
+          {sellsOwnStock && (
             <>
               <button
                 onClick={() => setShowProductRequestModal(true)}
@@ -903,6 +941,33 @@ export const Inventory: React.FC = () => {
               </button>
             </>
           )}
+          {canEditPrices && (
+            <button
+              onClick={() => setShowScheduledPricesModal(true)}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <CalendarClock className="w-4 h-4 mr-2" />
+              Scheduled Prices
+            </button>
+          )}
+          {canEditPrices && (
+            <button
+              onClick={() => setShowPriceBandsModal(true)}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <SlidersHorizontal className="w-4 h-4 mr-2" />
+              Price Bands
+            </button>
+          )}
+          {canOverridePrices && (
+            <button
+              onClick={() => setShowPriceOverrideRequestsModal(true)}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              <KeyRound className="w-4 h-4 mr-2" />
+              Approval Code
+            </button>
+          )}
           {!isReadOnly && (
             <button
               onClick={() => setShowBulkEntry(true)}
@@ -915,6 +980,13 @@ export const Inventory: React.FC = () => {
         </div>
       </div>
 
+      {sellsOwnStock && (
+        <>
+          <MyStockRequestsPanel refreshKey={requestsRefreshKey} />
+          <PendingTransfersPanel refreshKey={transfersRefreshKey} onChanged={fetchProducts} />
+        </>
+      )}
+
       {/* Search and Filters */}
       <div className="bg-white rounded-lg shadow p-4 mb-6">
         <div className="flex flex-col md:flex-row gap-4">
@@ -930,7 +1002,7 @@ export const Inventory: React.FC = () => {
               />
             </div>
           </div>
-          {user?.role === 'Security Guard' && (
+          {checksLoadsOnly && (
             <>
               <input
                 type="date"
@@ -973,7 +1045,7 @@ export const Inventory: React.FC = () => {
                     <h3 className="text-lg font-semibold text-gray-900 mb-1">
                       {product.name}
                     </h3>
-                    {user?.role === 'Sales Rep' && product.assignment_type && (
+                    {sellsOwnStock && product.assignment_type && (
                       <span className={`ml-2 px-2 py-0.5 text-xs rounded-full ${
                         product.assignment_type === 'sales_rep_requested'
                           ? 'bg-blue-100 text-blue-800'
@@ -994,7 +1066,7 @@ export const Inventory: React.FC = () => {
               
               <div className="space-y-3">
                 {/* Show assigned quantity for Sales Rep */}
-                {user?.role === 'Sales Rep' && product.assigned_quantity !== undefined && (
+                {sellsOwnStock && product.assigned_quantity !== undefined && (
                   <div className="flex items-center justify-between">
                     <div className="text-sm text-gray-600">
                       <span className="font-medium">Total Assigned:</span>
@@ -1011,7 +1083,7 @@ export const Inventory: React.FC = () => {
                 <div className="flex items-center justify-between">
                   <div className="text-sm text-gray-600">
                     <span className="font-medium">
-                      {user?.role === 'Sales Rep' ? 'Available to Sell:' : 'Current Stock:'}
+                      {sellsOwnStock ? 'Available to Sell:' : 'Current Stock:'}
                     </span>
                   </div>
                   <div className="flex items-center space-x-2">
@@ -1025,7 +1097,7 @@ export const Inventory: React.FC = () => {
                         <AlertTriangle className="w-4 h-4 ml-1" />
                         )}
                       </span>
-                    {user?.role === 'Admin' || user?.role === 'Super Admin' ? (
+                    {can('inventory.manage') ? (
                       <button
                         onClick={() => handleUpdateStock(product)}
                         className="text-blue-600 hover:text-blue-800 transition-colors"
@@ -1034,6 +1106,15 @@ export const Inventory: React.FC = () => {
                         <Plus className="w-4 h-4" />
                       </button>
                     ) : null}
+                    {!sellsOwnStock && (
+                      <button
+                        onClick={() => handleViewStockHistory(product)}
+                        className="text-gray-500 hover:text-gray-700 transition-colors"
+                        title="Stock Movement History"
+                      >
+                        <History className="w-4 h-4" />
+                      </button>
+                    )}
                   </div>
                 </div>
 
@@ -1079,7 +1160,7 @@ export const Inventory: React.FC = () => {
                 )}
                 
                 {/* Sales Rep specific actions */}
-                {user?.role === 'Sales Rep' && (
+                {sellsOwnStock && (
                   <div className="flex items-center space-x-3">
                     <button
                       onClick={() => {
@@ -1093,6 +1174,14 @@ export const Inventory: React.FC = () => {
                     >
                       <span className="text-sm">Return</span>
                     </button>
+                    <button
+                      onClick={() => setTransferringProduct(product)}
+                      className="flex items-center space-x-1 text-purple-600 hover:text-purple-800 transition-colors"
+                      title="Transfer to another sales rep"
+                    >
+                      <ArrowLeftRight className="w-4 h-4" />
+                      <span className="text-sm">Transfer</span>
+                    </button>
                   </div>
                 )}
               </div>
@@ -1122,11 +1211,16 @@ export const Inventory: React.FC = () => {
                 <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                   Prices
                 </th>
-                {user?.role === 'Sales Rep' && (
+                {sellsOwnStock && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Assignment Type
                   </th>
                 )}
+                {sellsOwnStock && (
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Transfer
+                  </th>
+                )}
                 {!isReadOnly && (
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Actions
@@ -1154,7 +1248,7 @@ export const Inventory: React.FC = () => {
                       }`}>
                         {product.quantity} kg
                       </span>
-                      {user?.role === 'Admin' || user?.role === 'Super Admin' ? (
+                      {can('inventory.manage') ? (
                         <button
                           onClick={() => handleUpdateStock(product)}
                           className="text-blue-600 hover:text-blue-800 transition-colors"
@@ -1163,6 +1257,15 @@ export const Inventory: React.FC = () => {
                           <Plus className="w-4 h-4" />
                         </button>
                       ) : null}
+                      {!sellsOwnStock && (
+                        <button
+                          onClick={() => handleViewStockHistory(product)}
+                          className="text-gray-500 hover:text-gray-700 transition-colors"
+                          title="Stock Movement History"
+                        >
+                          <History className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </td>
                   <td className="px-6 py-4 whitespace-nowrap">
@@ -1175,7 +1278,7 @@ export const Inventory: React.FC = () => {
                       <span className="text-sm">View/Edit Prices</span>
                     </button>
                   </td>
-                  {user?.role === 'Sales Rep' && (
+                  {sellsOwnStock && (
                     <td className="px-6 py-4 whitespace-nowrap">
                       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
                         product.assignment_type === 'admin_assigned' 
@@ -1186,6 +1289,18 @@ export const Inventory: React.FC = () => {
                       </span>
                     </td>
                   )}
+                  {sellsOwnStock && (
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <button
+                        onClick={() => setTransferringProduct(product)}
+                        className="flex items-center space-x-1 text-purple-600 hover:text-purple-800 transition-colors"
+                        title="Transfer to another sales rep"
+                      >
+                        <ArrowLeftRight className="w-4 h-4" />
+                        <span className="text-sm">Transfer</span>
+                      </button>
+                    </td>
+                  )}
                   {!isReadOnly && (
                     <td className="px-6 py-4 whitespace-nowrap text-sm font-medium space-x-2">
                       <button
@@ -1246,6 +1361,28 @@ export const Inventory: React.FC = () => {
         />
       )}
 
+      {showScheduledPricesModal && (
+        <ScheduledPriceChangesModal
+          onClose={() => setShowScheduledPricesModal(false)}
+          onChanged={fetchProducts}
+        />
+      )}
+
+      {showPriceBandsModal && (
+        <PriceBandsModal onClose={() => setShowPriceBandsModal(false)} />
+      )}
+
+      {showPriceOverrideRequestsModal && (
+        <PriceOverrideRequestsModal onClose={() => setShowPriceOverrideRequestsModal(false)} />
+      )}
+
+      {selectedProductForHistory && (
+        <StockMovementHistoryModal
+          product={selectedProductForHistory}
+          onClose={() => setSelectedProductForHistory(null)}
+        />
+      )}
+
       {/* Stock Update Modal */}
       {showStockUpdateModal && selectedProductForStockUpdate && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -1287,6 +1424,30 @@ export const Inventory: React.FC = () => {
                 <p className="text-xs text-gray-500">
                   This amount will be added to the current stock quantity.
                 </p>
+                <label htmlFor="stockBatchNumber" className="block text-sm font-medium text-gray-700">
+                  Batch Number
+                </label>
+                <input
+                  type="text"
+                  id="stockBatchNumber"
+                  value={stockBatchNumber}
+                  onChange={(e) => setStockBatchNumber(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                  placeholder="Auto-generated if left blank"
+                />
+                <label htmlFor="stockExpiryDate" className="block text-sm font-medium text-gray-700">
+                  Expiry Date
+                </label>
+                <input
+                  type="date"
+                  id="stockExpiryDate"
+                  value={stockExpiryDate}
+                  onChange={(e) => setStockExpiryDate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+                />
+                <p className="text-xs text-gray-500">
+                  Leave empty for products that do not expire. Stock is issued earliest expiry first.
+                </p>
               </div>
             </div>
             <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
@@ -1311,7 +1472,23 @@ export const Inventory: React.FC = () => {
       {showProductRequestModal && (
         <ProductRequestModal
           onClose={() => setShowProductRequestModal(false)}
-          onRequestSubmitted={fetchProducts}
+          onRequestSubmitted={() => setRequestsRefreshKey(key => key + 1)}
+        />
+      )}
+
+      {transferringProduct && transferringProduct.assignment_item_id && (
+        <OnDemandTransferModal
+          product={{
+            assignmentItemId: transferringProduct.assignment_item_id,
+            name: transferringProduct.name,
+            available: transferringProduct.quantity
+          }}
+          onClose={() => setTransferringProduct(null)}
+          onTransferred={() => {
+            setTransferringProduct(null)
+            setTransfersRefreshKey(key => key + 1)
+            fetchProducts()
+          }}
         />
       )}
     </div>
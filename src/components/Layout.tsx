@@ -2,6 +2,9 @@ import React, { useRef, useMemo } from 'react' // Added useRef, useMemo
 import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom'
 import { 
   Tag,
+  BadgeDollarSign,
+  Wallet,
+  Mail,
   Users, 
   ShoppingCart, 
   BarChart3, 
@@ -20,12 +23,15 @@ import {
 } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
 import { useCompanyData } from '../hooks/useCompanyData'
-import { supabase } from '../lib/supabase' // Import supabase
+import { usePermissions } from '../hooks/usePermission'
+import { supabase, Permission } from '../lib/supabase' // Import supabase
 import WeehenaLogo from '../assets/images/Weehena Logo(Ai) copy.png';
 
 export const Layout: React.FC = () => {
   const { user, logout, isOnline } = useAuth()
   const { companyId } = useCompanyData()
+  const { can } = usePermissions()
+  const canReviewSecurity = can('orders.security_review')
   const location = useLocation()
   const navigate = useNavigate()
   const [sidebarOpen, setSidebarOpen] = React.useState(false)
@@ -93,75 +99,41 @@ export const Layout: React.FC = () => {
     setSidebarOpen(false)
   }, [])
 
+  // Each entry shows when the user's role grants its permission; Sales Orders is always shown
   const getNavigation = () => {
-    // Define common navigation items
-    const commonNav = [
-      // Dashboard entry removed
-      { name: 'Sales Orders', href: '/sales-orders', icon: FileText },
-    ];
+    const inventoryItem = can('inventory.manage')
+      ? [{ name: 'Master Inventory', href: '/inventory', icon: ShoppingBag }]
+      : can('on_demand.sell')
+        ? [{ name: 'My Inventory', href: '/inventory', icon: ShoppingBag }]
+        : []
 
-    // Define role-specific navigation items
-    switch (user?.role) {
-      case 'Super Admin':
-        return [
-          ...commonNav,
-          { name: 'Master Inventory', href: '/inventory', icon: ShoppingBag },
-          { name: 'Product List', href: '/products', icon: ClipboardList },
-          { name: 'Categories', href: '/categories', icon: Tag },
-          { name: 'Customers', href: '/customers', icon: Users },
-          { name: 'Service Customer', href: '/service', icon: ShoppingCart },
-          { name: 'On Demand Assignments', href: '/assign-on-demand', icon: Clipboard },
-          { name: 'Reports', href: '/reports', icon: BarChart3 },
-          { name: 'Manage Users', href: '/user-management', icon: Shield },
-          { name: 'Vehicle Management', href: '/vehicle-management', icon: Car },
-          { name: 'Security Check Incomplete', href: '/security-incomplete-orders', icon: Shield }, // New link
-          { name: 'System Settings', href: '/system-settings', icon: SettingsIcon }, // New link
-        ]
-      case 'Admin':
-        return [
-          ...commonNav,
-          { name: 'Master Inventory', href: '/inventory', icon: ShoppingBag },
-          { name: 'Product List', href: '/products', icon: ClipboardList },
-          { name: 'Categories', href: '/categories', icon: Tag },
-          { name: 'Customers', href: '/customers', icon: Users },
-          { name: 'Service Customer', href: '/service', icon: ShoppingCart },
-          { name: 'On Demand Assignments', href: '/assign-on-demand', icon: Clipboard },
-          { name: 'Vehicle Management', href: '/vehicle-management', icon: Car },
-          { name: 'Reports', href: '/reports', icon: BarChart3 },
-          { name: 'Security Check Incomplete', href: '/security-incomplete-orders', icon: Shield }, // New link
-        ]
-      case 'Order Manager':
-        return [
-          ...commonNav,
-          { name: 'Product List', href: '/products', icon: ClipboardList },
-          { name: 'Categories', href: '/categories', icon: Tag },
-          { name: 'Service Customer', href: '/service', icon: ShoppingCart },
-        ]
-      case 'Sales Rep':
-        return [
-          ...commonNav,
-          { name: 'My Inventory', href: '/inventory', icon: ShoppingBag },
-          { name: 'On Demand Orders', href: '/on-demand-orders', icon: Clipboard },
-        ]
-      case 'Security Guard':
-        return [
-          ...commonNav,
-          { name: 'On Demand Assignments', href: '/assign-on-demand', icon: Clipboard },
-          { name: 'Reports', href: '/reports', icon: BarChart3 },
-        ]
-      case 'Finance Admin':
-        return [
-          { name: 'Sales Orders', href: '/sales-orders', icon: FileText },
-          { name: 'On Demand Orders', href: '/on-demand-orders', icon: Clipboard },
-        ]
-      default:
-        return []
-    }
+    const permittedNav: { name: string; href: string; icon: typeof FileText; permission: Permission }[] = [
+      { name: 'Product List', href: '/products', icon: ClipboardList, permission: 'catalog.view' },
+      { name: 'Categories', href: '/categories', icon: Tag, permission: 'catalog.view' },
+      { name: 'Price Lists', href: '/price-lists', icon: BadgeDollarSign, permission: 'prices.edit' },
+      { name: 'Customers', href: '/customers', icon: Users, permission: 'customers.view' },
+      { name: 'Service Customer', href: '/service', icon: ShoppingCart, permission: 'service.use' },
+      { name: 'On Demand Assignments', href: '/assign-on-demand', icon: Clipboard, permission: 'on_demand.assignments.view' },
+      { name: 'On Demand Orders', href: '/on-demand-orders', icon: Clipboard, permission: 'on_demand.orders.view' },
+      { name: 'Receivables', href: '/receivables', icon: Wallet, permission: 'receivables.manage' },
+      { name: 'Email Logs', href: '/email-logs', icon: Mail, permission: 'emails.manage' },
+      { name: 'Reports', href: '/reports', icon: BarChart3, permission: 'reports.view' },
+      { name: 'Manage Users', href: '/user-management', icon: Shield, permission: 'users.manage' },
+      { name: 'Vehicle Management', href: '/vehicle-management', icon: Car, permission: 'vehicles.manage' },
+      { name: 'Security Check Incomplete', href: '/security-incomplete-orders', icon: Shield, permission: 'orders.security_review' },
+      { name: 'System Settings', href: '/system-settings', icon: SettingsIcon, permission: 'settings.manage' },
+    ]
+
+    return [
+      { name: 'Sales Orders', href: '/sales-orders', icon: FileText },
+      ...inventoryItem,
+      ...permittedNav.filter(item => can(item.permission)),
+    ]
   }
 
   // Fetch incomplete orders for notification badge
   React.useEffect(() => {
-    if (user && (user.role === 'Super Admin' || user.role === 'Admin')) {
+    if (user && canReviewSecurity) {
       const fetchCount = async () => {
         const { count, error } = await supabase
           .from('orders')
@@ -199,7 +171,7 @@ export const Layout: React.FC = () => {
         supabase.removeChannel(subscription)
       }
     }
-  }, [user])
+  }, [user, canReviewSecurity])
 
   const handleNotificationClick = async () => {
     setShowNotificationsDropdown(!showNotificationsDropdown)
@@ -294,7 +266,7 @@ export const Layout: React.FC = () => {
             </div>
             <div className="flex items-center space-x-4">
               {/* Notification Icon and Dropdown */}
-              {(user?.role === 'Super Admin' || user?.role === 'Admin') && (
+              {canReviewSecurity && (
                 <div className="relative" ref={notificationDropdownRef}>
                   <button
                     onClick={handleNotificationClick}
@@ -350,7 +322,7 @@ export const Layout: React.FC = () => {
                       <div className="block px-4 py-2 text-sm text-gray-700">
                         {user?.first_name} {user?.last_name}
                       </div>
-                      {user?.role === 'Super Admin' && ( // Only show for Super Admin
+                      {can('settings.manage') && (
                         <Link
                           to="/system-settings"
                           onClick={() => { setProfileDropdownOpen(false); handleCloseSidebar(); }} // Close dropdown and sidebar
@@ -0,0 +1,130 @@
+import React, { useState, useEffect } from 'react'
+import { X, LogIn } from 'lucide-react'
+import { LoginAuditEntry } from '../lib/supabase'
+import { fetchLoginAudit } from '../lib/userAdminService'
+
+interface LoginAuditModalProps {
+  users: { id: string; username: string }[]
+  onClose: () => void
+}
+
+export const LoginAuditModal: React.FC<LoginAuditModalProps> = ({ users, onClose }) => {
+  const [entries, setEntries] = useState<LoginAuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+  const [userFilter, setUserFilter] = useState('')
+  const [failedOnly, setFailedOnly] = useState(false)
+
+  useEffect(() => {
+    const loadAudit = async () => {
+      setLoading(true)
+      try {
+        setEntries(await fetchLoginAudit({ userId: userFilter || undefined, failedOnly }))
+      } catch (error) {
+        console.error('Error fetching login audit:', error)
+        setEntries([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadAudit()
+  }, [userFilter, failedOnly])
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <LogIn className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Login History</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3 px-6 pt-4">
+          <select
+            value={userFilter}
+            onChange={(e) => setUserFilter(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+          >
+            <option value="">All Users</option>
+            {users.map(u => (
+              <option key={u.id} value={u.id}>{u.username}</option>
+            ))}
+          </select>
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={failedOnly}
+              onChange={(e) => setFailedOnly(e.target.checked)}
+              className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500 mr-2"
+            />
+            Failed attempts only
+          </label>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center py-8">No login attempts recorded.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Device</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{new Date(entry.created_at).toLocaleString()}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">
+                        {entry.username}
+                        {!entry.user_id && <div className="text-xs text-gray-500">Unknown account</div>}
+                      </td>
+                      <td className="px-4 py-2 text-xs text-gray-500 max-w-xs break-words">
+                        {entry.device_id && <div className="font-mono text-gray-700">{entry.device_id}</div>}
+                        {entry.user_agent || '-'}
+                      </td>
+                      <td className="px-4 py-2 text-sm">
+                        {entry.succeeded ? (
+                          <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">OK</span>
+                        ) : (
+                          <>
+                            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">Failed</span>
+                            {entry.failure_reason && <div className="text-xs text-red-600 mt-1">{entry.failure_reason}</div>}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { Package, X } from 'lucide-react'
+import { OnDemandAssignment } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import { dismissStockRequestOutcome, fetchMyStockRequests } from '../lib/onDemandService'
+
+interface MyStockRequestsPanelProps {
+  // Bumped by the parent after the rep sends a request, so the list reloads
+  refreshKey: number
+}
+
+const STATUS_STYLES: Record<string, { label: string; className: string }> = {
+  requested: { label: 'Waiting for approval', className: 'bg-yellow-100 text-yellow-800' },
+  active: { label: 'Approved', className: 'bg-green-100 text-green-800' },
+  rejected: { label: 'Rejected', className: 'bg-red-100 text-red-800' }
+}
+
+// The rep's own stock requests: those waiting for approval, and the outcome of reviewed ones
+// until the rep dismisses it
+export const MyStockRequestsPanel: React.FC<MyStockRequestsPanelProps> = ({ refreshKey }) => {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [requests, setRequests] = useState<OnDemandAssignment[]>([])
+
+  const loadRequests = useCallback(async () => {
+    if (!userId) return
+    try {
+      setRequests(await fetchMyStockRequests(userId))
+    } catch (err) {
+      console.error('Error fetching stock requests:', err)
+      setRequests([])
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadRequests()
+  }, [loadRequests, refreshKey])
+
+  const handleDismiss = async (request: OnDemandAssignment) => {
+    try {
+      await dismissStockRequestOutcome(request.id)
+      setRequests(requests.filter(r => r.id !== request.id))
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to dismiss request.')
+    }
+  }
+
+  if (requests.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6">
+      <div className="flex items-center space-x-2 mb-3">
+        <Package className="w-5 h-5 text-gray-600" />
+        <h3 className="text-sm font-semibold text-gray-900">My Product Requests</h3>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {requests.map(request => {
+          const status = STATUS_STYLES[request.status] || { label: request.status, className: 'bg-gray-100 text-gray-800' }
+          return (
+            <li key={request.id} className="py-2 flex items-start justify-between gap-2">
+              <div className="text-sm text-gray-700 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span>{new Date(request.created_at).toLocaleString()}</span>
+                  <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${status.className}`}>{status.label}</span>
+                  {request.reviewed_by_user && <span className="text-xs text-gray-500">by {request.reviewed_by_user.username}</span>}
+                </div>
+                <div>
+                  {request.assignment_items?.map(item => {
+                    const requested = Number(item.requested_quantity ?? item.assigned_quantity)
+                    const changed = request.status === 'active' && Number(item.assigned_quantity) !== requested
+                    return (
+                      <span key={item.id} className="mr-3">
+                        {item.products?.name || 'Unknown Product'}: {changed ? `${item.assigned_quantity} kg (asked ${requested} kg)` : `${requested} kg`}
+                      </span>
+                    )
+                  })}
+                </div>
+                {request.review_notes && <div className="text-gray-500">{request.review_notes}</div>}
+              </div>
+              {request.status !== 'requested' && (
+                <button
+                  onClick={() => handleDismiss(request)}
+                  className="text-gray-400 hover:text-gray-600 transition-colors"
+                  title="Dismiss"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -1,18 +1,26 @@
 import React, { useState, useEffect } from 'react'
-import { Package, Calendar, User, FileText } from 'lucide-react'
-import { supabase, OnDemandAssignmentItem, OnDemandOrder, Customer } from '../lib/supabase'
+import { Package, FileText, Printer } from 'lucide-react'
+import { supabase, OnDemandOrder } from '../lib/supabase'
 import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermission'
+import { openDocumentPdf } from '../lib/documentService'
+
+const totalQuantity = (order: OnDemandOrder) =>
+  (order.on_demand_order_items || []).reduce((sum, item) => sum + Number(item.quantity), 0)
 
 export const OnDemandOrders: React.FC = () => {
   const { user, isOnline } = useAuth()
+  const { can } = usePermissions()
+  const canViewOrders = can('on_demand.orders.view')
+  const viewAll = can('on_demand.view_all')
   const [completedOrders, setCompletedOrders] = useState<OnDemandOrder[]>([])
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
-    if (user?.role === 'Sales Rep' || user?.role === 'Finance Admin') {
+    if (canViewOrders) {
       fetchCompletedOrders()
     }
-  }, [user])
+  }, [user, canViewOrders, viewAll])
 
   const fetchCompletedOrders = async () => {
     try {
@@ -29,14 +37,15 @@ export const OnDemandOrders: React.FC = () => {
       let query = supabase
         .from('on_demand_orders')
         .select(`
-          id, on_demand_order_display_id, customer_name, customer_phone, quantity_sold, total_amount, sale_date, selling_price, on_demand_assignment_item_id,
-          on_demand_assignment_items(
+          id, on_demand_order_display_id, receipt_no, customer_name, customer_phone, total_amount, sale_date, payment_method,
+          on_demand_order_items(
+            id, quantity, price, line_total,
             products(name)
           )
         `)
       
-      // Finance Admin sees all on-demand orders, Sales Reps only see their own
-      if (user?.role === 'Sales Rep') {
+      // Without on_demand.view_all users only see their own sales
+      if (user && !viewAll) {
         query = query.eq('sales_rep_id', user.id)
       }
       
@@ -61,13 +70,22 @@ export const OnDemandOrders: React.FC = () => {
     }
   }
 
-  if (!['Sales Rep', 'Finance Admin'].includes(user?.role)) {
+  const handleReprint = async (orderId: string) => {
+    try {
+      await openDocumentPdf('on_demand_order', orderId, { duplicate: true })
+    } catch (error) {
+      console.error('Error printing on-demand bill:', error)
+      alert(error instanceof Error ? error.message : 'Failed to print the bill.')
+    }
+  }
+
+  if (!canViewOrders) {
     return (
       <div className="p-6">
         <div className="text-center py-12">
           <Package className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Only Sales Reps and Finance Admins can access On Demand orders.</p>
+          <p className="text-gray-600">You do not have permission to view On Demand orders.</p>
         </div>
       </div>
     )
@@ -109,13 +127,23 @@ export const OnDemandOrders: React.FC = () => {
                         <h3 className="text-sm font-semibold text-gray-900 truncate">
                           Order {order.on_demand_order_display_id}
                         </h3>
-                        <div className="flex items-center mt-1">
-                          <span className="inline-block inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
-                            {order.on_demand_assignment_items?.products?.name || 'Unknown Product'}
-                          </span>
+                        <div className="flex flex-wrap items-center gap-1 mt-1">
+                          {order.on_demand_order_items?.map(item => (
+                            <span key={item.id} className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-blue-100 text-blue-800">
+                              {item.products?.name || 'Unknown Product'}
+                            </span>
+                          ))}
                         </div>
                       </div>
                     </div>
+                    <button
+                      onClick={() => handleReprint(order.id)}
+                      disabled={!isOnline}
+                      className="p-2.5 text-gray-600 bg-gray-100 rounded-full hover:bg-gray-200 touch-manipulation disabled:opacity-50 ml-3"
+                      title="Print bill"
+                    >
+                      <Printer className="w-5 h-5" />
+                    </button>
                   </div>
                   
                   <div className="space-y-1 text-xs ml-11">
@@ -129,9 +157,15 @@ export const OnDemandOrders: React.FC = () => {
                         <span className="text-gray-700 flex-1">{order.customer_phone}</span>
                       </div>
                     )}
+                    {order.receipt_no && (
+                      <div className="flex items-start">
+                        <span className="text-gray-500 font-medium w-16 flex-shrink-0">Receipt:</span>
+                        <span className="text-gray-700 flex-1">{order.receipt_no}</span>
+                      </div>
+                    )}
                     <div className="flex items-start">
                       <span className="text-gray-500 font-medium w-16 flex-shrink-0">Quantity:</span>
-                      <span className="text-gray-700 flex-1">{order.quantity_sold} kg</span>
+                      <span className="text-gray-700 flex-1">{totalQuantity(order)} kg</span>
                     </div>
                     <div className="flex items-start">
                       <span className="text-gray-500 font-medium w-16 flex-shrink-0">Total:</span>
@@ -160,7 +194,7 @@ export const OnDemandOrders: React.FC = () => {
                       Order ID
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Product
+                      Products
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Customer
@@ -169,10 +203,10 @@ export const OnDemandOrders: React.FC = () => {
                       Quantity Sold
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Selling Price
+                      Total Amount
                     </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                      Total Amount
+                      Actions
                     </th>
                   </tr>
                 </thead>
@@ -189,24 +223,21 @@ export const OnDemandOrders: React.FC = () => {
                           <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
                             {order.on_demand_order_display_id}
                           </span>
+                          {order.receipt_no && (
+                            <div className="text-xs text-gray-500 mt-1">{order.receipt_no}</div>
+                          )}
                         </div>
                       </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {order.on_demand_assignment_items?.products?.name || 'Unknown Product'}
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {order.on_demand_order_items?.map(item => (
+                          <div key={item.id}>
+                            {item.products?.name || 'Unknown Product'}
+                            <span className="text-xs text-gray-500 ml-1">
+                              {item.quantity} kg × Rs {Number(item.price).toFixed(2)}
+                            </span>
+                          </div>
+                        ))}
                       </td>
-                      {user?.role === 'Security Guard' && (
-                        <>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            <div className="flex items-center">
-                              <User className="w-4 h-4 text-blue-600 mr-2" />
-                              {order.on_demand_assignment_items?.on_demand_assignments?.users?.username || 'Unknown'}
-                            </div>
-                          </td>
-                          <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                            {order.on_demand_assignment_items?.on_demand_assignments?.vehicle_number || '-'}
-                          </td>
-                        </>
-                      )}
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         <div>
                           <div className="font-medium">{order.customer_name}</div>
@@ -216,13 +247,23 @@ export const OnDemandOrders: React.FC = () => {
                         </div>
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        {order.quantity_sold} kg
-                      </td>
-                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
-                        Rs {order.selling_price.toFixed(2)}
+                        {totalQuantity(order)} kg
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                         Rs {order.total_amount.toFixed(2)}
+                        {order.payment_method && (
+                          <div className="text-xs text-gray-500">{order.payment_method}</div>
+                        )}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm font-medium">
+                        <button
+                          onClick={() => handleReprint(order.id)}
+                          disabled={!isOnline}
+                          className="p-2 text-gray-600 hover:text-gray-900 rounded-full hover:bg-gray-200 disabled:opacity-50"
+                          title="Print bill"
+                        >
+                          <Printer className="w-4 h-4" />
+                        </button>
                       </td>
                     </tr>
                   ))}
@@ -0,0 +1,413 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { X, ClipboardCheck, Save } from 'lucide-react'
+import { OnDemandAssignment, OnDemandAssignmentItem, OnDemandReconciliation, OnDemandTransfer } from '../lib/supabase'
+import {
+  closeOnDemandAssignment,
+  fetchAssignmentTransfers,
+  fetchReconciliation,
+  fetchReconciliationSheet,
+  OnDemandCollections,
+  remainingQuantity
+} from '../lib/onDemandService'
+
+interface OnDemandReconciliationModalProps {
+  assignment: OnDemandAssignment
+  // False shows the saved reconciliation only
+  canClose: boolean
+  onClose: () => void
+  onClosed: () => void
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+
+// Amounts and weights are stored to 2 decimals, so compare them there
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+const varianceColor = (variance: number) =>
+  variance === 0 ? 'text-gray-700' : variance > 0 ? 'text-green-700' : 'text-red-700'
+
+const expectedQuantity = (item: OnDemandAssignmentItem) => remainingQuantity(item)
+
+export const OnDemandReconciliationModal: React.FC<OnDemandReconciliationModalProps> = ({
+  assignment,
+  canClose,
+  onClose,
+  onClosed
+}) => {
+  const editable = canClose && assignment.status === 'active'
+  const [items, setItems] = useState<OnDemandAssignmentItem[]>([])
+  const [collections, setCollections] = useState<OnDemandCollections>({ cash: 0, net: 0 })
+  const [reconciliation, setReconciliation] = useState<OnDemandReconciliation | null>(null)
+  const [transfers, setTransfers] = useState<OnDemandTransfer[]>([])
+  const [counts, setCounts] = useState<Record<string, string>>({})
+  const [reasons, setReasons] = useState<Record<string, string>>({})
+  const [cashHandedIn, setCashHandedIn] = useState('')
+  const [netReceived, setNetReceived] = useState('')
+  const [cashReason, setCashReason] = useState('')
+  const [netReason, setNetReason] = useState('')
+  const [notes, setNotes] = useState('')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadData = useCallback(async () => {
+    setLoading(true)
+    try {
+      if (editable) {
+        const sheet = await fetchReconciliationSheet(assignment.id)
+        setItems(sheet.items)
+        setCollections(sheet.collections)
+      } else {
+        setReconciliation(await fetchReconciliation(assignment.id))
+      }
+      setTransfers(await fetchAssignmentTransfers(assignment.id))
+    } catch (err) {
+      console.error('Error loading reconciliation:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load reconciliation.')
+    } finally {
+      setLoading(false)
+    }
+  }, [assignment.id, editable])
+
+  useEffect(() => {
+    loadData()
+  }, [loadData])
+
+  const itemVariance = (item: OnDemandAssignmentItem) =>
+    counts[item.id] === undefined || counts[item.id] === ''
+      ? null
+      : round2(parseFloat(counts[item.id]) - expectedQuantity(item))
+
+  const cashVariance = cashHandedIn === '' ? null : round2(parseFloat(cashHandedIn) - collections.cash)
+  const netVariance = netReceived === '' ? null : round2(parseFloat(netReceived) - collections.net)
+
+  const handleSubmit = async () => {
+    setError(null)
+
+    for (const item of items) {
+      const counted = parseFloat(counts[item.id])
+      if (isNaN(counted) || counted < 0) {
+        setError(`Enter the counted quantity for ${item.products?.name || 'every product'}.`)
+        return
+      }
+      if (itemVariance(item) !== 0 && !reasons[item.id]?.trim()) {
+        setError(`Give a reason for the variance on ${item.products?.name || 'a product'}.`)
+        return
+      }
+    }
+
+    const cash = parseFloat(cashHandedIn)
+    const net = parseFloat(netReceived)
+    if (isNaN(cash) || cash < 0 || isNaN(net) || net < 0) {
+      setError('Enter the cash handed in and the Net amount received.')
+      return
+    }
+    if (cashVariance !== 0 && !cashReason.trim()) {
+      setError('Give a reason for the cash variance.')
+      return
+    }
+    if (netVariance !== 0 && !netReason.trim()) {
+      setError('Give a reason for the Net variance.')
+      return
+    }
+
+    if (!confirm('Close this assignment? The counted stock will be returned to inventory and the assignment marked completed.')) {
+      return
+    }
+
+    setSaving(true)
+    try {
+      await closeOnDemandAssignment({
+        assignmentId: assignment.id,
+        items: items.map(item => ({
+          assignmentItemId: item.id,
+          countedQuantity: parseFloat(counts[item.id]),
+          varianceReason: reasons[item.id]
+        })),
+        cashHandedIn: cash,
+        netReceived: net,
+        cashVarianceReason: cashReason,
+        netVarianceReason: netReason,
+        notes
+      })
+      onClosed()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to close assignment.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const renderCollectionRow = (
+    label: string,
+    expected: number,
+    value: string,
+    setValue: (value: string) => void,
+    variance: number | null,
+    reason: string,
+    setReason: (value: string) => void
+  ) => (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-3 items-start">
+      <div>
+        <div className="text-xs text-gray-500">{label} sales</div>
+        <div className="text-sm font-medium text-gray-900">Rs {formatAmount(expected)}</div>
+      </div>
+      <div>
+        <label className="block text-xs text-gray-500 mb-1">{label} received (Rs)</label>
+        <input
+          type="number"
+          min="0"
+          step="0.01"
+          value={value}
+          onChange={(e) => setValue(e.target.value)}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+        />
+      </div>
+      <div>
+        <div className="text-xs text-gray-500">Variance</div>
+        <div className={`text-sm font-medium ${variance === null ? 'text-gray-400' : varianceColor(variance)}`}>
+          {variance === null ? '-' : `Rs ${formatAmount(variance)}`}
+        </div>
+      </div>
+      {variance !== null && variance !== 0 && (
+        <div>
+          <label className="block text-xs text-gray-500 mb-1">Reason *</label>
+          <input
+            type="text"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+            placeholder="e.g. Change given short"
+          />
+        </div>
+      )}
+    </div>
+  )
+
+  // Accepted transfers are in the In/Out columns; pending ones must be settled before closing
+  const renderTransfers = () => {
+    const shown = transfers.filter(t => t.status === 'accepted' || t.status === 'pending')
+    if (shown.length === 0) return null
+
+    return (
+      <div className="border rounded-lg p-4">
+        <h4 className="text-sm font-semibold text-gray-900 mb-2">Transfers</h4>
+        <ul className="space-y-1 text-sm">
+          {shown.map(transfer => (
+            <li key={transfer.id} className="flex flex-wrap items-center gap-x-2 text-gray-700">
+              <span>{new Date(transfer.created_at).toLocaleString()}</span>
+              <span className="font-medium text-gray-900">{transfer.products?.name || 'Unknown Product'}</span>
+              <span>{transfer.quantity} kg</span>
+              <span>{transfer.from_rep?.username || 'Unknown'} → {transfer.to_rep?.username || 'Unknown'}</span>
+              {transfer.status === 'pending' && (
+                <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">Pending</span>
+              )}
+              {transfer.notes && <span className="text-gray-500">({transfer.notes})</span>}
+            </li>
+          ))}
+        </ul>
+      </div>
+    )
+  }
+
+  const renderSheet = () => (
+    <div className="space-y-6">
+      <div className="overflow-x-auto border rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Assigned</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">In</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Out</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sold</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Returned</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected (kg)</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted (kg)</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {items.map(item => {
+              const variance = itemVariance(item)
+              return (
+                <tr key={item.id} className="hover:bg-gray-50 align-top">
+                  <td className="px-4 py-2 text-sm text-gray-900">{item.products?.name || 'Unknown Product'}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.assigned_quantity}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.transferred_in_quantity}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.transferred_out_quantity}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.sold_quantity}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.returned_quantity}</td>
+                  <td className="px-4 py-2 text-sm font-medium text-gray-900">{expectedQuantity(item)}</td>
+                  <td className="px-4 py-2 text-sm">
+                    <input
+                      type="number"
+                      min="0"
+                      step="0.01"
+                      value={counts[item.id] ?? ''}
+                      onChange={(e) => setCounts({ ...counts, [item.id]: e.target.value })}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+                    />
+                  </td>
+                  <td className={`px-4 py-2 text-sm font-medium ${variance === null ? 'text-gray-400' : varianceColor(variance)}`}>
+                    {variance === null ? '-' : variance}
+                  </td>
+                  <td className="px-4 py-2 text-sm">
+                    {variance !== null && variance !== 0 && (
+                      <input
+                        type="text"
+                        value={reasons[item.id] || ''}
+                        onChange={(e) => setReasons({ ...reasons, [item.id]: e.target.value })}
+                        className="w-full min-w-[10rem] px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+                        placeholder="e.g. Damaged in transit"
+                      />
+                    )}
+                  </td>
+                </tr>
+              )
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {renderTransfers()}
+
+      <div className="space-y-4 border rounded-lg p-4">
+        <h4 className="text-sm font-semibold text-gray-900">Collections</h4>
+        {renderCollectionRow('Cash', collections.cash, cashHandedIn, setCashHandedIn, cashVariance, cashReason, setCashReason)}
+        {renderCollectionRow('Net', collections.net, netReceived, setNetReceived, netVariance, netReason, setNetReason)}
+      </div>
+
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+        />
+      </div>
+    </div>
+  )
+
+  const renderSaved = () => {
+    if (!reconciliation) {
+      return <p className="text-sm text-gray-500 italic text-center py-8">This assignment was not reconciled.</p>
+    }
+
+    return (
+      <div className="space-y-6">
+        <p className="text-sm text-gray-600">
+          Reconciled {new Date(reconciliation.reconciled_at).toLocaleString()}
+          {reconciliation.reconciled_by_user && <> by {reconciliation.reconciled_by_user.username}</>}
+        </p>
+
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">In</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Out</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Expected (kg)</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Counted (kg)</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Variance</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reason</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {reconciliation.on_demand_reconciliation_items?.map(item => (
+                <tr key={item.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm text-gray-900">{item.products?.name || 'Unknown Product'}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.transferred_in_quantity}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.transferred_out_quantity}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.expected_quantity}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.counted_quantity}</td>
+                  <td className={`px-4 py-2 text-sm font-medium ${varianceColor(Number(item.variance))}`}>{item.variance}</td>
+                  <td className="px-4 py-2 text-sm text-gray-700">{item.variance_reason || '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {renderTransfers()}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {[
+            { label: 'Cash', expected: reconciliation.expected_cash, received: reconciliation.cash_handed_in, variance: reconciliation.cash_variance, reason: reconciliation.cash_variance_reason },
+            { label: 'Net', expected: reconciliation.expected_net, received: reconciliation.net_received, variance: reconciliation.net_variance, reason: reconciliation.net_variance_reason }
+          ].map(row => (
+            <div key={row.label} className="border rounded-lg p-3 text-sm space-y-1">
+              <div className="font-semibold text-gray-900">{row.label}</div>
+              <div className="text-gray-700">Sales: Rs {formatAmount(Number(row.expected))}</div>
+              <div className="text-gray-700">Received: Rs {formatAmount(Number(row.received))}</div>
+              <div className={varianceColor(Number(row.variance))}>Variance: Rs {formatAmount(Number(row.variance))}</div>
+              {row.reason && <div className="text-gray-500">Reason: {row.reason}</div>}
+            </div>
+          ))}
+        </div>
+
+        {reconciliation.notes && (
+          <p className="text-sm text-gray-700 bg-gray-50 border border-gray-200 rounded-lg p-3">{reconciliation.notes}</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <ClipboardCheck className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Reconciliation - {assignment.sales_rep?.username} ({new Date(assignment.assignment_date).toLocaleDateString()})
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 p-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : editable ? renderSheet() : renderSaved()}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            {editable ? 'Cancel' : 'Close'}
+          </button>
+          {editable && (
+            <button
+              onClick={handleSubmit}
+              disabled={saving || loading}
+              className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              <span>{saving ? 'Closing...' : 'Close Assignment'}</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { BarChart3, Download, TrendingUp, Package, Users, DollarSign, Calendar, User } from 'lucide-react'
 import { supabase } from '../lib/supabase'
-import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermission'
 
 interface OnDemandReportData {
   sales_rep_name: string
@@ -29,7 +29,7 @@ interface DailySalesData {
 }
 
 export const OnDemandReports: React.FC = () => {
-  const { user } = useAuth()
+  const { can } = usePermissions()
   const [reportData, setReportData] = useState<OnDemandReportData[]>([])
   const [productSales, setProductSales] = useState<ProductSalesData[]>([])
   const [dailySales, setDailySales] = useState<DailySalesData[]>([])
@@ -91,15 +91,19 @@ export const OnDemandReports: React.FC = () => {
           users!on_demand_assignments_sales_rep_id_fkey(username),
           assignment_items:on_demand_assignment_items(
             assigned_quantity, sold_quantity, returned_quantity, 
-            on_demand_orders(total_amount, sale_date)
+            on_demand_order_items(line_total, on_demand_order_id, on_demand_orders(sale_date))
           )
         `)
         .gte('assignment_date', dateRange.start)
         .lte('assignment_date', dateRange.end)
+        // Requests that were never approved put no stock on a van
+        .not('status', 'in', '(requested,rejected)')
 
       if (error) throw error
 
       const processedData: OnDemandReportData[] = []
+      // A sale can have lines from several assignment items, so orders are counted by id
+      const orderIdsByRep: { [salesRepId: string]: Set<string> } = {}
       
       data?.forEach(assignment => {
         const existingRep = processedData.find(rep => rep.sales_rep_id === assignment.sales_rep_id)
@@ -108,17 +112,21 @@ export const OnDemandReports: React.FC = () => {
         let totalSold = 0
         let totalReturned = 0
         let totalRevenue = 0
-        let ordersCount = 0
+        if (!orderIdsByRep[assignment.sales_rep_id]) {
+          orderIdsByRep[assignment.sales_rep_id] = new Set<string>()
+        }
+        const orderIds = orderIdsByRep[assignment.sales_rep_id]
 
         assignment.assignment_items?.forEach(item => {
           totalAssigned += item.assigned_quantity
           totalSold += item.sold_quantity
           totalReturned += item.returned_quantity
           
-          item.on_demand_orders?.forEach(order => {
-            if (order.sale_date >= dateRange.start && order.sale_date <= dateRange.end + 'T23:59:59') {
-              totalRevenue += order.total_amount
-              ordersCount += 1
+          item.on_demand_order_items?.forEach(line => {
+            const saleDate = line.on_demand_orders?.sale_date
+            if (saleDate && saleDate >= dateRange.start && saleDate <= dateRange.end + 'T23:59:59') {
+              totalRevenue += line.line_total
+              orderIds.add(line.on_demand_order_id)
             }
           })
         })
@@ -128,7 +136,6 @@ export const OnDemandReports: React.FC = () => {
           existingRep.total_sold += totalSold
           existingRep.total_returned += totalReturned
           existingRep.total_revenue += totalRevenue
-          existingRep.orders_count += ordersCount
         } else {
           processedData.push({
             sales_rep_name: assignment.users?.username || 'Unknown',
@@ -137,11 +144,15 @@ export const OnDemandReports: React.FC = () => {
             total_sold: totalSold,
             total_returned: totalReturned,
             total_revenue: totalRevenue,
-            orders_count: ordersCount
+            orders_count: 0
           })
         }
       })
 
+      processedData.forEach(row => {
+        row.orders_count = orderIdsByRep[row.sales_rep_id]?.size || 0
+      })
+
       setReportData(processedData)
       localStorage.setItem(cacheKey, JSON.stringify(processedData))
     } catch (error) {
@@ -172,8 +183,10 @@ export const OnDemandReports: React.FC = () => {
         .select(`
           assigned_quantity, sold_quantity, 
           products(name),
-          on_demand_orders(quantity_sold, selling_price, total_amount, sale_date)
+          on_demand_order_items(line_total, on_demand_orders(sale_date)),
+          on_demand_assignments!inner(status)
         `)
+        .not('on_demand_assignments.status', 'in', '(requested,rejected)')
         .gte('created_at', dateRange.start)
         .lte('created_at', dateRange.end + 'T23:59:59')
 
@@ -197,9 +210,10 @@ export const OnDemandReports: React.FC = () => {
         productMap[productName].total_assigned += item.assigned_quantity
         productMap[productName].total_sold += item.sold_quantity
 
-        item.on_demand_orders?.forEach(order => {
-          if (order.sale_date >= dateRange.start && order.sale_date <= dateRange.end + 'T23:59:59') {
-            productMap[productName].total_revenue += order.total_amount
+        item.on_demand_order_items?.forEach(line => {
+          const saleDate = line.on_demand_orders?.sale_date
+          if (saleDate && saleDate >= dateRange.start && saleDate <= dateRange.end + 'T23:59:59') {
+            productMap[productName].total_revenue += line.line_total
           }
         })
       })
@@ -239,7 +253,7 @@ export const OnDemandReports: React.FC = () => {
 
       const { data, error } = await supabase
         .from('on_demand_orders')
-        .select('sale_date, total_amount, quantity_sold')
+        .select('sale_date, total_amount, on_demand_order_items(quantity)')
         .gte('sale_date', dateRange.start)
         .lte('sale_date', dateRange.end + 'T23:59:59')
         .order('sale_date')
@@ -262,7 +276,9 @@ export const OnDemandReports: React.FC = () => {
 
         dailyMap[date].total_revenue += order.total_amount
         dailyMap[date].orders_count += 1
-        dailyMap[date].products_sold += order.quantity_sold
+        order.on_demand_order_items?.forEach(line => {
+          dailyMap[date].products_sold += line.quantity
+        })
       })
 
       const sortedDailySales = Object.values(dailyMap).sort((a, b) => a.sale_date.localeCompare(b.sale_date))
@@ -347,13 +363,13 @@ export const OnDemandReports: React.FC = () => {
     })
   }
 
-  if (user?.role !== 'Super Admin' && user?.role !== 'Admin') {
+  if (!can('on_demand.reports')) {
     return (
       <div className="p-6">
         <div className="text-center py-12">
           <BarChart3 className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Only Admins can view On Demand reports.</p>
+          <p className="text-gray-600">You do not have permission to view On Demand reports.</p>
         </div>
       </div>
     )
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { X, ArrowLeftRight, Send } from 'lucide-react'
+import { supabase } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import { requestOnDemandTransfer } from '../lib/onDemandService'
+
+interface OnDemandTransferModalProps {
+  product: { assignmentItemId: string; name: string; available: number }
+  onClose: () => void
+  onTransferred: () => void
+}
+
+export const OnDemandTransferModal: React.FC<OnDemandTransferModalProps> = ({
+  product,
+  onClose,
+  onTransferred
+}) => {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [salesReps, setSalesReps] = useState<{ id: string; username: string }[]>([])
+  const [toRepId, setToRepId] = useState('')
+  const [quantity, setQuantity] = useState('')
+  const [notes, setNotes] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const fetchSalesReps = useCallback(async () => {
+    try {
+      const { data, error } = await supabase
+        .from('users')
+        .select('id, username')
+        .eq('role', 'Sales Rep')
+        .eq('active', true)
+        .neq('id', userId)
+        .order('username')
+
+      if (error) throw error
+      setSalesReps(data || [])
+    } catch (err) {
+      console.error('Error fetching sales reps:', err)
+      setError('Failed to load sales reps.')
+    }
+  }, [userId])
+
+  useEffect(() => {
+    fetchSalesReps()
+  }, [fetchSalesReps])
+
+  const handleSubmit = async () => {
+    const qty = parseFloat(quantity)
+    if (!toRepId) {
+      setError('Choose the sales rep to transfer to.')
+      return
+    }
+    if (isNaN(qty) || qty <= 0) {
+      setError('Enter a quantity greater than 0.')
+      return
+    }
+    if (qty > product.available) {
+      setError(`Only ${product.available} kg of ${product.name} is left on your van.`)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await requestOnDemandTransfer({
+        fromAssignmentItemId: product.assignmentItemId,
+        toRepId,
+        quantity: qty,
+        notes
+      })
+      alert('Transfer sent. It will be added to the other van once they accept it.')
+      onTransferred()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request transfer.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <ArrowLeftRight className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Transfer {product.name}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 p-3 rounded-lg">
+              {error}
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600">{product.available} kg left on your van</p>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Transfer to *</label>
+            <select
+              value={toRepId}
+              onChange={(e) => setToRepId(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+            >
+              <option value="">Select sales rep</option>
+              {salesReps.map(rep => (
+                <option key={rep.id} value={rep.id}>{rep.username}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Quantity (kg) *</label>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              max={product.available}
+              value={quantity}
+              onChange={(e) => setQuantity(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+              placeholder="e.g. Handed over at Kandy junction"
+            />
+          </div>
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSubmit}
+            disabled={saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            <Send className="w-4 h-4" />
+            <span>{saving ? 'Sending...' : 'Send Transfer'}</span>
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
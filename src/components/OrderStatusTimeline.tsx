@@ -0,0 +1,98 @@
+import React, { useState, useEffect } from 'react'
+import { OrderStatusHistory } from '../lib/supabase'
+import { fetchOrderStatusHistory } from '../lib/orderService'
+
+interface OrderStatusTimelineProps {
+  orderId: string
+}
+
+const getDotColor = (status: string) => {
+  switch (status) {
+    case 'Delivered':
+    case 'Completed':
+    case 'Security Checked':
+      return 'bg-green-500'
+    case 'Security Check Incomplete':
+    case 'Cancelled':
+      return 'bg-red-500'
+    case 'Security Check Bypassed Due to Off Hours':
+    case 'Product Reloaded':
+      return 'bg-yellow-500'
+    default:
+      return 'bg-blue-500'
+  }
+}
+
+const formatElapsed = (from: string, to: string) => {
+  const minutes = Math.round((new Date(to).getTime() - new Date(from).getTime()) / 60000)
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ${minutes % 60}m`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
+
+// Security check notes are stored as JSON by the security check and bypass flows
+const summarizeNotes = (notes: string) => {
+  try {
+    const parsed = JSON.parse(notes)
+    if (parsed.bypassed) return parsed.reason
+    return [...(parsed.reasons || []), parsed.customNote].filter(Boolean).join(', ')
+  } catch {
+    return notes
+  }
+}
+
+export const OrderStatusTimeline: React.FC<OrderStatusTimelineProps> = ({ orderId }) => {
+  const [history, setHistory] = useState<OrderStatusHistory[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true)
+      try {
+        setHistory(await fetchOrderStatusHistory(orderId))
+      } catch (error) {
+        console.error('Error fetching order status history:', error)
+        setHistory([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [orderId])
+
+  if (loading) {
+    return <div className="text-sm text-gray-500">Loading status history...</div>
+  }
+
+  if (history.length === 0) {
+    return <div className="text-sm text-gray-500 italic">No status changes recorded for this order.</div>
+  }
+
+  return (
+    <ol className="relative border-l-2 border-gray-200 ml-2">
+      {history.map((entry, index) => {
+        const next = history[index + 1]
+        return (
+          <li key={entry.id} className="mb-4 ml-4 last:mb-0">
+            <span className={`absolute -left-[7px] mt-1.5 w-3 h-3 rounded-full ${getDotColor(entry.to_status)}`}></span>
+            <div className="flex flex-wrap items-baseline justify-between gap-x-2">
+              <span className="text-sm font-medium text-gray-900">{entry.to_status}</span>
+              <span className="text-xs text-gray-500">{new Date(entry.changed_at).toLocaleString()}</span>
+            </div>
+            <div className="text-xs text-gray-600">
+              {entry.from_status ? `From ${entry.from_status}` : 'Order created'}
+              {' • '}
+              {entry.changed_by_user?.username || 'System'}
+              {next && ` • ${formatElapsed(entry.changed_at, next.changed_at)} in this stage`}
+            </div>
+            {entry.notes && (
+              <div className="text-xs text-gray-500 mt-1">{summarizeNotes(entry.notes)}</div>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
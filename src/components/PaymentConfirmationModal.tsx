@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react'
 import { X, Printer } from 'lucide-react'
 import { Order, OnDemandOrder, OnDemandAssignmentItem, Product, Customer } from '../lib/supabase'
 import { supabase } from '../lib/supabase'
+import { openPrintWindow } from '../lib/documentService'
 
 interface PaymentConfirmationModalProps {
   order: Order | (OnDemandOrder & {
@@ -15,11 +16,8 @@ interface PaymentConfirmationModalProps {
     paymentMethod: 'Net' | 'Cash',
     collectedAmount: number
   ) => Promise<string>;
-  onPrintBill: (
-    order: Order | (OnDemandOrder & { customer_details?: Customer; product_details?: (OnDemandAssignmentItem & { products: Product })[]; sales_rep_username?: string; }),
-    paymentMethod: 'Net' | 'Cash',
-    receiptNo: string
-  ) => void;
+  // Prints the bill once the payment is saved, into a window opened as part of the click
+  onPrintBill?: (orderId: string, printWindow: Window) => void;
   loading: boolean;
   is_on_demand?: boolean;
   paymentCollectedAmount?: number | '';
@@ -96,12 +94,17 @@ export const PaymentConfirmationModal: React.FC<PaymentConfirmationModalProps> =
 
     setError(null)
 
+    const printWindow = onPrintBill ? openPrintWindow() : null
+
     try {
       // Pass the determined collectedAmount to onConfirm
-      const generatedReceiptNo = await onConfirm(order.id, paymentMethod, finalCollectedAmount)
-      onPrintBill(order, paymentMethod, generatedReceiptNo)
+      await onConfirm(order.id, paymentMethod, finalCollectedAmount)
+      if (onPrintBill && printWindow) {
+        onPrintBill(order.id, printWindow)
+      }
       onClose()
     } catch (err: any) {
+      printWindow?.close()
       console.error('Error confirming payment or printing:', err)
       setError(err.message || 'Failed to confirm payment and print bill.')
     }
@@ -0,0 +1,117 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { ArrowLeftRight, Check, X } from 'lucide-react'
+import { OnDemandTransfer } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import {
+  acceptOnDemandTransfer,
+  cancelOnDemandTransfer,
+  fetchPendingTransfers,
+  rejectOnDemandTransfer
+} from '../lib/onDemandService'
+
+interface PendingTransfersPanelProps {
+  // Bumped by the parent after it sends a transfer, so the list reloads
+  refreshKey: number
+  onChanged: () => void
+}
+
+// Transfers waiting on the receiving rep: incoming ones to accept or reject, outgoing ones to cancel
+export const PendingTransfersPanel: React.FC<PendingTransfersPanelProps> = ({ refreshKey, onChanged }) => {
+  const { user } = useAuth()
+  const userId = user?.id
+  const [transfers, setTransfers] = useState<OnDemandTransfer[]>([])
+  const [workingId, setWorkingId] = useState<string | null>(null)
+
+  const loadTransfers = useCallback(async () => {
+    if (!userId) return
+    try {
+      setTransfers(await fetchPendingTransfers(userId))
+    } catch (err) {
+      console.error('Error fetching pending transfers:', err)
+      setTransfers([])
+    }
+  }, [userId])
+
+  useEffect(() => {
+    loadTransfers()
+  }, [loadTransfers, refreshKey])
+
+  const runTransferAction = async (transfer: OnDemandTransfer, action: (id: string) => Promise<OnDemandTransfer>) => {
+    setWorkingId(transfer.id)
+    try {
+      await action(transfer.id)
+      await loadTransfers()
+      onChanged()
+    } catch (err) {
+      alert(err instanceof Error ? err.message : 'Failed to update transfer.')
+    } finally {
+      setWorkingId(null)
+    }
+  }
+
+  if (transfers.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6">
+      <div className="flex items-center space-x-2 mb-3">
+        <ArrowLeftRight className="w-5 h-5 text-gray-600" />
+        <h3 className="text-sm font-semibold text-gray-900">Pending Transfers</h3>
+      </div>
+      <ul className="divide-y divide-gray-200">
+        {transfers.map(transfer => {
+          const incoming = transfer.to_rep_id === user?.id
+          return (
+            <li key={transfer.id} className="py-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+              <div className="text-sm text-gray-700">
+                <span className="font-medium text-gray-900">{transfer.quantity} kg {transfer.products?.name || 'Unknown Product'}</span>
+                {incoming
+                  ? <> from {transfer.from_rep?.username || 'Unknown'}</>
+                  : <> to {transfer.to_rep?.username || 'Unknown'}, waiting for them to accept</>}
+                {transfer.notes && <span className="text-gray-500"> ({transfer.notes})</span>}
+              </div>
+              <div className="flex items-center space-x-2">
+                {incoming ? (
+                  <>
+                    <button
+                      onClick={() => runTransferAction(transfer, acceptOnDemandTransfer)}
+                      disabled={workingId === transfer.id}
+                      className="flex items-center px-3 py-1 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                    >
+                      <Check className="w-4 h-4 mr-1" />
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => {
+                        if (confirm('Reject this transfer? The stock stays on the sender\'s van.')) {
+                          runTransferAction(transfer, rejectOnDemandTransfer)
+                        }
+                      }}
+                      disabled={workingId === transfer.id}
+                      className="flex items-center px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      <X className="w-4 h-4 mr-1" />
+                      Reject
+                    </button>
+                  </>
+                ) : (
+                  <button
+                    onClick={() => {
+                      if (confirm('Cancel this transfer? The stock goes back on your van.')) {
+                        runTransferAction(transfer, cancelOnDemandTransfer)
+                      }
+                    }}
+                    disabled={workingId === transfer.id}
+                    className="flex items-center px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Cancel
+                  </button>
+                )}
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,434 @@
+import React, { useState, useEffect } from 'react'
+import { X, SlidersHorizontal, Save, Trash2, Edit } from 'lucide-react'
+import { supabase, Category, PriceBand, PriceOverride, Product, ProductPriceField } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import { PRICE_FIELDS, PRICE_FIELD_LABELS } from '../lib/priceService'
+import { deletePriceBand, fetchPriceBands, fetchPriceOverrides, savePriceBand } from '../lib/priceBandService'
+
+interface PriceBandsModalProps {
+  onClose: () => void
+}
+
+const emptyForm = {
+  id: '',
+  scope: 'product' as 'product' | 'category',
+  product_id: '',
+  category_id: '',
+  base_tier: 'price_dealer_cash' as ProductPriceField,
+  band_type: 'amount' as 'amount' | 'percent',
+  below: '',
+  above: ''
+}
+
+const formatLimit = (band: PriceBand, value: number) =>
+  band.band_type === 'percent' ? `${Number(value)}%` : `Rs ${Number(value).toFixed(2)}`
+
+export const PriceBandsModal: React.FC<PriceBandsModalProps> = ({ onClose }) => {
+  const { user } = useAuth()
+  const [tab, setTab] = useState<'bands' | 'overrides'>('bands')
+  const [bands, setBands] = useState<PriceBand[]>([])
+  const [overrides, setOverrides] = useState<PriceOverride[]>([])
+  const [products, setProducts] = useState<Pick<Product, 'id' | 'name'>[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+
+  useEffect(() => {
+    loadBands()
+    fetchOptions()
+  }, [])
+
+  useEffect(() => {
+    if (tab === 'overrides') {
+      loadOverrides()
+    }
+  }, [tab])
+
+  const loadBands = async () => {
+    setLoading(true)
+    try {
+      setBands(await fetchPriceBands())
+    } catch (error) {
+      console.error('Error fetching price bands:', error)
+      setBands([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const loadOverrides = async () => {
+    setLoading(true)
+    try {
+      setOverrides(await fetchPriceOverrides())
+    } catch (error) {
+      console.error('Error fetching price overrides:', error)
+      setOverrides([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchOptions = async () => {
+    try {
+      const [{ data: productData, error: productError }, { data: categoryData, error: categoryError }] = await Promise.all([
+        supabase.from('products').select('id, name').order('name'),
+        supabase.from('categories').select('category_id, category_name, status').eq('status', true).order('category_name')
+      ])
+
+      if (productError) throw productError
+      if (categoryError) throw categoryError
+      setProducts(productData || [])
+      setCategories(categoryData || [])
+    } catch (error) {
+      console.error('Error fetching products and categories:', error)
+    }
+  }
+
+  const handleEdit = (band: PriceBand) => {
+    setForm({
+      id: band.id,
+      scope: band.product_id ? 'product' : 'category',
+      product_id: band.product_id || '',
+      category_id: band.category_id || '',
+      base_tier: band.base_tier,
+      band_type: band.band_type,
+      below: String(band.below),
+      above: String(band.above)
+    })
+  }
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const below = parseFloat(form.below)
+    const above = parseFloat(form.above)
+    const bandType = form.scope === 'category' ? 'percent' : form.band_type
+
+    if (form.scope === 'product' ? !form.product_id : !form.category_id) {
+      alert(`Please select a ${form.scope}`)
+      return
+    }
+    if (isNaN(below) || isNaN(above) || below < 0 || above < 0) {
+      alert('Enter how far below and above the base price is allowed (0 or more)')
+      return
+    }
+    if (bandType === 'percent' && below > 100) {
+      alert('A band cannot go more than 100% below the base price')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await savePriceBand({
+        id: form.id || undefined,
+        productId: form.scope === 'product' ? form.product_id : null,
+        categoryId: form.scope === 'category' ? form.category_id : null,
+        baseTier: form.base_tier,
+        bandType,
+        below,
+        above
+      }, user?.id)
+      setForm(emptyForm)
+      await loadBands()
+    } catch (error) {
+      console.error('Error saving price band:', error)
+      const message = error instanceof Error ? error.message : ''
+      alert(message.includes('duplicate key')
+        ? `This ${form.scope} already has a band. Edit it instead.`
+        : 'Failed to save price band. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (band: PriceBand) => {
+    const name = band.products?.name || band.categories?.category_name || 'this band'
+    if (!confirm(`Remove the price band for ${name}?`)) {
+      return
+    }
+
+    try {
+      await deletePriceBand(band.id)
+      await loadBands()
+    } catch (error) {
+      console.error('Error deleting price band:', error)
+      alert('Failed to remove price band. Please try again.')
+    }
+  }
+
+  const renderBands = () => (
+    <div className="space-y-6">
+      <form onSubmit={handleSave} className="p-4 bg-gray-50 rounded-lg space-y-4">
+        <h4 className="text-sm font-semibold text-gray-900">{form.id ? 'Edit band' : 'Add a band'}</h4>
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Applies to</label>
+            <select
+              value={form.scope}
+              onChange={(e) => setForm({ ...form, scope: e.target.value as 'product' | 'category' })}
+              disabled={!!form.id}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-100"
+            >
+              <option value="product">Product</option>
+              <option value="category">Category</option>
+            </select>
+          </div>
+          <div className="sm:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              {form.scope === 'product' ? 'Product' : 'Category'}
+            </label>
+            {form.scope === 'product' ? (
+              <select
+                value={form.product_id}
+                onChange={(e) => setForm({ ...form, product_id: e.target.value })}
+                disabled={!!form.id}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-100"
+              >
+                <option value="">Select product</option>
+                {products.map(product => (
+                  <option key={product.id} value={product.id}>{product.name}</option>
+                ))}
+              </select>
+            ) : (
+              <select
+                value={form.category_id}
+                onChange={(e) => setForm({ ...form, category_id: e.target.value })}
+                disabled={!!form.id}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500 disabled:bg-gray-100"
+              >
+                <option value="">Select category</option>
+                {categories.map(category => (
+                  <option key={category.category_id} value={category.category_id}>{category.category_name}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Base Tier</label>
+            <select
+              value={form.base_tier}
+              onChange={(e) => setForm({ ...form, base_tier: e.target.value as ProductPriceField })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            >
+              {PRICE_FIELDS.map(field => (
+                <option key={field} value={field}>{PRICE_FIELD_LABELS[field]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Below base ({form.scope === 'category' || form.band_type === 'percent' ? '%' : 'Rs'})
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.below}
+              onChange={(e) => setForm({ ...form, below: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">
+              Above base ({form.scope === 'category' || form.band_type === 'percent' ? '%' : 'Rs'})
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={form.above}
+              onChange={(e) => setForm({ ...form, above: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            />
+          </div>
+        </div>
+        {form.scope === 'product' && (
+          <div className="flex items-center space-x-4 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input
+                type="radio"
+                checked={form.band_type === 'amount'}
+                onChange={() => setForm({ ...form, band_type: 'amount' })}
+                className="mr-2"
+              />
+              Rupee amount
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                checked={form.band_type === 'percent'}
+                onChange={() => setForm({ ...form, band_type: 'percent' })}
+                className="mr-2"
+              />
+              Percentage
+            </label>
+          </div>
+        )}
+        <p className="text-xs text-gray-500">
+          A product's own band wins over its category's. Prices outside the band, or any custom price for a product without a band, need a manager approval code.
+        </p>
+        <div className="flex justify-end space-x-3">
+          {form.id && (
+            <button
+              type="button"
+              onClick={() => setForm(emptyForm)}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Band'}
+          </button>
+        </div>
+      </form>
+
+      {loading ? (
+        <div className="flex items-center justify-center h-24">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+        </div>
+      ) : bands.length === 0 ? (
+        <p className="text-sm text-gray-500 italic text-center py-6">No price bands configured.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Applies To</th>
+                <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Base Tier</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Below</th>
+                <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Above</th>
+                <th className="px-4 py-2"></th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {bands.map(band => (
+                <tr key={band.id} className="hover:bg-gray-50">
+                  <td className="px-4 py-2 text-sm text-gray-900">
+                    <div className="font-medium">{band.products?.name || band.categories?.category_name || 'Unknown'}</div>
+                    <div className="text-xs text-gray-500">{band.product_id ? 'Product' : 'Category'}</div>
+                  </td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{PRICE_FIELD_LABELS[band.base_tier]}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">{formatLimit(band, band.below)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">{formatLimit(band, band.above)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap text-right space-x-2">
+                    <button
+                      onClick={() => handleEdit(band)}
+                      className="text-blue-600 hover:text-blue-800 transition-colors"
+                      title="Edit band"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => handleDelete(band)}
+                      className="text-red-600 hover:text-red-800 transition-colors"
+                      title="Remove band"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+
+  const renderOverrides = () => (
+    loading ? (
+      <div className="flex items-center justify-center h-24">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+      </div>
+    ) : overrides.length === 0 ? (
+      <p className="text-sm text-gray-500 italic text-center py-6">No price overrides yet.</p>
+    ) : (
+      <div className="overflow-x-auto">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Sale</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Band</th>
+              <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Price</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Requested By</th>
+              <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Approved By</th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {overrides.map(override => (
+              <tr key={override.id} className="hover:bg-gray-50">
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{new Date(override.created_at).toLocaleString()}</td>
+                <td className="px-4 py-2 text-sm text-gray-900">{override.products?.name || 'Unknown'}</td>
+                <td className="px-4 py-2 text-sm text-gray-700">
+                  {override.context === 'on_demand_sale' ? 'On Demand' : 'Sales Order'}
+                  {override.customers?.name && <div className="text-xs text-gray-500">{override.customers.name}</div>}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-700">
+                  {Number(override.min_price).toFixed(2)} - {Number(override.max_price).toFixed(2)}
+                </td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-right font-medium text-red-700">{Number(override.price).toFixed(2)}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{override.requested_by_user?.username || 'Unknown'}</td>
+                <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{override.approved_by_user?.username || 'Unknown'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )
+  )
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <SlidersHorizontal className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Selling Price Bands</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex border-b px-6">
+          {(['bands', 'overrides'] as const).map(key => (
+            <button
+              key={key}
+              onClick={() => setTab(key)}
+              className={`px-4 py-3 text-sm font-medium border-b-2 -mb-px ${
+                tab === key ? 'border-red-600 text-red-600' : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {key === 'bands' ? 'Bands' : 'Override Log'}
+            </button>
+          ))}
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {tab === 'bands' ? renderBands() : renderOverrides()}
+        </div>
+
+        <div className="flex justify-end p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
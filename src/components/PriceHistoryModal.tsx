@@ -0,0 +1,321 @@
+import React, { useState, useEffect, useMemo } from 'react'
+import { X, History, Download } from 'lucide-react'
+import { Product, PriceHistory, ProductPriceField } from '../lib/supabase'
+import { fetchPriceHistory, getPriceOnDate, PRICE_FIELDS, PRICE_FIELD_LABELS } from '../lib/priceService'
+
+interface PriceHistoryModalProps {
+  product: Product
+  onClose: () => void
+}
+
+const TIER_COLORS: Record<ProductPriceField, string> = {
+  price_dealer_cash: '#dc2626',
+  price_dealer_credit: '#2563eb',
+  price_hotel_cash: '#16a34a',
+  price_hotel_credit: '#d97706'
+}
+
+const CHART_WIDTH = 640
+const CHART_HEIGHT = 240
+const CHART_PADDING = { top: 16, right: 16, bottom: 28, left: 64 }
+
+export const PriceHistoryModal: React.FC<PriceHistoryModalProps> = ({
+  product,
+  onClose
+}) => {
+  const [history, setHistory] = useState<PriceHistory[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [tierFilter, setTierFilter] = useState<ProductPriceField | 'all'>('all')
+  const [lookupDate, setLookupDate] = useState(new Date().toISOString().split('T')[0])
+
+  useEffect(() => {
+    const loadHistory = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        setHistory(await fetchPriceHistory(product.id))
+      } catch (err) {
+        console.error('Error fetching price history:', err)
+        setError('Failed to load price history.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadHistory()
+  }, [product.id])
+
+  const visibleFields = useMemo(
+    () => (tierFilter === 'all' ? PRICE_FIELDS : [tierFilter]),
+    [tierFilter]
+  )
+
+  const filteredHistory = useMemo(
+    () => history
+      .filter(entry => tierFilter === 'all' || entry.price_field === tierFilter)
+      .slice()
+      .reverse(),
+    [history, tierFilter]
+  )
+
+  // Step series per tier: value before the first change, each change, then today's price
+  const chart = useMemo(() => {
+    const now = Date.now()
+    const series = visibleFields.map(field => {
+      const entries = history.filter(entry => entry.price_field === field)
+      const points: { time: number; price: number }[] = []
+      if (entries.length > 0 && entries[0].old_price !== null) {
+        points.push({ time: new Date(entries[0].changed_at).getTime(), price: entries[0].old_price })
+      }
+      entries.forEach(entry => points.push({ time: new Date(entry.changed_at).getTime(), price: entry.new_price }))
+      points.push({ time: now, price: product[field] || 0 })
+      return { field, points }
+    })
+
+    const allPoints = series.flatMap(s => s.points)
+    const minTime = Math.min(...allPoints.map(p => p.time))
+    const maxTime = Math.max(now, ...allPoints.map(p => p.time))
+    const minPrice = Math.min(...allPoints.map(p => p.price))
+    const maxPrice = Math.max(...allPoints.map(p => p.price))
+    const pricePadding = (maxPrice - minPrice) * 0.1 || Math.max(maxPrice * 0.1, 1)
+    const yMin = Math.max(0, minPrice - pricePadding)
+    const yMax = maxPrice + pricePadding
+
+    const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+    const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+    const x = (time: number) =>
+      CHART_PADDING.left + (maxTime === minTime ? plotWidth : ((time - minTime) / (maxTime - minTime)) * plotWidth)
+    const y = (price: number) =>
+      CHART_PADDING.top + plotHeight - ((price - yMin) / (yMax - yMin)) * plotHeight
+
+    const paths = series.map(({ field, points }) => {
+      const d = points
+        .map((point, index) =>
+          index === 0
+            ? `M ${x(point.time)} ${y(point.price)}`
+            : `H ${x(point.time)} V ${y(point.price)}`
+        )
+        .join(' ')
+      return { field, d, points: points.map(p => ({ cx: x(p.time), cy: y(p.price) })) }
+    })
+
+    const yTicks = [0, 0.25, 0.5, 0.75, 1].map(t => {
+      const price = yMin + (yMax - yMin) * t
+      return { price, y: y(price) }
+    })
+
+    return {
+      paths,
+      yTicks,
+      startLabel: new Date(minTime).toLocaleDateString(),
+      endLabel: new Date(maxTime).toLocaleDateString()
+    }
+  }, [history, visibleFields, product])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    })
+  }
+
+  const exportToCSV = () => {
+    const escape = (value: string) => `"${value.replace(/"/g, '""')}"`
+    const csvContent = [
+      ['Date', 'Price Tier', 'Old Price', 'New Price', 'Changed By'].join(','),
+      ...filteredHistory.map(entry => [
+        escape(new Date(entry.changed_at).toISOString()),
+        escape(PRICE_FIELD_LABELS[entry.price_field]),
+        entry.old_price !== null ? entry.old_price.toFixed(2) : '',
+        entry.new_price.toFixed(2),
+        escape(entry.changed_by)
+      ].join(','))
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `price_history_${product.sku}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <History className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Price History
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+            <div>
+              <h4 className="text-sm font-medium text-gray-900">Product: {product.name}</h4>
+              <p className="text-xs text-gray-500">SKU: {product.sku}</p>
+            </div>
+            <select
+              value={tierFilter}
+              onChange={(e) => setTierFilter(e.target.value as ProductPriceField | 'all')}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+            >
+              <option value="all">All price tiers</option>
+              {PRICE_FIELDS.map(field => (
+                <option key={field} value={field}>{PRICE_FIELD_LABELS[field]}</option>
+              ))}
+            </select>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : error ? (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          ) : (
+            <>
+              {/* Price on a given date */}
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <div className="flex items-center space-x-3 mb-3">
+                  <label htmlFor="priceLookupDate" className="text-sm font-medium text-gray-700">
+                    Prices on
+                  </label>
+                  <input
+                    type="date"
+                    id="priceLookupDate"
+                    value={lookupDate}
+                    onChange={(e) => setLookupDate(e.target.value)}
+                    className="px-3 py-1 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  />
+                </div>
+                {lookupDate && (
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                    {PRICE_FIELDS.map(field => (
+                      <div key={field}>
+                        <p className="text-xs text-gray-500">{PRICE_FIELD_LABELS[field]}</p>
+                        <p className="text-sm font-medium text-gray-900">
+                          Rs {getPriceOnDate(history, field, lookupDate, product[field] || 0).toFixed(2)}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              {/* Chart */}
+              <div>
+                <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full h-auto">
+                  {chart.yTicks.map(tick => (
+                    <g key={tick.price}>
+                      <line
+                        x1={CHART_PADDING.left}
+                        x2={CHART_WIDTH - CHART_PADDING.right}
+                        y1={tick.y}
+                        y2={tick.y}
+                        stroke="#e5e7eb"
+                      />
+                      <text x={CHART_PADDING.left - 8} y={tick.y + 4} textAnchor="end" fontSize="11" fill="#6b7280">
+                        {tick.price.toFixed(0)}
+                      </text>
+                    </g>
+                  ))}
+                  {chart.paths.map(path => (
+                    <g key={path.field}>
+                      <path d={path.d} fill="none" stroke={TIER_COLORS[path.field]} strokeWidth="2" />
+                      {path.points.map((point, index) => (
+                        <circle key={index} cx={point.cx} cy={point.cy} r="3" fill={TIER_COLORS[path.field]} />
+                      ))}
+                    </g>
+                  ))}
+                  <text x={CHART_PADDING.left} y={CHART_HEIGHT - 8} fontSize="11" fill="#6b7280">
+                    {chart.startLabel}
+                  </text>
+                  <text x={CHART_WIDTH - CHART_PADDING.right} y={CHART_HEIGHT - 8} textAnchor="end" fontSize="11" fill="#6b7280">
+                    {chart.endLabel}
+                  </text>
+                </svg>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {visibleFields.map(field => (
+                    <div key={field} className="flex items-center space-x-1 text-xs text-gray-600">
+                      <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: TIER_COLORS[field] }}></span>
+                      <span>{PRICE_FIELD_LABELS[field]}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {/* Change log */}
+              {filteredHistory.length === 0 ? (
+                <p className="text-sm text-gray-500 italic text-center py-8">
+                  No price changes recorded for this product yet.
+                </p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Price Tier</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Old (Rs)</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">New (Rs)</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Changed By</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {filteredHistory.map(entry => (
+                        <tr key={entry.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{formatDate(entry.changed_at)}</td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{PRICE_FIELD_LABELS[entry.price_field]}</td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-500">
+                            {entry.old_price !== null ? entry.old_price.toFixed(2) : '-'}
+                          </td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-right font-medium text-gray-900">{entry.new_price.toFixed(2)}</td>
+                          <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{entry.changed_by}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Close
+          </button>
+          <button
+            onClick={exportToCSV}
+            disabled={loading || filteredHistory.length === 0}
+            className="flex items-center px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,634 @@
+import React, { useState, useEffect } from 'react'
+import { Plus, Edit, Trash2, Save, X, BadgeDollarSign, Users, Tag } from 'lucide-react'
+import { supabase, Customer, PriceList, Product } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import {
+  addPriceListAssignment,
+  deletePriceList,
+  deletePriceListAssignment,
+  deletePriceListItem,
+  fetchPriceLists,
+  savePriceList,
+  upsertPriceListItem
+} from '../lib/priceListService'
+
+export const PriceLists: React.FC = () => {
+  const { user } = useAuth()
+  const [priceLists, setPriceLists] = useState<PriceList[]>([])
+  const [products, setProducts] = useState<Product[]>([])
+  const [customers, setCustomers] = useState<Customer[]>([])
+  const [customerCategories, setCustomerCategories] = useState<string[]>(['Dealer', 'Hotel', 'Other'])
+  const [selectedListId, setSelectedListId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [fetchError, setFetchError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+
+  const [showListModal, setShowListModal] = useState(false)
+  const [listForm, setListForm] = useState({ id: '', name: '', description: '', is_active: true })
+
+  const [itemForm, setItemForm] = useState({ product_id: '', price: '' })
+  const [editingItemPrices, setEditingItemPrices] = useState<Record<string, string>>({})
+  const [assignmentForm, setAssignmentForm] = useState({
+    target: 'category' as 'category' | 'customer',
+    customer_id: '',
+    customer_category: 'Dealer',
+    payment_type: '' as '' | 'Cash' | 'Credit'
+  })
+
+  useEffect(() => {
+    loadPriceLists()
+    fetchProducts()
+    fetchCustomers()
+    fetchCustomerCategories()
+  }, [])
+
+  const loadPriceLists = async () => {
+    setFetchError(null)
+    try {
+      const data = await fetchPriceLists()
+      setPriceLists(data)
+      setSelectedListId(prev => prev && data.some(list => list.id === prev) ? prev : data[0]?.id || null)
+    } catch (error) {
+      console.error('Error fetching price lists:', error)
+      setFetchError('Failed to load price lists. Please check your database connection.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchProducts = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, name, sku, price_dealer_cash, price_dealer_credit, price_hotel_cash, price_hotel_credit')
+        .order('name')
+
+      if (error) throw error
+      setProducts(data || [])
+    } catch (error) {
+      console.error('Error fetching products:', error)
+      setProducts([])
+    }
+  }
+
+  const fetchCustomers = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('customers')
+        .select('id, name, customer_display_id, customer_category, type')
+        .order('name')
+
+      if (error) throw error
+      setCustomers(data || [])
+    } catch (error) {
+      console.error('Error fetching customers:', error)
+      setCustomers([])
+    }
+  }
+
+  const fetchCustomerCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('system_settings')
+        .select('customer_categories')
+        .single()
+
+      if (error) throw error
+      setCustomerCategories(data.customer_categories || ['Dealer', 'Hotel', 'Other'])
+    } catch (err) {
+      console.error('Error fetching customer categories, using default:', err)
+      setCustomerCategories(['Dealer', 'Hotel', 'Other'])
+    }
+  }
+
+  const selectedList = priceLists.find(list => list.id === selectedListId) || null
+
+  const openListModal = (list?: PriceList) => {
+    setListForm(list
+      ? { id: list.id, name: list.name, description: list.description || '', is_active: list.is_active }
+      : { id: '', name: '', description: '', is_active: true })
+    setShowListModal(true)
+  }
+
+  const handleSaveList = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!listForm.name.trim()) {
+      alert('Please enter a price list name')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const saved = await savePriceList({
+        id: listForm.id || undefined,
+        name: listForm.name,
+        description: listForm.description,
+        is_active: listForm.is_active
+      }, user?.id)
+      setShowListModal(false)
+      setSelectedListId(saved.id)
+      await loadPriceLists()
+    } catch (error) {
+      console.error('Error saving price list:', error)
+      alert((error as { code?: string })?.code === '23505'
+        ? 'A price list with this name already exists.'
+        : 'Failed to save price list. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteList = async (list: PriceList) => {
+    if (!confirm(`Delete price list "${list.name}"? Customers and categories using it will fall back to the standard tier prices.`)) return
+
+    try {
+      await deletePriceList(list.id)
+      await loadPriceLists()
+    } catch (error) {
+      console.error('Error deleting price list:', error)
+      alert('Failed to delete price list. Please try again.')
+    }
+  }
+
+  const handleAddItem = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedList) return
+
+    const price = parseFloat(itemForm.price)
+    if (!itemForm.product_id || isNaN(price) || price <= 0) {
+      alert('Please select a product and enter a price greater than 0')
+      return
+    }
+
+    try {
+      await upsertPriceListItem(selectedList.id, itemForm.product_id, price)
+      setItemForm({ product_id: '', price: '' })
+      await loadPriceLists()
+    } catch (error) {
+      console.error('Error saving price list item:', error)
+      alert('Failed to save product price. Please try again.')
+    }
+  }
+
+  const handleUpdateItemPrice = async (productId: string, itemId: string) => {
+    if (!selectedList) return
+
+    const price = parseFloat(editingItemPrices[itemId])
+    if (isNaN(price) || price <= 0) {
+      alert('Price must be greater than 0')
+      return
+    }
+
+    try {
+      await upsertPriceListItem(selectedList.id, productId, price)
+      setEditingItemPrices(prev => {
+        const next = { ...prev }
+        delete next[itemId]
+        return next
+      })
+      await loadPriceLists()
+    } catch (error) {
+      console.error('Error updating price list item:', error)
+      alert('Failed to update product price. Please try again.')
+    }
+  }
+
+  const handleDeleteItem = async (itemId: string) => {
+    if (!confirm('Remove this product from the price list?')) return
+
+    try {
+      await deletePriceListItem(itemId)
+      await loadPriceLists()
+    } catch (error) {
+      console.error('Error deleting price list item:', error)
+      alert('Failed to remove product. Please try again.')
+    }
+  }
+
+  const handleAddAssignment = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!selectedList) return
+
+    if (assignmentForm.target === 'customer' && !assignmentForm.customer_id) {
+      alert('Please select a customer')
+      return
+    }
+
+    try {
+      await addPriceListAssignment(
+        selectedList.id,
+        assignmentForm.target === 'customer'
+          ? { customerId: assignmentForm.customer_id }
+          : { customerCategory: assignmentForm.customer_category, paymentType: assignmentForm.payment_type || null },
+        user?.id
+      )
+      setAssignmentForm(prev => ({ ...prev, customer_id: '' }))
+      await loadPriceLists()
+    } catch (error) {
+      console.error('Error assigning price list:', error)
+      alert(error instanceof Error ? error.message : 'Failed to assign price list. Please try again.')
+    }
+  }
+
+  const handleDeleteAssignment = async (assignmentId: string) => {
+    if (!confirm('Remove this assignment?')) return
+
+    try {
+      await deletePriceListAssignment(assignmentId)
+      await loadPriceLists()
+    } catch (error) {
+      console.error('Error removing assignment:', error)
+      alert('Failed to remove assignment. Please try again.')
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading price lists...</div>
+      </div>
+    )
+  }
+
+  if (fetchError) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-red-500">{fetchError}</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Price Lists</h1>
+          <p className="text-sm text-gray-600 mt-1">
+            Contract and category prices. Products not on a customer's price list use the standard tier prices.
+          </p>
+        </div>
+        <button
+          onClick={() => openListModal()}
+          className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          New Price List
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        {/* Price list index */}
+        <div className="bg-white rounded-lg shadow">
+          {priceLists.length === 0 ? (
+            <p className="text-gray-500 text-center py-8">No price lists yet</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {priceLists.map(list => (
+                <li key={list.id}>
+                  <button
+                    onClick={() => setSelectedListId(list.id)}
+                    className={`w-full text-left px-4 py-3 hover:bg-gray-50 transition-colors ${
+                      list.id === selectedListId ? 'bg-red-50' : ''
+                    }`}
+                  >
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium text-gray-900">{list.name}</span>
+                      <span className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${
+                        list.is_active ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+                      }`}>
+                        {list.is_active ? 'Active' : 'Inactive'}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {list.price_list_items?.length || 0} product(s) • {list.price_list_assignments?.length || 0} assignment(s)
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Selected price list */}
+        {selectedList && (
+          <div className="lg:col-span-2 space-y-6">
+            <div className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-start justify-between">
+                <div className="flex items-center space-x-2">
+                  <BadgeDollarSign className="w-5 h-5 text-green-600" />
+                  <div>
+                    <h2 className="text-lg font-semibold text-gray-900">{selectedList.name}</h2>
+                    {selectedList.description && (
+                      <p className="text-sm text-gray-500">{selectedList.description}</p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <button
+                    onClick={() => openListModal(selectedList)}
+                    className="text-blue-600 hover:text-blue-800 transition-colors"
+                    title="Edit price list"
+                  >
+                    <Edit className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() => handleDeleteList(selectedList)}
+                    className="text-red-600 hover:text-red-800 transition-colors"
+                    title="Delete price list"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            {/* Assignments */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-md font-semibold text-gray-900 mb-4">Applies to</h3>
+              {(selectedList.price_list_assignments || []).length === 0 ? (
+                <p className="text-sm text-gray-500 mb-4">Not assigned to any customer or category yet.</p>
+              ) : (
+                <div className="flex flex-wrap gap-2 mb-4">
+                  {(selectedList.price_list_assignments || []).map(assignment => (
+                    <span
+                      key={assignment.id}
+                      className="inline-flex items-center px-3 py-1 rounded-full text-sm bg-blue-100 text-blue-800"
+                    >
+                      {assignment.customer_id ? (
+                        <>
+                          <Users className="w-3 h-3 mr-1" />
+                          {assignment.customers?.name || 'Customer'}
+                        </>
+                      ) : (
+                        <>
+                          <Tag className="w-3 h-3 mr-1" />
+                          {assignment.customer_category}{assignment.payment_type ? ` (${assignment.payment_type})` : ''}
+                        </>
+                      )}
+                      <button
+                        onClick={() => handleDeleteAssignment(assignment.id)}
+                        className="ml-2 text-blue-600 hover:text-blue-900"
+                        title="Remove assignment"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+
+              <form onSubmit={handleAddAssignment} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Assign to</label>
+                  <select
+                    value={assignmentForm.target}
+                    onChange={(e) => setAssignmentForm({ ...assignmentForm, target: e.target.value as 'category' | 'customer' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    <option value="category">Customer category</option>
+                    <option value="customer">Single customer</option>
+                  </select>
+                </div>
+                {assignmentForm.target === 'customer' ? (
+                  <div className="sm:col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Customer</label>
+                    <select
+                      value={assignmentForm.customer_id}
+                      onChange={(e) => setAssignmentForm({ ...assignmentForm, customer_id: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    >
+                      <option value="">Select customer</option>
+                      {customers.map(customer => (
+                        <option key={customer.id} value={customer.id}>
+                          {customer.name} ({customer.customer_display_id})
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                ) : (
+                  <>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                      <select
+                        value={assignmentForm.customer_category}
+                        onChange={(e) => setAssignmentForm({ ...assignmentForm, customer_category: e.target.value })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                      >
+                        {customerCategories.map(category => (
+                          <option key={category} value={category}>{category}</option>
+                        ))}
+                      </select>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">Payment type</label>
+                      <select
+                        value={assignmentForm.payment_type}
+                        onChange={(e) => setAssignmentForm({ ...assignmentForm, payment_type: e.target.value as '' | 'Cash' | 'Credit' })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                      >
+                        <option value="">Cash and Credit</option>
+                        <option value="Cash">Cash</option>
+                        <option value="Credit">Credit</option>
+                      </select>
+                    </div>
+                  </>
+                )}
+                <button
+                  type="submit"
+                  className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                >
+                  <Plus className="w-4 h-4 mr-1" />
+                  Assign
+                </button>
+              </form>
+            </div>
+
+            {/* Product prices */}
+            <div className="bg-white rounded-lg shadow p-6">
+              <h3 className="text-md font-semibold text-gray-900 mb-4">Product prices</h3>
+              <form onSubmit={handleAddItem} className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end mb-4">
+                <div className="sm:col-span-2">
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Product</label>
+                  <select
+                    value={itemForm.product_id}
+                    onChange={(e) => setItemForm({ ...itemForm, product_id: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  >
+                    <option value="">Select product</option>
+                    {products.map(product => (
+                      <option key={product.id} value={product.id}>
+                        {product.name} ({product.sku})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Price (Rs)</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={itemForm.price}
+                    onChange={(e) => setItemForm({ ...itemForm, price: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  className="flex items-center justify-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                >
+                  <Save className="w-4 h-4 mr-1" />
+                  Save Price
+                </button>
+              </form>
+
+              {(selectedList.price_list_items || []).length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-6">No product prices on this list yet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Dealer Cash (Rs)</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">List Price (Rs)</th>
+                        <th className="px-4 py-2"></th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {(selectedList.price_list_items || []).map(item => {
+                        const product = products.find(p => p.id === item.product_id)
+                        const isEditing = editingItemPrices[item.id] !== undefined
+                        return (
+                          <tr key={item.id} className="hover:bg-gray-50">
+                            <td className="px-4 py-2 text-sm text-gray-900">
+                              <div className="font-medium">{item.products?.name || product?.name || 'Unknown'}</div>
+                              <div className="text-xs text-gray-500">{item.products?.sku || product?.sku}</div>
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-500">
+                              {product ? product.price_dealer_cash.toFixed(2) : '-'}
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap text-sm text-right">
+                              {isEditing ? (
+                                <input
+                                  type="number"
+                                  step="0.01"
+                                  min="0"
+                                  value={editingItemPrices[item.id]}
+                                  onChange={(e) => setEditingItemPrices(prev => ({ ...prev, [item.id]: e.target.value }))}
+                                  className="w-28 px-2 py-1 border border-gray-300 rounded text-right focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                                />
+                              ) : (
+                                <span className="font-medium text-gray-900">{Number(item.price).toFixed(2)}</span>
+                              )}
+                            </td>
+                            <td className="px-4 py-2 whitespace-nowrap text-right">
+                              <div className="flex items-center justify-end space-x-3">
+                                {isEditing ? (
+                                  <button
+                                    onClick={() => handleUpdateItemPrice(item.product_id, item.id)}
+                                    className="text-green-600 hover:text-green-800 transition-colors"
+                                    title="Save price"
+                                  >
+                                    <Save className="w-4 h-4" />
+                                  </button>
+                                ) : (
+                                  <button
+                                    onClick={() => setEditingItemPrices(prev => ({ ...prev, [item.id]: String(item.price) }))}
+                                    className="text-blue-600 hover:text-blue-800 transition-colors"
+                                    title="Edit price"
+                                  >
+                                    <Edit className="w-4 h-4" />
+                                  </button>
+                                )}
+                                <button
+                                  onClick={() => handleDeleteItem(item.id)}
+                                  className="text-red-600 hover:text-red-800 transition-colors"
+                                  title="Remove product"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </button>
+                              </div>
+                            </td>
+                          </tr>
+                        )
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Create / edit price list */}
+      {showListModal && (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+          <div className="bg-white rounded-lg shadow-xl max-w-md w-full">
+            <div className="flex items-center justify-between p-6 border-b">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {listForm.id ? 'Edit Price List' : 'New Price List'}
+              </h3>
+              <button
+                onClick={() => setShowListModal(false)}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <form onSubmit={handleSaveList}>
+              <div className="p-6 space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                  <input
+                    type="text"
+                    value={listForm.name}
+                    onChange={(e) => setListForm({ ...listForm, name: e.target.value })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+                  <textarea
+                    value={listForm.description}
+                    onChange={(e) => setListForm({ ...listForm, description: e.target.value })}
+                    rows={2}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  />
+                </div>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={listForm.is_active}
+                    onChange={(e) => setListForm({ ...listForm, is_active: e.target.checked })}
+                    className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+                  />
+                  <span>Active</span>
+                </label>
+              </div>
+              <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+                <button
+                  type="button"
+                  onClick={() => setShowListModal(false)}
+                  className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="flex items-center px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,89 @@
+import React, { useState } from 'react'
+import { KeyRound, Send } from 'lucide-react'
+
+interface PriceOverrideApprovalProps {
+  requested: boolean
+  onRequest: () => Promise<void>
+  onApprove: (code: string) => Promise<void>
+}
+
+// Shown under a price that is outside its selling band: first asks a manager to approve that
+// price, then takes the code the manager issued for the request
+export const PriceOverrideApproval: React.FC<PriceOverrideApprovalProps> = ({ requested, onRequest, onApprove }) => {
+  const [code, setCode] = useState('')
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleApprove = async () => {
+    if (!/^\d{6}$/.test(code.trim())) {
+      setError('Enter the 6-digit code from a manager.')
+      return
+    }
+
+    setWorking(true)
+    setError(null)
+    try {
+      await onApprove(code.trim())
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to apply approval code.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleRequest = async () => {
+    setWorking(true)
+    setError(null)
+    try {
+      await onRequest()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to request approval.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  if (!requested) {
+    return (
+      <div className="space-y-1">
+        <button
+          type="button"
+          onClick={handleRequest}
+          disabled={working}
+          className="flex items-center px-2 py-1 text-xs bg-yellow-500 text-white rounded hover:bg-yellow-600 disabled:opacity-50"
+        >
+          <Send className="w-3 h-3 mr-1" />
+          {working ? 'Requesting...' : 'Request Approval'}
+        </button>
+        {error && <div className="text-xs text-red-600">{error}</div>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs text-gray-500">Approval requested. Enter the code a manager issues for it.</div>
+      <div className="flex items-center space-x-1">
+        <input
+          type="text"
+          inputMode="numeric"
+          maxLength={6}
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          className="w-24 px-2 py-1 text-sm border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-red-500"
+          placeholder="Code"
+        />
+        <button
+          type="button"
+          onClick={handleApprove}
+          disabled={working}
+          className="flex items-center px-2 py-1 text-xs bg-yellow-500 text-white rounded hover:bg-yellow-600 disabled:opacity-50"
+        >
+          <KeyRound className="w-3 h-3 mr-1" />
+          {working ? 'Checking...' : 'Approve'}
+        </button>
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  )
+}
@@ -0,0 +1,125 @@
+import React, { useCallback, useEffect, useState } from 'react'
+import { X, KeyRound, RefreshCw } from 'lucide-react'
+import { PriceOverrideRequest } from '../lib/supabase'
+import { fetchPendingPriceOverrideRequests, issuePriceOverrideCode } from '../lib/priceBandService'
+
+interface PriceOverrideRequestsModalProps {
+  onClose: () => void
+}
+
+// Prices reps have asked a manager to approve. A code is issued for one request and only
+// works for that rep, product, customer and price.
+export const PriceOverrideRequestsModal: React.FC<PriceOverrideRequestsModalProps> = ({ onClose }) => {
+  const [requests, setRequests] = useState<PriceOverrideRequest[]>([])
+  const [loading, setLoading] = useState(true)
+  const [issuingId, setIssuingId] = useState<string | null>(null)
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true)
+    try {
+      setRequests(await fetchPendingPriceOverrideRequests())
+    } catch (error) {
+      console.error('Error fetching price override requests:', error)
+      setRequests([])
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadRequests()
+  }, [loadRequests])
+
+  const handleIssueCode = async (request: PriceOverrideRequest) => {
+    setIssuingId(request.id)
+    try {
+      const code = await issuePriceOverrideCode(request.id)
+      alert(`Approval code: ${code.code}\n\nIt approves Rs ${Number(request.price).toFixed(2)} for ${request.products?.name || 'this product'}, for ${request.requested_by_user?.username || 'the requesting rep'} only, and expires at ${new Date(code.expires_at).toLocaleTimeString()}.`)
+      setRequests(prev => prev.filter(r => r.id !== request.id))
+    } catch (error) {
+      console.error('Error issuing approval code:', error)
+      alert(error instanceof Error ? error.message : 'Failed to issue approval code.')
+    } finally {
+      setIssuingId(null)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <KeyRound className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Price Approval Requests</h3>
+          </div>
+          <div className="flex items-center space-x-3">
+            <button
+              onClick={loadRequests}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+              title="Refresh"
+            >
+              <RefreshCw className="w-5 h-5" />
+            </button>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 transition-colors"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <p className="text-sm text-gray-500 text-center py-6">Loading...</p>
+          ) : requests.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center py-6">No prices are waiting for approval.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Requested</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Product</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Band</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase">Price</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase">Rep</th>
+                    <th className="px-4 py-2" />
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {requests.map(request => (
+                    <tr key={request.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{new Date(request.created_at).toLocaleString()}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {request.products?.name || 'Unknown'}
+                        <div className="text-xs text-gray-500">
+                          {request.context === 'on_demand_sale' ? 'On Demand' : 'Sales Order'}
+                          {request.customers?.name && ` - ${request.customers.name}`}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-700">
+                        {Number(request.min_price).toFixed(2)} - {Number(request.max_price).toFixed(2)}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-right font-medium text-red-700">{Number(request.price).toFixed(2)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{request.requested_by_user?.username || 'Unknown'}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-right">
+                        <button
+                          onClick={() => handleIssueCode(request)}
+                          disabled={issuingId !== null}
+                          className="px-3 py-1 text-xs bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                        >
+                          {issuingId === request.id ? 'Issuing...' : 'Issue Code'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,17 @@
 import React, { useState, useEffect } from 'react'
-import { X, Save, DollarSign } from 'lucide-react'
-import { supabase, Product } from '../lib/supabase'
+import { X, Save, DollarSign, History, Trash2 } from 'lucide-react'
+import { supabase, Product, ScheduledPriceChange } from '../lib/supabase'
 import { useAuth } from '../hooks/useAuth'
+import { usePermission } from '../hooks/usePermission'
+import { PriceHistoryModal } from './PriceHistoryModal'
+import {
+  cancelScheduledPriceChange,
+  colomboDate,
+  fetchPendingPriceChanges,
+  schedulePriceChanges,
+  PRICE_FIELDS,
+  PRICE_FIELD_LABELS
+} from '../lib/priceService'
 
 interface ProductPricesModalProps {
   product: Product
@@ -26,8 +36,13 @@ export const ProductPricesModal: React.FC<ProductPricesModalProps> = ({
     price_hotel_credit: product.price_hotel_credit || 0
   })
   const [loading, setLoading] = useState(false)
+  const [showHistory, setShowHistory] = useState(false)
+  const today = colomboDate()
+  const [effectiveDate, setEffectiveDate] = useState(today)
+  const [pendingChanges, setPendingChanges] = useState<ScheduledPriceChange[]>([])
+  const isScheduling = effectiveDate > today
   const { user } = useAuth()
-  const canEditPrices = user?.role === 'Admin' || user?.role === 'Super Admin'
+  const canEditPrices = usePermission('prices.edit')
   const [auditInfo, setAuditInfo] = useState<Record<string, PriceAuditInfo | null>>({
     price_dealer_cash: null,
     price_dealer_credit: null,
@@ -103,14 +118,40 @@ export const ProductPricesModal: React.FC<ProductPricesModalProps> = ({
     }
   }, [product.id]);
 
+  // Fetch pending scheduled changes for this product
+  useEffect(() => {
+    const loadPendingChanges = async () => {
+      try {
+        setPendingChanges(await fetchPendingPriceChanges(product.id))
+      } catch (error) {
+        console.error('Error fetching scheduled price changes:', error)
+        setPendingChanges([])
+      }
+    }
+
+    if (product.id) {
+      loadPendingChanges()
+    }
+  }, [product.id]);
+
   const handleSave = async () => {
     if (!canEditPrices) {
       alert('You do not have permission to edit prices.')
       return
     }
 
+    if (effectiveDate < today) {
+      alert('Effective date cannot be in the past.')
+      return
+    }
+
     setLoading(true)
     try {
+      if (isScheduling) {
+        await handleSchedule()
+        return
+      }
+
       // First set the user context for trigger-based auditing
       const { error: sessionError } = await supabase.rpc('set_current_user_info', {
         user_id: user?.id,
@@ -133,6 +174,44 @@ export const ProductPricesModal: React.FC<ProductPricesModalProps> = ({
     }
   }
 
+  // Future effective date: store the changed tiers as a pending change
+  const handleSchedule = async () => {
+    const changedPrices: Partial<typeof prices> = {}
+    for (const field of PRICE_FIELDS) {
+      if (prices[field] !== product[field]) {
+        changedPrices[field] = prices[field]
+      }
+    }
+
+    if (Object.keys(changedPrices).length === 0) {
+      alert('No price changes to schedule.')
+      return
+    }
+
+    await schedulePriceChanges([{
+      productId: product.id,
+      prices: changedPrices,
+      effectiveDate
+    }], user?.id)
+
+    onPricesUpdated()
+    onClose()
+    alert(`Price change scheduled for ${effectiveDate}.`)
+  }
+
+  const handleCancelScheduledChange = async (change: ScheduledPriceChange) => {
+    if (!confirm(`Cancel the price change scheduled for ${change.effective_date}?`)) return
+
+    try {
+      await cancelScheduledPriceChange(change.id, user?.id)
+      setPendingChanges(prev => prev.filter(c => c.id !== change.id))
+      onPricesUpdated()
+    } catch (error) {
+      console.error('Error cancelling scheduled price change:', error)
+      alert('Failed to cancel scheduled price change. Please try again.')
+    }
+  }
+
   // Fallback: Manual audit approach
   const handleSaveWithManualAudit = async () => {
     // First update the product prices
@@ -281,6 +360,55 @@ export const ProductPricesModal: React.FC<ProductPricesModalProps> = ({
             ))}
           </div>
 
+          {canEditPrices && (
+            <div className="mt-4">
+              <label htmlFor="priceEffectiveDate" className="block text-sm font-medium text-gray-700 mb-1">
+                Effective Date
+              </label>
+              <input
+                type="date"
+                id="priceEffectiveDate"
+                min={today}
+                value={effectiveDate}
+                onChange={(e) => setEffectiveDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                {isScheduling
+                  ? 'The changed prices will take effect on this date.'
+                  : 'Prices take effect immediately.'}
+              </p>
+            </div>
+          )}
+
+          {pendingChanges.length > 0 && (
+            <div className="mt-4 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <p className="text-sm font-medium text-blue-800 mb-2">Scheduled changes</p>
+              <div className="space-y-2">
+                {pendingChanges.map(change => (
+                  <div key={change.id} className="flex items-start justify-between text-xs text-blue-700">
+                    <div>
+                      <span className="font-medium">{change.effective_date}:</span>{' '}
+                      {PRICE_FIELDS
+                        .filter(field => change[field] !== null)
+                        .map(field => `${PRICE_FIELD_LABELS[field]} Rs ${Number(change[field]).toFixed(2)}`)
+                        .join(', ')}
+                    </div>
+                    {canEditPrices && (
+                      <button
+                        onClick={() => handleCancelScheduledChange(change)}
+                        className="ml-2 text-red-600 hover:text-red-800 transition-colors"
+                        title="Cancel scheduled change"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {!canEditPrices && (
             <div className="mt-4 p-3 bg-yellow-50 border border-yellow-200 rounded-lg">
               <p className="text-sm text-yellow-700">
@@ -291,6 +419,13 @@ export const ProductPricesModal: React.FC<ProductPricesModalProps> = ({
         </div>
         
         <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={() => setShowHistory(true)}
+            className="flex items-center mr-auto px-4 py-2 text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            <History className="w-4 h-4 mr-2" />
+            Price History
+          </button>
           <button
             onClick={onClose}
             className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
@@ -304,11 +439,18 @@ export const ProductPricesModal: React.FC<ProductPricesModalProps> = ({
               className="flex items-center px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
             >
               <Save className="w-4 h-4 mr-2" />
-              {loading ? 'Saving...' : 'Save Prices'}
+              {loading ? 'Saving...' : isScheduling ? 'Schedule Prices' : 'Save Prices'}
             </button>
           )}
         </div>
       </div>
+
+      {showHistory && (
+        <PriceHistoryModal
+          product={product}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
     </div>
   )
 }
\ No newline at end of file
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { X, Plus, Trash2, Save, Search, Package, AlertCircle } from 'lucide-react'
 import { supabase, Product } from '../lib/supabase'
-import { useAuth } from '../hooks/useAuth'
+import { requestOnDemandStock } from '../lib/onDemandService'
 
 interface ProductRequestModalProps {
   onClose: () => void
@@ -27,7 +27,6 @@ export const ProductRequestModal: React.FC<ProductRequestModalProps> = ({
   onRequestSubmitted,
   currentInventory
 }) => {
-  const { user } = useAuth()
   const [products, setProducts] = useState<Product[]>([])
   const [requestItems, setRequestItems] = useState<RequestItem[]>([])
   const [notes, setNotes] = useState('')
@@ -121,54 +120,19 @@ export const ProductRequestModal: React.FC<ProductRequestModalProps> = ({
 
     setSaving(true)
     try {
-      const { data: assignmentData, error: assignmentError } = await supabase
-        .from('on_demand_assignments')
-        .insert([{
-          sales_rep_id: user?.id,
-          assigned_by: user?.id,
-          assignment_date: new Date().toISOString().split('T')[0],
-          notes: notes || 'Self-requested by sales rep',
-          vehicle_number: vehicleNumber.trim() || null,
-          assignment_type: 'sales_rep_requested',
-          status: 'active'
-        }])
-        .select()
-        .single()
-
-      if (assignmentError) throw assignmentError
-
-      const assignmentItems = validItems.map(item => ({
-        on_demand_assignment_id: assignmentData.id,
-        product_id: item.product_id,
-        assigned_quantity: item.requested_quantity
-      }))
-
-      const { error: itemsError } = await supabase
-        .from('on_demand_assignment_items')
-        .insert(assignmentItems)
-
-      if (itemsError) throw itemsError
-
-      for (const item of validItems) {
-        const product = products.find(p => p.id === item.product_id)
-        if (product) {
-          const { error: updateError } = await supabase
-            .from('products')
-            .update({
-              quantity: product.quantity - item.requested_quantity
-            })
-            .eq('id', item.product_id)
-
-          if (updateError) throw updateError
-        }
-      }
-
-      alert('Product request submitted successfully!')
+      // Stock is only taken out of inventory once an admin approves the request
+      await requestOnDemandStock(
+        validItems.map(item => ({ productId: item.product_id, quantity: item.requested_quantity })),
+        vehicleNumber.trim(),
+        notes
+      )
+
+      alert('Product request sent for approval. The products will be added to your inventory once it is approved.')
       onRequestSubmitted()
       onClose()
     } catch (error) {
       console.error('Error submitting request:', error)
-      alert('Failed to submit request. Please try again.')
+      alert(error instanceof Error ? error.message : 'Failed to submit request. Please try again.')
     } finally {
       setSaving(false)
     }
@@ -0,0 +1,393 @@
+import React, { useState, useEffect } from 'react'
+import { Search, BookOpen, Wallet, Download, ShieldCheck, FileText, Send } from 'lucide-react'
+import { supabase, Customer, CustomerCreditStatus, CustomerOrderBalance } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermission'
+import {
+  AGING_BUCKETS,
+  computeAging,
+  evaluateCreditCheck,
+  fetchCustomerCreditStatuses,
+  fetchOpenOrderBalances,
+  lastMonthPeriod,
+  queueMonthlyStatements,
+  CustomerAging
+} from '../lib/receivablesService'
+import { CreditOverrideModal } from './CreditOverrideModal'
+import { CustomerLedgerModal } from './CustomerLedgerModal'
+import { CustomerStatementModal } from './CustomerStatementModal'
+import { ReceivePaymentModal } from './ReceivePaymentModal'
+
+type ReceivableCustomer = Pick<Customer, 'id' | 'name' | 'customer_display_id' | 'type' | 'customer_category' | 'email'>
+
+const EMPTY_AGING: Omit<CustomerAging, 'customer_id'> = {
+  total: 0,
+  buckets: { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 },
+  oldest_invoice_date: ''
+}
+
+export const Receivables: React.FC = () => {
+  const { user, isOnline } = useAuth()
+  const [customers, setCustomers] = useState<ReceivableCustomer[]>([])
+  const [openBalances, setOpenBalances] = useState<CustomerOrderBalance[]>([])
+  const [creditStatuses, setCreditStatuses] = useState<CustomerCreditStatus[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isFromCache, setIsFromCache] = useState(false)
+  const [searchTerm, setSearchTerm] = useState('')
+  const [showAllCustomers, setShowAllCustomers] = useState(false)
+  const [ledgerCustomer, setLedgerCustomer] = useState<ReceivableCustomer | null>(null)
+  const [paymentCustomer, setPaymentCustomer] = useState<ReceivableCustomer | null>(null)
+  const [overrideCustomer, setOverrideCustomer] = useState<ReceivableCustomer | null>(null)
+  const [statementCustomer, setStatementCustomer] = useState<ReceivableCustomer | null>(null)
+  const [queueingStatements, setQueueingStatements] = useState(false)
+
+  const { can } = usePermissions()
+  const canOverrideHolds = can('credit.override')
+  const canSendStatements = can('receivables.manage')
+
+  useEffect(() => {
+    fetchReceivables()
+  }, [])
+
+  const fetchReceivables = async () => {
+    setLoading(true)
+    setIsFromCache(false)
+
+    const cacheKey = 'receivables_data'
+    if (!navigator.onLine) {
+      const cachedData = localStorage.getItem(cacheKey)
+      if (cachedData) {
+        const parsed = JSON.parse(cachedData)
+        setCustomers(parsed.customers)
+        setOpenBalances(parsed.openBalances)
+        setCreditStatuses(parsed.creditStatuses || [])
+        setIsFromCache(true)
+        setLoading(false)
+        return
+      }
+    }
+
+    try {
+      const [{ data: customerData, error: customerError }, balances, statuses] = await Promise.all([
+        supabase
+          .from('customers')
+          .select('id, name, customer_display_id, type, customer_category, email')
+          .order('name'),
+        fetchOpenOrderBalances(),
+        fetchCustomerCreditStatuses()
+      ])
+
+      if (customerError) throw customerError
+
+      setCustomers(customerData || [])
+      setOpenBalances(balances)
+      setCreditStatuses(statuses)
+      localStorage.setItem(cacheKey, JSON.stringify({
+        customers: customerData || [],
+        openBalances: balances,
+        creditStatuses: statuses
+      }))
+    } catch (error) {
+      console.error('Error fetching receivables:', error)
+
+      const cachedData = localStorage.getItem(cacheKey)
+      if (cachedData) {
+        const parsed = JSON.parse(cachedData)
+        setCustomers(parsed.customers)
+        setOpenBalances(parsed.openBalances)
+        setCreditStatuses(parsed.creditStatuses || [])
+        setIsFromCache(true)
+      } else {
+        setCustomers([])
+        setOpenBalances([])
+        setCreditStatuses([])
+      }
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const agingByCustomer = new Map(computeAging(openBalances).map(aging => [aging.customer_id, aging]))
+  const creditByCustomer = new Map(creditStatuses.map(status => [status.customer_id, status]))
+
+  const rows = customers
+    .map(customer => {
+      const credit = creditByCustomer.get(customer.id) || null
+      const creditCheck = evaluateCreditCheck(credit, 0)
+      return {
+        customer,
+        aging: agingByCustomer.get(customer.id) || { ...EMPTY_AGING, customer_id: customer.id },
+        credit,
+        onHold: creditCheck.overLimit || creditCheck.overdue
+      }
+    })
+    .filter(({ aging }) => showAllCustomers || aging.total > 0)
+    .filter(({ customer }) =>
+      customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      customer.customer_display_id?.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .sort((a, b) => b.aging.total - a.aging.total)
+
+  const totals = rows.reduce(
+    (sum, { aging }) => {
+      sum.total += aging.total
+      for (const bucket of AGING_BUCKETS) {
+        sum.buckets[bucket] += aging.buckets[bucket]
+      }
+      return sum
+    },
+    { total: 0, buckets: { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 } as CustomerAging['buckets'] }
+  )
+
+  const exportToCSV = () => {
+    const csvContent = [
+      ['Customer ID', 'Customer', 'Type', ...AGING_BUCKETS.map(bucket => `${bucket} days`), 'Total Outstanding', 'Credit Limit', 'On Hold'].join(','),
+      ...rows.map(({ customer, aging, credit, onHold }) => [
+        customer.customer_display_id,
+        `"${customer.name.replace(/"/g, '""')}"`,
+        customer.type,
+        ...AGING_BUCKETS.map(bucket => aging.buckets[bucket].toFixed(2)),
+        aging.total.toFixed(2),
+        credit?.credit_limit != null ? Number(credit.credit_limit).toFixed(2) : '',
+        onHold ? 'Yes' : 'No'
+      ].join(','))
+    ].join('\n')
+
+    const blob = new Blob([csvContent], { type: 'text/csv' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = `receivables_aging_${new Date().toISOString().split('T')[0]}.csv`
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleSendMonthlyStatements = async () => {
+    const period = lastMonthPeriod()
+    if (!confirm(`Email statements for ${period.start} to ${period.end} to every customer with activity that has not had one yet?`)) return
+
+    setQueueingStatements(true)
+    try {
+      const queued = await queueMonthlyStatements(period.start, period.end)
+      alert(queued > 0 ? `${queued} statement(s) queued for sending.` : 'No statements left to send for this period.')
+    } catch (error) {
+      console.error('Error queueing monthly statements:', error)
+      alert(error instanceof Error ? error.message : 'Failed to queue monthly statements.')
+    } finally {
+      setQueueingStatements(false)
+    }
+  }
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-gray-500">Loading receivables...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="p-6">
+      <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Receivables</h1>
+          <p className="text-sm text-gray-600 mt-1">Outstanding balances on delivered orders, aged by invoice date.</p>
+        </div>
+        <div className="flex gap-3">
+          {canSendStatements && (
+            <button
+              onClick={handleSendMonthlyStatements}
+              disabled={!isOnline || queueingStatements}
+              className="flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+              title="Email last month's statements now instead of waiting for the scheduled run"
+            >
+              <Send className="w-4 h-4 mr-2" />
+              {queueingStatements ? 'Queueing...' : 'Send Monthly Statements'}
+            </button>
+          )}
+          <button
+            onClick={exportToCSV}
+            className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          >
+            <Download className="w-4 h-4 mr-2" />
+            Export CSV
+          </button>
+        </div>
+      </div>
+
+      {isFromCache && (
+        <p className="text-sm text-gray-500 mb-4">Data may be outdated (from cache)</p>
+      )}
+
+      {/* Aging summary */}
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+        {AGING_BUCKETS.map(bucket => (
+          <div key={bucket} className="bg-white rounded-lg shadow p-4">
+            <p className="text-sm text-gray-600">{bucket} days</p>
+            <p className={`text-xl font-bold ${bucket === '90+' && totals.buckets[bucket] > 0 ? 'text-red-600' : 'text-gray-900'}`}>
+              Rs {totals.buckets[bucket].toFixed(2)}
+            </p>
+          </div>
+        ))}
+        <div className="bg-white rounded-lg shadow p-4">
+          <p className="text-sm text-gray-600">Total Outstanding</p>
+          <p className="text-xl font-bold text-gray-900">Rs {totals.total.toFixed(2)}</p>
+        </div>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-4 mb-6">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+          <input
+            type="text"
+            placeholder="Search customers..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
+          />
+        </div>
+        <label className="flex items-center space-x-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={showAllCustomers}
+            onChange={(e) => setShowAllCustomers(e.target.checked)}
+            className="rounded border-gray-300 text-red-600 focus:ring-red-500"
+          />
+          <span>Show customers without a balance</span>
+        </label>
+      </div>
+
+      <div className="bg-white rounded-lg shadow overflow-hidden">
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-200">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Customer</th>
+                {AGING_BUCKETS.map(bucket => (
+                  <th key={bucket} className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">{bucket} days</th>
+                ))}
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total (Rs)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Credit Limit (Rs)</th>
+                <th className="px-6 py-3 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {rows.length === 0 ? (
+                <tr>
+                  <td colSpan={AGING_BUCKETS.length + 4} className="px-6 py-8 text-center text-gray-500">
+                    No outstanding balances
+                  </td>
+                </tr>
+              ) : rows.map(({ customer, aging, credit, onHold }) => (
+                <tr key={customer.id} className="hover:bg-gray-50">
+                  <td className="px-6 py-4 whitespace-nowrap">
+                    <div className="flex items-center text-sm font-medium text-gray-900">
+                      {customer.name}
+                      {onHold && (
+                        <span className="ml-2 px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">On hold</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">{customer.customer_display_id} • {customer.customer_category} • {customer.type}</div>
+                  </td>
+                  {AGING_BUCKETS.map(bucket => (
+                    <td
+                      key={bucket}
+                      className={`px-6 py-4 whitespace-nowrap text-sm text-right ${
+                        aging.buckets[bucket] > 0 && (bucket === '61-90' || bucket === '90+') ? 'text-red-600 font-medium' : 'text-gray-700'
+                      }`}
+                    >
+                      {aging.buckets[bucket] > 0 ? aging.buckets[bucket].toFixed(2) : '-'}
+                    </td>
+                  ))}
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right font-semibold text-gray-900">{aging.total.toFixed(2)}</td>
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-right text-gray-700">
+                    {credit?.credit_limit != null ? Number(credit.credit_limit).toFixed(2) : '-'}
+                    {credit?.payment_terms_days != null && (
+                      <div className="text-xs text-gray-500">{credit.payment_terms_days} day terms</div>
+                    )}
+                  </td>
+                  <td className="px-6 py-4 whitespace-nowrap text-right">
+                    <div className="flex items-center justify-end space-x-3">
+                      <button
+                        onClick={() => setLedgerCustomer(customer)}
+                        className="text-blue-600 hover:text-blue-800 transition-colors"
+                        title="View ledger"
+                      >
+                        <BookOpen className="w-4 h-4" />
+                      </button>
+                      {canSendStatements && (
+                        <button
+                          onClick={() => setStatementCustomer(customer)}
+                          disabled={!isOnline}
+                          className="text-gray-600 hover:text-gray-800 transition-colors disabled:opacity-50"
+                          title="Statement"
+                        >
+                          <FileText className="w-4 h-4" />
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setPaymentCustomer(customer)}
+                        disabled={!isOnline}
+                        className="flex items-center px-3 py-1 text-xs bg-green-600 text-white rounded hover:bg-green-700 transition-colors disabled:opacity-50"
+                        title="Receive payment"
+                      >
+                        <Wallet className="w-3 h-3 mr-1" />
+                        Receive Payment
+                      </button>
+                      {canOverrideHolds && onHold && (
+                        <button
+                          onClick={() => setOverrideCustomer(customer)}
+                          disabled={!isOnline}
+                          className="flex items-center px-3 py-1 text-xs bg-yellow-500 text-white rounded hover:bg-yellow-600 transition-colors disabled:opacity-50"
+                          title="Approve an order while on credit hold"
+                        >
+                          <ShieldCheck className="w-3 h-3 mr-1" />
+                          Override Hold
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {ledgerCustomer && (
+        <CustomerLedgerModal
+          customer={ledgerCustomer}
+          onClose={() => setLedgerCustomer(null)}
+        />
+      )}
+
+      {statementCustomer && (
+        <CustomerStatementModal
+          customer={statementCustomer}
+          onClose={() => setStatementCustomer(null)}
+        />
+      )}
+
+      {paymentCustomer && (
+        <ReceivePaymentModal
+          customer={paymentCustomer}
+          onClose={() => setPaymentCustomer(null)}
+          onReceived={() => {
+            setPaymentCustomer(null)
+            fetchReceivables()
+          }}
+        />
+      )}
+
+      {overrideCustomer && (
+        <CreditOverrideModal
+          customer={overrideCustomer}
+          creditStatus={creditByCustomer.get(overrideCustomer.id) || null}
+          userId={user?.id}
+          onClose={() => setOverrideCustomer(null)}
+          onGranted={() => setOverrideCustomer(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,274 @@
+import React, { useState, useEffect } from 'react'
+import { X, Save, Wallet } from 'lucide-react'
+import { Customer, CustomerOrderBalance, CustomerPayment } from '../lib/supabase'
+import { allocateOldestFirst, fetchOpenOrderBalances, receiveCustomerPayment } from '../lib/receivablesService'
+
+interface ReceivePaymentModalProps {
+  customer: Pick<Customer, 'id' | 'name' | 'customer_display_id'>
+  onClose: () => void
+  onReceived: () => void
+}
+
+export const ReceivePaymentModal: React.FC<ReceivePaymentModalProps> = ({
+  customer,
+  onClose,
+  onReceived
+}) => {
+  const [openBalances, setOpenBalances] = useState<CustomerOrderBalance[]>([])
+  const [allocations, setAllocations] = useState<Record<string, string>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [form, setForm] = useState({
+    amount: '',
+    payment_method: 'Cash' as CustomerPayment['payment_method'],
+    payment_date: new Date().toISOString().split('T')[0],
+    reference_no: '',
+    notes: ''
+  })
+
+  useEffect(() => {
+    const loadOpenBalances = async () => {
+      setLoading(true)
+      try {
+        setOpenBalances(await fetchOpenOrderBalances(customer.id))
+      } catch (error) {
+        console.error('Error fetching open invoices:', error)
+        setOpenBalances([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadOpenBalances()
+  }, [customer.id])
+
+  const amount = parseFloat(form.amount) || 0
+  const totalAllocated = Object.values(allocations).reduce((sum, value) => sum + (parseFloat(value) || 0), 0)
+  const unallocated = Math.round((amount - totalAllocated) * 100) / 100
+  const totalOutstanding = openBalances.reduce((sum, balance) => sum + Number(balance.outstanding_amount), 0)
+
+  const autoAllocate = (value: number) => {
+    const next: Record<string, string> = {}
+    for (const allocation of allocateOldestFirst(value, openBalances)) {
+      next[allocation.orderId] = allocation.amount.toFixed(2)
+    }
+    setAllocations(next)
+  }
+
+  const handleAmountChange = (value: string) => {
+    setForm({ ...form, amount: value })
+    autoAllocate(parseFloat(value) || 0)
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (amount <= 0) {
+      alert('Please enter a payment amount greater than 0')
+      return
+    }
+    const overAllocated = openBalances.find(balance =>
+      (parseFloat(allocations[balance.order_id]) || 0) > Number(balance.outstanding_amount) + 0.001
+    )
+    if (overAllocated) {
+      alert(`Allocation for ${overAllocated.order_display_id} exceeds its outstanding balance`)
+      return
+    }
+    if (unallocated < 0) {
+      alert('Allocations exceed the payment amount')
+      return
+    }
+    if (form.payment_method !== 'Cash' && !form.reference_no.trim()) {
+      alert('Please enter the cheque or transfer reference')
+      return
+    }
+    if (unallocated > 0 && !confirm(`Rs ${unallocated.toFixed(2)} is not allocated to any order and will stay on the customer's account as a credit. Continue?`)) {
+      return
+    }
+
+    setSaving(true)
+    try {
+      await receiveCustomerPayment({
+        customerId: customer.id,
+        amount,
+        paymentMethod: form.payment_method,
+        paymentDate: form.payment_date,
+        referenceNo: form.reference_no,
+        notes: form.notes,
+        allocations: Object.entries(allocations).map(([orderId, value]) => ({
+          orderId,
+          amount: parseFloat(value) || 0
+        }))
+      })
+
+      alert('Payment recorded successfully!')
+      onReceived()
+    } catch (error) {
+      console.error('Error recording payment:', error)
+      alert(error instanceof Error ? error.message : 'Failed to record payment. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-3xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <Wallet className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Receive Payment - {customer.name} ({customer.customer_display_id})
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex flex-col min-h-0">
+          <div className="p-6 overflow-y-auto space-y-6">
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Amount (Rs)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={form.amount}
+                  onChange={(e) => handleAmountChange(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Method</label>
+                <select
+                  value={form.payment_method}
+                  onChange={(e) => setForm({ ...form, payment_method: e.target.value as CustomerPayment['payment_method'] })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="Cash">Cash</option>
+                  <option value="Net">Net (bank transfer)</option>
+                  <option value="Cheque">Cheque</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Payment Date</label>
+                <input
+                  type="date"
+                  value={form.payment_date}
+                  onChange={(e) => setForm({ ...form, payment_date: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Reference No</label>
+                <input
+                  type="text"
+                  value={form.reference_no}
+                  onChange={(e) => setForm({ ...form, reference_no: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  placeholder="Cheque / transfer no."
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+                <input
+                  type="text"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+              </div>
+            </div>
+
+            <div>
+              <div className="flex items-center justify-between mb-3">
+                <h4 className="text-sm font-semibold text-gray-900">Allocate to open invoices</h4>
+                <button
+                  type="button"
+                  onClick={() => autoAllocate(amount)}
+                  className="text-sm text-blue-600 hover:text-blue-800"
+                >
+                  Allocate oldest first
+                </button>
+              </div>
+              {loading ? (
+                <div className="flex items-center justify-center h-24">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+                </div>
+              ) : openBalances.length === 0 ? (
+                <p className="text-sm text-gray-500 italic text-center py-6">This customer has no open invoices.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="min-w-full divide-y divide-gray-200">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Order</th>
+                        <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Invoice Date</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Total (Rs)</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Outstanding (Rs)</th>
+                        <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Allocate (Rs)</th>
+                      </tr>
+                    </thead>
+                    <tbody className="bg-white divide-y divide-gray-200">
+                      {openBalances.map(balance => (
+                        <tr key={balance.order_id}>
+                          <td className="px-4 py-2 text-sm font-medium text-gray-900">{balance.order_display_id}</td>
+                          <td className="px-4 py-2 text-sm text-gray-700">{new Date(balance.invoice_date).toLocaleDateString()}</td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-700">{Number(balance.total_amount).toFixed(2)}</td>
+                          <td className="px-4 py-2 text-sm text-right text-gray-900">{Number(balance.outstanding_amount).toFixed(2)}</td>
+                          <td className="px-4 py-2 text-right">
+                            <input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max={balance.outstanding_amount}
+                              value={allocations[balance.order_id] || ''}
+                              onChange={(e) => setAllocations(prev => ({ ...prev, [balance.order_id]: e.target.value }))}
+                              className="w-28 px-2 py-1 border border-gray-300 rounded text-right focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                            />
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <div className="flex justify-end space-x-6 mt-3 text-sm">
+                <span className="text-gray-600">Outstanding: <strong>Rs {totalOutstanding.toFixed(2)}</strong></span>
+                <span className="text-gray-600">Allocated: <strong>Rs {totalAllocated.toFixed(2)}</strong></span>
+                <span className={unallocated < 0 ? 'text-red-600' : 'text-gray-600'}>
+                  On account: <strong>Rs {unallocated.toFixed(2)}</strong>
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+            <button
+              type="button"
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || loading}
+              className="flex items-center px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+            >
+              <Save className="w-4 h-4 mr-2" />
+              {saving ? 'Saving...' : 'Record Payment'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  )
+}
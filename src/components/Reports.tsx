@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import { Calendar, Download, TrendingUp, Package, Users, DollarSign } from 'lucide-react'
-import { supabase } from '../lib/supabase'
+import { supabase, BatchRecord, OrderStageDuration } from '../lib/supabase'
+import { fetchNearExpiryBatches } from '../lib/stockService'
+import { fetchOrderStageDurations, summarizeStageDurations, StageDurationSummary } from '../lib/orderService'
+import { ORDER_STATUSES } from '../lib/orderWorkflow'
 import { useAuth } from '../hooks/useAuth' // Import useAuth to get isOnline status
 
 interface SalesData {
@@ -23,26 +26,32 @@ interface LowStockItem {
   category: string
 }
 
+// Batches expiring within this many days are listed as near expiry
+const NEAR_EXPIRY_DAYS = 30
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `${minutes}m`
+  const hours = Math.floor(minutes / 60)
+  if (hours < 24) return `${hours}h ${minutes % 60}m`
+  return `${Math.floor(hours / 24)}d ${hours % 24}h`
+}
+
 export const Reports: React.FC = () => {
-  const [activeTab, setActiveTab] = useState<'sales' | 'inventory'>('sales')
+  const [activeTab, setActiveTab] = useState<'sales' | 'inventory' | 'delivery'>('sales')
   const [dateRange, setDateRange] = useState<'day' | 'week' | 'month'>('day')
   const { isOnline } = useAuth() // Get online status
   const [salesData, setSalesData] = useState<SalesData[]>([])
   const [topProducts, setTopProducts] = useState<ProductSales[]>([])
   const [lowStockItems, setLowStockItems] = useState<LowStockItem[]>([])
+  const [nearExpiryBatches, setNearExpiryBatches] = useState<BatchRecord[]>([])
   const [loading, setLoading] = useState(false)
   const [isSalesDataFromCache, setIsSalesDataFromCache] = useState(false)
   const [isInventoryDataFromCache, setIsInventoryDataFromCache] = useState(false)
+  const [stageDurations, setStageDurations] = useState<OrderStageDuration[]>([])
+  const [isStageDataFromCache, setIsStageDataFromCache] = useState(false)
 
-  useEffect(() => {
-    if (activeTab === 'sales') {
-      fetchSalesData()
-    } else {
-      fetchInventoryData()
-    }
-  }, [activeTab, dateRange])
-
-  const fetchSalesData = async () => {
+  const fetchSalesData = useCallback(async () => {
     setLoading(true)
     setIsSalesDataFromCache(false)
 
@@ -130,17 +139,19 @@ export const Reports: React.FC = () => {
     } finally {
       setLoading(false)
     }
-  }
+  }, [dateRange, isOnline])
 
-  const fetchInventoryData = async () => {
+  const fetchInventoryData = useCallback(async () => {
     setLoading(true)
     setIsInventoryDataFromCache(false)
 
     const cacheKey = 'reports_inventory_data'
+    const nearExpiryCacheKey = 'reports_near_expiry_data'
     if (!isOnline) {
       const cachedData = localStorage.getItem(cacheKey)
       if (cachedData) {
         setLowStockItems(JSON.parse(cachedData))
+        setNearExpiryBatches(JSON.parse(localStorage.getItem(nearExpiryCacheKey) || '[]'))
         setIsInventoryDataFromCache(true)
         setLoading(false)
         return
@@ -158,20 +169,78 @@ export const Reports: React.FC = () => {
       const lowStock = products?.filter(product => product.quantity < product.threshold) || []
       setLowStockItems(lowStock)
       localStorage.setItem(cacheKey, JSON.stringify(lowStock))
+
+      const nearExpiry = await fetchNearExpiryBatches(NEAR_EXPIRY_DAYS)
+      setNearExpiryBatches(nearExpiry)
+      localStorage.setItem(nearExpiryCacheKey, JSON.stringify(nearExpiry))
     } catch (error) {
       console.error('Error fetching inventory data:', error)
       
       const cachedData = localStorage.getItem(cacheKey)
       if (cachedData) {
         setLowStockItems(JSON.parse(cachedData))
+        setNearExpiryBatches(JSON.parse(localStorage.getItem(nearExpiryCacheKey) || '[]'))
         setIsInventoryDataFromCache(true)
       } else {
         setLowStockItems([])
+        setNearExpiryBatches([])
       }
     } finally {
       setLoading(false)
     }
-  }
+  }, [isOnline])
+
+  const fetchStageData = useCallback(async () => {
+    setLoading(true)
+    setIsStageDataFromCache(false)
+
+    const cacheKey = `reports_stage_data_${dateRange}`
+    if (!isOnline) {
+      const cachedData = localStorage.getItem(cacheKey)
+      if (cachedData) {
+        setStageDurations(JSON.parse(cachedData))
+        setIsStageDataFromCache(true)
+        setLoading(false)
+        return
+      }
+    }
+
+    try {
+      const startDate = new Date()
+      startDate.setDate(startDate.getDate() - (dateRange === 'day' ? 1 : dateRange === 'week' ? 7 : 30))
+
+      const rows = await fetchOrderStageDurations(startDate.toISOString())
+      setStageDurations(rows)
+      localStorage.setItem(cacheKey, JSON.stringify(rows))
+    } catch (error) {
+      console.error('Error fetching order stage durations:', error)
+
+      const cachedData = localStorage.getItem(cacheKey)
+      if (cachedData) {
+        setStageDurations(JSON.parse(cachedData))
+        setIsStageDataFromCache(true)
+      } else {
+        setStageDurations([])
+      }
+    } finally {
+      setLoading(false)
+    }
+  }, [dateRange, isOnline])
+
+  useEffect(() => {
+    if (activeTab === 'sales') {
+      fetchSalesData()
+    } else if (activeTab === 'delivery') {
+      fetchStageData()
+    } else {
+      fetchInventoryData()
+    }
+  }, [activeTab, fetchSalesData, fetchStageData, fetchInventoryData])
+
+  // Stages that appear in the data, in workflow order
+  const reportedStages = ORDER_STATUSES.filter(status => stageDurations.some(row => row.stage === status))
+  const stagesBySalesRep = summarizeStageDurations(stageDurations, 'sales_rep_username')
+  const stagesByVehicle = summarizeStageDurations(stageDurations, 'vehicle_number')
 
   const exportToCSV = () => {
     if (activeTab === 'sales') {
@@ -191,6 +260,30 @@ export const Reports: React.FC = () => {
       a.download = `sales_report_${dateRange}.csv`
       a.click()
       URL.revokeObjectURL(url)
+    } else if (activeTab === 'delivery') {
+      const toRows = (groupType: string, summaries: StageDurationSummary[]) => summaries.map(summary => [
+        groupType,
+        `"${summary.group.replace(/"/g, '""')}"`,
+        summary.orderCount,
+        ...reportedStages.map(stage => {
+          const stat = summary.stages[stage]
+          return stat ? (stat.averageSeconds / 3600).toFixed(2) : ''
+        })
+      ].join(','))
+
+      const csvContent = [
+        ['Group By', 'Name', 'Orders', ...reportedStages.map(stage => `"${stage} (avg hours)"`)].join(','),
+        ...toRows('Sales Rep', stagesBySalesRep),
+        ...toRows('Vehicle', stagesByVehicle)
+      ].join('\n')
+
+      const blob = new Blob([csvContent], { type: 'text/csv' })
+      const url = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = url
+      a.download = `delivery_stage_report_${dateRange}.csv`
+      a.click()
+      URL.revokeObjectURL(url)
     } else {
       const csvContent = [
         ['Product Name', 'Current Stock', 'Threshold', 'Category'].join(','),
@@ -212,6 +305,13 @@ export const Reports: React.FC = () => {
     }
   }
 
+  const getDaysUntil = (dateString: string) => {
+    const today = new Date()
+    today.setHours(0, 0, 0, 0)
+    const target = new Date(`${dateString}T00:00:00`)
+    return Math.round((target.getTime() - today.getTime()) / (1000 * 60 * 60 * 24))
+  }
+
   const getTotalSales = () => {
     return salesData.reduce((total, day) => total + day.total_sales, 0)
   }
@@ -255,6 +355,16 @@ export const Reports: React.FC = () => {
         >
           Inventory Reports
         </button>
+        <button
+          onClick={() => setActiveTab('delivery')}
+          className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+            activeTab === 'delivery'
+              ? 'bg-red-600 text-white'
+              : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+          }`}
+        >
+          Delivery Stages
+        </button>
       </div>
 
       {activeTab === 'sales' && (
@@ -411,9 +521,121 @@ export const Reports: React.FC = () => {
               </div>
             )}
           </div>
+
+          {/* Near Expiry */}
+          <div className="bg-white rounded-lg shadow p-6 mt-6">
+            <h2 className="text-lg font-semibold mb-4">Near Expiry (next {NEAR_EXPIRY_DAYS} days)</h2>
+            {nearExpiryBatches.length === 0 ? (
+              <p className="text-gray-500 text-center py-8">No batches expiring in the next {NEAR_EXPIRY_DAYS} days</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left py-2">Product</th>
+                      <th className="text-left py-2">Batch</th>
+                      <th className="text-left py-2">Remaining</th>
+                      <th className="text-left py-2">Expiry Date</th>
+                      <th className="text-left py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {nearExpiryBatches.map((batch) => {
+                      const daysLeft = getDaysUntil(batch.expiry_date!)
+                      return (
+                        <tr key={batch.id} className="border-b">
+                          <td className="py-2 font-medium">{batch.products?.name || 'Unknown'}</td>
+                          <td className="py-2">{batch.batch_number}</td>
+                          <td className="py-2">{batch.quantity} kg</td>
+                          <td className="py-2">{batch.expiry_date}</td>
+                          <td className="py-2">
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                              daysLeft < 0 ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                            }`}>
+                              <Calendar className="w-3 h-3 mr-1" />
+                              {daysLeft < 0 ? 'Expired' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} left`}
+                            </span>
+                          </td>
+                        </tr>
+                      )
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
         </>
       )}
 
+      {activeTab === 'delivery' && (
+        <div className="space-y-6">
+          <div className="flex items-center space-x-4">
+            <Calendar className="w-5 h-5 text-gray-600" />
+            <div className="flex space-x-2">
+              {['day', 'week', 'month'].map((range) => (
+                <button
+                  key={range}
+                  onClick={() => setDateRange(range as 'day' | 'week' | 'month')}
+                  className={`px-3 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    dateRange === range
+                      ? 'bg-red-100 text-red-700'
+                      : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {range.charAt(0).toUpperCase() + range.slice(1)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {isStageDataFromCache && (
+            <p className="text-sm text-gray-500">Data may be outdated (from cache)</p>
+          )}
+
+          {[
+            { title: 'Average Time per Stage by Sales Rep', label: 'Sales Rep', summaries: stagesBySalesRep },
+            { title: 'Average Time per Stage by Vehicle', label: 'Vehicle', summaries: stagesByVehicle }
+          ].map(({ title, label, summaries }) => (
+            <div key={label} className="bg-white rounded-lg shadow p-6">
+              <h2 className="text-lg font-semibold mb-4">{title}</h2>
+              {summaries.length === 0 ? (
+                <p className="text-gray-500 text-center py-8">No completed order stages in this period</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left py-2 pr-4">{label}</th>
+                        <th className="text-left py-2 pr-4">Orders</th>
+                        {reportedStages.map(stage => (
+                          <th key={stage} className="text-left py-2 pr-4">{stage}</th>
+                        ))}
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {summaries.map(summary => (
+                        <tr key={summary.group} className="border-b">
+                          <td className="py-2 pr-4 font-medium">{summary.group}</td>
+                          <td className="py-2 pr-4">{summary.orderCount}</td>
+                          {reportedStages.map(stage => {
+                            const stat = summary.stages[stage]
+                            return (
+                              <td key={stage} className="py-2 pr-4" title={stat ? `${stat.count} order stage(s)` : undefined}>
+                                {stat ? formatDuration(stat.averageSeconds) : '-'}
+                              </td>
+                            )
+                          })}
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
       {loading && (
         <div className="flex items-center justify-center py-8">
           <div className="text-gray-500">Loading reports...</div>
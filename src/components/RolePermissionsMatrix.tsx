@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react'
+import { Shield, Save, Plus, Trash2, AlertCircle } from 'lucide-react'
+import { Permission, PermissionDefinition, Role } from '../lib/supabase'
+import { fetchPermissionCatalog, fetchRoles, setRolePermissions, createRole, deleteRole } from '../lib/permissionService'
+
+// Super Admin always keeps these so nobody can lock themselves out (the database enforces it too)
+const LOCKED_GRANTS: Record<string, Permission[]> = {
+  'Super Admin': ['users.manage', 'settings.manage']
+}
+
+const sameGrants = (a: Permission[], b: Set<Permission>) =>
+  a.length === b.size && a.every(permission => b.has(permission))
+
+export const RolePermissionsMatrix: React.FC = () => {
+  const [catalog, setCatalog] = useState<PermissionDefinition[]>([])
+  const [roles, setRoles] = useState<Role[]>([])
+  const [grants, setGrants] = useState<Record<string, Set<Permission>>>({})
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [newRoleName, setNewRoleName] = useState('')
+  const [newRoleDescription, setNewRoleDescription] = useState('')
+
+  useEffect(() => {
+    loadMatrix()
+  }, [])
+
+  const loadMatrix = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [permissionCatalog, roleList] = await Promise.all([fetchPermissionCatalog(), fetchRoles()])
+      setCatalog(permissionCatalog)
+      setRoles(roleList)
+      setGrants(Object.fromEntries(roleList.map(role => [role.name, new Set(role.permissions)])))
+    } catch (err) {
+      console.error('Error loading role permissions:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load roles and permissions.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const changedRoles = roles.filter(role => grants[role.name] && !sameGrants(role.permissions, grants[role.name]))
+
+  const handleToggle = (roleName: string, permission: Permission) => {
+    if (LOCKED_GRANTS[roleName]?.includes(permission)) return
+
+    setGrants(prev => {
+      const next = new Set(prev[roleName])
+      if (next.has(permission)) {
+        next.delete(permission)
+      } else {
+        next.add(permission)
+      }
+      return { ...prev, [roleName]: next }
+    })
+  }
+
+  const handleSave = async () => {
+    setSaving(true)
+    setError(null)
+    try {
+      for (const role of changedRoles) {
+        await setRolePermissions(role.name, Array.from(grants[role.name]))
+      }
+      await loadMatrix()
+      alert('Role permissions saved successfully!')
+    } catch (err) {
+      console.error('Error saving role permissions:', err)
+      setError(err instanceof Error ? err.message : 'Failed to save role permissions.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddRole = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newRoleName.trim()) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      await createRole(newRoleName, newRoleDescription, [])
+      setNewRoleName('')
+      setNewRoleDescription('')
+      await loadMatrix()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create role.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDeleteRole = async (role: Role) => {
+    if (!confirm(`Delete the role "${role.name}"? This cannot be undone.`)) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      await deleteRole(role.name)
+      await loadMatrix()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to delete role.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const categories = Array.from(new Set(catalog.map(permission => permission.category)))
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-32">
+        <div className="text-gray-500">Loading roles...</div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Shield className="w-5 h-5 text-gray-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Roles & Permissions</h2>
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving || changedRoles.length === 0}
+          className="flex items-center px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4 mr-2" />
+          {saving ? 'Saving...' : `Save Changes${changedRoles.length > 0 ? ` (${changedRoles.length})` : ''}`}
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center p-3 mb-4 bg-red-50 border border-red-200 rounded-lg">
+          <AlertCircle className="w-5 h-5 text-red-600 mr-2" />
+          <div className="text-sm text-red-700">{error}</div>
+        </div>
+      )}
+
+      <div className="overflow-x-auto border border-gray-200 rounded-lg">
+        <table className="min-w-full divide-y divide-gray-200 text-sm">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Permission</th>
+              {roles.map(role => (
+                <th key={role.name} className="px-3 py-3 text-center text-xs font-medium text-gray-500 uppercase tracking-wider whitespace-nowrap">
+                  <div className="flex items-center justify-center space-x-1">
+                    <span title={role.description || undefined}>{role.name}</span>
+                    {!role.is_system && (
+                      <button
+                        onClick={() => handleDeleteRole(role)}
+                        disabled={saving}
+                        className="text-red-600 hover:text-red-800 p-0.5 rounded-full hover:bg-red-100 disabled:opacity-50"
+                        title="Delete role"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                    )}
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200">
+            {categories.map(category => (
+              <React.Fragment key={category}>
+                <tr className="bg-gray-100">
+                  <td colSpan={roles.length + 1} className="px-4 py-2 text-xs font-semibold text-gray-700 uppercase">
+                    {category}
+                  </td>
+                </tr>
+                {catalog.filter(permission => permission.category === category).map(permission => (
+                  <tr key={permission.key} className="hover:bg-gray-50">
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900">{permission.key}</div>
+                      <div className="text-xs text-gray-500">{permission.description}</div>
+                    </td>
+                    {roles.map(role => (
+                      <td key={role.name} className="px-3 py-2 text-center">
+                        <input
+                          type="checkbox"
+                          checked={grants[role.name]?.has(permission.key) || false}
+                          onChange={() => handleToggle(role.name, permission.key)}
+                          disabled={saving || LOCKED_GRANTS[role.name]?.includes(permission.key)}
+                          className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500 disabled:opacity-50"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form onSubmit={handleAddRole} className="flex flex-col sm:flex-row mt-4 gap-2">
+        <input
+          type="text"
+          value={newRoleName}
+          onChange={(e) => setNewRoleName(e.target.value)}
+          className="sm:w-48 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
+          placeholder="New role name"
+        />
+        <input
+          type="text"
+          value={newRoleDescription}
+          onChange={(e) => setNewRoleDescription(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-red-500 focus:border-red-500 sm:text-sm"
+          placeholder="Description (optional)"
+        />
+        <button
+          type="submit"
+          disabled={saving || !newRoleName.trim()}
+          className="flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Role
+        </button>
+      </form>
+    </div>
+  )
+}
@@ -1,11 +1,15 @@
 import React, { useState, useEffect } from 'react'
-import { createRoot } from 'react-dom/client'
 import { Search, Eye, Check, X, CheckCircle, RotateCcw, Filter, User, DollarSign, Truck, FileText, Calendar, ShieldOff } from 'lucide-react'
 import { useAuth } from '../hooks/useAuth'
-import { supabase } from '../lib/supabase'
+import { usePermissions } from '../hooks/usePermission'
+import { supabase, CreditNote, OrderStatus, OrderStatusTransition } from '../lib/supabase'
 import { PaymentConfirmationModal } from './PaymentConfirmationModal'
-import { BillPrintLayout } from './BillPrintLayout'
-import { sendBillEmail } from '../lib/emailService'
+import { OrderStatusTimeline } from './OrderStatusTimeline'
+import { queueBillEmail } from '../lib/emailService'
+import { processOrderReturn, fetchOrderCreditNotes, recordCreditNotePrint } from '../lib/creditNoteService'
+import { fetchTaxInvoice, issueTaxInvoice, recordTaxInvoicePrint } from '../lib/taxInvoiceService'
+import { openPrintWindow, showDocumentPdf } from '../lib/documentService'
+import { fetchOrderStatusTransitions, getNextStatuses, canTransition, ORDER_STATUSES } from '../lib/orderWorkflow'
 import { useLocation } from 'react-router-dom'
 import { isOffHoursSriLanka } from '../utils/timeUtils'
 
@@ -31,7 +35,7 @@ interface OrderItem {
 interface Order {
   id: string
   customer_id: string
-  status: 'Pending' | 'Assigned' | 'Products Loaded' | 'Product Reloaded' | 'Security Check Incomplete' | 'Security Checked' | 'Departed Farm' | 'Delivered' | 'Cancelled' | 'Completed' | 'Security Check Bypassed Due to Off Hours'
+  status: OrderStatus
   created_by: string
   assigned_to: string | null
   completed_by: string | null
@@ -51,12 +55,17 @@ interface Order {
   total_amount?: number
   vat_amount?: number
   is_vat_applicable?: boolean
+  vat_rate?: number | null
   customers: { name: string; address: string; phone_number: string; email?: string; vat_status?: string }
   order_items: OrderItem[]
   assigned_user?: { username: string }
   completed_user?: { username: string }
 }
 
+// Delivering an order is recorded together with the payment collected, so the
+// status menu offers these in place of a bare 'Delivered'
+type StatusOption = OrderStatus | 'Delivered - Payment Collected' | 'Delivered - Payment Partially Collected'
+
 // Predefined reasons for security check
 const predefinedReasons = [
   'Missing Quantity',
@@ -85,12 +94,15 @@ const statusPriority: { [key: string]: number } = {
 
 export const SalesOrders: React.FC = () => {
   const { user } = useAuth()
+  const { can } = usePermissions()
+  // Without orders.view_all a user only works the orders assigned to them, e.g. a sales rep
+  const ownOrdersOnly = !can('orders.view_all')
   const [orders, setOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
   const { isOnline } = useAuth()
   const [searchTerm, setSearchTerm] = useState('')
-  const [statusFilter, setStatusFilter] = useState(user?.role === 'Sales Rep' ? 'Assigned' : 'all')
-  const [deliveryDateFilter, setDeliveryDateFilter] = useState(user?.role === 'Sales Rep' ? new Date().toISOString().split('T')[0] : '')
+  const [statusFilter, setStatusFilter] = useState(ownOrdersOnly ? 'Assigned' : 'all')
+  const [deliveryDateFilter, setDeliveryDateFilter] = useState(ownOrdersOnly ? new Date().toISOString().split('T')[0] : '')
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null)
   const [showOrderModal, setShowOrderModal] = useState(false)
   const [showSecurityModal, setShowSecurityModal] = useState(false)
@@ -105,6 +117,8 @@ export const SalesOrders: React.FC = () => {
   const [selectedOrderItem, setSelectedOrderItem] = useState<OrderItem | null>(null)
   const [returnQuantity, setReturnQuantity] = useState(0)
   const [returnReason, setReturnReason] = useState('')
+  const [returnToQuarantine, setReturnToQuarantine] = useState(false)
+  const [orderCreditNotes, setOrderCreditNotes] = useState<CreditNote[]>([])
   const [processingReturn, setProcessingReturn] = useState(false)
   const [processing, setProcessing] = useState(false)
 
@@ -115,6 +129,7 @@ export const SalesOrders: React.FC = () => {
   const [paymentMethod, setPaymentMethod] = useState<'Cash' | 'Net' | null>(null)
   const [paymentError, setPaymentError] = useState<string | null>(null)
   const [processingPayment, setProcessingPayment] = useState(false)
+  const [printingTaxInvoice, setPrintingTaxInvoice] = useState(false)
   const [allowPartialPayment, setAllowPartialPayment] = useState(true)
 
   const location = useLocation()
@@ -122,11 +137,16 @@ export const SalesOrders: React.FC = () => {
 
   const [isOrdersFromCache, setIsOrdersFromCache] = useState(false)
   const [isFilterOptionsFromCache, setIsFilterOptionsFromCache] = useState(false)
+  const [statusTransitions, setStatusTransitions] = useState<OrderStatusTransition[]>([])
+
+  useEffect(() => {
+    fetchOrderStatusTransitions().then(setStatusTransitions)
+  }, [])
 
   useEffect(() => {
     fetchOrders()
     fetchFilterOptions()
-  }, [user, statusFilter, customerFilter, salesRepFilter, deliveryDateFilter, location.search])
+  }, [user, ownOrdersOnly, statusFilter, customerFilter, salesRepFilter, deliveryDateFilter, location.search])
 
   useEffect(() => {
     if (!isOnline) return
@@ -140,6 +160,16 @@ export const SalesOrders: React.FC = () => {
     }
   }, [orders, location.search])
 
+  const selectedOrderId = selectedOrder?.id
+  useEffect(() => {
+    setOrderCreditNotes([])
+    if (selectedOrderId) {
+      fetchOrderCreditNotes(selectedOrderId)
+        .then(setOrderCreditNotes)
+        .catch(error => console.error('Error fetching credit notes:', error))
+    }
+  }, [selectedOrderId])
+
   const fetchFilterOptions = async () => {
     try {
       setIsFilterOptionsFromCache(false)
@@ -230,7 +260,7 @@ export const SalesOrders: React.FC = () => {
         id, customer_id, status, created_by, assigned_to, completed_by, security_check_status,
         security_check_notes, vehicle_number, created_at, completed_at, order_display_id,
         purchase_order_id, payment_method, receipt_no, delivery_date, payment_status, collected_amount,
-        total_amount, vat_amount, is_vat_applicable,
+        total_amount, vat_amount, is_vat_applicable, vat_rate,
         customers(name, address, phone_number, email, vat_status),
         order_items(
           id,
@@ -248,9 +278,10 @@ export const SalesOrders: React.FC = () => {
       if (salesRepFilter !== 'all') query = query.eq('assigned_to', salesRepFilter)
       if (deliveryDateFilter) query = query.eq('delivery_date', deliveryDateFilter)
 
-      if (user.role === 'Sales Rep') query = query.eq('assigned_to', user.id)
+      if (ownOrdersOnly) query = query.eq('assigned_to', user.id)
 
-      if (user.role === 'Security Guard') {
+      // Reloading is the delivery side's business; security only sees the order again once it is back
+      if (!can('orders.transition.delivery')) {
         query = query.neq('status', 'Product Reloaded')
       }
 
@@ -282,110 +313,61 @@ export const SalesOrders: React.FC = () => {
   }
 
   const getAvailableStatusOptions = (order: Order) => {
-    const currentStatus = order.status
-    const userRole = user?.role
-
-    if (!userRole) return []
-
-    const allStatuses = [
-      { value: 'Pending', label: 'Pending' },
-      { value: 'Assigned', label: 'Assigned' },
-      { value: 'Products Loaded', label: 'Products Loaded' },
-      { value: 'Product Reloaded', label: 'Product Reloaded' },
-      { value: 'Security Check Incomplete', label: 'Security Check Incomplete' },
-      { value: 'Security Checked', label: 'Security Checked' },
-      { value: 'Security Check Bypassed Due to Off Hours', label: 'Security Check Bypassed Due to Off Hours' },
-      { value: 'Departed Farm', label: 'Departed Farm' },
-      { value: 'Delivered - Payment Collected', label: 'Delivered - Payment Collected' },
-      { value: 'Delivered - Payment Partially Collected', label: 'Delivered - Payment Partially Collected' },
-      { value: 'Delivered', label: 'Delivered' },
-      { value: 'Cancelled', label: 'Cancelled' },
-      { value: 'Completed', label: 'Completed' }
-    ]
-
-    const baseOptions = userRole === 'Security Guard'
-      ? allStatuses.filter(opt => opt.value !== 'Product Reloaded')
-      : allStatuses
-
-    switch (userRole) {
-      case 'Sales Rep':
-        switch (currentStatus) {
-          case 'Assigned':
-            return baseOptions.filter(opt => ['Assigned', 'Products Loaded'].includes(opt.value))
-          case 'Products Loaded':
-            return baseOptions.filter(opt => opt.value === 'Products Loaded')
-          case 'Security Check Incomplete':
-            return baseOptions.filter(opt => ['Security Check Incomplete', 'Product Reloaded'].includes(opt.value))
-          case 'Security Checked':
-            return baseOptions.filter(opt => ['Security Checked', 'Departed Farm'].includes(opt.value))
-          case 'Security Check Bypassed Due to Off Hours':
-            return baseOptions.filter(opt => ['Security Check Bypassed Due to Off Hours', 'Departed Farm'].includes(opt.value))
-          case 'Departed Farm':
-            return baseOptions.filter(opt => [
-              'Departed Farm', 
-              'Delivered - Payment Collected', 
-              'Delivered - Payment Partially Collected'
-            ].includes(opt.value))
-          case 'Delivered':
-            return baseOptions.filter(opt => opt.value === 'Delivered')
-          default:
-            return baseOptions.filter(opt => opt.value === currentStatus)
-        }
+    const options: { value: StatusOption; label: string }[] = [{ value: order.status, label: order.status }]
 
-      case 'Security Guard':
-        switch (currentStatus) {
-          case 'Products Loaded':
-          case 'Product Reloaded':
-            return baseOptions.filter(opt => ['Products Loaded', 'Security Checked', 'Security Check Incomplete'].includes(opt.value))
-          case 'Security Check Incomplete':
-            return baseOptions.filter(opt => opt.value === 'Security Check Incomplete')
-          default:
-            return baseOptions.filter(opt => opt.value === currentStatus)
+    for (const status of getNextStatuses(statusTransitions, order.status, can)) {
+      if (status === 'Delivered') {
+        options.push(
+          { value: 'Delivered - Payment Collected', label: 'Delivered - Payment Collected' },
+          { value: 'Delivered - Payment Partially Collected', label: 'Delivered - Payment Partially Collected' }
+        )
+        // Without orders.deliver_without_payment the payment has to be recorded on delivery
+        if (can('orders.deliver_without_payment')) {
+          options.push({ value: 'Delivered', label: 'Delivered' })
         }
-
-      case 'Admin':
-      case 'Super Admin':
-      case 'Order Manager':
-      case 'Finance Admin':
-        return baseOptions
-
-      default:
-        return baseOptions.filter(opt => opt.value === currentStatus)
+      } else {
+        options.push({ value: status, label: status })
+      }
     }
+
+    return options
   }
 
-  const handleUpdateOrderStatus = async (orderId: string, newStatus: Order['status']) => {
+  const handleUpdateOrderStatus = async (orderId: string, newStatus: StatusOption) => {
     if (!user) return
+
+    const order = orders.find(o => o.id === orderId)
+    const targetStatus: OrderStatus = newStatus.startsWith('Delivered') ? 'Delivered' : newStatus as OrderStatus
+    if (!order || order.status === targetStatus) return
+    if (!canTransition(statusTransitions, order.status, targetStatus, can)) {
+      alert(`You cannot change this order from ${order.status} to ${targetStatus}.`)
+      return
+    }
+
     setProcessing(true)
 
     try {
       if (newStatus === 'Delivered - Payment Collected') {
-        const order = orders.find(o => o.id === orderId)
-        if (order) {
-          const totalAmount = order.total_amount || getOrderTotal(order)
-          
-          setCurrentOrderForPayment(order)
-          setPaymentCollectedAmount(totalAmount)
-          setAllowPartialPayment(false)
-          setPaymentMethod('Cash')
-          setPaymentError(null)
-          setShowPaymentConfirmationModal(true)
-          setProcessing(false)
-          return
-        }
+        const totalAmount = order.total_amount || getOrderTotal(order)
+
+        setCurrentOrderForPayment(order)
+        setPaymentCollectedAmount(totalAmount)
+        setAllowPartialPayment(false)
+        setPaymentMethod('Cash')
+        setPaymentError(null)
+        setShowPaymentConfirmationModal(true)
+        setProcessing(false)
+        return
       } 
       else if (newStatus === 'Delivered - Payment Partially Collected') {
-        const order = orders.find(o => o.id === orderId)
-        if (order) {
-          setCurrentOrderForPayment(order)
-          setPaymentCollectedAmount('')
-          setAllowPartialPayment(true)
-          setPaymentMethod(null)
-          setPaymentError(null)
-          setShowPaymentConfirmationModal(true)
-          setProcessing(false)
-          return
-        }
+        setCurrentOrderForPayment(order)
+        setPaymentCollectedAmount('')
+        setAllowPartialPayment(true)
+        setPaymentMethod(null)
+        setPaymentError(null)
+        setShowPaymentConfirmationModal(true)
+        setProcessing(false)
+        return
       }
       else if (newStatus === 'Delivered') {
         const { error } = await supabase
@@ -395,49 +377,40 @@ export const SalesOrders: React.FC = () => {
         if (error) throw error
       }
       else {
+        // security_check_status and completion stamps are set by the status transition trigger
         const updateData: any = { status: newStatus }
 
-        if (newStatus === 'Completed') {
-          updateData.completed_by = user.id
-          updateData.completed_at = new Date().toISOString()
-        }
-
         if (newStatus === 'Security Check Incomplete') {
-          const order = orders.find(o => o.id === orderId)
-          if (order) {
-            setSelectedOrderForSecurity(order)
-            
-            if (order.security_check_notes) {
-              try {
-                const parsedNotes = JSON.parse(order.security_check_notes)
-                if (parsedNotes.reasons && Array.isArray(parsedNotes.reasons)) {
-                  setSelectedReasons(parsedNotes.reasons)
-                }
-                if (parsedNotes.customNote) {
-                  setSecurityNotes(parsedNotes.customNote)
-                }
-              } catch (error) {
-                setSecurityNotes(order.security_check_notes)
-                setSelectedReasons([])
+          setSelectedOrderForSecurity(order)
+          
+          if (order.security_check_notes) {
+            try {
+              const parsedNotes = JSON.parse(order.security_check_notes)
+              if (parsedNotes.reasons && Array.isArray(parsedNotes.reasons)) {
+                setSelectedReasons(parsedNotes.reasons)
               }
-            } else {
+              if (parsedNotes.customNote) {
+                setSecurityNotes(parsedNotes.customNote)
+              }
+            } catch (error) {
+              setSecurityNotes(order.security_check_notes)
               setSelectedReasons([])
-              setSecurityNotes('')
             }
-            
-            setShowSecurityModal(true)
-            setProcessing(false)
-            return
+          } else {
+            setSelectedReasons([])
+            setSecurityNotes('')
           }
+          
+          setShowSecurityModal(true)
+          setProcessing(false)
+          return
         }
 
         if (newStatus === 'Security Checked') {
           updateData.security_check_notes = null
-          updateData.security_check_status = 'completed'
         }
 
         if (newStatus === 'Security Check Bypassed Due to Off Hours') {
-          updateData.security_check_status = 'bypassed'
           const bypassNote = {
             bypassed: true,
             reason: 'Bypassed due to off-hours operation',
@@ -501,8 +474,19 @@ export const SalesOrders: React.FC = () => {
         throw new Error('Failed to get receipt number after update.')
       }
 
-      // ✅ SEND EMAIL AFTER SUCCESSFUL PAYMENT
-      console.log('=== Attempting to send bill email ===')
+      // VAT customers get a tax invoice numbered at delivery; a failure here
+      // does not undo the delivery and the invoice can be issued from the order later
+      if (orderToUpdate.is_vat_applicable) {
+        try {
+          await issueTaxInvoice(orderId)
+        } catch (invoiceError) {
+          console.error('Error issuing tax invoice:', invoiceError)
+          alert(`Delivery recorded, but the tax invoice could not be issued: ${invoiceError instanceof Error ? invoiceError.message : invoiceError}`)
+        }
+      }
+
+      // ✅ QUEUE RECEIPT EMAIL AFTER SUCCESSFUL PAYMENT
+      console.log('=== Queueing bill email ===')
       
       if (orderToUpdate.customers.email) {
         const emailData = {
@@ -527,16 +511,14 @@ export const SalesOrders: React.FC = () => {
           isVatApplicable: orderToUpdate.is_vat_applicable || false
         }
 
-        console.log('Sending email with data:', emailData)
-        
-        const emailResult = await sendBillEmail(emailData)
+        const emailResult = await queueBillEmail(emailData)
         
         if (emailResult.success) {
-          console.log('✅ Email sent successfully')
-          alert('Payment confirmed and receipt email sent to customer!')
+          console.log('✅ Email queued successfully')
+          alert('Payment confirmed and receipt email queued for the customer!')
         } else {
-          console.error('❌ Email send failed:', emailResult.error)
-          alert(`Payment confirmed, but email failed to send: ${emailResult.error}`)
+          console.error('❌ Email queueing failed:', emailResult.error)
+          alert(`Payment confirmed, but the receipt email could not be queued: ${emailResult.error}`)
         }
       } else {
         console.warn('⚠️ No customer email found, skipping email send')
@@ -553,8 +535,35 @@ export const SalesOrders: React.FC = () => {
     }
   }
 
+  const handlePrintTaxInvoice = async (order: Order) => {
+    const printWindow = openPrintWindow()
+    if (!printWindow) return
+
+    setPrintingTaxInvoice(true)
+    try {
+      let invoice = await fetchTaxInvoice(order.id)
+      if (!invoice) {
+        await issueTaxInvoice(order.id)
+        invoice = await fetchTaxInvoice(order.id)
+      }
+      if (!invoice) {
+        throw new Error('Tax invoice not found after issuing.')
+      }
+      const printCount = await recordTaxInvoicePrint(invoice.id)
+
+      // The first print is the archived original; reprints are marked DUPLICATE
+      await showDocumentPdf(printWindow, 'tax_invoice', invoice.id, { duplicate: printCount > 1, archive: printCount === 1 })
+    } catch (error) {
+      printWindow.close()
+      console.error('Error printing tax invoice:', error)
+      alert(error instanceof Error ? error.message : 'Failed to print tax invoice.')
+    } finally {
+      setPrintingTaxInvoice(false)
+    }
+  }
+
   const handleBypassSecurityCheck = async (orderId: string) => {
-    if (!user || user.role !== 'Security Guard') return
+    if (!user || !can('orders.transition.security')) return
     
     setProcessing(true)
     try {
@@ -570,7 +579,6 @@ export const SalesOrders: React.FC = () => {
         .from('orders')
         .update({
           status: 'Security Check Bypassed Due to Off Hours',
-          security_check_status: 'bypassed',
           security_check_notes: JSON.stringify(bypassNote)
         })
         .eq('id', orderId)
@@ -587,268 +595,17 @@ export const SalesOrders: React.FC = () => {
     }
   }
 
-  const handlePrintBill = (order: Order, paymentMethod: 'Net' | 'Cash', receiptNo: string) => {
-    const printWindow = window.open('', '_blank', 'width=380,height=600')
-    if (printWindow) {
-      const totalAmount = order.total_amount || getOrderTotal(order)
-      const vatAmount = order.vat_amount || 0
-      const subtotal = totalAmount - vatAmount
-      
-      printWindow.document.write(`
-        <!DOCTYPE html>
-        <html>
-          <head>
-            <title>Weehena Farm - Sales Receipt</title>
-            <style>
-              @page {
-                size: 80mm auto;
-                margin: 0;
-                padding: 0;
-              }
-              
-              body {
-                font-family: 'Courier New', monospace;
-                font-size: 12px;
-                line-height: 1;
-                margin: 0;
-                padding: 2px;
-                width: 80mm;
-                background: white;
-                color: black;
-                -webkit-print-color-adjust: exact;
-                print-color-adjust: exact;
-              }
-              
-              .container {
-                width: 100%;
-                max-width: 80mm;
-                margin: 0 auto;
-                padding: 0;
-              }
-              
-              .header {
-                text-align: center;
-                margin-bottom: 3px;
-              }
-              
-              .company-name {
-                font-size: 18px;
-                margin: 2px 0;
-                text-transform: uppercase;
-              }
-              
-              .tagline {
-                font-size: 12px;
-                margin: 1px 0;
-              }
-              
-              .receipt-title {
-                font-size: 16px;
-                margin: 3px 0;
-                text-transform: uppercase;
-              }
-              
-              .receipt-info {
-                text-align: center;
-                margin: 2px 0;
-                font-size: 11px;
-              }
-              
-              .divider {
-                border-top: 1px dashed #000;
-                margin: 3px 0;
-              }
-              
-              .section {
-                margin: 3px 0;
-              }
-              
-              .section-title {
-                font-size: 12px;
-                margin: 2px 0;
-              }
-              
-              .info-line {
-                font-size: 11px;
-                margin: 1px 0;
-                line-height: 1.1;
-              }
-              
-              .items-table {
-                width: 100%;
-                font-size: 10px;
-                border-collapse: collapse;
-                margin: 2px 0;
-              }
-              
-              .items-table th {
-                text-align: left;
-                padding: 1px 2px;
-                border-bottom: 1px solid #000;
-              }
-              
-              .items-table td {
-                padding: 1px 2px;
-                border-bottom: 1px dotted #ccc;
-                vertical-align: top;
-              }
-              
-              .text-right {
-                text-align: right;
-              }
-              
-              .text-center {
-                text-align: center;
-              }
-              
-              .total-section {
-                margin-top: 5px;
-                border-top: 2px solid #000;
-                padding-top: 3px;
-              }
-              
-              .total-row {
-                font-size: 12px;
-              }
-              
-              .footer {
-                text-align: center;
-                margin-top: 8px;
-                padding-top: 5px;
-                border-top: 1px solid #000;
-                font-size: 10px;
-                line-height: 1.1;
-              }
-              
-              .spacer {
-                height: 5px;
-              }
-              
-              @media print {
-                body {
-                  margin: 0;
-                  padding: 2px;
-                  width: 80mm;
-                  font-size: 12px;
-                }
-                .container {
-                  box-shadow: none;
-                  border: none;
-                }
-                .no-print {
-                  display: none !important;
-                }
-              }
-            </style>
-          </head>
-          <body>
-            <div class="container">
-              <div class="header">
-                <div class="company-name">WEEHENA FARM</div>
-                <div class="tagline">A Taste with Quality</div>
-                <div class="receipt-title">SALES RECEIPT</div>
-                <div class="receipt-info">
-                  Date: ${new Date().toLocaleDateString('en-GB')}<br>
-                  Receipt No: ${receiptNo}
-                </div>
-              </div>
-
-              <div class="divider"></div>
-
-              <div class="section">
-                <div class="section-title">BILL TO:</div>
-                <div class="info-line">${order.customers.name}</div>
-                <div class="info-line">${order.customers.address}</div>
-                <div class="info-line">Phone: ${order.customers.phone_number}</div>
-                ${order.customers.vat_status ? `<div class="info-line">VAT Status: ${order.customers.vat_status}</div>` : ''}
-              </div>
-
-              <div class="divider"></div>
-
-              <div class="section">
-                <div class="section-title">ORDER DETAILS:</div>
-                <div class="info-line">Order ID: ${order.order_display_id}</div>
-                <div class="info-line">Payment: ${paymentMethod}</div>
-                <div class="info-line">Sales Rep: ${order.assigned_user?.username || 'N/A'}</div>
-                ${order.vehicle_number ? `<div class="info-line">Vehicle: ${order.vehicle_number}</div>` : ''}
-              </div>
-
-              <div class="divider"></div>
-
-              <div class="section">
-                <div class="section-title">ORDER ITEMS:</div>
-                <table class="items-table">
-                  <thead>
-                    <tr>
-                      <th>Product</th>
-                      <th class="text-right">Qty</th>
-                      <th class="text-right">Price</th>
-                      <th class="text-right">Amount</th>
-                    </tr>
-                  </thead>
-                  <tbody>
-                    ${order.order_items.map(item => `
-                      <tr>
-                        <td>${item.products.name}</td>
-                        <td class="text-right">${item.quantity}</td>
-                        <td class="text-right">${item.price.toFixed(2)}</td>
-                        <td class="text-right">${(item.quantity * item.price).toFixed(2)}</td>
-                      </tr>
-                    `).join('')}
-                  </tbody>
-                </table>
-              </div>
-
-              <div class="divider"></div>
-
-              <div class="total-section">
-                <table class="items-table">
-                  ${order.is_vat_applicable ? `
-                    <tr>
-                      <td colspan="3">Subtotal:</td>
-                      <td class="text-right">Rs ${subtotal.toFixed(2)}</td>
-                    </tr>
-                    <tr>
-                      <td colspan="3">VAT (18%):</td>
-                      <td class="text-right">Rs ${vatAmount.toFixed(2)}</td>
-                    </tr>
-                  ` : ''}
-                  <tr class="total-row">
-                    <td colspan="3">GRAND TOTAL:</td>
-                    <td class="text-right">Rs ${totalAmount.toFixed(2)}</td>
-                  </tr>
-                </table>
-              </div>
-
-              <div class="spacer"></div>
-
-              <div class="footer">
-                <div>Thank you for your business!</div>
-                <div>Weehena Farm - Quality Poultry Products</div>
-                <div>${new Date().toLocaleDateString('en-GB')} ${new Date().toLocaleTimeString('en-GB', { hour: '2-digit', minute: '2-digit' })}</div>
-              </div>
-
-              <div style="height: 20px;"></div>
-            </div>
-          </body>
-        </html>
-      `)
-      printWindow.document.close()
-
-      setTimeout(() => {
-        printWindow.focus()
-        printWindow.print()
-        setTimeout(() => {
-          printWindow.close()
-        }, 500)
-      }, 500)
-    } else {
-      alert('Please allow pop-ups to print the bill.')
+  const handlePrintBill = async (orderId: string, printWindow: Window) => {
+    try {
+      await showDocumentPdf(printWindow, 'sales_order', orderId, { archive: true })
+    } catch (error) {
+      console.error('Error printing bill:', error)
+      alert(error instanceof Error ? error.message : 'Failed to print the bill.')
     }
   }
 
   const handleSecurityCheck = async (orderId: string, status: 'completed' | 'incomplete') => {
-    if (!user || user.role !== 'Security Guard') return
+    if (!user || !can('orders.transition.security')) return
     
     if (status === 'incomplete') {
       if (selectedReasons.length === 0 && !securityNotes.trim()) {
@@ -862,7 +619,6 @@ export const SalesOrders: React.FC = () => {
       const securityStatus = status === 'completed' ? 'Security Checked' : 'Security Check Incomplete'
       
       const updateData: any = { 
-        security_check_status: status,
         status: securityStatus
       }
       
@@ -907,6 +663,7 @@ export const SalesOrders: React.FC = () => {
     setSelectedOrderItem(item)
     setReturnQuantity(1)
     setReturnReason('')
+    setReturnToQuarantine(false)
     setShowReturnModal(true)
   }
 
@@ -922,68 +679,54 @@ export const SalesOrders: React.FC = () => {
 
     setProcessingReturn(true)
     try {
-      const { data: currentOrderItem, error: fetchOrderItemError } = await supabase
-        .from('order_items')
-        .select('returned_quantity')
-        .eq('id', selectedOrderItem.id)
-        .single()
-
-      if (fetchOrderItemError) throw fetchOrderItemError
-
-      const currentReturnedQuantity = currentOrderItem?.returned_quantity || 0
-      const newReturnedQuantity = currentReturnedQuantity + returnQuantity
-
-      const { error: orderItemError } = await supabase
-        .from('order_items')
-        .update({ returned_quantity: newReturnedQuantity })
-        .eq('id', selectedOrderItem.id)
-
-      if (orderItemError) throw orderItemError
-
-      const { error: returnError } = await supabase
-        .from('order_returns')
-        .insert([{
-          order_item_id: selectedOrderItem.id,
-          returned_quantity: returnQuantity,
-          return_reason: returnReason.trim(),
-          returned_by: user.id,
-          returned_at: new Date().toISOString(),
-          sales_rep_id: user.id
-        }])
-      if (returnError) throw returnError
-
-      const { data: currentProduct, error: fetchProductError } = await supabase
-        .from('products')
-        .select('quantity')
-        .eq('id', selectedOrderItem.products.id)
-        .single()
-
-      if (fetchProductError) throw fetchProductError
-
-      const currentProductQuantity = currentProduct?.quantity || 0
-      const newProductQuantity = currentProductQuantity + returnQuantity
-
-      const { error: inventoryError } = await supabase
-        .from('products')
-        .update({ quantity: newProductQuantity })
-        .eq('id', selectedOrderItem.products.id)
-
-      if (inventoryError) throw inventoryError
-
-      alert('Return processed successfully!')
+      const creditNote = await processOrderReturn({
+        orderItemId: selectedOrderItem.id,
+        quantity: returnQuantity,
+        reason: returnReason,
+        quarantine: returnToQuarantine
+      })
+
+      alert(`Return processed successfully! Credit note ${creditNote.credit_note_no} issued for Rs ${Number(creditNote.total_amount).toFixed(2)}.`)
       setShowReturnModal(false)
       setSelectedOrderItem(null)
       setReturnQuantity(0)
       setReturnReason('')
+      setReturnToQuarantine(false)
       await fetchOrders()
+      if (selectedOrder) {
+        await loadCreditNotes(selectedOrder.id)
+      }
     } catch (error) {
       console.error('Error processing return:', error)
-      alert('Failed to process return. Please try again.')
+      alert(error instanceof Error ? error.message : 'Failed to process return. Please try again.')
     } finally {
       setProcessingReturn(false)
     }
   }
 
+  const loadCreditNotes = async (orderId: string) => {
+    try {
+      setOrderCreditNotes(await fetchOrderCreditNotes(orderId))
+    } catch (error) {
+      console.error('Error fetching credit notes:', error)
+      setOrderCreditNotes([])
+    }
+  }
+
+  const handlePrintCreditNote = async (creditNote: CreditNote) => {
+    const printWindow = openPrintWindow()
+    if (!printWindow) return
+
+    try {
+      const printCount = await recordCreditNotePrint(creditNote.id)
+      await showDocumentPdf(printWindow, 'credit_note', creditNote.id, { duplicate: printCount > 1, archive: printCount === 1 })
+    } catch (error) {
+      printWindow.close()
+      console.error('Error printing credit note:', error)
+      alert(error instanceof Error ? error.message : 'Failed to print credit note.')
+    }
+  }
+
   const openOrderModal = (order: Order) => {
     setSelectedOrder(order)
     setSecurityNotes(order.security_check_notes || '')
@@ -1160,7 +903,7 @@ export const SalesOrders: React.FC = () => {
               className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent"
             >
               <option value="all">All Statuses</option>
-              {['Pending', 'Assigned', 'Products Loaded', ...(user?.role !== 'Security Guard' ? ['Product Reloaded'] : []), 'Security Check Incomplete', 'Security Checked', 'Security Check Bypassed Due to Off Hours', 'Departed Farm', 'Delivered', 'Cancelled', 'Completed'].map(status => (
+              {ORDER_STATUSES.filter(status => can('orders.transition.delivery') || status !== 'Product Reloaded').map(status => (
                 <option key={status} value={status}>{status}</option>
               ))}
             </select>
@@ -1278,7 +1021,7 @@ export const SalesOrders: React.FC = () => {
                     <span className="text-gray-700 flex-1">Rs {(order.total_amount || getOrderTotal(order)).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</span>
                   </div>
                   
-                  {(user?.role === 'Finance Admin' || user?.role === 'Admin' || user?.role === 'Super Admin') && (
+                  {can('orders.view_payments') && (
                     <>
                       <div className="flex items-start">
                         <span className="text-gray-500 font-medium w-20 flex-shrink-0">Collected:</span>
@@ -1315,7 +1058,7 @@ export const SalesOrders: React.FC = () => {
                     <span className="text-gray-500 font-medium w-16 flex-shrink-0">Status:</span>
                     <select
                       value={order.status}
-                      onChange={(e) => handleUpdateOrderStatus(order.id, e.target.value as Order['status'])}
+                      onChange={(e) => handleUpdateOrderStatus(order.id, e.target.value as StatusOption)}
                       disabled={processing}
                       className="text-sm border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-1 focus:ring-red-500"
                     >
@@ -1326,7 +1069,7 @@ export const SalesOrders: React.FC = () => {
                       ))}
                     </select>
                   </div>
-                  {user?.role === 'Security Guard' && order.status === 'Security Check Incomplete' && isOffHoursSriLanka() && (
+                  {canTransition(statusTransitions, order.status, 'Security Check Bypassed Due to Off Hours', can) && isOffHoursSriLanka() && (
                     <div className="pt-2">
                       <button
                         onClick={() => handleBypassSecurityCheck(order.id)}
@@ -1356,7 +1099,7 @@ export const SalesOrders: React.FC = () => {
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Vehicle Number</th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Total Amount</th>
                   
-                  {(user?.role === 'Finance Admin' || user?.role === 'Admin' || user?.role === 'Super Admin') && (
+                  {can('orders.view_payments') && (
                     <>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Collected Amount</th>
                       <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Pending Balance</th>
@@ -1392,7 +1135,7 @@ export const SalesOrders: React.FC = () => {
                       Rs {(order.total_amount || getOrderTotal(order)).toFixed(2)}
                     </td>
                     
-                    {(user?.role === 'Finance Admin' || user?.role === 'Admin' || user?.role === 'Super Admin') && (
+                    {can('orders.view_payments') && (
                       <>
                         <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                           Rs {(order.collected_amount || 0).toFixed(2)}
@@ -1438,7 +1181,7 @@ export const SalesOrders: React.FC = () => {
 
                         <select
                           value={order.status}
-                          onChange={(e) => handleUpdateOrderStatus(order.id, e.target.value as Order['status'])}
+                          onChange={(e) => handleUpdateOrderStatus(order.id, e.target.value as StatusOption)}
                           disabled={processing}
                           className="text-sm border border-gray-300 rounded px-3 py-2 focus:outline-none focus:ring-1 focus:ring-red-500"
                         >
@@ -1449,7 +1192,7 @@ export const SalesOrders: React.FC = () => {
                           ))}
                         </select>
 
-                        {user?.role === 'Security Guard' && order.status === 'Security Check Incomplete' && isOffHoursSriLanka() && (
+                        {canTransition(statusTransitions, order.status, 'Security Check Bypassed Due to Off Hours', can) && isOffHoursSriLanka() && (
                           <button
                             onClick={() => handleBypassSecurityCheck(order.id)}
                             disabled={processing}
@@ -1517,12 +1260,28 @@ export const SalesOrders: React.FC = () => {
                   </>
                 )}
                 <p>Customer VAT Status: {selectedOrder.customers.vat_status || 'Not specified'}</p>
+                {selectedOrder.is_vat_applicable && (selectedOrder.status === 'Delivered' || selectedOrder.status === 'Completed') && (
+                  <button
+                    onClick={() => handlePrintTaxInvoice(selectedOrder)}
+                    disabled={printingTaxInvoice || !isOnline}
+                    className="mt-2 flex items-center px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 transition-colors disabled:opacity-50"
+                  >
+                    <FileText className="w-4 h-4 mr-1" />
+                    {printingTaxInvoice ? 'Preparing...' : 'Print Tax Invoice'}
+                  </button>
+                )}
               </div>
               <div className="mt-3 p-3 bg-gray-50 rounded-lg">
                 <h4 className="font-semibold mb-2">Payment Information</h4>
                 <p>Total Amount: Rs {(selectedOrder.total_amount || getOrderTotal(selectedOrder)).toFixed(2)}</p>
                 <p>Collected Amount: Rs {(selectedOrder.collected_amount || 0).toFixed(2)}</p>
-                <p>Pending Balance: Rs {getPendingBalance(selectedOrder).toFixed(2)}</p>
+                {orderCreditNotes.length > 0 && (
+                  <p>Credited (returns): Rs {orderCreditNotes.reduce((sum, creditNote) => sum + Number(creditNote.total_amount), 0).toFixed(2)}</p>
+                )}
+                <p>Pending Balance: Rs {Math.max(
+                  getPendingBalance(selectedOrder) - orderCreditNotes.reduce((sum, creditNote) => sum + Number(creditNote.total_amount), 0),
+                  0
+                ).toFixed(2)}</p>
                 <p>Payment Status: 
                   <span className={`ml-2 inline-flex items-center px-2 py-1 rounded text-xs font-medium ${
                     selectedOrder.payment_status === 'fully_paid' ? 'bg-green-100 text-green-800' :
@@ -1557,6 +1316,11 @@ export const SalesOrders: React.FC = () => {
               {renderSecurityCheckNotes(selectedOrder.security_check_notes)}
             </div>
 
+            <div className="mb-4">
+              <h3 className="font-semibold mb-2">Status Timeline</h3>
+              <OrderStatusTimeline orderId={selectedOrder.id} />
+            </div>
+
             <div className="mb-4">
               <h3 className="font-semibold mb-2">Order Items</h3>
               <div className="space-y-2">
@@ -1574,7 +1338,7 @@ export const SalesOrders: React.FC = () => {
                       </div>
                     </div>
                     <div className="flex items-center space-x-2">
-                      {user?.role === 'Sales Rep' && (
+                      {can('orders.returns') && ['Delivered', 'Completed'].includes(selectedOrder.status) && (
                         <button
                           onClick={() => handleOpenReturnModal(item)}
                           className="px-4 py-2 bg-orange-500 text-white rounded hover:bg-orange-600"
@@ -1588,7 +1352,41 @@ export const SalesOrders: React.FC = () => {
               </div>
             </div>
 
-            {user?.role === 'Security Guard' && selectedOrder.status === 'Security Check Incomplete' && isOffHoursSriLanka() && (
+            {orderCreditNotes.length > 0 && (
+              <div className="mb-4">
+                <h3 className="font-semibold mb-2">Credit Notes</h3>
+                <div className="space-y-2">
+                  {orderCreditNotes.map(creditNote => (
+                    <div key={creditNote.id} className="flex justify-between items-center p-3 bg-orange-50 rounded-lg">
+                      <div>
+                        <div className="font-medium">
+                          {creditNote.credit_note_no}
+                          {creditNote.disposition === 'quarantine' && (
+                            <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-yellow-100 text-yellow-800">Quarantined</span>
+                          )}
+                        </div>
+                        <div className="text-sm text-gray-500">
+                          {creditNote.product_name} × {creditNote.quantity} kg • {new Date(creditNote.issued_at).toLocaleDateString()}
+                        </div>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        <span className="font-medium text-orange-700">- Rs {Number(creditNote.total_amount).toFixed(2)}</span>
+                        <button
+                          onClick={() => handlePrintCreditNote(creditNote)}
+                          disabled={!isOnline}
+                          className="text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                          title="Print credit note"
+                        >
+                          <FileText className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {canTransition(statusTransitions, selectedOrder.status, 'Security Check Bypassed Due to Off Hours', can) && isOffHoursSriLanka() && (
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <button
                   onClick={() => handleBypassSecurityCheck(selectedOrder.id)}
@@ -1687,7 +1485,7 @@ export const SalesOrders: React.FC = () => {
               </button>
             </div>
 
-            {user?.role === 'Security Guard' && isOffHoursSriLanka() && (
+            {can('orders.transition.security') && isOffHoursSriLanka() && (
               <div className="mt-4 pt-4 border-t border-gray-200">
                 <button
                   onClick={() => {
@@ -1743,9 +1541,19 @@ export const SalesOrders: React.FC = () => {
               placeholder="Please explain why you are returning this product..."
             />
 
+            <label className="flex items-center space-x-2 mb-3 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={returnToQuarantine}
+                onChange={(e) => setReturnToQuarantine(e.target.checked)}
+                className="rounded border-gray-300 text-orange-600 focus:ring-orange-500"
+              />
+              <span>Damaged - send to quarantine instead of back to stock</span>
+            </label>
+
             <div className="flex space-x-2">
               <button onClick={() => setShowReturnModal(false)} className="flex-1 py-2 bg-gray-200 rounded hover:bg-gray-300">Cancel</button>
-              <button onClick={handleProcessReturn} className="flex-1 py-2 bg-orange-600 text-white rounded hover:bg-orange-700">
+              <button onClick={handleProcessReturn} disabled={processingReturn} className="flex-1 py-2 bg-orange-600 text-white rounded hover:bg-orange-700 disabled:opacity-50">
                 {processingReturn ? 'Processing...' : 'Process Return'}
               </button>
             </div>
@@ -0,0 +1,312 @@
+import React, { useState, useEffect } from 'react'
+import { X, CalendarClock, Save, Trash2 } from 'lucide-react'
+import { supabase, Category, ScheduledPriceChange } from '../lib/supabase'
+import { useAuth } from '../hooks/useAuth'
+import {
+  cancelScheduledPriceChange,
+  colomboDate,
+  fetchPendingPriceChanges,
+  resolveScheduledPrices,
+  schedulePriceChanges,
+  PRICE_FIELDS,
+  PRICE_FIELD_LABELS
+} from '../lib/priceService'
+
+interface ScheduledPriceChangesModalProps {
+  onClose: () => void
+  onChanged: () => void
+}
+
+const getTomorrow = () => colomboDate(1)
+
+export const ScheduledPriceChangesModal: React.FC<ScheduledPriceChangesModalProps> = ({
+  onClose,
+  onChanged
+}) => {
+  const { user } = useAuth()
+  const [pendingChanges, setPendingChanges] = useState<ScheduledPriceChange[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [bulkForm, setBulkForm] = useState({
+    category_id: '',
+    percent_change: '',
+    effective_date: getTomorrow(),
+    notes: ''
+  })
+
+  useEffect(() => {
+    loadPendingChanges()
+    fetchCategories()
+  }, [])
+
+  const loadPendingChanges = async () => {
+    setLoading(true)
+    try {
+      setPendingChanges(await fetchPendingPriceChanges())
+    } catch (error) {
+      console.error('Error fetching scheduled price changes:', error)
+      setPendingChanges([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchCategories = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('categories')
+        .select('category_id, category_name, status')
+        .eq('status', true)
+        .order('category_name')
+
+      if (error) throw error
+      setCategories(data || [])
+    } catch (error) {
+      console.error('Error fetching categories:', error)
+      setCategories([])
+    }
+  }
+
+  const handleScheduleForCategory = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const percentChange = parseFloat(bulkForm.percent_change)
+    if (!bulkForm.category_id) {
+      alert('Please select a category')
+      return
+    }
+    if (isNaN(percentChange) || percentChange === 0) {
+      alert('Please enter a non-zero percentage change')
+      return
+    }
+    if (bulkForm.effective_date < getTomorrow()) {
+      alert('Effective date must be in the future')
+      return
+    }
+
+    setSaving(true)
+    try {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, name, price_dealer_cash, price_dealer_credit, price_hotel_cash, price_hotel_credit')
+        .eq('category_id', bulkForm.category_id)
+
+      if (error) throw error
+      if (!data || data.length === 0) {
+        alert('No products found in the selected category')
+        return
+      }
+
+      // Base the new prices on whatever will be active on the effective date,
+      // so an earlier scheduled change is not silently undone
+      const baseProducts = await resolveScheduledPrices(data, bulkForm.effective_date)
+      const factor = 1 + percentChange / 100
+
+      const changes = baseProducts.map(product => {
+        const prices: Record<string, number> = {}
+        for (const field of PRICE_FIELDS) {
+          prices[field] = Math.round((product[field] || 0) * factor * 100) / 100
+        }
+        return {
+          productId: product.id,
+          prices,
+          effectiveDate: bulkForm.effective_date,
+          categoryId: bulkForm.category_id,
+          notes: bulkForm.notes.trim() || `${percentChange > 0 ? '+' : ''}${percentChange}% category price revision`
+        }
+      })
+
+      const invalid = changes.find(change => Object.values(change.prices).some(price => price <= 0))
+      if (invalid) {
+        alert('This change would make one or more prices zero or negative. Please adjust the percentage.')
+        return
+      }
+
+      if (!confirm(`Schedule a ${percentChange}% price change for ${changes.length} product(s) effective ${bulkForm.effective_date}?`)) {
+        return
+      }
+
+      await schedulePriceChanges(changes, user?.id)
+
+      alert('Price changes scheduled successfully!')
+      setBulkForm({ category_id: '', percent_change: '', effective_date: getTomorrow(), notes: '' })
+      await loadPendingChanges()
+      onChanged()
+    } catch (error) {
+      console.error('Error scheduling price changes:', error)
+      alert('Failed to schedule price changes. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleCancelChange = async (change: ScheduledPriceChange) => {
+    if (!confirm(`Cancel the scheduled price change for ${change.products?.name || 'this product'} effective ${change.effective_date}?`)) {
+      return
+    }
+
+    try {
+      await cancelScheduledPriceChange(change.id, user?.id)
+      await loadPendingChanges()
+      onChanged()
+    } catch (error) {
+      console.error('Error cancelling scheduled price change:', error)
+      alert('Failed to cancel scheduled price change. Please try again.')
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <CalendarClock className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Scheduled Price Changes
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto space-y-6">
+          {/* Bulk schedule per category */}
+          <form onSubmit={handleScheduleForCategory} className="p-4 bg-gray-50 rounded-lg space-y-4">
+            <h4 className="text-sm font-semibold text-gray-900">Schedule a category price revision</h4>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  value={bulkForm.category_id}
+                  onChange={(e) => setBulkForm({ ...bulkForm, category_id: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                >
+                  <option value="">Select category</option>
+                  {categories.map(category => (
+                    <option key={category.category_id} value={category.category_id}>
+                      {category.category_name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Change (%)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  value={bulkForm.percent_change}
+                  onChange={(e) => setBulkForm({ ...bulkForm, percent_change: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                  placeholder="e.g. 5 or -2.5"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Effective Date</label>
+                <input
+                  type="date"
+                  min={getTomorrow()}
+                  value={bulkForm.effective_date}
+                  onChange={(e) => setBulkForm({ ...bulkForm, effective_date: e.target.value })}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Notes</label>
+              <input
+                type="text"
+                value={bulkForm.notes}
+                onChange={(e) => setBulkForm({ ...bulkForm, notes: e.target.value })}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-red-500"
+                placeholder="Optional, e.g. reference to the dealer announcement"
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              All four tier prices of every product in the category change by this percentage on the effective date.
+            </p>
+            <div className="flex justify-end">
+              <button
+                type="submit"
+                disabled={saving}
+                className="flex items-center px-4 py-2 bg-red-600 text-white text-sm rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-2" />
+                {saving ? 'Scheduling...' : 'Schedule'}
+              </button>
+            </div>
+          </form>
+
+          {/* Pending changes */}
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-3">Pending changes</h4>
+            {loading ? (
+              <div className="flex items-center justify-center h-24">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+              </div>
+            ) : pendingChanges.length === 0 ? (
+              <p className="text-sm text-gray-500 italic text-center py-6">No scheduled price changes.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Product</th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Effective</th>
+                      {PRICE_FIELDS.map(field => (
+                        <th key={field} className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">
+                          {PRICE_FIELD_LABELS[field]}
+                        </th>
+                      ))}
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Scheduled By</th>
+                      <th className="px-4 py-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {pendingChanges.map(change => (
+                      <tr key={change.id} className="hover:bg-gray-50">
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          <div className="font-medium">{change.products?.name || 'Unknown'}</div>
+                          {change.notes && <div className="text-xs text-gray-500">{change.notes}</div>}
+                        </td>
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{change.effective_date}</td>
+                        {PRICE_FIELDS.map(field => (
+                          <td key={field} className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">
+                            {change[field] !== null ? Number(change[field]).toFixed(2) : '-'}
+                          </td>
+                        ))}
+                        <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{change.created_by_user?.username || 'Unknown'}</td>
+                        <td className="px-4 py-2 whitespace-nowrap text-right">
+                          <button
+                            onClick={() => handleCancelChange(change)}
+                            className="text-red-600 hover:text-red-800 transition-colors"
+                            title="Cancel scheduled change"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -3,6 +3,7 @@ import React, { useState, useEffect } from 'react'
 import { Search, Eye, Calendar, User, Filter, FileText } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermission'
 import { useNavigate } from 'react-router-dom'
 
 interface Order {
@@ -27,6 +28,8 @@ interface UserType {
 
 export const SecurityCheckIncompleteOrders: React.FC = () => {
   const { user } = useAuth()
+  const { can } = usePermissions()
+  const canReview = can('orders.security_review')
   const navigate = useNavigate()
   const [incompleteOrders, setIncompleteOrders] = useState<Order[]>([])
   const [loading, setLoading] = useState(true)
@@ -37,11 +40,11 @@ export const SecurityCheckIncompleteOrders: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('')
 
   useEffect(() => {
-    if (user?.role === 'Super Admin' || user?.role === 'Admin') {
+    if (canReview) {
       fetchIncompleteOrders()
       fetchSalesReps()
     }
-  }, [user, startDateFilter, endDateFilter, salesRepFilter])
+  }, [user, canReview, startDateFilter, endDateFilter, salesRepFilter])
 
   const fetchSalesReps = async () => {
     try {
@@ -157,13 +160,13 @@ export const SecurityCheckIncompleteOrders: React.FC = () => {
     return filtered
   }
 
-  if (!['Super Admin', 'Admin'].includes(user?.role)) {
+  if (!canReview) {
     return (
       <div className="p-6">
         <div className="text-center py-12">
           <Filter className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Only Super Admins and Admins can view security check incomplete orders.</p>
+          <p className="text-gray-600">You do not have permission to view security check incomplete orders.</p>
         </div>
       </div>
     )
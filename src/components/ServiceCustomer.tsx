@@ -1,17 +1,31 @@
 import React, { useState, useEffect } from 'react'
-import { ArrowRight, ShoppingCart, Receipt, Check, Search, Package } from 'lucide-react'
-import { supabase, Customer, Product, User, Vehicle } from '../lib/supabase'
+import { ArrowRight, ShoppingCart, Receipt, Check, Search, Package, AlertTriangle } from 'lucide-react'
+import { supabase, CreditOverride, Customer, CustomerCreditStatus, PriceBand, Product, User, Vehicle } from '../lib/supabase'
 import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermission'
+import { createSalesOrder } from '../lib/orderService'
+import { resolveScheduledPrices } from '../lib/priceService'
+import { fetchCustomerPriceMap, getTierPrice, CustomerPriceMap } from '../lib/priceListService'
+import { describeBand, fetchPriceBands, isWithinBand, redeemPriceOverrideCode, requestPriceOverride, resolvePriceBand } from '../lib/priceBandService'
+import { PriceOverrideApproval } from './PriceOverrideApproval'
+import {
+  evaluateCreditCheck,
+  fetchActiveCreditOverride,
+  fetchCustomerCreditStatuses
+} from '../lib/receivablesService'
 
 interface CartItem {
   product: Product
   quantity: number
   selectedPrice: number
   isCustomPrice: boolean // New field to track if price was manually edited
+  priceOverrideRequestId?: string // Set once the rep has asked a manager to approve an over-band price
+  priceOverrideId?: string // Set once a manager's code has approved an over-band price
 }
 
 export const ServiceCustomer: React.FC = () => {
   const { user } = useAuth()
+  const { can } = usePermissions()
   const [step, setStep] = useState(1) // 1: Select Customer, 2: Add Products, 3: Review Order
   const [customers, setCustomers] = useState<Customer[]>([])
   const [products, setProducts] = useState<Product[]>([])
@@ -34,6 +48,10 @@ export const ServiceCustomer: React.FC = () => {
   const [isSalesRepsFromCache, setIsSalesRepsFromCache] = useState(false)
   const [isVehiclesFromCache, setIsVehiclesFromCache] = useState(false)
   const [vatRate, setVatRate] = useState(0.18); // Default to 0.18, will be fetched
+  const [customerPrices, setCustomerPrices] = useState<CustomerPriceMap>(new Map())
+  const [creditStatus, setCreditStatus] = useState<CustomerCreditStatus | null>(null)
+  const [creditOverride, setCreditOverride] = useState<CreditOverride | null>(null)
+  const [priceBands, setPriceBands] = useState<PriceBand[]>([])
 
   // Remove hardcoded VAT_RATE constant
 
@@ -44,6 +62,12 @@ export const ServiceCustomer: React.FC = () => {
     fetchSalesReps()
     fetchVehicles()
     fetchVatRate() // Fetch VAT rate on mount
+    fetchPriceBands()
+      .then(setPriceBands)
+      .catch(error => {
+        console.error('Error fetching price bands:', error)
+        setPriceBands([])
+      })
   }, []) // Empty dependency array to run once on mount
 
   const fetchVatRate = async () => {
@@ -100,7 +124,7 @@ export const ServiceCustomer: React.FC = () => {
       const { data, error } = await supabase
         .from('products')
         .select(`
-          id, name, quantity, sku,
+          id, name, quantity, sku, category_id,
           price_dealer_cash,
           price_dealer_credit,
           price_hotel_cash,
@@ -111,9 +135,12 @@ export const ServiceCustomer: React.FC = () => {
 
       if (error) throw error
 
+      // Use the tier prices active on the order date, including scheduled changes
+      const pricedProducts = await resolveScheduledPrices<Product>(data || [])
+
       // Save to cache and update state
-      localStorage.setItem(cacheKey, JSON.stringify(data))
-      setProducts(data || [])
+      localStorage.setItem(cacheKey, JSON.stringify(pricedProducts))
+      setProducts(pricedProducts)
     } catch (error) {
       console.error('Error fetching products:', error)
       // Fallback to cache only if database fetch fails
@@ -191,17 +218,32 @@ export const ServiceCustomer: React.FC = () => {
     }
   }
 
+  // Price list / contract price first, then the tier columns
   const getCalculatedPrice = (product: Product, customerCategory: string, customerType: string): number => {
-    if (customerCategory === 'Dealer') {
-      return customerType === 'Cash' ? product.price_dealer_cash : product.price_dealer_credit;
-    } else if (customerCategory === 'Hotel') {
-      return customerType === 'Cash' ? product.price_hotel_cash : product.price_hotel_credit;
-    }
-    // Fallback, though customerCategory should always be one of the defined types
-    return product.price_dealer_cash; // Or any other default
+    const listPrice = customerPrices.get(product.id);
+    if (listPrice !== undefined) return listPrice;
+    return getTierPrice(product, customerCategory, customerType);
   };
 
-  const handleCustomerSelect = (customer: Customer) => {
+  const handleCustomerSelect = async (customer: Customer) => {
+    try {
+      setCustomerPrices(await fetchCustomerPriceMap(customer))
+    } catch (error) {
+      console.error('Error fetching customer price lists:', error)
+      setCustomerPrices(new Map())
+    }
+    try {
+      const [statuses, override] = await Promise.all([
+        fetchCustomerCreditStatuses(customer.id),
+        fetchActiveCreditOverride(customer.id)
+      ])
+      setCreditStatus(statuses[0] || null)
+      setCreditOverride(override)
+    } catch (error) {
+      console.error('Error fetching customer credit status:', error)
+      setCreditStatus(null)
+      setCreditOverride(null)
+    }
     setSelectedCustomer(customer)
     setStep(2)
   }
@@ -261,12 +303,54 @@ export const ServiceCustomer: React.FC = () => {
         ? { 
             ...item, 
             selectedPrice: newPrice,
-            isCustomPrice: true // Mark as custom price when manually edited
+            isCustomPrice: true, // Mark as custom price when manually edited
+            priceOverrideRequestId: undefined,
+            priceOverrideId: undefined
           }
         : item
     ));
   }
 
+  // Custom prices must sit inside the product's selling band unless a manager approved them
+  const getPriceError = (item: CartItem): string | undefined => {
+    if (!selectedCustomer || !item.isCustomPrice || item.priceOverrideId) return undefined
+    if (item.selectedPrice === getCalculatedPrice(item.product, selectedCustomer.customer_category, selectedCustomer.type)) return undefined
+    const band = resolvePriceBand(item.product, priceBands)
+    if (item.selectedPrice > 0 && isWithinBand(item.selectedPrice, band)) return undefined
+    return `Outside the allowed band (${describeBand(band)}). Request approval from a manager.`
+  }
+
+  const handleRequestPrice = async (item: CartItem) => {
+    const request = await requestPriceOverride({
+      productId: item.product.id,
+      customerId: selectedCustomer?.id || null,
+      context: 'sales_order',
+      price: item.selectedPrice
+    })
+
+    setCart(prev => prev.map(cartItem =>
+      cartItem.product.id === item.product.id && cartItem.selectedPrice === item.selectedPrice
+        ? { ...cartItem, priceOverrideRequestId: request.id }
+        : cartItem
+    ))
+  }
+
+  const handleApprovePrice = async (item: CartItem, code: string) => {
+    const override = await redeemPriceOverrideCode({
+      code,
+      productId: item.product.id,
+      customerId: selectedCustomer?.id || null,
+      context: 'sales_order',
+      price: item.selectedPrice
+    })
+
+    setCart(prev => prev.map(cartItem =>
+      cartItem.product.id === item.product.id && cartItem.selectedPrice === item.selectedPrice
+        ? { ...cartItem, priceOverrideId: override.id }
+        : cartItem
+    ))
+  }
+
   // Effect to auto-fill vehicle input when sales rep changes
   useEffect(() => {
     if (selectedSalesRep) {
@@ -331,6 +415,22 @@ export const ServiceCustomer: React.FC = () => {
       return
     }
 
+    const unapprovedItem = cart.find(item => getPriceError(item))
+    if (unapprovedItem) {
+      alert(`The price for ${unapprovedItem.product.name} is outside its allowed band and needs a manager approval code.`)
+      return
+    }
+
+    const creditCheck = evaluateCreditCheck(creditStatus, getTotalAmount())
+    const onCreditHold = creditCheck.overLimit || creditCheck.overdue
+    if (onCreditHold && !creditOverride) {
+      alert(`This customer is on credit hold:\n\n${creditCheck.reasons.join('\n')}\n\nA Finance Admin must approve an override in Receivables before this order can be placed.`)
+      return
+    }
+    if (!onCreditHold && creditCheck.nearLimit && !confirm(`${creditCheck.reasons.join('\n')}\n\nContinue with this order?`)) {
+      return
+    }
+
     setLoading(true)
     try {
       // Test database connection first
@@ -351,69 +451,29 @@ export const ServiceCustomer: React.FC = () => {
         throw connectionError
       }
 
-      const finalVehicleNumber = vehicleInputText.trim() || null; // Use the text input directly
-
-      // Calculate VAT details
-      const subtotal = getSubtotal();
-      const vatAmount = getVatAmount();
-      const finalTotalAmount = getTotalAmount();
-      const isVatApplicable = selectedCustomer?.vat_status === 'VAT';
-
-      // Create order with status logic
-      const { data: order, error: orderError } = await supabase
-        .from('orders')
-        .insert([{
-          customer_id: selectedCustomer.id,
-          status: 'Assigned',
-          purchase_order_id: requestId.trim() || null,
-          created_by: user.id,
-          assigned_to: selectedSalesRep,
-          vehicle_number: finalVehicleNumber, // Use the vehicle number from the selected vehicle
-          delivery_date: deliveryDate,
-          total_amount: finalTotalAmount, // New
-          vat_amount: vatAmount, // New
-          is_vat_applicable: isVatApplicable, // New
-        }])
-        .select()
-        .single()
-
-      if (orderError) {
-        console.error('Order creation error:', orderError)
-        if (orderError.message.includes('row-level security policy')) {
-          throw new Error('Permission denied. Please ensure you have the necessary permissions to create orders.')
-        }
-        throw orderError
-      }
-
-      // Create order items
-      const orderItems = cart.map(item => ({
-        order_id: order.id,
-        item_id: item.product.id,
-        quantity: item.quantity,
-        price: item.selectedPrice, // This will use the custom price if set
-        discount: 0
-      }))
-
-      const { error: itemsError } = await supabase
-        .from('order_items')
-        .insert(orderItems)
-
-      if (itemsError) throw itemsError
-
-      // Update product quantities
-      for (const item of cart) {
-        const { error: updateError } = await supabase
-          .from('products')
-          .update({ quantity: item.product.quantity - item.quantity })
-          .eq('id', item.product.id)
-
-        if (updateError) throw updateError
-      }
+      // Order, items, stock decrement and any credit override are handled atomically on the server;
+      // it refuses the order if the customer is on credit hold without an override
+      await createSalesOrder({
+        customerId: selectedCustomer.id,
+        assignedTo: selectedSalesRep,
+        items: cart.map(item => ({
+          productId: item.product.id,
+          quantity: item.quantity,
+          price: item.selectedPrice, // This will use the custom price if set
+          discount: 0,
+          overrideId: item.priceOverrideId
+        })),
+        vehicleNumber: vehicleInputText.trim() || null, // Use the text input directly
+        deliveryDate: deliveryDate,
+        purchaseOrderId: requestId.trim() || null
+      })
 
       alert('Order created successfully!')
 
       // Reset state
       setSelectedCustomer(null)
+      setCreditStatus(null)
+      setCreditOverride(null)
       setCart([])
       setSelectedSalesRep('')
       setVehicleInputText('')
@@ -424,7 +484,7 @@ export const ServiceCustomer: React.FC = () => {
       fetchProducts()
     } catch (error) {
       console.error('Error finalizing order:', error)
-      alert('Failed to complete order. Please try again.')
+      alert(error instanceof Error ? `Failed to complete order: ${error.message}` : 'Failed to complete order. Please try again.')
     } finally {
       setLoading(false)
     }
@@ -433,6 +493,8 @@ export const ServiceCustomer: React.FC = () => {
   const resetFlow = () => {
     setStep(1)
     setSelectedCustomer(null)
+    setCreditStatus(null)
+    setCreditOverride(null)
     setCart([])
     setSelectedSalesRep('') // Keep this for sales rep dropdown
     setVehicleInputText('')
@@ -522,7 +584,7 @@ export const ServiceCustomer: React.FC = () => {
           </div>
         )}
 
-        {user?.role === 'Admin' || user?.role === 'Super Admin' ? (
+        {can('customers.view') ? (
           <div className="bg-white rounded-lg shadow p-6">
             <h2 className="text-lg font-semibold mb-4">Select Customer</h2>
             {/* Search Input */}
@@ -869,6 +931,20 @@ export const ServiceCustomer: React.FC = () => {
                           )}
                         </div>
                       </div>
+
+                      {getPriceError(item) && (
+                        <div className="space-y-1">
+                          <div className="text-xs text-red-600">{getPriceError(item)}</div>
+                          <PriceOverrideApproval
+                            requested={!!item.priceOverrideRequestId}
+                            onRequest={() => handleRequestPrice(item)}
+                            onApprove={(code) => handleApprovePrice(item, code)}
+                          />
+                        </div>
+                      )}
+                      {item.priceOverrideId && (
+                        <div className="text-xs text-yellow-700">Price approved by manager</div>
+                      )}
                       
                       {/* Item Total */}
                       <div className="flex justify-between items-center text-sm font-medium">
@@ -982,7 +1058,7 @@ export const ServiceCustomer: React.FC = () => {
 
                 <button
                   onClick={() => setStep(3)}
-                  disabled={cart.length === 0 || !selectedSalesRep}
+                  disabled={cart.length === 0 || !selectedSalesRep || cart.some(item => getPriceError(item))}
                   className="w-full mt-4 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-300 disabled:cursor-not-allowed transition-colors"
                 >
                   Review Order
@@ -996,6 +1072,9 @@ export const ServiceCustomer: React.FC = () => {
   }
 
   if (step === 3) {
+    const creditCheck = evaluateCreditCheck(creditStatus, getTotalAmount())
+    const onCreditHold = creditCheck.overLimit || creditCheck.overdue
+
     return (
       <div className="p-6">
         <div className="flex items-center justify-between mb-6">
@@ -1139,6 +1218,31 @@ export const ServiceCustomer: React.FC = () => {
             </div>
           </div>
 
+          {creditCheck.reasons.length > 0 && (
+            <div className={`mb-6 p-4 rounded-lg border ${
+              onCreditHold ? 'bg-red-50 border-red-200' : 'bg-yellow-50 border-yellow-200'
+            }`}>
+              <div className="flex items-center mb-2">
+                <AlertTriangle className={`w-4 h-4 mr-2 ${onCreditHold ? 'text-red-600' : 'text-yellow-600'}`} />
+                <strong className={onCreditHold ? 'text-red-800' : 'text-yellow-800'}>
+                  {onCreditHold ? 'Credit hold' : 'Approaching credit limit'}
+                </strong>
+              </div>
+              <ul className={`text-sm list-disc ml-6 ${onCreditHold ? 'text-red-700' : 'text-yellow-700'}`}>
+                {creditCheck.reasons.map(reason => (
+                  <li key={reason}>{reason}</li>
+                ))}
+              </ul>
+              {onCreditHold && (
+                <p className="text-sm mt-2 text-gray-700">
+                  {creditOverride
+                    ? `Override approved by ${creditOverride.approved_by_user?.username || 'Finance'}: ${creditOverride.reason}`
+                    : 'A Finance Admin must approve an override in Receivables before this order can be placed.'}
+                </p>
+              )}
+            </div>
+          )}
+
           <div className="flex space-x-4">
             <button
               onClick={() => setStep(2)}
@@ -0,0 +1,137 @@
+import React, { useState, useEffect } from 'react'
+import { X, History } from 'lucide-react'
+import { Product, StockMovement } from '../lib/supabase'
+import { fetchStockMovements, STOCK_MOVEMENT_LABELS } from '../lib/stockService'
+
+interface StockMovementHistoryModalProps {
+  product: Product
+  onClose: () => void
+}
+
+export const StockMovementHistoryModal: React.FC<StockMovementHistoryModalProps> = ({
+  product,
+  onClose
+}) => {
+  const [movements, setMovements] = useState<StockMovement[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadMovements = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const data = await fetchStockMovements(product.id)
+        setMovements(data)
+      } catch (err) {
+        console.error('Error fetching stock movements:', err)
+        setError('Failed to load stock movement history.')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadMovements()
+  }, [product.id])
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString('en-US', {
+      month: 'short',
+      day: '2-digit',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hour12: false
+    })
+  }
+
+  const formatReference = (movement: StockMovement) => {
+    if (movement.reference_no) return movement.reference_no
+    if (movement.reference_id) return `${movement.reference_type || 'ref'} ${movement.reference_id.slice(0, 8)}`
+    return '-'
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <History className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">
+              Stock Movement History
+            </h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          <div className="mb-4">
+            <h4 className="text-sm font-medium text-gray-900 mb-1">Product: {product.name}</h4>
+            <p className="text-xs text-gray-500">SKU: {product.sku} | Current stock: {product.quantity} kg</p>
+          </div>
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : error ? (
+            <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          ) : movements.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center py-8">
+              No stock movements recorded for this product yet.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Date</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Type</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Change (kg)</th>
+                    <th className="px-4 py-2 text-right text-xs font-medium text-gray-500 uppercase tracking-wider">Balance (kg)</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Reference</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {movements.map((movement) => (
+                    <tr key={movement.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{formatDate(movement.created_at)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-900">{STOCK_MOVEMENT_LABELS[movement.movement_type] || movement.movement_type}</td>
+                      <td className={`px-4 py-2 whitespace-nowrap text-sm text-right font-medium ${
+                        movement.quantity_delta >= 0 ? 'text-green-600' : 'text-red-600'
+                      }`}>
+                        {movement.quantity_delta > 0 ? '+' : ''}{movement.quantity_delta}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-right text-gray-900">{movement.balance_after}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{formatReference(movement)}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{movement.created_by_user?.username || 'System'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-500">{movement.notes || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 hover:text-gray-800 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react'
+import { Check, X, Inbox } from 'lucide-react'
+import { OnDemandAssignment } from '../lib/supabase'
+import { approveStockRequest, fetchPendingStockRequests, rejectStockRequest } from '../lib/onDemandService'
+
+interface StockRequestQueueProps {
+  onReviewed: () => void
+}
+
+// Sales rep stock requests waiting for approval. Quantities can be changed before approving;
+// stock is taken out of inventory only when a request is approved.
+export const StockRequestQueue: React.FC<StockRequestQueueProps> = ({ onReviewed }) => {
+  const [requests, setRequests] = useState<OnDemandAssignment[]>([])
+  const [quantities, setQuantities] = useState<Record<string, string>>({})
+  const [reviewNotes, setReviewNotes] = useState<Record<string, string>>({})
+  const [workingId, setWorkingId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    loadRequests()
+  }, [])
+
+  const loadRequests = async () => {
+    try {
+      setRequests(await fetchPendingStockRequests())
+    } catch (err) {
+      console.error('Error fetching stock requests:', err)
+      setRequests([])
+    }
+  }
+
+  const approvedQuantity = (itemId: string, requested: number) =>
+    quantities[itemId] === undefined ? requested : parseFloat(quantities[itemId])
+
+  const handleApprove = async (request: OnDemandAssignment) => {
+    const items = (request.assignment_items || []).map(item => ({
+      assignmentItemId: item.id,
+      quantity: approvedQuantity(item.id, item.assigned_quantity)
+    }))
+
+    if (items.some(item => isNaN(item.quantity) || item.quantity < 0)) {
+      setError('Approved quantities must be 0 or more.')
+      return
+    }
+    if (items.every(item => item.quantity === 0)) {
+      setError('Approve at least one product, or reject the request.')
+      return
+    }
+
+    const changed = (request.assignment_items || []).some(item =>
+      approvedQuantity(item.id, item.assigned_quantity) !== Number(item.requested_quantity ?? item.assigned_quantity)
+    )
+    if (changed && !reviewNotes[request.id]?.trim()) {
+      setError(`Add a note for ${request.sales_rep?.username || 'the rep'} explaining the changed quantities.`)
+      return
+    }
+
+    setWorkingId(request.id)
+    setError(null)
+    try {
+      await approveStockRequest(request.id, items, reviewNotes[request.id])
+      await loadRequests()
+      onReviewed()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to approve request.')
+    } finally {
+      setWorkingId(null)
+    }
+  }
+
+  const handleReject = async (request: OnDemandAssignment) => {
+    const reason = reviewNotes[request.id]?.trim() || prompt('Reason for rejecting this request:')?.trim()
+    if (!reason) return
+
+    setWorkingId(request.id)
+    setError(null)
+    try {
+      await rejectStockRequest(request.id, reason)
+      await loadRequests()
+      onReviewed()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to reject request.')
+    } finally {
+      setWorkingId(null)
+    }
+  }
+
+  if (requests.length === 0) return null
+
+  return (
+    <div className="bg-white rounded-lg shadow p-4 mb-6">
+      <div className="flex items-center space-x-2 mb-3">
+        <Inbox className="w-5 h-5 text-gray-600" />
+        <h3 className="text-sm font-semibold text-gray-900">Stock Requests ({requests.length})</h3>
+      </div>
+
+      {error && (
+        <div className="text-red-600 text-sm bg-red-50 p-3 rounded-lg mb-3">
+          {error}
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {requests.map(request => (
+          <div key={request.id} className="border border-gray-200 rounded-lg p-3">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 mb-2 text-sm">
+              <div className="font-medium text-gray-900">
+                {request.sales_rep?.username || 'Unknown'}
+                {request.vehicle_number && <span className="text-gray-500 font-normal"> - {request.vehicle_number}</span>}
+              </div>
+              <div className="text-xs text-gray-500">{new Date(request.created_at).toLocaleString()}</div>
+            </div>
+            {request.notes && <p className="text-sm text-gray-600 mb-2">{request.notes}</p>}
+
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 uppercase">
+                    <th className="py-1 pr-4">Product</th>
+                    <th className="py-1 pr-4">Requested (kg)</th>
+                    <th className="py-1 pr-4">In Stock (kg)</th>
+                    <th className="py-1 pr-4">Approve (kg)</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {request.assignment_items?.map(item => {
+                    const approved = approvedQuantity(item.id, item.assigned_quantity)
+                    const inStock = Number(item.products?.quantity ?? 0)
+                    return (
+                      <tr key={item.id}>
+                        <td className="py-1 pr-4 text-gray-900">{item.products?.name || 'Unknown Product'}</td>
+                        <td className="py-1 pr-4 text-gray-700">{item.requested_quantity ?? item.assigned_quantity}</td>
+                        <td className={`py-1 pr-4 ${approved > inStock ? 'text-red-600 font-medium' : 'text-gray-700'}`}>{inStock}</td>
+                        <td className="py-1 pr-4">
+                          <input
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            value={quantities[item.id] ?? String(item.assigned_quantity)}
+                            onChange={(e) => setQuantities({ ...quantities, [item.id]: e.target.value })}
+                            className="w-24 px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+                          />
+                        </td>
+                      </tr>
+                    )
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex flex-col sm:flex-row sm:items-center gap-2 mt-3">
+              <input
+                type="text"
+                value={reviewNotes[request.id] || ''}
+                onChange={(e) => setReviewNotes({ ...reviewNotes, [request.id]: e.target.value })}
+                className="flex-1 px-3 py-1.5 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+                placeholder="Note to the rep (required when rejecting or changing quantities)"
+              />
+              <div className="flex items-center space-x-2">
+                <button
+                  onClick={() => handleApprove(request)}
+                  disabled={workingId === request.id}
+                  className="flex items-center px-3 py-1.5 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                >
+                  <Check className="w-4 h-4 mr-1" />
+                  Approve
+                </button>
+                <button
+                  onClick={() => handleReject(request)}
+                  disabled={workingId === request.id}
+                  className="flex items-center px-3 py-1.5 text-sm border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  <X className="w-4 h-4 mr-1" />
+                  Reject
+                </button>
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
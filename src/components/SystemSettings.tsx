@@ -1,11 +1,12 @@
 // src/components/SystemSettings.tsx
 import React, { useState, useEffect } from 'react';
 import { supabase, SystemSettings as SystemSettingsInterface } from '../lib/supabase';
-import { useAuth } from '../hooks/useAuth';
+import { usePermission } from '../hooks/usePermission';
+import { RolePermissionsMatrix } from './RolePermissionsMatrix';
 import { Settings as SettingsIcon, Save, Plus, Trash2, AlertCircle } from 'lucide-react';
 
 export const SystemSettings: React.FC = () => {
-  const { user } = useAuth();
+  const canManageSettings = usePermission('settings.manage');
   const [settings, setSettings] = useState<SystemSettingsInterface | null>(null);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
@@ -15,10 +16,10 @@ export const SystemSettings: React.FC = () => {
   const [newCategory, setNewCategory] = useState<string>('');
 
   useEffect(() => {
-    if (user?.role === 'Super Admin') {
+    if (canManageSettings) {
       fetchSettings();
     }
-  }, [user]);
+  }, [canManageSettings]);
 
   const fetchSettings = async () => {
     setLoading(true);
@@ -100,13 +101,13 @@ export const SystemSettings: React.FC = () => {
     setCustomerCategoriesInput(customerCategoriesInput.filter(cat => cat !== categoryToRemove));
   };
 
-  if (user?.role !== 'Super Admin') {
+  if (!canManageSettings) {
     return (
       <div className="p-6">
         <div className="text-center py-12">
           <SettingsIcon className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Only Super Admins can manage system settings.</p>
+          <p className="text-gray-600">You do not have permission to manage system settings.</p>
         </div>
       </div>
     );
@@ -212,6 +213,10 @@ export const SystemSettings: React.FC = () => {
           </div>
         </form>
       </div>
+
+      <div className="mt-6">
+        <RolePermissionsMatrix />
+      </div>
     </div>
   );
 };
\ No newline at end of file
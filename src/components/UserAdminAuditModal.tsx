@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react'
+import { X, History } from 'lucide-react'
+import { UserAdminAction, UserAdminAuditEntry } from '../lib/supabase'
+import { fetchUserAdminAudit } from '../lib/userAdminService'
+
+interface UserAdminAuditModalProps {
+  onClose: () => void
+}
+
+const ACTION_LABELS: Record<UserAdminAction, string> = {
+  create: 'Created user',
+  update: 'Updated details',
+  reset_password: 'Reset password',
+  change_role: 'Changed role',
+  disable: 'Disabled user',
+  enable: 'Enabled user',
+  delete: 'Deleted user',
+  approve_device: 'Approved device',
+  rename_device: 'Renamed device',
+  revoke_device: 'Revoked device'
+}
+
+const describeDetails = (entry: UserAdminAuditEntry): string => {
+  if (entry.action === 'change_role') {
+    return `${entry.details.from} → ${entry.details.to}`
+  }
+  if (entry.action === 'create') {
+    return String(entry.details.role || '')
+  }
+  if (entry.action === 'rename_device') {
+    return `${entry.details.from || 'Unnamed'} → ${entry.details.to || 'Unnamed'}`
+  }
+  if (entry.action === 'approve_device' || entry.action === 'revoke_device') {
+    return String(entry.details.name || entry.details.device_id || '')
+  }
+  return ''
+}
+
+export const UserAdminAuditModal: React.FC<UserAdminAuditModalProps> = ({ onClose }) => {
+  const [entries, setEntries] = useState<UserAdminAuditEntry[]>([])
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    const loadAudit = async () => {
+      try {
+        setEntries(await fetchUserAdminAudit())
+      } catch (error) {
+        console.error('Error fetching user admin audit:', error)
+        setEntries([])
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    loadAudit()
+  }, [])
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <History className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">User Administration Audit</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center py-8">No user administration activity yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">When</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">By</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Action</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">User</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Result</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {entries.map(entry => (
+                    <tr key={entry.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{new Date(entry.created_at).toLocaleString()}</td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{entry.actor?.username || '-'}</td>
+                      <td className="px-4 py-2 text-sm text-gray-900">
+                        {ACTION_LABELS[entry.action]}
+                        {describeDetails(entry) && <div className="text-xs text-gray-500">{describeDetails(entry)}</div>}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">{entry.target_username || '-'}</td>
+                      <td className="px-4 py-2 text-sm">
+                        {entry.succeeded ? (
+                          <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-green-100 text-green-800">OK</span>
+                        ) : (
+                          <>
+                            <span className="px-2 py-0.5 text-xs font-semibold rounded-full bg-red-100 text-red-800">Failed</span>
+                            {entry.error_message && <div className="text-xs text-red-600 mt-1">{entry.error_message}</div>}
+                          </>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
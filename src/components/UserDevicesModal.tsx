@@ -0,0 +1,210 @@
+import React, { useState, useEffect, useCallback } from 'react'
+import { X, Smartphone, Check, Ban, Edit, Save } from 'lucide-react'
+import { UserDevice, UserDeviceStatus } from '../lib/supabase'
+import { approveUserDevice, fetchUserDevices, renameUserDevice, revokeUserDevice } from '../lib/userAdminService'
+
+interface UserDevicesModalProps {
+  user: { id: string; username: string; device_binding: boolean }
+  onClose: () => void
+}
+
+const STATUS_COLORS: Record<UserDeviceStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  revoked: 'bg-red-100 text-red-800'
+}
+
+export const UserDevicesModal: React.FC<UserDevicesModalProps> = ({ user, onClose }) => {
+  const [devices, setDevices] = useState<UserDevice[]>([])
+  const [loading, setLoading] = useState(true)
+  const [workingId, setWorkingId] = useState<string | null>(null)
+  const [renamingId, setRenamingId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  const loadDevices = useCallback(async () => {
+    setLoading(true)
+    try {
+      setDevices(await fetchUserDevices(user.id))
+    } catch (err) {
+      console.error('Error fetching user devices:', err)
+      setDevices([])
+    } finally {
+      setLoading(false)
+    }
+  }, [user.id])
+
+  useEffect(() => {
+    loadDevices()
+  }, [loadDevices])
+
+  // Every change goes through admin-users so it lands in the audit log
+  const runDeviceAction = async (device: UserDevice, action: () => Promise<void>) => {
+    setWorkingId(device.id)
+    setError(null)
+    try {
+      await action()
+      setRenamingId(null)
+      await loadDevices()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update device.')
+    } finally {
+      setWorkingId(null)
+    }
+  }
+
+  const handleRevoke = (device: UserDevice) => {
+    if (!confirm(`Revoke ${device.name || 'this device'}? ${user.username} will be signed out and cannot log in from it again until it is approved.`)) return
+    runDeviceAction(device, () => revokeUserDevice(user.id, device.id))
+  }
+
+  const startRename = (device: UserDevice) => {
+    setRenamingId(device.id)
+    setNewName(device.name || '')
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between p-6 border-b">
+          <div className="flex items-center space-x-2">
+            <Smartphone className="w-5 h-5 text-gray-600" />
+            <h3 className="text-lg font-semibold text-gray-900">Devices for {user.username}</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="p-6 overflow-y-auto">
+          {!user.device_binding && (
+            <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3 mb-4">
+              This user can log in from any device. Turn on "Require a registered device" in the user's details to restrict logins to approved devices.
+            </p>
+          )}
+
+          {error && (
+            <div className="text-red-600 text-sm bg-red-50 p-3 rounded-lg mb-4">
+              {error}
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-red-600"></div>
+            </div>
+          ) : devices.length === 0 ? (
+            <p className="text-sm text-gray-500 italic text-center py-8">No devices registered yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Device</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Last Seen</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Actions</th>
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {devices.map(device => (
+                    <tr key={device.id} className="hover:bg-gray-50 align-top">
+                      <td className="px-4 py-2 text-sm max-w-xs">
+                        {renamingId === device.id ? (
+                          <div className="flex items-center space-x-1">
+                            <input
+                              type="text"
+                              value={newName}
+                              onChange={(e) => setNewName(e.target.value)}
+                              className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-red-500 text-sm"
+                              placeholder="e.g. Gate phone 2"
+                              autoFocus
+                            />
+                            <button
+                              onClick={() => runDeviceAction(device, () => renameUserDevice(user.id, device.id, newName))}
+                              disabled={workingId === device.id}
+                              className="p-1 text-green-600 hover:bg-green-100 rounded-full disabled:opacity-50"
+                              title="Save name"
+                            >
+                              <Save className="w-4 h-4" />
+                            </button>
+                            <button
+                              onClick={() => setRenamingId(null)}
+                              className="p-1 text-gray-500 hover:bg-gray-100 rounded-full"
+                              title="Cancel"
+                            >
+                              <X className="w-4 h-4" />
+                            </button>
+                          </div>
+                        ) : (
+                          <div className="font-medium text-gray-900">{device.name || 'Unnamed device'}</div>
+                        )}
+                        <div className="text-xs font-mono text-gray-500 break-all">{device.device_id}</div>
+                        {device.user_agent && <div className="text-xs text-gray-400 break-words">{device.user_agent}</div>}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full capitalize ${STATUS_COLORS[device.status]}`}>
+                          {device.status}
+                        </span>
+                        {device.approved_at && device.status === 'approved' && (
+                          <div className="text-xs text-gray-500 mt-1">since {new Date(device.approved_at).toLocaleDateString()}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm text-gray-700">
+                        {new Date(device.last_seen_at).toLocaleString()}
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap text-sm">
+                        <div className="flex space-x-2">
+                          {device.status !== 'approved' && (
+                            <button
+                              onClick={() => runDeviceAction(device, () => approveUserDevice(user.id, device.id))}
+                              disabled={workingId === device.id}
+                              className="p-2 text-green-600 hover:text-green-900 rounded-full hover:bg-green-100 disabled:opacity-50"
+                              title="Approve device"
+                            >
+                              <Check className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={() => startRename(device)}
+                            disabled={workingId === device.id}
+                            className="p-2 text-blue-600 hover:text-blue-900 rounded-full hover:bg-blue-100 disabled:opacity-50"
+                            title="Rename device"
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          {device.status !== 'revoked' && (
+                            <button
+                              onClick={() => handleRevoke(device)}
+                              disabled={workingId === device.id}
+                              className="p-2 text-red-600 hover:text-red-900 rounded-full hover:bg-red-100 disabled:opacity-50"
+                              title="Revoke device"
+                            >
+                              <Ban className="w-4 h-4" />
+                            </button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end space-x-3 p-6 border-t bg-gray-50">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Close
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,7 +1,20 @@
 import React, { useState, useEffect } from 'react'
-import { Plus, Edit, Trash2, Search, User, Shield, UserCheck, Eye } from 'lucide-react'
+import { Plus, Edit, Search, User, Shield, UserCheck, Eye, Lock, Unlock, History, LogIn, Smartphone } from 'lucide-react'
 import { supabase } from '../lib/supabase'
 import { useAuth } from '../hooks/useAuth'
+import { usePermission } from '../hooks/usePermission'
+import { fetchRoles } from '../lib/permissionService'
+import {
+  changeUserRole,
+  createUser,
+  resetUserPassword,
+  setUserActive,
+  updateUserProfile,
+  UserRole
+} from '../lib/userAdminService'
+import { UserAdminAuditModal } from './UserAdminAuditModal'
+import { LoginAuditModal } from './LoginAuditModal'
+import { UserDevicesModal } from './UserDevicesModal'
 
 interface User {
   id: string
@@ -15,10 +28,14 @@ interface User {
   last_name: string // ✅ New
   employee_id?: string // ✅ New
   phone_number: string // ✅ New
+  active: boolean
+  deactivated_at?: string | null
+  device_binding: boolean
 }
 
 export const UserManagement: React.FC = () => {
   const { user, isOnline } = useAuth()
+  const canManageUsers = usePermission('users.manage')
   const [users, setUsers] = useState<User[]>([])
   const [loading, setLoading] = useState(true)
   const [showModal, setShowModal] = useState(false)
@@ -33,18 +50,34 @@ export const UserManagement: React.FC = () => {
     first_name: '', // ✅ New
     last_name: '', // ✅ New
     employee_id: '', // ✅ New
-    phone_number: '' // ✅ New
+    phone_number: '', // ✅ New
+    device_binding: false
   })
   const [error, setError] = useState('')
+  const [togglingId, setTogglingId] = useState<string | null>(null)
+  const [showAudit, setShowAudit] = useState(false)
+  const [showLoginAudit, setShowLoginAudit] = useState(false)
+  const [devicesUser, setDevicesUser] = useState<User | null>(null)
 
-  const roles = ['Super Admin', 'Admin', 'Sales Rep', 'Security Guard', 'Order Manager', 'Finance Admin']
+  const [roles, setRoles] = useState<string[]>([])
   const titles = ['Mr', 'Mrs', 'Ms', 'Dr'] // ✅ New
 
   useEffect(() => {
-    if (user?.role === 'Super Admin') {
+    if (canManageUsers) {
       fetchUsers()
+      fetchRoleNames()
     }
-  }, [user])
+  }, [canManageUsers])
+
+  // Roles are edited in System Settings, so offer whatever exists there
+  const fetchRoleNames = async () => {
+    try {
+      const roleList = await fetchRoles()
+      setRoles(roleList.map(role => role.name))
+    } catch (error) {
+      console.error('Error fetching roles:', error)
+    }
+  }
 
   const fetchUsers = async () => {
     try {
@@ -60,7 +93,7 @@ export const UserManagement: React.FC = () => {
 
       const { data, error } = await supabase
         .from('users')
-        .select('id, username, role, first_login, created_at, email, title, first_name, last_name, employee_id, phone_number') // ✅ Updated select
+        .select('id, username, role, first_login, created_at, email, title, first_name, last_name, employee_id, phone_number, active, deactivated_at, device_binding') // ✅ Updated select
         .order('created_at', { ascending: false })
 
       if (error) throw error
@@ -110,80 +143,34 @@ export const UserManagement: React.FC = () => {
         }
       }
 
+      const profile = {
+        username: formData.username,
+        title: formData.title, // ✅ New
+        first_name: formData.first_name, // ✅ New
+        last_name: formData.last_name, // ✅ New
+        employee_id: formData.employee_id, // ✅ New
+        phone_number: formData.phone_number, // ✅ New
+        device_binding: formData.device_binding
+      }
+
+      // Each change is a separate, separately audited call to the admin-users edge function
       if (editingUser) {
-        // Update existing user details in public.users table
-        const { error: updateError } = await supabase
-          .from('users')
-          .update({
-            username: formData.username,
-            role: formData.role,
-            title: formData.title, // ✅ New
-            first_name: formData.first_name, // ✅ New
-            last_name: formData.last_name, // ✅ New
-            employee_id: formData.employee_id || null, // ✅ New
-            phone_number: formData.phone_number // ✅ New
-          })
-          .eq('id', editingUser.id)
-
-        if (updateError) throw updateError
-
-        // Update password via Supabase Auth Admin API (requires Service Role Key, ideally via Edge Function)
-        if (formData.password.trim()) {
-          // WARNING: Calling supabase.auth.admin.updateUserById directly from client-side
-          // is INSECURE as it requires exposing your Supabase Service Role Key.
-          // This should be done via a secure backend (e.g., Supabase Edge Function).
-          const { error: passwordError } = await supabase.auth.admin.updateUserById(
-            editingUser.id,
-            { password: formData.password }
-          )
-          if (passwordError) {
-            console.error('Error updating user password via admin API:', passwordError);
-            throw new Error(`Failed to update password: ${passwordError.message}. This operation should ideally be handled by a secure backend.`);
-          }
+        await updateUserProfile(editingUser.id, profile)
+
+        if (formData.role !== editingUser.role) {
+          await changeUserRole(editingUser.id, formData.role as UserRole)
         }
 
+        if (formData.password.trim()) {
+          await resetUserPassword(editingUser.id, formData.password)
+        }
       } else {
-        // Create new user via Supabase Auth Admin API
-        // WARNING: This requires Service Role Key and should be done via secure backend
-        const { data: authData, error: authError } = await supabase.auth.admin.createUser({
+        await createUser({
+          ...profile,
           email: formData.email || undefined,
-          phone: formData.phone_number || undefined,
           password: formData.password,
-          email_confirm: true, // Skip email verification for admin-created users
-          user_metadata: {
-            username: formData.username,
-            role: formData.role,
-            title: formData.title, // ✅ New
-            first_name: formData.first_name, // ✅ New
-            last_name: formData.last_name, // ✅ New
-            employee_id: formData.employee_id, // ✅ New
-            phone_number: formData.phone_number // ✅ New
-          }
+          role: formData.role as UserRole
         })
-
-        if (authError) throw authError
-        if (!authData.user) throw new Error('User creation failed')
-
-        // Insert user details into public.users table
-        const { error: insertError } = await supabase
-          .from('users')
-          .insert({
-            id: authData.user.id,
-            username: formData.username,
-            email: formData.email || null,
-            role: formData.role,
-            password_hash: '', // This column is not used by Supabase Auth, but required by your schema
-            title: formData.title, // ✅ New
-            first_name: formData.first_name, // ✅ New
-            last_name: formData.last_name, // ✅ New
-            employee_id: formData.employee_id || null, // ✅ New
-            phone_number: formData.phone_number // ✅ New
-          })
-
-        if (insertError) {
-          console.error('Error inserting user details into public.users:', insertError);
-          throw insertError;
-        }
       }
 
       await fetchUsers()
@@ -198,7 +185,8 @@ export const UserManagement: React.FC = () => {
         first_name: '',
         last_name: '',
         employee_id: '',
-        phone_number: ''
+        phone_number: '',
+        device_binding: false
       })
     } catch (error: any) {
       console.error('Error saving user:', error)
@@ -208,31 +196,22 @@ export const UserManagement: React.FC = () => {
     }
   }
 
-  const handleDeleteUser = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this user?')) return
+  // Users are never deleted, only disabled, so their orders and assignments keep their history.
+  // Disabling also signs them out everywhere.
+  const handleToggleActive = async (target: User) => {
+    const action = target.active ? 'disable' : 'enable'
+    const warning = target.active ? ' They will be signed out on every device.' : ''
+    if (!confirm(`Are you sure you want to ${action} ${target.username}?${warning}`)) return
 
+    setTogglingId(target.id)
     try {
-      // Delete user from public.users table
-      const { error: deleteUserError } = await supabase
-        .from('users')
-        .delete()
-        .eq('id', id)
-
-      if (deleteUserError) throw deleteUserError
-
-      // Delete user from Supabase Auth (requires Service Role Key, ideally via Edge Function)
-      // WARNING: Calling supabase.auth.admin.deleteUser directly from client-side
-      // is INSECURE as it requires exposing your Supabase Service Role Key.
-      // This should be done via a secure backend (e.g., Supabase Edge Function).
-      const { error: deleteAuthUserError } = await supabase.auth.admin.deleteUser(id);
-      if (deleteAuthUserError) {
-        console.error('Error deleting user from Supabase Auth:', deleteAuthUserError);
-        throw new Error(`Failed to delete user from authentication system: ${deleteAuthUserError.message}. This operation should ideally be handled by a secure backend.`);
-      }
-
+      await setUserActive(target.id, !target.active)
       await fetchUsers()
     } catch (error) {
-      console.error('Error deleting user:', error)
+      console.error(`Error trying to ${action} user:`, error)
+      alert(error instanceof Error ? error.message : `Failed to ${action} user.`)
+    } finally {
+      setTogglingId(null)
     }
   }
 
@@ -247,7 +226,8 @@ export const UserManagement: React.FC = () => {
       first_name: userToEdit.first_name, // ✅ New
       last_name: userToEdit.last_name, // ✅ New
       employee_id: userToEdit.employee_id || '', // ✅ New
-      phone_number: userToEdit.phone_number // ✅ New
+      phone_number: userToEdit.phone_number, // ✅ New
+      device_binding: userToEdit.device_binding
     })
     setError('')
     setShowModal(true)
@@ -273,6 +253,11 @@ export const UserManagement: React.FC = () => {
     }
   }
 
+  const getStatusLabel = (u: User) => !u.active ? 'Disabled' : u.first_login ? 'First Login' : 'Active'
+
+  const getStatusColor = (u: User) =>
+    !u.active ? 'bg-red-100 text-red-800' : u.first_login ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
+
   const filteredUsers = users.filter(u =>
     u.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
     u.role.toLowerCase().includes(searchTerm.toLowerCase()) ||
@@ -281,13 +266,13 @@ export const UserManagement: React.FC = () => {
     u.employee_id?.toLowerCase().includes(searchTerm.toLowerCase()) // ✅ New search field
   )
 
-  if (user?.role !== 'Super Admin') {
+  if (!canManageUsers) {
     return (
       <div className="p-6">
         <div className="text-center py-12">
           <Shield className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Only Super Admins can manage users.</p>
+          <p className="text-gray-600">You do not have permission to manage users.</p>
         </div>
       </div>
     )
@@ -305,28 +290,47 @@ export const UserManagement: React.FC = () => {
     <div className="p-6">
       <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 gap-4">
         <h1 className="text-2xl font-bold text-gray-900">User Management</h1>
-        <button
-          onClick={() => {
-            setShowModal(true)
-            setEditingUser(null)
-            setFormData({ 
-              username: '', 
-              email: '', 
-              password: '', 
-              role: 'Sales Rep',
-              title: 'Mr',
-              first_name: '',
-              last_name: '',
-              employee_id: '',
-              phone_number: ''
-            })
-            setError('')
-          }}
-          className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-        >
-          <Plus className="w-4 h-4 mr-2" />
-          Add User
-        </button>
+        <div className="flex gap-3">
+          <button
+            onClick={() => setShowAudit(true)}
+            disabled={!isOnline}
+            className="flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <History className="w-4 h-4 mr-2" />
+            Audit Log
+          </button>
+          <button
+            onClick={() => setShowLoginAudit(true)}
+            disabled={!isOnline}
+            className="flex items-center px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <LogIn className="w-4 h-4 mr-2" />
+            Login History
+          </button>
+          <button
+            onClick={() => {
+              setShowModal(true)
+              setEditingUser(null)
+              setFormData({ 
+                username: '', 
+                email: '', 
+                password: '', 
+                role: 'Sales Rep',
+                title: 'Mr',
+                first_name: '',
+                last_name: '',
+                employee_id: '',
+                phone_number: '',
+                device_binding: false
+              })
+              setError('')
+            }}
+            className="flex items-center px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            Add User
+          </button>
+        </div>
       </div>
 
       {/* Search */}
@@ -372,13 +376,22 @@ export const UserManagement: React.FC = () => {
                     >
                       <Edit className="w-5 h-5" />
                     </button>
+                    <button
+                      onClick={() => setDevicesUser(u)}
+                      disabled={!isOnline}
+                      className="p-2.5 text-gray-600 bg-gray-100 rounded-full hover:bg-gray-200 touch-manipulation disabled:opacity-50"
+                      title="Devices"
+                    >
+                      <Smartphone className="w-5 h-5" />
+                    </button>
                     {u.id !== user?.id && (
                       <button
-                        onClick={() => handleDeleteUser(u.id)} // Increased padding for better touch target
-                        className="p-2.5 text-red-600 bg-red-100 rounded-full hover:bg-red-200 touch-manipulation"
-                        title="Delete user"
+                        onClick={() => handleToggleActive(u)}
+                        disabled={!isOnline || togglingId === u.id}
+                        className="p-2.5 text-gray-600 bg-gray-100 rounded-full hover:bg-gray-200 touch-manipulation disabled:opacity-50"
+                        title={u.active ? 'Disable user' : 'Enable user'}
                       >
-                        <Trash2 className="w-5 h-5" />
+                        {u.active ? <Lock className="w-5 h-5" /> : <Unlock className="w-5 h-5" />}
                       </button>
                     )}
                   </div>
@@ -407,11 +420,14 @@ export const UserManagement: React.FC = () => {
                   </div>
                   <div className="flex items-start">
                     <span className="text-gray-500 font-medium w-16 flex-shrink-0">Status:</span>
-                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${
-                      u.first_login ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
-                    }`}>
-                      {u.first_login ? 'First Login' : 'Active'}
+                    <span className={`inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium ${getStatusColor(u)}`}>
+                      {getStatusLabel(u)}
                     </span>
+                    {u.device_binding && (
+                      <span className="inline-flex items-center ml-1 px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        Device bound
+                      </span>
+                    )}
                   </div>
                   <div className="flex items-start">
                     <span className="text-gray-500 font-medium w-16 flex-shrink-0">Created:</span>
@@ -478,11 +494,15 @@ export const UserManagement: React.FC = () => {
                       </div>
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap">
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                        u.first_login ? 'bg-yellow-100 text-yellow-800' : 'bg-green-100 text-green-800'
-                      }`}>
-                        {u.first_login ? 'First Login' : 'Active'}
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${getStatusColor(u)}`}>
+                        {getStatusLabel(u)}
                       </span>
+                      {!u.active && u.deactivated_at && (
+                        <div className="text-xs text-gray-500 mt-1">since {new Date(u.deactivated_at).toLocaleDateString()}</div>
+                      )}
+                      {u.device_binding && (
+                        <div className="text-xs text-gray-500 mt-1">Registered devices only</div>
+                      )}
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                       {new Date(u.created_at).toLocaleDateString()}
@@ -495,13 +515,22 @@ export const UserManagement: React.FC = () => {
                         >
                           <Edit className="w-4 h-4" />
                         </button>
+                        <button
+                          onClick={() => setDevicesUser(u)}
+                          disabled={!isOnline}
+                          className="p-2 text-gray-600 hover:text-gray-900 rounded-full hover:bg-gray-200 disabled:opacity-50"
+                          title="Devices"
+                        >
+                          <Smartphone className="w-4 h-4" />
+                        </button>
                         {u.id !== user?.id && (
                           <button
-                            onClick={() => handleDeleteUser(u.id)} // Added padding for better touch target
-                            className="p-2 text-red-600 hover:text-red-900 rounded-full hover:bg-red-100"
-                            title="Delete user"
+                            onClick={() => handleToggleActive(u)}
+                            disabled={!isOnline || togglingId === u.id}
+                            className="p-2 text-gray-600 hover:text-gray-900 rounded-full hover:bg-gray-200 disabled:opacity-50"
+                            title={u.active ? 'Disable user' : 'Enable user'}
                           >
-                            <Trash2 className="w-4 h-4" />
+                            {u.active ? <Lock className="w-4 h-4" /> : <Unlock className="w-4 h-4" />}
                           </button>
                         )}
                       </div>
@@ -514,6 +543,18 @@ export const UserManagement: React.FC = () => {
         </div>
       </div>
 
+      {showAudit && (
+        <UserAdminAuditModal onClose={() => setShowAudit(false)} />
+      )}
+
+      {showLoginAudit && (
+        <LoginAuditModal users={users} onClose={() => setShowLoginAudit(false)} />
+      )}
+
+      {devicesUser && (
+        <UserDevicesModal user={devicesUser} onClose={() => setDevicesUser(null)} />
+      )}
+
       {/* Add/Edit User Modal */}
       {showModal && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
@@ -661,6 +702,21 @@ export const UserManagement: React.FC = () => {
                 </select>
               </div>
 
+              <div>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.device_binding}
+                    onChange={(e) => setFormData({ ...formData, device_binding: e.target.checked })}
+                    className="h-4 w-4 text-red-600 border-gray-300 rounded focus:ring-red-500 mr-2"
+                  />
+                  Require a registered device
+                </label>
+                <p className="text-xs text-gray-500 mt-1 ml-6">
+                  The first device used to log in is registered; other devices need approval under Devices.
+                </p>
+              </div>
+
               {error && (
                 <div className="text-red-600 text-sm bg-red-50 p-3 rounded-lg">
                   {error}
@@ -682,7 +738,8 @@ export const UserManagement: React.FC = () => {
                       first_name: '',
                       last_name: '',
                       employee_id: '',
-                      phone_number: ''
+                      phone_number: '',
+                      device_binding: false
                     })
                     setError('')
                   }}
@@ -1,10 +1,11 @@
 import React, { useState, useEffect } from 'react'
 import { Plus, Edit, Trash2, Search, Car, AlertCircle } from 'lucide-react'
 import { supabase, Vehicle, User as UserType } from '../lib/supabase'
-import { useAuth } from '../hooks/useAuth'
+import { usePermissions } from '../hooks/usePermission'
 
 export const VehicleManagement: React.FC = () => {
-  const { user } = useAuth()
+  const { can } = usePermissions()
+  const canManageVehicles = can('vehicles.manage')
   const [vehicles, setVehicles] = useState<Vehicle[]>([])
   const [salesReps, setSalesReps] = useState<UserType[]>([]) // New state for sales reps
   const [loading, setLoading] = useState(true)
@@ -24,11 +25,11 @@ export const VehicleManagement: React.FC = () => {
   const vehicleStatuses = ['Available', 'In Use', 'Maintenance']
 
   useEffect(() => {
-    if (user?.role === 'Super Admin' || user?.role === 'Admin') {
+    if (canManageVehicles) {
       fetchVehicles()
       fetchSalesReps() // Fetch sales reps when component mounts
     }
-  }, [user])
+  }, [canManageVehicles])
 
   const fetchVehicles = async () => {
     try {
@@ -185,13 +186,13 @@ export const VehicleManagement: React.FC = () => {
     vehicle.status.toLowerCase().includes(searchTerm.toLowerCase())
   )
 
-  if (user?.role !== 'Super Admin' && user?.role !== 'Admin') {
+  if (!canManageVehicles) {
     return (
       <div className="p-6">
         <div className="text-center py-12">
           <Car className="w-16 h-16 text-gray-400 mx-auto mb-4" />
           <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Denied</h2>
-          <p className="text-gray-600">Only Super Admins and Admins can manage vehicles.</p>
+          <p className="text-gray-600">You do not have permission to manage vehicles.</p>
         </div>
       </div>
     )
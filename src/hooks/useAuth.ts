@@ -14,6 +14,36 @@ export interface AuthUser {
   phone_number: string // ✅ New
 }
 
+// Random id kept by this browser; device binding in record_login_attempt compares against it
+const DEVICE_ID_KEY = 'weehena_device_id'
+
+const getDeviceId = (): string | null => {
+  try {
+    let deviceId = localStorage.getItem(DEVICE_ID_KEY)
+    if (!deviceId) {
+      deviceId = crypto.randomUUID()
+      localStorage.setItem(DEVICE_ID_KEY, deviceId)
+    }
+    return deviceId
+  } catch {
+    return null
+  }
+}
+
+// Set while login() signs in and records the attempt. The SIGNED_IN event fires before
+// record_login_attempt has accepted the session, so is_active_user would still refuse a
+// device-bound user; login() checks the session itself through record_login_attempt.
+let loginInProgress = false
+
+// Reasons record_login_attempt gives for refusing a login, as shown on the login screen
+const REFUSAL_MESSAGES: Record<string, string> = {
+  'Account deactivated': 'This account has been deactivated. Please contact an administrator.',
+  'Device is waiting for admin approval': 'This device is not registered for your account yet. Ask an administrator to approve it, then log in again.',
+  'Device has been revoked': 'This device is no longer allowed for your account. Please contact an administrator.',
+  'Device could not be identified': 'This device could not be identified. Allow site storage in your browser and try again.',
+  'Login could not be verified': 'Your login could not be verified. Check your connection and try again.'
+}
+
 export const useAuth = () => {
   const [user, setUser] = useState<AuthUser | null>(null)
   const [loading, setLoading] = useState(true)
@@ -71,7 +101,7 @@ export const useAuth = () => {
       }
     }, 2000)
 
-    const processUser = async (session: any) => {
+    const processUser = async (session: any, sessionCheckedByLogin = false) => {
       if (!mounted) return
 
       if (session?.user) {
@@ -85,6 +115,18 @@ export const useAuth = () => {
         setTimeout(async () => {
           if (!mounted) return
           try {
+            if (!sessionCheckedByLogin) {
+              // A restored session is ended here if the account was deactivated or, for device-bound
+              // accounts, the session was not accepted from an approved device. When the check cannot
+              // run while online it fails closed; offline, the server still refuses the session's data.
+              const { data: isActive, error: activeError } = await supabase.rpc('is_active_user')
+              if (isActive === false || (activeError && navigator.onLine)) {
+                console.warn('useAuth: Session is not allowed, signing out')
+                await supabase.auth.signOut()
+                return
+              }
+            }
+
             const { data } = await supabase
               .from('users')
               .select('username, role, first_login, email, title, first_name, last_name, employee_id, phone_number')
@@ -125,7 +167,7 @@ export const useAuth = () => {
         const { data: { subscription } } = supabase.auth.onAuthStateChange(async (event, session) => {
           console.log('useAuth: Auth state changed:', event)
           clearTimeout(immediateTimeout)
-          await processUser(session)
+          await processUser(session, event === 'SIGNED_IN' && loginInProgress)
         })
         authSubscription = subscription
 
@@ -211,6 +253,25 @@ export const useAuth = () => {
     }
   }, [])
 
+  // Writes the login_audit row. Returns why a successful sign-in is refused after all (a
+  // deactivated account or an unapproved device), or null when it stands. A successful sign-in
+  // that could not be recorded is refused, since device binding was not checked.
+  const recordLoginAttempt = async (username: string, succeeded: boolean, failureReason?: string): Promise<string | null> => {
+    const { data, error } = await supabase.rpc('record_login_attempt', {
+      p_username: username,
+      p_succeeded: succeeded,
+      p_failure_reason: failureReason ?? null,
+      p_device_id: getDeviceId(),
+      p_user_agent: navigator.userAgent
+    })
+
+    if (error) {
+      console.warn('useAuth: Failed to record login attempt:', error.message)
+      return succeeded ? 'Login could not be verified' : null
+    }
+    return succeeded ? data : null
+  }
+
   const login = async (credential: string, password: string) => {
     try {
       setConnectionError(null)
@@ -228,16 +289,32 @@ export const useAuth = () => {
       if (userError) throw userError;
       if (!userData || !userData.email) {
         // If no user found with that username, or user has no email, consider it invalid credentials
+        await recordLoginAttempt(username, false, 'Unknown username')
         throw new Error('Invalid username or password.');
       }
 
-      // Use the retrieved email for signInWithPassword
-      const { error } = await supabase.auth.signInWithPassword({
-        email: userData.email,
-        password: password
-      });
+      loginInProgress = true
+      try {
+        // Use the retrieved email for signInWithPassword
+        const { error } = await supabase.auth.signInWithPassword({
+          email: userData.email,
+          password: password
+        });
+
+        if (error) {
+          // Disabled accounts are banned in auth, so they usually stop here
+          await recordLoginAttempt(username, false, error.message)
+          throw error
+        }
 
-      if (error) throw error
+        const refusal = await recordLoginAttempt(username, true)
+        if (refusal) {
+          await supabase.auth.signOut()
+          throw new Error(REFUSAL_MESSAGES[refusal] || refusal)
+        }
+      } finally {
+        loginInProgress = false
+      }
       return true
     } catch (error: any) {
       console.error('useAuth: Login error:', error)
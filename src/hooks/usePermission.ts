@@ -0,0 +1,61 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from './useAuth'
+import { Permission } from '../lib/supabase'
+import { fetchMyPermissions, getCachedPermissions, PERMISSIONS_CHANGED_EVENT } from '../lib/permissionService'
+
+// The single place the UI decides what a user may do. Permissions come from the user's role
+// in the database (see has_permission()/my_permissions()), never from the role name.
+export const usePermissions = () => {
+  const { user } = useAuth()
+  // Start from the cached bundle so the first render already knows what the user may do
+  const [permissions, setPermissions] = useState<Set<Permission>>(
+    () => new Set(user ? getCachedPermissions(user.id) || [] : [])
+  )
+  const [loading, setLoading] = useState(() => !user || !getCachedPermissions(user.id))
+  const [version, setVersion] = useState(0)
+
+  useEffect(() => {
+    const handleChange = () => setVersion(v => v + 1)
+    window.addEventListener(PERMISSIONS_CHANGED_EVENT, handleChange)
+    return () => window.removeEventListener(PERMISSIONS_CHANGED_EVENT, handleChange)
+  }, [])
+
+  const userId = user?.id
+  const role = user?.role
+
+  useEffect(() => {
+    if (!userId) {
+      setPermissions(new Set())
+      return
+    }
+
+    let cancelled = false
+
+    // Show the cached bundle straight away, then refresh from the database
+    const cached = getCachedPermissions(userId)
+    if (cached) {
+      setPermissions(new Set(cached))
+      setLoading(false)
+    }
+
+    const loadPermissions = async () => {
+      const granted = await fetchMyPermissions(userId)
+      if (!cancelled) {
+        setPermissions(new Set(granted))
+        setLoading(false)
+      }
+    }
+
+    loadPermissions()
+    return () => {
+      cancelled = true
+    }
+    // role is a dependency so a role change picks up the new bundle
+  }, [userId, role, version])
+
+  const can = useCallback((permission: Permission) => permissions.has(permission), [permissions])
+
+  return { can, permissions, loading: loading && !!userId }
+}
+
+export const usePermission = (permission: Permission): boolean => usePermissions().can(permission)
@@ -0,0 +1,56 @@
+// src/lib/creditNoteService.ts
+
+import { supabase, CreditNote } from './supabase'
+
+export interface ProcessOrderReturnParams {
+  orderItemId: string
+  quantity: number
+  reason: string
+  quarantine?: boolean
+}
+
+// Records the return, issues its numbered credit note (with VAT reversed at the order's rate)
+// and restocks or quarantines the goods in one transaction via `process_order_return`
+export const processOrderReturn = async (params: ProcessOrderReturnParams): Promise<CreditNote> => {
+  const { data, error } = await supabase.rpc('process_order_return', {
+    p_order_item_id: params.orderItemId,
+    p_quantity: params.quantity,
+    p_reason: params.reason,
+    p_quarantine: params.quarantine || false
+  })
+
+  if (error) {
+    console.error('process_order_return error:', error)
+    throw new Error(error.message || 'Failed to process return')
+  }
+
+  return data as CreditNote
+}
+
+export const fetchOrderCreditNotes = async (orderId: string): Promise<CreditNote[]> => {
+  const { data, error } = await supabase
+    .from('credit_notes')
+    .select(`
+      *,
+      customers(name, address, tin_number),
+      orders(order_display_id, receipt_no),
+      tax_invoices(invoice_no)
+    `)
+    .eq('order_id', orderId)
+    .order('issued_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as CreditNote[]
+}
+
+// Returns how many times the credit note has now been printed; anything after the first is a duplicate
+export const recordCreditNotePrint = async (creditNoteId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('record_credit_note_print', { p_credit_note_id: creditNoteId })
+
+  if (error) {
+    console.error('record_credit_note_print error:', error)
+    throw new Error(error.message || 'Failed to record credit note print')
+  }
+
+  return data as number
+}
@@ -0,0 +1,90 @@
+// src/lib/documentService.ts
+
+import { supabase } from './supabase'
+
+export type DocumentType = 'sales_order' | 'on_demand_order' | 'tax_invoice' | 'credit_note'
+
+interface DocumentOptions {
+  duplicate?: boolean
+  archive?: boolean
+}
+
+// PDFs are rendered by the render-document edge function so printed, emailed and archived
+// copies come from the same code. Called with fetch rather than functions.invoke, which
+// decodes an application/pdf response as text.
+export const fetchDocumentPdf = async (
+  type: DocumentType,
+  id: string,
+  { duplicate = false, archive = false }: DocumentOptions = {}
+): Promise<Blob> => {
+  const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
+  const anonKey = import.meta.env.VITE_SUPABASE_ANON_KEY
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session) {
+    throw new Error('You must be signed in to print documents')
+  }
+
+  const response = await fetch(`${supabaseUrl}/functions/v1/render-document`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+      ...(anonKey ? { 'apikey': anonKey } : {}),
+    },
+    body: JSON.stringify({ type, id, duplicate, archive }),
+  })
+
+  if (!response.ok) {
+    const errorText = await response.text()
+    let errorMessage = `HTTP ${response.status}`
+    try {
+      const errorData = JSON.parse(errorText)
+      errorMessage = errorData.error || errorData.message || errorText
+    } catch {
+      errorMessage = errorText || errorMessage
+    }
+    console.error('render-document error:', errorMessage)
+    throw new Error(errorMessage)
+  }
+
+  return await response.blob()
+}
+
+// Opens an empty window for a document. Call it in the click handler before anything is
+// awaited: browsers only allow popups opened as part of the click itself.
+export const openPrintWindow = (): Window | null => {
+  const printWindow = window.open('', '_blank')
+  if (!printWindow) {
+    alert('Please allow popups to print documents')
+  }
+  return printWindow
+}
+
+// Renders the document into a window from openPrintWindow, closing the window if that fails
+export const showDocumentPdf = async (
+  printWindow: Window,
+  type: DocumentType,
+  id: string,
+  options: DocumentOptions = {}
+): Promise<void> => {
+  try {
+    const blob = await fetchDocumentPdf(type, id, options)
+    printWindow.location.href = URL.createObjectURL(new Blob([blob], { type: 'application/pdf' }))
+  } catch (error) {
+    printWindow.close()
+    throw error
+  }
+}
+
+// For handlers that know the document id up front: the window opens before the first await
+export const openDocumentPdf = async (
+  type: DocumentType,
+  id: string,
+  options: DocumentOptions = {}
+): Promise<void> => {
+  const printWindow = openPrintWindow()
+  if (!printWindow) return
+
+  await showDocumentPdf(printWindow, type, id, options)
+}
@@ -1,6 +1,6 @@
 // src/lib/emailService.ts
 
-import { supabase } from './supabase'
+import { supabase, EmailLog, EmailStatus, EmailTemplatePreview, EmailTemplateSummary } from './supabase'
 
 interface BillEmailData {
   customerEmail: string
@@ -19,228 +19,141 @@ interface BillEmailData {
   salesRepName: string
   vehicleNumber?: string
   orderId: string
-  subTotal: number // New
-  vatAmount: number // New
-  isVatApplicable: boolean // New
+  subTotal: number
+  vatAmount: number
+  isVatApplicable: boolean
 }
 
-export const sendBillEmail = async (emailData: BillEmailData): Promise<{success: boolean; error?: string}> => {
+export interface EmailLogFilters {
+  status?: EmailStatus | 'all'
+  emailType?: string | 'all'
+  dateFrom?: string
+  dateTo?: string
+}
+
+// Asks the outbox worker to run now instead of waiting for its next scheduled run.
+// Failures only delay delivery, so they are logged and swallowed.
+export const triggerEmailOutbox = async (): Promise<void> => {
+  const INTERNAL_SEND_TOKEN = import.meta.env.VITE_INTERNAL_SEND_TOKEN
+  if (!INTERNAL_SEND_TOKEN) {
+    console.warn('VITE_INTERNAL_SEND_TOKEN is not configured; queued emails wait for the scheduled worker')
+    return
+  }
+
   try {
-    console.log('=== Starting Email Send Process ===')
-    console.log('Email data:', emailData)
-
-    // Validate email
-    if (!emailData.customerEmail || !emailData.customerEmail.includes('@')) {
-      const errorMsg = 'Invalid email address: ' + emailData.customerEmail
-      console.error(errorMsg)
-      return { success: false, error: errorMsg }
-    }
-
-    console.log('Email validation passed, calling edge function...')
-
-    // Retrieve internal token from environment
-    const INTERNAL_SEND_TOKEN = import.meta.env.VITE_INTERNAL_SEND_TOKEN
-    
-    if (!INTERNAL_SEND_TOKEN) {
-      const errorMsg = 'VITE_INTERNAL_SEND_TOKEN is not configured'
-      console.error(errorMsg)
-      return { success: false, error: errorMsg }
-    }
-
-    console.log("Frontend: Using VITE_INTERNAL_SEND_TOKEN:", INTERNAL_SEND_TOKEN ? '***' + INTERNAL_SEND_TOKEN.slice(-4) : 'NOT FOUND');
-
-    // Prepare the request body
-    const requestBody = {
-      to: emailData.customerEmail,
-      customerName: emailData.customerName,
-      orderDisplayId: emailData.orderDisplayId,
-      receiptNo: emailData.receiptNo,
-      totalAmount: emailData.totalAmount,
-      paymentMethod: emailData.paymentMethod,
-      orderItems: emailData.orderItems,
-      orderDate: emailData.orderDate,
-      salesRepName: emailData.salesRepName,
-      vehicleNumber: emailData.vehicleNumber,
-      orderId: emailData.orderId,
-      subTotal: emailData.subTotal, // New
-      vatAmount: emailData.vatAmount, // New
-      isVatApplicable: emailData.isVatApplicable, // New
-    }
-
-    console.log('Request body prepared:', requestBody)
-
-    // Option 1: Using supabase.functions.invoke (recommended)
-    console.log('Calling edge function via supabase.functions.invoke...')
-    
-    const { data, error } = await supabase.functions.invoke('send-receipt-email', {
-      body: requestBody,
+    const { error } = await supabase.functions.invoke('process-email-outbox', {
+      body: {},
       headers: {
         'x-internal-send-token': INTERNAL_SEND_TOKEN
       }
     })
+    if (error) console.error('process-email-outbox error:', error)
+  } catch (error) {
+    console.error('Failed to trigger email outbox:', error)
+  }
+}
+
+// Queues the receipt in email_logs. The process-email-outbox function sends it and retries
+// transient failures with backoff, so a mail server outage no longer loses the email.
+export const queueBillEmail = async (emailData: BillEmailData): Promise<{ success: boolean; error?: string }> => {
+  if (!emailData.customerEmail || !emailData.customerEmail.includes('@')) {
+    const errorMsg = 'Invalid email address: ' + emailData.customerEmail
+    console.error(errorMsg)
+    return { success: false, error: errorMsg }
+  }
 
-    if (error) {
-      console.error('=== Edge Function Error ===')
-      console.error('Error details:', error)
-      console.error('Error message:', error.message)
-      
-      // If supabase.functions.invoke fails, try direct fetch as fallback
-      console.log('Trying fallback with direct fetch...')
-      return await sendEmailDirectFetch(requestBody, INTERNAL_SEND_TOKEN)
-    }
-
-    console.log('=== Email Sent Successfully via Supabase Invoke ===')
-    console.log('Response data:', data)
-    
-    return { success: true }
-
-  } catch (error: any) {
-    console.error('=== Exception in sendBillEmail ===')
-    console.error('Error:', error)
-    console.error('Error message:', error?.message)
-    
-    return { 
-      success: false, 
-      error: error?.message || 'Unknown error occurred' 
-    }
+  // Stored as the worker's template data; same shape the send-receipt-email function accepts
+  const metadata = {
+    to: emailData.customerEmail,
+    customerName: emailData.customerName,
+    orderDisplayId: emailData.orderDisplayId,
+    receiptNo: emailData.receiptNo,
+    totalAmount: emailData.totalAmount,
+    paymentMethod: emailData.paymentMethod,
+    orderItems: emailData.orderItems,
+    orderDate: emailData.orderDate,
+    salesRepName: emailData.salesRepName,
+    vehicleNumber: emailData.vehicleNumber,
+    orderId: emailData.orderId,
+    subTotal: emailData.subTotal,
+    vatAmount: emailData.vatAmount,
+    isVatApplicable: emailData.isVatApplicable,
   }
+
+  const { error } = await supabase.from('email_logs').insert([{
+    order_id: emailData.orderId,
+    recipient_email: emailData.customerEmail,
+    recipient_name: emailData.customerName,
+    email_type: 'receipt',
+    subject: `Receipt ${emailData.receiptNo} - Order ${emailData.orderDisplayId}`,
+    status: 'pending',
+    metadata,
+  }])
+
+  if (error) {
+    console.error('Error queueing receipt email:', error)
+    return { success: false, error: error.message || 'Failed to queue receipt email' }
+  }
+
+  void triggerEmailOutbox()
+  return { success: true }
 }
 
-// Fallback function using direct fetch
-async function sendEmailDirectFetch(requestBody: any, token: string): Promise<{success: boolean; error?: string}> {
-  try {
-    console.log('=== Trying Direct Fetch Fallback ===')
-    
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-    if (!supabaseUrl) {
-      return { success: false, error: 'VITE_SUPABASE_URL not configured' }
-    }
-
-    const functionUrl = `${supabaseUrl}/functions/v1/send-receipt-email`
-    console.log('Calling function URL:', functionUrl)
-
-    const response = await fetch(functionUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-internal-send-token': token,
-        // Add CORS headers that might be needed
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify(requestBody)
-    })
+export const fetchEmailLogs = async (filters: EmailLogFilters = {}, limit = 500): Promise<EmailLog[]> => {
+  let query = supabase
+    .from('email_logs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (filters.status && filters.status !== 'all') query = query.eq('status', filters.status)
+  if (filters.emailType && filters.emailType !== 'all') query = query.eq('email_type', filters.emailType)
+  if (filters.dateFrom) query = query.gte('created_at', `${filters.dateFrom}T00:00:00`)
+  if (filters.dateTo) query = query.lte('created_at', `${filters.dateTo}T23:59:59`)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as EmailLog[]
+}
 
-    console.log('Direct fetch response status:', response.status)
-    console.log('Direct fetch response ok:', response.ok)
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Direct fetch error response:', errorText)
-      
-      let errorMessage = `HTTP ${response.status}`
-      try {
-        const errorData = JSON.parse(errorText)
-        errorMessage = errorData.error || errorData.message || errorText
-      } catch {
-        errorMessage = errorText || `HTTP ${response.status}`
-      }
-      
-      return { success: false, error: errorMessage }
-    }
-
-    const data = await response.json()
-    console.log('=== Email Sent Successfully via Direct Fetch ===')
-    console.log('Response data:', data)
-
-    return { success: true }
-
-  } catch (fetchError: any) {
-    console.error('=== Direct Fetch Fallback Failed ===')
-    console.error('Fetch error:', fetchError)
-    console.error('Fetch error message:', fetchError?.message)
-    
-    return { 
-      success: false, 
-      error: `Direct fetch failed: ${fetchError?.message || 'Unknown error'}` 
-    }
+// Queues a fresh copy of the email; the original row keeps its own history
+export const resendEmail = async (emailLogId: string): Promise<EmailLog> => {
+  const { data, error } = await supabase.rpc('resend_email', { p_email_log_id: emailLogId })
+
+  if (error) {
+    console.error('resend_email error:', error)
+    throw new Error(error.message || 'Failed to resend email')
   }
+
+  void triggerEmailOutbox()
+  return data as EmailLog
 }
 
-// Alternative function using fetch directly (if you prefer this approach)
-export const sendBillEmailDirect = async (emailData: BillEmailData): Promise<{success: boolean; error?: string}> => {
-  try {
-    console.log('=== Starting Direct Email Send ===')
-    
-    const INTERNAL_SEND_TOKEN = import.meta.env.VITE_INTERNAL_SEND_TOKEN
-    const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL
-
-    if (!INTERNAL_SEND_TOKEN || !SUPABASE_URL) {
-      return { 
-        success: false, 
-        error: 'Missing environment variables: VITE_INTERNAL_SEND_TOKEN or VITE_SUPABASE_URL' 
-      }
-    }
-
-    const requestBody = {
-      to: emailData.customerEmail,
-      customerName: emailData.customerName,
-      orderDisplayId: emailData.orderDisplayId,
-      receiptNo: emailData.receiptNo,
-      totalAmount: emailData.totalAmount,
-      paymentMethod: emailData.paymentMethod,
-      orderItems: emailData.orderItems,
-      orderDate: emailData.orderDate,
-      salesRepName: emailData.salesRepName,
-      vehicleNumber: emailData.vehicleNumber,
-      orderId: emailData.orderId,
-      subTotal: emailData.subTotal, // New
-      vatAmount: emailData.vatAmount, // New
-      isVatApplicable: emailData.isVatApplicable, // New
-    }
-
-    const functionUrl = `${SUPABASE_URL}/functions/v1/send-receipt-email`
-    
-    console.log('Sending direct request to:', functionUrl)
-    
-    const response = await fetch(functionUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-internal-send-token': INTERNAL_SEND_TOKEN,
-      },
-      body: JSON.stringify(requestBody)
-    })
+export const fetchEmailTemplates = async (): Promise<EmailTemplateSummary[]> => {
+  const { data, error } = await supabase.functions.invoke('preview-email-template', { body: {} })
 
-    console.log('Response status:', response.status)
-
-    if (!response.ok) {
-      const errorText = await response.text()
-      console.error('Error response:', errorText)
-      
-      let errorMessage = `HTTP ${response.status}`
-      try {
-        const errorData = JSON.parse(errorText)
-        errorMessage = errorData.error || errorData.message || errorText
-      } catch {
-        errorMessage = errorText
-      }
-      
-      return { success: false, error: errorMessage }
-    }
-
-    const data = await response.json()
-    console.log('=== Direct Email Send Successful ===')
-    console.log('Response:', data)
-
-    return { success: true }
-
-  } catch (error: any) {
-    console.error('=== Direct Email Send Failed ===')
-    console.error('Error:', error)
-    
-    return { 
-      success: false, 
-      error: error?.message || 'Direct send failed' 
-    }
+  if (error || !data?.success) {
+    console.error('preview-email-template error:', error || data?.error)
+    throw new Error(data?.error || error?.message || 'Failed to load email templates')
   }
-}
\ No newline at end of file
+
+  return data.templates as EmailTemplateSummary[]
+}
+
+// Renders a template server-side; without `data` the template's sample variables are used
+export const previewEmailTemplate = async (
+  template: string,
+  version?: number,
+  data?: Record<string, unknown>
+): Promise<EmailTemplatePreview> => {
+  const { data: result, error } = await supabase.functions.invoke('preview-email-template', {
+    body: { template, version, data }
+  })
+
+  if (error || !result?.success) {
+    console.error('preview-email-template error:', error || result?.error)
+    throw new Error(result?.error || error?.message || 'Failed to preview email template')
+  }
+
+  return result as EmailTemplatePreview
+}
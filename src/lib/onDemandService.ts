@@ -0,0 +1,409 @@
+// src/lib/onDemandService.ts
+
+import { supabase, OnDemandAssignment, OnDemandAssignmentItem, OnDemandOrder, OnDemandReconciliation, OnDemandTransfer } from './supabase'
+
+// What is left on the van: assigned and transferred in, less sold, returned and transferred out
+export const remainingQuantity = (
+  item: Pick<OnDemandAssignmentItem, 'assigned_quantity' | 'sold_quantity' | 'returned_quantity' | 'transferred_in_quantity' | 'transferred_out_quantity'>
+) =>
+  Math.round((
+    Number(item.assigned_quantity) + Number(item.transferred_in_quantity || 0)
+    - Number(item.sold_quantity) - Number(item.returned_quantity) - Number(item.transferred_out_quantity || 0)
+  ) * 100) / 100
+
+export interface OnDemandSaleItem {
+  assignmentItemId: string
+  quantity: number
+  price: number
+  overrideId?: string // Approved price override for a price outside the selling band
+}
+
+export interface CreateOnDemandSaleParams {
+  customerType: 'existing' | 'walk-in'
+  existingCustomerId?: string | null
+  customerName?: string
+  customerPhone?: string
+  paymentMethod: 'Net' | 'Cash'
+  items: OnDemandSaleItem[]
+}
+
+// Creates the order header, one line per product and the sold quantities on the rep's
+// assignment items in a single transaction via `create_on_demand_sale`. One sale is one
+// receipt, however many products it has.
+export const createOnDemandSale = async (params: CreateOnDemandSaleParams): Promise<OnDemandOrder> => {
+  const { data, error } = await supabase.rpc('create_on_demand_sale', {
+    p_customer_type: params.customerType,
+    p_existing_customer_id: params.customerType === 'existing' ? params.existingCustomerId || null : null,
+    p_customer_name: params.customerName || null,
+    p_customer_phone: params.customerPhone || null,
+    p_payment_method: params.paymentMethod,
+    p_items: params.items.map(item => ({
+      assignment_item_id: item.assignmentItemId,
+      quantity: item.quantity,
+      price: item.price,
+      override_id: item.overrideId || null
+    }))
+  })
+
+  if (error) {
+    console.error('create_on_demand_sale error:', error)
+    if (error.message?.includes('row-level security policy')) {
+      throw new Error('Permission denied. Please ensure you have the necessary permissions to record sales.')
+    }
+    throw new Error(error.message || 'Failed to complete sale')
+  }
+
+  return data as OnDemandOrder
+}
+
+export interface OnDemandCollections {
+  cash: number
+  net: number
+}
+
+export interface ReconciliationSheet {
+  items: OnDemandAssignmentItem[]
+  collections: OnDemandCollections
+}
+
+// What should come back on the van and in the rep's hands: the assignment's items as they
+// stand now, and the line totals of every sale from them split by payment method.
+export const fetchReconciliationSheet = async (assignmentId: string): Promise<ReconciliationSheet> => {
+  const { data, error } = await supabase
+    .from('on_demand_assignment_items')
+    .select('id, on_demand_assignment_id, product_id, assigned_quantity, sold_quantity, returned_quantity, transferred_in_quantity, transferred_out_quantity, created_at, products(name), on_demand_order_items(id, line_total, on_demand_orders(payment_method))')
+    .eq('on_demand_assignment_id', assignmentId)
+    .order('created_at')
+
+  if (error) throw error
+
+  const items = (data || []) as unknown as OnDemandAssignmentItem[]
+  const collections: OnDemandCollections = { cash: 0, net: 0 }
+  items.forEach(item => {
+    item.on_demand_order_items?.forEach(line => {
+      if (line.on_demand_orders?.payment_method === 'Cash') collections.cash += Number(line.line_total)
+      if (line.on_demand_orders?.payment_method === 'Net') collections.net += Number(line.line_total)
+    })
+  })
+
+  return { items, collections }
+}
+
+export const fetchReconciliation = async (assignmentId: string): Promise<OnDemandReconciliation | null> => {
+  const { data, error } = await supabase
+    .from('on_demand_reconciliations')
+    .select('*, reconciled_by_user:users!on_demand_reconciliations_reconciled_by_fkey(username), on_demand_reconciliation_items(*, products(name))')
+    .eq('on_demand_assignment_id', assignmentId)
+    .maybeSingle()
+
+  if (error) throw error
+  return data as OnDemandReconciliation | null
+}
+
+export interface ReconciliationCount {
+  assignmentItemId: string
+  countedQuantity: number
+  varianceReason?: string
+}
+
+export interface CloseAssignmentParams {
+  assignmentId: string
+  items: ReconciliationCount[]
+  cashHandedIn: number
+  netReceived: number
+  cashVarianceReason?: string
+  netVarianceReason?: string
+  notes?: string
+}
+
+// Records the reconciliation, restocks the counted remainder and completes the assignment in
+// one transaction via `close_on_demand_assignment`. Expected quantities and collections are
+// recomputed there, so a sale made while the sheet was open is still accounted for.
+export const closeOnDemandAssignment = async (params: CloseAssignmentParams): Promise<OnDemandReconciliation> => {
+  const { data, error } = await supabase.rpc('close_on_demand_assignment', {
+    p_assignment_id: params.assignmentId,
+    p_items: params.items.map(item => ({
+      assignment_item_id: item.assignmentItemId,
+      counted_quantity: item.countedQuantity,
+      variance_reason: item.varianceReason || null
+    })),
+    p_cash_handed_in: params.cashHandedIn,
+    p_net_received: params.netReceived,
+    p_cash_variance_reason: params.cashVarianceReason || null,
+    p_net_variance_reason: params.netVarianceReason || null,
+    p_notes: params.notes || null
+  })
+
+  if (error) {
+    console.error('close_on_demand_assignment error:', error)
+    throw new Error(error.message || 'Failed to close assignment')
+  }
+
+  return data as OnDemandReconciliation
+}
+
+export interface CreateAssignmentParams {
+  salesRepId: string
+  assignmentDate: string
+  vehicleNumber?: string | null
+  notes?: string | null
+  items: StockRequestItem[]
+}
+
+// Creates the assignment and its items and takes the stock out of inventory in one
+// transaction via `create_on_demand_assignment`. Nothing is written if any product is short.
+export const createOnDemandAssignment = async (params: CreateAssignmentParams): Promise<OnDemandAssignment> => {
+  const { data, error } = await supabase.rpc('create_on_demand_assignment', {
+    p_sales_rep_id: params.salesRepId,
+    p_assignment_date: params.assignmentDate,
+    p_vehicle_number: params.vehicleNumber || null,
+    p_notes: params.notes || null,
+    p_items: params.items.map(item => ({
+      product_id: item.productId,
+      quantity: item.quantity
+    }))
+  })
+
+  if (error) {
+    console.error('create_on_demand_assignment error:', error)
+    throw new Error(error.message || 'Failed to create assignment')
+  }
+
+  return data as OnDemandAssignment
+}
+
+// Returns stock from a rep's van to the farm via `return_on_demand_stock`, which checks what is
+// left on the van with the item locked
+export const returnOnDemandStock = async (assignmentItemId: string, quantity: number): Promise<OnDemandAssignmentItem> => {
+  const { data, error } = await supabase.rpc('return_on_demand_stock', {
+    p_assignment_item_id: assignmentItemId,
+    p_quantity: quantity
+  })
+
+  if (error) {
+    console.error('return_on_demand_stock error:', error)
+    throw new Error(error.message || 'Failed to return products')
+  }
+
+  return data as OnDemandAssignmentItem
+}
+
+// Restocks everything left on the van and cancels the assignment in one transaction. Refused
+// while a transfer to or from the van is pending.
+export const cancelOnDemandAssignment = async (assignmentId: string): Promise<OnDemandAssignment> => {
+  const { data, error } = await supabase.rpc('cancel_on_demand_assignment', { p_assignment_id: assignmentId })
+
+  if (error) {
+    console.error('cancel_on_demand_assignment error:', error)
+    throw new Error(error.message || 'Failed to cancel assignment')
+  }
+
+  return data as OnDemandAssignment
+}
+
+const TRANSFER_SELECT = `
+  *,
+  products(name),
+  from_rep:users!on_demand_transfers_from_rep_id_fkey(username),
+  to_rep:users!on_demand_transfers_to_rep_id_fkey(username)
+`
+
+// Pending transfers to or from the user's vans, newest first
+export const fetchPendingTransfers = async (userId: string): Promise<OnDemandTransfer[]> => {
+  const { data, error } = await supabase
+    .from('on_demand_transfers')
+    .select(TRANSFER_SELECT)
+    .eq('status', 'pending')
+    .or(`from_rep_id.eq.${userId},to_rep_id.eq.${userId}`)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as OnDemandTransfer[]
+}
+
+// Every transfer into or out of the assignment's items, for its reconciliation
+export const fetchAssignmentTransfers = async (assignmentId: string): Promise<OnDemandTransfer[]> => {
+  const { data: items, error: itemsError } = await supabase
+    .from('on_demand_assignment_items')
+    .select('id')
+    .eq('on_demand_assignment_id', assignmentId)
+
+  if (itemsError) throw itemsError
+  if (!items || items.length === 0) return []
+
+  const ids = items.map((item: { id: string }) => item.id).join(',')
+  const { data, error } = await supabase
+    .from('on_demand_transfers')
+    .select(TRANSFER_SELECT)
+    .or(`from_assignment_item_id.in.(${ids}),to_assignment_item_id.in.(${ids})`)
+    .order('created_at')
+
+  if (error) throw error
+  return (data || []) as OnDemandTransfer[]
+}
+
+export interface RequestTransferParams {
+  fromAssignmentItemId: string
+  toRepId: string
+  quantity: number
+  notes?: string
+}
+
+// Takes the quantity off the sending van straight away; it lands on the receiver's van only
+// once they accept, and goes back if they reject or the sender cancels.
+export const requestOnDemandTransfer = async (params: RequestTransferParams): Promise<OnDemandTransfer> => {
+  const { data, error } = await supabase.rpc('request_on_demand_transfer', {
+    p_from_assignment_item_id: params.fromAssignmentItemId,
+    p_to_rep_id: params.toRepId,
+    p_quantity: params.quantity,
+    p_notes: params.notes || null
+  })
+
+  if (error) {
+    console.error('request_on_demand_transfer error:', error)
+    throw new Error(error.message || 'Failed to request transfer')
+  }
+
+  return data as OnDemandTransfer
+}
+
+export const acceptOnDemandTransfer = async (transferId: string): Promise<OnDemandTransfer> => {
+  const { data, error } = await supabase.rpc('accept_on_demand_transfer', { p_transfer_id: transferId })
+
+  if (error) {
+    console.error('accept_on_demand_transfer error:', error)
+    throw new Error(error.message || 'Failed to accept transfer')
+  }
+
+  return data as OnDemandTransfer
+}
+
+export const rejectOnDemandTransfer = async (transferId: string): Promise<OnDemandTransfer> => {
+  const { data, error } = await supabase.rpc('reject_on_demand_transfer', { p_transfer_id: transferId })
+
+  if (error) {
+    console.error('reject_on_demand_transfer error:', error)
+    throw new Error(error.message || 'Failed to reject transfer')
+  }
+
+  return data as OnDemandTransfer
+}
+
+export const cancelOnDemandTransfer = async (transferId: string): Promise<OnDemandTransfer> => {
+  const { data, error } = await supabase.rpc('cancel_on_demand_transfer', { p_transfer_id: transferId })
+
+  if (error) {
+    console.error('cancel_on_demand_transfer error:', error)
+    throw new Error(error.message || 'Failed to cancel transfer')
+  }
+
+  return data as OnDemandTransfer
+}
+
+export interface StockRequestItem {
+  productId: string
+  quantity: number
+}
+
+// A sales rep's own request for van stock. Nothing leaves inventory until it is approved.
+export const requestOnDemandStock = async (
+  items: StockRequestItem[],
+  vehicleNumber?: string,
+  notes?: string
+): Promise<OnDemandAssignment> => {
+  const { data, error } = await supabase.rpc('request_on_demand_stock', {
+    p_items: items.map(item => ({ product_id: item.productId, quantity: item.quantity })),
+    p_vehicle_number: vehicleNumber || null,
+    p_notes: notes || null
+  })
+
+  if (error) {
+    console.error('request_on_demand_stock error:', error)
+    throw new Error(error.message || 'Failed to submit request')
+  }
+
+  return data as OnDemandAssignment
+}
+
+// Requests waiting for review, oldest first, with the stock on hand for each product
+export const fetchPendingStockRequests = async (): Promise<OnDemandAssignment[]> => {
+  const { data, error } = await supabase
+    .from('on_demand_assignments')
+    .select(`
+      *,
+      sales_rep:users!on_demand_assignments_sales_rep_id_fkey(username),
+      assignment_items:on_demand_assignment_items(id, product_id, assigned_quantity, requested_quantity, products(name, quantity))
+    `)
+    .eq('status', 'requested')
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as OnDemandAssignment[]
+}
+
+// The rep's requests still waiting, and reviewed ones whose outcome they have not dismissed
+export const fetchMyStockRequests = async (userId: string): Promise<OnDemandAssignment[]> => {
+  const { data, error } = await supabase
+    .from('on_demand_assignments')
+    .select(`
+      *,
+      reviewed_by_user:users!on_demand_assignments_reviewed_by_fkey(username),
+      assignment_items:on_demand_assignment_items(id, product_id, assigned_quantity, requested_quantity, products(name))
+    `)
+    .eq('sales_rep_id', userId)
+    .eq('assignment_type', 'sales_rep_requested')
+    .or('status.eq.requested,and(reviewed_at.not.is.null,outcome_seen_at.is.null)')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as OnDemandAssignment[]
+}
+
+export interface ApprovedQuantity {
+  assignmentItemId: string
+  quantity: number
+}
+
+// Sets the approved quantities (0 drops the product) and takes the stock out of inventory in
+// one transaction via `approve_on_demand_request`
+export const approveStockRequest = async (
+  assignmentId: string,
+  items: ApprovedQuantity[],
+  reviewNotes?: string
+): Promise<OnDemandAssignment> => {
+  const { data, error } = await supabase.rpc('approve_on_demand_request', {
+    p_assignment_id: assignmentId,
+    p_items: items.map(item => ({ assignment_item_id: item.assignmentItemId, quantity: item.quantity })),
+    p_review_notes: reviewNotes || null
+  })
+
+  if (error) {
+    console.error('approve_on_demand_request error:', error)
+    throw new Error(error.message || 'Failed to approve request')
+  }
+
+  return data as OnDemandAssignment
+}
+
+export const rejectStockRequest = async (assignmentId: string, reason: string): Promise<OnDemandAssignment> => {
+  const { data, error } = await supabase.rpc('reject_on_demand_request', {
+    p_assignment_id: assignmentId,
+    p_review_notes: reason
+  })
+
+  if (error) {
+    console.error('reject_on_demand_request error:', error)
+    throw new Error(error.message || 'Failed to reject request')
+  }
+
+  return data as OnDemandAssignment
+}
+
+export const dismissStockRequestOutcome = async (assignmentId: string): Promise<void> => {
+  const { error } = await supabase.rpc('dismiss_on_demand_request_outcome', { p_assignment_id: assignmentId })
+
+  if (error) {
+    console.error('dismiss_on_demand_request_outcome error:', error)
+    throw new Error(error.message || 'Failed to dismiss request')
+  }
+}
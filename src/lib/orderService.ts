@@ -0,0 +1,110 @@
+// src/lib/orderService.ts
+
+import { supabase, Order, OrderStageDuration, OrderStatus, OrderStatusHistory } from './supabase'
+
+export interface CreateSalesOrderItem {
+  productId: string
+  quantity: number
+  price: number
+  discount?: number
+  overrideId?: string // Approved price override for a price outside the selling band
+}
+
+export interface CreateSalesOrderParams {
+  customerId: string
+  assignedTo: string
+  items: CreateSalesOrderItem[]
+  vehicleNumber?: string | null
+  deliveryDate?: string | null
+  purchaseOrderId?: string | null
+}
+
+// Creates the order, its items and the stock decrement in a single transaction
+// via the `create_sales_order` database function. Nothing is written if any step fails.
+export const createSalesOrder = async (params: CreateSalesOrderParams): Promise<Order> => {
+  const { data, error } = await supabase.rpc('create_sales_order', {
+    p_customer_id: params.customerId,
+    p_assigned_to: params.assignedTo,
+    p_items: params.items.map(item => ({
+      product_id: item.productId,
+      quantity: item.quantity,
+      price: item.price,
+      discount: item.discount || 0,
+      override_id: item.overrideId || null
+    })),
+    p_vehicle_number: params.vehicleNumber || null,
+    p_delivery_date: params.deliveryDate || null,
+    p_purchase_order_id: params.purchaseOrderId || null
+  })
+
+  if (error) {
+    console.error('create_sales_order error:', error)
+    if (error.message?.includes('row-level security policy')) {
+      throw new Error('Permission denied. Please ensure you have the necessary permissions to create orders.')
+    }
+    throw new Error(error.message || 'Failed to create order')
+  }
+
+  return data as Order
+}
+
+export const fetchOrderStatusHistory = async (orderId: string): Promise<OrderStatusHistory[]> => {
+  const { data, error } = await supabase
+    .from('order_status_history')
+    .select(`
+      *,
+      changed_by_user:users!order_status_history_changed_by_fkey(username)
+    `)
+    .eq('order_id', orderId)
+    .order('changed_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as OrderStatusHistory[]
+}
+
+// Completed stages (the order has moved on) entered on or after `since`
+export const fetchOrderStageDurations = async (since: string): Promise<OrderStageDuration[]> => {
+  const { data, error } = await supabase
+    .from('order_stage_durations')
+    .select('*')
+    .gte('entered_at', since)
+
+  if (error) throw error
+  return (data || []) as OrderStageDuration[]
+}
+
+export interface StageDurationSummary {
+  group: string
+  orderCount: number
+  stages: Partial<Record<OrderStatus, { averageSeconds: number; count: number }>>
+}
+
+// Average time per stage, grouped by sales rep or vehicle
+export const summarizeStageDurations = (
+  rows: OrderStageDuration[],
+  groupBy: 'sales_rep_username' | 'vehicle_number'
+): StageDurationSummary[] => {
+  const groups = new Map<string, { orders: Set<string>; totals: Map<OrderStatus, { seconds: number; count: number }> }>()
+
+  for (const row of rows) {
+    const key = row[groupBy] || (groupBy === 'vehicle_number' ? 'No vehicle' : 'Unassigned')
+    const group = groups.get(key) || { orders: new Set<string>(), totals: new Map() }
+    const total = group.totals.get(row.stage) || { seconds: 0, count: 0 }
+
+    total.seconds += row.duration_seconds
+    total.count += 1
+    group.totals.set(row.stage, total)
+    group.orders.add(row.order_id)
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.entries())
+    .map(([group, { orders, totals }]) => {
+      const stages: StageDurationSummary['stages'] = {}
+      totals.forEach((total, stage) => {
+        stages[stage] = { averageSeconds: total.seconds / total.count, count: total.count }
+      })
+      return { group, orderCount: orders.size, stages }
+    })
+    .sort((a, b) => a.group.localeCompare(b.group))
+}
@@ -0,0 +1,63 @@
+// src/lib/orderWorkflow.ts
+
+import { supabase, OrderStatus, OrderStatusTransition, Permission } from './supabase'
+
+// Every order status in workflow order. The allowed moves between them live in the
+// order_status_transitions table, which the orders trigger also enforces.
+export const ORDER_STATUSES: OrderStatus[] = [
+  'Pending',
+  'Assigned',
+  'Products Loaded',
+  'Product Reloaded',
+  'Security Check Incomplete',
+  'Security Checked',
+  'Security Check Bypassed Due to Off Hours',
+  'Departed Farm',
+  'Delivered',
+  'Cancelled',
+  'Completed'
+]
+
+const TRANSITIONS_CACHE_KEY = 'order_status_transitions'
+
+// Loads the workflow, falling back to the last copy seen so status menus keep
+// working offline. Returns an empty list if neither is available.
+export const fetchOrderStatusTransitions = async (): Promise<OrderStatusTransition[]> => {
+  try {
+    const { data, error } = await supabase
+      .from('order_status_transitions')
+      .select('from_status, to_status, permission, security_check_status, stamps_completion')
+
+    if (error) throw error
+
+    localStorage.setItem(TRANSITIONS_CACHE_KEY, JSON.stringify(data || []))
+    return (data || []) as OrderStatusTransition[]
+  } catch (error) {
+    console.error('Error fetching order status transitions:', error)
+    const cachedData = localStorage.getItem(TRANSITIONS_CACHE_KEY)
+    return cachedData ? JSON.parse(cachedData) : []
+  }
+}
+
+// Statuses a user may move an order to from `currentStatus`, in workflow order. Each move
+// needs the permission stored on its transition; `can` comes from usePermissions().
+export const getNextStatuses = (
+  transitions: OrderStatusTransition[],
+  currentStatus: OrderStatus,
+  can: (permission: Permission) => boolean
+): OrderStatus[] => {
+  const allowed = new Set(
+    transitions
+      .filter(transition => transition.from_status === currentStatus && can(transition.permission))
+      .map(transition => transition.to_status)
+  )
+
+  return ORDER_STATUSES.filter(status => allowed.has(status))
+}
+
+export const canTransition = (
+  transitions: OrderStatusTransition[],
+  currentStatus: OrderStatus,
+  nextStatus: OrderStatus,
+  can: (permission: Permission) => boolean
+): boolean => getNextStatuses(transitions, currentStatus, can).includes(nextStatus)
@@ -0,0 +1,118 @@
+// src/lib/permissionService.ts
+
+import { supabase, Permission, PermissionDefinition, Role } from './supabase'
+
+const PERMISSIONS_CACHE_PREFIX = 'permissions_'
+export const PERMISSIONS_CHANGED_EVENT = 'permissions-changed'
+
+const pending = new Map<string, Promise<Permission[]>>()
+
+// Capabilities granted to the signed-in user's role, as decided by my_permissions() in the
+// database. Falls back to the last copy seen for this user so menus keep working offline.
+export const fetchMyPermissions = (userId: string): Promise<Permission[]> => {
+  const inFlight = pending.get(userId)
+  if (inFlight) return inFlight
+
+  const cacheKey = `${PERMISSIONS_CACHE_PREFIX}${userId}`
+  const request = (async () => {
+    try {
+      if (!navigator.onLine) throw new Error('Offline')
+
+      const { data, error } = await supabase.rpc('my_permissions')
+      if (error) throw error
+
+      const permissions = (data || []) as Permission[]
+      localStorage.setItem(cacheKey, JSON.stringify(permissions))
+      return permissions
+    } catch (error) {
+      console.error('my_permissions error:', error)
+      const cachedData = localStorage.getItem(cacheKey)
+      return cachedData ? (JSON.parse(cachedData) as Permission[]) : []
+    } finally {
+      pending.delete(userId)
+    }
+  })()
+
+  pending.set(userId, request)
+  return request
+}
+
+export const getCachedPermissions = (userId: string): Permission[] | null => {
+  const cachedData = localStorage.getItem(`${PERMISSIONS_CACHE_PREFIX}${userId}`)
+  return cachedData ? (JSON.parse(cachedData) as Permission[]) : null
+}
+
+// Tells every mounted usePermissions() to reload, e.g. after a role's bundle is edited
+export const notifyPermissionsChanged = () => {
+  window.dispatchEvent(new Event(PERMISSIONS_CHANGED_EVENT))
+}
+
+export const fetchPermissionCatalog = async (): Promise<PermissionDefinition[]> => {
+  const { data, error } = await supabase
+    .from('permissions')
+    .select('key, category, description')
+    .order('category')
+    .order('key')
+
+  if (error) throw error
+  return (data || []) as PermissionDefinition[]
+}
+
+interface RoleRow extends Omit<Role, 'permissions'> {
+  role_permissions: { permission: Permission }[] | null
+}
+
+export const fetchRoles = async (): Promise<Role[]> => {
+  const { data, error } = await supabase
+    .from('roles')
+    .select('name, description, is_system, created_at, role_permissions(permission)')
+    .order('created_at')
+    .order('name')
+
+  if (error) throw error
+  return ((data || []) as RoleRow[]).map(role => ({
+    name: role.name,
+    description: role.description,
+    is_system: role.is_system,
+    created_at: role.created_at,
+    permissions: (role.role_permissions || []).map(grant => grant.permission)
+  }))
+}
+
+export const setRolePermissions = async (role: string, permissions: Permission[]): Promise<void> => {
+  const { error } = await supabase.rpc('set_role_permissions', {
+    p_role: role,
+    p_permissions: permissions
+  })
+
+  if (error) {
+    console.error('set_role_permissions error:', error)
+    throw new Error(error.message || 'Failed to save role permissions')
+  }
+  notifyPermissionsChanged()
+}
+
+export const createRole = async (name: string, description: string, permissions: Permission[]): Promise<void> => {
+  const { error } = await supabase
+    .from('roles')
+    .insert([{ name: name.trim(), description: description.trim() || null }])
+
+  if (error) {
+    console.error('Error creating role:', error)
+    throw new Error(error.code === '23505' ? `A role named "${name.trim()}" already exists` : error.message)
+  }
+
+  if (permissions.length > 0) {
+    await setRolePermissions(name.trim(), permissions)
+  }
+}
+
+export const deleteRole = async (name: string): Promise<void> => {
+  const { error } = await supabase.from('roles').delete().eq('name', name)
+
+  if (error) {
+    console.error('Error deleting role:', error)
+    // users.role references roles(name), so a role still in use cannot be removed
+    throw new Error(error.code === '23503' ? `"${name}" is still assigned to users` : error.message)
+  }
+}
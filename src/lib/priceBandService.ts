@@ -0,0 +1,203 @@
+// src/lib/priceBandService.ts
+
+import { supabase, PriceBand, PriceOverride, PriceOverrideCode, PriceOverrideRequest, Product, ProductPriceField } from './supabase'
+
+export interface ResolvedPriceBand {
+  band: PriceBand | null
+  basePrice: number
+  min: number
+  max: number
+}
+
+export interface SavePriceBandParams {
+  id?: string
+  productId?: string | null
+  categoryId?: string | null
+  baseTier: ProductPriceField
+  bandType: 'amount' | 'percent'
+  below: number
+  above: number
+}
+
+export interface PriceOverrideRequestParams {
+  productId: string
+  customerId?: string | null
+  context: PriceOverride['context']
+  price: number
+}
+
+export interface RedeemPriceOverrideParams extends PriceOverrideRequestParams {
+  code: string
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100
+
+export const fetchPriceBands = async (): Promise<PriceBand[]> => {
+  const { data, error } = await supabase
+    .from('price_bands')
+    .select('*, products(name, sku), categories(category_name)')
+    .order('created_at', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as PriceBand[]
+}
+
+export const savePriceBand = async (params: SavePriceBandParams, userId?: string): Promise<void> => {
+  const row = {
+    product_id: params.productId || null,
+    category_id: params.productId ? null : params.categoryId || null,
+    base_tier: params.baseTier,
+    band_type: params.productId ? params.bandType : 'percent',
+    below: params.below,
+    above: params.above,
+    updated_by: userId || null,
+    updated_at: new Date().toISOString()
+  }
+
+  const { error } = params.id
+    ? await supabase.from('price_bands').update(row).eq('id', params.id)
+    : await supabase.from('price_bands').insert(row)
+
+  if (error) throw error
+}
+
+export const deletePriceBand = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('price_bands')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+// The product's own band, else its category's. Without either the band is zero-width
+// around Dealer Cash, so any custom price needs an approval code. The sale functions check
+// the same band on the server with `resolve_price_band`.
+export const resolvePriceBand = (
+  product: Pick<Product, 'id' | 'category_id' | ProductPriceField>,
+  bands: PriceBand[]
+): ResolvedPriceBand => {
+  const band = bands.find(b => b.product_id === product.id)
+    || (product.category_id ? bands.find(b => b.category_id === product.category_id) : undefined)
+    || null
+
+  const basePrice = Number(product[band?.base_tier || 'price_dealer_cash']) || 0
+  if (!band) {
+    return { band: null, basePrice, min: basePrice, max: basePrice }
+  }
+
+  const below = Number(band.below)
+  const above = Number(band.above)
+  if (band.band_type === 'percent') {
+    return {
+      band,
+      basePrice,
+      min: round2(Math.max(0, basePrice * (1 - below / 100))),
+      max: round2(basePrice * (1 + above / 100))
+    }
+  }
+
+  return {
+    band,
+    basePrice,
+    min: round2(Math.max(0, basePrice - below)),
+    max: round2(basePrice + above)
+  }
+}
+
+export const isWithinBand = (price: number, band: ResolvedPriceBand) =>
+  price >= band.min && price <= band.max
+
+export const describeBand = (band: ResolvedPriceBand) =>
+  band.band
+    ? `Rs ${band.min.toFixed(2)} - Rs ${band.max.toFixed(2)}`
+    : `Rs ${band.basePrice.toFixed(2)} (no band set)`
+
+// Asks a manager to approve one over-band price; returns the rep's pending request for the
+// same price if there already is one
+export const requestPriceOverride = async (params: PriceOverrideRequestParams): Promise<PriceOverrideRequest> => {
+  const { data, error } = await supabase.rpc('request_price_override', {
+    p_product_id: params.productId,
+    p_customer_id: params.customerId || null,
+    p_context: params.context,
+    p_price: params.price
+  })
+
+  if (error) {
+    console.error('request_price_override error:', error)
+    throw new Error(error.message || 'Failed to request approval')
+  }
+
+  return data as PriceOverrideRequest
+}
+
+export const fetchPendingPriceOverrideRequests = async (): Promise<PriceOverrideRequest[]> => {
+  const { data, error } = await supabase
+    .from('price_override_requests')
+    .select(`
+      *,
+      products(name, sku),
+      customers(name),
+      requested_by_user:users!price_override_requests_requested_by_fkey(username)
+    `)
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as PriceOverrideRequest[]
+}
+
+// Issues a 6-digit code valid for 15 minutes that approves the requested price, for the rep
+// who asked for it only
+export const issuePriceOverrideCode = async (requestId: string): Promise<PriceOverrideCode> => {
+  const { data, error } = await supabase.rpc('issue_price_override_code', { p_request_id: requestId })
+
+  if (error) {
+    console.error('issue_price_override_code error:', error)
+    throw new Error(error.message || 'Failed to issue approval code')
+  }
+
+  return data as PriceOverrideCode
+}
+
+// Uses up the code and logs the override with the band it was outside of. The server works
+// out the band itself, only accepts the code for the request it was issued for, and allows a
+// few wrong codes before locking the user out for a while.
+export const redeemPriceOverrideCode = async (params: RedeemPriceOverrideParams): Promise<PriceOverride> => {
+  const { data, error } = await supabase.rpc('redeem_price_override_code', {
+    p_code: params.code,
+    p_product_id: params.productId,
+    p_customer_id: params.customerId || null,
+    p_context: params.context,
+    p_price: params.price
+  })
+
+  if (error) {
+    console.error('redeem_price_override_code error:', error)
+    throw new Error(error.message || 'Failed to apply approval code')
+  }
+
+  // A wrong code comes back empty rather than as an error, so the attempt still counts
+  if (!data?.id) {
+    throw new Error('Approval code is invalid, expired or already used')
+  }
+
+  return data as PriceOverride
+}
+
+export const fetchPriceOverrides = async (limit = 100): Promise<PriceOverride[]> => {
+  const { data, error } = await supabase
+    .from('price_overrides')
+    .select(`
+      *,
+      products(name, sku),
+      customers(name),
+      approved_by_user:users!price_overrides_approved_by_fkey(username),
+      requested_by_user:users!price_overrides_requested_by_fkey(username)
+    `)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as PriceOverride[]
+}
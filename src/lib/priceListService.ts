@@ -0,0 +1,157 @@
+// src/lib/priceListService.ts
+
+import { supabase, Customer, PriceList, Product } from './supabase'
+
+export type CustomerPriceMap = Map<string, number>
+
+type PricedCustomer = Pick<Customer, 'id' | 'customer_category' | 'type'>
+
+interface AssignmentPriceRow {
+  customer_id: string | null
+  customer_category: string | null
+  payment_type: string | null
+  price_lists: { is_active: boolean; price_list_items: { product_id: string; price: number }[] | null } | null
+}
+
+// Price for a product from the four tier columns. Categories without a tier
+// column of their own (e.g. 'Other' or ones added in System Settings) use Dealer pricing.
+export const getTierPrice = (
+  product: Pick<Product, 'price_dealer_cash' | 'price_dealer_credit' | 'price_hotel_cash' | 'price_hotel_credit'>,
+  customerCategory: string,
+  customerType: string
+): number => {
+  if (customerCategory === 'Hotel') {
+    return customerType === 'Cash' ? product.price_hotel_cash : product.price_hotel_credit
+  }
+  if (customerCategory === 'Dealer') {
+    return customerType === 'Cash' ? product.price_dealer_cash : product.price_dealer_credit
+  }
+  return product.price_dealer_cash
+}
+
+// Loads every active price list that applies to the customer and flattens it
+// into product id -> price. Priority, highest last so it wins:
+// category list (any payment type), category list for the customer's payment type,
+// the customer's own contract list.
+export const fetchCustomerPriceMap = async (customer: PricedCustomer): Promise<CustomerPriceMap> => {
+  const { data, error } = await supabase
+    .from('price_list_assignments')
+    .select(`
+      customer_id, customer_category, payment_type,
+      price_lists!inner(is_active, price_list_items(product_id, price))
+    `)
+    .or(`customer_id.eq.${customer.id},customer_category.eq."${customer.customer_category}"`)
+
+  if (error) throw error
+
+  const rank = (assignment: AssignmentPriceRow) => {
+    if (assignment.customer_id) return 3
+    return assignment.payment_type ? 2 : 1
+  }
+
+  const applicable = ((data || []) as AssignmentPriceRow[])
+    .filter(assignment =>
+      assignment.price_lists?.is_active &&
+      (!assignment.payment_type || assignment.payment_type === customer.type)
+    )
+    .sort((a, b) => rank(a) - rank(b))
+
+  const prices: CustomerPriceMap = new Map()
+  for (const assignment of applicable) {
+    for (const item of assignment.price_lists?.price_list_items || []) {
+      prices.set(item.product_id, Number(item.price))
+    }
+  }
+
+  return prices
+}
+
+export const fetchPriceLists = async (): Promise<PriceList[]> => {
+  const { data, error } = await supabase
+    .from('price_lists')
+    .select(`
+      *,
+      price_list_items(*, products(name, sku)),
+      price_list_assignments(*, customers(name, customer_display_id))
+    `)
+    .order('name')
+
+  if (error) throw error
+  return (data || []) as PriceList[]
+}
+
+export const savePriceList = async (
+  priceList: { id?: string; name: string; description?: string | null; is_active: boolean },
+  userId?: string
+): Promise<PriceList> => {
+  const payload = {
+    name: priceList.name.trim(),
+    description: priceList.description?.trim() || null,
+    is_active: priceList.is_active
+  }
+
+  const { data, error } = priceList.id
+    ? await supabase.from('price_lists').update(payload).eq('id', priceList.id).select().single()
+    : await supabase.from('price_lists').insert([{ ...payload, created_by: userId || null }]).select().single()
+
+  if (error) throw error
+  return data as PriceList
+}
+
+export const deletePriceList = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('price_lists')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+export const upsertPriceListItem = async (priceListId: string, productId: string, price: number): Promise<void> => {
+  const { error } = await supabase
+    .from('price_list_items')
+    .upsert([{ price_list_id: priceListId, product_id: productId, price }], { onConflict: 'price_list_id,product_id' })
+
+  if (error) throw error
+}
+
+export const deletePriceListItem = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('price_list_items')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
+
+export const addPriceListAssignment = async (
+  priceListId: string,
+  target: { customerId?: string | null; customerCategory?: string | null; paymentType?: 'Cash' | 'Credit' | null },
+  userId?: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from('price_list_assignments')
+    .insert([{
+      price_list_id: priceListId,
+      customer_id: target.customerId || null,
+      customer_category: target.customerId ? null : target.customerCategory || null,
+      payment_type: target.customerId ? null : target.paymentType || null,
+      created_by: userId || null
+    }])
+
+  if (error) {
+    if (error.code === '23505') {
+      throw new Error('That customer or category already has a price list assigned.')
+    }
+    throw error
+  }
+}
+
+export const deletePriceListAssignment = async (id: string): Promise<void> => {
+  const { error } = await supabase
+    .from('price_list_assignments')
+    .delete()
+    .eq('id', id)
+
+  if (error) throw error
+}
@@ -0,0 +1,208 @@
+// src/lib/priceService.ts
+
+import { supabase, PriceHistory, Product, ProductPriceField, ScheduledPriceChange } from './supabase'
+
+export const PRICE_FIELDS: ProductPriceField[] = [
+  'price_dealer_cash',
+  'price_dealer_credit',
+  'price_hotel_cash',
+  'price_hotel_credit'
+]
+
+export const PRICE_FIELD_LABELS: Record<ProductPriceField, string> = {
+  price_dealer_cash: 'Dealer Cash',
+  price_dealer_credit: 'Dealer Credit',
+  price_hotel_cash: 'Hotel Cash',
+  price_hotel_credit: 'Hotel Credit'
+}
+
+// The calendar date (YYYY-MM-DD) in Sri Lanka, `offsetDays` from today. Effective dates are
+// Sri Lanka dates; toISOString() would give the UTC date, which lags by 5.5 hours.
+export const colomboDate = (offsetDays = 0): string => {
+  const date = new Date(Date.now() + offsetDays * 24 * 60 * 60 * 1000)
+  return date.toLocaleDateString('en-CA', { timeZone: 'Asia/Colombo' })
+}
+
+// Builds the per-tier price history for a product from products_audit.
+// One audit row can change several tiers, so it is split into one entry per tier.
+export const fetchPriceHistory = async (productId: string): Promise<PriceHistory[]> => {
+  const { data, error } = await supabase
+    .from('products_audit')
+    .select(`
+      id, product_id, changed_columns, changed_by_username, modified_at,
+      old_price_dealer_cash, old_price_dealer_credit, old_price_hotel_cash, old_price_hotel_credit,
+      new_price_dealer_cash, new_price_dealer_credit, new_price_hotel_cash, new_price_hotel_credit
+    `)
+    .eq('product_id', productId)
+    .order('modified_at', { ascending: true })
+
+  if (error) throw error
+
+  const history: PriceHistory[] = []
+  for (const row of data || []) {
+    const changedColumns: string[] = row.changed_columns || []
+    for (const field of PRICE_FIELDS) {
+      if (!changedColumns.includes(field)) continue
+
+      const oldPrice = row[`old_${field}`]
+      const newPrice = row[`new_${field}`]
+      if (newPrice === null || newPrice === undefined || oldPrice === newPrice) continue
+
+      history.push({
+        id: `${row.id}-${field}`,
+        product_id: row.product_id,
+        price_field: field,
+        old_price: oldPrice ?? null,
+        new_price: newPrice,
+        changed_by: row.changed_by_username || 'Unknown',
+        changed_at: row.modified_at
+      })
+    }
+  }
+
+  return history
+}
+
+// Price of a tier in effect at the end of `date` (YYYY-MM-DD). Falls back to the
+// old value of the first recorded change, then to the current price.
+export const getPriceOnDate = (
+  history: PriceHistory[],
+  field: ProductPriceField,
+  date: string,
+  currentPrice: number
+): number => {
+  const endOfDay = new Date(`${date}T23:59:59.999`).getTime()
+  const tierHistory = history
+    .filter(entry => entry.price_field === field)
+    .sort((a, b) => new Date(a.changed_at).getTime() - new Date(b.changed_at).getTime())
+
+  if (tierHistory.length === 0) return currentPrice
+
+  let price: number | null = tierHistory[0].old_price
+  for (const entry of tierHistory) {
+    if (new Date(entry.changed_at).getTime() > endOfDay) break
+    price = entry.new_price
+  }
+
+  return price ?? tierHistory[0].new_price
+}
+
+export type TierPrices = Pick<Product, ProductPriceField>
+
+export interface SchedulePriceChangeParams {
+  productId: string
+  prices: Partial<Record<ProductPriceField, number | null>>
+  effectiveDate: string
+  categoryId?: string | null
+  notes?: string | null
+}
+
+export const fetchPendingPriceChanges = async (productId?: string): Promise<ScheduledPriceChange[]> => {
+  let query = supabase
+    .from('scheduled_price_changes')
+    .select(`
+      *,
+      products(name, sku),
+      created_by_user:users!scheduled_price_changes_created_by_fkey(username)
+    `)
+    .eq('status', 'pending')
+    .order('effective_date', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (productId) {
+    query = query.eq('product_id', productId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as ScheduledPriceChange[]
+}
+
+export const schedulePriceChanges = async (
+  changes: SchedulePriceChangeParams[],
+  userId?: string
+): Promise<void> => {
+  const rows = changes.map(change => ({
+    product_id: change.productId,
+    price_dealer_cash: change.prices.price_dealer_cash ?? null,
+    price_dealer_credit: change.prices.price_dealer_credit ?? null,
+    price_hotel_cash: change.prices.price_hotel_cash ?? null,
+    price_hotel_credit: change.prices.price_hotel_credit ?? null,
+    effective_date: change.effectiveDate,
+    category_id: change.categoryId || null,
+    notes: change.notes || null,
+    created_by: userId || null
+  }))
+
+  const { error } = await supabase
+    .from('scheduled_price_changes')
+    .insert(rows)
+
+  if (error) throw error
+}
+
+export const cancelScheduledPriceChange = async (id: string, userId?: string): Promise<void> => {
+  const { error } = await supabase
+    .from('scheduled_price_changes')
+    .update({
+      status: 'cancelled',
+      cancelled_by: userId || null,
+      cancelled_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('status', 'pending')
+
+  if (error) throw error
+}
+
+// Writes due changes onto the products table. Safe to call often; it only
+// touches changes whose effective date has arrived.
+export const applyDuePriceChanges = async (): Promise<void> => {
+  const { error } = await supabase.rpc('apply_due_price_changes')
+  if (error) {
+    console.error('apply_due_price_changes error:', error)
+  }
+}
+
+// Overlays pending changes that are active on `date` (YYYY-MM-DD) onto the
+// products' tier prices, so pricing is correct even before the changes are
+// applied to the products table. Returns the products unchanged on failure.
+export const resolveScheduledPrices = async <T extends { id: string } & Partial<TierPrices>>(
+  products: T[],
+  date: string = colomboDate()
+): Promise<T[]> => {
+  if (products.length === 0) return products
+
+  try {
+    const { data, error } = await supabase
+      .from('scheduled_price_changes')
+      .select('product_id, price_dealer_cash, price_dealer_credit, price_hotel_cash, price_hotel_credit, effective_date, created_at')
+      .eq('status', 'pending')
+      .lte('effective_date', date)
+      .in('product_id', products.map(p => p.id))
+      .order('effective_date', { ascending: true })
+      .order('created_at', { ascending: true })
+
+    if (error) throw error
+    if (!data || data.length === 0) return products
+
+    const overrides = new Map<string, Partial<TierPrices>>()
+    for (const change of data) {
+      const current = overrides.get(change.product_id) || {}
+      for (const field of PRICE_FIELDS) {
+        if (change[field] !== null && change[field] !== undefined) {
+          current[field] = change[field]
+        }
+      }
+      overrides.set(change.product_id, current)
+    }
+
+    return products.map(product => {
+      const override = overrides.get(product.id)
+      return override ? { ...product, ...override } : product
+    })
+  } catch (error) {
+    console.error('Error resolving scheduled prices:', error)
+    return products
+  }
+}
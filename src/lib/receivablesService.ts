@@ -0,0 +1,314 @@
+// src/lib/receivablesService.ts
+
+import { supabase, CreditOverride, CustomerCreditStatus, CustomerLedgerEntry, CustomerOrderBalance, CustomerPayment, CustomerStatement } from './supabase'
+import { triggerEmailOutbox } from './emailService'
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+'
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+']
+
+export interface CustomerAging {
+  customer_id: string
+  total: number
+  buckets: Record<AgingBucket, number>
+  oldest_invoice_date: string
+}
+
+export interface LedgerRow extends CustomerLedgerEntry {
+  balance: number
+}
+
+export interface PaymentAllocation {
+  orderId: string
+  amount: number
+}
+
+export interface ReceiveCustomerPaymentParams {
+  customerId: string
+  amount: number
+  paymentMethod: CustomerPayment['payment_method']
+  paymentDate: string
+  referenceNo?: string | null
+  notes?: string | null
+  allocations: PaymentAllocation[]
+}
+
+// Open (outstanding > 0) invoices, oldest first. Pass a customer id to limit to one customer.
+export const fetchOpenOrderBalances = async (customerId?: string): Promise<CustomerOrderBalance[]> => {
+  let query = supabase
+    .from('customer_order_balances')
+    .select('*')
+    .gt('outstanding_amount', 0)
+    .order('invoice_date', { ascending: true })
+
+  if (customerId) {
+    query = query.eq('customer_id', customerId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as CustomerOrderBalance[]
+}
+
+// Ledger entries in date order with a running balance (debits increase what the customer owes)
+export const fetchCustomerLedger = async (customerId: string): Promise<LedgerRow[]> => {
+  const { data, error } = await supabase
+    .from('customer_ledger_entries')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('entry_date', { ascending: true })
+
+  if (error) throw error
+
+  let balance = 0
+  return ((data || []) as CustomerLedgerEntry[]).map(entry => {
+    balance += Number(entry.debit) - Number(entry.credit)
+    return { ...entry, balance: Math.round(balance * 100) / 100 }
+  })
+}
+
+// Previous calendar month as YYYY-MM-DD dates, the period the scheduled statement run uses
+export const lastMonthPeriod = (today: Date = new Date()): { start: string; end: string } => {
+  const toDate = (date: Date) =>
+    `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+  return {
+    start: toDate(new Date(today.getFullYear(), today.getMonth() - 1, 1)),
+    end: toDate(new Date(today.getFullYear(), today.getMonth(), 0))
+  }
+}
+
+// Opening balance, the period's ledger entries with a running balance, and the closing balance
+export const fetchCustomerStatement = async (
+  customerId: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<CustomerStatement> => {
+  const { data, error } = await supabase.rpc('customer_statement', {
+    p_customer_id: customerId,
+    p_period_start: periodStart,
+    p_period_end: periodEnd
+  })
+
+  if (error) {
+    console.error('customer_statement error:', error)
+    throw new Error(error.message || 'Failed to load statement')
+  }
+
+  return data as CustomerStatement
+}
+
+// When the statement for this customer and period was last queued, or null if never
+export const fetchStatementSentAt = async (
+  customerId: string,
+  periodStart: string,
+  periodEnd: string
+): Promise<string | null> => {
+  const { data, error } = await supabase
+    .from('customer_statements')
+    .select('generated_at')
+    .eq('customer_id', customerId)
+    .eq('period_start', periodStart)
+    .eq('period_end', periodEnd)
+    .maybeSingle()
+
+  if (error) throw error
+  return data?.generated_at ?? null
+}
+
+// Queues the statement email and returns its email_logs id. A period already sent is not
+// queued again unless `force` is set.
+export const queueCustomerStatement = async (
+  customerId: string,
+  periodStart: string,
+  periodEnd: string,
+  force = false
+): Promise<string> => {
+  const { data, error } = await supabase.rpc('queue_customer_statement', {
+    p_customer_id: customerId,
+    p_period_start: periodStart,
+    p_period_end: periodEnd,
+    p_force: force
+  })
+
+  if (error) {
+    console.error('queue_customer_statement error:', error)
+    throw new Error(error.message || 'Failed to queue statement')
+  }
+
+  void triggerEmailOutbox()
+  return data as string
+}
+
+// Queues statements for every customer with activity in the period (last month by default)
+// that has not had one yet. Returns how many were queued.
+export const queueMonthlyStatements = async (periodStart?: string, periodEnd?: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('queue_monthly_statements', {
+    p_period_start: periodStart ?? null,
+    p_period_end: periodEnd ?? null
+  })
+
+  if (error) {
+    console.error('queue_monthly_statements error:', error)
+    throw new Error(error.message || 'Failed to queue monthly statements')
+  }
+
+  if (data > 0) void triggerEmailOutbox()
+  return Number(data) || 0
+}
+
+export const getAgingBucket = (invoiceDate: string, asOf: Date = new Date()): AgingBucket => {
+  const days = Math.floor((asOf.getTime() - new Date(invoiceDate).getTime()) / (1000 * 60 * 60 * 24))
+  if (days <= 30) return '0-30'
+  if (days <= 60) return '31-60'
+  if (days <= 90) return '61-90'
+  return '90+'
+}
+
+// Outstanding per customer split into aging buckets by invoice date
+export const computeAging = (balances: CustomerOrderBalance[], asOf: Date = new Date()): CustomerAging[] => {
+  const byCustomer = new Map<string, CustomerAging>()
+
+  for (const balance of balances) {
+    const aging = byCustomer.get(balance.customer_id) || {
+      customer_id: balance.customer_id,
+      total: 0,
+      buckets: { '0-30': 0, '31-60': 0, '61-90': 0, '90+': 0 },
+      oldest_invoice_date: balance.invoice_date
+    }
+
+    const outstanding = Number(balance.outstanding_amount)
+    aging.total += outstanding
+    aging.buckets[getAgingBucket(balance.invoice_date, asOf)] += outstanding
+    if (balance.invoice_date < aging.oldest_invoice_date) {
+      aging.oldest_invoice_date = balance.invoice_date
+    }
+    byCustomer.set(balance.customer_id, aging)
+  }
+
+  return Array.from(byCustomer.values()).sort((a, b) => b.total - a.total)
+}
+
+// Spreads `amount` over the open invoices oldest first
+export const allocateOldestFirst = (amount: number, balances: CustomerOrderBalance[]): PaymentAllocation[] => {
+  let remaining = Math.round(amount * 100) / 100
+  const allocations: PaymentAllocation[] = []
+
+  for (const balance of [...balances].sort((a, b) => a.invoice_date.localeCompare(b.invoice_date))) {
+    if (remaining <= 0) break
+    const allocated = Math.min(remaining, Number(balance.outstanding_amount))
+    allocations.push({ orderId: balance.order_id, amount: allocated })
+    remaining = Math.round((remaining - allocated) * 100) / 100
+  }
+
+  return allocations
+}
+
+// Records the payment and its allocations and updates each order's payment status
+// atomically via the `receive_customer_payment` database function.
+export const receiveCustomerPayment = async (params: ReceiveCustomerPaymentParams): Promise<CustomerPayment> => {
+  const { data, error } = await supabase.rpc('receive_customer_payment', {
+    p_customer_id: params.customerId,
+    p_amount: params.amount,
+    p_payment_method: params.paymentMethod,
+    p_payment_date: params.paymentDate,
+    p_reference_no: params.referenceNo || null,
+    p_notes: params.notes || null,
+    p_allocations: params.allocations
+      .filter(allocation => allocation.amount > 0)
+      .map(allocation => ({ order_id: allocation.orderId, amount: allocation.amount }))
+  })
+
+  if (error) {
+    console.error('receive_customer_payment error:', error)
+    throw new Error(error.message || 'Failed to record payment')
+  }
+
+  return data as CustomerPayment
+}
+
+// Exposure at or above this share of the credit limit shows a warning
+export const CREDIT_WARNING_RATIO = 0.9
+
+export interface CreditCheckResult {
+  exposure: number
+  overLimit: boolean
+  overdue: boolean
+  nearLimit: boolean
+  reasons: string[]
+}
+
+export const fetchCustomerCreditStatuses = async (customerId?: string): Promise<CustomerCreditStatus[]> => {
+  let query = supabase
+    .from('customer_credit_status')
+    .select('*')
+
+  if (customerId) {
+    query = query.eq('customer_id', customerId)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as CustomerCreditStatus[]
+}
+
+// Exposure is what the customer owes on delivered orders, plus orders not yet
+// delivered, plus the order being placed. Overdue invoices put the customer on hold
+// regardless of the limit.
+export const evaluateCreditCheck = (status: CustomerCreditStatus | null, newOrderTotal: number): CreditCheckResult => {
+  const exposure = status
+    ? Number(status.outstanding_amount) + Number(status.undelivered_amount) + newOrderTotal
+    : newOrderTotal
+  const limit = status?.credit_limit ?? null
+  const overLimit = limit !== null && exposure > Number(limit)
+  const overdue = !!status && Number(status.overdue_amount) > 0
+  const nearLimit = limit !== null && !overLimit && exposure >= Number(limit) * CREDIT_WARNING_RATIO
+
+  const reasons: string[] = []
+  if (overLimit) {
+    reasons.push(`Outstanding plus this order (Rs ${exposure.toFixed(2)}) exceeds the credit limit of Rs ${Number(limit).toFixed(2)}`)
+  }
+  if (overdue && status) {
+    reasons.push(`Rs ${Number(status.overdue_amount).toFixed(2)} is overdue past the ${status.payment_terms_days}-day payment terms`)
+  }
+  if (nearLimit) {
+    reasons.push(`This order brings the customer to Rs ${exposure.toFixed(2)} of the Rs ${Number(limit).toFixed(2)} credit limit`)
+  }
+
+  return { exposure, overLimit, overdue, nearLimit, reasons }
+}
+
+// The customer's oldest override that is still valid and has not been used
+export const fetchActiveCreditOverride = async (customerId: string): Promise<CreditOverride | null> => {
+  const { data, error } = await supabase
+    .from('credit_overrides')
+    .select(`
+      *,
+      approved_by_user:users!credit_overrides_approved_by_fkey(username)
+    `)
+    .eq('customer_id', customerId)
+    .is('used_order_id', null)
+    .gte('valid_until', new Date().toISOString().split('T')[0])
+    .order('created_at', { ascending: true })
+    .limit(1)
+
+  if (error) throw error
+  return (data && data[0]) || null
+}
+
+export const grantCreditOverride = async (
+  customerId: string,
+  reason: string,
+  validUntil: string,
+  userId?: string
+): Promise<void> => {
+  const { error } = await supabase
+    .from('credit_overrides')
+    .insert([{
+      customer_id: customerId,
+      reason: reason.trim(),
+      valid_until: validUntil,
+      approved_by: userId || null
+    }])
+
+  if (error) throw error
+}
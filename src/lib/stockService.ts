@@ -0,0 +1,103 @@
+// src/lib/stockService.ts
+
+import { supabase, BatchRecord, StockMovement, StockMovementType } from './supabase'
+
+export interface RecordStockMovementParams {
+  productId: string
+  quantityDelta: number
+  movementType: StockMovementType
+  referenceType?: string | null
+  referenceId?: string | null
+  referenceNo?: string | null
+  notes?: string | null
+}
+
+export interface ReceiveStockBatchParams {
+  productId: string
+  quantity: number
+  batchNumber?: string | null
+  expiryDate?: string | null
+  notes?: string | null
+}
+
+export const STOCK_MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  receipt: 'Stock Receipt',
+  sale: 'Sale',
+  return: 'Customer Return',
+  on_demand_issue: 'On-Demand Issue',
+  on_demand_return: 'On-Demand Return',
+  adjustment: 'Manual Adjustment'
+}
+
+// Applies a signed quantity change to a product and writes the matching
+// stock_movements row in one transaction via `record_stock_movement`.
+// The change is relative to the current database value, never a client snapshot.
+export const recordStockMovement = async (params: RecordStockMovementParams): Promise<StockMovement> => {
+  const { data, error } = await supabase.rpc('record_stock_movement', {
+    p_product_id: params.productId,
+    p_quantity_delta: params.quantityDelta,
+    p_movement_type: params.movementType,
+    p_reference_type: params.referenceType || null,
+    p_reference_id: params.referenceId || null,
+    p_reference_no: params.referenceNo || null,
+    p_notes: params.notes || null
+  })
+
+  if (error) {
+    console.error('record_stock_movement error:', error)
+    throw new Error(error.message || 'Failed to update stock')
+  }
+
+  return data as StockMovement
+}
+
+export const fetchStockMovements = async (productId: string): Promise<StockMovement[]> => {
+  const { data, error } = await supabase
+    .from('stock_movements')
+    .select(`
+      *,
+      created_by_user:users!stock_movements_created_by_fkey(username)
+    `)
+    .eq('product_id', productId)
+    .order('created_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as StockMovement[]
+}
+
+// Records a stock receipt as a new batch. Later decreases (sales, on-demand
+// issues, adjustments) consume batches first-expiry-first-out in the database.
+export const receiveStockBatch = async (params: ReceiveStockBatchParams): Promise<BatchRecord> => {
+  const { data, error } = await supabase.rpc('receive_stock_batch', {
+    p_product_id: params.productId,
+    p_quantity: params.quantity,
+    p_batch_number: params.batchNumber || null,
+    p_expiry_date: params.expiryDate || null,
+    p_notes: params.notes || null
+  })
+
+  if (error) {
+    console.error('receive_stock_batch error:', error)
+    throw new Error(error.message || 'Failed to receive stock')
+  }
+
+  return data as BatchRecord
+}
+
+// Batches with stock on hand that expire on or before `withinDays` from today,
+// including ones that have already expired
+export const fetchNearExpiryBatches = async (withinDays: number): Promise<BatchRecord[]> => {
+  const cutoff = new Date()
+  cutoff.setDate(cutoff.getDate() + withinDays)
+
+  const { data, error } = await supabase
+    .from('product_batches')
+    .select('*, products(name, sku)')
+    .gt('quantity', 0)
+    .not('expiry_date', 'is', null)
+    .lte('expiry_date', cutoff.toISOString().split('T')[0])
+    .order('expiry_date', { ascending: true })
+
+  if (error) throw error
+  return (data || []) as BatchRecord[]
+}
@@ -5,10 +5,11 @@ let supabaseInitError: string | null = null
 
 try {
   const supabaseUrl = import.meta.env.VITE_SUPABASE_URL
-  const supabaseKey = import.meta.env.VITE_SUPABASE_SERVICE_ROLE_KEY || import.meta.env.VITE_SUPABASE_ANON_KEY
+  // Only the anon key belongs in the browser; privileged work runs in edge functions
+  const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY
 
   if (!supabaseUrl || !supabaseKey) {
-    const errorMessage = 'Missing Supabase environment variables. Please check your .env file and ensure VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY (or VITE_SUPABASE_SERVICE_ROLE_KEY) are set correctly.'
+    const errorMessage = 'Missing Supabase environment variables. Please check your .env file and ensure VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are set correctly.'
     console.error('Missing Supabase environment variables:', {
       url: supabaseUrl ? 'Present' : 'Missing',
       key: supabaseKey ? 'Present' : 'Missing'
@@ -110,6 +111,8 @@ export interface Customer {
   customer_category: 'Dealer' | 'Hotel' | 'Other'
   vat_status: 'VAT' | 'Non-VAT'
   tin_number?: string | null
+  credit_limit?: number | null
+  payment_terms_days?: number | null
 }
 
 export interface ContactPerson {
@@ -120,22 +123,55 @@ export interface ContactPerson {
   created_at: string
 }
 
+export type OrderStatus =
+  | 'Pending'
+  | 'Assigned'
+  | 'Products Loaded'
+  | 'Product Reloaded'
+  | 'Security Check Incomplete'
+  | 'Security Checked'
+  | 'Security Check Bypassed Due to Off Hours'
+  | 'Departed Farm'
+  | 'Delivered'
+  | 'Cancelled'
+  | 'Completed'
+
+export interface OrderStatusTransition {
+  from_status: OrderStatus
+  to_status: OrderStatus
+  permission: Permission
+  security_check_status: 'pending' | 'completed' | 'incomplete' | 'bypassed' | null
+  stamps_completion: boolean
+}
+
+export interface OrderStatusHistory {
+  id: string
+  order_id: string
+  from_status: OrderStatus | null
+  to_status: OrderStatus
+  changed_by: string | null
+  changed_at: string
+  notes: string | null
+  changed_by_user?: { username: string } | null
+}
+
+export interface OrderStageDuration {
+  order_id: string
+  stage: OrderStatus
+  entered_at: string
+  exited_at: string
+  duration_seconds: number
+  assigned_to: string | null
+  sales_rep_username: string | null
+  vehicle_number: string | null
+}
+
 export interface Order {
   id: string
   customer_id: string
   order_display_id: string
   purchase_order_id?: string | null
-  status:
-    | 'Pending'
-    | 'Assigned'
-    | 'Products Loaded'
-    | 'Security Check Incomplete'
-    | 'Security Checked'
-    | 'Departed Farm'
-    | 'Delivered'
-    | 'Cancelled'
-    | 'Completed'
-    | 'Security Check Bypassed Due to Off Hours'
+  status: OrderStatus
   created_by: string
   created_at: string
   completed_at?: string
@@ -155,6 +191,7 @@ export interface Order {
   total_amount: number // Changed from optional to required
   vat_amount: number // New
   is_vat_applicable: boolean // New
+  vat_rate?: number | null // Rate the order was priced at
 }
 
 export interface OrderItem {
@@ -170,8 +207,9 @@ export interface User {
   id: string
   username: string
   password_hash: string
-  role: 'Super Admin' | 'Admin' | 'Sales Rep' | 'Security Guard' | 'Order Manager' | 'Finance Admin'
-  device_id: string
+  role: string
+  device_id: string | null
+  device_binding: boolean
   first_login: boolean
   created_at: string
   email?: string
@@ -180,21 +218,34 @@ export interface User {
   last_name: string
   employee_id?: string
   phone_number: string
+  active: boolean
+  deactivated_at?: string | null
 }
 
 export interface BatchRecord {
   id: string
   product_id: string
   batch_number: string
+  received_quantity: number
   quantity: number
-  expiry_date?: string
+  expiry_date?: string | null
+  created_by?: string | null
   created_at: string
+  updated_at?: string
+  products?: Pick<Product, 'name' | 'sku'>
 }
 
+export type ProductPriceField =
+  | 'price_dealer_cash'
+  | 'price_dealer_credit'
+  | 'price_hotel_cash'
+  | 'price_hotel_credit'
+
 export interface PriceHistory {
   id: string
   product_id: string
-  old_price: number
+  price_field: ProductPriceField
+  old_price: number | null
   new_price: number
   changed_by: string
   changed_at: string
@@ -206,9 +257,14 @@ export interface OnDemandAssignment {
   assigned_by: string
   assignment_date: string
   notes: string
-  status: 'active' | 'completed' | 'cancelled'
+  // Sales rep requests start as 'requested' and become 'active' or 'rejected' on review
+  status: 'requested' | 'active' | 'completed' | 'cancelled' | 'rejected'
   vehicle_number: string | null
   assignment_type: 'admin_assigned' | 'sales_rep_requested'
+  reviewed_by?: string | null
+  reviewed_at?: string | null
+  review_notes?: string | null
+  outcome_seen_at?: string | null
   created_at: string
   updated_at: string
   sales_rep?: {
@@ -217,6 +273,9 @@ export interface OnDemandAssignment {
   assigned_by_user?: {
     username: string
   }
+  reviewed_by_user?: {
+    username: string
+  }
   assignment_items?: OnDemandAssignmentItem[]
 }
 
@@ -225,23 +284,49 @@ export interface OnDemandAssignmentItem {
   on_demand_assignment_id: string
   product_id: string
   assigned_quantity: number
+  // What a sales rep asked for, when they requested the stock themselves
+  requested_quantity?: number | null
   sold_quantity: number
   returned_quantity: number
+  transferred_in_quantity: number
+  transferred_out_quantity: number
   created_at: string
   products?: Product
-  on_demand_orders?: OnDemandOrder[]
+  on_demand_order_items?: OnDemandOrderItem[]
+}
+
+// Van stock moved from one rep's assignment to another's; lands once the receiver accepts
+export interface OnDemandTransfer {
+  id: string
+  from_assignment_item_id: string
+  to_assignment_item_id: string | null
+  product_id: string
+  from_rep_id: string
+  to_rep_id: string
+  quantity: number
+  status: 'pending' | 'accepted' | 'rejected' | 'cancelled'
+  notes: string | null
+  requested_by: string
+  responded_by: string | null
+  created_at: string
+  responded_at: string | null
+  products?: Pick<Product, 'name'>
+  from_rep?: {
+    username: string
+  }
+  to_rep?: {
+    username: string
+  }
 }
 
+// One sale from a van: a single receipt and payment, with a line per product sold
 export interface OnDemandOrder {
   id: string
-  on_demand_assignment_item_id: string
   sales_rep_id: string
   customer_name: string
   customer_phone?: string
   customer_type: 'existing' | 'walk-in'
   existing_customer_id?: string
-  quantity_sold: number
-  selling_price: number
   total_amount: number
   sale_date: string
   on_demand_order_display_id: string
@@ -250,6 +335,55 @@ export interface OnDemandOrder {
   customers?: Customer
   payment_method?: 'Net' | 'Cash' | null
   receipt_no?: string | null
+  on_demand_order_items?: OnDemandOrderItem[]
+}
+
+export interface OnDemandOrderItem {
+  id: string
+  on_demand_order_id: string
+  on_demand_assignment_item_id: string
+  product_id: string
+  quantity: number
+  price: number
+  line_total: number
+  created_at: string
+  products?: Pick<Product, 'name'>
+  on_demand_orders?: OnDemandOrder
+}
+
+// End-of-day close-out of an assignment: counted van stock and collections against the sales
+export interface OnDemandReconciliation {
+  id: string
+  on_demand_assignment_id: string
+  expected_cash: number
+  expected_net: number
+  cash_handed_in: number
+  net_received: number
+  cash_variance: number
+  net_variance: number
+  cash_variance_reason: string | null
+  net_variance_reason: string | null
+  notes: string | null
+  reconciled_by: string | null
+  reconciled_at: string
+  reconciled_by_user?: {
+    username: string
+  }
+  on_demand_reconciliation_items?: OnDemandReconciliationItem[]
+}
+
+export interface OnDemandReconciliationItem {
+  id: string
+  on_demand_reconciliation_id: string
+  on_demand_assignment_item_id: string
+  product_id: string
+  transferred_in_quantity: number
+  transferred_out_quantity: number
+  expected_quantity: number
+  counted_quantity: number
+  variance: number
+  variance_reason: string | null
+  products?: Pick<Product, 'name'>
 }
 
 export interface Vehicle {
@@ -269,4 +403,428 @@ export interface SystemSettings {
   customer_categories: string[]; // Array of strings, e.g., ['Dealer', 'Hotel', 'Other']
   created_at: string;
   updated_at: string;
-}
\ No newline at end of file
+}
+export type StockMovementType =
+  | 'receipt'
+  | 'sale'
+  | 'return'
+  | 'on_demand_issue'
+  | 'on_demand_return'
+  | 'adjustment'
+
+export interface StockMovement {
+  id: string
+  product_id: string
+  movement_type: StockMovementType
+  quantity_delta: number
+  balance_after: number
+  reference_type?: string | null
+  reference_id?: string | null
+  reference_no?: string | null
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+  created_by_user?: {
+    username: string
+  } | null
+}
+
+export interface ScheduledPriceChange {
+  id: string
+  product_id: string
+  price_dealer_cash: number | null
+  price_dealer_credit: number | null
+  price_hotel_cash: number | null
+  price_hotel_credit: number | null
+  effective_date: string
+  status: 'pending' | 'applied' | 'cancelled'
+  category_id?: string | null
+  notes?: string | null
+  created_by?: string | null
+  created_at: string
+  cancelled_by?: string | null
+  cancelled_at?: string | null
+  applied_at?: string | null
+  products?: Pick<Product, 'name' | 'sku'>
+  created_by_user?: {
+    username: string
+  } | null
+}
+
+export interface PriceList {
+  id: string
+  name: string
+  description?: string | null
+  is_active: boolean
+  created_by?: string | null
+  created_at: string
+  updated_at: string
+  price_list_items?: PriceListItem[]
+  price_list_assignments?: PriceListAssignment[]
+}
+
+export interface PriceListItem {
+  id: string
+  price_list_id: string
+  product_id: string
+  price: number
+  created_at: string
+  updated_at: string
+  products?: Pick<Product, 'name' | 'sku'>
+}
+
+export interface PriceListAssignment {
+  id: string
+  price_list_id: string
+  customer_id?: string | null
+  customer_category?: string | null
+  payment_type?: 'Cash' | 'Credit' | null
+  created_at: string
+  customers?: Pick<Customer, 'name' | 'customer_display_id'> | null
+}
+
+// How far a selling price may move from a base tier. A product's own band wins over its
+// category's; category bands are always a percentage.
+export interface PriceBand {
+  id: string
+  product_id: string | null
+  category_id: string | null
+  base_tier: ProductPriceField
+  band_type: 'amount' | 'percent'
+  below: number
+  above: number
+  updated_by?: string | null
+  created_at: string
+  updated_at: string
+  products?: Pick<Product, 'name' | 'sku'> | null
+  categories?: Pick<Category, 'category_name'> | null
+}
+
+export interface PriceOverrideCode {
+  id: string
+  code: string
+  issued_by: string
+  expires_at: string
+  used_by?: string | null
+  used_at?: string | null
+  request_id?: string | null
+  created_at: string
+}
+
+export interface PriceOverrideRequest {
+  id: string
+  product_id: string
+  customer_id?: string | null
+  context: 'on_demand_sale' | 'sales_order'
+  price: number
+  base_price: number
+  min_price: number
+  max_price: number
+  requested_by: string
+  status: 'pending' | 'approved'
+  created_at: string
+  products?: Pick<Product, 'name' | 'sku'>
+  customers?: Pick<Customer, 'name'> | null
+  requested_by_user?: {
+    username: string
+  } | null
+}
+
+export interface PriceOverride {
+  id: string
+  product_id: string
+  customer_id?: string | null
+  context: 'on_demand_sale' | 'sales_order'
+  base_price: number
+  min_price: number
+  max_price: number
+  price: number
+  code_id: string
+  approved_by: string
+  requested_by: string
+  order_id?: string | null
+  order_item_id?: string | null
+  on_demand_order_id?: string | null
+  on_demand_order_item_id?: string | null
+  used_at?: string | null
+  created_at: string
+  products?: Pick<Product, 'name' | 'sku'>
+  customers?: Pick<Customer, 'name'> | null
+  approved_by_user?: {
+    username: string
+  } | null
+  requested_by_user?: {
+    username: string
+  } | null
+}
+
+export interface CustomerPayment {
+  id: string
+  customer_id: string
+  amount: number
+  payment_method: 'Cash' | 'Net' | 'Cheque'
+  payment_date: string
+  reference_no?: string | null
+  notes?: string | null
+  received_by?: string | null
+  created_at: string
+}
+
+export interface CustomerOrderBalance {
+  order_id: string
+  customer_id: string
+  order_display_id: string
+  receipt_no?: string | null
+  status: OrderStatus
+  invoice_date: string
+  total_amount: number
+  collected_amount: number
+  credited_amount: number
+  outstanding_amount: number
+  payment_status: 'fully_paid' | 'partially_paid' | 'unpaid'
+}
+
+export interface CustomerLedgerEntry {
+  customer_id: string
+  entry_date: string
+  entry_type: 'invoice' | 'payment' | 'credit_note'
+  reference: string | null
+  order_id: string | null
+  payment_id: string | null
+  debit: number
+  credit: number
+}
+
+export interface CustomerCreditStatus {
+  customer_id: string
+  credit_limit: number | null
+  payment_terms_days: number | null
+  outstanding_amount: number
+  undelivered_amount: number
+  overdue_amount: number
+  oldest_overdue_date: string | null
+}
+
+export interface CreditOverride {
+  id: string
+  customer_id: string
+  reason: string
+  valid_until: string
+  approved_by?: string | null
+  created_at: string
+  used_order_id?: string | null
+  used_by?: string | null
+  used_at?: string | null
+  approved_by_user?: { username: string } | null
+}
+
+export interface TaxInvoiceLine {
+  id: string
+  tax_invoice_id: string
+  line_no: number
+  order_item_id?: string | null
+  product_name: string
+  quantity: number
+  unit_price: number
+  discount: number
+  line_subtotal: number
+  vat_amount: number
+  line_total: number
+}
+
+export interface TaxInvoice {
+  id: string
+  invoice_no: string
+  order_id: string
+  customer_id: string
+  customer_name: string
+  customer_address?: string | null
+  customer_tin: string
+  vat_rate: number
+  subtotal: number
+  vat_amount: number
+  total_amount: number
+  issued_at: string
+  issued_by?: string | null
+  print_count: number
+  last_printed_at?: string | null
+  tax_invoice_lines?: TaxInvoiceLine[]
+}
+
+export interface CreditNote {
+  id: string
+  credit_note_no: string
+  order_id: string
+  order_item_id?: string | null
+  order_return_id?: string | null
+  customer_id: string
+  tax_invoice_id?: string | null
+  product_name: string
+  quantity: number
+  unit_price: number
+  subtotal: number
+  vat_rate: number
+  vat_amount: number
+  total_amount: number
+  reason: string
+  disposition: 'restock' | 'quarantine'
+  issued_at: string
+  issued_by?: string | null
+  print_count: number
+  last_printed_at?: string | null
+  customers?: { name: string; address: string | null; tin_number?: string | null }
+  orders?: { order_display_id: string; receipt_no?: string | null }
+  tax_invoices?: { invoice_no: string } | null
+}
+
+export type EmailStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'bounced'
+
+export interface EmailLog {
+  id: string
+  order_id?: string | null
+  on_demand_order_id?: string | null
+  recipient_email: string
+  recipient_name: string
+  email_type: string
+  template_version?: number | null
+  subject: string
+  status: EmailStatus
+  error_message?: string | null
+  sent_at?: string | null
+  retry_count: number
+  max_retries: number
+  next_attempt_at?: string | null
+  last_attempt_at?: string | null
+  message_id?: string | null
+  resend_of?: string | null
+  metadata?: Record<string, unknown> | null
+  created_at: string
+  updated_at: string
+}
+
+export interface EmailTemplateSummary {
+  name: string
+  description: string
+  versions: number[]
+  latestVersion: number
+  requiredVariables: string[]
+  sampleData: Record<string, unknown>
+}
+
+export interface EmailTemplatePreview {
+  template: string
+  version: number
+  subject: string
+  html: string
+  text: string
+}
+
+export interface CustomerStatementEntry extends CustomerLedgerEntry {
+  balance: number
+}
+
+export interface CustomerStatement {
+  customer_id: string
+  period_start: string
+  period_end: string
+  opening_balance: number
+  invoices_total: number
+  payments_total: number
+  returns_total: number
+  closing_balance: number
+  entries: Omit<CustomerStatementEntry, 'customer_id'>[]
+}
+
+export type UserAdminAction =
+  | 'create' | 'update' | 'reset_password' | 'change_role' | 'disable' | 'enable' | 'delete'
+  | 'approve_device' | 'rename_device' | 'revoke_device'
+
+export interface UserAdminAuditEntry {
+  id: string
+  actor_id: string | null
+  action: UserAdminAction
+  target_user_id: string | null
+  target_username: string | null
+  details: Record<string, unknown>
+  succeeded: boolean
+  error_message: string | null
+  created_at: string
+  actor?: { username: string } | null
+}
+
+export interface LoginAuditEntry {
+  id: string
+  user_id: string | null
+  username: string
+  succeeded: boolean
+  failure_reason: string | null
+  device_id: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+export type UserDeviceStatus = 'pending' | 'approved' | 'revoked'
+
+export interface UserDevice {
+  id: string
+  user_id: string
+  device_id: string
+  name: string | null
+  status: UserDeviceStatus
+  user_agent: string | null
+  first_seen_at: string
+  last_seen_at: string
+  approved_by: string | null
+  approved_at: string | null
+}
+
+export type Permission =
+  | 'orders.create'
+  | 'orders.update'
+  | 'orders.assign'
+  | 'orders.transition.delivery'
+  | 'orders.transition.security'
+  | 'orders.complete'
+  | 'orders.cancel'
+  | 'orders.deliver_without_payment'
+  | 'orders.view_all'
+  | 'orders.view_payments'
+  | 'orders.security_review'
+  | 'orders.returns'
+  | 'inventory.manage'
+  | 'catalog.view'
+  | 'catalog.manage'
+  | 'prices.edit'
+  | 'prices.override'
+  | 'customers.view'
+  | 'customers.edit'
+  | 'customers.delete'
+  | 'service.use'
+  | 'on_demand.assignments.view'
+  | 'on_demand.assign'
+  | 'on_demand.view_all'
+  | 'on_demand.sell'
+  | 'on_demand.orders.view'
+  | 'on_demand.reports'
+  | 'receivables.manage'
+  | 'credit.override'
+  | 'emails.manage'
+  | 'documents.archive'
+  | 'reports.view'
+  | 'vehicles.manage'
+  | 'users.manage'
+  | 'settings.manage'
+
+export interface PermissionDefinition {
+  key: Permission
+  category: string
+  description: string
+}
+
+export interface Role {
+  name: string
+  description: string | null
+  is_system: boolean
+  created_at: string
+  permissions: Permission[]
+}
@@ -0,0 +1,43 @@
+// src/lib/taxInvoiceService.ts
+
+import { supabase, TaxInvoice } from './supabase'
+
+// Issues the tax invoice for a delivered VAT order, or returns the one already issued.
+// Numbers come from a gap-free counter, separate from receipt numbers.
+export const issueTaxInvoice = async (orderId: string): Promise<TaxInvoice> => {
+  const { data, error } = await supabase.rpc('issue_tax_invoice', { p_order_id: orderId })
+
+  if (error) {
+    console.error('issue_tax_invoice error:', error)
+    throw new Error(error.message || 'Failed to issue tax invoice')
+  }
+
+  return data as TaxInvoice
+}
+
+export const fetchTaxInvoice = async (orderId: string): Promise<TaxInvoice | null> => {
+  const { data, error } = await supabase
+    .from('tax_invoices')
+    .select('*, tax_invoice_lines(*)')
+    .eq('order_id', orderId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (!data) return null
+
+  const invoice = data as TaxInvoice
+  invoice.tax_invoice_lines = (invoice.tax_invoice_lines || []).sort((a, b) => a.line_no - b.line_no)
+  return invoice
+}
+
+// Returns how many times the invoice has now been printed; anything after the first is a duplicate
+export const recordTaxInvoicePrint = async (invoiceId: string): Promise<number> => {
+  const { data, error } = await supabase.rpc('record_tax_invoice_print', { p_invoice_id: invoiceId })
+
+  if (error) {
+    console.error('record_tax_invoice_print error:', error)
+    throw new Error(error.message || 'Failed to record tax invoice print')
+  }
+
+  return data as number
+}
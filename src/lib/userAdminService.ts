@@ -0,0 +1,109 @@
+// src/lib/userAdminService.ts
+
+import { supabase, User, UserAdminAuditEntry, LoginAuditEntry, UserDevice } from './supabase'
+
+export type UserRole = User['role']
+
+export type UserProfileInput = Pick<User, 'username' | 'title' | 'first_name' | 'last_name' | 'phone_number' | 'device_binding'> & {
+  employee_id?: string
+}
+
+export interface CreateUserInput extends UserProfileInput {
+  email?: string
+  password: string
+  role: UserRole
+}
+
+// Every change to a user goes through the admin-users edge function, which holds the
+// service-role key, checks that the caller may manage users and audits the action.
+const invokeAdminUsers = async (action: string, payload: Record<string, unknown>): Promise<{ userId: string | null }> => {
+  const { data, error } = await supabase.functions.invoke('admin-users', {
+    body: { action, ...payload }
+  })
+
+  if (error || !data?.success) {
+    // Non-2xx responses carry the function's own error message in the response body
+    let message = data?.error
+    if (!message && error?.context instanceof Response) {
+      const body = await error.context.json().catch(() => null)
+      message = body?.error
+    }
+    console.error(`admin-users ${action} error:`, message || error)
+    throw new Error(message || error?.message || 'User administration request failed')
+  }
+
+  return { userId: data.userId ?? null }
+}
+
+export const createUser = async (input: CreateUserInput): Promise<string | null> =>
+  (await invokeAdminUsers('create', { ...input })).userId
+
+export const updateUserProfile = async (userId: string, profile: UserProfileInput): Promise<void> => {
+  await invokeAdminUsers('update', { userId, ...profile })
+}
+
+export const resetUserPassword = async (userId: string, password: string): Promise<void> => {
+  await invokeAdminUsers('reset_password', { userId, password })
+}
+
+export const changeUserRole = async (userId: string, role: UserRole): Promise<void> => {
+  await invokeAdminUsers('change_role', { userId, role })
+}
+
+export const setUserActive = async (userId: string, active: boolean): Promise<void> => {
+  await invokeAdminUsers(active ? 'enable' : 'disable', { userId })
+}
+
+export const approveUserDevice = async (userId: string, deviceId: string): Promise<void> => {
+  await invokeAdminUsers('approve_device', { userId, deviceId })
+}
+
+export const renameUserDevice = async (userId: string, deviceId: string, name: string): Promise<void> => {
+  await invokeAdminUsers('rename_device', { userId, deviceId, name })
+}
+
+export const revokeUserDevice = async (userId: string, deviceId: string): Promise<void> => {
+  await invokeAdminUsers('revoke_device', { userId, deviceId })
+}
+
+export const fetchUserDevices = async (userId: string): Promise<UserDevice[]> => {
+  const { data, error } = await supabase
+    .from('user_devices')
+    .select('*')
+    .eq('user_id', userId)
+    .order('last_seen_at', { ascending: false })
+
+  if (error) throw error
+  return (data || []) as UserDevice[]
+}
+
+export const fetchUserAdminAudit = async (limit = 200): Promise<UserAdminAuditEntry[]> => {
+  const { data, error } = await supabase
+    .from('user_admin_audit')
+    .select('*, actor:users!user_admin_audit_actor_id_fkey(username)')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw error
+  return (data || []) as UserAdminAuditEntry[]
+}
+
+export interface LoginAuditFilters {
+  userId?: string
+  failedOnly?: boolean
+}
+
+export const fetchLoginAudit = async (filters: LoginAuditFilters = {}, limit = 200): Promise<LoginAuditEntry[]> => {
+  let query = supabase
+    .from('login_audit')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (filters.userId) query = query.eq('user_id', filters.userId)
+  if (filters.failedOnly) query = query.eq('succeeded', false)
+
+  const { data, error } = await query
+  if (error) throw error
+  return (data || []) as LoginAuditEntry[]
+}
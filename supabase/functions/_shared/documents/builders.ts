@@ -0,0 +1,287 @@
+// supabase/functions/_shared/documents/builders.ts
+//
+// Pure functions from database rows to DocumentModel, one per document type.
+
+import {
+  DEFAULT_FOOTER,
+  DocumentModel,
+  DocumentTotal,
+  formatAmount,
+  formatQuantity,
+  formatRate,
+} from "./model.ts";
+
+export interface SalesOrderRow {
+  id: string;
+  order_display_id: string;
+  receipt_no: string | null;
+  created_at: string;
+  completed_at: string | null;
+  payment_method: string | null;
+  vehicle_number: string | null;
+  total_amount: number;
+  vat_amount: number;
+  vat_rate: number | null;
+  is_vat_applicable: boolean;
+  customers: { name: string; address: string | null; phone_number: string | null; vat_status: string | null } | null;
+  order_items: Array<{ id: string; quantity: number; price: number; discount: number | null; products: { name: string } | null }>;
+  assigned_user: { username: string } | null;
+}
+
+export interface OnDemandOrderRow {
+  id: string;
+  on_demand_order_display_id: string;
+  receipt_no: string | null;
+  sale_date: string;
+  customer_name: string;
+  customer_phone: string | null;
+  payment_method: string | null;
+  total_amount: number;
+  on_demand_order_items: Array<{ id: string; quantity: number; price: number; line_total: number; products: { name: string } | null }>;
+  customer_address: string | null;
+  sales_rep_username: string | null;
+}
+
+export interface TaxInvoiceRow {
+  invoice_no: string;
+  issued_at: string;
+  customer_name: string;
+  customer_address: string | null;
+  customer_tin: string;
+  vat_rate: number;
+  subtotal: number;
+  vat_amount: number;
+  total_amount: number;
+  orders: { order_display_id: string; receipt_no: string | null } | null;
+  tax_invoice_lines: Array<{
+    line_no: number;
+    product_name: string;
+    quantity: number;
+    unit_price: number;
+    discount: number;
+    line_subtotal: number;
+    vat_amount: number;
+    line_total: number;
+  }>;
+}
+
+export interface CreditNoteRow {
+  credit_note_no: string;
+  issued_at: string;
+  product_name: string;
+  quantity: number;
+  unit_price: number;
+  subtotal: number;
+  vat_rate: number;
+  vat_amount: number;
+  total_amount: number;
+  reason: string;
+  customers: { name: string; address: string | null; tin_number: string | null } | null;
+  orders: { order_display_id: string; receipt_no: string | null } | null;
+  tax_invoices: { invoice_no: string } | null;
+}
+
+// Code point order, so sorting does not depend on the runtime's locale
+const compareText = (a: string, b: string): number => (a < b ? -1 : a > b ? 1 : 0);
+
+const compact = (lines: Array<string | null | undefined | false>): string[] =>
+  lines.filter((line): line is string => typeof line === "string" && line.length > 0);
+
+export const buildSalesOrderDocument = (order: SalesOrderRow, duplicate = false): DocumentModel => {
+  const issuedAt = order.completed_at || order.created_at;
+  const subtotal = Number(order.total_amount) - Number(order.vat_amount);
+  const vatRate = order.vat_rate ?? (subtotal > 0 ? Number(order.vat_amount) / subtotal : 0);
+  const items = [...order.order_items].sort((a, b) =>
+    compareText(a.products?.name || "", b.products?.name || "") || compareText(a.id, b.id)
+  );
+
+  const totals: DocumentTotal[] = order.is_vat_applicable
+    ? [
+        { label: "Subtotal", value: `Rs ${formatAmount(subtotal)}` },
+        { label: `VAT (${formatRate(vatRate)}%)`, value: `Rs ${formatAmount(order.vat_amount)}` },
+      ]
+    : [];
+  totals.push({ label: "Grand Total", value: `Rs ${formatAmount(order.total_amount)}`, emphasis: true });
+
+  return {
+    type: "sales_order",
+    title: "SALES RECEIPT",
+    documentNoLabel: "Receipt No",
+    documentNo: order.receipt_no || order.order_display_id,
+    issuedAt,
+    duplicate,
+    party: {
+      heading: "Bill To",
+      lines: compact([
+        order.customers?.name,
+        order.customers?.address,
+        order.customers?.phone_number && `Phone: ${order.customers.phone_number}`,
+        order.customers?.vat_status && `VAT Status: ${order.customers.vat_status}`,
+      ]),
+    },
+    details: {
+      heading: "Order Details",
+      lines: compact([
+        `Order ID: ${order.order_display_id}`,
+        `Payment: ${order.payment_method || "N/A"}`,
+        `Sales Rep: ${order.assigned_user?.username || "N/A"}`,
+        order.vehicle_number && `Vehicle: ${order.vehicle_number}`,
+      ]),
+    },
+    columns: [
+      { header: "Product", align: "left", width: 0.46 },
+      { header: "Qty (kg)", align: "right", width: 0.16 },
+      { header: "Unit Price (Rs)", align: "right", width: 0.19 },
+      { header: "Amount (Rs)", align: "right", width: 0.19 },
+    ],
+    rows: items.map((item) => [
+      item.products?.name || "",
+      formatQuantity(item.quantity),
+      formatAmount(item.price),
+      formatAmount(Number(item.quantity) * Number(item.price) - Number(item.discount || 0)),
+    ]),
+    totals,
+    notes: [],
+    footer: DEFAULT_FOOTER,
+  };
+};
+
+export const buildOnDemandOrderDocument = (order: OnDemandOrderRow, duplicate = false): DocumentModel => ({
+  type: "on_demand_order",
+  title: "SALES RECEIPT",
+  documentNoLabel: "Receipt No",
+  documentNo: order.receipt_no || order.on_demand_order_display_id,
+  issuedAt: order.sale_date,
+  duplicate,
+  party: {
+    heading: "Bill To",
+    lines: compact([
+      order.customer_name,
+      order.customer_address,
+      `Phone: ${order.customer_phone || "N/A"}`,
+    ]),
+  },
+  details: {
+    heading: "Order Details",
+    lines: [
+      `Order ID: ${order.on_demand_order_display_id}`,
+      `Payment: ${order.payment_method || "N/A"}`,
+      `Sales Rep: ${order.sales_rep_username || "N/A"}`,
+    ],
+  },
+  columns: [
+    { header: "Product", align: "left", width: 0.46 },
+    { header: "Qty (kg)", align: "right", width: 0.16 },
+    { header: "Unit Price (Rs)", align: "right", width: 0.19 },
+    { header: "Amount (Rs)", align: "right", width: 0.19 },
+  ],
+  rows: order.on_demand_order_items.map((item) => [
+    item.products?.name || "",
+    formatQuantity(item.quantity),
+    formatAmount(item.price),
+    formatAmount(item.line_total),
+  ]),
+  totals: [{ label: "Grand Total", value: `Rs ${formatAmount(order.total_amount)}`, emphasis: true }],
+  notes: [],
+  footer: DEFAULT_FOOTER,
+});
+
+export const buildTaxInvoiceDocument = (invoice: TaxInvoiceRow, duplicate = false): DocumentModel => ({
+  type: "tax_invoice",
+  title: "TAX INVOICE",
+  documentNoLabel: "Invoice No",
+  documentNo: invoice.invoice_no,
+  issuedAt: invoice.issued_at,
+  duplicate,
+  party: {
+    heading: "Bill To",
+    lines: compact([invoice.customer_name, invoice.customer_address, `TIN: ${invoice.customer_tin}`]),
+  },
+  details: {
+    heading: "Reference",
+    lines: compact([
+      invoice.orders && `Order ID: ${invoice.orders.order_display_id}`,
+      invoice.orders?.receipt_no && `Receipt No: ${invoice.orders.receipt_no}`,
+      `VAT Rate: ${formatRate(invoice.vat_rate)}%`,
+    ]),
+  },
+  columns: [
+    { header: "#", align: "left", width: 0.05 },
+    { header: "Description", align: "left", width: 0.25 },
+    { header: "Qty (kg)", align: "right", width: 0.09 },
+    { header: "Unit Price", align: "right", width: 0.12 },
+    { header: "Discount", align: "right", width: 0.11 },
+    { header: "Excl. VAT", align: "right", width: 0.14 },
+    { header: "VAT", align: "right", width: 0.11 },
+    { header: "Total", align: "right", width: 0.13 },
+  ],
+  rows: [...invoice.tax_invoice_lines]
+    .sort((a, b) => a.line_no - b.line_no)
+    .map((line) => [
+      String(line.line_no),
+      line.product_name,
+      formatQuantity(line.quantity),
+      formatAmount(line.unit_price),
+      Number(line.discount) > 0 ? formatAmount(line.discount) : "-",
+      formatAmount(line.line_subtotal),
+      formatAmount(line.vat_amount),
+      formatAmount(line.line_total),
+    ]),
+  totals: [
+    { label: "Total value excl. VAT", value: `Rs ${formatAmount(invoice.subtotal)}` },
+    { label: `VAT @ ${formatRate(invoice.vat_rate)}%`, value: `Rs ${formatAmount(invoice.vat_amount)}` },
+    { label: "Total incl. VAT", value: `Rs ${formatAmount(invoice.total_amount)}`, emphasis: true },
+  ],
+  notes: [],
+  footer: DEFAULT_FOOTER,
+});
+
+export const buildCreditNoteDocument = (creditNote: CreditNoteRow, duplicate = false): DocumentModel => {
+  const totals: DocumentTotal[] = Number(creditNote.vat_amount) > 0
+    ? [
+        { label: "Value excl. VAT", value: `Rs ${formatAmount(creditNote.subtotal)}` },
+        { label: `VAT reversed @ ${formatRate(creditNote.vat_rate)}%`, value: `Rs ${formatAmount(creditNote.vat_amount)}` },
+      ]
+    : [];
+  totals.push({ label: "Total Credit", value: `Rs ${formatAmount(creditNote.total_amount)}`, emphasis: true });
+
+  return {
+    type: "credit_note",
+    title: "CREDIT NOTE",
+    documentNoLabel: "Credit Note No",
+    documentNo: creditNote.credit_note_no,
+    issuedAt: creditNote.issued_at,
+    duplicate,
+    party: {
+      heading: "Credit To",
+      lines: compact([
+        creditNote.customers?.name,
+        creditNote.customers?.address,
+        creditNote.customers?.tin_number && `TIN: ${creditNote.customers.tin_number}`,
+      ]),
+    },
+    details: {
+      heading: "Reference",
+      lines: compact([
+        creditNote.orders && `Order ID: ${creditNote.orders.order_display_id}`,
+        creditNote.orders?.receipt_no && `Receipt No: ${creditNote.orders.receipt_no}`,
+        creditNote.tax_invoices && `Tax Invoice No: ${creditNote.tax_invoices.invoice_no}`,
+      ]),
+    },
+    columns: [
+      { header: "Returned Product", align: "left", width: 0.46 },
+      { header: "Qty (kg)", align: "right", width: 0.16 },
+      { header: "Unit Price (Rs)", align: "right", width: 0.19 },
+      { header: "Excl. VAT (Rs)", align: "right", width: 0.19 },
+    ],
+    rows: [[
+      creditNote.product_name,
+      formatQuantity(creditNote.quantity),
+      formatAmount(creditNote.unit_price),
+      formatAmount(creditNote.subtotal),
+    ]],
+    totals,
+    notes: [`Reason: ${creditNote.reason}`],
+    footer: ["This amount has been credited against the customer's account.", DEFAULT_FOOTER[1]],
+  };
+};
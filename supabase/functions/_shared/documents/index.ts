@@ -0,0 +1,73 @@
+// supabase/functions/_shared/documents/index.ts
+//
+// Single entry point for printable documents (sales receipts, on-demand receipts, tax invoices
+// and credit notes). Used by the render-document and send-receipt-email functions so the PDF a
+// customer is emailed is byte-for-byte the one printed and archived.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.4";
+import { loadDocumentModel } from "./loaders.ts";
+import { archivePath, DocumentModel, DocumentType } from "./model.ts";
+import { renderDocumentPdf } from "./render.ts";
+
+export { DOCUMENT_TYPES } from "./loaders.ts";
+export type { DocumentModel, DocumentType } from "./model.ts";
+
+export const DOCUMENTS_BUCKET = "documents";
+
+export interface RenderedDocument {
+  model: DocumentModel;
+  pdf: Uint8Array;
+  filename: string;
+}
+
+export const renderDocument = async (
+  supabase: SupabaseClient,
+  type: DocumentType,
+  id: string,
+  duplicate = false,
+): Promise<RenderedDocument> => {
+  const model = await loadDocumentModel(supabase, type, id, duplicate);
+  const pdf = await renderDocumentPdf(model);
+  const filename = `${model.documentNo}${duplicate ? "-DUPLICATE" : ""}.pdf`;
+  return { model, pdf, filename };
+};
+
+const sha256Hex = async (bytes: Uint8Array): Promise<string> => {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+// Stores the original in the documents bucket and records it in document_archive. Originals are
+// written once: if the path is already archived the existing entry is kept. Needs a service-role client.
+export const archiveDocument = async (
+  adminClient: SupabaseClient,
+  document: RenderedDocument,
+  documentId: string,
+  archivedBy: string | null,
+): Promise<string> => {
+  const path = archivePath(document.model);
+
+  const { data: existing } = await adminClient
+    .from("document_archive")
+    .select("storage_path")
+    .eq("storage_path", path)
+    .maybeSingle();
+  if (existing) return existing.storage_path;
+
+  const { error: uploadError } = await adminClient.storage
+    .from(DOCUMENTS_BUCKET)
+    .upload(path, document.pdf, { contentType: "application/pdf", upsert: false });
+  if (uploadError) throw uploadError;
+
+  const { error: insertError } = await adminClient.from("document_archive").insert([{
+    document_type: document.model.type,
+    document_id: documentId,
+    document_no: document.model.documentNo,
+    storage_path: path,
+    sha256: await sha256Hex(document.pdf),
+    archived_by: archivedBy,
+  }]);
+  if (insertError) throw insertError;
+
+  return path;
+};
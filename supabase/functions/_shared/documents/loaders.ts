@@ -0,0 +1,108 @@
+// supabase/functions/_shared/documents/loaders.ts
+//
+// Reads the rows behind each document type. The client passed in decides what the caller
+// may see: the render-document function uses the caller's own JWT so RLS applies.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.4";
+import {
+  buildCreditNoteDocument,
+  buildOnDemandOrderDocument,
+  buildSalesOrderDocument,
+  buildTaxInvoiceDocument,
+  CreditNoteRow,
+  OnDemandOrderRow,
+  SalesOrderRow,
+  TaxInvoiceRow,
+} from "./builders.ts";
+import { DocumentModel, DocumentType } from "./model.ts";
+
+export const DOCUMENT_TYPES: DocumentType[] = ["sales_order", "on_demand_order", "tax_invoice", "credit_note"];
+
+const loadSalesOrder = async (supabase: SupabaseClient, id: string, duplicate: boolean) => {
+  const { data, error } = await supabase
+    .from("orders")
+    .select(`
+      id, order_display_id, receipt_no, created_at, completed_at, payment_method, vehicle_number,
+      total_amount, vat_amount, vat_rate, is_vat_applicable,
+      customers(name, address, phone_number, vat_status),
+      order_items(id, quantity, price, discount, products(name)),
+      assigned_user:users!orders_assigned_to_fkey(username)
+    `)
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return buildSalesOrderDocument(data as unknown as SalesOrderRow, duplicate);
+};
+
+const loadOnDemandOrder = async (supabase: SupabaseClient, id: string, duplicate: boolean) => {
+  const { data: order, error } = await supabase
+    .from("on_demand_orders")
+    .select(`
+      id, on_demand_order_display_id, receipt_no, sale_date, customer_name, customer_phone,
+      payment_method, total_amount, sales_rep_id, existing_customer_id,
+      on_demand_order_items(id, quantity, price, line_total, products(name))
+    `)
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+
+  const [{ data: salesRep }, { data: customer }] = await Promise.all([
+    supabase.from("users").select("username").eq("id", order.sales_rep_id).maybeSingle(),
+    order.existing_customer_id
+      ? supabase.from("customers").select("address").eq("id", order.existing_customer_id).maybeSingle()
+      : Promise.resolve({ data: null }),
+  ]);
+
+  return buildOnDemandOrderDocument({
+    ...order,
+    customer_address: customer?.address || null,
+    sales_rep_username: salesRep?.username || null,
+  } as unknown as OnDemandOrderRow, duplicate);
+};
+
+const loadTaxInvoice = async (supabase: SupabaseClient, id: string, duplicate: boolean) => {
+  const { data, error } = await supabase
+    .from("tax_invoices")
+    .select("*, orders(order_display_id, receipt_no), tax_invoice_lines(*)")
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return buildTaxInvoiceDocument(data as TaxInvoiceRow, duplicate);
+};
+
+const loadCreditNote = async (supabase: SupabaseClient, id: string, duplicate: boolean) => {
+  const { data, error } = await supabase
+    .from("credit_notes")
+    .select(`
+      *,
+      customers(name, address, tin_number),
+      orders(order_display_id, receipt_no),
+      tax_invoices(invoice_no)
+    `)
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return buildCreditNoteDocument(data as CreditNoteRow, duplicate);
+};
+
+export const loadDocumentModel = async (
+  supabase: SupabaseClient,
+  type: DocumentType,
+  id: string,
+  duplicate = false,
+): Promise<DocumentModel> => {
+  switch (type) {
+    case "sales_order":
+      return await loadSalesOrder(supabase, id, duplicate);
+    case "on_demand_order":
+      return await loadOnDemandOrder(supabase, id, duplicate);
+    case "tax_invoice":
+      return await loadTaxInvoice(supabase, id, duplicate);
+    case "credit_note":
+      return await loadCreditNote(supabase, id, duplicate);
+  }
+};
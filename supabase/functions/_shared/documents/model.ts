@@ -0,0 +1,67 @@
+// supabase/functions/_shared/documents/model.ts
+//
+// Runtime-neutral description of a printable document. Builders turn database rows into a
+// DocumentModel and the renderer turns a DocumentModel into PDF bytes. Nothing here reads the
+// clock, the locale or the time zone, so the same rows always give the same document.
+
+export type DocumentType = "sales_order" | "on_demand_order" | "tax_invoice" | "credit_note";
+
+export interface DocumentColumn {
+  header: string;
+  align: "left" | "right";
+  // Share of the table width, the columns of a table add up to 1
+  width: number;
+}
+
+export interface DocumentTotal {
+  label: string;
+  value: string;
+  emphasis?: boolean;
+}
+
+export interface DocumentModel {
+  type: DocumentType;
+  title: string;
+  documentNoLabel: string;
+  documentNo: string;
+  // ISO timestamp of the document's own date; also used for the PDF metadata dates
+  issuedAt: string;
+  duplicate: boolean;
+  party: { heading: string; lines: string[] };
+  details: { heading: string; lines: string[] };
+  columns: DocumentColumn[];
+  rows: string[][];
+  totals: DocumentTotal[];
+  notes: string[];
+  footer: string[];
+}
+
+export const COMPANY_NAME = "Weehena Farm";
+export const COMPANY_TAGLINE = "A Taste with Quality";
+export const DEFAULT_FOOTER = ["Thank you for your business!", "Weehena Farm - Quality Poultry Products"];
+
+// Sri Lanka does not observe daylight saving, so a fixed offset gives the local date anywhere
+const SRI_LANKA_OFFSET_MINUTES = 330;
+
+export const formatAmount = (value: number | string | null | undefined): string => {
+  const fixed = Number(value || 0).toFixed(2);
+  const [whole, fraction] = fixed.split(".");
+  return `${whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",")}.${fraction}`;
+};
+
+export const formatQuantity = (value: number | string | null | undefined): string =>
+  String(Number(value || 0));
+
+export const formatDate = (iso: string): string => {
+  const local = new Date(new Date(iso).getTime() + SRI_LANKA_OFFSET_MINUTES * 60 * 1000);
+  const day = String(local.getUTCDate()).padStart(2, "0");
+  const month = String(local.getUTCMonth() + 1).padStart(2, "0");
+  return `${day}/${month}/${local.getUTCFullYear()}`;
+};
+
+export const formatRate = (rate: number | string | null | undefined): string =>
+  (Number(rate || 0) * 100).toFixed(2).replace(/\.?0+$/, "");
+
+// Storage path of the archived original; duplicates are never archived
+export const archivePath = (model: DocumentModel): string =>
+  `${model.type}/${model.documentNo.replace(/[^A-Za-z0-9_-]/g, "_")}.pdf`;
@@ -0,0 +1,194 @@
+// supabase/functions/_shared/documents/render.ts
+//
+// Lays a DocumentModel out on A4 pages and returns the PDF bytes. Output is deterministic:
+// standard (non-embedded) fonts, metadata dates taken from the document itself, and no
+// automatic producer/date stamping, so rendering the same model twice gives identical bytes.
+
+import { degrees, PDFDocument, PDFFont, PDFPage, rgb, StandardFonts } from "npm:pdf-lib@1.17.1";
+import { COMPANY_NAME, COMPANY_TAGLINE, DocumentModel, formatDate } from "./model.ts";
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const CELL_PADDING = 4;
+const ROW_HEIGHT = 18;
+
+const BLACK = rgb(0.07, 0.09, 0.15);
+const GREY = rgb(0.29, 0.33, 0.39);
+const LIGHT_GREY = rgb(0.9, 0.91, 0.92);
+const BRAND_RED = rgb(0.86, 0.15, 0.15);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+// Standard fonts only cover WinAnsi; anything else (e.g. Sinhala or Tamil names) is replaced
+// rather than failing the whole document
+const toWinAnsi = (text: string): string =>
+  text.replace(/[^\x20-\x7E\xA0-\xFF]/g, "?");
+
+const fitText = (text: string, font: PDFFont, size: number, maxWidth: number): string => {
+  let value = toWinAnsi(text);
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+  while (value.length > 1 && font.widthOfTextAtSize(`${value}...`, size) > maxWidth) {
+    value = value.slice(0, -1);
+  }
+  return `${value}...`;
+};
+
+const drawDuplicateMark = (page: PDFPage, fonts: Fonts) => {
+  page.drawText("DUPLICATE", {
+    x: 150,
+    y: 260,
+    size: 90,
+    font: fonts.bold,
+    color: rgb(0.93, 0.8, 0.8),
+    rotate: degrees(45),
+  });
+};
+
+const drawHeader = (page: PDFPage, fonts: Fonts, model: DocumentModel): number => {
+  let y = PAGE_HEIGHT - MARGIN;
+
+  page.drawText(COMPANY_NAME, { x: MARGIN, y: y - 20, size: 22, font: fonts.bold, color: BLACK });
+  page.drawText(COMPANY_TAGLINE, { x: MARGIN, y: y - 36, size: 10, font: fonts.regular, color: GREY });
+
+  const rightEdge = PAGE_WIDTH - MARGIN;
+  const drawRight = (text: string, top: number, size: number, font: PDFFont, color = BLACK) => {
+    const value = toWinAnsi(text);
+    page.drawText(value, { x: rightEdge - font.widthOfTextAtSize(value, size), y: top, size, font, color });
+  };
+  drawRight(model.title, y - 18, 18, fonts.bold, BRAND_RED);
+  drawRight(`${model.documentNoLabel}: ${model.documentNo}`, y - 34, 10, fonts.bold);
+  drawRight(`Date: ${formatDate(model.issuedAt)}`, y - 48, 10, fonts.regular);
+  if (model.duplicate) {
+    drawRight("DUPLICATE", y - 64, 11, fonts.bold, BRAND_RED);
+  }
+
+  y -= 76;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: rightEdge, y }, thickness: 1, color: LIGHT_GREY });
+  return y - 20;
+};
+
+const drawBlocks = (page: PDFPage, fonts: Fonts, model: DocumentModel, top: number): number => {
+  const columnWidth = CONTENT_WIDTH / 2 - 8;
+  const drawBlock = (x: number, heading: string, lines: string[]): number => {
+    let y = top;
+    page.drawText(toWinAnsi(heading), { x, y, size: 11, font: fonts.bold, color: BLACK });
+    y -= 15;
+    for (const line of lines) {
+      page.drawText(fitText(line, fonts.regular, 10, columnWidth), { x, y, size: 10, font: fonts.regular, color: GREY });
+      y -= 13;
+    }
+    return y;
+  };
+
+  const leftBottom = drawBlock(MARGIN, model.party.heading, model.party.lines);
+  const rightBottom = drawBlock(MARGIN + CONTENT_WIDTH / 2 + 8, model.details.heading, model.details.lines);
+  return Math.min(leftBottom, rightBottom) - 14;
+};
+
+const drawRow = (page: PDFPage, font: PDFFont, model: DocumentModel, cells: string[], y: number) => {
+  let x = MARGIN;
+  model.columns.forEach((column, index) => {
+    const width = column.width * CONTENT_WIDTH;
+    const text = fitText(cells[index] || "", font, 9, width - CELL_PADDING * 2);
+    const textX = column.align === "right"
+      ? x + width - CELL_PADDING - font.widthOfTextAtSize(text, 9)
+      : x + CELL_PADDING;
+    page.drawText(text, { x: textX, y, size: 9, font, color: BLACK });
+    x += width;
+  });
+};
+
+const drawTableHeader = (page: PDFPage, fonts: Fonts, model: DocumentModel, top: number): number => {
+  page.drawRectangle({ x: MARGIN, y: top - ROW_HEIGHT + 5, width: CONTENT_WIDTH, height: ROW_HEIGHT, color: LIGHT_GREY });
+  drawRow(page, fonts.bold, model, model.columns.map((column) => column.header), top - 8);
+  return top - ROW_HEIGHT;
+};
+
+export const renderDocumentPdf = async (model: DocumentModel): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.create({ updateMetadata: false });
+  const fonts: Fonts = {
+    regular: await pdf.embedFont(StandardFonts.Helvetica),
+    bold: await pdf.embedFont(StandardFonts.HelveticaBold),
+  };
+
+  const issuedAt = new Date(model.issuedAt);
+  pdf.setTitle(`${model.title} ${model.documentNo}`);
+  pdf.setAuthor(COMPANY_NAME);
+  pdf.setSubject(model.title);
+  pdf.setCreator(COMPANY_NAME);
+  pdf.setProducer(COMPANY_NAME);
+  pdf.setCreationDate(issuedAt);
+  pdf.setModificationDate(issuedAt);
+
+  const newPage = (): PDFPage => {
+    const page = pdf.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    if (model.duplicate) drawDuplicateMark(page, fonts);
+    return page;
+  };
+
+  let page = newPage();
+  let y = drawBlocks(page, fonts, model, drawHeader(page, fonts, model));
+  y = drawTableHeader(page, fonts, model, y);
+
+  const reservedForTotals = (model.totals.length + model.notes.length + model.footer.length) * 16 + 40;
+  for (const row of model.rows) {
+    if (y - ROW_HEIGHT < MARGIN + 20) {
+      page = newPage();
+      y = drawTableHeader(page, fonts, model, drawHeader(page, fonts, model));
+    }
+    drawRow(page, fonts.regular, model, row, y - 8);
+    page.drawLine({
+      start: { x: MARGIN, y: y - ROW_HEIGHT + 5 },
+      end: { x: PAGE_WIDTH - MARGIN, y: y - ROW_HEIGHT + 5 },
+      thickness: 0.5,
+      color: LIGHT_GREY,
+    });
+    y -= ROW_HEIGHT;
+  }
+
+  if (y - reservedForTotals < MARGIN) {
+    page = newPage();
+    y = drawHeader(page, fonts, model);
+  }
+
+  y -= 8;
+  const valueRight = PAGE_WIDTH - MARGIN - CELL_PADDING;
+  const labelRight = valueRight - 110;
+  for (const total of model.totals) {
+    const font = total.emphasis ? fonts.bold : fonts.regular;
+    const size = total.emphasis ? 12 : 10;
+    const label = toWinAnsi(`${total.label}:`);
+    const value = toWinAnsi(total.value);
+    page.drawText(label, { x: labelRight - font.widthOfTextAtSize(label, size), y, size, font, color: BLACK });
+    page.drawText(value, { x: valueRight - font.widthOfTextAtSize(value, size), y, size, font, color: BLACK });
+    y -= total.emphasis ? 18 : 15;
+  }
+
+  y -= 6;
+  for (const note of model.notes) {
+    page.drawText(fitText(note, fonts.regular, 10, CONTENT_WIDTH), { x: MARGIN, y, size: 10, font: fonts.regular, color: BLACK });
+    y -= 14;
+  }
+
+  y -= 10;
+  page.drawLine({ start: { x: MARGIN, y }, end: { x: PAGE_WIDTH - MARGIN, y }, thickness: 1, color: LIGHT_GREY });
+  y -= 16;
+  for (const line of model.footer) {
+    const text = fitText(line, fonts.regular, 9, CONTENT_WIDTH);
+    page.drawText(text, {
+      x: (PAGE_WIDTH - fonts.regular.widthOfTextAtSize(text, 9)) / 2,
+      y,
+      size: 9,
+      font: fonts.regular,
+      color: GREY,
+    });
+    y -= 12;
+  }
+
+  return await pdf.save({ useObjectStreams: false });
+};
@@ -0,0 +1,106 @@
+// supabase/functions/_shared/email/outbox.ts
+//
+// Outbox worker. The app only inserts `pending` rows into email_logs; this claims the rows
+// that are due, sends them and reports each attempt back. Retry timing (exponential backoff,
+// max_retries) is decided in complete_email_attempt so every worker run agrees on it.
+
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.4";
+import { renderDocument } from "../documents/index.ts";
+import { renderEmailTemplate } from "./templates/index.ts";
+import { EmailAttachment, EmailMessage, EmailTransport } from "./transport.ts";
+
+export interface EmailLogRow {
+  id: string;
+  order_id: string | null;
+  on_demand_order_id: string | null;
+  recipient_email: string;
+  recipient_name: string;
+  email_type: string;
+  template_version: number | null;
+  subject: string;
+  retry_count: number;
+  metadata: Record<string, unknown> | null;
+}
+
+export interface OutboxRunResult {
+  claimed: number;
+  sent: number;
+  failed: number;
+}
+
+// PDFs that go out with an email type. A missing attachment doesn't stop the email.
+const buildAttachments = async (supabase: SupabaseClient, email: EmailLogRow): Promise<EmailAttachment[]> => {
+  if (email.email_type !== "receipt" || !email.order_id) return [];
+
+  try {
+    const receipt = await renderDocument(supabase, "sales_order", email.order_id);
+    return [{ filename: receipt.filename, content: receipt.pdf, contentType: "application/pdf" }];
+  } catch (renderError) {
+    console.error(`Failed to render receipt PDF for email ${email.id}:`, renderError);
+    return [];
+  }
+};
+
+// The row's metadata holds the template variables. Rows without a template_version are
+// rendered with the latest version, which is then recorded on the row.
+export const buildOutboxMessage = async (
+  supabase: SupabaseClient,
+  email: EmailLogRow,
+  from: string,
+): Promise<{ message: EmailMessage; version: number }> => {
+  const rendered = renderEmailTemplate(email.email_type, email.metadata || {}, email.template_version);
+  const { subject, html, text } = rendered;
+
+  return {
+    message: {
+      from,
+      to: email.recipient_email,
+      subject,
+      html,
+      text,
+      attachments: await buildAttachments(supabase, email),
+    },
+    version: rendered.version,
+  };
+};
+
+export const processEmailOutbox = async (
+  supabase: SupabaseClient,
+  transport: EmailTransport,
+  { from, batchSize = 20 }: { from: string; batchSize?: number },
+): Promise<OutboxRunResult> => {
+  const { data, error } = await supabase.rpc("claim_due_emails", { p_limit: batchSize });
+  if (error) throw error;
+
+  const emails = (data || []) as EmailLogRow[];
+  const result: OutboxRunResult = { claimed: emails.length, sent: 0, failed: 0 };
+
+  for (const email of emails) {
+    let messageId: string | null = null;
+    let errorMessage: string | null = null;
+    let templateVersion = email.template_version;
+
+    try {
+      const { message, version } = await buildOutboxMessage(supabase, email, from);
+      templateVersion = version;
+      ({ messageId } = await transport.send(message));
+      result.sent += 1;
+    } catch (sendError) {
+      errorMessage = sendError instanceof Error ? sendError.message : String(sendError);
+      result.failed += 1;
+      console.error(`Email ${email.id} attempt ${email.retry_count + 1} failed via ${transport.name}:`, errorMessage);
+    }
+
+    const { error: completeError } = await supabase.rpc("complete_email_attempt", {
+      p_email_log_id: email.id,
+      p_message_id: messageId,
+      p_error: errorMessage,
+      p_template_version: templateVersion,
+    });
+    if (completeError) {
+      console.error(`Failed to record attempt for email ${email.id}:`, completeError);
+    }
+  }
+
+  return result;
+};
@@ -0,0 +1,133 @@
+// supabase/functions/_shared/email/templates/index.ts
+//
+// Named, versioned email templates. A template name doubles as the email_logs.email_type.
+// Published versions are never edited: a layout change is a new version, and email_logs
+// records the version used so a resend looks like the original.
+
+import { EmailContent } from "./layout.ts";
+import { LOW_STOCK_ALERT_SAMPLE, LowStockAlertEmailData, renderLowStockAlertV1 } from "./lowStockAlert.ts";
+import { OVERDUE_REMINDER_SAMPLE, OverdueReminderEmailData, renderOverdueReminderV1 } from "./overdueReminder.ts";
+import { RECEIPT_SAMPLE, ReceiptEmailData, renderReceiptV1, renderReceiptV2 } from "./receipt.ts";
+import { renderStatementV1, renderStatementV2, STATEMENT_SAMPLE, StatementEmailData } from "./statement.ts";
+
+export type { EmailContent } from "./layout.ts";
+export type { LowStockAlertEmailData } from "./lowStockAlert.ts";
+export type { OverdueReminderEmailData } from "./overdueReminder.ts";
+export type { ReceiptEmailData } from "./receipt.ts";
+export type { StatementEmailData } from "./statement.ts";
+
+export type TemplateName = "receipt" | "statement" | "overdue_reminder" | "low_stock_alert";
+
+interface TemplateVersion<T> {
+  version: number;
+  render: (data: T) => EmailContent;
+}
+
+interface TemplateDefinition<T> {
+  name: TemplateName;
+  description: string;
+  requiredVariables: (keyof T & string)[];
+  sampleData: T;
+  versions: TemplateVersion<T>[];
+}
+
+export interface TemplateSummary {
+  name: TemplateName;
+  description: string;
+  versions: number[];
+  latestVersion: number;
+  requiredVariables: string[];
+  sampleData: unknown;
+}
+
+export interface RenderedTemplate extends EmailContent {
+  template: TemplateName;
+  version: number;
+}
+
+const receipt: TemplateDefinition<ReceiptEmailData> = {
+  name: "receipt",
+  description: "Sales receipt sent when an order's payment is confirmed",
+  requiredVariables: ["customerName", "orderDisplayId"],
+  sampleData: RECEIPT_SAMPLE,
+  versions: [
+    { version: 1, render: renderReceiptV1 },
+    { version: 2, render: renderReceiptV2 },
+  ],
+};
+
+const statement: TemplateDefinition<StatementEmailData> = {
+  name: "statement",
+  description: "Monthly statement of account",
+  requiredVariables: ["customerName", "periodStart", "periodEnd", "openingBalance", "closingBalance", "entries"],
+  sampleData: STATEMENT_SAMPLE,
+  versions: [
+    { version: 1, render: renderStatementV1 },
+    { version: 2, render: renderStatementV2 },
+  ],
+};
+
+const overdueReminder: TemplateDefinition<OverdueReminderEmailData> = {
+  name: "overdue_reminder",
+  description: "Reminder for invoices past the customer's payment terms",
+  requiredVariables: ["customerName", "totalOverdue", "invoices"],
+  sampleData: OVERDUE_REMINDER_SAMPLE,
+  versions: [{ version: 1, render: renderOverdueReminderV1 }],
+};
+
+const lowStockAlert: TemplateDefinition<LowStockAlertEmailData> = {
+  name: "low_stock_alert",
+  description: "Internal alert for products at or below their reorder threshold",
+  requiredVariables: ["recipientName", "generatedAt", "products"],
+  sampleData: LOW_STOCK_ALERT_SAMPLE,
+  versions: [{ version: 1, render: renderLowStockAlertV1 }],
+};
+
+// Each entry keeps its own data type; the registry only needs to know they render
+const TEMPLATES = {
+  receipt,
+  statement,
+  overdue_reminder: overdueReminder,
+  low_stock_alert: lowStockAlert,
+} as unknown as Record<TemplateName, TemplateDefinition<Record<string, unknown>>>;
+
+export const isTemplateName = (name: string): name is TemplateName => name in TEMPLATES;
+
+const latestVersion = (definition: TemplateDefinition<Record<string, unknown>>) =>
+  Math.max(...definition.versions.map((entry) => entry.version));
+
+export const listTemplates = (): TemplateSummary[] =>
+  Object.values(TEMPLATES).map((definition) => ({
+    name: definition.name,
+    description: definition.description,
+    versions: definition.versions.map((entry) => entry.version),
+    latestVersion: latestVersion(definition),
+    requiredVariables: definition.requiredVariables,
+    sampleData: definition.sampleData,
+  }));
+
+// Renders `name` at `version` (latest when omitted). Throws on an unknown template or version,
+// or when a required variable is missing, so a bad row fails loudly instead of sending blanks.
+export const renderEmailTemplate = (
+  name: string,
+  data: Record<string, unknown>,
+  version?: number | null,
+): RenderedTemplate => {
+  if (!isTemplateName(name)) {
+    throw new Error(`Unknown email template "${name}"`);
+  }
+
+  const definition = TEMPLATES[name];
+  const resolvedVersion = version ?? latestVersion(definition);
+  const entry = definition.versions.find((candidate) => candidate.version === resolvedVersion);
+  if (!entry) {
+    throw new Error(`Email template "${name}" has no version ${resolvedVersion}`);
+  }
+
+  const missing = definition.requiredVariables.filter((variable) => data[variable] == null || data[variable] === "");
+  if (missing.length > 0) {
+    throw new Error(`Missing template variables for "${name}": ${missing.join(", ")}`);
+  }
+
+  return { template: name, version: resolvedVersion, ...entry.render(data) };
+};
@@ -0,0 +1,55 @@
+// supabase/functions/_shared/email/templates/layout.ts
+//
+// Shared pieces for email templates. Every variable that ends up in HTML goes through
+// escapeHtml; templates never concatenate raw customer input.
+
+export interface EmailContent {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export const escapeHtml = (value: unknown): string =>
+  String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+export const formatRs = (value: number | null | undefined): string =>
+  `Rs ${Number(value || 0).toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+export const wrapLayout = (heading: string, body: string): string => `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <style>
+          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { text-align: center; border-bottom: 2px solid #e44d26; padding-bottom: 20px; margin-bottom: 20px; }
+          .company-name { font-size: 24px; font-weight: bold; color: #e44d26; }
+          table { width: 100%; border-collapse: collapse; margin: 20px 0; }
+          th { background-color: #f8f9fa; text-align: left; padding: 12px; border-bottom: 2px solid #dee2e6; }
+          td { padding: 12px; border-bottom: 1px solid #dee2e6; }
+          .num { text-align: right; }
+          .total-row { font-weight: bold; background-color: #f8f9fa; }
+          .alert { color: #b91c1c; font-weight: bold; }
+          .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #dee2e6; text-align: center; color: #6c757d; }
+        </style>
+      </head>
+      <body>
+        <div class="container">
+          <div class="header">
+            <div class="company-name">WEEHENA FARM</div>
+            <div style="color: #666; margin: 5px 0;">A Taste with Quality</div>
+            <div style="font-size: 20px; margin: 10px 0;">${escapeHtml(heading)}</div>
+          </div>
+          ${body}
+          <div class="footer">
+            <p>Thank you for your business!</p>
+            <p>Weehena Farm - Quality Poultry Products</p>
+          </div>
+        </div>
+      </body>
+      </html>`;
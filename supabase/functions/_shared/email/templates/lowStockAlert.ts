@@ -0,0 +1,64 @@
+// supabase/functions/_shared/email/templates/lowStockAlert.ts
+//
+// Internal alert listing products at or below their reorder threshold.
+
+import { EmailContent, escapeHtml, wrapLayout } from "./layout.ts";
+
+export interface LowStockProduct {
+  name: string;
+  sku?: string;
+  quantity: number;
+  threshold: number;
+  unitType?: string;
+}
+
+export interface LowStockAlertEmailData {
+  recipientName: string;
+  generatedAt: string;
+  products: LowStockProduct[];
+}
+
+export const LOW_STOCK_ALERT_SAMPLE: LowStockAlertEmailData = {
+  recipientName: "Inventory Team",
+  generatedAt: "01/11/2025 08:00",
+  products: [
+    { name: "Whole Chicken", sku: "WC-001", quantity: 12, threshold: 50, unitType: "Kg" },
+    { name: "Chicken Wings", sku: "CW-004", quantity: 0, threshold: 20, unitType: "Kg" },
+  ],
+};
+
+export const renderLowStockAlertV1 = (data: LowStockAlertEmailData): EmailContent => {
+  const productRows = data.products
+    .map(
+      (product) => `
+          <tr>
+            <td>${escapeHtml(product.name)}${product.sku ? `<br><small>${escapeHtml(product.sku)}</small>` : ""}</td>
+            <td class="num${product.quantity <= 0 ? " alert" : ""}">${product.quantity} ${escapeHtml(product.unitType || "")}</td>
+            <td class="num">${product.threshold} ${escapeHtml(product.unitType || "")}</td>
+          </tr>`
+    )
+    .join("");
+
+  return {
+    subject: `Low stock alert: ${data.products.length} product(s) below threshold`,
+    text: `Low stock alert (${data.generatedAt})\n\n${data.products
+      .map((product) => `${product.name}: ${product.quantity} (threshold ${product.threshold})`)
+      .join("\n")}`,
+    html: wrapLayout("LOW STOCK ALERT", `
+          <p>Hello ${escapeHtml(data.recipientName)},</p>
+          <p>The following products were at or below their reorder threshold at ${escapeHtml(data.generatedAt)}.</p>
+
+          <table>
+            <thead>
+              <tr>
+                <th>Product</th>
+                <th class="num">In Stock</th>
+                <th class="num">Threshold</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${productRows}
+            </tbody>
+          </table>`),
+  };
+};
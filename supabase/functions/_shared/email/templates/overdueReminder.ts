@@ -0,0 +1,74 @@
+// supabase/functions/_shared/email/templates/overdueReminder.ts
+//
+// Reminder listing the invoices that are past the customer's payment terms.
+
+import { EmailContent, escapeHtml, formatRs, wrapLayout } from "./layout.ts";
+
+export interface OverdueInvoice {
+  reference: string;
+  invoiceDate: string;
+  dueDate: string;
+  daysOverdue: number;
+  amount: number;
+}
+
+export interface OverdueReminderEmailData {
+  customerName: string;
+  paymentTermsDays?: number;
+  totalOverdue: number;
+  invoices: OverdueInvoice[];
+}
+
+export const OVERDUE_REMINDER_SAMPLE: OverdueReminderEmailData = {
+  customerName: "Sample Customer",
+  paymentTermsDays: 30,
+  totalOverdue: 2000,
+  invoices: [
+    { reference: "RCPT-000001", invoiceDate: "15/08/2025", dueDate: "14/09/2025", daysOverdue: 47, amount: 2000 },
+  ],
+};
+
+export const renderOverdueReminderV1 = (data: OverdueReminderEmailData): EmailContent => {
+  const invoiceRows = data.invoices
+    .map(
+      (invoice) => `
+          <tr>
+            <td>${escapeHtml(invoice.reference)}</td>
+            <td>${escapeHtml(invoice.invoiceDate)}</td>
+            <td>${escapeHtml(invoice.dueDate)}</td>
+            <td class="num">${invoice.daysOverdue}</td>
+            <td class="num">${formatRs(invoice.amount)}</td>
+          </tr>`
+    )
+    .join("");
+
+  return {
+    subject: `Payment reminder: ${formatRs(data.totalOverdue)} overdue`,
+    text: `Dear ${data.customerName},\n\nOur records show ${formatRs(data.totalOverdue)} overdue on your account across ${data.invoices.length} invoice(s). Please arrange payment at your earliest convenience.\n\nThank you for your business!`,
+    html: wrapLayout("PAYMENT REMINDER", `
+          <p>Dear ${escapeHtml(data.customerName)},</p>
+          <p>Our records show the following invoices are past ${data.paymentTermsDays != null ? `your ${data.paymentTermsDays}-day payment terms` : "their due date"}.
+          Please arrange payment at your earliest convenience. If you have already paid, please disregard this reminder.</p>
+
+          <table>
+            <thead>
+              <tr>
+                <th>Receipt</th>
+                <th>Invoice Date</th>
+                <th>Due Date</th>
+                <th class="num">Days Overdue</th>
+                <th class="num">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${invoiceRows}
+            </tbody>
+            <tfoot>
+              <tr class="total-row">
+                <td colspan="4" class="num">TOTAL OVERDUE:</td>
+                <td class="num alert">${formatRs(data.totalOverdue)}</td>
+              </tr>
+            </tfoot>
+          </table>`),
+  };
+};
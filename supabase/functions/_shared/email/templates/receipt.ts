@@ -0,0 +1,156 @@
+// supabase/functions/_shared/email/templates/receipt.ts
+//
+// Sales receipt. The variables match the body the app has always sent to send-receipt-email,
+// which is also what gets stored in email_logs.metadata for the outbox.
+
+import { EmailContent, escapeHtml, formatRs, wrapLayout } from "./layout.ts";
+
+export interface ReceiptEmailItem {
+  productName: string;
+  quantity: number;
+  price: number;
+  total?: number;
+}
+
+export interface ReceiptEmailData {
+  to?: string;
+  customerName: string;
+  orderDisplayId: string;
+  receiptNo?: string;
+  totalAmount?: number;
+  paymentMethod?: string;
+  orderItems?: ReceiptEmailItem[];
+  orderDate?: string;
+  salesRepName?: string;
+  vehicleNumber?: string;
+  orderId?: string;
+  subTotal?: number;
+  vatAmount?: number;
+  isVatApplicable?: boolean;
+}
+
+export const RECEIPT_SAMPLE: ReceiptEmailData = {
+  customerName: "Sample Customer",
+  orderDisplayId: "ORD-0001",
+  receiptNo: "RCPT-000001",
+  totalAmount: 2360,
+  paymentMethod: "Cash",
+  orderItems: [
+    { productName: "Whole Chicken", quantity: 2, price: 900 },
+    { productName: "Chicken Breast", quantity: 0.5, price: 400 },
+  ],
+  orderDate: "01/11/2025",
+  salesRepName: "rep01",
+  vehicleNumber: "WP CAB-1234",
+  subTotal: 2000,
+  vatAmount: 360,
+  isVatApplicable: true,
+};
+
+const itemRows = (data: ReceiptEmailData) =>
+  (data.orderItems || [])
+    .map(
+      (item) => `
+          <tr>
+            <td>${escapeHtml(item.productName)}</td>
+            <td class="num">${item.quantity}</td>
+            <td class="num">${formatRs(item.price)}</td>
+            <td class="num">${formatRs((item.quantity || 0) * (item.price || 0))}</td>
+          </tr>`
+    )
+    .join("");
+
+const detailsBlock = (data: ReceiptEmailData) => `
+          <div style="margin-bottom: 20px;">
+            <h3>ORDER DETAILS</h3>
+            <p><strong>Order ID:</strong> ${escapeHtml(data.orderDisplayId)}<br>
+            <strong>Receipt No:</strong> ${escapeHtml(data.receiptNo || "N/A")}<br>
+            <strong>Date:</strong> ${escapeHtml(data.orderDate || "")}<br>
+            <strong>Payment Method:</strong> ${escapeHtml(data.paymentMethod || "N/A")}</p>
+          </div>
+
+          <div style="margin-bottom: 20px;">
+            <h3>BILL TO</h3>
+            <p><strong>${escapeHtml(data.customerName)}</strong><br>
+            <strong>Sales Rep:</strong> ${escapeHtml(data.salesRepName || "N/A")}<br>
+            ${data.vehicleNumber ? `<strong>Vehicle:</strong> ${escapeHtml(data.vehicleNumber)}` : ""}</p>
+          </div>`;
+
+const subject = (data: ReceiptEmailData) => `Receipt ${data.receiptNo} - Order ${data.orderDisplayId}`;
+
+const text = (data: ReceiptEmailData) =>
+  `Receipt ${data.receiptNo} for Order ${data.orderDisplayId}\nTotal Amount: ${formatRs(data.totalAmount)}\n\nThank you for your business!`;
+
+// v1: the original receipt email, grand total only
+export const renderReceiptV1 = (data: ReceiptEmailData): EmailContent => ({
+  subject: subject(data),
+  text: text(data),
+  html: wrapLayout("SALES RECEIPT", `
+          ${detailsBlock(data)}
+
+          <h3>ORDER ITEMS</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>Product</th>
+                <th class="num">Qty</th>
+                <th class="num">Price</th>
+                <th class="num">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${itemRows(data)}
+            </tbody>
+            <tfoot>
+              <tr class="total-row">
+                <td colspan="3" class="num">GRAND TOTAL:</td>
+                <td class="num">${formatRs(data.totalAmount)}</td>
+              </tr>
+            </tfoot>
+          </table>`),
+});
+
+// v2: adds the subtotal and VAT lines for VAT customers
+export const renderReceiptV2 = (data: ReceiptEmailData): EmailContent => {
+  const vatRows = data.isVatApplicable
+    ? `
+              <tr>
+                <td colspan="3" class="num">Subtotal:</td>
+                <td class="num">${formatRs(data.subTotal)}</td>
+              </tr>
+              <tr>
+                <td colspan="3" class="num">VAT:</td>
+                <td class="num">${formatRs(data.vatAmount)}</td>
+              </tr>`
+    : "";
+
+  return {
+    subject: subject(data),
+    text: data.isVatApplicable
+      ? `Receipt ${data.receiptNo} for Order ${data.orderDisplayId}\nSubtotal: ${formatRs(data.subTotal)}\nVAT: ${formatRs(data.vatAmount)}\nTotal Amount: ${formatRs(data.totalAmount)}\n\nThank you for your business!`
+      : text(data),
+    html: wrapLayout("SALES RECEIPT", `
+          ${detailsBlock(data)}
+
+          <h3>ORDER ITEMS</h3>
+          <table>
+            <thead>
+              <tr>
+                <th>Product</th>
+                <th class="num">Qty</th>
+                <th class="num">Price</th>
+                <th class="num">Amount</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${itemRows(data)}
+            </tbody>
+            <tfoot>${vatRows}
+              <tr class="total-row">
+                <td colspan="3" class="num">GRAND TOTAL:</td>
+                <td class="num">${formatRs(data.totalAmount)}</td>
+              </tr>
+            </tfoot>
+          </table>`),
+  };
+};
@@ -0,0 +1,155 @@
+// supabase/functions/_shared/email/templates/statement.ts
+//
+// Customer account statement: opening balance, the period's ledger entries and the
+// closing balance, with the closing balance aged when aging figures are supplied.
+// Variables for queued statements are built by queue_customer_statement in the database.
+
+import { EmailContent, escapeHtml, formatRs, wrapLayout } from "./layout.ts";
+
+export interface StatementEntry {
+  date: string;
+  description: string;
+  reference?: string;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+export interface StatementEmailData {
+  customerName: string;
+  customerDisplayId?: string;
+  periodStart: string;
+  periodEnd: string;
+  openingBalance: number;
+  invoicesTotal?: number;
+  paymentsTotal?: number;
+  returnsTotal?: number;
+  closingBalance: number;
+  entries: StatementEntry[];
+  aging?: Record<string, number>;
+}
+
+export const STATEMENT_SAMPLE: StatementEmailData = {
+  customerName: "Sample Customer",
+  customerDisplayId: "CUS-0001",
+  periodStart: "01/10/2025",
+  periodEnd: "31/10/2025",
+  openingBalance: 5000,
+  invoicesTotal: 5360,
+  paymentsTotal: 3000,
+  returnsTotal: 0,
+  closingBalance: 7360,
+  entries: [
+    { date: "05/10/2025", description: "Invoice", reference: "RCPT-000001", debit: 2360, credit: 0, balance: 7360 },
+    { date: "12/10/2025", description: "Invoice", reference: "RCPT-000007", debit: 3000, credit: 0, balance: 10360 },
+    { date: "20/10/2025", description: "Payment - Cash", reference: "PAY-000003", debit: 0, credit: 3000, balance: 7360 },
+  ],
+  aging: { "0-30": 5360, "31-60": 2000, "61-90": 0, "90+": 0 },
+};
+
+const entryRowsHtml = (data: StatementEmailData) =>
+  data.entries
+    .map(
+      (entry) => `
+          <tr>
+            <td>${escapeHtml(entry.date)}</td>
+            <td>${escapeHtml(entry.description)}${entry.reference ? `<br><small>${escapeHtml(entry.reference)}</small>` : ""}</td>
+            <td class="num">${entry.debit ? formatRs(entry.debit) : "-"}</td>
+            <td class="num">${entry.credit ? formatRs(entry.credit) : "-"}</td>
+            <td class="num">${formatRs(entry.balance)}</td>
+          </tr>`
+    )
+    .join("");
+
+const agingTableHtml = (data: StatementEmailData) =>
+  data.aging
+    ? `
+          <h3>AGED BALANCE</h3>
+          <table>
+            <thead>
+              <tr>${Object.keys(data.aging).map((bucket) => `<th class="num">${escapeHtml(bucket)} days</th>`).join("")}</tr>
+            </thead>
+            <tbody>
+              <tr>${Object.values(data.aging).map((amount) => `<td class="num">${formatRs(amount)}</td>`).join("")}</tr>
+            </tbody>
+          </table>`
+    : "";
+
+const ledgerTableHtml = (data: StatementEmailData) => `
+          <table>
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Details</th>
+                <th class="num">Debit</th>
+                <th class="num">Credit</th>
+                <th class="num">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td colspan="4">Opening balance</td>
+                <td class="num">${formatRs(data.openingBalance)}</td>
+              </tr>
+              ${entryRowsHtml(data)}
+            </tbody>
+            <tfoot>
+              <tr class="total-row">
+                <td colspan="4" class="num">CLOSING BALANCE:</td>
+                <td class="num">${formatRs(data.closingBalance)}</td>
+              </tr>
+            </tfoot>
+          </table>`;
+
+const headerHtml = (data: StatementEmailData) => `
+          <div style="margin-bottom: 20px;">
+            <p><strong>${escapeHtml(data.customerName)}</strong>${data.customerDisplayId ? ` (${escapeHtml(data.customerDisplayId)})` : ""}<br>
+            <strong>Period:</strong> ${escapeHtml(data.periodStart)} - ${escapeHtml(data.periodEnd)}</p>
+          </div>`;
+
+const statementSubject = (data: StatementEmailData) => `Statement of account ${data.periodStart} - ${data.periodEnd}`;
+
+export const renderStatementV1 = (data: StatementEmailData): EmailContent => ({
+  subject: statementSubject(data),
+  text: `Statement of account for ${data.customerName}\nPeriod: ${data.periodStart} - ${data.periodEnd}\nOpening balance: ${formatRs(data.openingBalance)}\nClosing balance: ${formatRs(data.closingBalance)}\n\nThank you for your business!`,
+  html: wrapLayout("STATEMENT OF ACCOUNT", `${headerHtml(data)}
+${ledgerTableHtml(data)}
+          ${agingTableHtml(data)}`),
+});
+
+// v2: adds a summary of the period's invoices, payments and returns above the ledger
+export const renderStatementV2 = (data: StatementEmailData): EmailContent => {
+  const summary = [
+    ["Opening balance", data.openingBalance],
+    ["Invoices", data.invoicesTotal ?? 0],
+    ["Payments received", -(data.paymentsTotal ?? 0)],
+    ["Returns (credit notes)", -(data.returnsTotal ?? 0)],
+  ] as const;
+
+  return {
+    subject: statementSubject(data),
+    text: `Statement of account for ${data.customerName}\nPeriod: ${data.periodStart} - ${data.periodEnd}\n${summary
+      .map(([label, amount]) => `${label}: ${formatRs(amount)}`)
+      .join("\n")}\nClosing balance: ${formatRs(data.closingBalance)}\n\nThank you for your business!`,
+    html: wrapLayout("STATEMENT OF ACCOUNT", `${headerHtml(data)}
+
+          <table>
+            <tbody>${summary.map(([label, amount]) => `
+              <tr>
+                <td>${label}</td>
+                <td class="num">${formatRs(amount)}</td>
+              </tr>`).join("")}
+            </tbody>
+            <tfoot>
+              <tr class="total-row">
+                <td>Closing balance</td>
+                <td class="num">${formatRs(data.closingBalance)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <h3>ACCOUNT ACTIVITY</h3>
+${ledgerTableHtml(data)}
+          ${agingTableHtml(data)}`),
+  };
+};
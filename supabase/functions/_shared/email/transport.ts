@@ -0,0 +1,214 @@
+// supabase/functions/_shared/email/transport.ts
+//
+// Everything that actually hands a message to a mail server goes through an EmailTransport,
+// chosen by EMAIL_TRANSPORT (see createTransportFromEnv).
+
+import nodemailer from "npm:nodemailer";
+import { Buffer } from "node:buffer";
+
+export interface EmailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface EmailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+export interface EmailTransport {
+  name: string;
+  send(message: EmailMessage): Promise<{ messageId: string }>;
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export const createSmtpTransport = (name: string, options: SmtpOptions): EmailTransport => {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure ?? false,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+    connectionTimeout: 10000,
+    greetingTimeout: 10000,
+    socketTimeout: 10000,
+  });
+
+  return {
+    name,
+    send: async (message) => {
+      const info = await transporter.sendMail({
+        ...message,
+        attachments: (message.attachments || []).map((attachment) => ({
+          filename: attachment.filename,
+          content: Buffer.from(attachment.content),
+          contentType: attachment.contentType,
+        })),
+      });
+      return { messageId: info.messageId };
+    },
+  };
+};
+
+const toBase64 = (bytes: Uint8Array): string => Buffer.from(bytes).toString("base64");
+
+// Resend's HTTP API (https://resend.com/docs/api-reference/emails/send-email)
+export const createResendTransport = (apiKey: string): EmailTransport => ({
+  name: "resend",
+  send: async (message) => {
+    const response = await fetch("https://api.resend.com/emails", {
+      method: "POST",
+      headers: {
+        "Authorization": `Bearer ${apiKey}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        from: message.from,
+        to: [message.to],
+        subject: message.subject,
+        html: message.html,
+        text: message.text,
+        attachments: (message.attachments || []).map((attachment) => ({
+          filename: attachment.filename,
+          content: toBase64(attachment.content),
+        })),
+      }),
+    });
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(`Resend error ${response.status}: ${body.message || body.error || response.statusText}`);
+    }
+    return { messageId: body.id };
+  },
+});
+
+// Local development: logs the message and, when a directory is given, writes the HTML body
+// and a JSON copy of the message (attachments base64-encoded) there to open in a browser
+export const createConsoleTransport = (outputDir?: string): EmailTransport => {
+  let sequence = 0;
+
+  return {
+    name: outputDir ? "file" : "console",
+    send: async (message) => {
+      sequence += 1;
+      const messageId = `local-${Date.now()}-${sequence}@localhost`;
+      console.log(`[email] ${message.subject} -> ${message.to} (${(message.attachments || []).length} attachment(s))`);
+
+      if (outputDir) {
+        const baseName = `${outputDir}/${Date.now()}-${sequence}`;
+        await Deno.mkdir(outputDir, { recursive: true });
+        await Deno.writeTextFile(`${baseName}.html`, message.html);
+        await Deno.writeTextFile(`${baseName}.json`, JSON.stringify({
+          ...message,
+          messageId,
+          attachments: (message.attachments || []).map((attachment) => ({
+            ...attachment,
+            content: toBase64(attachment.content),
+          })),
+        }, null, 2));
+      } else {
+        console.log(message.text);
+      }
+
+      return { messageId };
+    },
+  };
+};
+
+export interface FakeTransport extends EmailTransport {
+  sent: EmailMessage[];
+}
+
+// Records messages instead of sending them. `failTimes` makes the first N sends throw,
+// which is enough to exercise the retry/backoff path end to end.
+export const createFakeTransport = ({ failTimes = 0 }: { failTimes?: number } = {}): FakeTransport => {
+  const sent: EmailMessage[] = [];
+  let attempts = 0;
+
+  return {
+    name: "fake",
+    sent,
+    send: (message) => {
+      attempts += 1;
+      if (attempts <= failTimes) {
+        return Promise.reject(new Error(`Fake transport failure ${attempts} of ${failTimes}`));
+      }
+      sent.push(message);
+      console.log(`[fake transport] ${message.subject} -> ${message.to}`);
+      return Promise.resolve({ messageId: `fake-${sent.length}@localhost` });
+    },
+  };
+};
+
+// EMAIL_TRANSPORT selects the transport:
+//   ses  (default) - AWS SES SMTP using AWS_REGION, SES_SMTP_USERNAME, SES_SMTP_PASSWORD
+//   smtp           - any SMTP server using SMTP_HOST, SMTP_PORT and optional SMTP_USER/SMTP_PASS
+//                    (MailHog: SMTP_HOST=localhost SMTP_PORT=1025)
+//   resend         - Resend HTTP API using RESEND_API_KEY
+//   console        - logs messages, nothing is sent
+//   file           - writes messages to EMAIL_OUTPUT_DIR (default ./.emails)
+//   fake           - in-memory, for tests
+export const createTransportFromEnv = (): EmailTransport => {
+  const kind = Deno.env.get("EMAIL_TRANSPORT") || "ses";
+
+  switch (kind) {
+    case "fake":
+      return createFakeTransport();
+    case "console":
+      return createConsoleTransport();
+    case "file":
+      return createConsoleTransport(Deno.env.get("EMAIL_OUTPUT_DIR") || "./.emails");
+    case "resend": {
+      const apiKey = Deno.env.get("RESEND_API_KEY");
+      if (!apiKey) throw new Error("Missing environment variables: RESEND_API_KEY");
+      return createResendTransport(apiKey);
+    }
+    case "smtp": {
+      const host = Deno.env.get("SMTP_HOST");
+      if (!host) throw new Error("Missing environment variables: SMTP_HOST");
+      return createSmtpTransport("smtp", {
+        host,
+        port: Number(Deno.env.get("SMTP_PORT") || 25),
+        secure: Deno.env.get("SMTP_SECURE") === "true",
+        user: Deno.env.get("SMTP_USER") || undefined,
+        pass: Deno.env.get("SMTP_PASS") || undefined,
+      });
+    }
+    case "ses": {
+      const region = Deno.env.get("AWS_REGION");
+      const user = Deno.env.get("SES_SMTP_USERNAME");
+      const pass = Deno.env.get("SES_SMTP_PASSWORD");
+      const missing = [
+        !region && "AWS_REGION",
+        !user && "SES_SMTP_USERNAME",
+        !pass && "SES_SMTP_PASSWORD",
+      ].filter(Boolean);
+      if (missing.length > 0) {
+        throw new Error(`Missing environment variables: ${missing.join(", ")}`);
+      }
+
+      // Port 587 with STARTTLS
+      return createSmtpTransport("ses", { host: `email-smtp.${region}.amazonaws.com`, port: 587, user, pass });
+    }
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT "${kind}"`);
+  }
+};
+
+export const fromAddress = (): string => {
+  const fromEmail = Deno.env.get("FROM_EMAIL");
+  if (!fromEmail) throw new Error("Missing environment variables: FROM_EMAIL");
+  return `Weehena Farm <${fromEmail}>`;
+};
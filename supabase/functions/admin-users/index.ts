@@ -0,0 +1,428 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.50.4";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2.50.4";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// --- ENVIRONMENT VARIABLES ---
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const TITLES = ["Mr", "Mrs", "Ms", "Dr"];
+
+// Long enough to never lapse; "none" lifts it again
+const DISABLED_BAN_DURATION = "876000h";
+
+// There is no delete: users are disabled instead so orders and assignments keep their history
+type AdminAction =
+  | "create" | "update" | "reset_password" | "change_role" | "disable" | "enable"
+  | "approve_device" | "rename_device" | "revoke_device";
+const ACTIONS: AdminAction[] = [
+  "create", "update", "reset_password", "change_role", "disable", "enable",
+  "approve_device", "rename_device", "revoke_device",
+];
+
+interface AdminUsersRequest {
+  action?: string;
+  userId?: string;
+  username?: string;
+  email?: string;
+  password?: string;
+  role?: string;
+  title?: string;
+  first_name?: string;
+  last_name?: string;
+  employee_id?: string;
+  phone_number?: string;
+  device_binding?: boolean;
+  deviceId?: string;
+  name?: string;
+}
+
+interface ActionResult {
+  targetUserId: string | null;
+  targetUsername: string | null;
+  details: Record<string, unknown>;
+}
+
+interface TargetUser {
+  id: string;
+  username: string;
+  role: string;
+  active: boolean;
+}
+
+interface TargetDevice {
+  id: string;
+  user_id: string;
+  device_id: string;
+  name: string | null;
+  status: "pending" | "approved" | "revoked";
+}
+
+class AdminUsersError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Same rules as the user form, enforced again here since the form can be bypassed
+const validatePassword = (password: string | undefined): string => {
+  if (!password || password.length < 8) throw new AdminUsersError("Password must be at least 8 characters long");
+  if (!/[a-zA-Z]/.test(password)) throw new AdminUsersError("Password must contain at least one letter");
+  if (!/\d/.test(password)) throw new AdminUsersError("Password must contain at least one number");
+  if (!/[!@#$%^&*()_+\-=[\]{};':"\\|,.<>/?]/.test(password)) {
+    throw new AdminUsersError("Password must contain at least one symbol");
+  }
+  return password;
+};
+
+// Roles are editable in System Settings, so the roles table is the list to check against
+const validateRole = async (admin: SupabaseClient, role: string | undefined): Promise<string> => {
+  if (!role?.trim()) throw new AdminUsersError("role is required");
+
+  const { data, error } = await admin.from("roles").select("name").eq("name", role).maybeSingle();
+  if (error) throw error;
+  if (!data) throw new AdminUsersError(`Role "${role}" does not exist`);
+  return role;
+};
+
+const profileFields = (request: AdminUsersRequest) => {
+  if (!request.username?.trim()) throw new AdminUsersError("username is required");
+  if (!request.first_name?.trim() || !request.last_name?.trim()) {
+    throw new AdminUsersError("first_name and last_name are required");
+  }
+  if (!request.phone_number?.trim()) throw new AdminUsersError("phone_number is required");
+  if (request.title && !TITLES.includes(request.title)) {
+    throw new AdminUsersError(`title must be one of ${TITLES.join(", ")}`);
+  }
+
+  return {
+    username: request.username.trim(),
+    title: request.title || "Mr",
+    first_name: request.first_name.trim(),
+    last_name: request.last_name.trim(),
+    employee_id: request.employee_id?.trim() || null,
+    phone_number: request.phone_number.trim(),
+    device_binding: request.device_binding === true,
+  };
+};
+
+const loadTarget = async (admin: SupabaseClient, userId: string | undefined): Promise<TargetUser> => {
+  if (!userId) throw new AdminUsersError("userId is required");
+
+  const { data, error } = await admin
+    .from("users")
+    .select("id, username, role, active")
+    .eq("id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new AdminUsersError("User not found", 404);
+  return data as TargetUser;
+};
+
+// deviceId is the user_devices row id, so a device can only be handled through its own user
+const loadDevice = async (admin: SupabaseClient, target: TargetUser, deviceId: string | undefined): Promise<TargetDevice> => {
+  if (!deviceId) throw new AdminUsersError("deviceId is required");
+
+  const { data, error } = await admin
+    .from("user_devices")
+    .select("id, user_id, device_id, name, status")
+    .eq("id", deviceId)
+    .eq("user_id", target.id)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) throw new AdminUsersError("Device not found", 404);
+  return data as TargetDevice;
+};
+
+// Actions that would lock the caller out of user administration
+const refuseSelf = (actorId: string, target: TargetUser, action: AdminAction) => {
+  if (actorId === target.id) {
+    throw new AdminUsersError(`You cannot ${action.replace("_", " ")} your own account`, 403);
+  }
+};
+
+const createUser = async (admin: SupabaseClient, request: AdminUsersRequest): Promise<ActionResult> => {
+  const profile = profileFields(request);
+  const role = await validateRole(admin, request.role);
+  const password = validatePassword(request.password);
+  const email = request.email?.trim() || null;
+
+  const { data: authData, error: authError } = await admin.auth.admin.createUser({
+    email: email || undefined,
+    phone: profile.phone_number,
+    password,
+    email_confirm: true, // Admin-created users skip email verification
+    phone_confirm: true,
+    user_metadata: { ...profile, role },
+  });
+
+  if (authError) throw new AdminUsersError(authError.message);
+  if (!authData.user) throw new AdminUsersError("User creation failed", 500);
+
+  const { error: insertError } = await admin.from("users").insert({
+    id: authData.user.id,
+    ...profile,
+    email,
+    role,
+    password_hash: "", // Not used by Supabase Auth, but required by the schema
+  });
+
+  if (insertError) {
+    // Don't leave a login behind without a profile
+    await admin.auth.admin.deleteUser(authData.user.id);
+    throw new AdminUsersError(`Failed to save user details: ${insertError.message}`);
+  }
+
+  return {
+    targetUserId: authData.user.id,
+    targetUsername: profile.username,
+    details: { ...profile, email, role },
+  };
+};
+
+const updateUser = async (admin: SupabaseClient, request: AdminUsersRequest): Promise<ActionResult> => {
+  const target = await loadTarget(admin, request.userId);
+  const profile = profileFields(request);
+
+  const { error } = await admin.from("users").update(profile).eq("id", target.id);
+  if (error) throw new AdminUsersError(error.message);
+
+  return { targetUserId: target.id, targetUsername: profile.username, details: profile };
+};
+
+const resetPassword = async (admin: SupabaseClient, request: AdminUsersRequest): Promise<ActionResult> => {
+  const target = await loadTarget(admin, request.userId);
+  const password = validatePassword(request.password);
+
+  const { error } = await admin.auth.admin.updateUserById(target.id, { password });
+  if (error) throw new AdminUsersError(`Failed to update password: ${error.message}`);
+
+  return { targetUserId: target.id, targetUsername: target.username, details: {} };
+};
+
+const changeRole = async (admin: SupabaseClient, actorId: string, request: AdminUsersRequest): Promise<ActionResult> => {
+  const target = await loadTarget(admin, request.userId);
+  const role = await validateRole(admin, request.role);
+  refuseSelf(actorId, target, "change_role");
+
+  const { error } = await admin.from("users").update({ role }).eq("id", target.id);
+  if (error) throw new AdminUsersError(error.message);
+
+  return { targetUserId: target.id, targetUsername: target.username, details: { from: target.role, to: role } };
+};
+
+const setActive = async (
+  admin: SupabaseClient,
+  actorId: string,
+  request: AdminUsersRequest,
+  active: boolean,
+): Promise<ActionResult> => {
+  const target = await loadTarget(admin, request.userId);
+  refuseSelf(actorId, target, active ? "enable" : "disable");
+
+  const { error: banError } = await admin.auth.admin.updateUserById(target.id, {
+    ban_duration: active ? "none" : DISABLED_BAN_DURATION,
+  });
+  if (banError) throw new AdminUsersError(banError.message);
+
+  const { error } = await admin
+    .from("users")
+    .update({ active, deactivated_at: active ? null : new Date().toISOString() })
+    .eq("id", target.id);
+  if (error) throw new AdminUsersError(error.message);
+
+  // The ban stops new logins; this ends the sessions already open
+  if (!active) {
+    const { error: revokeError } = await admin.rpc("revoke_user_sessions", { p_user_id: target.id });
+    if (revokeError) throw new AdminUsersError(`Failed to revoke sessions: ${revokeError.message}`);
+  }
+
+  return { targetUserId: target.id, targetUsername: target.username, details: { was_active: target.active } };
+};
+
+const approveDevice = async (admin: SupabaseClient, actorId: string, request: AdminUsersRequest): Promise<ActionResult> => {
+  const target = await loadTarget(admin, request.userId);
+  const device = await loadDevice(admin, target, request.deviceId);
+
+  const { error } = await admin
+    .from("user_devices")
+    .update({ status: "approved", approved_by: actorId, approved_at: new Date().toISOString() })
+    .eq("id", device.id);
+  if (error) throw new AdminUsersError(error.message);
+
+  // users.device_id keeps the first device the user was bound to
+  const { error: userError } = await admin
+    .from("users")
+    .update({ device_id: device.device_id })
+    .eq("id", target.id)
+    .is("device_id", null);
+  if (userError) throw new AdminUsersError(userError.message);
+
+  return {
+    targetUserId: target.id,
+    targetUsername: target.username,
+    details: { device_id: device.device_id, name: device.name, from: device.status },
+  };
+};
+
+const renameDevice = async (admin: SupabaseClient, request: AdminUsersRequest): Promise<ActionResult> => {
+  const target = await loadTarget(admin, request.userId);
+  const device = await loadDevice(admin, target, request.deviceId);
+  const name = request.name?.trim() || null;
+
+  const { error } = await admin.from("user_devices").update({ name }).eq("id", device.id);
+  if (error) throw new AdminUsersError(error.message);
+
+  return {
+    targetUserId: target.id,
+    targetUsername: target.username,
+    details: { device_id: device.device_id, from: device.name, to: name },
+  };
+};
+
+const revokeDevice = async (admin: SupabaseClient, request: AdminUsersRequest): Promise<ActionResult> => {
+  const target = await loadTarget(admin, request.userId);
+  const device = await loadDevice(admin, target, request.deviceId);
+
+  const { error } = await admin.from("user_devices").update({ status: "revoked" }).eq("id", device.id);
+  if (error) throw new AdminUsersError(error.message);
+
+  // Sessions aren't tied to a device, so a bound user is signed out everywhere and logs in again
+  const { error: revokeError } = await admin.rpc("revoke_user_sessions", { p_user_id: target.id });
+  if (revokeError) throw new AdminUsersError(`Failed to revoke sessions: ${revokeError.message}`);
+
+  return {
+    targetUserId: target.id,
+    targetUsername: target.username,
+    details: { device_id: device.device_id, name: device.name, from: device.status },
+  };
+};
+
+const runAction = (admin: SupabaseClient, actorId: string, action: AdminAction, request: AdminUsersRequest) => {
+  switch (action) {
+    case "create": return createUser(admin, request);
+    case "update": return updateUser(admin, request);
+    case "reset_password": return resetPassword(admin, request);
+    case "change_role": return changeRole(admin, actorId, request);
+    case "disable": return setActive(admin, actorId, request, false);
+    case "enable": return setActive(admin, actorId, request, true);
+    case "approve_device": return approveDevice(admin, actorId, request);
+    case "rename_device": return renameDevice(admin, request);
+    case "revoke_device": return revokeDevice(admin, request);
+  }
+};
+
+// Failed attempts are recorded too. An audit write failure is logged but doesn't undo the action.
+const writeAudit = async (
+  admin: SupabaseClient,
+  actorId: string,
+  action: AdminAction,
+  request: AdminUsersRequest,
+  result: ActionResult | null,
+  errorMessage: string | null,
+) => {
+  const { error } = await admin.from("user_admin_audit").insert({
+    actor_id: actorId,
+    action,
+    target_user_id: result?.targetUserId ?? request.userId ?? null,
+    target_username: result?.targetUsername ?? request.username ?? null,
+    details: result?.details ?? {},
+    succeeded: errorMessage === null,
+    error_message: errorMessage,
+  });
+
+  if (error) console.error("Failed to write user admin audit:", error);
+};
+
+// Request body: { action, userId?, ...fields }
+//   create          username, email?, password, role, title, first_name, last_name, employee_id?, phone_number,
+//                   device_binding?
+//   update          userId, username, title, first_name, last_name, employee_id?, phone_number, device_binding?
+//   reset_password  userId, password
+//   change_role     userId, role
+//   disable/enable  userId
+//   approve_device  userId, deviceId
+//   rename_device   userId, deviceId, name
+//   revoke_device   userId, deviceId
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Missing SUPABASE_URL, SUPABASE_ANON_KEY or SUPABASE_SERVICE_ROLE_KEY");
+    }
+
+    // --- AUTHENTICATION ---
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    // has_permission() also refuses disabled accounts
+    const { data: allowed } = await userClient.rpc("has_permission", { p_permission: "users.manage" });
+    if (!allowed) {
+      return jsonResponse({ success: false, error: "You do not have permission to manage users" }, 403);
+    }
+
+    const admin = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+
+    // --- PARSE REQUEST BODY ---
+    let requestData: AdminUsersRequest;
+    try {
+      requestData = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON body" }, 400);
+    }
+
+    const action = requestData.action as AdminAction;
+    if (!ACTIONS.includes(action)) {
+      return jsonResponse({ success: false, error: `action must be one of ${ACTIONS.join(", ")}` }, 400);
+    }
+
+    // --- RUN AND AUDIT ---
+    try {
+      const result = await runAction(admin, user.id, action, requestData);
+      await writeAudit(admin, user.id, action, requestData, result, null);
+      return jsonResponse({ success: true, userId: result.targetUserId }, 200);
+    } catch (actionError) {
+      const message = actionError instanceof Error ? actionError.message : "Unknown error occurred";
+      await writeAudit(admin, user.id, action, requestData, null, message);
+
+      if (actionError instanceof AdminUsersError) {
+        return jsonResponse({ success: false, error: message }, actionError.status);
+      }
+      throw actionError;
+    }
+  } catch (err) {
+    console.error("Fatal error in admin-users:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown error occurred",
+    }, 500);
+  }
+});
@@ -0,0 +1,103 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.50.4";
+import { listTemplates, renderEmailTemplate } from "../_shared/email/templates/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// --- ENVIRONMENT VARIABLES ---
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// GET (or POST without `template`) lists the templates with their versions and sample data.
+// POST { template, version?, data?, format? } renders one; without `data` the template's
+// sample data is used. format "html" returns the HTML body alone for opening in a browser.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY) {
+      throw new Error("Missing environment variables: SUPABASE_URL, SUPABASE_ANON_KEY");
+    }
+
+    // --- AUTHENTICATION ---
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const { data: allowed } = await userClient.rpc("has_permission", { p_permission: "emails.manage" });
+    if (!allowed) {
+      return jsonResponse({ success: false, error: "Only admins can preview email templates" }, 403);
+    }
+
+    // --- PARSE REQUEST BODY ---
+    let requestData: { template?: string; version?: number; data?: Record<string, unknown>; format?: string } = {};
+    if (req.method === "POST") {
+      try {
+        requestData = await req.json();
+      } catch {
+        return jsonResponse({ success: false, error: "Invalid JSON body" }, 400);
+      }
+    }
+
+    const templates = listTemplates();
+    if (!requestData.template) {
+      return jsonResponse({ success: true, templates }, 200);
+    }
+
+    const summary = templates.find((template) => template.name === requestData.template);
+    if (!summary) {
+      return jsonResponse({ success: false, error: `Unknown email template "${requestData.template}"` }, 404);
+    }
+
+    // --- RENDER ---
+    let rendered;
+    try {
+      rendered = renderEmailTemplate(
+        summary.name,
+        requestData.data || (summary.sampleData as Record<string, unknown>),
+        requestData.version,
+      );
+    } catch (renderError) {
+      return jsonResponse({
+        success: false,
+        error: renderError instanceof Error ? renderError.message : "Failed to render template",
+      }, 422);
+    }
+
+    if (requestData.format === "html") {
+      return new Response(rendered.html, {
+        status: 200,
+        headers: { ...corsHeaders, "Content-Type": "text/html; charset=utf-8" },
+      });
+    }
+
+    return jsonResponse({ success: true, ...rendered }, 200);
+  } catch (err) {
+    console.error("Fatal error in preview-email-template:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown error occurred",
+    }, 500);
+  }
+});
@@ -0,0 +1,69 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.50.4";
+import { processEmailOutbox } from "../_shared/email/outbox.ts";
+import { createTransportFromEnv, fromAddress } from "../_shared/email/transport.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers":
+    "Content-Type, Authorization, X-Client-Info, Apikey, x-internal-send-token",
+};
+
+// --- ENVIRONMENT VARIABLES ---
+const INTERNAL_SEND_TOKEN = Deno.env.get("INTERNAL_SEND_TOKEN");
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+// Sends due email_logs rows. Called every minute by pg_cron (see the email outbox migration)
+// and nudged by the app right after it queues an email.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    // --- AUTHENTICATION ---
+    const internalTokenHeader = req.headers.get("x-internal-send-token");
+    if (!INTERNAL_SEND_TOKEN || internalTokenHeader !== INTERNAL_SEND_TOKEN) {
+      console.error("Unauthorized: Invalid or missing internal token");
+      return new Response(
+        JSON.stringify({ success: false, error: "Unauthorized: Invalid internal token" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Missing environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY");
+    }
+
+    let batchSize: number | undefined;
+    try {
+      const body = await req.json();
+      batchSize = typeof body?.batchSize === "number" ? body.batchSize : undefined;
+    } catch {
+      // An empty body is fine; the scheduler doesn't send one
+    }
+
+    const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+    const transport = createTransportFromEnv();
+    const result = await processEmailOutbox(supabase, transport, { from: fromAddress(), batchSize });
+
+    console.log(`Email outbox run via ${transport.name}:`, result);
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (err) {
+    console.error("Fatal error in process-email-outbox:", err);
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: err instanceof Error ? err.message : "Unknown error occurred",
+      }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,91 @@
+import "jsr:@supabase/functions-js/edge-runtime.d.ts";
+import { createClient } from "npm:@supabase/supabase-js@2.50.4";
+import { archiveDocument, DOCUMENT_TYPES, DocumentType, renderDocument } from "../_shared/documents/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, Authorization, X-Client-Info, Apikey",
+};
+
+// --- ENVIRONMENT VARIABLES ---
+const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
+const SUPABASE_ANON_KEY = Deno.env.get("SUPABASE_ANON_KEY");
+const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Request body: { type, id, duplicate?, archive? }
+// Responds with the PDF. With `archive`, the original is also stored in the documents bucket.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { status: 200, headers: corsHeaders });
+  }
+
+  try {
+    if (!SUPABASE_URL || !SUPABASE_ANON_KEY || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Missing SUPABASE_URL, SUPABASE_ANON_KEY or SUPABASE_SERVICE_ROLE_KEY");
+    }
+
+    // --- AUTHENTICATION ---
+    // Documents are read with the caller's own token, so RLS decides what they may render
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    const userClient = createClient(SUPABASE_URL, SUPABASE_ANON_KEY, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: userError } = await userClient.auth.getUser();
+    if (userError || !user) {
+      return jsonResponse({ success: false, error: "Unauthorized" }, 401);
+    }
+
+    // --- PARSE REQUEST BODY ---
+    let requestData: { type?: string; id?: string; duplicate?: boolean; archive?: boolean };
+    try {
+      requestData = await req.json();
+    } catch {
+      return jsonResponse({ success: false, error: "Invalid JSON body" }, 400);
+    }
+
+    const { type, id, duplicate = false, archive = false } = requestData;
+    if (!type || !DOCUMENT_TYPES.includes(type as DocumentType) || !id) {
+      return jsonResponse({ success: false, error: `type must be one of ${DOCUMENT_TYPES.join(", ")} and id is required` }, 400);
+    }
+
+    // --- RENDER ---
+    const document = await renderDocument(userClient, type as DocumentType, id, duplicate);
+
+    // --- ARCHIVE ---
+    if (archive && !duplicate) {
+      const adminClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
+      try {
+        await archiveDocument(adminClient, document, id, user.id);
+      } catch (archiveError) {
+        // The caller still gets the document; the next print will retry the archive
+        console.error("Failed to archive document:", archiveError);
+      }
+    }
+
+    return new Response(document.pdf, {
+      status: 200,
+      headers: {
+        ...corsHeaders,
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `inline; filename="${document.filename}"`,
+      },
+    });
+  } catch (err) {
+    console.error("Fatal error in render-document:", err);
+    return jsonResponse({
+      success: false,
+      error: err instanceof Error ? err.message : "Unknown error occurred",
+    }, 500);
+  }
+});
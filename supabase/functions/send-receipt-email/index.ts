@@ -1,6 +1,8 @@
 import "jsr:@supabase/functions-js/edge-runtime.d.ts";
 import { createClient } from "npm:@supabase/supabase-js@2.50.4";
-import nodemailer from "npm:nodemailer";
+import { renderDocument } from "../_shared/documents/index.ts";
+import { renderEmailTemplate } from "../_shared/email/templates/index.ts";
+import { createTransportFromEnv, EmailAttachment, fromAddress } from "../_shared/email/transport.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -10,14 +12,14 @@ const corsHeaders = {
 };
 
 // --- ENVIRONMENT VARIABLES ---
-const AWS_REGION = Deno.env.get("AWS_REGION");
-const SES_SMTP_USERNAME = Deno.env.get("SES_SMTP_USERNAME"); // Use SMTP username, not access key
-const SES_SMTP_PASSWORD = Deno.env.get("SES_SMTP_PASSWORD"); // Use SMTP password, not secret key
-const FROM_EMAIL = Deno.env.get("FROM_EMAIL");
+// Mail server settings are read by createTransportFromEnv (EMAIL_TRANSPORT, AWS_REGION, SES_SMTP_*, SMTP_*)
 const INTERNAL_SEND_TOKEN = Deno.env.get("INTERNAL_SEND_TOKEN");
 const SUPABASE_URL = Deno.env.get("SUPABASE_URL");
 const SUPABASE_SERVICE_ROLE_KEY = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
 
+// Sends a receipt immediately. The app queues receipts in email_logs for process-email-outbox
+// instead; this stays for one-off sends and testing a mail setup.
+
 // --- MAIN FUNCTION ---
 Deno.serve(async (req) => {
   console.log("=== Edge Function Started ===");
@@ -43,24 +45,10 @@ Deno.serve(async (req) => {
     }
 
     // --- VALIDATE ENVIRONMENT VARIABLES ---
-    const missingEnvVars = [];
-    if (!AWS_REGION) missingEnvVars.push("AWS_REGION");
-    if (!SES_SMTP_USERNAME) missingEnvVars.push("SES_SMTP_USERNAME");
-    if (!SES_SMTP_PASSWORD) missingEnvVars.push("SES_SMTP_PASSWORD");
-    if (!FROM_EMAIL) missingEnvVars.push("FROM_EMAIL");
-    if (!SUPABASE_URL) missingEnvVars.push("SUPABASE_URL");
-    if (!SUPABASE_SERVICE_ROLE_KEY) missingEnvVars.push("SUPABASE_SERVICE_ROLE_KEY");
-
-    if (missingEnvVars.length > 0) {
-      console.error("Missing environment variables:", missingEnvVars);
-      throw new Error(`Missing environment variables: ${missingEnvVars.join(", ")}`);
+    if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+      throw new Error("Missing environment variables: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY");
     }
 
-    console.log("AWS Region:", AWS_REGION);
-    console.log("SES SMTP Username present:", SES_SMTP_USERNAME ? "Yes" : "No");
-    console.log("SES SMTP Password present:", SES_SMTP_PASSWORD ? "Yes" : "No");
-    console.log("From Email:", FROM_EMAIL);
-
     // --- PARSE REQUEST BODY ---
     let requestData;
     try {
@@ -75,19 +63,7 @@ Deno.serve(async (req) => {
     }
 
     // --- DESTRUCTURE REQUEST FIELDS ---
-    const {
-      to: customerEmail,
-      customerName,
-      orderDisplayId,
-      receiptNo,
-      totalAmount,
-      paymentMethod,
-      orderItems,
-      orderDate,
-      salesRepName,
-      vehicleNumber,
-      orderId,
-    } = requestData;
+    const { to: customerEmail, customerName, orderDisplayId, orderId, templateVersion } = requestData;
 
     // --- VALIDATE REQUIRED FIELDS ---
     if (!customerEmail || !customerName || !orderDisplayId) {
@@ -102,139 +78,39 @@ Deno.serve(async (req) => {
     // --- INITIALIZE SUPABASE CLIENT ---
     const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY);
 
-    // --- CREATE AWS SES TRANSPORTER ---
-    console.log("Creating AWS SES transporter...");
-    
-    // AWS SES SMTP Configuration
-    const transporter = nodemailer.createTransport({
-      host: `email-smtp.${AWS_REGION}.amazonaws.com`,
-      port: 587, // Using port 587 with STARTTLS (more reliable)
-      secure: false, // true for 465, false for other ports
-      auth: {
-        user: SES_SMTP_USERNAME,
-        pass: SES_SMTP_PASSWORD,
-      },
-      // Additional options for better reliability
-      connectionTimeout: 10000, // 10 seconds
-      greetingTimeout: 10000,
-      socketTimeout: 10000,
-    });
-
-    // --- VERIFY SMTP CONNECTION ---
-    console.log("Verifying SMTP connection...");
-    try {
-      await transporter.verify();
-      console.log("SMTP connection verified successfully");
-    } catch (verifyError) {
-      console.error("SMTP verification failed:", verifyError);
-      
-      // Provide more specific error messages
-      let errorMessage = "SMTP connection failed";
-      if (verifyError.code === "EAUTH") {
-        errorMessage = "AWS SES SMTP authentication failed. Please check your SMTP credentials.";
-      } else if (verifyError.code === "ECONNECTION") {
-        errorMessage = "Could not connect to AWS SES. Check your region and network settings.";
-      } else {
-        errorMessage = `SMTP error: ${verifyError.message}`;
+    // --- CREATE TRANSPORT ---
+    const transport = createTransportFromEnv();
+    console.log("Using email transport:", transport.name);
+
+    const { subject, html, text } = renderEmailTemplate("receipt", requestData, templateVersion);
+
+    // --- ATTACH RECEIPT PDF ---
+    // Same document the order screen prints; a render failure still sends the HTML receipt
+    const attachments: EmailAttachment[] = [];
+    if (orderId) {
+      try {
+        const receipt = await renderDocument(supabase, "sales_order", orderId);
+        attachments.push({
+          filename: receipt.filename,
+          content: receipt.pdf,
+          contentType: "application/pdf",
+        });
+      } catch (renderError) {
+        console.error("Failed to render receipt PDF:", renderError);
       }
-      
-      throw new Error(errorMessage);
     }
 
-    // --- GENERATE EMAIL HTML ---
-    const orderItemsHtml = (orderItems || [])
-      .map(
-        (item) => `
-          <tr>
-            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb;">${item.productName}</td>
-            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">${item.quantity}</td>
-            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right;">Rs ${item.price?.toFixed(2) || '0.00'}</td>
-            <td style="padding: 8px; border-bottom: 1px solid #e5e7eb; text-align: right; font-weight: 600;">Rs ${((item.quantity || 0) * (item.price || 0)).toFixed(2)}</td>
-          </tr>`
-      )
-      .join("");
-
-    const emailHtml = `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8">
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { text-align: center; border-bottom: 2px solid #e44d26; padding-bottom: 20px; margin-bottom: 20px; }
-          .company-name { font-size: 24px; font-weight: bold; color: #e44d26; }
-          table { width: 100%; border-collapse: collapse; margin: 20px 0; }
-          th { background-color: #f8f9fa; text-align: left; padding: 12px; border-bottom: 2px solid #dee2e6; }
-          td { padding: 12px; border-bottom: 1px solid #dee2e6; }
-          .total-row { font-weight: bold; background-color: #f8f9fa; }
-          .footer { margin-top: 30px; padding-top: 20px; border-top: 1px solid #dee2e6; text-align: center; color: #6c757d; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <div class="company-name">WEEHENA FARM</div>
-            <div style="color: #666; margin: 5px 0;">A Taste with Quality</div>
-            <div style="font-size: 20px; margin: 10px 0;">SALES RECEIPT</div>
-          </div>
-
-          <div style="margin-bottom: 20px;">
-            <h3>ORDER DETAILS</h3>
-            <p><strong>Order ID:</strong> ${orderDisplayId}<br>
-            <strong>Receipt No:</strong> ${receiptNo || 'N/A'}<br>
-            <strong>Date:</strong> ${orderDate || new Date().toLocaleDateString()}<br>
-            <strong>Payment Method:</strong> ${paymentMethod || 'N/A'}</p>
-          </div>
-
-          <div style="margin-bottom: 20px;">
-            <h3>BILL TO</h3>
-            <p><strong>${customerName}</strong><br>
-            <strong>Sales Rep:</strong> ${salesRepName || 'N/A'}<br>
-            ${vehicleNumber ? `<strong>Vehicle:</strong> ${vehicleNumber}` : ''}</p>
-          </div>
-
-          <h3>ORDER ITEMS</h3>
-          <table>
-            <thead>
-              <tr>
-                <th>Product</th>
-                <th style="text-align: right;">Qty</th>
-                <th style="text-align: right;">Price</th>
-                <th style="text-align: right;">Amount</th>
-              </tr>
-            </thead>
-            <tbody>
-              ${orderItemsHtml}
-            </tbody>
-            <tfoot>
-              <tr class="total-row">
-                <td colspan="3" style="text-align: right;">GRAND TOTAL:</td>
-                <td style="text-align: right;">Rs ${(totalAmount || 0).toFixed(2)}</td>
-              </tr>
-            </tfoot>
-          </table>
-
-          <div class="footer">
-            <p>Thank you for your business!</p>
-            <p>Weehena Farm - Quality Poultry Products</p>
-          </div>
-        </div>
-      </body>
-      </html>`;
-
     // --- SEND EMAIL ---
     console.log("Sending email to:", customerEmail);
     
-    const mailOptions = {
-      from: `Weehena Farm <${FROM_EMAIL}>`,
+    const info = await transport.send({
+      from: fromAddress(),
       to: customerEmail,
-      subject: `Receipt ${receiptNo} - Order ${orderDisplayId}`,
-      html: emailHtml,
-      text: `Receipt ${receiptNo} for Order ${orderDisplayId}\nTotal Amount: Rs ${totalAmount?.toFixed(2) || '0.00'}\n\nThank you for your business!`,
-    };
-
-    const info = await transporter.sendMail(mailOptions);
+      subject,
+      html,
+      text,
+      attachments,
+    });
     console.log("Email sent successfully:", info.messageId);
 
     return new Response(
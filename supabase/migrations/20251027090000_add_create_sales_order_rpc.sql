@@ -0,0 +1,153 @@
+/*
+  # Atomic Sales Order Creation
+
+  1. New Functions
+    - `create_sales_order(...)` - Creates an order, its items and decrements stock in one transaction
+      - Locks every product row in the order (in id order to avoid deadlocks)
+      - Validates that each product has enough stock at the time of the call
+      - Computes subtotal, VAT (from `system_settings.vat_rate` and customer `vat_status`) and total
+      - Decrements `products.quantity` relative to the current row value, not a client snapshot
+      - Returns the newly created `orders` row
+
+  2. Parameters
+    - `p_customer_id` (uuid) - Customer placing the order
+    - `p_assigned_to` (uuid) - Sales rep the order is assigned to
+    - `p_items` (jsonb) - Array of `{ product_id, quantity, price, discount }`
+    - `p_vehicle_number` (text, nullable)
+    - `p_delivery_date` (date, nullable)
+    - `p_purchase_order_id` (text, nullable)
+
+  3. Security
+    - Runs as the calling user so existing RLS policies on orders, order_items and products apply
+    - `created_by` is always taken from `auth.uid()`
+
+  4. Notes
+    - Any failure (missing product, insufficient stock, constraint violation) rolls back the whole order
+    - Errors are raised with SQLSTATE P0001 and a human-readable message for the UI
+*/
+
+CREATE OR REPLACE FUNCTION create_sales_order(
+  p_customer_id uuid,
+  p_assigned_to uuid,
+  p_items jsonb,
+  p_vehicle_number text DEFAULT NULL,
+  p_delivery_date date DEFAULT NULL,
+  p_purchase_order_id text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_vat_rate numeric := 0;
+  v_subtotal numeric := 0;
+  v_vat_amount numeric := 0;
+  v_is_vat_applicable boolean := false;
+  v_order orders%ROWTYPE;
+  v_item record;
+  v_product record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  -- Lock product rows and validate stock before writing anything
+  FOR v_item IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+
+    SELECT id, name, quantity INTO v_product
+    FROM products
+    WHERE id = v_item.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item.product_id;
+    END IF;
+
+    IF v_product.quantity < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_product.name, v_product.quantity, v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(
+    (elem->>'quantity')::numeric * (elem->>'price')::numeric
+    - COALESCE((elem->>'discount')::numeric, 0)
+  ), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  v_is_vat_applicable := v_customer.vat_status = 'VAT';
+  IF v_is_vat_applicable THEN
+    SELECT COALESCE(vat_rate, 0) INTO v_vat_rate FROM system_settings LIMIT 1;
+    v_vat_amount := ROUND(v_subtotal * COALESCE(v_vat_rate, 0), 2);
+  END IF;
+
+  INSERT INTO orders (
+    customer_id,
+    status,
+    purchase_order_id,
+    created_by,
+    assigned_to,
+    vehicle_number,
+    delivery_date,
+    total_amount,
+    vat_amount,
+    is_vat_applicable
+  ) VALUES (
+    p_customer_id,
+    'Assigned',
+    NULLIF(TRIM(p_purchase_order_id), ''),
+    v_user_id,
+    p_assigned_to,
+    NULLIF(TRIM(p_vehicle_number), ''),
+    COALESCE(p_delivery_date, CURRENT_DATE),
+    v_subtotal + v_vat_amount,
+    v_vat_amount,
+    v_is_vat_applicable
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, item_id, quantity, price, discount)
+  SELECT
+    v_order.id,
+    (elem->>'product_id')::uuid,
+    (elem->>'quantity')::numeric,
+    (elem->>'price')::numeric,
+    COALESCE((elem->>'discount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  UPDATE products p
+  SET quantity = p.quantity - totals.quantity
+  FROM (
+    SELECT (elem->>'product_id')::uuid AS product_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+  ) AS totals
+  WHERE p.id = totals.product_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_sales_order(uuid, uuid, jsonb, text, date, text) TO authenticated;
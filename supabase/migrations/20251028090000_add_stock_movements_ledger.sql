@@ -0,0 +1,273 @@
+/*
+  # Stock Movement Ledger
+
+  1. New Tables
+    - `stock_movements`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid) - Product whose quantity changed
+      - `movement_type` (text) - 'receipt', 'sale', 'return', 'on_demand_issue', 'on_demand_return', 'adjustment'
+      - `quantity_delta` (numeric) - Signed change applied to `products.quantity`
+      - `balance_after` (numeric) - `products.quantity` immediately after the change
+      - `reference_type` (text, nullable) - Source document type, e.g. 'order', 'order_return', 'on_demand_assignment_item'
+      - `reference_id` (uuid, nullable) - Source document id
+      - `reference_no` (text, nullable) - Human readable document number, e.g. SAL0001
+      - `notes` (text, nullable)
+      - `created_by` (uuid, nullable) - User who made the change
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `record_stock_movement(...)` - Applies a signed delta to `products.quantity` relative to the
+      current row value and writes the matching ledger row in the same transaction
+    - `create_sales_order(...)` - Redefined to record a 'sale' movement per product
+
+  3. Triggers
+    - `products_untracked_stock_change_trigger` - Any `products.quantity` update that does not go
+      through `record_stock_movement` is still captured as an 'adjustment'
+
+  4. Security
+    - Enable RLS on `stock_movements`
+    - Authenticated users can read the ledger
+    - Rows are only written through the functions above; no direct INSERT/UPDATE/DELETE policies
+*/
+
+CREATE TABLE IF NOT EXISTS stock_movements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  movement_type text NOT NULL CHECK (movement_type IN (
+    'receipt', 'sale', 'return', 'on_demand_issue', 'on_demand_return', 'adjustment'
+  )),
+  quantity_delta numeric(12,3) NOT NULL,
+  balance_after numeric(12,3) NOT NULL,
+  reference_type text,
+  reference_id uuid,
+  reference_no text,
+  notes text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE stock_movements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Stock movements can be viewed by authenticated users"
+  ON stock_movements
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product_id ON stock_movements(product_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference_type, reference_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_created_at ON stock_movements(created_at DESC);
+
+-- Apply a stock change and log it atomically
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_quantity_delta numeric,
+  p_movement_type text,
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_reference_no text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product record;
+  v_movement stock_movements%ROWTYPE;
+BEGIN
+  IF p_quantity_delta IS NULL OR p_quantity_delta = 0 THEN
+    RAISE EXCEPTION 'Stock movement quantity must be non-zero';
+  END IF;
+
+  SELECT id, name, quantity INTO v_product
+  FROM products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF v_product.quantity + p_quantity_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+      v_product.name, v_product.quantity, -p_quantity_delta;
+  END IF;
+
+  PERFORM set_config('app.stock_movement_logged', 'on', true);
+
+  UPDATE products
+  SET quantity = quantity + p_quantity_delta
+  WHERE id = p_product_id;
+
+  PERFORM set_config('app.stock_movement_logged', 'off', true);
+
+  INSERT INTO stock_movements (
+    product_id, movement_type, quantity_delta, balance_after,
+    reference_type, reference_id, reference_no, notes, created_by
+  ) VALUES (
+    p_product_id, p_movement_type, p_quantity_delta, v_product.quantity + p_quantity_delta,
+    p_reference_type, p_reference_id, p_reference_no, NULLIF(TRIM(p_notes), ''), auth.uid()
+  )
+  RETURNING * INTO v_movement;
+
+  RETURN v_movement;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_stock_movement(uuid, numeric, text, text, uuid, text, text) TO authenticated;
+
+-- Safety net for updates that bypass record_stock_movement
+CREATE OR REPLACE FUNCTION log_untracked_stock_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.quantity IS DISTINCT FROM OLD.quantity
+     AND COALESCE(current_setting('app.stock_movement_logged', true), 'off') <> 'on' THEN
+    INSERT INTO stock_movements (
+      product_id, movement_type, quantity_delta, balance_after, notes, created_by
+    ) VALUES (
+      NEW.id, 'adjustment', NEW.quantity - OLD.quantity, NEW.quantity,
+      'Direct quantity update', auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_untracked_stock_change_trigger ON products;
+CREATE TRIGGER products_untracked_stock_change_trigger
+  AFTER UPDATE OF quantity ON products
+  FOR EACH ROW
+  EXECUTE FUNCTION log_untracked_stock_change();
+
+-- Redefine create_sales_order so each decrement is written to the ledger
+CREATE OR REPLACE FUNCTION create_sales_order(
+  p_customer_id uuid,
+  p_assigned_to uuid,
+  p_items jsonb,
+  p_vehicle_number text DEFAULT NULL,
+  p_delivery_date date DEFAULT NULL,
+  p_purchase_order_id text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_vat_rate numeric := 0;
+  v_subtotal numeric := 0;
+  v_vat_amount numeric := 0;
+  v_is_vat_applicable boolean := false;
+  v_order orders%ROWTYPE;
+  v_item record;
+  v_product record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  -- Lock product rows and validate stock before writing anything
+  FOR v_item IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+
+    SELECT id, name, quantity INTO v_product
+    FROM products
+    WHERE id = v_item.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item.product_id;
+    END IF;
+
+    IF v_product.quantity < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_product.name, v_product.quantity, v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(
+    (elem->>'quantity')::numeric * (elem->>'price')::numeric
+    - COALESCE((elem->>'discount')::numeric, 0)
+  ), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  v_is_vat_applicable := v_customer.vat_status = 'VAT';
+  IF v_is_vat_applicable THEN
+    SELECT COALESCE(vat_rate, 0) INTO v_vat_rate FROM system_settings LIMIT 1;
+    v_vat_amount := ROUND(v_subtotal * COALESCE(v_vat_rate, 0), 2);
+  END IF;
+
+  INSERT INTO orders (
+    customer_id,
+    status,
+    purchase_order_id,
+    created_by,
+    assigned_to,
+    vehicle_number,
+    delivery_date,
+    total_amount,
+    vat_amount,
+    is_vat_applicable
+  ) VALUES (
+    p_customer_id,
+    'Assigned',
+    NULLIF(TRIM(p_purchase_order_id), ''),
+    v_user_id,
+    p_assigned_to,
+    NULLIF(TRIM(p_vehicle_number), ''),
+    COALESCE(p_delivery_date, CURRENT_DATE),
+    v_subtotal + v_vat_amount,
+    v_vat_amount,
+    v_is_vat_applicable
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO order_items (order_id, item_id, quantity, price, discount)
+  SELECT
+    v_order.id,
+    (elem->>'product_id')::uuid,
+    (elem->>'quantity')::numeric,
+    (elem->>'price')::numeric,
+    COALESCE((elem->>'discount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  FOR v_item IN
+    SELECT (elem->>'product_id')::uuid AS product_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id, -v_item.quantity, 'sale', 'order', v_order.id, v_order.order_display_id, NULL
+    );
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$;
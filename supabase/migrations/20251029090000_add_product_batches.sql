@@ -0,0 +1,347 @@
+/*
+  # Product Batch and Expiry Tracking
+
+  1. New Tables
+    - `product_batches`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid) - Product the batch belongs to
+      - `batch_number` (text) - Supplier/lot number, generated when left blank
+      - `received_quantity` (numeric) - Quantity received in the stock receipt
+      - `quantity` (numeric) - Quantity still on hand in main inventory
+      - `expiry_date` (date, nullable)
+      - `created_by` (uuid, nullable)
+      - `created_at`, `updated_at` (timestamptz)
+    - `stock_movement_batches`
+      - Which batches a stock movement drew from or put back into
+      - `quantity` is signed like `stock_movements.quantity_delta`
+      - `source_movement_id` links a restoration to the issue/sale it reverses
+
+  2. New Functions
+    - `receive_stock_batch(...)` - Creates a batch and records the 'receipt' movement
+    - `consume_product_batches(...)` - FEFO allocation for a stock decrease
+    - `restore_product_batches(...)` - Puts returned stock back into the batches it was taken from
+
+  3. Changes
+    - `record_stock_movement` consumes batches FEFO on every decrease, and restores batches on
+      'return' / 'on_demand_return' movements that reference the original sale or issue
+    - `log_untracked_stock_change` also consumes batches FEFO for direct decreases
+
+  4. Security
+    - Enable RLS on both tables; authenticated users can read
+    - Rows are only written through the functions above
+    - `receive_stock_batch` is limited to Admin and Super Admin, matching the Update Stock action
+
+  5. Notes
+    - Stock that existed before batches were introduced (or that cannot be traced back to a batch
+      on return) stays unbatched. FEFO draws from batches first, earliest expiry first, with
+      batches without an expiry date last; anything left comes from unbatched stock.
+*/
+
+CREATE TABLE IF NOT EXISTS product_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  batch_number text NOT NULL,
+  received_quantity numeric(12,3) NOT NULL CHECK (received_quantity > 0),
+  quantity numeric(12,3) NOT NULL CHECK (quantity >= 0),
+  expiry_date date,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS stock_movement_batches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_movement_id uuid NOT NULL REFERENCES stock_movements(id) ON DELETE CASCADE,
+  batch_id uuid NOT NULL REFERENCES product_batches(id) ON DELETE CASCADE,
+  quantity numeric(12,3) NOT NULL,
+  source_movement_id uuid REFERENCES stock_movements(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+ALTER TABLE product_batches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_movement_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Product batches can be viewed by authenticated users"
+  ON product_batches
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Stock movement batches can be viewed by authenticated users"
+  ON stock_movement_batches
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE INDEX IF NOT EXISTS idx_product_batches_product_expiry ON product_batches(product_id, expiry_date);
+CREATE INDEX IF NOT EXISTS idx_product_batches_expiry_date ON product_batches(expiry_date) WHERE quantity > 0;
+CREATE INDEX IF NOT EXISTS idx_stock_movement_batches_movement ON stock_movement_batches(stock_movement_id);
+CREATE INDEX IF NOT EXISTS idx_stock_movement_batches_source ON stock_movement_batches(source_movement_id, batch_id);
+
+CREATE TRIGGER update_product_batches_updated_at
+  BEFORE UPDATE ON product_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- FEFO: take from the earliest-expiring batches first
+CREATE OR REPLACE FUNCTION consume_product_batches(
+  p_movement_id uuid,
+  p_product_id uuid,
+  p_quantity numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_remaining numeric := p_quantity;
+  v_take numeric;
+  v_batch record;
+BEGIN
+  FOR v_batch IN
+    SELECT id, quantity
+    FROM product_batches
+    WHERE product_id = p_product_id AND quantity > 0
+    ORDER BY expiry_date ASC NULLS LAST, created_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_take := LEAST(v_batch.quantity, v_remaining);
+
+    UPDATE product_batches
+    SET quantity = quantity - v_take
+    WHERE id = v_batch.id;
+
+    INSERT INTO stock_movement_batches (stock_movement_id, batch_id, quantity)
+    VALUES (p_movement_id, v_batch.id, -v_take);
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+END;
+$$;
+
+-- Put returned stock back into the batches the original sale/issue drew from
+CREATE OR REPLACE FUNCTION restore_product_batches(
+  p_movement_id uuid,
+  p_product_id uuid,
+  p_quantity numeric,
+  p_movement_type text,
+  p_reference_type text,
+  p_reference_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_remaining numeric := p_quantity;
+  v_order_id uuid;
+  v_restore numeric;
+  v_alloc record;
+BEGIN
+  IF p_reference_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF p_movement_type = 'return' AND p_reference_type = 'order_return' THEN
+    SELECT oi.order_id INTO v_order_id
+    FROM order_returns r
+    JOIN order_items oi ON oi.id = r.order_item_id
+    WHERE r.id = p_reference_id;
+  END IF;
+
+  FOR v_alloc IN
+    SELECT
+      smb.stock_movement_id,
+      smb.batch_id,
+      -smb.quantity - COALESCE((
+        SELECT SUM(r.quantity)
+        FROM stock_movement_batches r
+        WHERE r.source_movement_id = smb.stock_movement_id
+          AND r.batch_id = smb.batch_id
+      ), 0) AS outstanding
+    FROM stock_movement_batches smb
+    JOIN stock_movements sm ON sm.id = smb.stock_movement_id
+    JOIN product_batches b ON b.id = smb.batch_id
+    WHERE smb.quantity < 0
+      AND sm.product_id = p_product_id
+      AND (
+        (p_movement_type = 'on_demand_return'
+          AND sm.movement_type = 'on_demand_issue'
+          AND sm.reference_type = p_reference_type
+          AND sm.reference_id = p_reference_id)
+        OR (p_movement_type = 'return'
+          AND sm.movement_type = 'sale'
+          AND sm.reference_type = 'order'
+          AND sm.reference_id = v_order_id)
+      )
+    ORDER BY b.expiry_date DESC NULLS FIRST, b.created_at DESC
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+    CONTINUE WHEN v_alloc.outstanding <= 0;
+
+    v_restore := LEAST(v_alloc.outstanding, v_remaining);
+
+    UPDATE product_batches
+    SET quantity = quantity + v_restore
+    WHERE id = v_alloc.batch_id;
+
+    INSERT INTO stock_movement_batches (stock_movement_id, batch_id, quantity, source_movement_id)
+    VALUES (p_movement_id, v_alloc.batch_id, v_restore, v_alloc.stock_movement_id);
+
+    v_remaining := v_remaining - v_restore;
+  END LOOP;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_product_batches(uuid, uuid, numeric) FROM PUBLIC;
+REVOKE ALL ON FUNCTION restore_product_batches(uuid, uuid, numeric, text, text, uuid) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_quantity_delta numeric,
+  p_movement_type text,
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_reference_no text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product record;
+  v_movement stock_movements%ROWTYPE;
+BEGIN
+  IF p_quantity_delta IS NULL OR p_quantity_delta = 0 THEN
+    RAISE EXCEPTION 'Stock movement quantity must be non-zero';
+  END IF;
+
+  SELECT id, name, quantity INTO v_product
+  FROM products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF v_product.quantity + p_quantity_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+      v_product.name, v_product.quantity, -p_quantity_delta;
+  END IF;
+
+  PERFORM set_config('app.stock_movement_logged', 'on', true);
+
+  UPDATE products
+  SET quantity = quantity + p_quantity_delta
+  WHERE id = p_product_id;
+
+  PERFORM set_config('app.stock_movement_logged', 'off', true);
+
+  INSERT INTO stock_movements (
+    product_id, movement_type, quantity_delta, balance_after,
+    reference_type, reference_id, reference_no, notes, created_by
+  ) VALUES (
+    p_product_id, p_movement_type, p_quantity_delta, v_product.quantity + p_quantity_delta,
+    p_reference_type, p_reference_id, p_reference_no, NULLIF(TRIM(p_notes), ''), auth.uid()
+  )
+  RETURNING * INTO v_movement;
+
+  IF p_quantity_delta < 0 THEN
+    PERFORM consume_product_batches(v_movement.id, p_product_id, -p_quantity_delta);
+  ELSIF p_movement_type IN ('return', 'on_demand_return') THEN
+    PERFORM restore_product_batches(
+      v_movement.id, p_product_id, p_quantity_delta, p_movement_type, p_reference_type, p_reference_id
+    );
+  END IF;
+
+  RETURN v_movement;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION log_untracked_stock_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_movement_id uuid;
+BEGIN
+  IF NEW.quantity IS DISTINCT FROM OLD.quantity
+     AND COALESCE(current_setting('app.stock_movement_logged', true), 'off') <> 'on' THEN
+    INSERT INTO stock_movements (
+      product_id, movement_type, quantity_delta, balance_after, notes, created_by
+    ) VALUES (
+      NEW.id, 'adjustment', NEW.quantity - OLD.quantity, NEW.quantity,
+      'Direct quantity update', auth.uid()
+    )
+    RETURNING id INTO v_movement_id;
+
+    IF NEW.quantity < OLD.quantity THEN
+      PERFORM consume_product_batches(v_movement_id, NEW.id, OLD.quantity - NEW.quantity);
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+-- Stock receipt with batch number and expiry date
+CREATE OR REPLACE FUNCTION receive_stock_batch(
+  p_product_id uuid,
+  p_quantity numeric,
+  p_batch_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS product_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch product_batches%ROWTYPE;
+  v_movement stock_movements%ROWTYPE;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('Super Admin', 'Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Admin and Super Admin users can receive stock';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be greater than 0';
+  END IF;
+
+  INSERT INTO product_batches (
+    product_id, batch_number, received_quantity, quantity, expiry_date, created_by
+  ) VALUES (
+    p_product_id,
+    COALESCE(NULLIF(TRIM(p_batch_number), ''), 'B' || to_char(now(), 'YYYYMMDDHH24MISS')),
+    p_quantity,
+    p_quantity,
+    p_expiry_date,
+    auth.uid()
+  )
+  RETURNING * INTO v_batch;
+
+  v_movement := record_stock_movement(
+    p_product_id, p_quantity, 'receipt', 'product_batch', v_batch.id, v_batch.batch_number, p_notes
+  );
+
+  INSERT INTO stock_movement_batches (stock_movement_id, batch_id, quantity)
+  VALUES (v_movement.id, v_batch.id, p_quantity);
+
+  RETURN v_batch;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_stock_batch(uuid, numeric, text, date, text) TO authenticated;
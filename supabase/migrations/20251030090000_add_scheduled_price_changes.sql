@@ -0,0 +1,134 @@
+/*
+  # Scheduled Price Changes
+
+  1. New Tables
+    - `scheduled_price_changes`
+      - `id` (uuid, primary key)
+      - `product_id` (uuid) - Product the new prices apply to
+      - `price_dealer_cash`, `price_dealer_credit`, `price_hotel_cash`, `price_hotel_credit`
+        (numeric, nullable) - New tier prices; NULL leaves that tier unchanged
+      - `effective_date` (date) - First day the new prices are active
+      - `status` (text) - 'pending', 'applied' or 'cancelled'
+      - `category_id` (uuid, nullable) - Set when the change was scheduled in bulk for a category
+      - `notes` (text, nullable)
+      - `created_by`, `created_at`
+      - `cancelled_by`, `cancelled_at`, `applied_at`
+
+  2. New Functions
+    - `apply_due_price_changes()` - Copies every pending change whose effective date has arrived
+      onto `products` (so `products_audit` records it) and marks it applied
+
+  3. Security
+    - Enable RLS on `scheduled_price_changes`
+    - Authenticated users can read scheduled changes (needed to resolve prices on the order date)
+    - Only Admin and Super Admin can schedule or cancel changes
+
+  4. Notes
+    - If `pg_cron` is available, `apply_due_price_changes()` is scheduled shortly after midnight.
+      The app also resolves due-but-unapplied changes when loading prices, so orders use the
+      active price even before the job runs.
+*/
+
+CREATE TABLE IF NOT EXISTS scheduled_price_changes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  price_dealer_cash numeric(10,2) CHECK (price_dealer_cash > 0),
+  price_dealer_credit numeric(10,2) CHECK (price_dealer_credit > 0),
+  price_hotel_cash numeric(10,2) CHECK (price_hotel_cash > 0),
+  price_hotel_credit numeric(10,2) CHECK (price_hotel_credit > 0),
+  effective_date date NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'cancelled')),
+  category_id uuid REFERENCES categories(category_id) ON DELETE SET NULL,
+  notes text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  cancelled_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  cancelled_at timestamptz,
+  applied_at timestamptz,
+  CONSTRAINT scheduled_price_changes_has_price CHECK (
+    COALESCE(price_dealer_cash, price_dealer_credit, price_hotel_cash, price_hotel_credit) IS NOT NULL
+  )
+);
+
+ALTER TABLE scheduled_price_changes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Scheduled price changes can be viewed by authenticated users"
+  ON scheduled_price_changes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can schedule price changes"
+  ON scheduled_price_changes
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin')
+    )
+  );
+
+CREATE POLICY "Admins can update scheduled price changes"
+  ON scheduled_price_changes
+  FOR UPDATE
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin')
+    )
+  );
+
+CREATE INDEX IF NOT EXISTS idx_scheduled_price_changes_pending
+  ON scheduled_price_changes(product_id, effective_date)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_scheduled_price_changes_effective_date ON scheduled_price_changes(effective_date);
+
+CREATE OR REPLACE FUNCTION apply_due_price_changes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_change scheduled_price_changes%ROWTYPE;
+  v_applied integer := 0;
+BEGIN
+  FOR v_change IN
+    SELECT *
+    FROM scheduled_price_changes
+    WHERE status = 'pending'
+      AND effective_date <= CURRENT_DATE
+    ORDER BY effective_date ASC, created_at ASC
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE products
+    SET
+      price_dealer_cash = COALESCE(v_change.price_dealer_cash, price_dealer_cash),
+      price_dealer_credit = COALESCE(v_change.price_dealer_credit, price_dealer_credit),
+      price_hotel_cash = COALESCE(v_change.price_hotel_cash, price_hotel_cash),
+      price_hotel_credit = COALESCE(v_change.price_hotel_credit, price_hotel_credit)
+    WHERE id = v_change.product_id;
+
+    UPDATE scheduled_price_changes
+    SET status = 'applied', applied_at = now()
+    WHERE id = v_change.id;
+
+    v_applied := v_applied + 1;
+  END LOOP;
+
+  RETURN v_applied;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION apply_due_price_changes() TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('apply-due-price-changes', '5 0 * * *', 'SELECT apply_due_price_changes()');
+  END IF;
+END $$;
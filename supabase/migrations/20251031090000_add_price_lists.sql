@@ -0,0 +1,164 @@
+/*
+  # Price Lists and Contract Pricing
+
+  1. New Tables
+    - `price_lists`
+      - `id` (uuid, primary key)
+      - `name` (text, unique)
+      - `description` (text, nullable)
+      - `is_active` (boolean) - Inactive lists are ignored when pricing
+      - `created_by`, `created_at`, `updated_at`
+    - `price_list_items`
+      - `price_list_id` (uuid) - Owning price list
+      - `product_id` (uuid)
+      - `price` (numeric) - Per-product override price
+      - Unique on (`price_list_id`, `product_id`)
+    - `price_list_assignments`
+      - `price_list_id` (uuid)
+      - `customer_id` (uuid, nullable) - Contract price list for a single customer
+      - `customer_category` (text, nullable) - Any category from `system_settings.customer_categories`
+      - `payment_type` (text, nullable) - 'Cash' or 'Credit'; NULL applies to both
+      - Exactly one of `customer_id` / `customer_category` is set
+
+  2. Price resolution (in the app)
+    - Customer price list item, then category + payment type list item, then category list item,
+      then the existing `products.price_*` tier columns
+
+  3. Security
+    - Enable RLS on all three tables
+    - Authenticated users can read (sales reps and order managers need prices)
+    - Only Admin and Super Admin can manage price lists
+*/
+
+CREATE TABLE IF NOT EXISTS price_lists (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL UNIQUE,
+  description text,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS price_list_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_list_id uuid NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  price numeric(10,2) NOT NULL CHECK (price > 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (price_list_id, product_id)
+);
+
+CREATE TABLE IF NOT EXISTS price_list_assignments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  price_list_id uuid NOT NULL REFERENCES price_lists(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES customers(id) ON DELETE CASCADE,
+  customer_category text,
+  payment_type text CHECK (payment_type IN ('Cash', 'Credit')),
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  CONSTRAINT price_list_assignments_target CHECK (
+    (customer_id IS NOT NULL AND customer_category IS NULL AND payment_type IS NULL)
+    OR (customer_id IS NULL AND customer_category IS NOT NULL)
+  )
+);
+
+-- One contract list per customer, one list per category/payment type combination
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_list_assignments_customer
+  ON price_list_assignments(customer_id)
+  WHERE customer_id IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_price_list_assignments_category
+  ON price_list_assignments(customer_category, COALESCE(payment_type, ''))
+  WHERE customer_category IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_price_list_assignments_price_list_id ON price_list_assignments(price_list_id);
+CREATE INDEX IF NOT EXISTS idx_price_list_items_product_id ON price_list_items(product_id);
+
+ALTER TABLE price_lists ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_list_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_list_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Price lists can be viewed by authenticated users"
+  ON price_lists
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage price lists"
+  ON price_lists
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin')
+    )
+  );
+
+CREATE POLICY "Price list items can be viewed by authenticated users"
+  ON price_list_items
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage price list items"
+  ON price_list_items
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin')
+    )
+  );
+
+CREATE POLICY "Price list assignments can be viewed by authenticated users"
+  ON price_list_assignments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Admins can manage price list assignments"
+  ON price_list_assignments
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin')
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin')
+    )
+  );
+
+CREATE TRIGGER update_price_lists_updated_at
+  BEFORE UPDATE ON price_lists
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_price_list_items_updated_at
+  BEFORE UPDATE ON price_list_items
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
@@ -0,0 +1,167 @@
+/*
+  # Order Status Workflow
+
+  1. New Tables
+    - `order_status_transitions` - The order status state machine, one row per allowed move
+      - `from_status` (text) - Status the order is in
+      - `to_status` (text) - Status it may move to
+      - `allowed_roles` (text[]) - User roles that may make the move
+      - `security_check_status` (text, nullable) - Value written to `orders.security_check_status`
+      - `stamps_completion` (boolean) - Sets `completed_at` / `completed_by` when not already set
+
+  2. Changes
+    - `orders_status_check` now lists every status the app uses, including
+      'Security Check Bypassed Due to Off Hours' which was missing from the constraint
+
+  3. Enforcement
+    - `enforce_order_status_transition` trigger on `orders`
+      - New orders must start as 'Pending' or 'Assigned'
+      - A status change must match a row in `order_status_transitions` for the caller's role,
+        otherwise it is rejected
+      - Applies the transition's side effects
+    - Changes made without a signed-in user (service role, scheduled jobs, SQL console) are not checked
+
+  4. Security
+    - Enable RLS on `order_status_transitions`
+    - Authenticated users can read transitions (the app builds its status menus from them)
+    - Only Super Admin can change the workflow
+*/
+
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+
+ALTER TABLE orders
+ADD CONSTRAINT orders_status_check
+CHECK (status = ANY (ARRAY[
+  'Pending'::text,
+  'Assigned'::text,
+  'Products Loaded'::text,
+  'Product Reloaded'::text,
+  'Security Check Incomplete'::text,
+  'Security Checked'::text,
+  'Security Check Bypassed Due to Off Hours'::text,
+  'Departed Farm'::text,
+  'Delivered'::text,
+  'Cancelled'::text,
+  'Completed'::text
+]));
+
+CREATE TABLE IF NOT EXISTS order_status_transitions (
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  allowed_roles text[] NOT NULL DEFAULT '{}',
+  security_check_status text CHECK (security_check_status IN ('pending', 'completed', 'incomplete', 'bypassed')),
+  stamps_completion boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (from_status, to_status),
+  CHECK (from_status <> to_status)
+);
+
+ALTER TABLE order_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order status transitions can be viewed by authenticated users"
+  ON order_status_transitions
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Super Admins can manage order status transitions"
+  ON order_status_transitions
+  FOR ALL
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'Super Admin'
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'Super Admin'
+    )
+  );
+
+-- Default workflow. Managers (Super Admin, Admin, Order Manager, Finance Admin) can make every
+-- move the field roles can, and cancel any order that has not been delivered.
+INSERT INTO order_status_transitions (from_status, to_status, allowed_roles, security_check_status, stamps_completion)
+VALUES
+  ('Pending', 'Assigned', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Assigned', 'Products Loaded', ARRAY['Sales Rep', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Products Loaded', 'Security Checked', ARRAY['Security Guard', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], 'completed', false),
+  ('Products Loaded', 'Security Check Incomplete', ARRAY['Security Guard', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], 'incomplete', false),
+  ('Security Check Incomplete', 'Product Reloaded', ARRAY['Sales Rep', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], 'pending', false),
+  ('Security Check Incomplete', 'Security Check Bypassed Due to Off Hours', ARRAY['Security Guard', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], 'bypassed', false),
+  ('Product Reloaded', 'Security Checked', ARRAY['Security Guard', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], 'completed', false),
+  ('Product Reloaded', 'Security Check Incomplete', ARRAY['Security Guard', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], 'incomplete', false),
+  ('Security Checked', 'Departed Farm', ARRAY['Sales Rep', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Security Check Bypassed Due to Off Hours', 'Departed Farm', ARRAY['Sales Rep', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Departed Farm', 'Delivered', ARRAY['Sales Rep', 'Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, true),
+  ('Delivered', 'Completed', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, true),
+  ('Pending', 'Cancelled', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Assigned', 'Cancelled', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Products Loaded', 'Cancelled', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Product Reloaded', 'Cancelled', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Security Check Incomplete', 'Cancelled', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Security Checked', 'Cancelled', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Security Check Bypassed Due to Off Hours', 'Cancelled', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false),
+  ('Departed Farm', 'Cancelled', ARRAY['Super Admin', 'Admin', 'Order Manager', 'Finance Admin'], NULL, false)
+ON CONFLICT (from_status, to_status) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_role text;
+  v_transition order_status_transitions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('Pending', 'Assigned') THEN
+      RAISE EXCEPTION 'New orders must start as Pending or Assigned, not %', NEW.status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT role INTO v_role FROM users WHERE id = v_user_id;
+
+  SELECT * INTO v_transition
+  FROM order_status_transitions
+  WHERE from_status = OLD.status
+    AND to_status = NEW.status
+    AND v_role = ANY (allowed_roles);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order status cannot change from % to % for role %', OLD.status, NEW.status, COALESCE(v_role, 'unknown');
+  END IF;
+
+  IF v_transition.security_check_status IS NOT NULL THEN
+    NEW.security_check_status := v_transition.security_check_status;
+  END IF;
+
+  IF v_transition.stamps_completion THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+    NEW.completed_by := COALESCE(NEW.completed_by, v_user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_order_status_transition_trigger ON orders;
+CREATE TRIGGER enforce_order_status_transition_trigger
+  BEFORE INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_order_status_transition();
@@ -0,0 +1,114 @@
+/*
+  # Order Status History
+
+  1. New Tables
+    - `order_status_history`
+      - `id` (uuid, primary key)
+      - `order_id` (uuid) - Order whose status changed
+      - `from_status` (text, nullable) - NULL for the row written when the order is created
+      - `to_status` (text)
+      - `changed_by` (uuid, nullable) - Signed-in user who made the change
+      - `changed_at` (timestamptz)
+      - `notes` (text, nullable) - Security check notes for security check statuses
+
+  2. New Views
+    - `order_stage_durations` - One row per stage an order has left, with the time spent in it
+      and the order's sales rep and vehicle
+
+  3. Triggers
+    - `log_order_status_change` runs after an order is inserted or its status changes
+
+  4. Security
+    - Enable RLS on `order_status_history`
+    - Users can read history for orders they can see; rows are only written by the trigger
+    - The view runs with the caller's permissions
+
+  5. Notes
+    - Existing orders are not backfilled, since when they reached each status is unknown.
+      Their timeline starts with the first change made after this migration.
+*/
+
+CREATE TABLE IF NOT EXISTS order_status_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+  from_status text,
+  to_status text NOT NULL,
+  changed_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  changed_at timestamptz NOT NULL DEFAULT now(),
+  notes text
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id, changed_at);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_changed_at ON order_status_history(changed_at);
+
+ALTER TABLE order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Order status history follows order visibility"
+  ON order_status_history
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM orders
+      WHERE orders.id = order_status_history.order_id
+    )
+  );
+
+CREATE OR REPLACE FUNCTION log_order_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO order_status_history (order_id, from_status, to_status, changed_by, notes)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    auth.uid(),
+    CASE
+      WHEN NEW.status IN ('Security Check Incomplete', 'Security Check Bypassed Due to Off Hours')
+      THEN NEW.security_check_notes
+    END
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS log_order_status_change_trigger ON orders;
+CREATE TRIGGER log_order_status_change_trigger
+  AFTER INSERT OR UPDATE OF status ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION log_order_status_change();
+
+CREATE OR REPLACE VIEW order_stage_durations
+WITH (security_invoker = true)
+AS
+SELECT
+  stages.order_id,
+  stages.stage,
+  stages.entered_at,
+  stages.exited_at,
+  EXTRACT(EPOCH FROM (stages.exited_at - stages.entered_at))::integer AS duration_seconds,
+  o.assigned_to,
+  u.username AS sales_rep_username,
+  o.vehicle_number
+FROM (
+  SELECT
+    h.order_id,
+    h.to_status AS stage,
+    h.changed_at AS entered_at,
+    LEAD(h.changed_at) OVER (PARTITION BY h.order_id ORDER BY h.changed_at, h.id) AS exited_at
+  FROM order_status_history h
+) stages
+JOIN orders o ON o.id = stages.order_id
+LEFT JOIN users u ON u.id = o.assigned_to
+WHERE stages.exited_at IS NOT NULL;
+
+GRANT SELECT ON order_stage_durations TO authenticated;
@@ -0,0 +1,264 @@
+/*
+  # Accounts Receivable
+
+  1. New Tables
+    - `customer_payments` - Payments received from a customer after delivery
+      - `id` (uuid, primary key)
+      - `customer_id` (uuid)
+      - `amount` (numeric) - Total received
+      - `payment_method` (text) - 'Cash', 'Net' or 'Cheque'
+      - `payment_date` (date)
+      - `reference_no` (text, nullable) - Cheque or bank transfer reference
+      - `notes` (text, nullable)
+      - `received_by`, `created_at`
+    - `customer_payment_allocations` - How a payment is split across orders
+      - `payment_id` (uuid)
+      - `order_id` (uuid)
+      - `amount` (numeric)
+      - Any part of a payment that is not allocated stays on the customer's account as a credit
+
+  2. New Views
+    - `customer_order_balances` - Delivered and completed orders with their collected, credited
+      and outstanding amounts. Credits are the value of returned items, including VAT.
+    - `customer_ledger_entries` - Invoices (delivered orders), payments (collected at delivery and
+      received later) and credit notes (returns), one row per entry with debit and credit amounts
+
+  3. New Functions
+    - `receive_customer_payment(...)` - Records a payment and its allocations, adds each allocation to
+      the order's `collected_amount` and updates `payment_status`, all in one transaction
+
+  4. Security
+    - Enable RLS on both tables
+    - Authenticated users can read payments
+    - Only Super Admin, Admin and Finance Admin can record payments, through the function
+    - Views run with the caller's permissions
+*/
+
+CREATE TABLE IF NOT EXISTS customer_payments (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  payment_method text NOT NULL CHECK (payment_method IN ('Cash', 'Net', 'Cheque')),
+  payment_date date NOT NULL DEFAULT CURRENT_DATE,
+  reference_no text,
+  notes text,
+  received_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS customer_payment_allocations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  payment_id uuid NOT NULL REFERENCES customer_payments(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE RESTRICT,
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (payment_id, order_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_payments_customer_id ON customer_payments(customer_id, payment_date);
+CREATE INDEX IF NOT EXISTS idx_customer_payment_allocations_order_id ON customer_payment_allocations(order_id);
+
+ALTER TABLE customer_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE customer_payment_allocations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Customer payments can be viewed by authenticated users"
+  ON customer_payments
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Customer payment allocations can be viewed by authenticated users"
+  ON customer_payment_allocations
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE VIEW customer_order_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id AS order_id,
+  o.customer_id,
+  o.order_display_id,
+  o.receipt_no,
+  o.status,
+  COALESCE(o.completed_at, o.created_at) AS invoice_date,
+  o.total_amount,
+  COALESCE(o.collected_amount, 0) AS collected_amount,
+  COALESCE(returns.credited_amount, 0) AS credited_amount,
+  GREATEST(o.total_amount - COALESCE(o.collected_amount, 0) - COALESCE(returns.credited_amount, 0), 0) AS outstanding_amount,
+  COALESCE(o.payment_status, 'unpaid') AS payment_status
+FROM orders o
+LEFT JOIN LATERAL (
+  SELECT ROUND(SUM(
+    r.returned_quantity * oi.price
+    * CASE WHEN o.is_vat_applicable AND o.total_amount > o.vat_amount
+        THEN o.total_amount / (o.total_amount - o.vat_amount)
+        ELSE 1
+      END
+  ), 2) AS credited_amount
+  FROM order_returns r
+  JOIN order_items oi ON oi.id = r.order_item_id
+  WHERE oi.order_id = o.id
+) returns ON true
+WHERE o.status IN ('Delivered', 'Completed');
+
+CREATE OR REPLACE VIEW customer_ledger_entries
+WITH (security_invoker = true)
+AS
+-- Invoices
+SELECT
+  b.customer_id,
+  b.invoice_date AS entry_date,
+  'invoice'::text AS entry_type,
+  COALESCE(b.receipt_no, b.order_display_id) AS reference,
+  b.order_id,
+  NULL::uuid AS payment_id,
+  b.total_amount AS debit,
+  0::numeric AS credit
+FROM customer_order_balances b
+UNION ALL
+-- Collected on delivery (total collected less what later payments added)
+SELECT
+  b.customer_id,
+  b.invoice_date,
+  'payment'::text,
+  COALESCE(b.receipt_no, b.order_display_id),
+  b.order_id,
+  NULL::uuid,
+  0::numeric,
+  b.collected_amount - COALESCE(alloc.allocated, 0)
+FROM customer_order_balances b
+LEFT JOIN LATERAL (
+  SELECT SUM(a.amount) AS allocated
+  FROM customer_payment_allocations a
+  WHERE a.order_id = b.order_id
+) alloc ON true
+WHERE b.collected_amount - COALESCE(alloc.allocated, 0) > 0
+UNION ALL
+-- Payments received later
+SELECT
+  p.customer_id,
+  p.payment_date::timestamptz,
+  'payment'::text,
+  COALESCE(p.reference_no, p.payment_method),
+  NULL::uuid,
+  p.id,
+  0::numeric,
+  p.amount
+FROM customer_payments p
+UNION ALL
+-- Returns
+SELECT
+  b.customer_id,
+  r.returned_at,
+  'credit_note'::text,
+  b.order_display_id,
+  b.order_id,
+  NULL::uuid,
+  0::numeric,
+  ROUND(
+    r.returned_quantity * oi.price
+    * CASE WHEN o.is_vat_applicable AND o.total_amount > o.vat_amount
+        THEN o.total_amount / (o.total_amount - o.vat_amount)
+        ELSE 1
+      END,
+    2
+  )
+FROM order_returns r
+JOIN order_items oi ON oi.id = r.order_item_id
+JOIN orders o ON o.id = oi.order_id
+JOIN customer_order_balances b ON b.order_id = o.id;
+
+GRANT SELECT ON customer_order_balances TO authenticated;
+GRANT SELECT ON customer_ledger_entries TO authenticated;
+
+CREATE OR REPLACE FUNCTION receive_customer_payment(
+  p_customer_id uuid,
+  p_amount numeric,
+  p_payment_method text,
+  p_payment_date date,
+  p_reference_no text,
+  p_notes text,
+  p_allocations jsonb
+)
+RETURNS customer_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_payment customer_payments%ROWTYPE;
+  v_allocation record;
+  v_balance record;
+  v_allocated numeric := 0;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = v_user_id
+    AND role IN ('Super Admin', 'Admin', 'Finance Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only Super Admin, Admin and Finance Admin can record customer payments';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than 0';
+  END IF;
+
+  INSERT INTO customer_payments (
+    customer_id, amount, payment_method, payment_date, reference_no, notes, received_by
+  ) VALUES (
+    p_customer_id, p_amount, p_payment_method, COALESCE(p_payment_date, CURRENT_DATE),
+    NULLIF(TRIM(p_reference_no), ''), NULLIF(TRIM(p_notes), ''), v_user_id
+  )
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN
+    SELECT (elem->>'order_id')::uuid AS order_id, (elem->>'amount')::numeric AS amount
+    FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb)) AS elem
+    ORDER BY (elem->>'order_id')::uuid
+  LOOP
+    IF v_allocation.amount IS NULL OR v_allocation.amount <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM 1 FROM orders WHERE id = v_allocation.order_id FOR UPDATE;
+
+    SELECT * INTO v_balance
+    FROM customer_order_balances
+    WHERE order_id = v_allocation.order_id;
+
+    IF NOT FOUND OR v_balance.customer_id <> p_customer_id THEN
+      RAISE EXCEPTION 'Order % is not an open invoice for this customer', v_allocation.order_id;
+    END IF;
+
+    IF v_allocation.amount > v_balance.outstanding_amount THEN
+      RAISE EXCEPTION 'Allocation of % to order % exceeds its outstanding balance of %',
+        v_allocation.amount, v_balance.order_display_id, v_balance.outstanding_amount;
+    END IF;
+
+    INSERT INTO customer_payment_allocations (payment_id, order_id, amount)
+    VALUES (v_payment.id, v_allocation.order_id, v_allocation.amount);
+
+    UPDATE orders
+    SET
+      collected_amount = COALESCE(collected_amount, 0) + v_allocation.amount,
+      payment_status = CASE
+        WHEN v_allocation.amount >= v_balance.outstanding_amount THEN 'fully_paid'
+        ELSE 'partially_paid'
+      END
+    WHERE id = v_allocation.order_id;
+
+    v_allocated := v_allocated + v_allocation.amount;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Allocations (%) exceed the payment amount (%)', v_allocated, p_amount;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION receive_customer_payment(uuid, numeric, text, date, text, text, jsonb) TO authenticated;
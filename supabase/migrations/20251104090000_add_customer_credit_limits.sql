@@ -0,0 +1,149 @@
+/*
+  # Customer Credit Limits and Credit Holds
+
+  1. Changes
+    - `customers.credit_limit` (numeric, nullable) - Maximum exposure allowed; NULL means no limit
+    - `customers.payment_terms_days` (integer, nullable) - Days after delivery an invoice is due;
+      NULL means invoices never become overdue
+
+  2. New Tables
+    - `credit_overrides` - A Finance Admin's one-off approval to take an order for a customer on credit hold
+      - `id` (uuid, primary key)
+      - `customer_id` (uuid)
+      - `reason` (text) - Why the hold was overridden
+      - `valid_until` (date) - Last day the override can be used
+      - `approved_by`, `created_at`
+      - `used_order_id`, `used_by`, `used_at` - Set when an order is created under the override
+
+  3. New Views
+    - `customer_credit_status` - Per customer: limit, terms, outstanding on delivered orders,
+      value of orders not yet delivered and the overdue amount
+
+  4. New Functions
+    - `use_credit_override(p_customer_id, p_order_id)` - Marks the customer's oldest valid unused override
+      as used by the order and returns its id, or NULL if there is none
+
+  5. Security
+    - Enable RLS on `credit_overrides`
+    - Authenticated users can read overrides
+    - Only Finance Admin and Super Admin can grant overrides
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'credit_limit'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN credit_limit numeric(12,2) CHECK (credit_limit >= 0);
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'customers' AND column_name = 'payment_terms_days'
+  ) THEN
+    ALTER TABLE customers ADD COLUMN payment_terms_days integer CHECK (payment_terms_days >= 0);
+  END IF;
+END $$;
+
+CREATE TABLE IF NOT EXISTS credit_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  reason text NOT NULL CHECK (length(trim(reason)) > 0),
+  valid_until date NOT NULL DEFAULT CURRENT_DATE,
+  approved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  used_order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  used_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  used_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_overrides_customer_id ON credit_overrides(customer_id, valid_until);
+
+ALTER TABLE credit_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Credit overrides can be viewed by authenticated users"
+  ON credit_overrides
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Finance Admins can grant credit overrides"
+  ON credit_overrides
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Finance Admin')
+    )
+  );
+
+CREATE OR REPLACE VIEW customer_credit_status
+WITH (security_invoker = true)
+AS
+SELECT
+  c.id AS customer_id,
+  c.credit_limit,
+  c.payment_terms_days,
+  COALESCE(delivered.outstanding_amount, 0) AS outstanding_amount,
+  COALESCE(undelivered.amount, 0) AS undelivered_amount,
+  COALESCE(delivered.overdue_amount, 0) AS overdue_amount,
+  delivered.oldest_overdue_date
+FROM customers c
+LEFT JOIN LATERAL (
+  SELECT
+    SUM(b.outstanding_amount) AS outstanding_amount,
+    SUM(b.outstanding_amount) FILTER (
+      WHERE c.payment_terms_days IS NOT NULL
+      AND b.invoice_date + make_interval(days => c.payment_terms_days) < now()
+    ) AS overdue_amount,
+    MIN(b.invoice_date) FILTER (
+      WHERE c.payment_terms_days IS NOT NULL
+      AND b.invoice_date + make_interval(days => c.payment_terms_days) < now()
+    ) AS oldest_overdue_date
+  FROM customer_order_balances b
+  WHERE b.customer_id = c.id
+  AND b.outstanding_amount > 0
+) delivered ON true
+LEFT JOIN LATERAL (
+  SELECT SUM(o.total_amount) AS amount
+  FROM orders o
+  WHERE o.customer_id = c.id
+  AND o.status NOT IN ('Delivered', 'Completed', 'Cancelled')
+) undelivered ON true;
+
+GRANT SELECT ON customer_credit_status TO authenticated;
+
+CREATE OR REPLACE FUNCTION use_credit_override(p_customer_id uuid, p_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_override_id uuid;
+BEGIN
+  SELECT id INTO v_override_id
+  FROM credit_overrides
+  WHERE customer_id = p_customer_id
+  AND used_order_id IS NULL
+  AND valid_until >= CURRENT_DATE
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_override_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE credit_overrides
+  SET used_order_id = p_order_id, used_by = auth.uid(), used_at = now()
+  WHERE id = v_override_id;
+
+  RETURN v_override_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION use_credit_override(uuid, uuid) TO authenticated;
@@ -0,0 +1,275 @@
+/*
+  # Tax Invoices
+
+  1. Changes
+    - `orders.vat_rate` (numeric, nullable) - VAT rate the order was priced at. Filled from
+      `system_settings.vat_rate` when a VAT order is created, so a later rate change does not alter
+      reprints. Existing VAT orders are backfilled from `vat_amount / (total_amount - vat_amount)`.
+
+  2. New Tables
+    - `tax_invoice_sequence` - Single-row counter for invoice numbers. Incremented inside the issuing
+      transaction, so a failed issue rolls the number back and the sequence has no gaps
+      (unlike `receipt_no_seq`).
+    - `tax_invoices` - One per order, frozen at issue time
+      - `id` (uuid, primary key)
+      - `invoice_no` (text, unique) - 'INV' followed by the zero-padded sequence number
+      - `order_id` (uuid, unique)
+      - `customer_id`, `customer_name`, `customer_address`, `customer_tin` - Copied from the customer
+      - `vat_rate` (numeric) - Copied from the order
+      - `subtotal`, `vat_amount`, `total_amount` (numeric)
+      - `issued_at`, `issued_by`
+      - `print_count` (integer) - Prints after the first are marked DUPLICATE
+      - `last_printed_at`
+    - `tax_invoice_lines` - One per order item
+      - `tax_invoice_id` (uuid)
+      - `line_no` (integer)
+      - `order_item_id` (uuid, nullable)
+      - `product_name`, `quantity`, `unit_price`, `discount`
+      - `line_subtotal`, `vat_amount`, `line_total` (numeric)
+
+  3. New Functions
+    - `issue_tax_invoice(p_order_id)` - Issues the invoice for a delivered VAT order, or returns the
+      existing one. Line VAT is rounded per line and the rounding difference is put on the last line,
+      so the lines add up to the order's `vat_amount`.
+    - `record_tax_invoice_print(p_invoice_id)` - Increments `print_count` and returns it
+
+  4. Security
+    - Enable RLS on all three tables
+    - Authenticated users can read invoices and lines
+    - Invoices are only written through the functions above
+*/
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'orders' AND column_name = 'vat_rate'
+  ) THEN
+    ALTER TABLE orders ADD COLUMN vat_rate numeric(5,4);
+  END IF;
+END $$;
+
+UPDATE orders
+SET vat_rate = ROUND(vat_amount / (total_amount - vat_amount), 4)
+WHERE vat_rate IS NULL
+AND is_vat_applicable
+AND total_amount > vat_amount;
+
+CREATE OR REPLACE FUNCTION set_order_vat_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.is_vat_applicable AND NEW.vat_rate IS NULL THEN
+    SELECT vat_rate INTO NEW.vat_rate FROM system_settings LIMIT 1;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_order_vat_rate ON orders;
+CREATE TRIGGER set_order_vat_rate
+  BEFORE INSERT ON orders
+  FOR EACH ROW
+  EXECUTE FUNCTION set_order_vat_rate();
+
+CREATE TABLE IF NOT EXISTS tax_invoice_sequence (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  last_number bigint NOT NULL DEFAULT 0
+);
+
+INSERT INTO tax_invoice_sequence (id, last_number)
+VALUES (1, 0)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS tax_invoices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_no text NOT NULL UNIQUE,
+  order_id uuid NOT NULL UNIQUE REFERENCES orders(id) ON DELETE RESTRICT,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  customer_name text NOT NULL,
+  customer_address text,
+  customer_tin text NOT NULL,
+  vat_rate numeric(5,4) NOT NULL,
+  subtotal numeric(12,2) NOT NULL,
+  vat_amount numeric(12,2) NOT NULL,
+  total_amount numeric(12,2) NOT NULL,
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  issued_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  print_count integer NOT NULL DEFAULT 0,
+  last_printed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS tax_invoice_lines (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  tax_invoice_id uuid NOT NULL REFERENCES tax_invoices(id) ON DELETE CASCADE,
+  line_no integer NOT NULL,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE SET NULL,
+  product_name text NOT NULL,
+  quantity numeric(10,2) NOT NULL,
+  unit_price numeric(10,2) NOT NULL,
+  discount numeric(10,2) NOT NULL DEFAULT 0,
+  line_subtotal numeric(12,2) NOT NULL,
+  vat_amount numeric(12,2) NOT NULL,
+  line_total numeric(12,2) NOT NULL,
+  UNIQUE (tax_invoice_id, line_no)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_invoices_customer_id ON tax_invoices(customer_id, issued_at);
+
+ALTER TABLE tax_invoice_sequence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE tax_invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Tax invoices can be viewed by authenticated users"
+  ON tax_invoices
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Tax invoice lines can be viewed by authenticated users"
+  ON tax_invoice_lines
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION issue_tax_invoice(p_order_id uuid)
+RETURNS tax_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_order orders%ROWTYPE;
+  v_customer customers%ROWTYPE;
+  v_invoice tax_invoices%ROWTYPE;
+  v_vat_rate numeric;
+  v_number bigint;
+  v_line_vat_total numeric;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = p_order_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order % not found', p_order_id;
+  END IF;
+
+  SELECT * INTO v_invoice FROM tax_invoices WHERE order_id = p_order_id;
+  IF FOUND THEN
+    RETURN v_invoice;
+  END IF;
+
+  IF v_order.status NOT IN ('Delivered', 'Completed') THEN
+    RAISE EXCEPTION 'A tax invoice can only be issued for a delivered order';
+  END IF;
+
+  IF NOT v_order.is_vat_applicable THEN
+    RAISE EXCEPTION 'Order % is not a VAT order', v_order.order_display_id;
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = v_order.customer_id;
+  IF v_customer.vat_status <> 'VAT' OR NULLIF(TRIM(v_customer.tin_number), '') IS NULL THEN
+    RAISE EXCEPTION 'Customer % has no TIN on record; a tax invoice cannot be issued', v_customer.name;
+  END IF;
+
+  v_vat_rate := COALESCE(
+    v_order.vat_rate,
+    CASE WHEN v_order.total_amount > v_order.vat_amount
+      THEN ROUND(v_order.vat_amount / (v_order.total_amount - v_order.vat_amount), 4)
+      ELSE 0
+    END
+  );
+
+  UPDATE tax_invoice_sequence
+  SET last_number = last_number + 1
+  WHERE id = 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO tax_invoices (
+    invoice_no, order_id, customer_id, customer_name, customer_address, customer_tin,
+    vat_rate, subtotal, vat_amount, total_amount, issued_by
+  ) VALUES (
+    'INV' || LPAD(v_number::text, 6, '0'),
+    v_order.id,
+    v_customer.id,
+    v_customer.name,
+    v_customer.address,
+    TRIM(v_customer.tin_number),
+    v_vat_rate,
+    v_order.total_amount - v_order.vat_amount,
+    v_order.vat_amount,
+    v_order.total_amount,
+    v_user_id
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO tax_invoice_lines (
+    tax_invoice_id, line_no, order_item_id, product_name, quantity, unit_price, discount,
+    line_subtotal, vat_amount, line_total
+  )
+  SELECT
+    v_invoice.id,
+    ROW_NUMBER() OVER (ORDER BY p.name, oi.id),
+    oi.id,
+    p.name,
+    oi.quantity,
+    oi.price,
+    COALESCE(oi.discount, 0),
+    ROUND(oi.quantity * oi.price - COALESCE(oi.discount, 0), 2),
+    ROUND((oi.quantity * oi.price - COALESCE(oi.discount, 0)) * v_vat_rate, 2),
+    ROUND(oi.quantity * oi.price - COALESCE(oi.discount, 0), 2)
+      + ROUND((oi.quantity * oi.price - COALESCE(oi.discount, 0)) * v_vat_rate, 2)
+  FROM order_items oi
+  JOIN products p ON p.id = oi.item_id
+  WHERE oi.order_id = v_order.id;
+
+  -- Put any rounding difference on the last line so the lines match the order's VAT
+  SELECT COALESCE(SUM(vat_amount), 0) INTO v_line_vat_total
+  FROM tax_invoice_lines
+  WHERE tax_invoice_id = v_invoice.id;
+
+  IF v_line_vat_total <> v_invoice.vat_amount THEN
+    UPDATE tax_invoice_lines
+    SET
+      vat_amount = vat_amount + (v_invoice.vat_amount - v_line_vat_total),
+      line_total = line_total + (v_invoice.vat_amount - v_line_vat_total)
+    WHERE tax_invoice_id = v_invoice.id
+    AND line_no = (SELECT MAX(line_no) FROM tax_invoice_lines WHERE tax_invoice_id = v_invoice.id);
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_tax_invoice_print(p_invoice_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_print_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE tax_invoices
+  SET print_count = print_count + 1, last_printed_at = now()
+  WHERE id = p_invoice_id
+  RETURNING print_count INTO v_print_count;
+
+  IF v_print_count IS NULL THEN
+    RAISE EXCEPTION 'Tax invoice % not found', p_invoice_id;
+  END IF;
+
+  RETURN v_print_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_tax_invoice(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_tax_invoice_print(uuid) TO authenticated;
@@ -0,0 +1,388 @@
+/*
+  # Credit Notes for Order Returns
+
+  1. New Tables
+    - `credit_note_sequence` - Single-row, gap-free counter for credit note numbers (same approach as
+      `tax_invoice_sequence`)
+    - `credit_notes` - One per `order_returns` row
+      - `id` (uuid, primary key)
+      - `credit_note_no` (text, unique) - 'CN' followed by the zero-padded sequence number
+      - `order_id`, `order_item_id`, `order_return_id` (uuid)
+      - `customer_id` (uuid)
+      - `tax_invoice_id` (uuid, nullable) - Invoice being credited, when one was issued
+      - `product_name`, `quantity`, `unit_price`
+      - `subtotal` (numeric) - Returned value excluding VAT, less the returned share of any line discount
+      - `vat_rate`, `vat_amount` (numeric) - VAT reversed at the order's rate
+      - `total_amount` (numeric) - Amount credited to the customer
+      - `reason` (text)
+      - `disposition` (text) - 'restock' (back to sellable stock) or 'quarantine'
+      - `issued_at`, `issued_by`, `print_count`, `last_printed_at`
+    - `quarantined_stock` - Returned goods held as damaged instead of going back to sellable stock
+      - `product_id`, `quantity`, `credit_note_id`, `reason`, `created_by`, `created_at`
+
+  2. Changed Views
+    - `customer_order_balances` and `customer_ledger_entries` now take credits from `credit_notes`
+      instead of recomputing them from `order_returns`. The order's `total_amount` stays as invoiced;
+      the credit note is what offsets the outstanding balance.
+
+  3. New Functions
+    - `process_order_return(p_order_item_id, p_quantity, p_reason, p_quarantine)` - Records the return,
+      issues its credit note and either restocks the product or quarantines it, in one transaction
+    - `record_credit_note_print(p_credit_note_id)` - Increments `print_count` and returns it
+
+  4. Data
+    - Existing `order_returns` are backfilled with credit notes (disposition 'restock', numbered in
+      return order) so customer balances keep their credits
+
+  5. Security
+    - Enable RLS on the new tables
+    - Authenticated users can read credit notes and quarantined stock
+    - Rows are only written through `process_order_return` and `record_credit_note_print`
+*/
+
+CREATE TABLE IF NOT EXISTS credit_note_sequence (
+  id integer PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  last_number bigint NOT NULL DEFAULT 0
+);
+
+INSERT INTO credit_note_sequence (id, last_number)
+VALUES (1, 0)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS credit_notes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  credit_note_no text NOT NULL UNIQUE,
+  order_id uuid NOT NULL REFERENCES orders(id) ON DELETE RESTRICT,
+  order_item_id uuid REFERENCES order_items(id) ON DELETE SET NULL,
+  order_return_id uuid UNIQUE REFERENCES order_returns(id) ON DELETE SET NULL,
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE RESTRICT,
+  tax_invoice_id uuid REFERENCES tax_invoices(id) ON DELETE SET NULL,
+  product_name text NOT NULL,
+  quantity numeric(10,2) NOT NULL CHECK (quantity > 0),
+  unit_price numeric(10,2) NOT NULL,
+  subtotal numeric(12,2) NOT NULL,
+  vat_rate numeric(5,4) NOT NULL DEFAULT 0,
+  vat_amount numeric(12,2) NOT NULL DEFAULT 0,
+  total_amount numeric(12,2) NOT NULL,
+  reason text NOT NULL,
+  disposition text NOT NULL DEFAULT 'restock' CHECK (disposition IN ('restock', 'quarantine')),
+  issued_at timestamptz NOT NULL DEFAULT now(),
+  issued_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  print_count integer NOT NULL DEFAULT 0,
+  last_printed_at timestamptz
+);
+
+CREATE TABLE IF NOT EXISTS quarantined_stock (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  quantity numeric(10,2) NOT NULL CHECK (quantity > 0),
+  credit_note_id uuid REFERENCES credit_notes(id) ON DELETE SET NULL,
+  reason text,
+  created_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_credit_notes_order_id ON credit_notes(order_id);
+CREATE INDEX IF NOT EXISTS idx_credit_notes_customer_id ON credit_notes(customer_id, issued_at);
+CREATE INDEX IF NOT EXISTS idx_quarantined_stock_product_id ON quarantined_stock(product_id);
+
+ALTER TABLE credit_note_sequence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE credit_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE quarantined_stock ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Credit notes can be viewed by authenticated users"
+  ON credit_notes
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Quarantined stock can be viewed by authenticated users"
+  ON quarantined_stock
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Backfill credit notes for returns recorded before this migration
+INSERT INTO credit_notes (
+  credit_note_no, order_id, order_item_id, order_return_id, customer_id, tax_invoice_id,
+  product_name, quantity, unit_price, subtotal, vat_rate, vat_amount, total_amount,
+  reason, disposition, issued_at, issued_by
+)
+SELECT
+  'CN' || LPAD(ROW_NUMBER() OVER (ORDER BY r.returned_at, r.id)::text, 6, '0'),
+  o.id,
+  oi.id,
+  r.id,
+  o.customer_id,
+  ti.id,
+  p.name,
+  r.returned_quantity,
+  oi.price,
+  calc.subtotal,
+  calc.vat_rate,
+  ROUND(calc.subtotal * calc.vat_rate, 2),
+  calc.subtotal + ROUND(calc.subtotal * calc.vat_rate, 2),
+  COALESCE(NULLIF(TRIM(r.return_reason), ''), 'Return'),
+  'restock',
+  r.returned_at,
+  r.returned_by
+FROM order_returns r
+JOIN order_items oi ON oi.id = r.order_item_id
+JOIN orders o ON o.id = oi.order_id
+JOIN products p ON p.id = oi.item_id
+LEFT JOIN tax_invoices ti ON ti.order_id = o.id
+CROSS JOIN LATERAL (
+  SELECT
+    ROUND(r.returned_quantity * oi.price, 2) AS subtotal,
+    CASE WHEN o.is_vat_applicable
+      THEN COALESCE(o.vat_rate, CASE WHEN o.total_amount > o.vat_amount
+        THEN ROUND(o.vat_amount / (o.total_amount - o.vat_amount), 4)
+        ELSE 0
+      END)
+      ELSE 0
+    END AS vat_rate
+) calc
+WHERE NOT EXISTS (SELECT 1 FROM credit_notes cn WHERE cn.order_return_id = r.id);
+
+UPDATE credit_note_sequence
+SET last_number = (SELECT COUNT(*) FROM credit_notes)
+WHERE id = 1;
+
+CREATE OR REPLACE VIEW customer_order_balances
+WITH (security_invoker = true)
+AS
+SELECT
+  o.id AS order_id,
+  o.customer_id,
+  o.order_display_id,
+  o.receipt_no,
+  o.status,
+  COALESCE(o.completed_at, o.created_at) AS invoice_date,
+  o.total_amount,
+  COALESCE(o.collected_amount, 0) AS collected_amount,
+  COALESCE(credits.credited_amount, 0) AS credited_amount,
+  GREATEST(o.total_amount - COALESCE(o.collected_amount, 0) - COALESCE(credits.credited_amount, 0), 0) AS outstanding_amount,
+  COALESCE(o.payment_status, 'unpaid') AS payment_status
+FROM orders o
+LEFT JOIN LATERAL (
+  SELECT SUM(cn.total_amount) AS credited_amount
+  FROM credit_notes cn
+  WHERE cn.order_id = o.id
+) credits ON true
+WHERE o.status IN ('Delivered', 'Completed');
+
+CREATE OR REPLACE VIEW customer_ledger_entries
+WITH (security_invoker = true)
+AS
+-- Invoices
+SELECT
+  b.customer_id,
+  b.invoice_date AS entry_date,
+  'invoice'::text AS entry_type,
+  COALESCE(b.receipt_no, b.order_display_id) AS reference,
+  b.order_id,
+  NULL::uuid AS payment_id,
+  b.total_amount AS debit,
+  0::numeric AS credit
+FROM customer_order_balances b
+UNION ALL
+-- Collected on delivery (total collected less what later payments added)
+SELECT
+  b.customer_id,
+  b.invoice_date,
+  'payment'::text,
+  COALESCE(b.receipt_no, b.order_display_id),
+  b.order_id,
+  NULL::uuid,
+  0::numeric,
+  b.collected_amount - COALESCE(alloc.allocated, 0)
+FROM customer_order_balances b
+LEFT JOIN LATERAL (
+  SELECT SUM(a.amount) AS allocated
+  FROM customer_payment_allocations a
+  WHERE a.order_id = b.order_id
+) alloc ON true
+WHERE b.collected_amount - COALESCE(alloc.allocated, 0) > 0
+UNION ALL
+-- Payments received later
+SELECT
+  p.customer_id,
+  p.payment_date::timestamptz,
+  'payment'::text,
+  COALESCE(p.reference_no, p.payment_method),
+  NULL::uuid,
+  p.id,
+  0::numeric,
+  p.amount
+FROM customer_payments p
+UNION ALL
+-- Credit notes
+SELECT
+  cn.customer_id,
+  cn.issued_at,
+  'credit_note'::text,
+  cn.credit_note_no,
+  cn.order_id,
+  NULL::uuid,
+  0::numeric,
+  cn.total_amount
+FROM credit_notes cn
+JOIN customer_order_balances b ON b.order_id = cn.order_id;
+
+CREATE OR REPLACE FUNCTION process_order_return(
+  p_order_item_id uuid,
+  p_quantity numeric,
+  p_reason text,
+  p_quarantine boolean DEFAULT false
+)
+RETURNS credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_item record;
+  v_order orders%ROWTYPE;
+  v_return_id uuid;
+  v_vat_rate numeric := 0;
+  v_subtotal numeric;
+  v_vat_amount numeric;
+  v_number bigint;
+  v_credit_note credit_notes%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Return quantity must be greater than 0';
+  END IF;
+
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Please provide a reason for the return';
+  END IF;
+
+  SELECT oi.*, p.name AS product_name INTO v_item
+  FROM order_items oi
+  JOIN products p ON p.id = oi.item_id
+  WHERE oi.id = p_order_item_id
+  FOR UPDATE OF oi;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item % not found', p_order_item_id;
+  END IF;
+
+  IF p_quantity > v_item.quantity - COALESCE(v_item.returned_quantity, 0) THEN
+    RAISE EXCEPTION 'Cannot return %. Only % available to return.',
+      p_quantity, v_item.quantity - COALESCE(v_item.returned_quantity, 0);
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id FOR UPDATE;
+
+  UPDATE order_items
+  SET returned_quantity = COALESCE(returned_quantity, 0) + p_quantity
+  WHERE id = p_order_item_id;
+
+  INSERT INTO order_returns (
+    order_item_id, returned_quantity, return_reason, returned_by, returned_at, sales_rep_id
+  ) VALUES (
+    p_order_item_id, p_quantity, TRIM(p_reason), v_user_id, now(), v_user_id
+  )
+  RETURNING id INTO v_return_id;
+
+  IF v_order.is_vat_applicable THEN
+    v_vat_rate := COALESCE(
+      v_order.vat_rate,
+      CASE WHEN v_order.total_amount > v_order.vat_amount
+        THEN ROUND(v_order.vat_amount / (v_order.total_amount - v_order.vat_amount), 4)
+        ELSE 0
+      END
+    );
+  END IF;
+
+  -- Credit the returned share of the line, including its share of any line discount
+  v_subtotal := ROUND(
+    p_quantity * v_item.price - COALESCE(v_item.discount, 0) * p_quantity / v_item.quantity,
+    2
+  );
+  v_vat_amount := ROUND(v_subtotal * v_vat_rate, 2);
+
+  UPDATE credit_note_sequence
+  SET last_number = last_number + 1
+  WHERE id = 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO credit_notes (
+    credit_note_no, order_id, order_item_id, order_return_id, customer_id, tax_invoice_id,
+    product_name, quantity, unit_price, subtotal, vat_rate, vat_amount, total_amount,
+    reason, disposition, issued_by
+  ) VALUES (
+    'CN' || LPAD(v_number::text, 6, '0'),
+    v_order.id,
+    p_order_item_id,
+    v_return_id,
+    v_order.customer_id,
+    (SELECT id FROM tax_invoices WHERE order_id = v_order.id),
+    v_item.product_name,
+    p_quantity,
+    v_item.price,
+    v_subtotal,
+    v_vat_rate,
+    v_vat_amount,
+    v_subtotal + v_vat_amount,
+    TRIM(p_reason),
+    CASE WHEN p_quarantine THEN 'quarantine' ELSE 'restock' END,
+    v_user_id
+  )
+  RETURNING * INTO v_credit_note;
+
+  IF p_quarantine THEN
+    INSERT INTO quarantined_stock (product_id, quantity, credit_note_id, reason, created_by)
+    VALUES (v_item.item_id, p_quantity, v_credit_note.id, TRIM(p_reason), v_user_id);
+  ELSE
+    PERFORM record_stock_movement(
+      v_item.item_id, p_quantity, 'return', 'order_return', v_return_id, v_order.order_display_id, TRIM(p_reason)
+    );
+  END IF;
+
+  -- A credit that clears what is left on a delivered order settles it
+  IF v_order.status IN ('Delivered', 'Completed') AND EXISTS (
+    SELECT 1 FROM customer_order_balances
+    WHERE order_id = v_order.id AND outstanding_amount = 0
+  ) THEN
+    UPDATE orders SET payment_status = 'fully_paid' WHERE id = v_order.id;
+  END IF;
+
+  RETURN v_credit_note;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION record_credit_note_print(p_credit_note_id uuid)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_print_count integer;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE credit_notes
+  SET print_count = print_count + 1, last_printed_at = now()
+  WHERE id = p_credit_note_id
+  RETURNING print_count INTO v_print_count;
+
+  IF v_print_count IS NULL THEN
+    RAISE EXCEPTION 'Credit note % not found', p_credit_note_id;
+  END IF;
+
+  RETURN v_print_count;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION process_order_return(uuid, numeric, text, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_credit_note_print(uuid) TO authenticated;
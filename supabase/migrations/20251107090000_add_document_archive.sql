@@ -0,0 +1,67 @@
+/*
+  # Document Archive
+
+  1. Storage
+    - Private `documents` bucket holding the original PDF of each printed receipt, tax invoice
+      and credit note, at `<document_type>/<document_no>.pdf`
+
+  2. New Tables
+    - `document_archive`
+      - `id` (uuid, primary key)
+      - `document_type` (text) - 'sales_order', 'on_demand_order', 'tax_invoice' or 'credit_note'
+      - `document_id` (uuid) - Row the document was rendered from
+      - `document_no` (text) - Receipt, invoice or credit note number
+      - `storage_path` (text, unique) - Object path in the `documents` bucket
+      - `sha256` (text) - Hash of the archived PDF; rendering is deterministic, so a re-render of
+        the same document can be checked against it
+      - `archived_by`, `archived_at`
+
+  3. Security
+    - Enable RLS on `document_archive`
+    - Super Admin, Admin and Finance Admin can read the archive and download archived PDFs
+    - Rows and objects are only written by the render-document edge function (service role)
+*/
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('documents', 'documents', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS document_archive (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_type text NOT NULL CHECK (document_type IN ('sales_order', 'on_demand_order', 'tax_invoice', 'credit_note')),
+  document_id uuid NOT NULL,
+  document_no text NOT NULL,
+  storage_path text NOT NULL UNIQUE,
+  sha256 text NOT NULL,
+  archived_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  archived_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_archive_document ON document_archive(document_type, document_id);
+
+ALTER TABLE document_archive ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the document archive"
+  ON document_archive
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin', 'Finance Admin')
+    )
+  );
+
+CREATE POLICY "Admins can download archived documents"
+  ON storage.objects
+  FOR SELECT
+  TO authenticated
+  USING (
+    bucket_id = 'documents'
+    AND EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin', 'Finance Admin')
+    )
+  );
@@ -0,0 +1,175 @@
+/*
+  # Email Outbox
+
+  Receipts used to be sent straight from the browser, so an SMTP hiccup lost the email. The app
+  now only queues a `pending` row in `email_logs`; the process-email-outbox edge function sends
+  due rows and retries failures with exponential backoff.
+
+  1. Modified Tables
+    - `email_logs`
+      - `next_attempt_at` (timestamptz) - When the row is next due to be sent
+      - `last_attempt_at` (timestamptz) - Start of the most recent send attempt
+      - `max_retries` (integer) - Failed attempts allowed before the worker gives up (default 5)
+      - `message_id` (text) - Message id returned by the mail server
+      - `resend_of` (uuid) - Original row when an admin resends an email
+      - `status` also allows 'sending' while a worker holds the row
+
+  2. New Functions
+    - `claim_due_emails(p_limit)` - Marks up to p_limit due rows as 'sending' and returns them.
+      Rows stuck in 'sending' for 10 minutes (a worker died mid-send) are claimed again.
+    - `complete_email_attempt(p_email_log_id, p_message_id, p_error)` - Records the outcome.
+      A failure increments retry_count and schedules the next attempt after
+      2^retry_count minutes, capped at 6 hours.
+    - `resend_email(p_email_log_id)` - Queues a fresh copy of an email (admins)
+
+  3. Scheduling
+    - If `pg_cron` and `pg_net` are available and `app.email_outbox_url` /
+      `app.internal_send_token` are set, the worker is called every minute
+
+  4. Security
+    - claim/complete are for the worker only (service role)
+    - resend is limited to Super Admin, Admin and Finance Admin
+*/
+
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS next_attempt_at timestamptz DEFAULT now();
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS last_attempt_at timestamptz;
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS max_retries integer NOT NULL DEFAULT 5;
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS message_id text;
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS resend_of uuid REFERENCES email_logs(id) ON DELETE SET NULL;
+
+ALTER TABLE email_logs DROP CONSTRAINT IF EXISTS email_logs_status_check;
+ALTER TABLE email_logs ADD CONSTRAINT email_logs_status_check
+  CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'bounced'));
+
+CREATE INDEX IF NOT EXISTS idx_email_logs_due ON email_logs(next_attempt_at)
+  WHERE status IN ('pending', 'failed', 'sending');
+
+CREATE OR REPLACE FUNCTION claim_due_emails(p_limit integer DEFAULT 20)
+RETURNS SETOF email_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_logs
+  SET status = 'sending',
+      last_attempt_at = now()
+  WHERE id IN (
+    SELECT id
+    FROM email_logs
+    WHERE (
+        (status IN ('pending', 'failed') AND next_attempt_at <= now())
+        OR (status = 'sending' AND last_attempt_at < now() - interval '10 minutes')
+      )
+      AND retry_count < max_retries
+    ORDER BY next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION complete_email_attempt(
+  p_email_log_id uuid,
+  p_message_id text DEFAULT NULL,
+  p_error text DEFAULT NULL
+)
+RETURNS email_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log email_logs;
+BEGIN
+  IF p_error IS NULL THEN
+    UPDATE email_logs
+    SET status = 'sent',
+        sent_at = now(),
+        message_id = p_message_id,
+        error_message = NULL
+    WHERE id = p_email_log_id
+    RETURNING * INTO v_log;
+  ELSE
+    UPDATE email_logs
+    SET status = 'failed',
+        retry_count = retry_count + 1,
+        error_message = p_error,
+        next_attempt_at = now() + LEAST(interval '1 minute' * power(2, retry_count), interval '6 hours')
+    WHERE id = p_email_log_id
+    RETURNING * INTO v_log;
+  END IF;
+
+  IF v_log.id IS NULL THEN
+    RAISE EXCEPTION 'Email log % not found', p_email_log_id;
+  END IF;
+
+  RETURN v_log;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resend_email(p_email_log_id uuid)
+RETURNS email_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log email_logs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('Super Admin', 'Admin', 'Finance Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can resend emails';
+  END IF;
+
+  INSERT INTO email_logs (
+    order_id, on_demand_order_id, recipient_email, recipient_name, email_type, subject,
+    status, metadata, resend_of
+  )
+  SELECT order_id, on_demand_order_id, recipient_email, recipient_name, email_type, subject,
+         'pending', metadata, id
+  FROM email_logs
+  WHERE id = p_email_log_id
+  RETURNING * INTO v_log;
+
+  IF v_log.id IS NULL THEN
+    RAISE EXCEPTION 'Email log % not found', p_email_log_id;
+  END IF;
+
+  RETURN v_log;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_emails(integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION complete_email_attempt(uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_emails(integer) TO service_role;
+GRANT EXECUTE ON FUNCTION complete_email_attempt(uuid, text, text) TO service_role;
+GRANT EXECUTE ON FUNCTION resend_email(uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron')
+    AND EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+    AND current_setting('app.email_outbox_url', true) IS NOT NULL
+    AND current_setting('app.internal_send_token', true) IS NOT NULL THEN
+    PERFORM cron.schedule(
+      'process-email-outbox',
+      '* * * * *',
+      $cron$
+        SELECT net.http_post(
+          url := current_setting('app.email_outbox_url'),
+          headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'x-internal-send-token', current_setting('app.internal_send_token')
+          ),
+          body := '{}'::jsonb
+        )
+      $cron$
+    );
+  END IF;
+END $$;
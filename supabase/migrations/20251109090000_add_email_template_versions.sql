@@ -0,0 +1,99 @@
+/*
+  # Email Template Versions
+
+  Emails are rendered server-side from named, versioned templates (receipt, statement,
+  overdue_reminder, low_stock_alert). The template name is the row's `email_type`.
+
+  1. Modified Tables
+    - `email_logs`
+      - `template_version` (integer, nullable) - Template version the email was rendered with.
+        Queued rows leave it empty and get the latest version when first sent.
+
+  2. Modified Functions
+    - `complete_email_attempt` takes `p_template_version` and records it
+    - `resend_email` copies `template_version`, so a resend matches the original layout
+*/
+
+ALTER TABLE email_logs ADD COLUMN IF NOT EXISTS template_version integer;
+
+DROP FUNCTION IF EXISTS complete_email_attempt(uuid, text, text);
+
+CREATE OR REPLACE FUNCTION complete_email_attempt(
+  p_email_log_id uuid,
+  p_message_id text DEFAULT NULL,
+  p_error text DEFAULT NULL,
+  p_template_version integer DEFAULT NULL
+)
+RETURNS email_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log email_logs;
+BEGIN
+  IF p_error IS NULL THEN
+    UPDATE email_logs
+    SET status = 'sent',
+        sent_at = now(),
+        message_id = p_message_id,
+        error_message = NULL,
+        template_version = COALESCE(p_template_version, template_version)
+    WHERE id = p_email_log_id
+    RETURNING * INTO v_log;
+  ELSE
+    UPDATE email_logs
+    SET status = 'failed',
+        retry_count = retry_count + 1,
+        error_message = p_error,
+        template_version = COALESCE(p_template_version, template_version),
+        next_attempt_at = now() + LEAST(interval '1 minute' * power(2, retry_count), interval '6 hours')
+    WHERE id = p_email_log_id
+    RETURNING * INTO v_log;
+  END IF;
+
+  IF v_log.id IS NULL THEN
+    RAISE EXCEPTION 'Email log % not found', p_email_log_id;
+  END IF;
+
+  RETURN v_log;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resend_email(p_email_log_id uuid)
+RETURNS email_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log email_logs;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('Super Admin', 'Admin', 'Finance Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can resend emails';
+  END IF;
+
+  INSERT INTO email_logs (
+    order_id, on_demand_order_id, recipient_email, recipient_name, email_type, subject,
+    status, metadata, template_version, resend_of
+  )
+  SELECT order_id, on_demand_order_id, recipient_email, recipient_name, email_type, subject,
+         'pending', metadata, template_version, id
+  FROM email_logs
+  WHERE id = p_email_log_id
+  RETURNING * INTO v_log;
+
+  IF v_log.id IS NULL THEN
+    RAISE EXCEPTION 'Email log % not found', p_email_log_id;
+  END IF;
+
+  RETURN v_log;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION complete_email_attempt(uuid, text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION complete_email_attempt(uuid, text, text, integer) TO service_role;
@@ -0,0 +1,315 @@
+/*
+  # Customer Statements
+
+  Monthly statements of account, built from `customer_ledger_entries` and sent through the
+  email outbox with `email_type = 'statement'`.
+
+  1. New Tables
+    - `customer_statements` - One row per customer and period that has been queued
+      - `customer_id`, `period_start`, `period_end` (unique together)
+      - `opening_balance`, `invoices_total`, `payments_total`, `returns_total`, `closing_balance`
+      - `email_log_id` (uuid) - The queued email
+      - `generated_at`, `generated_by`
+
+  2. New Functions
+    - `customer_statement(p_customer_id, p_period_start, p_period_end)` - Statement as JSON:
+      opening balance, the period's invoices, payments and credit notes with a running balance,
+      period totals and closing balance. Period dates are Sri Lanka calendar days.
+    - `queue_customer_statement(p_customer_id, p_period_start, p_period_end, p_force)` - Queues the
+      statement email; returns the existing email unless p_force
+    - `queue_monthly_statements(p_period_start, p_period_end)` - Queues statements for every customer
+      with an email address and ledger activity in the period (defaults to last month)
+
+  3. Scheduling
+    - If `pg_cron` is available, last month's statements are queued on the 1st at 06:00 UTC
+
+  4. Security
+    - Enable RLS on `customer_statements`; admins can read it
+    - Queueing is limited to Super Admin, Admin and Finance Admin (or the scheduler)
+*/
+
+CREATE TABLE IF NOT EXISTS customer_statements (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id uuid NOT NULL REFERENCES customers(id) ON DELETE CASCADE,
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  opening_balance numeric(12,2) NOT NULL DEFAULT 0,
+  invoices_total numeric(12,2) NOT NULL DEFAULT 0,
+  payments_total numeric(12,2) NOT NULL DEFAULT 0,
+  returns_total numeric(12,2) NOT NULL DEFAULT 0,
+  closing_balance numeric(12,2) NOT NULL DEFAULT 0,
+  email_log_id uuid REFERENCES email_logs(id) ON DELETE SET NULL,
+  generated_at timestamptz DEFAULT now(),
+  generated_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  UNIQUE (customer_id, period_start, period_end),
+  CHECK (period_end >= period_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_statements_period ON customer_statements(period_start, period_end);
+
+ALTER TABLE customer_statements ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view customer statements"
+  ON customer_statements
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role IN ('Super Admin', 'Admin', 'Finance Admin')
+    )
+  );
+
+CREATE OR REPLACE FUNCTION customer_statement(
+  p_customer_id uuid,
+  p_period_start date,
+  p_period_end date
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  v_from timestamptz := p_period_start::timestamp AT TIME ZONE 'Asia/Colombo';
+  v_to timestamptz := (p_period_end + 1)::timestamp AT TIME ZONE 'Asia/Colombo';
+  v_opening numeric;
+  v_entries jsonb;
+  v_invoices numeric;
+  v_payments numeric;
+  v_returns numeric;
+BEGIN
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Period end must not be before period start';
+  END IF;
+
+  SELECT COALESCE(SUM(debit - credit), 0)
+  INTO v_opening
+  FROM customer_ledger_entries
+  WHERE customer_id = p_customer_id
+    AND entry_date < v_from;
+
+  SELECT
+    COALESCE(SUM(debit) FILTER (WHERE entry_type = 'invoice'), 0),
+    COALESCE(SUM(credit) FILTER (WHERE entry_type = 'payment'), 0),
+    COALESCE(SUM(credit) FILTER (WHERE entry_type = 'credit_note'), 0),
+    COALESCE(jsonb_agg(jsonb_build_object(
+      'entry_date', entry_date,
+      'entry_type', entry_type,
+      'reference', reference,
+      'order_id', order_id,
+      'payment_id', payment_id,
+      'debit', debit,
+      'credit', credit,
+      'balance', ROUND(v_opening + running_total, 2)
+    ) ORDER BY entry_date, seq), '[]'::jsonb)
+  INTO v_invoices, v_payments, v_returns, v_entries
+  FROM (
+    SELECT
+      e.*,
+      SUM(e.debit - e.credit) OVER (ORDER BY e.entry_date, e.seq) AS running_total
+    FROM (
+      SELECT
+        l.*,
+        -- Invoices before the payment or credit against them on the same timestamp
+        ROW_NUMBER() OVER (
+          ORDER BY l.entry_date, CASE l.entry_type WHEN 'invoice' THEN 0 WHEN 'payment' THEN 1 ELSE 2 END, l.reference
+        ) AS seq
+      FROM customer_ledger_entries l
+      WHERE l.customer_id = p_customer_id
+        AND l.entry_date >= v_from
+        AND l.entry_date < v_to
+    ) e
+  ) ordered;
+
+  RETURN jsonb_build_object(
+    'customer_id', p_customer_id,
+    'period_start', p_period_start,
+    'period_end', p_period_end,
+    'opening_balance', ROUND(v_opening, 2),
+    'invoices_total', ROUND(v_invoices, 2),
+    'payments_total', ROUND(v_payments, 2),
+    'returns_total', ROUND(v_returns, 2),
+    'closing_balance', ROUND(v_opening + v_invoices - v_payments - v_returns, 2),
+    'entries', v_entries
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_customer_statement(
+  p_customer_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_force boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_existing customer_statements%ROWTYPE;
+  v_statement jsonb;
+  v_metadata jsonb;
+  v_email_log_id uuid;
+BEGIN
+  -- auth.uid() is null when the scheduler runs the batch
+  IF v_user_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = v_user_id
+    AND users.role IN ('Super Admin', 'Admin', 'Finance Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can send statements';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  IF NULLIF(TRIM(v_customer.email), '') IS NULL THEN
+    RAISE EXCEPTION 'Customer % has no email address', v_customer.name;
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM customer_statements
+  WHERE customer_id = p_customer_id
+    AND period_start = p_period_start
+    AND period_end = p_period_end
+  FOR UPDATE;
+
+  IF FOUND AND NOT p_force THEN
+    RETURN v_existing.email_log_id;
+  END IF;
+
+  v_statement := customer_statement(p_customer_id, p_period_start, p_period_end);
+
+  -- Variables for the 'statement' email template
+  v_metadata := jsonb_build_object(
+    'customerName', v_customer.name,
+    'customerDisplayId', v_customer.customer_display_id,
+    'periodStart', to_char(p_period_start, 'DD/MM/YYYY'),
+    'periodEnd', to_char(p_period_end, 'DD/MM/YYYY'),
+    'openingBalance', v_statement->'opening_balance',
+    'invoicesTotal', v_statement->'invoices_total',
+    'paymentsTotal', v_statement->'payments_total',
+    'returnsTotal', v_statement->'returns_total',
+    'closingBalance', v_statement->'closing_balance',
+    'entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', to_char((entry->>'entry_date')::timestamptz AT TIME ZONE 'Asia/Colombo', 'DD/MM/YYYY'),
+        'description', CASE entry->>'entry_type'
+          WHEN 'invoice' THEN 'Invoice'
+          WHEN 'payment' THEN 'Payment'
+          ELSE 'Return (credit note)'
+        END,
+        'reference', entry->>'reference',
+        'debit', (entry->>'debit')::numeric,
+        'credit', (entry->>'credit')::numeric,
+        'balance', (entry->>'balance')::numeric
+      ) ORDER BY ordinality)
+      FROM jsonb_array_elements(v_statement->'entries') WITH ORDINALITY AS entries(entry, ordinality)
+    ), '[]'::jsonb)
+  );
+
+  INSERT INTO email_logs (recipient_email, recipient_name, email_type, subject, status, metadata)
+  VALUES (
+    TRIM(v_customer.email),
+    v_customer.name,
+    'statement',
+    'Statement of account ' || to_char(p_period_start, 'DD/MM/YYYY') || ' - ' || to_char(p_period_end, 'DD/MM/YYYY'),
+    'pending',
+    v_metadata
+  )
+  RETURNING id INTO v_email_log_id;
+
+  INSERT INTO customer_statements (
+    customer_id, period_start, period_end, opening_balance, invoices_total, payments_total,
+    returns_total, closing_balance, email_log_id, generated_at, generated_by
+  )
+  VALUES (
+    p_customer_id, p_period_start, p_period_end,
+    (v_statement->>'opening_balance')::numeric,
+    (v_statement->>'invoices_total')::numeric,
+    (v_statement->>'payments_total')::numeric,
+    (v_statement->>'returns_total')::numeric,
+    (v_statement->>'closing_balance')::numeric,
+    v_email_log_id, now(), v_user_id
+  )
+  ON CONFLICT (customer_id, period_start, period_end) DO UPDATE
+  SET opening_balance = EXCLUDED.opening_balance,
+      invoices_total = EXCLUDED.invoices_total,
+      payments_total = EXCLUDED.payments_total,
+      returns_total = EXCLUDED.returns_total,
+      closing_balance = EXCLUDED.closing_balance,
+      email_log_id = EXCLUDED.email_log_id,
+      generated_at = EXCLUDED.generated_at,
+      generated_by = EXCLUDED.generated_by;
+
+  RETURN v_email_log_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_monthly_statements(
+  p_period_start date DEFAULT NULL,
+  p_period_end date DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Colombo')::date;
+  v_start date := COALESCE(p_period_start, (date_trunc('month', v_today) - interval '1 month')::date);
+  v_end date := COALESCE(p_period_end, (date_trunc('month', v_start) + interval '1 month - 1 day')::date);
+  v_customer_id uuid;
+  v_queued integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE users.id = auth.uid()
+    AND users.role IN ('Super Admin', 'Admin', 'Finance Admin')
+  ) THEN
+    RAISE EXCEPTION 'Only admins can send statements';
+  END IF;
+
+  FOR v_customer_id IN
+    SELECT c.id
+    FROM customers c
+    WHERE NULLIF(TRIM(c.email), '') IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM customer_ledger_entries l
+        WHERE l.customer_id = c.id
+          AND l.entry_date >= v_start::timestamp AT TIME ZONE 'Asia/Colombo'
+          AND l.entry_date < (v_end + 1)::timestamp AT TIME ZONE 'Asia/Colombo'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM customer_statements s
+        WHERE s.customer_id = c.id
+          AND s.period_start = v_start
+          AND s.period_end = v_end
+      )
+    ORDER BY c.name
+  LOOP
+    PERFORM queue_customer_statement(v_customer_id, v_start, v_end);
+    v_queued := v_queued + 1;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION customer_statement(uuid, date, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION queue_customer_statement(uuid, date, date, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION queue_monthly_statements(date, date) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('queue-monthly-statements', '0 6 1 * *', 'SELECT queue_monthly_statements()');
+  END IF;
+END $$;
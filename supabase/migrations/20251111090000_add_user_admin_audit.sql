@@ -0,0 +1,65 @@
+/*
+  # User Administration Audit
+
+  User administration moves out of the browser into the `admin-users` edge function, which
+  runs with the service-role key and checks the caller's role. The front end only ever uses
+  the anon key.
+
+  1. New Tables
+    - `user_admin_audit` - One row per action attempted through `admin-users`
+      - `id` (uuid, primary key)
+      - `actor_id` (uuid) - Super Admin who made the request
+      - `action` (text) - create, update, reset_password, change_role, disable, enable, delete
+      - `target_user_id` (uuid, nullable) - NULL when creating a user fails before it exists
+      - `target_username` (text) - Kept so the row stays readable after the user is deleted
+      - `details` (jsonb) - Changed fields (never passwords)
+      - `succeeded` (boolean), `error_message` (text)
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `users`
+      - `active` (boolean, default true) - False once an admin disables the account
+      - `deactivated_at` (timestamptz, nullable)
+
+  3. Security
+    - Enable RLS on `user_admin_audit`; Super Admins can read it. Rows are only written by
+      the edge function with the service role.
+    - Drop the policies that let Super Admins insert, update and delete `users` rows from the
+      browser, so every change goes through `admin-users` and is audited
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS active boolean NOT NULL DEFAULT true;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS deactivated_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS user_admin_audit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  actor_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  action text NOT NULL CHECK (action IN ('create', 'update', 'reset_password', 'change_role', 'disable', 'enable', 'delete')),
+  target_user_id uuid,
+  target_username text,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  succeeded boolean NOT NULL,
+  error_message text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_admin_audit_created_at ON user_admin_audit(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_admin_audit_target ON user_admin_audit(target_user_id, created_at DESC);
+
+ALTER TABLE user_admin_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Super Admins can view user admin audit"
+  ON user_admin_audit
+  FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM users
+      WHERE users.id = auth.uid()
+      AND users.role = 'Super Admin'
+    )
+  );
+
+DROP POLICY IF EXISTS "Super Admins can insert users" ON users;
+DROP POLICY IF EXISTS "Super Admins can update users" ON users;
+DROP POLICY IF EXISTS "Super Admins can delete users" ON users;
@@ -0,0 +1,792 @@
+/*
+  # Role and Permission Matrix
+
+  Access used to be decided by comparing `users.role` against hard-coded lists in RLS policies,
+  database functions, edge functions and React components. Roles become editable bundles of
+  named capabilities, and `has_permission()` is the only place the database decides access.
+
+  1. New Tables
+    - `permissions` - Catalogue of capabilities
+      - `key` (text, primary key) - e.g. `orders.create`, `prices.edit`, `users.manage`
+      - `category` (text) - Grouping used by the matrix editor
+      - `description` (text)
+    - `roles` - Roles users can be given
+      - `name` (text, primary key)
+      - `description` (text)
+      - `is_system` (boolean) - Seeded roles, which cannot be deleted
+      - `created_at` (timestamptz)
+    - `role_permissions` - Capabilities granted to each role
+      - `role` (text, references roles, cascades renames and deletes)
+      - `permission` (text, references permissions)
+
+  2. Modified Tables
+    - `users` - `role` now references `roles(name)` instead of a fixed CHECK list
+    - `order_status_transitions` - `permission` (text) replaces `allowed_roles`; a user may make
+      a move when their role grants that capability
+
+  3. New Functions
+    - `has_permission(p_permission)` - True when the signed-in, active user's role grants it
+    - `my_permissions()` - Capabilities of the signed-in user, loaded by the front end
+    - `set_role_permissions(p_role, p_permissions)` - Replaces a role's bundle in one go
+
+  4. Security
+    - Everyone signed in can read the catalogue and the matrix; only `settings.manage` can edit it
+    - System roles cannot be deleted, and Super Admin always keeps `users.manage` and
+      `settings.manage` so nobody can lock themselves out
+    - Every role-based policy and function check is rewritten to call `has_permission()`.
+      The seeded bundles reproduce the access each role had before.
+*/
+
+CREATE TABLE IF NOT EXISTS permissions (
+  key text PRIMARY KEY,
+  category text NOT NULL,
+  description text NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS roles (
+  name text PRIMARY KEY CHECK (length(trim(name)) > 0),
+  description text,
+  is_system boolean NOT NULL DEFAULT false,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role text NOT NULL REFERENCES roles(name) ON UPDATE CASCADE ON DELETE CASCADE,
+  permission text NOT NULL REFERENCES permissions(key) ON DELETE CASCADE,
+  PRIMARY KEY (role, permission)
+);
+
+INSERT INTO permissions (key, category, description)
+VALUES
+  ('orders.create', 'Sales Orders', 'Create sales orders and edit their items'),
+  ('orders.update', 'Sales Orders', 'Update sales orders (status changes, security checks, notes)'),
+  ('orders.assign', 'Sales Orders', 'Assign pending orders to a sales rep'),
+  ('orders.transition.delivery', 'Sales Orders', 'Move orders through loading, departure and delivery'),
+  ('orders.transition.security', 'Sales Orders', 'Record security checks on loaded orders'),
+  ('orders.complete', 'Sales Orders', 'Mark delivered orders as completed'),
+  ('orders.cancel', 'Sales Orders', 'Cancel orders that have not been delivered'),
+  ('orders.deliver_without_payment', 'Sales Orders', 'Mark orders delivered without recording a payment'),
+  ('orders.view_all', 'Sales Orders', 'See every sales order, not only those assigned to you'),
+  ('orders.view_payments', 'Sales Orders', 'See payment and collection details on orders'),
+  ('orders.security_review', 'Sales Orders', 'Review orders whose security check is incomplete'),
+  ('inventory.manage', 'Inventory', 'Manage master inventory, receive stock and apply scheduled prices'),
+  ('catalog.view', 'Inventory', 'Open the product list and categories'),
+  ('catalog.manage', 'Inventory', 'Create, edit and delete products and categories'),
+  ('prices.edit', 'Inventory', 'Edit product prices, price lists and scheduled price changes'),
+  ('customers.view', 'Customers', 'Open the customer list'),
+  ('customers.edit', 'Customers', 'Create and edit customers and contact persons'),
+  ('customers.delete', 'Customers', 'Delete customers and contact persons'),
+  ('service.use', 'Customers', 'Use the service customer screen'),
+  ('on_demand.assignments.view', 'On Demand', 'Open on demand assignments'),
+  ('on_demand.assign', 'On Demand', 'Assign on demand stock to sales reps'),
+  ('on_demand.view_all', 'On Demand', 'See every rep''s on demand assignments and sales'),
+  ('on_demand.sell', 'On Demand', 'Record on demand sales'),
+  ('on_demand.orders.view', 'On Demand', 'Open the on demand orders list'),
+  ('on_demand.reports', 'On Demand', 'Open on demand reports'),
+  ('receivables.manage', 'Finance', 'Record customer payments and send statements'),
+  ('credit.override', 'Finance', 'Grant one-off credit limit overrides'),
+  ('emails.manage', 'Finance', 'View email logs, resend emails and preview templates'),
+  ('documents.archive', 'Finance', 'View and download archived documents'),
+  ('reports.view', 'Administration', 'Open reports'),
+  ('vehicles.manage', 'Administration', 'Manage vehicles'),
+  ('users.manage', 'Administration', 'Create, edit and disable users'),
+  ('settings.manage', 'Administration', 'Change system settings, the order workflow and roles')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO roles (name, description, is_system)
+VALUES
+  ('Super Admin', 'Full access, including users, roles and system settings', true),
+  ('Admin', 'Runs day-to-day operations', true),
+  ('Order Manager', 'Manages orders, assignments and vehicles', true),
+  ('Finance Admin', 'Handles payments, receivables and customer communication', true),
+  ('Sales Rep', 'Takes orders and sells on demand stock in the field', true),
+  ('Security Guard', 'Checks vehicles leaving the farm', true)
+ON CONFLICT (name) DO NOTHING;
+
+-- Keep any role already given to a user so the foreign key below can be added
+INSERT INTO roles (name, is_system)
+SELECT DISTINCT role, false FROM users WHERE role IS NOT NULL
+ON CONFLICT (name) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+SELECT 'Super Admin', key FROM permissions
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+SELECT 'Admin', key FROM permissions
+WHERE key NOT IN ('users.manage', 'settings.manage', 'credit.override', 'on_demand.orders.view')
+ON CONFLICT DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+SELECT bundle.role, bundle.permission
+FROM (VALUES
+  ('Order Manager', 'orders.create'),
+  ('Order Manager', 'orders.update'),
+  ('Order Manager', 'orders.view_all'),
+  ('Order Manager', 'orders.assign'),
+  ('Order Manager', 'orders.transition.delivery'),
+  ('Order Manager', 'orders.transition.security'),
+  ('Order Manager', 'orders.complete'),
+  ('Order Manager', 'orders.cancel'),
+  ('Order Manager', 'orders.deliver_without_payment'),
+  ('Order Manager', 'catalog.view'),
+  ('Order Manager', 'service.use'),
+  ('Order Manager', 'on_demand.assign'),
+  ('Order Manager', 'on_demand.view_all'),
+  ('Order Manager', 'vehicles.manage'),
+  ('Finance Admin', 'orders.view_all'),
+  ('Finance Admin', 'orders.assign'),
+  ('Finance Admin', 'orders.transition.delivery'),
+  ('Finance Admin', 'orders.transition.security'),
+  ('Finance Admin', 'orders.complete'),
+  ('Finance Admin', 'orders.cancel'),
+  ('Finance Admin', 'orders.deliver_without_payment'),
+  ('Finance Admin', 'orders.view_payments'),
+  ('Finance Admin', 'on_demand.view_all'),
+  ('Finance Admin', 'on_demand.orders.view'),
+  ('Finance Admin', 'receivables.manage'),
+  ('Finance Admin', 'credit.override'),
+  ('Finance Admin', 'emails.manage'),
+  ('Finance Admin', 'documents.archive'),
+  ('Sales Rep', 'orders.create'),
+  ('Sales Rep', 'orders.update'),
+  ('Sales Rep', 'orders.transition.delivery'),
+  ('Sales Rep', 'customers.edit'),
+  ('Sales Rep', 'on_demand.sell'),
+  ('Sales Rep', 'on_demand.orders.view'),
+  ('Security Guard', 'orders.update'),
+  ('Security Guard', 'orders.view_all'),
+  ('Security Guard', 'orders.transition.security'),
+  ('Security Guard', 'on_demand.assignments.view'),
+  ('Security Guard', 'on_demand.view_all'),
+  ('Security Guard', 'reports.view')
+) AS bundle(role, permission)
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users
+  ADD CONSTRAINT users_role_fkey FOREIGN KEY (role) REFERENCES roles(name) ON UPDATE CASCADE;
+
+CREATE OR REPLACE FUNCTION has_permission(p_permission text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM users u
+    JOIN role_permissions rp ON rp.role = u.role
+    WHERE u.id = auth.uid()
+      AND u.active
+      AND rp.permission = p_permission
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION my_permissions()
+RETURNS SETOF text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT rp.permission
+  FROM users u
+  JOIN role_permissions rp ON rp.role = u.role
+  WHERE u.id = auth.uid()
+    AND u.active
+  ORDER BY rp.permission;
+$$;
+
+CREATE OR REPLACE FUNCTION set_role_permissions(p_role text, p_permissions text[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT has_permission('settings.manage') THEN
+    RAISE EXCEPTION 'Only users who manage settings can change role permissions';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM roles WHERE name = p_role) THEN
+    RAISE EXCEPTION 'Role % not found', p_role;
+  END IF;
+
+  DELETE FROM role_permissions
+  WHERE role = p_role
+    AND permission <> ALL (COALESCE(p_permissions, '{}'));
+
+  INSERT INTO role_permissions (role, permission)
+  SELECT p_role, key
+  FROM permissions
+  WHERE key = ANY (COALESCE(p_permissions, '{}'))
+  ON CONFLICT DO NOTHING;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION protect_system_roles()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'roles' THEN
+    IF OLD.is_system THEN
+      RAISE EXCEPTION 'System role % cannot be deleted', OLD.name;
+    END IF;
+  ELSIF OLD.role = 'Super Admin' AND OLD.permission IN ('users.manage', 'settings.manage') THEN
+    RAISE EXCEPTION 'Super Admin must keep the % permission', OLD.permission;
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER protect_system_roles
+  BEFORE DELETE ON roles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_system_roles();
+
+CREATE TRIGGER protect_super_admin_permissions
+  BEFORE DELETE ON role_permissions
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_system_roles();
+
+GRANT EXECUTE ON FUNCTION has_permission(text) TO authenticated;
+GRANT EXECUTE ON FUNCTION my_permissions() TO authenticated;
+GRANT EXECUTE ON FUNCTION set_role_permissions(text, text[]) TO authenticated;
+
+ALTER TABLE permissions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE roles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE role_permissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Permissions can be viewed by authenticated users"
+  ON permissions FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Roles can be viewed by authenticated users"
+  ON roles FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Settings managers can manage roles"
+  ON roles FOR ALL TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
+
+CREATE POLICY "Role permissions can be viewed by authenticated users"
+  ON role_permissions FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Settings managers can manage role permissions"
+  ON role_permissions FOR ALL TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
+
+-- Order workflow: each move needs a capability instead of a list of roles
+ALTER TABLE order_status_transitions ADD COLUMN IF NOT EXISTS permission text REFERENCES permissions(key);
+
+UPDATE order_status_transitions
+SET permission = CASE
+  WHEN to_status = 'Assigned' THEN 'orders.assign'
+  WHEN to_status = 'Completed' THEN 'orders.complete'
+  WHEN to_status = 'Cancelled' THEN 'orders.cancel'
+  WHEN security_check_status IN ('completed', 'incomplete', 'bypassed') THEN 'orders.transition.security'
+  ELSE 'orders.transition.delivery'
+END
+WHERE permission IS NULL;
+
+ALTER TABLE order_status_transitions ALTER COLUMN permission SET NOT NULL;
+ALTER TABLE order_status_transitions DROP COLUMN IF EXISTS allowed_roles;
+
+CREATE OR REPLACE FUNCTION enforce_order_status_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_transition order_status_transitions%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.status NOT IN ('Pending', 'Assigned') THEN
+      RAISE EXCEPTION 'New orders must start as Pending or Assigned, not %', NEW.status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_transition
+  FROM order_status_transitions
+  WHERE from_status = OLD.status
+    AND to_status = NEW.status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order status cannot change from % to %', OLD.status, NEW.status;
+  END IF;
+
+  IF NOT has_permission(v_transition.permission) THEN
+    RAISE EXCEPTION 'Changing order status from % to % requires the % permission', OLD.status, NEW.status, v_transition.permission;
+  END IF;
+
+  IF v_transition.security_check_status IS NOT NULL THEN
+    NEW.security_check_status := v_transition.security_check_status;
+  END IF;
+
+  IF v_transition.stamps_completion THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+    NEW.completed_by := COALESCE(NEW.completed_by, v_user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP POLICY IF EXISTS "Super Admins can manage order status transitions" ON order_status_transitions;
+CREATE POLICY "Settings managers can manage order status transitions"
+  ON order_status_transitions FOR ALL TO authenticated
+  USING (has_permission('settings.manage'))
+  WITH CHECK (has_permission('settings.manage'));
+
+-- Table policies
+DROP POLICY IF EXISTS "Admins can insert products" ON products;
+DROP POLICY IF EXISTS "Admins can update products" ON products;
+DROP POLICY IF EXISTS "Admins can delete products" ON products;
+CREATE POLICY "Admins can insert products" ON products FOR INSERT TO authenticated WITH CHECK (has_permission('catalog.manage'));
+CREATE POLICY "Admins can update products" ON products FOR UPDATE TO authenticated USING (has_permission('catalog.manage'));
+CREATE POLICY "Admins can delete products" ON products FOR DELETE TO authenticated USING (has_permission('catalog.manage'));
+
+DROP POLICY IF EXISTS "Sales Reps can insert customers" ON customers;
+DROP POLICY IF EXISTS "Sales Reps can update customers" ON customers;
+DROP POLICY IF EXISTS "Admins can delete customers" ON customers;
+CREATE POLICY "Sales Reps can insert customers" ON customers FOR INSERT TO authenticated WITH CHECK (has_permission('customers.edit'));
+CREATE POLICY "Sales Reps can update customers" ON customers FOR UPDATE TO authenticated USING (has_permission('customers.edit'));
+CREATE POLICY "Admins can delete customers" ON customers FOR DELETE TO authenticated USING (has_permission('customers.delete'));
+
+DROP POLICY IF EXISTS "Sales Reps can insert contact persons" ON contact_persons;
+DROP POLICY IF EXISTS "Sales Reps can update contact persons" ON contact_persons;
+DROP POLICY IF EXISTS "Admins can delete contact persons" ON contact_persons;
+CREATE POLICY "Sales Reps can insert contact persons" ON contact_persons FOR INSERT TO authenticated WITH CHECK (has_permission('customers.edit'));
+CREATE POLICY "Sales Reps can update contact persons" ON contact_persons FOR UPDATE TO authenticated USING (has_permission('customers.edit'));
+CREATE POLICY "Admins can delete contact persons" ON contact_persons FOR DELETE TO authenticated USING (has_permission('customers.delete'));
+
+DROP POLICY IF EXISTS "Sales Reps can insert orders" ON orders;
+DROP POLICY IF EXISTS "Sales Reps can update orders" ON orders;
+CREATE POLICY "Sales Reps can insert orders" ON orders FOR INSERT TO authenticated WITH CHECK (has_permission('orders.create'));
+CREATE POLICY "Sales Reps can update orders" ON orders FOR UPDATE TO authenticated USING (has_permission('orders.update'));
+
+DROP POLICY IF EXISTS "Admins can insert categories" ON categories;
+DROP POLICY IF EXISTS "Admins can update categories" ON categories;
+DROP POLICY IF EXISTS "Admins can delete categories" ON categories;
+CREATE POLICY "Admins can insert categories" ON categories FOR INSERT TO authenticated WITH CHECK (has_permission('catalog.manage'));
+CREATE POLICY "Admins can update categories" ON categories FOR UPDATE TO authenticated USING (has_permission('catalog.manage'));
+CREATE POLICY "Admins can delete categories" ON categories FOR DELETE TO authenticated USING (has_permission('catalog.manage'));
+
+DROP POLICY IF EXISTS "Sales Reps can insert order items" ON order_items;
+DROP POLICY IF EXISTS "Sales Reps can update order items" ON order_items;
+CREATE POLICY "Sales Reps can insert order items" ON order_items FOR INSERT TO authenticated WITH CHECK (has_permission('orders.create'));
+CREATE POLICY "Sales Reps can update order items" ON order_items FOR UPDATE TO authenticated USING (has_permission('orders.create'));
+
+DROP POLICY IF EXISTS "Admins can insert vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Admins can update vehicles" ON vehicles;
+DROP POLICY IF EXISTS "Admins can delete vehicles" ON vehicles;
+CREATE POLICY "Admins can insert vehicles" ON vehicles FOR INSERT TO authenticated WITH CHECK (has_permission('vehicles.manage'));
+CREATE POLICY "Admins can update vehicles" ON vehicles FOR UPDATE TO authenticated USING (has_permission('vehicles.manage'));
+CREATE POLICY "Admins can delete vehicles" ON vehicles FOR DELETE TO authenticated USING (has_permission('vehicles.manage'));
+
+DROP POLICY IF EXISTS "Sales Reps can view their assignments" ON on_demand_assignments;
+DROP POLICY IF EXISTS "Admins can insert assignments" ON on_demand_assignments;
+DROP POLICY IF EXISTS "Admins can update assignments" ON on_demand_assignments;
+CREATE POLICY "Sales Reps can view their assignments" ON on_demand_assignments FOR SELECT TO authenticated USING (sales_rep_id = auth.uid() OR has_permission('on_demand.view_all'));
+CREATE POLICY "Admins can insert assignments" ON on_demand_assignments FOR INSERT TO authenticated WITH CHECK (has_permission('on_demand.assign'));
+CREATE POLICY "Admins can update assignments" ON on_demand_assignments FOR UPDATE TO authenticated USING (has_permission('on_demand.assign'));
+
+DROP POLICY IF EXISTS "Admins can insert assignment items" ON on_demand_assignment_items;
+DROP POLICY IF EXISTS "Sales Reps can update their assignment items" ON on_demand_assignment_items;
+CREATE POLICY "Admins can insert assignment items" ON on_demand_assignment_items FOR INSERT TO authenticated WITH CHECK (has_permission('on_demand.assign'));
+CREATE POLICY "Sales Reps can update their assignment items" ON on_demand_assignment_items FOR UPDATE TO authenticated USING (EXISTS (SELECT 1 FROM on_demand_assignments WHERE id = on_demand_assignment_items.on_demand_assignment_id AND sales_rep_id = auth.uid()) OR has_permission('on_demand.assign'));
+
+DROP POLICY IF EXISTS "Sales Reps can view their orders" ON on_demand_orders;
+DROP POLICY IF EXISTS "Sales Reps can insert orders" ON on_demand_orders;
+CREATE POLICY "Sales Reps can view their orders" ON on_demand_orders FOR SELECT TO authenticated USING (sales_rep_id = auth.uid() OR has_permission('on_demand.view_all'));
+CREATE POLICY "Sales Reps can insert orders" ON on_demand_orders FOR INSERT TO authenticated WITH CHECK (has_permission('on_demand.sell'));
+
+DROP POLICY IF EXISTS "Admin users can view all email logs" ON email_logs;
+CREATE POLICY "Admin users can view all email logs"
+  ON email_logs FOR SELECT TO authenticated
+  USING (has_permission('emails.manage'));
+
+DROP POLICY IF EXISTS "Admins can schedule price changes" ON scheduled_price_changes;
+DROP POLICY IF EXISTS "Admins can update scheduled price changes" ON scheduled_price_changes;
+CREATE POLICY "Admins can schedule price changes"
+  ON scheduled_price_changes FOR INSERT TO authenticated
+  WITH CHECK (has_permission('prices.edit'));
+CREATE POLICY "Admins can update scheduled price changes"
+  ON scheduled_price_changes FOR UPDATE TO authenticated
+  USING (has_permission('prices.edit'));
+
+DROP POLICY IF EXISTS "Admins can manage price lists" ON price_lists;
+DROP POLICY IF EXISTS "Admins can manage price list items" ON price_list_items;
+DROP POLICY IF EXISTS "Admins can manage price list assignments" ON price_list_assignments;
+CREATE POLICY "Admins can manage price lists"
+  ON price_lists FOR ALL TO authenticated
+  USING (has_permission('prices.edit'))
+  WITH CHECK (has_permission('prices.edit'));
+CREATE POLICY "Admins can manage price list items"
+  ON price_list_items FOR ALL TO authenticated
+  USING (has_permission('prices.edit'))
+  WITH CHECK (has_permission('prices.edit'));
+CREATE POLICY "Admins can manage price list assignments"
+  ON price_list_assignments FOR ALL TO authenticated
+  USING (has_permission('prices.edit'))
+  WITH CHECK (has_permission('prices.edit'));
+
+DROP POLICY IF EXISTS "Finance Admins can grant credit overrides" ON credit_overrides;
+CREATE POLICY "Finance Admins can grant credit overrides"
+  ON credit_overrides FOR INSERT TO authenticated
+  WITH CHECK (has_permission('credit.override'));
+
+DROP POLICY IF EXISTS "Admins can view the document archive" ON document_archive;
+CREATE POLICY "Admins can view the document archive"
+  ON document_archive FOR SELECT TO authenticated
+  USING (has_permission('documents.archive'));
+
+DROP POLICY IF EXISTS "Admins can download archived documents" ON storage.objects;
+CREATE POLICY "Admins can download archived documents"
+  ON storage.objects FOR SELECT TO authenticated
+  USING (bucket_id = 'documents' AND has_permission('documents.archive'));
+
+DROP POLICY IF EXISTS "Admins can view customer statements" ON customer_statements;
+CREATE POLICY "Admins can view customer statements"
+  ON customer_statements FOR SELECT TO authenticated
+  USING (has_permission('receivables.manage'));
+
+DROP POLICY IF EXISTS "Super Admins can view user admin audit" ON user_admin_audit;
+CREATE POLICY "Super Admins can view user admin audit"
+  ON user_admin_audit FOR SELECT TO authenticated
+  USING (has_permission('users.manage'));
+
+-- Functions that checked roles themselves
+CREATE OR REPLACE FUNCTION receive_stock_batch(
+  p_product_id uuid,
+  p_quantity numeric,
+  p_batch_number text DEFAULT NULL,
+  p_expiry_date date DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS product_batches
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_batch product_batches%ROWTYPE;
+  v_movement stock_movements%ROWTYPE;
+BEGIN
+  IF NOT has_permission('inventory.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to receive stock';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Received quantity must be greater than 0';
+  END IF;
+
+  INSERT INTO product_batches (
+    product_id, batch_number, received_quantity, quantity, expiry_date, created_by
+  ) VALUES (
+    p_product_id,
+    COALESCE(NULLIF(TRIM(p_batch_number), ''), 'B' || to_char(now(), 'YYYYMMDDHH24MISS')),
+    p_quantity,
+    p_quantity,
+    p_expiry_date,
+    auth.uid()
+  )
+  RETURNING * INTO v_batch;
+
+  v_movement := record_stock_movement(
+    p_product_id, p_quantity, 'receipt', 'product_batch', v_batch.id, v_batch.batch_number, p_notes
+  );
+
+  INSERT INTO stock_movement_batches (stock_movement_id, batch_id, quantity)
+  VALUES (v_movement.id, v_batch.id, p_quantity);
+
+  RETURN v_batch;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION receive_customer_payment(
+  p_customer_id uuid,
+  p_amount numeric,
+  p_payment_method text,
+  p_payment_date date,
+  p_reference_no text,
+  p_notes text,
+  p_allocations jsonb
+)
+RETURNS customer_payments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_payment customer_payments%ROWTYPE;
+  v_allocation record;
+  v_balance record;
+  v_allocated numeric := 0;
+BEGIN
+  IF NOT has_permission('receivables.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to record customer payments';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than 0';
+  END IF;
+
+  INSERT INTO customer_payments (
+    customer_id, amount, payment_method, payment_date, reference_no, notes, received_by
+  ) VALUES (
+    p_customer_id, p_amount, p_payment_method, COALESCE(p_payment_date, CURRENT_DATE),
+    NULLIF(TRIM(p_reference_no), ''), NULLIF(TRIM(p_notes), ''), v_user_id
+  )
+  RETURNING * INTO v_payment;
+
+  FOR v_allocation IN
+    SELECT (elem->>'order_id')::uuid AS order_id, (elem->>'amount')::numeric AS amount
+    FROM jsonb_array_elements(COALESCE(p_allocations, '[]'::jsonb)) AS elem
+    ORDER BY (elem->>'order_id')::uuid
+  LOOP
+    IF v_allocation.amount IS NULL OR v_allocation.amount <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    PERFORM 1 FROM orders WHERE id = v_allocation.order_id FOR UPDATE;
+
+    SELECT * INTO v_balance
+    FROM customer_order_balances
+    WHERE order_id = v_allocation.order_id;
+
+    IF NOT FOUND OR v_balance.customer_id <> p_customer_id THEN
+      RAISE EXCEPTION 'Order % is not an open invoice for this customer', v_allocation.order_id;
+    END IF;
+
+    IF v_allocation.amount > v_balance.outstanding_amount THEN
+      RAISE EXCEPTION 'Allocation of % to order % exceeds its outstanding balance of %',
+        v_allocation.amount, v_balance.order_display_id, v_balance.outstanding_amount;
+    END IF;
+
+    INSERT INTO customer_payment_allocations (payment_id, order_id, amount)
+    VALUES (v_payment.id, v_allocation.order_id, v_allocation.amount);
+
+    UPDATE orders
+    SET
+      collected_amount = COALESCE(collected_amount, 0) + v_allocation.amount,
+      payment_status = CASE
+        WHEN v_allocation.amount >= v_balance.outstanding_amount THEN 'fully_paid'
+        ELSE 'partially_paid'
+      END
+    WHERE id = v_allocation.order_id;
+
+    v_allocated := v_allocated + v_allocation.amount;
+  END LOOP;
+
+  IF v_allocated > p_amount THEN
+    RAISE EXCEPTION 'Allocations (%) exceed the payment amount (%)', v_allocated, p_amount;
+  END IF;
+
+  RETURN v_payment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resend_email(p_email_log_id uuid)
+RETURNS email_logs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_log email_logs;
+BEGIN
+  IF NOT has_permission('emails.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to resend emails';
+  END IF;
+
+  INSERT INTO email_logs (
+    order_id, on_demand_order_id, recipient_email, recipient_name, email_type, subject,
+    status, metadata, template_version, resend_of
+  )
+  SELECT order_id, on_demand_order_id, recipient_email, recipient_name, email_type, subject,
+         'pending', metadata, template_version, id
+  FROM email_logs
+  WHERE id = p_email_log_id
+  RETURNING * INTO v_log;
+
+  IF v_log.id IS NULL THEN
+    RAISE EXCEPTION 'Email log % not found', p_email_log_id;
+  END IF;
+
+  RETURN v_log;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_customer_statement(
+  p_customer_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_force boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_existing customer_statements%ROWTYPE;
+  v_statement jsonb;
+  v_metadata jsonb;
+  v_email_log_id uuid;
+BEGIN
+  -- auth.uid() is null when the scheduler runs the batch
+  IF v_user_id IS NOT NULL AND NOT has_permission('receivables.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to send statements';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  IF NULLIF(TRIM(v_customer.email), '') IS NULL THEN
+    RAISE EXCEPTION 'Customer % has no email address', v_customer.name;
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM customer_statements
+  WHERE customer_id = p_customer_id
+    AND period_start = p_period_start
+    AND period_end = p_period_end
+  FOR UPDATE;
+
+  IF FOUND AND NOT p_force THEN
+    RETURN v_existing.email_log_id;
+  END IF;
+
+  v_statement := customer_statement(p_customer_id, p_period_start, p_period_end);
+
+  -- Variables for the 'statement' email template
+  v_metadata := jsonb_build_object(
+    'customerName', v_customer.name,
+    'customerDisplayId', v_customer.customer_display_id,
+    'periodStart', to_char(p_period_start, 'DD/MM/YYYY'),
+    'periodEnd', to_char(p_period_end, 'DD/MM/YYYY'),
+    'openingBalance', v_statement->'opening_balance',
+    'invoicesTotal', v_statement->'invoices_total',
+    'paymentsTotal', v_statement->'payments_total',
+    'returnsTotal', v_statement->'returns_total',
+    'closingBalance', v_statement->'closing_balance',
+    'entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', to_char((entry->>'entry_date')::timestamptz AT TIME ZONE 'Asia/Colombo', 'DD/MM/YYYY'),
+        'description', CASE entry->>'entry_type'
+          WHEN 'invoice' THEN 'Invoice'
+          WHEN 'payment' THEN 'Payment'
+          ELSE 'Return (credit note)'
+        END,
+        'reference', entry->>'reference',
+        'debit', (entry->>'debit')::numeric,
+        'credit', (entry->>'credit')::numeric,
+        'balance', (entry->>'balance')::numeric
+      ) ORDER BY ordinality)
+      FROM jsonb_array_elements(v_statement->'entries') WITH ORDINALITY AS entries(entry, ordinality)
+    ), '[]'::jsonb)
+  );
+
+  INSERT INTO email_logs (recipient_email, recipient_name, email_type, subject, status, metadata)
+  VALUES (
+    TRIM(v_customer.email),
+    v_customer.name,
+    'statement',
+    'Statement of account ' || to_char(p_period_start, 'DD/MM/YYYY') || ' - ' || to_char(p_period_end, 'DD/MM/YYYY'),
+    'pending',
+    v_metadata
+  )
+  RETURNING id INTO v_email_log_id;
+
+  INSERT INTO customer_statements (
+    customer_id, period_start, period_end, opening_balance, invoices_total, payments_total,
+    returns_total, closing_balance, email_log_id, generated_at, generated_by
+  )
+  VALUES (
+    p_customer_id, p_period_start, p_period_end,
+    (v_statement->>'opening_balance')::numeric,
+    (v_statement->>'invoices_total')::numeric,
+    (v_statement->>'payments_total')::numeric,
+    (v_statement->>'returns_total')::numeric,
+    (v_statement->>'closing_balance')::numeric,
+    v_email_log_id, now(), v_user_id
+  )
+  ON CONFLICT (customer_id, period_start, period_end) DO UPDATE
+  SET opening_balance = EXCLUDED.opening_balance,
+      invoices_total = EXCLUDED.invoices_total,
+      payments_total = EXCLUDED.payments_total,
+      returns_total = EXCLUDED.returns_total,
+      closing_balance = EXCLUDED.closing_balance,
+      email_log_id = EXCLUDED.email_log_id,
+      generated_at = EXCLUDED.generated_at,
+      generated_by = EXCLUDED.generated_by;
+
+  RETURN v_email_log_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_monthly_statements(
+  p_period_start date DEFAULT NULL,
+  p_period_end date DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Colombo')::date;
+  v_start date := COALESCE(p_period_start, (date_trunc('month', v_today) - interval '1 month')::date);
+  v_end date := COALESCE(p_period_end, (date_trunc('month', v_start) + interval '1 month - 1 day')::date);
+  v_customer_id uuid;
+  v_queued integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT has_permission('receivables.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to send statements';
+  END IF;
+
+  FOR v_customer_id IN
+    SELECT c.id
+    FROM customers c
+    WHERE NULLIF(TRIM(c.email), '') IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM customer_ledger_entries l
+        WHERE l.customer_id = c.id
+          AND l.entry_date >= v_start::timestamp AT TIME ZONE 'Asia/Colombo'
+          AND l.entry_date < (v_end + 1)::timestamp AT TIME ZONE 'Asia/Colombo'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM customer_statements s
+        WHERE s.customer_id = c.id
+          AND s.period_start = v_start
+          AND s.period_end = v_end
+      )
+    ORDER BY c.name
+  LOOP
+    PERFORM queue_customer_statement(v_customer_id, v_start, v_end);
+    v_queued := v_queued + 1;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$;
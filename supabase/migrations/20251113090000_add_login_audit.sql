@@ -0,0 +1,152 @@
+/*
+  # Account Deactivation and Login Audit
+
+  Users are no longer deleted: deleting the `users` row broke the history behind
+  `orders.created_by`, `orders.assigned_to` and `on_demand_assignments.sales_rep_id`.
+  Admins deactivate accounts instead (`users.active` / `users.deactivated_at`), which
+  revokes the account's sessions and locks it out of every table.
+
+  1. New Tables
+    - `login_audit` - One row per login attempt
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, nullable) - The account, when the username matched one
+      - `username` (text) - Username as typed
+      - `succeeded` (boolean)
+      - `failure_reason` (text, nullable)
+      - `device_id` (text, nullable), `user_agent` (text, nullable) - The device used
+      - `created_at` (timestamptz)
+
+  2. New Functions
+    - `is_active_user()` - False only when the signed-in user's account is deactivated
+    - `record_login_attempt(...)` - Called by the login screen after every attempt. Returns
+      whether the login stands: false for failures and for a deactivated account, which the
+      caller then signs out
+    - `revoke_user_sessions(p_user_id)` - Ends every session and refresh token of a user;
+      service role only, used by `admin-users` when deactivating
+
+  3. Security
+    - Every table with RLS gets a restrictive policy requiring `is_active_user()`, so a
+      deactivated user's remaining access token cannot read or write anything
+    - `login_audit` is readable with `users.manage` and only written by `record_login_attempt`
+*/
+
+CREATE TABLE IF NOT EXISTS login_audit (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  username text NOT NULL,
+  succeeded boolean NOT NULL,
+  failure_reason text,
+  device_id text,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_login_audit_created_at ON login_audit(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_audit_user ON login_audit(user_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION is_active_user()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM users
+    WHERE id = auth.uid()
+      AND NOT active
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION record_login_attempt(
+  p_username text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL,
+  p_device_id text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_succeeded boolean := p_succeeded;
+  v_failure_reason text := NULLIF(TRIM(p_failure_reason), '');
+BEGIN
+  -- A successful attempt is attributed to the session; a failed one to the username typed
+  IF p_succeeded THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'A successful login must be recorded from the new session';
+    END IF;
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+  ELSE
+    SELECT * INTO v_user FROM users WHERE username = TRIM(p_username);
+  END IF;
+
+  IF p_succeeded AND v_user.id IS NOT NULL AND NOT v_user.active THEN
+    v_succeeded := false;
+    v_failure_reason := 'Account deactivated';
+  END IF;
+
+  INSERT INTO login_audit (user_id, username, succeeded, failure_reason, device_id, user_agent)
+  VALUES (
+    v_user.id,
+    left(COALESCE(v_user.username, TRIM(p_username), ''), 100),
+    v_succeeded,
+    left(v_failure_reason, 500),
+    left(NULLIF(TRIM(p_device_id), ''), 200),
+    left(NULLIF(TRIM(p_user_agent), ''), 500)
+  );
+
+  RETURN v_succeeded;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_user_sessions(p_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, auth
+AS $$
+BEGIN
+  -- Tokens issued before sessions were tracked have no session row, so clear both
+  DELETE FROM auth.sessions WHERE user_id = p_user_id;
+  DELETE FROM auth.refresh_tokens WHERE user_id = p_user_id::text;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION is_active_user() TO authenticated;
+GRANT EXECUTE ON FUNCTION record_login_attempt(text, boolean, text, text, text) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION revoke_user_sessions(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION revoke_user_sessions(uuid) TO service_role;
+
+ALTER TABLE login_audit ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User managers can view login audit"
+  ON login_audit
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('users.manage'));
+
+-- Deactivated users keep no access through a token issued before they were deactivated
+DO $$
+DECLARE
+  v_table record;
+BEGIN
+  FOR v_table IN
+    SELECT schemaname, tablename
+    FROM pg_tables
+    WHERE schemaname = 'public'
+      AND rowsecurity
+  LOOP
+    EXECUTE format('DROP POLICY IF EXISTS "Deactivated users have no access" ON %I.%I', v_table.schemaname, v_table.tablename);
+    EXECUTE format(
+      'CREATE POLICY "Deactivated users have no access" ON %I.%I AS RESTRICTIVE FOR ALL TO authenticated USING ((SELECT is_active_user())) WITH CHECK ((SELECT is_active_user()))',
+      v_table.schemaname, v_table.tablename
+    );
+  END LOOP;
+END;
+$$;
+
@@ -0,0 +1,168 @@
+/*
+  # Device Binding
+
+  Sales reps and security guards log in from company phones. Users with device binding
+  turned on register the device of their first login; a later login from any other device
+  is refused and left waiting for an admin to approve it.
+
+  1. New Tables
+    - `user_devices` - Devices a user has logged in from
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `device_id` (text) - Fingerprint generated and kept by the browser
+      - `name` (text) - Label given by an admin, e.g. "Gate phone 2"
+      - `status` (text) - pending, approved or revoked
+      - `user_agent` (text)
+      - `first_seen_at`, `last_seen_at` (timestamptz)
+      - `approved_by` (uuid), `approved_at` (timestamptz)
+
+  2. Modified Tables
+    - `users`
+      - `device_binding` (boolean, default false) - Only approved devices may log in
+      - `device_id` - Now the user's first registered device; no longer required or unique,
+        since a shared gate phone can belong to several guards
+    - `user_admin_audit.action` also accepts approve_device, rename_device and revoke_device
+
+  3. Modified Functions
+    - `record_login_attempt(...)` returns the reason a login is refused (NULL when it stands)
+      and applies device binding to successful sign-ins
+
+  4. Security
+    - `user_devices` is readable with `users.manage`; it is written by `record_login_attempt`
+      and by the `admin-users` edge function only
+*/
+
+ALTER TABLE users ALTER COLUMN device_id DROP NOT NULL;
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_device_id_key;
+UPDATE users SET device_id = NULL WHERE TRIM(device_id) = '';
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS device_binding boolean NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS user_devices (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_id text NOT NULL,
+  name text,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'revoked')),
+  user_agent text,
+  first_seen_at timestamptz NOT NULL DEFAULT now(),
+  last_seen_at timestamptz NOT NULL DEFAULT now(),
+  approved_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  approved_at timestamptz,
+  UNIQUE (user_id, device_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_devices_user ON user_devices(user_id, status);
+
+ALTER TABLE user_devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "User managers can view user devices"
+  ON user_devices
+  FOR SELECT
+  TO authenticated
+  USING (has_permission('users.manage'));
+
+CREATE POLICY "Deactivated users have no access"
+  ON user_devices
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+ALTER TABLE user_admin_audit DROP CONSTRAINT IF EXISTS user_admin_audit_action_check;
+ALTER TABLE user_admin_audit
+  ADD CONSTRAINT user_admin_audit_action_check
+  CHECK (action IN (
+    'create', 'update', 'reset_password', 'change_role', 'disable', 'enable', 'delete',
+    'approve_device', 'rename_device', 'revoke_device'
+  ));
+
+DROP FUNCTION IF EXISTS record_login_attempt(text, boolean, text, text, text);
+
+CREATE OR REPLACE FUNCTION record_login_attempt(
+  p_username text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL,
+  p_device_id text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_device user_devices%ROWTYPE;
+  v_device_id text := left(NULLIF(TRIM(p_device_id), ''), 200);
+  v_user_agent text := left(NULLIF(TRIM(p_user_agent), ''), 500);
+  v_failure_reason text := NULLIF(TRIM(p_failure_reason), '');
+BEGIN
+  -- A successful attempt is attributed to the session; a failed one to the username typed
+  IF p_succeeded THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'A successful login must be recorded from the new session';
+    END IF;
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+    v_failure_reason := NULL;
+  ELSE
+    SELECT * INTO v_user FROM users WHERE username = TRIM(p_username);
+    v_failure_reason := COALESCE(v_failure_reason, 'Login failed');
+  END IF;
+
+  IF p_succeeded AND v_user.id IS NOT NULL THEN
+    IF NOT v_user.active THEN
+      v_failure_reason := 'Account deactivated';
+    ELSIF v_user.device_binding THEN
+      IF v_device_id IS NULL THEN
+        v_failure_reason := 'Device could not be identified';
+      ELSE
+        SELECT * INTO v_device
+        FROM user_devices
+        WHERE user_id = v_user.id
+          AND device_id = v_device_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          -- The first device is registered straight away; any later one waits for an admin
+          IF NOT EXISTS (SELECT 1 FROM user_devices WHERE user_id = v_user.id AND status = 'approved') THEN
+            INSERT INTO user_devices (user_id, device_id, status, user_agent, approved_at)
+            VALUES (v_user.id, v_device_id, 'approved', v_user_agent, now());
+
+            UPDATE users SET device_id = v_device_id WHERE id = v_user.id AND device_id IS NULL;
+          ELSE
+            INSERT INTO user_devices (user_id, device_id, status, user_agent)
+            VALUES (v_user.id, v_device_id, 'pending', v_user_agent);
+            v_failure_reason := 'Device is waiting for admin approval';
+          END IF;
+        ELSE
+          UPDATE user_devices
+          SET last_seen_at = now(), user_agent = COALESCE(v_user_agent, user_agent)
+          WHERE id = v_device.id;
+
+          IF v_device.status = 'pending' THEN
+            v_failure_reason := 'Device is waiting for admin approval';
+          ELSIF v_device.status = 'revoked' THEN
+            v_failure_reason := 'Device has been revoked';
+          END IF;
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  INSERT INTO login_audit (user_id, username, succeeded, failure_reason, device_id, user_agent)
+  VALUES (
+    v_user.id,
+    left(COALESCE(v_user.username, TRIM(p_username), ''), 100),
+    v_failure_reason IS NULL,
+    left(v_failure_reason, 500),
+    v_device_id,
+    v_user_agent
+  );
+
+  RETURN v_failure_reason;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_login_attempt(text, boolean, text, text, text) TO anon, authenticated;
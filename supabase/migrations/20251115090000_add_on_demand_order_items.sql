@@ -0,0 +1,225 @@
+/*
+  # Multi-line On Demand Sales
+
+  An on demand sale used to be one `on_demand_orders` row per product, so a customer buying
+  three products got three order ids, three receipt numbers and three bills. The order is now
+  a header (customer, payment, receipt, total) with one `on_demand_order_items` row per product.
+
+  1. New Tables
+    - `on_demand_order_items` - Lines of an on demand order
+      - `id` (uuid, primary key)
+      - `on_demand_order_id` (uuid, references on_demand_orders)
+      - `on_demand_assignment_item_id` (uuid, references on_demand_assignment_items) - Van stock sold from
+      - `product_id` (uuid, references products)
+      - `quantity` (numeric), `price` (numeric), `line_total` (numeric)
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `on_demand_orders` loses `on_demand_assignment_item_id`, `quantity_sold` and
+      `selling_price`; existing orders are copied into one line each first, keeping their
+      order id, display id and receipt number
+
+  3. New Functions
+    - `create_on_demand_sale(...)` - Creates the order and its lines and books the sold
+      quantities against the rep's assignment items in one transaction. Runs as the caller,
+      so the existing RLS policies apply
+
+  4. Security
+    - Lines are visible wherever their order is, and inserted only by the rep who owns the order
+*/
+
+CREATE TABLE IF NOT EXISTS on_demand_order_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  on_demand_order_id uuid NOT NULL REFERENCES on_demand_orders(id) ON DELETE CASCADE,
+  on_demand_assignment_item_id uuid NOT NULL REFERENCES on_demand_assignment_items(id),
+  product_id uuid NOT NULL REFERENCES products(id),
+  quantity numeric(10,2) NOT NULL CHECK (quantity > 0),
+  price numeric(10,2) NOT NULL CHECK (price > 0),
+  line_total numeric(10,2) NOT NULL CHECK (line_total > 0),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_on_demand_order_items_order ON on_demand_order_items(on_demand_order_id);
+CREATE INDEX IF NOT EXISTS idx_on_demand_order_items_assignment_item ON on_demand_order_items(on_demand_assignment_item_id);
+
+-- Every historical order becomes a one-line order
+INSERT INTO on_demand_order_items (
+  on_demand_order_id, on_demand_assignment_item_id, product_id, quantity, price, line_total, created_at
+)
+SELECT o.id, o.on_demand_assignment_item_id, ai.product_id, o.quantity_sold, o.selling_price, o.total_amount, o.created_at
+FROM on_demand_orders o
+JOIN on_demand_assignment_items ai ON ai.id = o.on_demand_assignment_item_id
+WHERE NOT EXISTS (SELECT 1 FROM on_demand_order_items li WHERE li.on_demand_order_id = o.id);
+
+ALTER TABLE on_demand_orders DROP COLUMN IF EXISTS on_demand_assignment_item_id;
+ALTER TABLE on_demand_orders DROP COLUMN IF EXISTS quantity_sold;
+ALTER TABLE on_demand_orders DROP COLUMN IF EXISTS selling_price;
+
+ALTER TABLE on_demand_order_items ENABLE ROW LEVEL SECURITY;
+
+-- The subquery runs under the on_demand_orders policies, so lines follow their order
+CREATE POLICY "Users can view lines of visible on demand orders"
+  ON on_demand_order_items
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM on_demand_orders WHERE id = on_demand_order_items.on_demand_order_id));
+
+CREATE POLICY "Sales Reps can insert lines of their orders"
+  ON on_demand_order_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    has_permission('on_demand.sell')
+    AND EXISTS (
+      SELECT 1 FROM on_demand_orders
+      WHERE id = on_demand_order_items.on_demand_order_id
+        AND sales_rep_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Deactivated users have no access"
+  ON on_demand_order_items
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE OR REPLACE FUNCTION create_on_demand_sale(
+  p_customer_type text,
+  p_existing_customer_id uuid,
+  p_customer_name text,
+  p_customer_phone text,
+  p_payment_method text,
+  p_items jsonb
+)
+RETURNS on_demand_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_customer_name text := NULLIF(TRIM(p_customer_name), '');
+  v_customer_phone text := NULLIF(TRIM(p_customer_phone), '');
+  v_total numeric := 0;
+  v_order on_demand_orders%ROWTYPE;
+  v_item record;
+  v_assignment_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sale must contain at least one item';
+  END IF;
+
+  IF p_payment_method NOT IN ('Cash', 'Net') THEN
+    RAISE EXCEPTION 'Payment method must be Cash or Net';
+  END IF;
+
+  IF p_customer_type = 'existing' THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_existing_customer_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', p_existing_customer_id;
+    END IF;
+    v_customer_name := v_customer.name;
+    v_customer_phone := v_customer.phone_number;
+  ELSIF p_customer_type = 'walk-in' THEN
+    IF v_customer_name IS NULL THEN
+      RAISE EXCEPTION 'Customer name is required';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Customer type must be existing or walk-in';
+  END IF;
+
+  -- Lock the van stock being sold (in id order to avoid deadlocks) and check what is left on it
+  FOR v_item IN
+    SELECT
+      (elem->>'assignment_item_id')::uuid AS assignment_item_id,
+      SUM((elem->>'quantity')::numeric) AS quantity,
+      bool_and((elem->>'price')::numeric > 0) AS priced
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'assignment_item_id')::uuid
+    ORDER BY (elem->>'assignment_item_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+    IF NOT COALESCE(v_item.priced, false) THEN
+      RAISE EXCEPTION 'All prices must be greater than 0';
+    END IF;
+
+    SELECT ai.id, ai.assigned_quantity, ai.sold_quantity, ai.returned_quantity, p.name
+    INTO v_assignment_item
+    FROM on_demand_assignment_items ai
+    JOIN on_demand_assignments a ON a.id = ai.on_demand_assignment_id
+    JOIN products p ON p.id = ai.product_id
+    WHERE ai.id = v_item.assignment_item_id
+      AND a.sales_rep_id = v_user_id
+      AND a.status = 'active'
+    FOR UPDATE OF ai;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Assignment item % is not in one of your active assignments', v_item.assignment_item_id;
+    END IF;
+
+    IF v_assignment_item.assigned_quantity - v_assignment_item.sold_quantity - v_assignment_item.returned_quantity < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_assignment_item.name,
+        v_assignment_item.assigned_quantity - v_assignment_item.sold_quantity - v_assignment_item.returned_quantity,
+        v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(ROUND((elem->>'quantity')::numeric * (elem->>'price')::numeric, 2)), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  INSERT INTO on_demand_orders (
+    sales_rep_id,
+    customer_name,
+    customer_phone,
+    customer_type,
+    existing_customer_id,
+    total_amount,
+    payment_method
+  ) VALUES (
+    v_user_id,
+    v_customer_name,
+    v_customer_phone,
+    p_customer_type,
+    CASE WHEN p_customer_type = 'existing' THEN p_existing_customer_id END,
+    v_total,
+    p_payment_method
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO on_demand_order_items (
+    on_demand_order_id, on_demand_assignment_item_id, product_id, quantity, price, line_total
+  )
+  SELECT
+    v_order.id,
+    ai.id,
+    ai.product_id,
+    (elem->>'quantity')::numeric,
+    (elem->>'price')::numeric,
+    ROUND((elem->>'quantity')::numeric * (elem->>'price')::numeric, 2)
+  FROM jsonb_array_elements(p_items) AS elem
+  JOIN on_demand_assignment_items ai ON ai.id = (elem->>'assignment_item_id')::uuid;
+
+  UPDATE on_demand_assignment_items ai
+  SET sold_quantity = ai.sold_quantity + totals.quantity
+  FROM (
+    SELECT (elem->>'assignment_item_id')::uuid AS assignment_item_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'assignment_item_id')::uuid
+  ) AS totals
+  WHERE ai.id = totals.assignment_item_id;
+
+  RETURN v_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_on_demand_sale(text, uuid, text, text, text, jsonb) TO authenticated;
@@ -0,0 +1,253 @@
+/*
+  # End-of-day Van Reconciliation
+
+  Nothing closed out an on demand assignment when the van came back: whatever was left on it
+  stayed "remaining" forever and the cash the rep handed in was never checked against the
+  sales. An assignment is now closed by reconciling it: the counted remainder of each product
+  is compared with assigned - sold - returned, the cash and Net collections from its sales are
+  compared with what was handed in, and every variance is recorded with a reason.
+
+  1. New Tables
+    - `on_demand_reconciliations` - One per closed assignment
+      - `id` (uuid, primary key)
+      - `on_demand_assignment_id` (uuid, unique, references on_demand_assignments)
+      - `expected_cash`, `expected_net` (numeric) - Sales from the assignment by payment method
+      - `cash_handed_in`, `net_received` (numeric) - What the rep actually handed over
+      - `cash_variance`, `net_variance` (numeric) - Received minus expected
+      - `cash_variance_reason`, `net_variance_reason` (text) - Required when the variance is not 0
+      - `notes` (text)
+      - `reconciled_by` (uuid, references users), `reconciled_at` (timestamptz)
+    - `on_demand_reconciliation_items` - One per assignment item
+      - `id` (uuid, primary key)
+      - `on_demand_reconciliation_id` (uuid, references on_demand_reconciliations)
+      - `on_demand_assignment_item_id` (uuid, references on_demand_assignment_items)
+      - `product_id` (uuid, references products)
+      - `expected_quantity` (numeric) - assigned - sold - returned at closing
+      - `counted_quantity` (numeric) - Physically counted on the van
+      - `variance` (numeric) - Counted minus expected
+      - `variance_reason` (text) - Required when the variance is not 0
+
+  2. New Functions
+    - `close_on_demand_assignment(...)` - Records the reconciliation, returns the counted
+      remainder to stock as 'on_demand_return' movements and marks the assignment completed,
+      in one transaction. Runs as the caller, so the existing RLS policies apply
+
+  3. Security
+    - Reconciliations are visible to the rep of the assignment and to on_demand.view_all,
+      and written only by on_demand.assign
+*/
+
+CREATE TABLE IF NOT EXISTS on_demand_reconciliations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  on_demand_assignment_id uuid NOT NULL UNIQUE REFERENCES on_demand_assignments(id) ON DELETE CASCADE,
+  expected_cash numeric(10,2) NOT NULL DEFAULT 0,
+  expected_net numeric(10,2) NOT NULL DEFAULT 0,
+  cash_handed_in numeric(10,2) NOT NULL CHECK (cash_handed_in >= 0),
+  net_received numeric(10,2) NOT NULL CHECK (net_received >= 0),
+  cash_variance numeric(10,2) NOT NULL DEFAULT 0,
+  net_variance numeric(10,2) NOT NULL DEFAULT 0,
+  cash_variance_reason text,
+  net_variance_reason text,
+  notes text,
+  reconciled_by uuid REFERENCES users(id),
+  reconciled_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS on_demand_reconciliation_items (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  on_demand_reconciliation_id uuid NOT NULL REFERENCES on_demand_reconciliations(id) ON DELETE CASCADE,
+  on_demand_assignment_item_id uuid NOT NULL REFERENCES on_demand_assignment_items(id),
+  product_id uuid NOT NULL REFERENCES products(id),
+  expected_quantity numeric(10,2) NOT NULL,
+  counted_quantity numeric(10,2) NOT NULL CHECK (counted_quantity >= 0),
+  variance numeric(10,2) NOT NULL DEFAULT 0,
+  variance_reason text,
+  UNIQUE (on_demand_reconciliation_id, on_demand_assignment_item_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_on_demand_reconciliation_items_reconciliation
+  ON on_demand_reconciliation_items(on_demand_reconciliation_id);
+
+ALTER TABLE on_demand_reconciliations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE on_demand_reconciliation_items ENABLE ROW LEVEL SECURITY;
+
+-- The subquery runs under the on_demand_assignments policies, so reps see their own
+CREATE POLICY "Users can view reconciliations of visible assignments"
+  ON on_demand_reconciliations
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM on_demand_assignments WHERE id = on_demand_reconciliations.on_demand_assignment_id));
+
+CREATE POLICY "Assigners can insert reconciliations"
+  ON on_demand_reconciliations
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('on_demand.assign'));
+
+CREATE POLICY "Users can view lines of visible reconciliations"
+  ON on_demand_reconciliation_items
+  FOR SELECT
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM on_demand_reconciliations WHERE id = on_demand_reconciliation_items.on_demand_reconciliation_id));
+
+CREATE POLICY "Assigners can insert reconciliation lines"
+  ON on_demand_reconciliation_items
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (has_permission('on_demand.assign'));
+
+CREATE POLICY "Deactivated users have no access"
+  ON on_demand_reconciliations
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE POLICY "Deactivated users have no access"
+  ON on_demand_reconciliation_items
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE OR REPLACE FUNCTION close_on_demand_assignment(
+  p_assignment_id uuid,
+  p_items jsonb,
+  p_cash_handed_in numeric,
+  p_net_received numeric,
+  p_cash_variance_reason text,
+  p_net_variance_reason text,
+  p_notes text
+)
+RETURNS on_demand_reconciliations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_assignment on_demand_assignments%ROWTYPE;
+  v_reconciliation on_demand_reconciliations%ROWTYPE;
+  v_item record;
+  v_counted record;
+  v_expected numeric;
+  v_expected_cash numeric := 0;
+  v_expected_net numeric := 0;
+  v_cash_reason text := NULLIF(TRIM(p_cash_variance_reason), '');
+  v_net_reason text := NULLIF(TRIM(p_net_variance_reason), '');
+BEGIN
+  IF NOT has_permission('on_demand.assign') THEN
+    RAISE EXCEPTION 'You do not have permission to close assignments';
+  END IF;
+
+  IF p_cash_handed_in IS NULL OR p_cash_handed_in < 0 OR p_net_received IS NULL OR p_net_received < 0 THEN
+    RAISE EXCEPTION 'Collected amounts cannot be negative';
+  END IF;
+
+  SELECT * INTO v_assignment
+  FROM on_demand_assignments
+  WHERE id = p_assignment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', p_assignment_id;
+  END IF;
+
+  IF v_assignment.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active assignments can be reconciled';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(li.line_total) FILTER (WHERE o.payment_method = 'Cash'), 0),
+    COALESCE(SUM(li.line_total) FILTER (WHERE o.payment_method = 'Net'), 0)
+  INTO v_expected_cash, v_expected_net
+  FROM on_demand_order_items li
+  JOIN on_demand_orders o ON o.id = li.on_demand_order_id
+  JOIN on_demand_assignment_items ai ON ai.id = li.on_demand_assignment_item_id
+  WHERE ai.on_demand_assignment_id = p_assignment_id;
+
+  IF p_cash_handed_in <> v_expected_cash AND v_cash_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for the cash variance of %', p_cash_handed_in - v_expected_cash;
+  END IF;
+
+  IF p_net_received <> v_expected_net AND v_net_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for the Net variance of %', p_net_received - v_expected_net;
+  END IF;
+
+  INSERT INTO on_demand_reconciliations (
+    on_demand_assignment_id, expected_cash, expected_net, cash_handed_in, net_received,
+    cash_variance, net_variance, cash_variance_reason, net_variance_reason, notes, reconciled_by
+  ) VALUES (
+    p_assignment_id, v_expected_cash, v_expected_net, p_cash_handed_in, p_net_received,
+    p_cash_handed_in - v_expected_cash, p_net_received - v_expected_net,
+    v_cash_reason, v_net_reason, NULLIF(TRIM(p_notes), ''), v_user_id
+  )
+  RETURNING * INTO v_reconciliation;
+
+  -- Every item on the van must be counted, even if nothing is left of it
+  FOR v_item IN
+    SELECT ai.id, ai.product_id, ai.assigned_quantity, ai.sold_quantity, ai.returned_quantity, p.name
+    FROM on_demand_assignment_items ai
+    JOIN products p ON p.id = ai.product_id
+    WHERE ai.on_demand_assignment_id = p_assignment_id
+    ORDER BY ai.id
+    FOR UPDATE OF ai
+  LOOP
+    SELECT
+      (elem->>'counted_quantity')::numeric AS counted_quantity,
+      NULLIF(TRIM(elem->>'variance_reason'), '') AS variance_reason
+    INTO v_counted
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS elem
+    WHERE (elem->>'assignment_item_id')::uuid = v_item.id;
+
+    IF NOT FOUND OR v_counted.counted_quantity IS NULL THEN
+      RAISE EXCEPTION 'Counted quantity for % is missing', v_item.name;
+    END IF;
+
+    IF v_counted.counted_quantity < 0 THEN
+      RAISE EXCEPTION 'Counted quantity for % cannot be negative', v_item.name;
+    END IF;
+
+    v_expected := v_item.assigned_quantity - v_item.sold_quantity - v_item.returned_quantity;
+
+    IF v_counted.counted_quantity <> v_expected AND v_counted.variance_reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required for the variance of % kg on %',
+        v_counted.counted_quantity - v_expected, v_item.name;
+    END IF;
+
+    INSERT INTO on_demand_reconciliation_items (
+      on_demand_reconciliation_id, on_demand_assignment_item_id, product_id,
+      expected_quantity, counted_quantity, variance, variance_reason
+    ) VALUES (
+      v_reconciliation.id, v_item.id, v_item.product_id,
+      v_expected, v_counted.counted_quantity, v_counted.counted_quantity - v_expected, v_counted.variance_reason
+    );
+
+    -- Only what is physically back goes on the shelf; a shortage stays off stock
+    IF v_counted.counted_quantity > 0 THEN
+      PERFORM record_stock_movement(
+        v_item.product_id,
+        v_counted.counted_quantity,
+        'on_demand_return',
+        'on_demand_assignment_item',
+        v_item.id,
+        NULL,
+        'Reconciliation of on demand assignment'
+      );
+
+      UPDATE on_demand_assignment_items
+      SET returned_quantity = returned_quantity + v_counted.counted_quantity
+      WHERE id = v_item.id;
+    END IF;
+  END LOOP;
+
+  UPDATE on_demand_assignments
+  SET status = 'completed'
+  WHERE id = p_assignment_id;
+
+  RETURN v_reconciliation;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION close_on_demand_assignment(uuid, jsonb, numeric, numeric, text, text, text) TO authenticated;
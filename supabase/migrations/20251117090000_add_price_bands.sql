@@ -0,0 +1,245 @@
+/*
+  # Selling Price Bands and Manager Overrides
+
+  On demand sales refused every sale because the per-product price threshold was removed and
+  replaced by a hard-coded 0, while custom prices on the service customer screen were not
+  checked at all. Admins now configure how far a selling price may move from a base tier, per
+  product or per category, and prices outside the band need a one-time approval code from a
+  manager. Every use of a code is logged.
+
+  1. New Tables
+    - `price_bands` - Allowed selling band, for one product or one category
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, unique, references products) or `category_id` (uuid, unique, references categories)
+      - `base_tier` (text) - Tier column the band is measured from, e.g. 'price_dealer_cash'
+      - `band_type` (text) - 'amount' (Rs) or 'percent'; category bands are always 'percent'
+      - `below`, `above` (numeric) - How far under and over the base price is allowed
+      - `updated_by` (uuid, references users), `created_at`, `updated_at` (timestamptz)
+    - `price_override_codes` - One-time approval codes issued by managers
+      - `id` (uuid, primary key)
+      - `code` (text) - 6 digits
+      - `issued_by` (uuid, references users), `expires_at` (timestamptz)
+      - `used_by` (uuid, references users), `used_at` (timestamptz)
+    - `price_overrides` - Log of every over-band price that was approved
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, references products), `customer_id` (uuid, references customers)
+      - `context` (text) - 'on_demand_sale' or 'sales_order'
+      - `base_price`, `min_price`, `max_price`, `price` (numeric)
+      - `code_id` (uuid, references price_override_codes)
+      - `approved_by`, `requested_by` (uuid, references users), `created_at` (timestamptz)
+
+  2. New Permissions
+    - `prices.override` - Issue approval codes; granted to Admin and Order Manager
+
+  3. New Functions
+    - `issue_price_override_code()` - Issues a code valid for 15 minutes
+    - `redeem_price_override_code(...)` - Checks and uses up a code and logs the override.
+      SECURITY DEFINER because the rep entering the code cannot read the codes table
+
+  4. Security
+    - Bands are readable by everyone signed in and managed with prices.edit
+    - Codes are visible to the manager who issued them; overrides to the requester and
+      to prices.override / prices.edit
+*/
+
+INSERT INTO permissions (key, category, description)
+VALUES ('prices.override', 'Inventory', 'Issue approval codes for prices outside the selling band')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+VALUES
+  ('Super Admin', 'prices.override'),
+  ('Admin', 'prices.override'),
+  ('Order Manager', 'prices.override')
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS price_bands (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid UNIQUE REFERENCES products(id) ON DELETE CASCADE,
+  category_id uuid UNIQUE REFERENCES categories(category_id) ON DELETE CASCADE,
+  base_tier text NOT NULL DEFAULT 'price_dealer_cash' CHECK (base_tier IN (
+    'price_dealer_cash', 'price_dealer_credit', 'price_hotel_cash', 'price_hotel_credit'
+  )),
+  band_type text NOT NULL CHECK (band_type IN ('amount', 'percent')),
+  below numeric(10,2) NOT NULL DEFAULT 0 CHECK (below >= 0),
+  above numeric(10,2) NOT NULL DEFAULT 0 CHECK (above >= 0),
+  updated_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK ((product_id IS NULL) <> (category_id IS NULL)),
+  CHECK (product_id IS NOT NULL OR band_type = 'percent'),
+  CHECK (band_type <> 'percent' OR below <= 100)
+);
+
+CREATE TABLE IF NOT EXISTS price_override_codes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  code text NOT NULL CHECK (code ~ '^[0-9]{6}$'),
+  issued_by uuid NOT NULL REFERENCES users(id),
+  expires_at timestamptz NOT NULL,
+  used_by uuid REFERENCES users(id),
+  used_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_override_codes_code ON price_override_codes(code) WHERE used_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS price_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  context text NOT NULL CHECK (context IN ('on_demand_sale', 'sales_order')),
+  base_price numeric(10,2) NOT NULL,
+  min_price numeric(10,2) NOT NULL,
+  max_price numeric(10,2) NOT NULL,
+  price numeric(10,2) NOT NULL CHECK (price > 0),
+  code_id uuid NOT NULL REFERENCES price_override_codes(id),
+  approved_by uuid NOT NULL REFERENCES users(id),
+  requested_by uuid NOT NULL REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_overrides_created_at ON price_overrides(created_at DESC);
+
+ALTER TABLE price_bands ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_override_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE price_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view price bands"
+  ON price_bands
+  FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Price editors can manage price bands"
+  ON price_bands
+  FOR ALL
+  TO authenticated
+  USING (has_permission('prices.edit'))
+  WITH CHECK (has_permission('prices.edit'));
+
+CREATE POLICY "Managers can view codes they issued"
+  ON price_override_codes
+  FOR SELECT
+  TO authenticated
+  USING (issued_by = auth.uid());
+
+CREATE POLICY "Users can view price overrides"
+  ON price_overrides
+  FOR SELECT
+  TO authenticated
+  USING (requested_by = auth.uid() OR has_permission('prices.override') OR has_permission('prices.edit'));
+
+CREATE POLICY "Deactivated users have no access"
+  ON price_bands
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE POLICY "Deactivated users have no access"
+  ON price_override_codes
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE POLICY "Deactivated users have no access"
+  ON price_overrides
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE OR REPLACE FUNCTION issue_price_override_code()
+RETURNS price_override_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code text;
+  v_row price_override_codes%ROWTYPE;
+BEGIN
+  IF NOT has_permission('prices.override') THEN
+    RAISE EXCEPTION 'You do not have permission to approve price overrides';
+  END IF;
+
+  -- Codes only need to be unique among those that can still be used
+  LOOP
+    v_code := lpad(floor(random() * 1000000)::int::text, 6, '0');
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM price_override_codes
+      WHERE code = v_code AND used_at IS NULL AND expires_at > now()
+    );
+  END LOOP;
+
+  INSERT INTO price_override_codes (code, issued_by, expires_at)
+  VALUES (v_code, auth.uid(), now() + interval '15 minutes')
+  RETURNING * INTO v_row;
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION redeem_price_override_code(
+  p_code text,
+  p_product_id uuid,
+  p_customer_id uuid,
+  p_context text,
+  p_base_price numeric,
+  p_min_price numeric,
+  p_max_price numeric,
+  p_price numeric
+)
+RETURNS price_overrides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code price_override_codes%ROWTYPE;
+  v_override price_overrides%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Price must be greater than 0';
+  END IF;
+
+  SELECT * INTO v_code
+  FROM price_override_codes
+  WHERE code = TRIM(p_code)
+    AND used_at IS NULL
+    AND expires_at > now()
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Approval code is invalid, expired or already used';
+  END IF;
+
+  UPDATE price_override_codes
+  SET used_by = auth.uid(), used_at = now()
+  WHERE id = v_code.id;
+
+  INSERT INTO price_overrides (
+    product_id, customer_id, context, base_price, min_price, max_price, price,
+    code_id, approved_by, requested_by
+  ) VALUES (
+    p_product_id, p_customer_id, p_context, p_base_price, p_min_price, p_max_price, p_price,
+    v_code.id, v_code.issued_by, auth.uid()
+  )
+  RETURNING * INTO v_override;
+
+  RETURN v_override;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION issue_price_override_code() TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_price_override_code(text, uuid, uuid, text, numeric, numeric, numeric, numeric) TO authenticated;
@@ -0,0 +1,618 @@
+/*
+  # Rep-to-rep On Demand Transfers
+
+  Van stock could only be sold or returned to the farm, so when one van ran out on the road
+  and another had surplus the goods had to go back to the farm and be reassigned. A rep can
+  now transfer quantity from one of their active assignment items to another rep, who
+  acknowledges it before it lands on their van.
+
+  1. New Tables
+    - `on_demand_transfers`
+      - `id` (uuid, primary key)
+      - `from_assignment_item_id` (uuid, references on_demand_assignment_items) - Sending van stock
+      - `to_assignment_item_id` (uuid, references on_demand_assignment_items) - Set on acceptance
+      - `product_id` (uuid, references products)
+      - `from_rep_id`, `to_rep_id` (uuid, references users)
+      - `quantity` (numeric)
+      - `status` (text) - pending, accepted, rejected or cancelled
+      - `notes` (text)
+      - `requested_by`, `responded_by` (uuid, references users)
+      - `created_at`, `responded_at` (timestamptz)
+
+  2. Modified Tables
+    - `on_demand_assignment_items` gains `transferred_in_quantity` and `transferred_out_quantity`.
+      What is left on a van is now assigned + in - sold - returned - out. Stock leaves the
+      sender as soon as the transfer is requested, so it cannot be sold twice, and goes back
+      if the transfer is rejected or cancelled
+    - `on_demand_reconciliation_items` records the transfers in and out at closing
+    - A receiving van may get a product it was never assigned, so `assigned_quantity` may be 0,
+      and the old sold + returned <= assigned check is dropped; the functions below check
+      what is left on the van instead
+
+  3. New Functions
+    - `on_demand_remaining_quantity(on_demand_assignment_items)` - What is left on the van
+    - `request_on_demand_transfer(...)`, `accept_on_demand_transfer(...)`,
+      `reject_on_demand_transfer(...)`, `cancel_on_demand_transfer(...)`. SECURITY DEFINER
+      because each rep only sees their own assignments; every function checks who may call it
+
+  4. Modified Functions
+    - `create_on_demand_sale` and `close_on_demand_assignment` use the new remaining quantity;
+      an assignment cannot be closed while a transfer to or from it is pending
+
+  5. Security
+    - Transfers are visible to both reps and to on_demand.view_all, and written only through
+      the functions above
+*/
+
+ALTER TABLE on_demand_assignment_items
+  ADD COLUMN IF NOT EXISTS transferred_in_quantity numeric(10,2) NOT NULL DEFAULT 0 CHECK (transferred_in_quantity >= 0),
+  ADD COLUMN IF NOT EXISTS transferred_out_quantity numeric(10,2) NOT NULL DEFAULT 0 CHECK (transferred_out_quantity >= 0);
+
+ALTER TABLE on_demand_assignment_items DROP CONSTRAINT IF EXISTS valid_quantities;
+ALTER TABLE on_demand_assignment_items DROP CONSTRAINT IF EXISTS on_demand_assignment_items_assigned_quantity_check;
+ALTER TABLE on_demand_assignment_items
+  ADD CONSTRAINT on_demand_assignment_items_assigned_quantity_check CHECK (assigned_quantity >= 0);
+
+ALTER TABLE on_demand_reconciliation_items
+  ADD COLUMN IF NOT EXISTS transferred_in_quantity numeric(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS transferred_out_quantity numeric(10,2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS on_demand_transfers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  from_assignment_item_id uuid NOT NULL REFERENCES on_demand_assignment_items(id) ON DELETE CASCADE,
+  to_assignment_item_id uuid REFERENCES on_demand_assignment_items(id) ON DELETE SET NULL,
+  product_id uuid NOT NULL REFERENCES products(id),
+  from_rep_id uuid NOT NULL REFERENCES users(id),
+  to_rep_id uuid NOT NULL REFERENCES users(id),
+  quantity numeric(10,2) NOT NULL CHECK (quantity > 0),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'rejected', 'cancelled')),
+  notes text,
+  requested_by uuid NOT NULL REFERENCES users(id),
+  responded_by uuid REFERENCES users(id),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  responded_at timestamptz,
+  CHECK (from_rep_id <> to_rep_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_on_demand_transfers_from_item ON on_demand_transfers(from_assignment_item_id);
+CREATE INDEX IF NOT EXISTS idx_on_demand_transfers_to_item ON on_demand_transfers(to_assignment_item_id);
+CREATE INDEX IF NOT EXISTS idx_on_demand_transfers_to_rep_pending ON on_demand_transfers(to_rep_id) WHERE status = 'pending';
+
+ALTER TABLE on_demand_transfers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reps can view their transfers"
+  ON on_demand_transfers
+  FOR SELECT
+  TO authenticated
+  USING (from_rep_id = auth.uid() OR to_rep_id = auth.uid() OR has_permission('on_demand.view_all'));
+
+CREATE POLICY "Deactivated users have no access"
+  ON on_demand_transfers
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE OR REPLACE FUNCTION on_demand_remaining_quantity(ai on_demand_assignment_items)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ai.assigned_quantity + ai.transferred_in_quantity
+    - ai.sold_quantity - ai.returned_quantity - ai.transferred_out_quantity;
+$$;
+
+CREATE OR REPLACE FUNCTION request_on_demand_transfer(
+  p_from_assignment_item_id uuid,
+  p_to_rep_id uuid,
+  p_quantity numeric,
+  p_notes text
+)
+RETURNS on_demand_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_item record;
+  v_transfer on_demand_transfers%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Transfer quantity must be greater than 0';
+  END IF;
+
+  SELECT ai.id, ai.product_id, on_demand_remaining_quantity(ai) AS remaining, a.sales_rep_id, p.name
+  INTO v_item
+  FROM on_demand_assignment_items ai
+  JOIN on_demand_assignments a ON a.id = ai.on_demand_assignment_id
+  JOIN products p ON p.id = ai.product_id
+  WHERE ai.id = p_from_assignment_item_id
+    AND a.status = 'active'
+  FOR UPDATE OF ai;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment item % is not in an active assignment', p_from_assignment_item_id;
+  END IF;
+
+  IF v_item.sales_rep_id <> v_user_id AND NOT has_permission('on_demand.assign') THEN
+    RAISE EXCEPTION 'You can only transfer stock from your own van';
+  END IF;
+
+  IF p_to_rep_id = v_item.sales_rep_id THEN
+    RAISE EXCEPTION 'Choose another sales rep to transfer to';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM on_demand_assignments
+    WHERE sales_rep_id = p_to_rep_id AND status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'The receiving sales rep has no active assignment';
+  END IF;
+
+  IF v_item.remaining < p_quantity THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+      v_item.name, v_item.remaining, p_quantity;
+  END IF;
+
+  UPDATE on_demand_assignment_items
+  SET transferred_out_quantity = transferred_out_quantity + p_quantity
+  WHERE id = v_item.id;
+
+  INSERT INTO on_demand_transfers (
+    from_assignment_item_id, product_id, from_rep_id, to_rep_id, quantity, notes, requested_by
+  ) VALUES (
+    v_item.id, v_item.product_id, v_item.sales_rep_id, p_to_rep_id, p_quantity,
+    NULLIF(TRIM(p_notes), ''), v_user_id
+  )
+  RETURNING * INTO v_transfer;
+
+  RETURN v_transfer;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION accept_on_demand_transfer(p_transfer_id uuid)
+RETURNS on_demand_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_transfer on_demand_transfers%ROWTYPE;
+  v_assignment_id uuid;
+  v_to_item_id uuid;
+BEGIN
+  SELECT * INTO v_transfer
+  FROM on_demand_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_transfer.to_rep_id <> v_user_id OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+  END IF;
+
+  IF v_transfer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This transfer was already %', v_transfer.status;
+  END IF;
+
+  -- Land the stock on an active assignment that already carries the product, else the latest one
+  SELECT a.id, ai.id
+  INTO v_assignment_id, v_to_item_id
+  FROM on_demand_assignments a
+  LEFT JOIN on_demand_assignment_items ai
+    ON ai.on_demand_assignment_id = a.id AND ai.product_id = v_transfer.product_id
+  WHERE a.sales_rep_id = v_user_id
+    AND a.status = 'active'
+  ORDER BY (ai.id IS NOT NULL) DESC, a.assignment_date DESC, a.created_at DESC
+  LIMIT 1;
+
+  IF v_assignment_id IS NULL THEN
+    RAISE EXCEPTION 'You have no active assignment to receive this stock into';
+  END IF;
+
+  IF v_to_item_id IS NULL THEN
+    INSERT INTO on_demand_assignment_items (on_demand_assignment_id, product_id, assigned_quantity, transferred_in_quantity)
+    VALUES (v_assignment_id, v_transfer.product_id, 0, v_transfer.quantity)
+    RETURNING id INTO v_to_item_id;
+  ELSE
+    UPDATE on_demand_assignment_items
+    SET transferred_in_quantity = transferred_in_quantity + v_transfer.quantity
+    WHERE id = v_to_item_id;
+  END IF;
+
+  UPDATE on_demand_transfers
+  SET status = 'accepted',
+      to_assignment_item_id = v_to_item_id,
+      responded_by = v_user_id,
+      responded_at = now()
+  WHERE id = p_transfer_id
+  RETURNING * INTO v_transfer;
+
+  RETURN v_transfer;
+END;
+$$;
+
+-- Puts the quantity back on the sending van; shared by reject and cancel
+CREATE OR REPLACE FUNCTION close_pending_on_demand_transfer(p_transfer_id uuid, p_status text)
+RETURNS on_demand_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer on_demand_transfers%ROWTYPE;
+BEGIN
+  UPDATE on_demand_assignment_items ai
+  SET transferred_out_quantity = ai.transferred_out_quantity - t.quantity
+  FROM on_demand_transfers t
+  WHERE t.id = p_transfer_id
+    AND ai.id = t.from_assignment_item_id;
+
+  UPDATE on_demand_transfers
+  SET status = p_status,
+      responded_by = auth.uid(),
+      responded_at = now()
+  WHERE id = p_transfer_id
+  RETURNING * INTO v_transfer;
+
+  RETURN v_transfer;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION close_pending_on_demand_transfer(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION reject_on_demand_transfer(p_transfer_id uuid)
+RETURNS on_demand_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer on_demand_transfers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transfer
+  FROM on_demand_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_transfer.to_rep_id <> auth.uid() OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+  END IF;
+
+  IF v_transfer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This transfer was already %', v_transfer.status;
+  END IF;
+
+  RETURN close_pending_on_demand_transfer(p_transfer_id, 'rejected');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_on_demand_transfer(p_transfer_id uuid)
+RETURNS on_demand_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_transfer on_demand_transfers%ROWTYPE;
+BEGIN
+  SELECT * INTO v_transfer
+  FROM on_demand_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR NOT is_active_user()
+    OR (v_transfer.from_rep_id <> auth.uid() AND NOT has_permission('on_demand.assign')) THEN
+    RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+  END IF;
+
+  IF v_transfer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This transfer was already %', v_transfer.status;
+  END IF;
+
+  RETURN close_pending_on_demand_transfer(p_transfer_id, 'cancelled');
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION on_demand_remaining_quantity(on_demand_assignment_items) TO authenticated;
+GRANT EXECUTE ON FUNCTION request_on_demand_transfer(uuid, uuid, numeric, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_on_demand_transfer(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_on_demand_transfer(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_on_demand_transfer(uuid) TO authenticated;
+
+-- Unchanged apart from the remaining quantity, which now includes transfers
+CREATE OR REPLACE FUNCTION create_on_demand_sale(
+  p_customer_type text,
+  p_existing_customer_id uuid,
+  p_customer_name text,
+  p_customer_phone text,
+  p_payment_method text,
+  p_items jsonb
+)
+RETURNS on_demand_orders
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_customer_name text := NULLIF(TRIM(p_customer_name), '');
+  v_customer_phone text := NULLIF(TRIM(p_customer_phone), '');
+  v_total numeric := 0;
+  v_order on_demand_orders%ROWTYPE;
+  v_item record;
+  v_assignment_item record;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sale must contain at least one item';
+  END IF;
+
+  IF p_payment_method NOT IN ('Cash', 'Net') THEN
+    RAISE EXCEPTION 'Payment method must be Cash or Net';
+  END IF;
+
+  IF p_customer_type = 'existing' THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_existing_customer_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', p_existing_customer_id;
+    END IF;
+    v_customer_name := v_customer.name;
+    v_customer_phone := v_customer.phone_number;
+  ELSIF p_customer_type = 'walk-in' THEN
+    IF v_customer_name IS NULL THEN
+      RAISE EXCEPTION 'Customer name is required';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Customer type must be existing or walk-in';
+  END IF;
+
+  -- Lock the van stock being sold (in id order to avoid deadlocks) and check what is left on it
+  FOR v_item IN
+    SELECT
+      (elem->>'assignment_item_id')::uuid AS assignment_item_id,
+      SUM((elem->>'quantity')::numeric) AS quantity,
+      bool_and((elem->>'price')::numeric > 0) AS priced
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'assignment_item_id')::uuid
+    ORDER BY (elem->>'assignment_item_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+    IF NOT COALESCE(v_item.priced, false) THEN
+      RAISE EXCEPTION 'All prices must be greater than 0';
+    END IF;
+
+    SELECT ai.id, on_demand_remaining_quantity(ai) AS remaining, p.name
+    INTO v_assignment_item
+    FROM on_demand_assignment_items ai
+    JOIN on_demand_assignments a ON a.id = ai.on_demand_assignment_id
+    JOIN products p ON p.id = ai.product_id
+    WHERE ai.id = v_item.assignment_item_id
+      AND a.sales_rep_id = v_user_id
+      AND a.status = 'active'
+    FOR UPDATE OF ai;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Assignment item % is not in one of your active assignments', v_item.assignment_item_id;
+    END IF;
+
+    IF v_assignment_item.remaining < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_assignment_item.name,
+        v_assignment_item.remaining,
+        v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(ROUND((elem->>'quantity')::numeric * (elem->>'price')::numeric, 2)), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  INSERT INTO on_demand_orders (
+    sales_rep_id,
+    customer_name,
+    customer_phone,
+    customer_type,
+    existing_customer_id,
+    total_amount,
+    payment_method
+  ) VALUES (
+    v_user_id,
+    v_customer_name,
+    v_customer_phone,
+    p_customer_type,
+    CASE WHEN p_customer_type = 'existing' THEN p_existing_customer_id END,
+    v_total,
+    p_payment_method
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO on_demand_order_items (
+    on_demand_order_id, on_demand_assignment_item_id, product_id, quantity, price, line_total
+  )
+  SELECT
+    v_order.id,
+    ai.id,
+    ai.product_id,
+    (elem->>'quantity')::numeric,
+    (elem->>'price')::numeric,
+    ROUND((elem->>'quantity')::numeric * (elem->>'price')::numeric, 2)
+  FROM jsonb_array_elements(p_items) AS elem
+  JOIN on_demand_assignment_items ai ON ai.id = (elem->>'assignment_item_id')::uuid;
+
+  UPDATE on_demand_assignment_items ai
+  SET sold_quantity = ai.sold_quantity + totals.quantity
+  FROM (
+    SELECT (elem->>'assignment_item_id')::uuid AS assignment_item_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'assignment_item_id')::uuid
+  ) AS totals
+  WHERE ai.id = totals.assignment_item_id;
+
+  RETURN v_order;
+END;
+$$;
+
+-- Expected quantities include transfers, which are also recorded on each line
+CREATE OR REPLACE FUNCTION close_on_demand_assignment(
+  p_assignment_id uuid,
+  p_items jsonb,
+  p_cash_handed_in numeric,
+  p_net_received numeric,
+  p_cash_variance_reason text,
+  p_net_variance_reason text,
+  p_notes text
+)
+RETURNS on_demand_reconciliations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_assignment on_demand_assignments%ROWTYPE;
+  v_reconciliation on_demand_reconciliations%ROWTYPE;
+  v_item record;
+  v_counted record;
+  v_expected numeric;
+  v_expected_cash numeric := 0;
+  v_expected_net numeric := 0;
+  v_cash_reason text := NULLIF(TRIM(p_cash_variance_reason), '');
+  v_net_reason text := NULLIF(TRIM(p_net_variance_reason), '');
+BEGIN
+  IF NOT has_permission('on_demand.assign') THEN
+    RAISE EXCEPTION 'You do not have permission to close assignments';
+  END IF;
+
+  IF p_cash_handed_in IS NULL OR p_cash_handed_in < 0 OR p_net_received IS NULL OR p_net_received < 0 THEN
+    RAISE EXCEPTION 'Collected amounts cannot be negative';
+  END IF;
+
+  SELECT * INTO v_assignment
+  FROM on_demand_assignments
+  WHERE id = p_assignment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', p_assignment_id;
+  END IF;
+
+  IF v_assignment.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active assignments can be reconciled';
+  END IF;
+
+  -- Stock still in transit would be counted on neither van
+  IF EXISTS (
+    SELECT 1
+    FROM on_demand_transfers t
+    LEFT JOIN on_demand_assignment_items ai ON ai.id = t.from_assignment_item_id
+    WHERE t.status = 'pending'
+      AND (ai.on_demand_assignment_id = p_assignment_id OR t.to_rep_id = v_assignment.sales_rep_id)
+  ) THEN
+    RAISE EXCEPTION 'This assignment has pending transfers. Have them accepted, rejected or cancelled first';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(li.line_total) FILTER (WHERE o.payment_method = 'Cash'), 0),
+    COALESCE(SUM(li.line_total) FILTER (WHERE o.payment_method = 'Net'), 0)
+  INTO v_expected_cash, v_expected_net
+  FROM on_demand_order_items li
+  JOIN on_demand_orders o ON o.id = li.on_demand_order_id
+  JOIN on_demand_assignment_items ai ON ai.id = li.on_demand_assignment_item_id
+  WHERE ai.on_demand_assignment_id = p_assignment_id;
+
+  IF p_cash_handed_in <> v_expected_cash AND v_cash_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for the cash variance of %', p_cash_handed_in - v_expected_cash;
+  END IF;
+
+  IF p_net_received <> v_expected_net AND v_net_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for the Net variance of %', p_net_received - v_expected_net;
+  END IF;
+
+  INSERT INTO on_demand_reconciliations (
+    on_demand_assignment_id, expected_cash, expected_net, cash_handed_in, net_received,
+    cash_variance, net_variance, cash_variance_reason, net_variance_reason, notes, reconciled_by
+  ) VALUES (
+    p_assignment_id, v_expected_cash, v_expected_net, p_cash_handed_in, p_net_received,
+    p_cash_handed_in - v_expected_cash, p_net_received - v_expected_net,
+    v_cash_reason, v_net_reason, NULLIF(TRIM(p_notes), ''), v_user_id
+  )
+  RETURNING * INTO v_reconciliation;
+
+  -- Every item on the van must be counted, even if nothing is left of it
+  FOR v_item IN
+    SELECT ai.id, ai.product_id, ai.transferred_in_quantity, ai.transferred_out_quantity, on_demand_remaining_quantity(ai) AS remaining, p.name
+    FROM on_demand_assignment_items ai
+    JOIN products p ON p.id = ai.product_id
+    WHERE ai.on_demand_assignment_id = p_assignment_id
+    ORDER BY ai.id
+    FOR UPDATE OF ai
+  LOOP
+    SELECT
+      (elem->>'counted_quantity')::numeric AS counted_quantity,
+      NULLIF(TRIM(elem->>'variance_reason'), '') AS variance_reason
+    INTO v_counted
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS elem
+    WHERE (elem->>'assignment_item_id')::uuid = v_item.id;
+
+    IF NOT FOUND OR v_counted.counted_quantity IS NULL THEN
+      RAISE EXCEPTION 'Counted quantity for % is missing', v_item.name;
+    END IF;
+
+    IF v_counted.counted_quantity < 0 THEN
+      RAISE EXCEPTION 'Counted quantity for % cannot be negative', v_item.name;
+    END IF;
+
+    v_expected := v_item.remaining;
+
+    IF v_counted.counted_quantity <> v_expected AND v_counted.variance_reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required for the variance of % kg on %',
+        v_counted.counted_quantity - v_expected, v_item.name;
+    END IF;
+
+    INSERT INTO on_demand_reconciliation_items (
+      on_demand_reconciliation_id, on_demand_assignment_item_id, product_id,
+      transferred_in_quantity, transferred_out_quantity,
+      expected_quantity, counted_quantity, variance, variance_reason
+    ) VALUES (
+      v_reconciliation.id, v_item.id, v_item.product_id,
+      v_item.transferred_in_quantity, v_item.transferred_out_quantity,
+      v_expected, v_counted.counted_quantity, v_counted.counted_quantity - v_expected, v_counted.variance_reason
+    );
+
+    -- Only what is physically back goes on the shelf; a shortage stays off stock
+    IF v_counted.counted_quantity > 0 THEN
+      PERFORM record_stock_movement(
+        v_item.product_id,
+        v_counted.counted_quantity,
+        'on_demand_return',
+        'on_demand_assignment_item',
+        v_item.id,
+        NULL,
+        'Reconciliation of on demand assignment'
+      );
+
+      UPDATE on_demand_assignment_items
+      SET returned_quantity = returned_quantity + v_counted.counted_quantity
+      WHERE id = v_item.id;
+    END IF;
+  END LOOP;
+
+  UPDATE on_demand_assignments
+  SET status = 'completed'
+  WHERE id = p_assignment_id;
+
+  RETURN v_reconciliation;
+END;
+$$;
@@ -0,0 +1,272 @@
+/*
+  # Approval of Sales Rep Stock Requests
+
+  A sales rep's product request created an active assignment and took the stock out of
+  inventory straight away, with nobody signing it off. Requests now wait in a `requested`
+  state with no stock taken; someone with on_demand.assign approves them, possibly with
+  changed quantities, or rejects them. Stock is only taken out on approval, and the rep sees
+  the outcome in their inventory until they dismiss it.
+
+  1. Modified Tables
+    - `on_demand_assignments`
+      - `status` also allows 'requested' and 'rejected'
+      - `reviewed_by` (uuid, references users), `reviewed_at` (timestamptz)
+      - `review_notes` (text) - Reason for a rejection or for changed quantities
+      - `outcome_seen_at` (timestamptz) - When the rep dismissed the outcome
+    - `on_demand_assignment_items`
+      - `requested_quantity` (numeric) - What the rep asked for; `assigned_quantity` is what
+        was approved. Null on assignments made by an admin
+
+  2. New Functions
+    - `request_on_demand_stock(p_items, p_vehicle_number, p_notes)` - Creates the request
+    - `approve_on_demand_request(p_assignment_id, p_items, p_review_notes)` - Sets the approved
+      quantities, drops items approved at 0 and takes the stock out of inventory
+    - `reject_on_demand_request(p_assignment_id, p_review_notes)` - A reason is required
+    - `dismiss_on_demand_request_outcome(p_assignment_id)` - The rep has seen the outcome
+    All four are SECURITY DEFINER because reps cannot write assignments; each checks who may
+    call it
+*/
+
+ALTER TABLE on_demand_assignments DROP CONSTRAINT IF EXISTS on_demand_assignments_status_check;
+ALTER TABLE on_demand_assignments
+  ADD CONSTRAINT on_demand_assignments_status_check
+  CHECK (status IN ('requested', 'active', 'completed', 'cancelled', 'rejected'));
+
+ALTER TABLE on_demand_assignments
+  ADD COLUMN IF NOT EXISTS reviewed_by uuid REFERENCES users(id),
+  ADD COLUMN IF NOT EXISTS reviewed_at timestamptz,
+  ADD COLUMN IF NOT EXISTS review_notes text,
+  ADD COLUMN IF NOT EXISTS outcome_seen_at timestamptz;
+
+ALTER TABLE on_demand_assignment_items
+  ADD COLUMN IF NOT EXISTS requested_quantity numeric(10,2) CHECK (requested_quantity > 0);
+
+CREATE INDEX IF NOT EXISTS idx_on_demand_assignments_requested
+  ON on_demand_assignments(created_at) WHERE status = 'requested';
+
+CREATE OR REPLACE FUNCTION request_on_demand_stock(
+  p_items jsonb,
+  p_vehicle_number text,
+  p_notes text
+)
+RETURNS on_demand_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_assignment on_demand_assignments%ROWTYPE;
+  v_item record;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT has_permission('on_demand.sell') THEN
+    RAISE EXCEPTION 'You do not have permission to request on demand stock';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Request must contain at least one product';
+  END IF;
+
+  INSERT INTO on_demand_assignments (
+    sales_rep_id, assigned_by, assignment_date, notes, vehicle_number, assignment_type, status
+  ) VALUES (
+    v_user_id, v_user_id, CURRENT_DATE,
+    COALESCE(NULLIF(TRIM(p_notes), ''), 'Self-requested by sales rep'),
+    NULLIF(TRIM(p_vehicle_number), ''), 'sales_rep_requested', 'requested'
+  )
+  RETURNING * INTO v_assignment;
+
+  FOR v_item IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM products WHERE id = v_item.product_id) THEN
+      RAISE EXCEPTION 'Product % not found', v_item.product_id;
+    END IF;
+
+    INSERT INTO on_demand_assignment_items (
+      on_demand_assignment_id, product_id, assigned_quantity, requested_quantity
+    ) VALUES (
+      v_assignment.id, v_item.product_id, v_item.quantity, v_item.quantity
+    );
+  END LOOP;
+
+  RETURN v_assignment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION approve_on_demand_request(
+  p_assignment_id uuid,
+  p_items jsonb,
+  p_review_notes text
+)
+RETURNS on_demand_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignment on_demand_assignments%ROWTYPE;
+  v_item record;
+BEGIN
+  IF NOT has_permission('on_demand.assign') OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'You do not have permission to approve stock requests';
+  END IF;
+
+  SELECT * INTO v_assignment
+  FROM on_demand_assignments
+  WHERE id = p_assignment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request % not found', p_assignment_id;
+  END IF;
+
+  IF v_assignment.status <> 'requested' THEN
+    RAISE EXCEPTION 'This request was already %', v_assignment.status;
+  END IF;
+
+  -- Items left out of p_items keep the requested quantity
+  FOR v_item IN
+    SELECT
+      (elem->>'assignment_item_id')::uuid AS assignment_item_id,
+      (elem->>'quantity')::numeric AS quantity
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS elem
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity < 0 THEN
+      RAISE EXCEPTION 'Approved quantity cannot be negative';
+    END IF;
+
+    IF v_item.quantity = 0 THEN
+      DELETE FROM on_demand_assignment_items
+      WHERE id = v_item.assignment_item_id
+        AND on_demand_assignment_id = p_assignment_id;
+    ELSE
+      UPDATE on_demand_assignment_items
+      SET assigned_quantity = v_item.quantity
+      WHERE id = v_item.assignment_item_id
+        AND on_demand_assignment_id = p_assignment_id;
+    END IF;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Assignment item % is not part of this request', v_item.assignment_item_id;
+    END IF;
+  END LOOP;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM on_demand_assignment_items WHERE on_demand_assignment_id = p_assignment_id
+  ) THEN
+    RAISE EXCEPTION 'Approve at least one product, or reject the request';
+  END IF;
+
+  -- Stock is only taken out now; record_stock_movement refuses more than is on hand
+  FOR v_item IN
+    SELECT id, product_id, assigned_quantity
+    FROM on_demand_assignment_items
+    WHERE on_demand_assignment_id = p_assignment_id
+    ORDER BY product_id
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id,
+      -v_item.assigned_quantity,
+      'on_demand_issue',
+      'on_demand_assignment_item',
+      v_item.id,
+      NULL,
+      'Approved sales rep request'
+    );
+  END LOOP;
+
+  UPDATE on_demand_assignments
+  SET status = 'active',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_notes = NULLIF(TRIM(p_review_notes), '')
+  WHERE id = p_assignment_id
+  RETURNING * INTO v_assignment;
+
+  RETURN v_assignment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION reject_on_demand_request(
+  p_assignment_id uuid,
+  p_review_notes text
+)
+RETURNS on_demand_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignment on_demand_assignments%ROWTYPE;
+BEGIN
+  IF NOT has_permission('on_demand.assign') OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'You do not have permission to reject stock requests';
+  END IF;
+
+  IF NULLIF(TRIM(p_review_notes), '') IS NULL THEN
+    RAISE EXCEPTION 'Give a reason for rejecting the request';
+  END IF;
+
+  SELECT * INTO v_assignment
+  FROM on_demand_assignments
+  WHERE id = p_assignment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request % not found', p_assignment_id;
+  END IF;
+
+  IF v_assignment.status <> 'requested' THEN
+    RAISE EXCEPTION 'This request was already %', v_assignment.status;
+  END IF;
+
+  UPDATE on_demand_assignments
+  SET status = 'rejected',
+      reviewed_by = auth.uid(),
+      reviewed_at = now(),
+      review_notes = TRIM(p_review_notes)
+  WHERE id = p_assignment_id
+  RETURNING * INTO v_assignment;
+
+  RETURN v_assignment;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION dismiss_on_demand_request_outcome(p_assignment_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE on_demand_assignments
+  SET outcome_seen_at = now()
+  WHERE id = p_assignment_id
+    AND sales_rep_id = auth.uid()
+    AND assignment_type = 'sales_rep_requested'
+    AND reviewed_at IS NOT NULL
+    AND is_active_user();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request % not found', p_assignment_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION request_on_demand_stock(jsonb, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_on_demand_request(uuid, jsonb, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION reject_on_demand_request(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION dismiss_on_demand_request_outcome(uuid) TO authenticated;
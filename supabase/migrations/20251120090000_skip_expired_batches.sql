@@ -0,0 +1,81 @@
+/*
+  # Do Not Issue Expired Batches
+
+  FEFO ordered batches by expiry date but never skipped expired ones, so the oldest, already
+  expired stock was the first to be sold or put on a van.
+
+  1. Modified Functions
+    - `consume_product_batches` - Sales and on demand issues skip batches whose expiry date is
+      before today (Sri Lanka time) and are refused when the stock left after the issue would
+      not cover the expired batches, i.e. when the issue could only be met from expired stock.
+      Adjustments still draw expired batches first, so expired stock can be written off
+*/
+
+CREATE OR REPLACE FUNCTION consume_product_batches(
+  p_movement_id uuid,
+  p_product_id uuid,
+  p_quantity numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Colombo')::date;
+  v_remaining numeric := p_quantity;
+  v_take numeric;
+  v_batch record;
+  v_is_issue boolean;
+  v_expired numeric;
+  v_product record;
+BEGIN
+  SELECT movement_type IN ('sale', 'on_demand_issue') INTO v_is_issue
+  FROM stock_movements
+  WHERE id = p_movement_id;
+
+  FOR v_batch IN
+    SELECT id, quantity
+    FROM product_batches
+    WHERE product_id = p_product_id
+      AND quantity > 0
+      AND NOT (COALESCE(v_is_issue, false) AND expiry_date < v_today)
+    ORDER BY expiry_date ASC NULLS LAST, created_at ASC
+    FOR UPDATE
+  LOOP
+    EXIT WHEN v_remaining <= 0;
+
+    v_take := LEAST(v_batch.quantity, v_remaining);
+
+    UPDATE product_batches
+    SET quantity = quantity - v_take
+    WHERE id = v_batch.id;
+
+    INSERT INTO stock_movement_batches (stock_movement_id, batch_id, quantity)
+    VALUES (p_movement_id, v_batch.id, -v_take);
+
+    v_remaining := v_remaining - v_take;
+  END LOOP;
+
+  -- Whatever was not drawn from a batch came from unbatched stock. That is only real stock if
+  -- the product still holds at least the expired quantity afterwards.
+  IF COALESCE(v_is_issue, false) THEN
+    SELECT COALESCE(SUM(quantity), 0) INTO v_expired
+    FROM product_batches
+    WHERE product_id = p_product_id
+      AND quantity > 0
+      AND expiry_date < v_today;
+
+    SELECT name, quantity INTO v_product
+    FROM products
+    WHERE id = p_product_id;
+
+    IF v_product.quantity < v_expired THEN
+      RAISE EXCEPTION 'Insufficient unexpired stock for %: % kg of the stock on hand has expired',
+        v_product.name, v_expired;
+    END IF;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_product_batches(uuid, uuid, numeric) FROM PUBLIC;
@@ -0,0 +1,60 @@
+/*
+  # Apply Scheduled Price Changes on the Sri Lanka Date
+
+  `apply_due_price_changes` compared effective dates with CURRENT_DATE, which is the UTC date,
+  and the nightly job ran at 00:05 UTC. Price changes therefore took effect 5.5 hours after
+  midnight in Sri Lanka.
+
+  1. Modified Functions
+    - `apply_due_price_changes` - Due changes are those effective on or before today in
+      Asia/Colombo
+
+  2. Scheduling
+    - The nightly job runs at 00:05 Asia/Colombo (18:35 UTC); scheduling under the same name
+      replaces the old 00:05 UTC job
+*/
+
+CREATE OR REPLACE FUNCTION apply_due_price_changes()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Colombo')::date;
+  v_change scheduled_price_changes%ROWTYPE;
+  v_applied integer := 0;
+BEGIN
+  FOR v_change IN
+    SELECT *
+    FROM scheduled_price_changes
+    WHERE status = 'pending'
+      AND effective_date <= v_today
+    ORDER BY effective_date ASC, created_at ASC
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE products
+    SET
+      price_dealer_cash = COALESCE(v_change.price_dealer_cash, price_dealer_cash),
+      price_dealer_credit = COALESCE(v_change.price_dealer_credit, price_dealer_credit),
+      price_hotel_cash = COALESCE(v_change.price_hotel_cash, price_hotel_cash),
+      price_hotel_credit = COALESCE(v_change.price_hotel_credit, price_hotel_credit)
+    WHERE id = v_change.product_id;
+
+    UPDATE scheduled_price_changes
+    SET status = 'applied', applied_at = now()
+    WHERE id = v_change.id;
+
+    v_applied := v_applied + 1;
+  END LOOP;
+
+  RETURN v_applied;
+END;
+$$;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule('apply-due-price-changes', '35 18 * * *', 'SELECT apply_due_price_changes()');
+  END IF;
+END $$;
@@ -0,0 +1,22 @@
+/*
+  # Off Hours Security Bypass From Loaded Orders
+
+  The workflow seed only allowed the off-hours bypass from 'Security Check Incomplete', but
+  Sales Orders offers it on orders that are waiting for their first check or were reloaded.
+  The transition trigger rejected those moves, so the bypass could not be used outside
+  working hours.
+
+  1. Seed Data
+    - `order_status_transitions`
+      - 'Products Loaded' -> 'Security Check Bypassed Due to Off Hours'
+      - 'Product Reloaded' -> 'Security Check Bypassed Due to Off Hours'
+      Both require orders.transition.security and mark the security check as bypassed
+*/
+
+INSERT INTO order_status_transitions (from_status, to_status, permission, security_check_status, stamps_completion)
+VALUES
+  ('Products Loaded', 'Security Check Bypassed Due to Off Hours', 'orders.transition.security', 'bypassed', false),
+  ('Product Reloaded', 'Security Check Bypassed Due to Off Hours', 'orders.transition.security', 'bypassed', false)
+ON CONFLICT (from_status, to_status) DO UPDATE
+SET permission = EXCLUDED.permission,
+    security_check_status = EXCLUDED.security_check_status;
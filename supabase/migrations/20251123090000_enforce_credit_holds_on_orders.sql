@@ -0,0 +1,241 @@
+/*
+  # Enforce Credit Holds When Orders Are Created
+
+  The credit hold was only checked in the browser, and the override was marked as used in a
+  separate call after the order had been created, with its failure ignored. An order could be
+  placed for a customer on hold without any override, and an override could be used twice.
+
+  1. New Functions
+    - `customer_credit_hold_reasons(p_customer_id)` - Why the customer is on credit hold given
+      everything they currently owe and have on order, or NULL when they are not. Mirrors
+      `evaluateCreditCheck` in the app. Internal; not callable by clients
+
+  2. Modified Functions
+    - `create_sales_order` - After inserting the order, a customer on hold must have a valid
+      unused override, which is marked as used by the order in the same transaction; otherwise
+      nothing is written. The function is now SECURITY DEFINER so the hold sees every order the
+      customer has, not only those the caller can read, and checks orders.create itself as the
+      orders insert policy did
+    - `use_credit_override` - Uses the Sri Lanka date for validity and is no longer callable by
+      clients; only `create_sales_order` consumes overrides
+*/
+
+CREATE OR REPLACE FUNCTION customer_credit_hold_reasons(p_customer_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status customer_credit_status%ROWTYPE;
+  v_exposure numeric;
+  v_reasons text[] := '{}';
+BEGIN
+  SELECT * INTO v_status
+  FROM customer_credit_status
+  WHERE customer_id = p_customer_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  v_exposure := v_status.outstanding_amount + v_status.undelivered_amount;
+
+  IF v_status.credit_limit IS NOT NULL AND v_exposure > v_status.credit_limit THEN
+    v_reasons := v_reasons || format(
+      'Outstanding plus this order (Rs %s) exceeds the credit limit of Rs %s',
+      to_char(v_exposure, 'FM999999999990.00'), to_char(v_status.credit_limit, 'FM999999999990.00')
+    );
+  END IF;
+
+  IF v_status.overdue_amount > 0 THEN
+    v_reasons := v_reasons || format(
+      'Rs %s is overdue past the %s-day payment terms',
+      to_char(v_status.overdue_amount, 'FM999999999990.00'), v_status.payment_terms_days
+    );
+  END IF;
+
+  IF array_length(v_reasons, 1) IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN array_to_string(v_reasons, '; ');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION customer_credit_hold_reasons(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION use_credit_override(p_customer_id uuid, p_order_id uuid)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_override_id uuid;
+BEGIN
+  SELECT id INTO v_override_id
+  FROM credit_overrides
+  WHERE customer_id = p_customer_id
+  AND used_order_id IS NULL
+  AND valid_until >= (now() AT TIME ZONE 'Asia/Colombo')::date
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF v_override_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE credit_overrides
+  SET used_order_id = p_order_id, used_by = auth.uid(), used_at = now()
+  WHERE id = v_override_id;
+
+  RETURN v_override_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION use_credit_override(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION create_sales_order(
+  p_customer_id uuid,
+  p_assigned_to uuid,
+  p_items jsonb,
+  p_vehicle_number text DEFAULT NULL,
+  p_delivery_date date DEFAULT NULL,
+  p_purchase_order_id text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_vat_rate numeric := 0;
+  v_subtotal numeric := 0;
+  v_vat_amount numeric := 0;
+  v_is_vat_applicable boolean := false;
+  v_order orders%ROWTYPE;
+  v_item record;
+  v_product record;
+  v_hold_reasons text;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT has_permission('orders.create') THEN
+    RAISE EXCEPTION 'You do not have permission to create orders';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Locked so two orders for the same customer cannot both slip under the limit
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  -- Lock product rows and validate stock before writing anything
+  FOR v_item IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+
+    SELECT id, name, quantity INTO v_product
+    FROM products
+    WHERE id = v_item.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item.product_id;
+    END IF;
+
+    IF v_product.quantity < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_product.name, v_product.quantity, v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(
+    (elem->>'quantity')::numeric * (elem->>'price')::numeric
+    - COALESCE((elem->>'discount')::numeric, 0)
+  ), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  v_is_vat_applicable := v_customer.vat_status = 'VAT';
+  IF v_is_vat_applicable THEN
+    SELECT COALESCE(vat_rate, 0) INTO v_vat_rate FROM system_settings LIMIT 1;
+    v_vat_amount := ROUND(v_subtotal * COALESCE(v_vat_rate, 0), 2);
+  END IF;
+
+  INSERT INTO orders (
+    customer_id,
+    status,
+    purchase_order_id,
+    created_by,
+    assigned_to,
+    vehicle_number,
+    delivery_date,
+    total_amount,
+    vat_amount,
+    is_vat_applicable
+  ) VALUES (
+    p_customer_id,
+    'Assigned',
+    NULLIF(TRIM(p_purchase_order_id), ''),
+    v_user_id,
+    p_assigned_to,
+    NULLIF(TRIM(p_vehicle_number), ''),
+    COALESCE(p_delivery_date, CURRENT_DATE),
+    v_subtotal + v_vat_amount,
+    v_vat_amount,
+    v_is_vat_applicable
+  )
+  RETURNING * INTO v_order;
+
+  -- The new order now counts as undelivered, so the hold includes it
+  v_hold_reasons := customer_credit_hold_reasons(p_customer_id);
+  IF v_hold_reasons IS NOT NULL AND use_credit_override(p_customer_id, v_order.id) IS NULL THEN
+    RAISE EXCEPTION 'This customer is on credit hold (%). A Finance Admin must approve an override in Receivables before this order can be placed.',
+      v_hold_reasons;
+  END IF;
+
+  INSERT INTO order_items (order_id, item_id, quantity, price, discount)
+  SELECT
+    v_order.id,
+    (elem->>'product_id')::uuid,
+    (elem->>'quantity')::numeric,
+    (elem->>'price')::numeric,
+    COALESCE((elem->>'discount')::numeric, 0)
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  FOR v_item IN
+    SELECT (elem->>'product_id')::uuid AS product_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id, -v_item.quantity, 'sale', 'order', v_order.id, v_order.order_display_id, NULL
+    );
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_sales_order(uuid, uuid, jsonb, text, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_sales_order(uuid, uuid, jsonb, text, date, text) TO authenticated;
@@ -0,0 +1,170 @@
+/*
+  # Restrict Order Returns
+
+  `process_order_return` is SECURITY DEFINER but checked neither who called it nor the state of
+  the order, so any signed-in user could raise credit notes and put stock back, on any order,
+  including ones that had not been delivered. Returns were only offered to sales reps in the app.
+
+  1. New Permissions
+    - `orders.returns` - Take customer returns and issue credit notes; granted to Super Admin
+      and Sales Rep
+
+  2. Modified Functions
+    - `process_order_return` - Requires an active user with orders.returns, an order that is
+      Delivered or Completed, and either an order assigned to the caller or orders.view_all
+*/
+
+INSERT INTO permissions (key, category, description)
+VALUES ('orders.returns', 'Sales Orders', 'Take customer returns and issue credit notes')
+ON CONFLICT (key) DO NOTHING;
+
+INSERT INTO role_permissions (role, permission)
+VALUES
+  ('Super Admin', 'orders.returns'),
+  ('Sales Rep', 'orders.returns')
+ON CONFLICT DO NOTHING;
+
+CREATE OR REPLACE FUNCTION process_order_return(
+  p_order_item_id uuid,
+  p_quantity numeric,
+  p_reason text,
+  p_quarantine boolean DEFAULT false
+)
+RETURNS credit_notes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_item record;
+  v_order orders%ROWTYPE;
+  v_return_id uuid;
+  v_vat_rate numeric := 0;
+  v_subtotal numeric;
+  v_vat_amount numeric;
+  v_number bigint;
+  v_credit_note credit_notes%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT has_permission('orders.returns') THEN
+    RAISE EXCEPTION 'You do not have permission to take returns';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Return quantity must be greater than 0';
+  END IF;
+
+  IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+    RAISE EXCEPTION 'Please provide a reason for the return';
+  END IF;
+
+  SELECT oi.*, p.name AS product_name INTO v_item
+  FROM order_items oi
+  JOIN products p ON p.id = oi.item_id
+  WHERE oi.id = p_order_item_id
+  FOR UPDATE OF oi;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Order item % not found', p_order_item_id;
+  END IF;
+
+  IF p_quantity > v_item.quantity - COALESCE(v_item.returned_quantity, 0) THEN
+    RAISE EXCEPTION 'Cannot return %. Only % available to return.',
+      p_quantity, v_item.quantity - COALESCE(v_item.returned_quantity, 0);
+  END IF;
+
+  SELECT * INTO v_order FROM orders WHERE id = v_item.order_id FOR UPDATE;
+
+  -- Goods can only come back once the customer has them
+  IF v_order.status NOT IN ('Delivered', 'Completed') THEN
+    RAISE EXCEPTION 'Returns can only be taken on delivered or completed orders; this order is %', v_order.status;
+  END IF;
+
+  IF v_order.assigned_to IS DISTINCT FROM v_user_id AND NOT has_permission('orders.view_all') THEN
+    RAISE EXCEPTION 'You can only take returns on your own orders';
+  END IF;
+
+  UPDATE order_items
+  SET returned_quantity = COALESCE(returned_quantity, 0) + p_quantity
+  WHERE id = p_order_item_id;
+
+  INSERT INTO order_returns (
+    order_item_id, returned_quantity, return_reason, returned_by, returned_at, sales_rep_id
+  ) VALUES (
+    p_order_item_id, p_quantity, TRIM(p_reason), v_user_id, now(), v_user_id
+  )
+  RETURNING id INTO v_return_id;
+
+  IF v_order.is_vat_applicable THEN
+    v_vat_rate := COALESCE(
+      v_order.vat_rate,
+      CASE WHEN v_order.total_amount > v_order.vat_amount
+        THEN ROUND(v_order.vat_amount / (v_order.total_amount - v_order.vat_amount), 4)
+        ELSE 0
+      END
+    );
+  END IF;
+
+  -- Credit the returned share of the line, including its share of any line discount
+  v_subtotal := ROUND(
+    p_quantity * v_item.price - COALESCE(v_item.discount, 0) * p_quantity / v_item.quantity,
+    2
+  );
+  v_vat_amount := ROUND(v_subtotal * v_vat_rate, 2);
+
+  UPDATE credit_note_sequence
+  SET last_number = last_number + 1
+  WHERE id = 1
+  RETURNING last_number INTO v_number;
+
+  INSERT INTO credit_notes (
+    credit_note_no, order_id, order_item_id, order_return_id, customer_id, tax_invoice_id,
+    product_name, quantity, unit_price, subtotal, vat_rate, vat_amount, total_amount,
+    reason, disposition, issued_by
+  ) VALUES (
+    'CN' || LPAD(v_number::text, 6, '0'),
+    v_order.id,
+    p_order_item_id,
+    v_return_id,
+    v_order.customer_id,
+    (SELECT id FROM tax_invoices WHERE order_id = v_order.id),
+    v_item.product_name,
+    p_quantity,
+    v_item.price,
+    v_subtotal,
+    v_vat_rate,
+    v_vat_amount,
+    v_subtotal + v_vat_amount,
+    TRIM(p_reason),
+    CASE WHEN p_quarantine THEN 'quarantine' ELSE 'restock' END,
+    v_user_id
+  )
+  RETURNING * INTO v_credit_note;
+
+  IF p_quarantine THEN
+    INSERT INTO quarantined_stock (product_id, quantity, credit_note_id, reason, created_by)
+    VALUES (v_item.item_id, p_quantity, v_credit_note.id, TRIM(p_reason), v_user_id);
+  ELSE
+    PERFORM record_stock_movement(
+      v_item.item_id, p_quantity, 'return', 'order_return', v_return_id, v_order.order_display_id, TRIM(p_reason)
+    );
+  END IF;
+
+  -- A credit that clears what is left on the order settles it
+  IF EXISTS (
+    SELECT 1 FROM customer_order_balances
+    WHERE order_id = v_order.id AND outstanding_amount = 0
+  ) THEN
+    UPDATE orders SET payment_status = 'fully_paid' WHERE id = v_order.id;
+  END IF;
+
+  RETURN v_credit_note;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION process_order_return(uuid, numeric, text, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_order_return(uuid, numeric, text, boolean) TO authenticated;
@@ -0,0 +1,194 @@
+/*
+  # Identify the Statement Scheduler Explicitly
+
+  `queue_customer_statement` and `queue_monthly_statements` treated a call without a user
+  (auth.uid() IS NULL) as the scheduler and skipped the permission check, while both were still
+  executable by PUBLIC. An anonymous API call could therefore queue statement emails, and with
+  p_force re-send them to every customer.
+
+  1. New Functions
+    - `is_statement_scheduler()` - True only for the pg_cron job, which connects as postgres, or
+      a caller using the service role key. Not callable by clients
+
+  2. Modified Functions
+    - `queue_customer_statement`, `queue_monthly_statements` - Everyone except the scheduler
+      needs receivables.manage; has_permission is false without a signed-in user
+
+  3. Security
+    - EXECUTE on both is revoked from PUBLIC and anon, and granted to authenticated and
+      service_role
+*/
+
+CREATE OR REPLACE FUNCTION is_statement_scheduler()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  -- session_user is the role that connected, unlike current_user inside SECURITY DEFINER
+  SELECT session_user = 'postgres' OR COALESCE(auth.role() = 'service_role', false);
+$$;
+
+REVOKE EXECUTE ON FUNCTION is_statement_scheduler() FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION queue_customer_statement(
+  p_customer_id uuid,
+  p_period_start date,
+  p_period_end date,
+  p_force boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_existing customer_statements%ROWTYPE;
+  v_statement jsonb;
+  v_metadata jsonb;
+  v_email_log_id uuid;
+BEGIN
+  IF NOT is_statement_scheduler() AND NOT has_permission('receivables.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to send statements';
+  END IF;
+
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  IF NULLIF(TRIM(v_customer.email), '') IS NULL THEN
+    RAISE EXCEPTION 'Customer % has no email address', v_customer.name;
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM customer_statements
+  WHERE customer_id = p_customer_id
+    AND period_start = p_period_start
+    AND period_end = p_period_end
+  FOR UPDATE;
+
+  IF FOUND AND NOT p_force THEN
+    RETURN v_existing.email_log_id;
+  END IF;
+
+  v_statement := customer_statement(p_customer_id, p_period_start, p_period_end);
+
+  -- Variables for the 'statement' email template
+  v_metadata := jsonb_build_object(
+    'customerName', v_customer.name,
+    'customerDisplayId', v_customer.customer_display_id,
+    'periodStart', to_char(p_period_start, 'DD/MM/YYYY'),
+    'periodEnd', to_char(p_period_end, 'DD/MM/YYYY'),
+    'openingBalance', v_statement->'opening_balance',
+    'invoicesTotal', v_statement->'invoices_total',
+    'paymentsTotal', v_statement->'payments_total',
+    'returnsTotal', v_statement->'returns_total',
+    'closingBalance', v_statement->'closing_balance',
+    'entries', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object(
+        'date', to_char((entry->>'entry_date')::timestamptz AT TIME ZONE 'Asia/Colombo', 'DD/MM/YYYY'),
+        'description', CASE entry->>'entry_type'
+          WHEN 'invoice' THEN 'Invoice'
+          WHEN 'payment' THEN 'Payment'
+          ELSE 'Return (credit note)'
+        END,
+        'reference', entry->>'reference',
+        'debit', (entry->>'debit')::numeric,
+        'credit', (entry->>'credit')::numeric,
+        'balance', (entry->>'balance')::numeric
+      ) ORDER BY ordinality)
+      FROM jsonb_array_elements(v_statement->'entries') WITH ORDINALITY AS entries(entry, ordinality)
+    ), '[]'::jsonb)
+  );
+
+  INSERT INTO email_logs (recipient_email, recipient_name, email_type, subject, status, metadata)
+  VALUES (
+    TRIM(v_customer.email),
+    v_customer.name,
+    'statement',
+    'Statement of account ' || to_char(p_period_start, 'DD/MM/YYYY') || ' - ' || to_char(p_period_end, 'DD/MM/YYYY'),
+    'pending',
+    v_metadata
+  )
+  RETURNING id INTO v_email_log_id;
+
+  INSERT INTO customer_statements (
+    customer_id, period_start, period_end, opening_balance, invoices_total, payments_total,
+    returns_total, closing_balance, email_log_id, generated_at, generated_by
+  )
+  VALUES (
+    p_customer_id, p_period_start, p_period_end,
+    (v_statement->>'opening_balance')::numeric,
+    (v_statement->>'invoices_total')::numeric,
+    (v_statement->>'payments_total')::numeric,
+    (v_statement->>'returns_total')::numeric,
+    (v_statement->>'closing_balance')::numeric,
+    v_email_log_id, now(), v_user_id
+  )
+  ON CONFLICT (customer_id, period_start, period_end) DO UPDATE
+  SET opening_balance = EXCLUDED.opening_balance,
+      invoices_total = EXCLUDED.invoices_total,
+      payments_total = EXCLUDED.payments_total,
+      returns_total = EXCLUDED.returns_total,
+      closing_balance = EXCLUDED.closing_balance,
+      email_log_id = EXCLUDED.email_log_id,
+      generated_at = EXCLUDED.generated_at,
+      generated_by = EXCLUDED.generated_by;
+
+  RETURN v_email_log_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION queue_monthly_statements(
+  p_period_start date DEFAULT NULL,
+  p_period_end date DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_today date := (now() AT TIME ZONE 'Asia/Colombo')::date;
+  v_start date := COALESCE(p_period_start, (date_trunc('month', v_today) - interval '1 month')::date);
+  v_end date := COALESCE(p_period_end, (date_trunc('month', v_start) + interval '1 month - 1 day')::date);
+  v_customer_id uuid;
+  v_queued integer := 0;
+BEGIN
+  IF NOT is_statement_scheduler() AND NOT has_permission('receivables.manage') THEN
+    RAISE EXCEPTION 'You do not have permission to send statements';
+  END IF;
+
+  FOR v_customer_id IN
+    SELECT c.id
+    FROM customers c
+    WHERE NULLIF(TRIM(c.email), '') IS NOT NULL
+      AND EXISTS (
+        SELECT 1 FROM customer_ledger_entries l
+        WHERE l.customer_id = c.id
+          AND l.entry_date >= v_start::timestamp AT TIME ZONE 'Asia/Colombo'
+          AND l.entry_date < (v_end + 1)::timestamp AT TIME ZONE 'Asia/Colombo'
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM customer_statements s
+        WHERE s.customer_id = c.id
+          AND s.period_start = v_start
+          AND s.period_end = v_end
+      )
+    ORDER BY c.name
+  LOOP
+    PERFORM queue_customer_statement(v_customer_id, v_start, v_end);
+    v_queued := v_queued + 1;
+  END LOOP;
+
+  RETURN v_queued;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION queue_customer_statement(uuid, date, date, boolean) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION queue_monthly_statements(date, date) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION queue_customer_statement(uuid, date, date, boolean) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION queue_monthly_statements(date, date) TO authenticated, service_role;
@@ -0,0 +1,166 @@
+/*
+  # Enforce Device Binding on the Server
+
+  Device binding was only enforced by the app signing itself out when `record_login_attempt`
+  refused the device. A session from calling the auth API directly, or one restored later, kept
+  full access. Sessions of device-bound users now only get data once `record_login_attempt` has
+  accepted them from an approved device.
+
+  1. New Tables
+    - `user_device_sessions` - Sessions accepted by `record_login_attempt`
+      - `session_id` (uuid, primary key) - The `session_id` claim of the session's JWT; it is
+        kept when the token is refreshed
+      - `user_id` (uuid, references users)
+      - `device_id` (text) - Device the session logged in from
+      - `created_at` (timestamptz)
+
+  2. Modified Functions
+    - `is_active_user()` - Also false for a device-bound user whose current session was not
+      accepted from a device that is still approved. Every table's "Deactivated users have no
+      access" policy and the RPCs that check it therefore refuse such sessions, and revoking a
+      device cuts off its sessions straight away
+    - `record_login_attempt(...)` - Records the session when a sign-in stands, and refuses a
+      device-bound sign-in that has no session id
+
+  3. Security
+    - Enable RLS on `user_device_sessions`; it is only written by `record_login_attempt`
+*/
+
+CREATE TABLE IF NOT EXISTS user_device_sessions (
+  session_id uuid PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  device_id text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_device_sessions_user ON user_device_sessions(user_id);
+
+ALTER TABLE user_device_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deactivated users have no access"
+  ON user_device_sessions
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE OR REPLACE FUNCTION is_active_user()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM users u
+    WHERE u.id = auth.uid()
+      AND (
+        NOT u.active
+        OR (
+          u.device_binding
+          AND NOT EXISTS (
+            SELECT 1
+            FROM user_device_sessions s
+            JOIN user_devices d ON d.user_id = s.user_id AND d.device_id = s.device_id
+            WHERE s.session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+              AND s.user_id = u.id
+              AND d.status = 'approved'
+          )
+        )
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION record_login_attempt(
+  p_username text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL,
+  p_device_id text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_device user_devices%ROWTYPE;
+  v_device_id text := left(NULLIF(TRIM(p_device_id), ''), 200);
+  v_user_agent text := left(NULLIF(TRIM(p_user_agent), ''), 500);
+  v_failure_reason text := NULLIF(TRIM(p_failure_reason), '');
+  v_session_id uuid := NULLIF(auth.jwt() ->> 'session_id', '')::uuid;
+BEGIN
+  -- A successful attempt is attributed to the session; a failed one to the username typed
+  IF p_succeeded THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'A successful login must be recorded from the new session';
+    END IF;
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+    v_failure_reason := NULL;
+  ELSE
+    SELECT * INTO v_user FROM users WHERE username = TRIM(p_username);
+    v_failure_reason := COALESCE(v_failure_reason, 'Login failed');
+  END IF;
+
+  IF p_succeeded AND v_user.id IS NOT NULL THEN
+    IF NOT v_user.active THEN
+      v_failure_reason := 'Account deactivated';
+    ELSIF v_user.device_binding THEN
+      IF v_device_id IS NULL OR v_session_id IS NULL THEN
+        v_failure_reason := 'Device could not be identified';
+      ELSE
+        SELECT * INTO v_device
+        FROM user_devices
+        WHERE user_id = v_user.id
+          AND device_id = v_device_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          -- The first device is registered straight away; any later one waits for an admin
+          IF NOT EXISTS (SELECT 1 FROM user_devices WHERE user_id = v_user.id AND status = 'approved') THEN
+            INSERT INTO user_devices (user_id, device_id, status, user_agent, approved_at)
+            VALUES (v_user.id, v_device_id, 'approved', v_user_agent, now());
+
+            UPDATE users SET device_id = v_device_id WHERE id = v_user.id AND device_id IS NULL;
+          ELSE
+            INSERT INTO user_devices (user_id, device_id, status, user_agent)
+            VALUES (v_user.id, v_device_id, 'pending', v_user_agent);
+            v_failure_reason := 'Device is waiting for admin approval';
+          END IF;
+        ELSE
+          UPDATE user_devices
+          SET last_seen_at = now(), user_agent = COALESCE(v_user_agent, user_agent)
+          WHERE id = v_device.id;
+
+          IF v_device.status = 'pending' THEN
+            v_failure_reason := 'Device is waiting for admin approval';
+          ELSIF v_device.status = 'revoked' THEN
+            v_failure_reason := 'Device has been revoked';
+          END IF;
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  -- is_active_user() only lets a device-bound user's session through once it is recorded here
+  IF p_succeeded AND v_user.id IS NOT NULL AND v_failure_reason IS NULL AND v_session_id IS NOT NULL THEN
+    INSERT INTO user_device_sessions (session_id, user_id, device_id)
+    VALUES (v_session_id, v_user.id, v_device_id)
+    ON CONFLICT (session_id) DO NOTHING;
+  END IF;
+
+  INSERT INTO login_audit (user_id, username, succeeded, failure_reason, device_id, user_agent)
+  VALUES (
+    v_user.id,
+    left(COALESCE(v_user.username, TRIM(p_username), ''), 100),
+    v_failure_reason IS NULL,
+    left(v_failure_reason, 500),
+    v_device_id,
+    v_user_agent
+  );
+
+  RETURN v_failure_reason;
+END;
+$$;
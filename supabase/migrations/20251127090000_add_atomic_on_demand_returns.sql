@@ -0,0 +1,327 @@
+/*
+  # Atomic On Demand Returns and Cancellations
+
+  The transfers migration dropped the quantity checks on van stock, while reps still wrote
+  `returned_quantity` straight from the app (read, add, write) and cancelling an assignment
+  checked for pending transfers and restocked item by item in separate calls. Nothing in the
+  database stopped what is left on a van going negative, and a transfer could be requested
+  in between the check and the cancellation.
+
+  1. Modified Tables
+    - `on_demand_assignment_items` - New check that sold plus transferred out never exceeds
+      assigned plus transferred in. Returns are left out of it because a reconciliation may
+      count more back than expected
+
+  2. New Functions
+    - `return_on_demand_stock(p_assignment_item_id, p_quantity)` - A rep hands stock from
+      their van back to the farm. Locks the item, checks what is left on the van and restocks
+      in one transaction
+    - `cancel_on_demand_assignment(p_assignment_id)` - Refuses while a transfer is pending,
+      otherwise returns everything left on the van to stock and cancels the assignment, in one
+      transaction with the assignment locked
+
+  3. Modified Functions
+    - `create_on_demand_sale` - SECURITY DEFINER, now that reps no longer update assignment
+      items directly; checks on_demand.sell itself, as the order insert policy did
+
+  4. Security
+    - "Sales Reps can update their assignment items" is replaced by a policy for
+      on_demand.assign only; reps change their van stock through the functions above
+*/
+
+ALTER TABLE on_demand_assignment_items DROP CONSTRAINT IF EXISTS on_demand_assignment_items_sold_within_stock;
+ALTER TABLE on_demand_assignment_items
+  ADD CONSTRAINT on_demand_assignment_items_sold_within_stock
+  CHECK (sold_quantity + transferred_out_quantity <= assigned_quantity + transferred_in_quantity);
+
+DROP POLICY IF EXISTS "Sales Reps can update their assignment items" ON on_demand_assignment_items;
+DROP POLICY IF EXISTS "Managers can update assignment items" ON on_demand_assignment_items;
+CREATE POLICY "Managers can update assignment items" ON on_demand_assignment_items FOR UPDATE TO authenticated USING (has_permission('on_demand.assign'));
+
+CREATE OR REPLACE FUNCTION create_on_demand_sale(
+  p_customer_type text,
+  p_existing_customer_id uuid,
+  p_customer_name text,
+  p_customer_phone text,
+  p_payment_method text,
+  p_items jsonb
+)
+RETURNS on_demand_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_customer_name text := NULLIF(TRIM(p_customer_name), '');
+  v_customer_phone text := NULLIF(TRIM(p_customer_phone), '');
+  v_total numeric := 0;
+  v_order on_demand_orders%ROWTYPE;
+  v_item record;
+  v_assignment_item record;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT has_permission('on_demand.sell') THEN
+    RAISE EXCEPTION 'You do not have permission to sell on demand stock';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sale must contain at least one item';
+  END IF;
+
+  IF p_payment_method NOT IN ('Cash', 'Net') THEN
+    RAISE EXCEPTION 'Payment method must be Cash or Net';
+  END IF;
+
+  IF p_customer_type = 'existing' THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_existing_customer_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', p_existing_customer_id;
+    END IF;
+    v_customer_name := v_customer.name;
+    v_customer_phone := v_customer.phone_number;
+  ELSIF p_customer_type = 'walk-in' THEN
+    IF v_customer_name IS NULL THEN
+      RAISE EXCEPTION 'Customer name is required';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Customer type must be existing or walk-in';
+  END IF;
+
+  -- Lock the van stock being sold (in id order to avoid deadlocks) and check what is left on it
+  FOR v_item IN
+    SELECT
+      (elem->>'assignment_item_id')::uuid AS assignment_item_id,
+      SUM((elem->>'quantity')::numeric) AS quantity,
+      bool_and((elem->>'price')::numeric > 0) AS priced
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'assignment_item_id')::uuid
+    ORDER BY (elem->>'assignment_item_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+    IF NOT COALESCE(v_item.priced, false) THEN
+      RAISE EXCEPTION 'All prices must be greater than 0';
+    END IF;
+
+    SELECT ai.id, on_demand_remaining_quantity(ai) AS remaining, p.name
+    INTO v_assignment_item
+    FROM on_demand_assignment_items ai
+    JOIN on_demand_assignments a ON a.id = ai.on_demand_assignment_id
+    JOIN products p ON p.id = ai.product_id
+    WHERE ai.id = v_item.assignment_item_id
+      AND a.sales_rep_id = v_user_id
+      AND a.status = 'active'
+    FOR UPDATE OF ai;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Assignment item % is not in one of your active assignments', v_item.assignment_item_id;
+    END IF;
+
+    IF v_assignment_item.remaining < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_assignment_item.name,
+        v_assignment_item.remaining,
+        v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(ROUND((elem->>'quantity')::numeric * (elem->>'price')::numeric, 2)), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  INSERT INTO on_demand_orders (
+    sales_rep_id,
+    customer_name,
+    customer_phone,
+    customer_type,
+    existing_customer_id,
+    total_amount,
+    payment_method
+  ) VALUES (
+    v_user_id,
+    v_customer_name,
+    v_customer_phone,
+    p_customer_type,
+    CASE WHEN p_customer_type = 'existing' THEN p_existing_customer_id END,
+    v_total,
+    p_payment_method
+  )
+  RETURNING * INTO v_order;
+
+  INSERT INTO on_demand_order_items (
+    on_demand_order_id, on_demand_assignment_item_id, product_id, quantity, price, line_total
+  )
+  SELECT
+    v_order.id,
+    ai.id,
+    ai.product_id,
+    (elem->>'quantity')::numeric,
+    (elem->>'price')::numeric,
+    ROUND((elem->>'quantity')::numeric * (elem->>'price')::numeric, 2)
+  FROM jsonb_array_elements(p_items) AS elem
+  JOIN on_demand_assignment_items ai ON ai.id = (elem->>'assignment_item_id')::uuid;
+
+  UPDATE on_demand_assignment_items ai
+  SET sold_quantity = ai.sold_quantity + totals.quantity
+  FROM (
+    SELECT (elem->>'assignment_item_id')::uuid AS assignment_item_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'assignment_item_id')::uuid
+  ) AS totals
+  WHERE ai.id = totals.assignment_item_id;
+
+  RETURN v_order;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION return_on_demand_stock(
+  p_assignment_item_id uuid,
+  p_quantity numeric
+)
+RETURNS on_demand_assignment_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_item record;
+  v_updated on_demand_assignment_items%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Return quantity must be greater than 0';
+  END IF;
+
+  SELECT ai.id, ai.product_id, on_demand_remaining_quantity(ai) AS remaining, a.sales_rep_id, p.name
+  INTO v_item
+  FROM on_demand_assignment_items ai
+  JOIN on_demand_assignments a ON a.id = ai.on_demand_assignment_id
+  JOIN products p ON p.id = ai.product_id
+  WHERE ai.id = p_assignment_item_id
+    AND a.status = 'active'
+  FOR UPDATE OF ai;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment item % is not in an active assignment', p_assignment_item_id;
+  END IF;
+
+  IF v_item.sales_rep_id <> v_user_id AND NOT has_permission('on_demand.assign') THEN
+    RAISE EXCEPTION 'You can only return stock from your own van';
+  END IF;
+
+  IF v_item.remaining < p_quantity THEN
+    RAISE EXCEPTION 'Cannot return % kg of %. Only % kg is left on the van.',
+      p_quantity, v_item.name, v_item.remaining;
+  END IF;
+
+  UPDATE on_demand_assignment_items
+  SET returned_quantity = returned_quantity + p_quantity
+  WHERE id = v_item.id
+  RETURNING * INTO v_updated;
+
+  PERFORM record_stock_movement(
+    v_item.product_id,
+    p_quantity,
+    'on_demand_return',
+    'on_demand_assignment_item',
+    v_item.id,
+    NULL,
+    'Returned by sales rep'
+  );
+
+  RETURN v_updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_on_demand_assignment(p_assignment_id uuid)
+RETURNS on_demand_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignment on_demand_assignments%ROWTYPE;
+  v_item record;
+BEGIN
+  IF NOT has_permission('on_demand.assign') OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'You do not have permission to cancel assignments';
+  END IF;
+
+  SELECT * INTO v_assignment
+  FROM on_demand_assignments
+  WHERE id = p_assignment_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', p_assignment_id;
+  END IF;
+
+  IF v_assignment.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active assignments can be cancelled';
+  END IF;
+
+  -- A transfer requested from this van meanwhile waits on these locks and then finds nothing
+  -- left on the van
+  PERFORM 1
+  FROM on_demand_assignment_items
+  WHERE on_demand_assignment_id = p_assignment_id
+  ORDER BY id
+  FOR UPDATE;
+
+  -- A pending transfer still holds stock from this van, or is due to land on it
+  IF EXISTS (
+    SELECT 1
+    FROM on_demand_transfers t
+    LEFT JOIN on_demand_assignment_items ai ON ai.id = t.from_assignment_item_id
+    WHERE t.status = 'pending'
+      AND (ai.on_demand_assignment_id = p_assignment_id OR t.to_rep_id = v_assignment.sales_rep_id)
+  ) THEN
+    RAISE EXCEPTION 'This assignment has a pending transfer. It must be accepted, rejected or cancelled first';
+  END IF;
+
+  FOR v_item IN
+    SELECT ai.id, ai.product_id, on_demand_remaining_quantity(ai) AS remaining
+    FROM on_demand_assignment_items ai
+    WHERE ai.on_demand_assignment_id = p_assignment_id
+    ORDER BY ai.id
+  LOOP
+    IF v_item.remaining > 0 THEN
+      UPDATE on_demand_assignment_items
+      SET returned_quantity = returned_quantity + v_item.remaining
+      WHERE id = v_item.id;
+
+      PERFORM record_stock_movement(
+        v_item.product_id,
+        v_item.remaining,
+        'on_demand_return',
+        'on_demand_assignment_item',
+        v_item.id,
+        NULL,
+        'Assignment cancelled'
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE on_demand_assignments
+  SET status = 'cancelled'
+  WHERE id = p_assignment_id
+  RETURNING * INTO v_assignment;
+
+  RETURN v_assignment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_on_demand_sale(text, uuid, text, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_on_demand_sale(text, uuid, text, text, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION return_on_demand_stock(uuid, numeric) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_on_demand_assignment(uuid) TO authenticated;
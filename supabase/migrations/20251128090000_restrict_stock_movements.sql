@@ -0,0 +1,275 @@
+/*
+  # Restrict Stock Movements
+
+  `record_stock_movement` is SECURITY DEFINER and was executable by any signed-in user, and by
+  PUBLIC, without checking who called it. Anyone with the app's anon key could add or remove
+  any product's stock, around the admin-only products update policy. Creating an on demand
+  assignment also issued its stock item by item from the browser, so a failure part way left
+  an assignment whose stock was never taken out.
+
+  1. New Functions
+    - `apply_stock_movement(...)` - The previous body of `record_stock_movement`. Internal; only
+      other database functions call it
+    - `create_on_demand_assignment(p_sales_rep_id, p_assignment_date, p_vehicle_number, p_notes,
+      p_items)` - Creates the assignment and its items and takes the stock out of inventory in
+      one transaction. Requires on_demand.assign
+
+  2. Modified Functions
+    - `record_stock_movement(...)` - Requires an active signed-in user whose permissions cover
+      the movement type:
+      - receipt: inventory.manage
+      - adjustment: inventory.manage or catalog.manage, like editing a product's quantity
+      - sale: orders.create
+      - return: orders.returns
+      - on_demand_issue, on_demand_return: on_demand.assign
+    - `return_on_demand_stock` - Calls `apply_stock_movement`, since it checks the rep itself
+
+  3. Security
+    - EXECUTE on `record_stock_movement` is revoked from PUBLIC and anon
+*/
+
+CREATE OR REPLACE FUNCTION apply_stock_movement(
+  p_product_id uuid,
+  p_quantity_delta numeric,
+  p_movement_type text,
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_reference_no text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_product record;
+  v_movement stock_movements%ROWTYPE;
+BEGIN
+  IF p_quantity_delta IS NULL OR p_quantity_delta = 0 THEN
+    RAISE EXCEPTION 'Stock movement quantity must be non-zero';
+  END IF;
+
+  SELECT id, name, quantity INTO v_product
+  FROM products
+  WHERE id = p_product_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF v_product.quantity + p_quantity_delta < 0 THEN
+    RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+      v_product.name, v_product.quantity, -p_quantity_delta;
+  END IF;
+
+  PERFORM set_config('app.stock_movement_logged', 'on', true);
+
+  UPDATE products
+  SET quantity = quantity + p_quantity_delta
+  WHERE id = p_product_id;
+
+  PERFORM set_config('app.stock_movement_logged', 'off', true);
+
+  INSERT INTO stock_movements (
+    product_id, movement_type, quantity_delta, balance_after,
+    reference_type, reference_id, reference_no, notes, created_by
+  ) VALUES (
+    p_product_id, p_movement_type, p_quantity_delta, v_product.quantity + p_quantity_delta,
+    p_reference_type, p_reference_id, p_reference_no, NULLIF(TRIM(p_notes), ''), auth.uid()
+  )
+  RETURNING * INTO v_movement;
+
+  IF p_quantity_delta < 0 THEN
+    PERFORM consume_product_batches(v_movement.id, p_product_id, -p_quantity_delta);
+  ELSIF p_movement_type IN ('return', 'on_demand_return') THEN
+    PERFORM restore_product_batches(
+      v_movement.id, p_product_id, p_quantity_delta, p_movement_type, p_reference_type, p_reference_id
+    );
+  END IF;
+
+  RETURN v_movement;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION apply_stock_movement(uuid, numeric, text, text, uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION record_stock_movement(
+  p_product_id uuid,
+  p_quantity_delta numeric,
+  p_movement_type text,
+  p_reference_type text DEFAULT NULL,
+  p_reference_id uuid DEFAULT NULL,
+  p_reference_no text DEFAULT NULL,
+  p_notes text DEFAULT NULL
+)
+RETURNS stock_movements
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_allowed boolean;
+BEGIN
+  IF auth.uid() IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  v_allowed := CASE p_movement_type
+    WHEN 'receipt' THEN has_permission('inventory.manage')
+    WHEN 'adjustment' THEN has_permission('inventory.manage') OR has_permission('catalog.manage')
+    WHEN 'sale' THEN has_permission('orders.create')
+    WHEN 'return' THEN has_permission('orders.returns')
+    WHEN 'on_demand_issue' THEN has_permission('on_demand.assign')
+    WHEN 'on_demand_return' THEN has_permission('on_demand.assign')
+    ELSE false
+  END;
+
+  IF NOT COALESCE(v_allowed, false) THEN
+    RAISE EXCEPTION 'You do not have permission to record % stock movements', COALESCE(p_movement_type, 'these');
+  END IF;
+
+  RETURN apply_stock_movement(
+    p_product_id, p_quantity_delta, p_movement_type, p_reference_type, p_reference_id, p_reference_no, p_notes
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION record_stock_movement(uuid, numeric, text, text, uuid, text, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_stock_movement(uuid, numeric, text, text, uuid, text, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION return_on_demand_stock(
+  p_assignment_item_id uuid,
+  p_quantity numeric
+)
+RETURNS on_demand_assignment_items
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_item record;
+  v_updated on_demand_assignment_items%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Return quantity must be greater than 0';
+  END IF;
+
+  SELECT ai.id, ai.product_id, on_demand_remaining_quantity(ai) AS remaining, a.sales_rep_id, p.name
+  INTO v_item
+  FROM on_demand_assignment_items ai
+  JOIN on_demand_assignments a ON a.id = ai.on_demand_assignment_id
+  JOIN products p ON p.id = ai.product_id
+  WHERE ai.id = p_assignment_item_id
+    AND a.status = 'active'
+  FOR UPDATE OF ai;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment item % is not in an active assignment', p_assignment_item_id;
+  END IF;
+
+  IF v_item.sales_rep_id <> v_user_id AND NOT has_permission('on_demand.assign') THEN
+    RAISE EXCEPTION 'You can only return stock from your own van';
+  END IF;
+
+  IF v_item.remaining < p_quantity THEN
+    RAISE EXCEPTION 'Cannot return % kg of %. Only % kg is left on the van.',
+      p_quantity, v_item.name, v_item.remaining;
+  END IF;
+
+  UPDATE on_demand_assignment_items
+  SET returned_quantity = returned_quantity + p_quantity
+  WHERE id = v_item.id
+  RETURNING * INTO v_updated;
+
+  PERFORM apply_stock_movement(
+    v_item.product_id,
+    p_quantity,
+    'on_demand_return',
+    'on_demand_assignment_item',
+    v_item.id,
+    NULL,
+    'Returned by sales rep'
+  );
+
+  RETURN v_updated;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION create_on_demand_assignment(
+  p_sales_rep_id uuid,
+  p_assignment_date date,
+  p_vehicle_number text,
+  p_notes text,
+  p_items jsonb
+)
+RETURNS on_demand_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignment on_demand_assignments%ROWTYPE;
+  v_item record;
+  v_assignment_item_id uuid;
+BEGIN
+  IF NOT has_permission('on_demand.assign') OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'You do not have permission to assign on demand stock';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM users WHERE id = p_sales_rep_id AND active) THEN
+    RAISE EXCEPTION 'Sales rep % not found', p_sales_rep_id;
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Assignment must contain at least one product';
+  END IF;
+
+  INSERT INTO on_demand_assignments (
+    sales_rep_id, assigned_by, assignment_date, notes, vehicle_number, assignment_type, status
+  ) VALUES (
+    p_sales_rep_id, auth.uid(), COALESCE(p_assignment_date, CURRENT_DATE),
+    NULLIF(TRIM(p_notes), ''), NULLIF(TRIM(p_vehicle_number), ''), 'admin_assigned', 'active'
+  )
+  RETURNING * INTO v_assignment;
+
+  -- In product order so concurrent assignments lock products in the same order
+  FOR v_item IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+
+    INSERT INTO on_demand_assignment_items (on_demand_assignment_id, product_id, assigned_quantity)
+    VALUES (v_assignment.id, v_item.product_id, v_item.quantity)
+    RETURNING id INTO v_assignment_item_id;
+
+    -- Refuses more than is on hand, which rolls the whole assignment back
+    PERFORM apply_stock_movement(
+      v_item.product_id,
+      -v_item.quantity,
+      'on_demand_issue',
+      'on_demand_assignment_item',
+      v_assignment_item_id,
+      NULL,
+      NULL
+    );
+  END LOOP;
+
+  RETURN v_assignment;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_on_demand_assignment(uuid, date, text, text, jsonb) TO authenticated;
@@ -0,0 +1,714 @@
+/*
+  # Enforce Price Bands on the Server
+
+  Selling bands were only checked in the browser. Both sale functions accepted any price, the
+  override log recorded whatever band the client sent and was not tied to the order line it
+  approved, and an approval code could be guessed by trying all 6-digit codes within its
+  15 minutes.
+
+  1. Modified Tables
+    - `price_overrides` - Records the line the override was used on
+      - `order_id` (uuid, references orders), `order_item_id` (uuid, references order_items)
+      - `on_demand_order_id` (uuid, references on_demand_orders),
+        `on_demand_order_item_id` (uuid, references on_demand_order_items)
+      - `used_at` (timestamptz) - When a sale used the override; each override prices one line
+
+  2. New Tables
+    - `price_override_attempts` - Every approval code entered, for throttling
+      - `id` (uuid, primary key)
+      - `user_id` (uuid, references users)
+      - `succeeded` (boolean)
+      - `created_at` (timestamptz)
+
+  3. New Functions (internal; not callable by clients)
+    - `effective_tier_price(p_product_id, p_tier)` - Tier price with pending scheduled changes
+      that are due today (Sri Lanka time) applied, as `resolveScheduledPrices` does in the app
+    - `resolve_price_band(p_product_id)` - Base, minimum and maximum price, from the product's
+      band, else its category's, else zero-width around Dealer Cash. Mirrors `resolvePriceBand`
+    - `automatic_selling_price(p_product_id, p_customer_id, p_context)` - The price the app fills
+      in itself: the customer's price list price, else the customer's tier for sales orders and
+      Dealer Cash for on demand sales
+    - `price_needs_override(...)` - True when a price is neither the automatic price nor inside
+      the band
+    - `enforce_price_band(...)` - Refuses an order line whose price needs an override unless it
+      names an unused override for the same product, customer, price and requester, which is
+      then marked as used by that line
+
+  4. Modified Functions
+    - `redeem_price_override_code(p_code, p_product_id, p_customer_id, p_context, p_price)` -
+      Works out the band itself instead of taking it from the client, refuses prices that need
+      no approval, and allows 5 wrong codes per user in 15 minutes. A wrong code returns NULL
+      instead of raising so that the attempt is kept. The old signature is dropped
+    - `create_sales_order`, `create_on_demand_sale` - Each item may carry an `override_id`;
+      every line is checked with `enforce_price_band`
+
+  5. Security
+    - RLS on `price_override_attempts` with no policies for clients; only
+      `redeem_price_override_code` reads and writes it
+*/
+
+ALTER TABLE price_overrides
+  ADD COLUMN IF NOT EXISTS order_id uuid REFERENCES orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS order_item_id uuid REFERENCES order_items(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS on_demand_order_id uuid REFERENCES on_demand_orders(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS on_demand_order_item_id uuid REFERENCES on_demand_order_items(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS used_at timestamptz;
+
+CREATE TABLE IF NOT EXISTS price_override_attempts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  succeeded boolean NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_override_attempts_user ON price_override_attempts(user_id, created_at DESC);
+
+ALTER TABLE price_override_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Deactivated users have no access"
+  ON price_override_attempts
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE OR REPLACE FUNCTION effective_tier_price(p_product_id uuid, p_tier text)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_price numeric;
+BEGIN
+  SELECT tier_price INTO v_price
+  FROM (
+    SELECT
+      CASE p_tier
+        WHEN 'price_dealer_cash' THEN c.price_dealer_cash
+        WHEN 'price_dealer_credit' THEN c.price_dealer_credit
+        WHEN 'price_hotel_cash' THEN c.price_hotel_cash
+        WHEN 'price_hotel_credit' THEN c.price_hotel_credit
+      END AS tier_price,
+      c.effective_date,
+      c.created_at
+    FROM scheduled_price_changes c
+    WHERE c.product_id = p_product_id
+      AND c.status = 'pending'
+      AND c.effective_date <= (now() AT TIME ZONE 'Asia/Colombo')::date
+  ) AS due
+  WHERE tier_price IS NOT NULL
+  ORDER BY effective_date DESC, created_at DESC
+  LIMIT 1;
+
+  IF v_price IS NOT NULL THEN
+    RETURN v_price;
+  END IF;
+
+  SELECT
+    CASE p_tier
+      WHEN 'price_dealer_cash' THEN price_dealer_cash
+      WHEN 'price_dealer_credit' THEN price_dealer_credit
+      WHEN 'price_hotel_cash' THEN price_hotel_cash
+      WHEN 'price_hotel_credit' THEN price_hotel_credit
+    END
+  INTO v_price
+  FROM products
+  WHERE id = p_product_id;
+
+  RETURN COALESCE(v_price, 0);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION resolve_price_band(p_product_id uuid)
+RETURNS TABLE (base_price numeric, min_price numeric, max_price numeric)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_band price_bands%ROWTYPE;
+  v_base numeric;
+BEGIN
+  SELECT b.* INTO v_band
+  FROM products p
+  JOIN price_bands b ON b.product_id = p.id OR b.category_id = p.category_id
+  WHERE p.id = p_product_id
+  ORDER BY (b.product_id IS NOT NULL) DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    v_base := effective_tier_price(p_product_id, 'price_dealer_cash');
+    RETURN QUERY SELECT v_base, v_base, v_base;
+    RETURN;
+  END IF;
+
+  v_base := effective_tier_price(p_product_id, v_band.base_tier);
+
+  IF v_band.band_type = 'percent' THEN
+    RETURN QUERY SELECT
+      v_base,
+      ROUND(GREATEST(0, v_base * (1 - v_band.below / 100)), 2),
+      ROUND(v_base * (1 + v_band.above / 100), 2);
+  ELSE
+    RETURN QUERY SELECT
+      v_base,
+      ROUND(GREATEST(0, v_base - v_band.below), 2),
+      ROUND(v_base + v_band.above, 2);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION automatic_selling_price(p_product_id uuid, p_customer_id uuid, p_context text)
+RETURNS numeric
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_customer customers%ROWTYPE;
+  v_list_price numeric;
+BEGIN
+  IF p_customer_id IS NOT NULL THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_customer_id;
+  END IF;
+
+  IF v_customer.id IS NOT NULL THEN
+    -- Same priority as fetchCustomerPriceMap: contract list, then category list for the
+    -- customer's payment type, then category list for any payment type
+    SELECT li.price INTO v_list_price
+    FROM price_list_assignments a
+    JOIN price_lists l ON l.id = a.price_list_id AND l.is_active
+    JOIN price_list_items li ON li.price_list_id = l.id AND li.product_id = p_product_id
+    WHERE a.customer_id = v_customer.id
+      OR (
+        a.customer_category = v_customer.customer_category
+        AND (a.payment_type IS NULL OR a.payment_type = v_customer.type)
+      )
+    ORDER BY
+      CASE
+        WHEN a.customer_id IS NOT NULL THEN 3
+        WHEN a.payment_type IS NOT NULL THEN 2
+        ELSE 1
+      END DESC
+    LIMIT 1;
+
+    IF v_list_price IS NOT NULL THEN
+      RETURN v_list_price;
+    END IF;
+  END IF;
+
+  IF p_context = 'sales_order' AND v_customer.id IS NOT NULL THEN
+    RETURN effective_tier_price(
+      p_product_id,
+      CASE
+        WHEN v_customer.customer_category = 'Hotel' AND v_customer.type = 'Cash' THEN 'price_hotel_cash'
+        WHEN v_customer.customer_category = 'Hotel' THEN 'price_hotel_credit'
+        WHEN v_customer.customer_category = 'Dealer' AND v_customer.type IS DISTINCT FROM 'Cash' THEN 'price_dealer_credit'
+        ELSE 'price_dealer_cash'
+      END
+    );
+  END IF;
+
+  RETURN effective_tier_price(p_product_id, 'price_dealer_cash');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION price_needs_override(
+  p_product_id uuid,
+  p_customer_id uuid,
+  p_context text,
+  p_price numeric
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_band record;
+BEGIN
+  IF p_price = automatic_selling_price(p_product_id, p_customer_id, p_context) THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_band FROM resolve_price_band(p_product_id);
+
+  RETURN NOT (p_price BETWEEN v_band.min_price AND v_band.max_price);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION enforce_price_band(
+  p_product_id uuid,
+  p_customer_id uuid,
+  p_context text,
+  p_price numeric,
+  p_override_id uuid,
+  p_order_id uuid,
+  p_order_item_id uuid
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_override_id uuid;
+  v_band record;
+  v_product_name text;
+BEGIN
+  IF NOT price_needs_override(p_product_id, p_customer_id, p_context, p_price) THEN
+    RETURN;
+  END IF;
+
+  IF p_override_id IS NOT NULL THEN
+    SELECT id INTO v_override_id
+    FROM price_overrides
+    WHERE id = p_override_id
+      AND used_at IS NULL
+      AND product_id = p_product_id
+      AND customer_id IS NOT DISTINCT FROM p_customer_id
+      AND context = p_context
+      AND price = p_price
+      AND requested_by = auth.uid()
+    FOR UPDATE;
+  END IF;
+
+  IF v_override_id IS NULL THEN
+    SELECT * INTO v_band FROM resolve_price_band(p_product_id);
+    SELECT name INTO v_product_name FROM products WHERE id = p_product_id;
+    RAISE EXCEPTION 'The price Rs % for % is outside its allowed band (Rs % - Rs %) and needs a manager approval code',
+      p_price, v_product_name, v_band.min_price, v_band.max_price;
+  END IF;
+
+  UPDATE price_overrides
+  SET
+    used_at = now(),
+    order_id = CASE WHEN p_context = 'sales_order' THEN p_order_id END,
+    order_item_id = CASE WHEN p_context = 'sales_order' THEN p_order_item_id END,
+    on_demand_order_id = CASE WHEN p_context = 'on_demand_sale' THEN p_order_id END,
+    on_demand_order_item_id = CASE WHEN p_context = 'on_demand_sale' THEN p_order_item_id END
+  WHERE id = v_override_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION effective_tier_price(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION resolve_price_band(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION automatic_selling_price(uuid, uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION price_needs_override(uuid, uuid, text, numeric) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION enforce_price_band(uuid, uuid, text, numeric, uuid, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+DROP FUNCTION IF EXISTS redeem_price_override_code(text, uuid, uuid, text, numeric, numeric, numeric, numeric);
+
+CREATE OR REPLACE FUNCTION redeem_price_override_code(
+  p_code text,
+  p_product_id uuid,
+  p_customer_id uuid,
+  p_context text,
+  p_price numeric
+)
+RETURNS price_overrides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_code price_override_codes%ROWTYPE;
+  v_band record;
+  v_override price_overrides%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Price must be greater than 0';
+  END IF;
+
+  IF p_context NOT IN ('on_demand_sale', 'sales_order') THEN
+    RAISE EXCEPTION 'Unknown price override context %', p_context;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_product_id) THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF NOT price_needs_override(p_product_id, p_customer_id, p_context, p_price) THEN
+    RAISE EXCEPTION 'This price is inside the allowed band and does not need an approval code';
+  END IF;
+
+  -- One attempt at a time per user, so parallel guesses cannot get past the limit
+  PERFORM 1 FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF (
+    SELECT count(*)
+    FROM price_override_attempts
+    WHERE user_id = v_user_id
+      AND NOT succeeded
+      AND created_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect approval codes. Try again in 15 minutes.';
+  END IF;
+
+  SELECT * INTO v_code
+  FROM price_override_codes
+  WHERE code = TRIM(p_code)
+    AND used_at IS NULL
+    AND expires_at > now()
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  INSERT INTO price_override_attempts (user_id, succeeded)
+  VALUES (v_user_id, v_code.id IS NOT NULL);
+
+  -- Returned rather than raised so the failed attempt above is kept
+  IF v_code.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE price_override_codes
+  SET used_by = v_user_id, used_at = now()
+  WHERE id = v_code.id;
+
+  SELECT * INTO v_band FROM resolve_price_band(p_product_id);
+
+  INSERT INTO price_overrides (
+    product_id, customer_id, context, base_price, min_price, max_price, price,
+    code_id, approved_by, requested_by
+  ) VALUES (
+    p_product_id, p_customer_id, p_context, v_band.base_price, v_band.min_price, v_band.max_price, p_price,
+    v_code.id, v_code.issued_by, v_user_id
+  )
+  RETURNING * INTO v_override;
+
+  RETURN v_override;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_price_override_code(text, uuid, uuid, text, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_price_override_code(text, uuid, uuid, text, numeric) TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_sales_order(
+  p_customer_id uuid,
+  p_assigned_to uuid,
+  p_items jsonb,
+  p_vehicle_number text DEFAULT NULL,
+  p_delivery_date date DEFAULT NULL,
+  p_purchase_order_id text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_vat_rate numeric := 0;
+  v_subtotal numeric := 0;
+  v_vat_amount numeric := 0;
+  v_is_vat_applicable boolean := false;
+  v_order orders%ROWTYPE;
+  v_item record;
+  v_product record;
+  v_hold_reasons text;
+  v_line record;
+  v_order_item_id uuid;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT has_permission('orders.create') THEN
+    RAISE EXCEPTION 'You do not have permission to create orders';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Locked so two orders for the same customer cannot both slip under the limit
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  -- Lock product rows and validate stock before writing anything
+  FOR v_item IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+
+    SELECT id, name, quantity INTO v_product
+    FROM products
+    WHERE id = v_item.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item.product_id;
+    END IF;
+
+    IF v_product.quantity < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_product.name, v_product.quantity, v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(
+    (elem->>'quantity')::numeric * (elem->>'price')::numeric
+    - COALESCE((elem->>'discount')::numeric, 0)
+  ), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  v_is_vat_applicable := v_customer.vat_status = 'VAT';
+  IF v_is_vat_applicable THEN
+    SELECT COALESCE(vat_rate, 0) INTO v_vat_rate FROM system_settings LIMIT 1;
+    v_vat_amount := ROUND(v_subtotal * COALESCE(v_vat_rate, 0), 2);
+  END IF;
+
+  INSERT INTO orders (
+    customer_id,
+    status,
+    purchase_order_id,
+    created_by,
+    assigned_to,
+    vehicle_number,
+    delivery_date,
+    total_amount,
+    vat_amount,
+    is_vat_applicable
+  ) VALUES (
+    p_customer_id,
+    'Assigned',
+    NULLIF(TRIM(p_purchase_order_id), ''),
+    v_user_id,
+    p_assigned_to,
+    NULLIF(TRIM(p_vehicle_number), ''),
+    COALESCE(p_delivery_date, CURRENT_DATE),
+    v_subtotal + v_vat_amount,
+    v_vat_amount,
+    v_is_vat_applicable
+  )
+  RETURNING * INTO v_order;
+
+  -- The new order now counts as undelivered, so the hold includes it
+  v_hold_reasons := customer_credit_hold_reasons(p_customer_id);
+  IF v_hold_reasons IS NOT NULL AND use_credit_override(p_customer_id, v_order.id) IS NULL THEN
+    RAISE EXCEPTION 'This customer is on credit hold (%). A Finance Admin must approve an override in Receivables before this order can be placed.',
+      v_hold_reasons;
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      (elem->>'quantity')::numeric AS quantity,
+      (elem->>'price')::numeric AS price,
+      COALESCE((elem->>'discount')::numeric, 0) AS discount,
+      NULLIF(elem->>'override_id', '')::uuid AS override_id
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS lines(elem, line_number)
+    ORDER BY line_number
+  LOOP
+    INSERT INTO order_items (order_id, item_id, quantity, price, discount)
+    VALUES (v_order.id, v_line.product_id, v_line.quantity, v_line.price, v_line.discount)
+    RETURNING id INTO v_order_item_id;
+
+    PERFORM enforce_price_band(
+      v_line.product_id, p_customer_id, 'sales_order', v_line.price, v_line.override_id, v_order.id, v_order_item_id
+    );
+  END LOOP;
+
+  FOR v_item IN
+    SELECT (elem->>'product_id')::uuid AS product_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id, -v_item.quantity, 'sale', 'order', v_order.id, v_order.order_display_id, NULL
+    );
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_sales_order(uuid, uuid, jsonb, text, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_sales_order(uuid, uuid, jsonb, text, date, text) TO authenticated;
+
+CREATE OR REPLACE FUNCTION create_on_demand_sale(
+  p_customer_type text,
+  p_existing_customer_id uuid,
+  p_customer_name text,
+  p_customer_phone text,
+  p_payment_method text,
+  p_items jsonb
+)
+RETURNS on_demand_orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_customer_name text := NULLIF(TRIM(p_customer_name), '');
+  v_customer_phone text := NULLIF(TRIM(p_customer_phone), '');
+  v_total numeric := 0;
+  v_order on_demand_orders%ROWTYPE;
+  v_item record;
+  v_assignment_item record;
+  v_line record;
+  v_order_item_id uuid;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT has_permission('on_demand.sell') THEN
+    RAISE EXCEPTION 'You do not have permission to sell on demand stock';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Sale must contain at least one item';
+  END IF;
+
+  IF p_payment_method NOT IN ('Cash', 'Net') THEN
+    RAISE EXCEPTION 'Payment method must be Cash or Net';
+  END IF;
+
+  IF p_customer_type = 'existing' THEN
+    SELECT * INTO v_customer FROM customers WHERE id = p_existing_customer_id;
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Customer % not found', p_existing_customer_id;
+    END IF;
+    v_customer_name := v_customer.name;
+    v_customer_phone := v_customer.phone_number;
+  ELSIF p_customer_type = 'walk-in' THEN
+    IF v_customer_name IS NULL THEN
+      RAISE EXCEPTION 'Customer name is required';
+    END IF;
+  ELSE
+    RAISE EXCEPTION 'Customer type must be existing or walk-in';
+  END IF;
+
+  -- Lock the van stock being sold (in id order to avoid deadlocks) and check what is left on it
+  FOR v_item IN
+    SELECT
+      (elem->>'assignment_item_id')::uuid AS assignment_item_id,
+      SUM((elem->>'quantity')::numeric) AS quantity,
+      bool_and((elem->>'price')::numeric > 0) AS priced
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'assignment_item_id')::uuid
+    ORDER BY (elem->>'assignment_item_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+    IF NOT COALESCE(v_item.priced, false) THEN
+      RAISE EXCEPTION 'All prices must be greater than 0';
+    END IF;
+
+    SELECT ai.id, on_demand_remaining_quantity(ai) AS remaining, p.name
+    INTO v_assignment_item
+    FROM on_demand_assignment_items ai
+    JOIN on_demand_assignments a ON a.id = ai.on_demand_assignment_id
+    JOIN products p ON p.id = ai.product_id
+    WHERE ai.id = v_item.assignment_item_id
+      AND a.sales_rep_id = v_user_id
+      AND a.status = 'active'
+    FOR UPDATE OF ai;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Assignment item % is not in one of your active assignments', v_item.assignment_item_id;
+    END IF;
+
+    IF v_assignment_item.remaining < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_assignment_item.name,
+        v_assignment_item.remaining,
+        v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(ROUND((elem->>'quantity')::numeric * (elem->>'price')::numeric, 2)), 0)
+  INTO v_total
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  INSERT INTO on_demand_orders (
+    sales_rep_id,
+    customer_name,
+    customer_phone,
+    customer_type,
+    existing_customer_id,
+    total_amount,
+    payment_method
+  ) VALUES (
+    v_user_id,
+    v_customer_name,
+    v_customer_phone,
+    p_customer_type,
+    CASE WHEN p_customer_type = 'existing' THEN p_existing_customer_id END,
+    v_total,
+    p_payment_method
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_line IN
+    SELECT
+      ai.id AS assignment_item_id,
+      ai.product_id,
+      (elem->>'quantity')::numeric AS quantity,
+      (elem->>'price')::numeric AS price,
+      NULLIF(elem->>'override_id', '')::uuid AS override_id
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS lines(elem, line_number)
+    JOIN on_demand_assignment_items ai ON ai.id = (elem->>'assignment_item_id')::uuid
+    ORDER BY line_number
+  LOOP
+    INSERT INTO on_demand_order_items (
+      on_demand_order_id, on_demand_assignment_item_id, product_id, quantity, price, line_total
+    ) VALUES (
+      v_order.id,
+      v_line.assignment_item_id,
+      v_line.product_id,
+      v_line.quantity,
+      v_line.price,
+      ROUND(v_line.quantity * v_line.price, 2)
+    )
+    RETURNING id INTO v_order_item_id;
+
+    PERFORM enforce_price_band(
+      v_line.product_id, v_order.existing_customer_id, 'on_demand_sale', v_line.price, v_line.override_id,
+      v_order.id, v_order_item_id
+    );
+  END LOOP;
+
+  UPDATE on_demand_assignment_items ai
+  SET sold_quantity = ai.sold_quantity + totals.quantity
+  FROM (
+    SELECT (elem->>'assignment_item_id')::uuid AS assignment_item_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'assignment_item_id')::uuid
+  ) AS totals
+  WHERE ai.id = totals.assignment_item_id;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_on_demand_sale(text, uuid, text, text, text, jsonb) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_on_demand_sale(text, uuid, text, text, text, jsonb) TO authenticated;
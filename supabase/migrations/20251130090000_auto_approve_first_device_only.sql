@@ -0,0 +1,107 @@
+/*
+  # Only Auto-Approve a User's First Device
+
+  `record_login_attempt` approved an unknown device whenever the user had no approved device.
+  After an admin revoked a user's only device, or left their only device pending, the user
+  could clear the stored device id, log in, and have the new device approved straight away.
+
+  1. Modified Functions
+    - `record_login_attempt(...)` - An unknown device is approved straight away only when the
+      user has no devices on record at all; otherwise it is added as pending and the login is
+      refused
+*/
+
+CREATE OR REPLACE FUNCTION record_login_attempt(
+  p_username text,
+  p_succeeded boolean,
+  p_failure_reason text DEFAULT NULL,
+  p_device_id text DEFAULT NULL,
+  p_user_agent text DEFAULT NULL
+)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user users%ROWTYPE;
+  v_device user_devices%ROWTYPE;
+  v_device_id text := left(NULLIF(TRIM(p_device_id), ''), 200);
+  v_user_agent text := left(NULLIF(TRIM(p_user_agent), ''), 500);
+  v_failure_reason text := NULLIF(TRIM(p_failure_reason), '');
+  v_session_id uuid := NULLIF(auth.jwt() ->> 'session_id', '')::uuid;
+BEGIN
+  -- A successful attempt is attributed to the session; a failed one to the username typed
+  IF p_succeeded THEN
+    IF auth.uid() IS NULL THEN
+      RAISE EXCEPTION 'A successful login must be recorded from the new session';
+    END IF;
+    SELECT * INTO v_user FROM users WHERE id = auth.uid();
+    v_failure_reason := NULL;
+  ELSE
+    SELECT * INTO v_user FROM users WHERE username = TRIM(p_username);
+    v_failure_reason := COALESCE(v_failure_reason, 'Login failed');
+  END IF;
+
+  IF p_succeeded AND v_user.id IS NOT NULL THEN
+    IF NOT v_user.active THEN
+      v_failure_reason := 'Account deactivated';
+    ELSIF v_user.device_binding THEN
+      IF v_device_id IS NULL OR v_session_id IS NULL THEN
+        v_failure_reason := 'Device could not be identified';
+      ELSE
+        SELECT * INTO v_device
+        FROM user_devices
+        WHERE user_id = v_user.id
+          AND device_id = v_device_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+          -- Only a user's very first device is registered straight away. Once any device is on
+          -- record, pending or revoked included, a new one waits for an admin, so a revoked user
+          -- cannot get back in by clearing the stored device id
+          IF NOT EXISTS (SELECT 1 FROM user_devices WHERE user_id = v_user.id) THEN
+            INSERT INTO user_devices (user_id, device_id, status, user_agent, approved_at)
+            VALUES (v_user.id, v_device_id, 'approved', v_user_agent, now());
+
+            UPDATE users SET device_id = v_device_id WHERE id = v_user.id AND device_id IS NULL;
+          ELSE
+            INSERT INTO user_devices (user_id, device_id, status, user_agent)
+            VALUES (v_user.id, v_device_id, 'pending', v_user_agent);
+            v_failure_reason := 'Device is waiting for admin approval';
+          END IF;
+        ELSE
+          UPDATE user_devices
+          SET last_seen_at = now(), user_agent = COALESCE(v_user_agent, user_agent)
+          WHERE id = v_device.id;
+
+          IF v_device.status = 'pending' THEN
+            v_failure_reason := 'Device is waiting for admin approval';
+          ELSIF v_device.status = 'revoked' THEN
+            v_failure_reason := 'Device has been revoked';
+          END IF;
+        END IF;
+      END IF;
+    END IF;
+  END IF;
+
+  -- is_active_user() only lets a device-bound user's session through once it is recorded here
+  IF p_succeeded AND v_user.id IS NOT NULL AND v_failure_reason IS NULL AND v_session_id IS NOT NULL THEN
+    INSERT INTO user_device_sessions (session_id, user_id, device_id)
+    VALUES (v_session_id, v_user.id, v_device_id)
+    ON CONFLICT (session_id) DO NOTHING;
+  END IF;
+
+  INSERT INTO login_audit (user_id, username, succeeded, failure_reason, device_id, user_agent)
+  VALUES (
+    v_user.id,
+    left(COALESCE(v_user.username, TRIM(p_username), ''), 100),
+    v_failure_reason IS NULL,
+    left(v_failure_reason, 500),
+    v_device_id,
+    v_user_agent
+  );
+
+  RETURN v_failure_reason;
+END;
+$$;
@@ -0,0 +1,288 @@
+/*
+  # Bind Price Approval Codes to a Request
+
+  Approval codes were issued without saying what they were for, so the manager approved blind
+  and any rep could use any live code for any product, customer or price. A rep now asks for
+  approval of one price, the manager issues a code for that request, and the code is only
+  accepted from that rep for that product, customer and price.
+
+  1. New Tables
+    - `price_override_requests` - A rep's request to sell one product at a price outside its band
+      - `id` (uuid, primary key)
+      - `product_id` (uuid, references products), `customer_id` (uuid, references customers)
+      - `context` (text) - 'on_demand_sale' or 'sales_order'
+      - `price`, `base_price`, `min_price`, `max_price` (numeric) - Band worked out on the server
+      - `requested_by` (uuid, references users)
+      - `status` (text) - 'pending' until a code is issued for it, then 'approved'
+      - `created_at` (timestamptz)
+
+  2. Modified Tables
+    - `price_override_codes` - `request_id` (uuid, references price_override_requests)
+
+  3. New Functions
+    - `request_price_override(p_product_id, p_customer_id, p_context, p_price)` - Records the
+      request, or returns the rep's pending one for the same price
+
+  4. Modified Functions
+    - `issue_price_override_code(p_request_id)` - Issues the code for one pending request. The
+      version without parameters is dropped
+    - `redeem_price_override_code(...)` - Only accepts a code whose request matches the rep,
+      product, customer, context and price; anything else counts as a wrong code
+
+  5. Security
+    - Requests are visible to the rep who made them and to prices.override; they are only
+      written through the functions above
+*/
+
+CREATE TABLE IF NOT EXISTS price_override_requests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id uuid NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+  customer_id uuid REFERENCES customers(id) ON DELETE SET NULL,
+  context text NOT NULL CHECK (context IN ('on_demand_sale', 'sales_order')),
+  price numeric(10,2) NOT NULL CHECK (price > 0),
+  base_price numeric(10,2) NOT NULL,
+  min_price numeric(10,2) NOT NULL,
+  max_price numeric(10,2) NOT NULL,
+  requested_by uuid NOT NULL REFERENCES users(id),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved')),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_override_requests_pending
+  ON price_override_requests(created_at DESC)
+  WHERE status = 'pending';
+
+ALTER TABLE price_override_codes
+  ADD COLUMN IF NOT EXISTS request_id uuid REFERENCES price_override_requests(id) ON DELETE CASCADE;
+
+ALTER TABLE price_override_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view price override requests"
+  ON price_override_requests
+  FOR SELECT
+  TO authenticated
+  USING (requested_by = auth.uid() OR has_permission('prices.override'));
+
+CREATE POLICY "Deactivated users have no access"
+  ON price_override_requests
+  AS RESTRICTIVE
+  FOR ALL
+  TO authenticated
+  USING ((SELECT is_active_user()))
+  WITH CHECK ((SELECT is_active_user()));
+
+CREATE OR REPLACE FUNCTION request_price_override(
+  p_product_id uuid,
+  p_customer_id uuid,
+  p_context text,
+  p_price numeric
+)
+RETURNS price_override_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_band record;
+  v_request price_override_requests%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Price must be greater than 0';
+  END IF;
+
+  IF p_context NOT IN ('on_demand_sale', 'sales_order') THEN
+    RAISE EXCEPTION 'Unknown price override context %', p_context;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_product_id) THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF NOT price_needs_override(p_product_id, p_customer_id, p_context, p_price) THEN
+    RAISE EXCEPTION 'This price is inside the allowed band and does not need an approval code';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM price_override_requests
+  WHERE requested_by = v_user_id
+    AND status = 'pending'
+    AND product_id = p_product_id
+    AND customer_id IS NOT DISTINCT FROM p_customer_id
+    AND context = p_context
+    AND price = p_price;
+
+  IF FOUND THEN
+    RETURN v_request;
+  END IF;
+
+  SELECT * INTO v_band FROM resolve_price_band(p_product_id);
+
+  INSERT INTO price_override_requests (
+    product_id, customer_id, context, price, base_price, min_price, max_price, requested_by
+  ) VALUES (
+    p_product_id, p_customer_id, p_context, p_price, v_band.base_price, v_band.min_price, v_band.max_price, v_user_id
+  )
+  RETURNING * INTO v_request;
+
+  RETURN v_request;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION request_price_override(uuid, uuid, text, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_price_override(uuid, uuid, text, numeric) TO authenticated;
+
+DROP FUNCTION IF EXISTS issue_price_override_code();
+
+CREATE OR REPLACE FUNCTION issue_price_override_code(p_request_id uuid)
+RETURNS price_override_codes
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code text;
+  v_request price_override_requests%ROWTYPE;
+  v_row price_override_codes%ROWTYPE;
+BEGIN
+  IF NOT has_permission('prices.override') OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'You do not have permission to approve price overrides';
+  END IF;
+
+  SELECT * INTO v_request
+  FROM price_override_requests
+  WHERE id = p_request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Price override request % not found', p_request_id;
+  END IF;
+
+  IF v_request.status <> 'pending' THEN
+    RAISE EXCEPTION 'A code has already been issued for this request';
+  END IF;
+
+  -- Codes only need to be unique among those that can still be used
+  LOOP
+    v_code := lpad(floor(random() * 1000000)::int::text, 6, '0');
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM price_override_codes
+      WHERE code = v_code AND used_at IS NULL AND expires_at > now()
+    );
+  END LOOP;
+
+  INSERT INTO price_override_codes (code, issued_by, expires_at, request_id)
+  VALUES (v_code, auth.uid(), now() + interval '15 minutes', v_request.id)
+  RETURNING * INTO v_row;
+
+  UPDATE price_override_requests
+  SET status = 'approved'
+  WHERE id = v_request.id;
+
+  RETURN v_row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION issue_price_override_code(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION issue_price_override_code(uuid) TO authenticated;
+
+CREATE OR REPLACE FUNCTION redeem_price_override_code(
+  p_code text,
+  p_product_id uuid,
+  p_customer_id uuid,
+  p_context text,
+  p_price numeric
+)
+RETURNS price_overrides
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_code price_override_codes%ROWTYPE;
+  v_band record;
+  v_override price_overrides%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_price IS NULL OR p_price <= 0 THEN
+    RAISE EXCEPTION 'Price must be greater than 0';
+  END IF;
+
+  IF p_context NOT IN ('on_demand_sale', 'sales_order') THEN
+    RAISE EXCEPTION 'Unknown price override context %', p_context;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM products WHERE id = p_product_id) THEN
+    RAISE EXCEPTION 'Product % not found', p_product_id;
+  END IF;
+
+  IF NOT price_needs_override(p_product_id, p_customer_id, p_context, p_price) THEN
+    RAISE EXCEPTION 'This price is inside the allowed band and does not need an approval code';
+  END IF;
+
+  -- One attempt at a time per user, so parallel guesses cannot get past the limit
+  PERFORM 1 FROM users WHERE id = v_user_id FOR UPDATE;
+
+  IF (
+    SELECT count(*)
+    FROM price_override_attempts
+    WHERE user_id = v_user_id
+      AND NOT succeeded
+      AND created_at > now() - interval '15 minutes'
+  ) >= 5 THEN
+    RAISE EXCEPTION 'Too many incorrect approval codes. Try again in 15 minutes.';
+  END IF;
+
+  -- A code only approves the request it was issued for: same rep, product, customer and price
+  SELECT c.* INTO v_code
+  FROM price_override_codes c
+  JOIN price_override_requests r ON r.id = c.request_id
+  WHERE c.code = TRIM(p_code)
+    AND c.used_at IS NULL
+    AND c.expires_at > now()
+    AND r.requested_by = v_user_id
+    AND r.product_id = p_product_id
+    AND r.customer_id IS NOT DISTINCT FROM p_customer_id
+    AND r.context = p_context
+    AND r.price = p_price
+  ORDER BY c.created_at
+  LIMIT 1
+  FOR UPDATE OF c;
+
+  INSERT INTO price_override_attempts (user_id, succeeded)
+  VALUES (v_user_id, v_code.id IS NOT NULL);
+
+  -- Returned rather than raised so the failed attempt above is kept
+  IF v_code.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE price_override_codes
+  SET used_by = v_user_id, used_at = now()
+  WHERE id = v_code.id;
+
+  SELECT * INTO v_band FROM resolve_price_band(p_product_id);
+
+  INSERT INTO price_overrides (
+    product_id, customer_id, context, base_price, min_price, max_price, price,
+    code_id, approved_by, requested_by
+  ) VALUES (
+    p_product_id, p_customer_id, p_context, v_band.base_price, v_band.min_price, v_band.max_price, p_price,
+    v_code.id, v_code.issued_by, v_user_id
+  )
+  RETURNING * INTO v_override;
+
+  RETURN v_override;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION redeem_price_override_code(text, uuid, uuid, text, numeric) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION redeem_price_override_code(text, uuid, uuid, text, numeric) TO authenticated;
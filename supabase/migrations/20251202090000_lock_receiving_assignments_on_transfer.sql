@@ -0,0 +1,355 @@
+/*
+  # Only Hold Back Closing for Transfers That Involve the Assignment
+
+  Closing or cancelling an assignment was refused whenever any transfer to the rep was pending,
+  even one that would land on another of the rep's active assignments. Accepting a transfer did
+  not lock the receiving assignment, so an accept could land stock on an assignment that was
+  being closed at the same time.
+
+  1. Modified Functions
+    - `accept_on_demand_transfer` - Locks the rep's active assignments before choosing the one
+      the stock lands on
+    - `close_on_demand_assignment`, `cancel_on_demand_assignment` - Lock the rep's active
+      assignments in the same order, and only wait for transfers sent from this assignment's
+      items or sent to the rep when this is their only active assignment
+*/
+
+CREATE OR REPLACE FUNCTION accept_on_demand_transfer(p_transfer_id uuid)
+RETURNS on_demand_transfers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_transfer on_demand_transfers%ROWTYPE;
+  v_assignment_id uuid;
+  v_to_item_id uuid;
+BEGIN
+  SELECT * INTO v_transfer
+  FROM on_demand_transfers
+  WHERE id = p_transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_transfer.to_rep_id <> v_user_id OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Transfer % not found', p_transfer_id;
+  END IF;
+
+  IF v_transfer.status <> 'pending' THEN
+    RAISE EXCEPTION 'This transfer was already %', v_transfer.status;
+  END IF;
+
+  -- Held until the stock has landed, so none of the rep's assignments can be closed or cancelled
+  -- in between and the one chosen below is still active when it is written to
+  PERFORM 1
+  FROM on_demand_assignments
+  WHERE sales_rep_id = v_user_id
+    AND status = 'active'
+  ORDER BY id
+  FOR UPDATE;
+
+  -- Land the stock on an active assignment that already carries the product, else the latest one
+  SELECT a.id, ai.id
+  INTO v_assignment_id, v_to_item_id
+  FROM on_demand_assignments a
+  LEFT JOIN on_demand_assignment_items ai
+    ON ai.on_demand_assignment_id = a.id AND ai.product_id = v_transfer.product_id
+  WHERE a.sales_rep_id = v_user_id
+    AND a.status = 'active'
+  ORDER BY (ai.id IS NOT NULL) DESC, a.assignment_date DESC, a.created_at DESC
+  LIMIT 1;
+
+  IF v_assignment_id IS NULL THEN
+    RAISE EXCEPTION 'You have no active assignment to receive this stock into';
+  END IF;
+
+  IF v_to_item_id IS NULL THEN
+    INSERT INTO on_demand_assignment_items (on_demand_assignment_id, product_id, assigned_quantity, transferred_in_quantity)
+    VALUES (v_assignment_id, v_transfer.product_id, 0, v_transfer.quantity)
+    RETURNING id INTO v_to_item_id;
+  ELSE
+    UPDATE on_demand_assignment_items
+    SET transferred_in_quantity = transferred_in_quantity + v_transfer.quantity
+    WHERE id = v_to_item_id;
+  END IF;
+
+  UPDATE on_demand_transfers
+  SET status = 'accepted',
+      to_assignment_item_id = v_to_item_id,
+      responded_by = v_user_id,
+      responded_at = now()
+  WHERE id = p_transfer_id
+  RETURNING * INTO v_transfer;
+
+  RETURN v_transfer;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION close_on_demand_assignment(
+  p_assignment_id uuid,
+  p_items jsonb,
+  p_cash_handed_in numeric,
+  p_net_received numeric,
+  p_cash_variance_reason text,
+  p_net_variance_reason text,
+  p_notes text
+)
+RETURNS on_demand_reconciliations
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_assignment on_demand_assignments%ROWTYPE;
+  v_reconciliation on_demand_reconciliations%ROWTYPE;
+  v_item record;
+  v_counted record;
+  v_expected numeric;
+  v_expected_cash numeric := 0;
+  v_expected_net numeric := 0;
+  v_cash_reason text := NULLIF(TRIM(p_cash_variance_reason), '');
+  v_net_reason text := NULLIF(TRIM(p_net_variance_reason), '');
+BEGIN
+  IF NOT has_permission('on_demand.assign') THEN
+    RAISE EXCEPTION 'You do not have permission to close assignments';
+  END IF;
+
+  IF p_cash_handed_in IS NULL OR p_cash_handed_in < 0 OR p_net_received IS NULL OR p_net_received < 0 THEN
+    RAISE EXCEPTION 'Collected amounts cannot be negative';
+  END IF;
+
+  -- Locks the rep's active assignments in the same order as accept_on_demand_transfer, so an
+  -- incoming transfer either lands first or sees this assignment closed
+  PERFORM 1
+  FROM on_demand_assignments
+  WHERE sales_rep_id = (SELECT sales_rep_id FROM on_demand_assignments WHERE id = p_assignment_id)
+    AND (status = 'active' OR id = p_assignment_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_assignment
+  FROM on_demand_assignments
+  WHERE id = p_assignment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', p_assignment_id;
+  END IF;
+
+  IF v_assignment.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active assignments can be reconciled';
+  END IF;
+
+  -- Stock still in transit would be counted on neither van: stock sent from this van, and stock
+  -- sent to the rep that has no other active assignment to land on
+  IF EXISTS (
+    SELECT 1
+    FROM on_demand_transfers t
+    LEFT JOIN on_demand_assignment_items ai ON ai.id = t.from_assignment_item_id
+    WHERE t.status = 'pending'
+      AND (
+        ai.on_demand_assignment_id = p_assignment_id
+        OR (
+          t.to_rep_id = v_assignment.sales_rep_id
+          AND NOT EXISTS (
+            SELECT 1 FROM on_demand_assignments other
+            WHERE other.sales_rep_id = v_assignment.sales_rep_id
+              AND other.status = 'active'
+              AND other.id <> p_assignment_id
+          )
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'This assignment has pending transfers. Have them accepted, rejected or cancelled first';
+  END IF;
+
+  SELECT
+    COALESCE(SUM(li.line_total) FILTER (WHERE o.payment_method = 'Cash'), 0),
+    COALESCE(SUM(li.line_total) FILTER (WHERE o.payment_method = 'Net'), 0)
+  INTO v_expected_cash, v_expected_net
+  FROM on_demand_order_items li
+  JOIN on_demand_orders o ON o.id = li.on_demand_order_id
+  JOIN on_demand_assignment_items ai ON ai.id = li.on_demand_assignment_item_id
+  WHERE ai.on_demand_assignment_id = p_assignment_id;
+
+  IF p_cash_handed_in <> v_expected_cash AND v_cash_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for the cash variance of %', p_cash_handed_in - v_expected_cash;
+  END IF;
+
+  IF p_net_received <> v_expected_net AND v_net_reason IS NULL THEN
+    RAISE EXCEPTION 'A reason is required for the Net variance of %', p_net_received - v_expected_net;
+  END IF;
+
+  INSERT INTO on_demand_reconciliations (
+    on_demand_assignment_id, expected_cash, expected_net, cash_handed_in, net_received,
+    cash_variance, net_variance, cash_variance_reason, net_variance_reason, notes, reconciled_by
+  ) VALUES (
+    p_assignment_id, v_expected_cash, v_expected_net, p_cash_handed_in, p_net_received,
+    p_cash_handed_in - v_expected_cash, p_net_received - v_expected_net,
+    v_cash_reason, v_net_reason, NULLIF(TRIM(p_notes), ''), v_user_id
+  )
+  RETURNING * INTO v_reconciliation;
+
+  -- Every item on the van must be counted, even if nothing is left of it
+  FOR v_item IN
+    SELECT ai.id, ai.product_id, ai.transferred_in_quantity, ai.transferred_out_quantity, on_demand_remaining_quantity(ai) AS remaining, p.name
+    FROM on_demand_assignment_items ai
+    JOIN products p ON p.id = ai.product_id
+    WHERE ai.on_demand_assignment_id = p_assignment_id
+    ORDER BY ai.id
+    FOR UPDATE OF ai
+  LOOP
+    SELECT
+      (elem->>'counted_quantity')::numeric AS counted_quantity,
+      NULLIF(TRIM(elem->>'variance_reason'), '') AS variance_reason
+    INTO v_counted
+    FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) AS elem
+    WHERE (elem->>'assignment_item_id')::uuid = v_item.id;
+
+    IF NOT FOUND OR v_counted.counted_quantity IS NULL THEN
+      RAISE EXCEPTION 'Counted quantity for % is missing', v_item.name;
+    END IF;
+
+    IF v_counted.counted_quantity < 0 THEN
+      RAISE EXCEPTION 'Counted quantity for % cannot be negative', v_item.name;
+    END IF;
+
+    v_expected := v_item.remaining;
+
+    IF v_counted.counted_quantity <> v_expected AND v_counted.variance_reason IS NULL THEN
+      RAISE EXCEPTION 'A reason is required for the variance of % kg on %',
+        v_counted.counted_quantity - v_expected, v_item.name;
+    END IF;
+
+    INSERT INTO on_demand_reconciliation_items (
+      on_demand_reconciliation_id, on_demand_assignment_item_id, product_id,
+      transferred_in_quantity, transferred_out_quantity,
+      expected_quantity, counted_quantity, variance, variance_reason
+    ) VALUES (
+      v_reconciliation.id, v_item.id, v_item.product_id,
+      v_item.transferred_in_quantity, v_item.transferred_out_quantity,
+      v_expected, v_counted.counted_quantity, v_counted.counted_quantity - v_expected, v_counted.variance_reason
+    );
+
+    -- Only what is physically back goes on the shelf; a shortage stays off stock
+    IF v_counted.counted_quantity > 0 THEN
+      PERFORM record_stock_movement(
+        v_item.product_id,
+        v_counted.counted_quantity,
+        'on_demand_return',
+        'on_demand_assignment_item',
+        v_item.id,
+        NULL,
+        'Reconciliation of on demand assignment'
+      );
+
+      UPDATE on_demand_assignment_items
+      SET returned_quantity = returned_quantity + v_counted.counted_quantity
+      WHERE id = v_item.id;
+    END IF;
+  END LOOP;
+
+  UPDATE on_demand_assignments
+  SET status = 'completed'
+  WHERE id = p_assignment_id;
+
+  RETURN v_reconciliation;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_on_demand_assignment(p_assignment_id uuid)
+RETURNS on_demand_assignments
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_assignment on_demand_assignments%ROWTYPE;
+  v_item record;
+BEGIN
+  IF NOT has_permission('on_demand.assign') OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'You do not have permission to cancel assignments';
+  END IF;
+
+  -- Locks the rep's active assignments in the same order as accept_on_demand_transfer, so an
+  -- incoming transfer either lands first or sees this assignment closed
+  PERFORM 1
+  FROM on_demand_assignments
+  WHERE sales_rep_id = (SELECT sales_rep_id FROM on_demand_assignments WHERE id = p_assignment_id)
+    AND (status = 'active' OR id = p_assignment_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  SELECT * INTO v_assignment
+  FROM on_demand_assignments
+  WHERE id = p_assignment_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Assignment % not found', p_assignment_id;
+  END IF;
+
+  IF v_assignment.status <> 'active' THEN
+    RAISE EXCEPTION 'Only active assignments can be cancelled';
+  END IF;
+
+  -- A transfer requested from this van meanwhile waits on these locks and then finds nothing
+  -- left on the van
+  PERFORM 1
+  FROM on_demand_assignment_items
+  WHERE on_demand_assignment_id = p_assignment_id
+  ORDER BY id
+  FOR UPDATE;
+
+  -- A pending transfer still holds stock from this van, or is due to land on it because the rep
+  -- has no other active assignment
+  IF EXISTS (
+    SELECT 1
+    FROM on_demand_transfers t
+    LEFT JOIN on_demand_assignment_items ai ON ai.id = t.from_assignment_item_id
+    WHERE t.status = 'pending'
+      AND (
+        ai.on_demand_assignment_id = p_assignment_id
+        OR (
+          t.to_rep_id = v_assignment.sales_rep_id
+          AND NOT EXISTS (
+            SELECT 1 FROM on_demand_assignments other
+            WHERE other.sales_rep_id = v_assignment.sales_rep_id
+              AND other.status = 'active'
+              AND other.id <> p_assignment_id
+          )
+        )
+      )
+  ) THEN
+    RAISE EXCEPTION 'This assignment has a pending transfer. It must be accepted, rejected or cancelled first';
+  END IF;
+
+  FOR v_item IN
+    SELECT ai.id, ai.product_id, on_demand_remaining_quantity(ai) AS remaining
+    FROM on_demand_assignment_items ai
+    WHERE ai.on_demand_assignment_id = p_assignment_id
+    ORDER BY ai.id
+  LOOP
+    IF v_item.remaining > 0 THEN
+      UPDATE on_demand_assignment_items
+      SET returned_quantity = returned_quantity + v_item.remaining
+      WHERE id = v_item.id;
+
+      PERFORM record_stock_movement(
+        v_item.product_id,
+        v_item.remaining,
+        'on_demand_return',
+        'on_demand_assignment_item',
+        v_item.id,
+        NULL,
+        'Assignment cancelled'
+      );
+    END IF;
+  END LOOP;
+
+  UPDATE on_demand_assignments
+  SET status = 'cancelled'
+  WHERE id = p_assignment_id
+  RETURNING * INTO v_assignment;
+
+  RETURN v_assignment;
+END;
+$$;
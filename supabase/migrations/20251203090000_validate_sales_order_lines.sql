@@ -0,0 +1,187 @@
+/*
+  # Validate Every Sales Order Line
+
+  `create_sales_order` only checked the quantity summed per product, so a line with a negative
+  quantity, or a negative discount, was accepted as long as the product's total was positive,
+  and was written into the order items and the order total.
+
+  1. Modified Functions
+    - `create_sales_order` - Every line needs a quantity and price above 0 and a discount
+      between 0 and the line total
+*/
+
+CREATE OR REPLACE FUNCTION create_sales_order(
+  p_customer_id uuid,
+  p_assigned_to uuid,
+  p_items jsonb,
+  p_vehicle_number text DEFAULT NULL,
+  p_delivery_date date DEFAULT NULL,
+  p_purchase_order_id text DEFAULT NULL
+)
+RETURNS orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_customer customers%ROWTYPE;
+  v_vat_rate numeric := 0;
+  v_subtotal numeric := 0;
+  v_vat_amount numeric := 0;
+  v_is_vat_applicable boolean := false;
+  v_order orders%ROWTYPE;
+  v_item record;
+  v_product record;
+  v_hold_reasons text;
+  v_line record;
+  v_order_item_id uuid;
+BEGIN
+  IF v_user_id IS NULL OR NOT is_active_user() THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT has_permission('orders.create') THEN
+    RAISE EXCEPTION 'You do not have permission to create orders';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one item';
+  END IF;
+
+  -- Each line is checked on its own; per product totals would let a negative line through
+  FOR v_line IN
+    SELECT
+      (elem->>'quantity')::numeric AS quantity,
+      (elem->>'price')::numeric AS price,
+      COALESCE((elem->>'discount')::numeric, 0) AS discount
+    FROM jsonb_array_elements(p_items) AS elem
+  LOOP
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+
+    IF v_line.price IS NULL OR v_line.price <= 0 THEN
+      RAISE EXCEPTION 'All prices must be greater than 0';
+    END IF;
+
+    IF v_line.discount < 0 OR v_line.discount > v_line.quantity * v_line.price THEN
+      RAISE EXCEPTION 'Discount must be between 0 and the line total';
+    END IF;
+  END LOOP;
+
+  -- Locked so two orders for the same customer cannot both slip under the limit
+  SELECT * INTO v_customer FROM customers WHERE id = p_customer_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Customer % not found', p_customer_id;
+  END IF;
+
+  -- Lock product rows and validate stock before writing anything
+  FOR v_item IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    IF v_item.quantity IS NULL OR v_item.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity must be greater than 0';
+    END IF;
+
+    SELECT id, name, quantity INTO v_product
+    FROM products
+    WHERE id = v_item.product_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found', v_item.product_id;
+    END IF;
+
+    IF v_product.quantity < v_item.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for %: % kg available, % kg requested',
+        v_product.name, v_product.quantity, v_item.quantity;
+    END IF;
+  END LOOP;
+
+  SELECT COALESCE(SUM(
+    (elem->>'quantity')::numeric * (elem->>'price')::numeric
+    - COALESCE((elem->>'discount')::numeric, 0)
+  ), 0)
+  INTO v_subtotal
+  FROM jsonb_array_elements(p_items) AS elem;
+
+  v_is_vat_applicable := v_customer.vat_status = 'VAT';
+  IF v_is_vat_applicable THEN
+    SELECT COALESCE(vat_rate, 0) INTO v_vat_rate FROM system_settings LIMIT 1;
+    v_vat_amount := ROUND(v_subtotal * COALESCE(v_vat_rate, 0), 2);
+  END IF;
+
+  INSERT INTO orders (
+    customer_id,
+    status,
+    purchase_order_id,
+    created_by,
+    assigned_to,
+    vehicle_number,
+    delivery_date,
+    total_amount,
+    vat_amount,
+    is_vat_applicable
+  ) VALUES (
+    p_customer_id,
+    'Assigned',
+    NULLIF(TRIM(p_purchase_order_id), ''),
+    v_user_id,
+    p_assigned_to,
+    NULLIF(TRIM(p_vehicle_number), ''),
+    COALESCE(p_delivery_date, CURRENT_DATE),
+    v_subtotal + v_vat_amount,
+    v_vat_amount,
+    v_is_vat_applicable
+  )
+  RETURNING * INTO v_order;
+
+  -- The new order now counts as undelivered, so the hold includes it
+  v_hold_reasons := customer_credit_hold_reasons(p_customer_id);
+  IF v_hold_reasons IS NOT NULL AND use_credit_override(p_customer_id, v_order.id) IS NULL THEN
+    RAISE EXCEPTION 'This customer is on credit hold (%). A Finance Admin must approve an override in Receivables before this order can be placed.',
+      v_hold_reasons;
+  END IF;
+
+  FOR v_line IN
+    SELECT
+      (elem->>'product_id')::uuid AS product_id,
+      (elem->>'quantity')::numeric AS quantity,
+      (elem->>'price')::numeric AS price,
+      COALESCE((elem->>'discount')::numeric, 0) AS discount,
+      NULLIF(elem->>'override_id', '')::uuid AS override_id
+    FROM jsonb_array_elements(p_items) WITH ORDINALITY AS lines(elem, line_number)
+    ORDER BY line_number
+  LOOP
+    INSERT INTO order_items (order_id, item_id, quantity, price, discount)
+    VALUES (v_order.id, v_line.product_id, v_line.quantity, v_line.price, v_line.discount)
+    RETURNING id INTO v_order_item_id;
+
+    PERFORM enforce_price_band(
+      v_line.product_id, p_customer_id, 'sales_order', v_line.price, v_line.override_id, v_order.id, v_order_item_id
+    );
+  END LOOP;
+
+  FOR v_item IN
+    SELECT (elem->>'product_id')::uuid AS product_id, SUM((elem->>'quantity')::numeric) AS quantity
+    FROM jsonb_array_elements(p_items) AS elem
+    GROUP BY (elem->>'product_id')::uuid
+    ORDER BY (elem->>'product_id')::uuid
+  LOOP
+    PERFORM record_stock_movement(
+      v_item.product_id, -v_item.quantity, 'sale', 'order', v_order.id, v_order.order_display_id, NULL
+    );
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_sales_order(uuid, uuid, jsonb, text, date, text) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_sales_order(uuid, uuid, jsonb, text, date, text) TO authenticated;